@@ -0,0 +1,36 @@
+#!/usr/bin/env ts-node
+/**
+ * Migration Script: Receipt images to blob storage
+ *
+ * Moves session receipt images still stored as base64 in the database to the
+ * configured blob store, with thumbnails, and clears them from the database
+ * Usage: npm run db:migrate-receipt-images
+ *
+ * Prerequisites:
+ * - Migration 027_move_receipt_images_to_blob_storage.sql has been applied
+ * - DB_* and BLOB_STORE (plus BLOB_DIR or S3_*) environment variables are set
+ *
+ * Safe to re-run: receipts already moved are skipped
+ */
+
+import 'dotenv/config';
+import { getDatabase, closeDatabase } from '../src/db';
+import { getBlobStore } from '../src/services/blobStorage';
+import { moveReceiptImagesToBlobStore } from '../src/services/receiptImages';
+
+async function migrate() {
+  console.log('[ReceiptImages] Moving receipt images to blob storage:', getBlobStore().name);
+  getDatabase();
+
+  try {
+    const moved = await moveReceiptImagesToBlobStore();
+    console.log(`[ReceiptImages] Moved ${moved} receipt image(s)`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+migrate().catch((error) => {
+  console.error('[ReceiptImages] Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+#!/usr/bin/env ts-node
+/**
+ * Migration Script: Normalize stored barcodes
+ *
+ * Re-keys barcodes stored before normalization (UPC-A, UPC-E, EAN-8 and
+ * EAN-13 forms) to GTIN-14 on cached products, pantry items, shopping list
+ * items, session items and price observations. Where one product was cached
+ * under several forms, the most recently synced entry is kept
+ * Usage: npm run db:normalize-barcodes
+ *
+ * Prerequisites:
+ * - DB_* environment variables are set
+ *
+ * Codes that aren't GTINs are left as they are; GTIN-length codes with a
+ * wrong check digit are listed so they can be fixed by hand
+ * Safe to re-run: normalized barcodes are skipped
+ */
+
+import 'dotenv/config';
+import { getDatabase, closeDatabase } from '../src/db';
+import { normalizeBarcode } from '../src/services/barcode';
+
+async function migrate() {
+  const db = getDatabase();
+
+  try {
+    const barcodes = await db.listStoredBarcodes();
+    const invalid: string[] = [];
+    let renamed = 0;
+
+    for (const barcode of barcodes) {
+      const normalized = normalizeBarcode(barcode);
+      if (normalized === null) {
+        invalid.push(barcode);
+      } else if (normalized !== barcode) {
+        await db.renameBarcode(barcode, normalized);
+        renamed++;
+      }
+    }
+
+    console.log(`[Barcodes] Normalized ${renamed} of ${barcodes.length} barcode(s)`);
+    if (invalid.length > 0) {
+      console.warn(`[Barcodes] ${invalid.length} barcode(s) have a wrong check digit: ${invalid.join(', ')}`);
+    }
+  } finally {
+    closeDatabase();
+  }
+}
+
+migrate().catch((error) => {
+  console.error('[Barcodes] Migration failed:', error);
+  process.exit(1);
+});
@@ -26,6 +26,8 @@ export {
   deleteItem,
   adjustItemQuantity,
   getCategories,
+  getItemLots,
+  getExpiringLots,
 } from './db/operations';
 
 export {
@@ -5,13 +5,18 @@
 
 import {
   PantryItem,
+  ItemLot,
+  ExpiringLot,
+  WasteEntry,
   Activity,
   ActivityType,
   ActivitySource,
+  ActivityReason,
   ScanResult,
   UsageResult,
   ProductInfo,
   ProductCacheInput,
+  ItemSearchResult,
 } from '../models/types';
 import {
   ShoppingSession,
@@ -19,7 +24,37 @@ import {
   SessionItem,
   SessionSummary,
   SessionReceipt,
+  StoredReceiptImage,
+  UnmovedSessionReceipt,
+  ReceiptHeader,
+  ReconciliationFix,
 } from '../models/shoppingSession';
+import { ShoppingListItem } from '../models/shoppingList';
+import {
+  Household,
+  HouseholdMember,
+  HouseholdMembership,
+  HouseholdRole,
+  HouseholdInvite,
+  HouseholdInviteRole,
+} from '../models/household';
+import { Recipe } from '../models/recipe';
+import { MealPlanEntry, MealSlot } from '../models/mealPlan';
+import { StorageLocation, MoveItemResult } from '../models/storageLocation';
+import { UserRole, RoleAssignment, RoleAuditEntry } from '../models/role';
+import { PriceObservation, PriceSource } from '../models/price';
+import { Budget, BudgetPeriod, SessionSpend } from '../models/budget';
+import { ReceiptJob, ReceiptJobStatus, ClaimedReceiptJob, SessionReceiptTarget } from '../models/receiptJob';
+import {
+  StripeWebhookEvent,
+  StripeWebhookEventStatus,
+  ClaimedStripeWebhookEvent,
+  NewStripeWebhookEvent,
+} from '../models/stripeWebhookEvent';
+import { ProductSyncEntry, ProductSyncStatus, ProductSyncStats, ClaimedProductSync } from '../models/productSync';
+import { CatalogProduct, CatalogProductInput } from '../models/productCatalog';
+import type { ReceiptScanResult } from '../services/receiptOcr';
+import type { TokenBucket, RateLimitResult } from '../services/rateLimit';
 
 /**
  * Input type for creating a new pantry item
@@ -30,10 +65,19 @@ export interface CreateItemInput {
   unit: string;
   category: string;
   barcode?: string;
+  /** Best-before date for the opening lot (YYYY-MM-DD) */
+  bestBefore?: string;
+  minQuantity?: number;
+  targetQuantity?: number;
+  /** Storage location to keep the item in */
+  locationId?: string;
+  /** Density in g/ml */
+  density?: number;
 }
 
 /**
  * Input type for updating an existing pantry item
+ * Thresholds and density can be cleared by passing null
  */
 export interface UpdateItemInput {
   name?: string;
@@ -41,6 +85,48 @@ export interface UpdateItemInput {
   quantity?: number;
   unit?: string;
   category?: string;
+  minQuantity?: number | null;
+  targetQuantity?: number | null;
+  density?: number | null;
+}
+
+/**
+ * Optional details for logActivity
+ * Lot fields only apply to activities that add stock
+ */
+export interface LogActivityOptions {
+  /** Why the stock changed (consumed, expired, donated, ...) */
+  reason?: ActivityReason;
+  /** User ID of the household member making the change */
+  performedBy?: string;
+  /** Purchase date for the created lot (YYYY-MM-DD, defaults to today) */
+  purchaseDate?: string;
+  /** Best-before date for the created lot (YYYY-MM-DD) */
+  bestBefore?: string;
+  /** Unit the amount is given in; converted to the item's unit when it differs */
+  unit?: string;
+}
+
+/**
+ * Optional details for moveItem
+ */
+export interface MoveItemOptions {
+  /** Amount to move; less than the item's stock splits it (defaults to all) */
+  quantity?: number;
+  /** User ID of the household member making the change */
+  performedBy?: string;
+}
+
+/**
+ * Optional filters for searchItems
+ */
+export interface ItemSearchOptions {
+  /** Maximum number of results (defaults to DEFAULT_SEARCH_LIMIT) */
+  limit?: number;
+  /** Only search items in this category */
+  category?: string;
+  /** Only search items in this storage location (null: no location) */
+  locationId?: string | null;
 }
 
 /**
@@ -61,6 +147,30 @@ export interface AddSessionItemInput {
   unit?: string;
   price?: number;
   category?: string;
+  bestBefore?: string;
+}
+
+/**
+ * Input type for adding an entry to the shopping list
+ */
+export interface AddShoppingListItemInput {
+  itemId?: string;
+  name: string;
+  quantity: number;
+  unit?: string;
+  category?: string;
+  barcode?: string;
+}
+
+/**
+ * Input type for updating a shopping list entry
+ */
+export interface UpdateShoppingListItemInput {
+  name?: string;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  checked?: boolean;
 }
 
 /**
@@ -69,11 +179,123 @@ export interface AddSessionItemInput {
 export interface CompleteSessionInput {
   receiptUrl?: string;
   notes?: string;
+  /** User ID of the household member completing the session */
+  performedBy?: string;
+}
+
+/**
+ * Input type for creating a household invite
+ */
+export interface CreateHouseholdInviteInput {
+  email: string;
+  role: HouseholdInviteRole;
+  invitedBy: string;
+  expiresAt: string;
+}
+
+/**
+ * Ingredient line for creating or updating a recipe
+ */
+export interface RecipeIngredientInput {
+  name: string;
+  quantity?: number;
+  unit?: string;
+}
+
+/**
+ * Input type for creating a recipe
+ */
+export interface CreateRecipeInput {
+  name: string;
+  description?: string;
+  servings?: number;
+  instructions?: string;
+  sourceUrl?: string;
+  ingredients: RecipeIngredientInput[];
+}
+
+/**
+ * Input type for updating a recipe
+ * A given ingredients list replaces the existing lines
+ */
+export interface UpdateRecipeInput {
+  name?: string;
+  description?: string;
+  servings?: number;
+  instructions?: string;
+  sourceUrl?: string;
+  ingredients?: RecipeIngredientInput[];
+}
+
+/**
+ * Input type for planning a meal
+ */
+export interface CreateMealPlanEntryInput {
+  date: string;
+  slot: MealSlot;
+  recipeId?: string;
+  title: string;
+  servings?: number;
+  notes?: string;
+  ingredients: RecipeIngredientInput[];
+}
+
+/**
+ * Input type for updating a planned meal
+ * Nullable fields are cleared by passing null; ingredients replace the existing lines
+ */
+export interface UpdateMealPlanEntryInput {
+  date?: string;
+  slot?: MealSlot;
+  recipeId?: string | null;
+  title?: string;
+  servings?: number | null;
+  notes?: string | null;
+  ingredients?: RecipeIngredientInput[];
+}
+
+/**
+ * Input type for recording a price paid
+ */
+export interface RecordPriceInput {
+  barcode?: string;
+  name: string;
+  /** Price paid per unit bought */
+  price: number;
+  quantity: number;
+  unit?: string;
+  storeName?: string;
+  source: PriceSource;
+  sessionId?: string;
+  /** ISO 8601 timestamp of the purchase (defaults to now) */
+  observedAt?: string;
+}
+
+/**
+ * Filter for reading price history
+ */
+export interface PriceHistoryFilter {
+  /** Only prices for these products, matched by barcode or normalized name */
+  products?: Array<{ barcode?: string; name?: string }>;
+  /** Only prices observed at or after this ISO 8601 timestamp */
+  since?: string;
+}
+
+/**
+ * Input type for creating a budget
+ */
+export interface CreateBudgetInput {
+  period: BudgetPeriod;
+  category?: string;
+  amount: number;
 }
 
 /**
  * Database Adapter Interface
  * All database implementations must implement this interface
+ *
+ * Inventory methods take the inventory owner as `userId`: the user's own ID,
+ * or the household ID when the user belongs to a household.
  */
 export interface DatabaseAdapter {
   /**
@@ -92,8 +314,9 @@ export interface DatabaseAdapter {
 
   /**
    * Get all pantry items for a user with optional filtering
+   * locationId null lists only items without a storage location
    */
-  getAllItems(userId: string, category?: string): Promise<PantryItem[]>;
+  getAllItems(userId: string, category?: string, locationId?: string | null): Promise<PantryItem[]>;
 
   /**
    * Get a single pantry item by ID (for a specific user)
@@ -102,13 +325,30 @@ export interface DatabaseAdapter {
 
   /**
    * Get a pantry item by name (case-insensitive) for a specific user
+   * A locationId limits the match to that location (null: no location);
+   * omitted, items in any location match
    */
-  getItemByName(userId: string, name: string): Promise<PantryItem | null>;
+  getItemByName(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null>;
 
   /**
    * Get a pantry item by barcode for a specific user
+   * locationId narrows the match as for getItemByName
+   */
+  getItemByBarcode(userId: string, barcode: string, locationId?: string | null): Promise<PantryItem | null>;
+
+  /**
+   * Search a user's items by name, barcode, brand (from the product cache)
+   * and category, best match first
+   * Matches word prefixes and tolerates small typos
+   */
+  searchItems(userId: string, query: string, options?: ItemSearchOptions): Promise<ItemSearchResult[]>;
+
+  /**
+   * Find the item a scanned or detected name refers to
+   * An exact name match, otherwise the best search result scoring at least
+   * MIN_MATCH_SCORE. locationId narrows the match as for getItemByName
    */
-  getItemByBarcode(userId: string, barcode: string): Promise<PantryItem | null>;
+  findItemMatch(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null>;
 
   /**
    * Create a new pantry item for a user
@@ -129,6 +369,7 @@ export interface DatabaseAdapter {
 
   /**
    * Adjust item quantity directly for a user (used by activity logging)
+   * Dropping below minQuantity adds the item to the shopping list
    */
   adjustItemQuantity(userId: string, id: string, adjustment: number): Promise<PantryItem | null>;
 
@@ -137,27 +378,104 @@ export interface DatabaseAdapter {
    */
   getCategories(userId: string): Promise<string[]>;
 
+  /**
+   * Move an item to a storage location (null: out of any location)
+   * Moving part of the stock transfers it, with its lots, to the item of the
+   * same name and unit at the destination, creating one if needed.
+   * Logs MOVED activities. Returns null if item not found
+   */
+  moveItem(
+    userId: string,
+    itemId: string,
+    locationId: string | null,
+    options?: MoveItemOptions
+  ): Promise<MoveItemResult | null>;
+
+  // ==========================================================================
+  // Storage Location Operations
+  // ==========================================================================
+
+  /**
+   * Get a user's storage locations with their item counts, ordered by name
+   */
+  getStorageLocations(userId: string): Promise<StorageLocation[]>;
+
+  /**
+   * Get a single storage location by ID
+   */
+  getStorageLocationById(userId: string, id: string): Promise<StorageLocation | null>;
+
+  /**
+   * Get a storage location by name (case-insensitive)
+   */
+  getStorageLocationByName(userId: string, name: string): Promise<StorageLocation | null>;
+
+  /**
+   * Create a storage location
+   */
+  createStorageLocation(userId: string, name: string): Promise<StorageLocation>;
+
+  /**
+   * Rename a storage location
+   * Returns null if location not found
+   */
+  updateStorageLocation(userId: string, id: string, name: string): Promise<StorageLocation | null>;
+
+  /**
+   * Delete a storage location; its items are kept without a location
+   */
+  deleteStorageLocation(userId: string, id: string): Promise<boolean>;
+
+  // ==========================================================================
+  // Item Lot Operations
+  // ==========================================================================
+
+  /**
+   * Get the open lots for an item, ordered first-expiring-first
+   * Lots are created and consumed as a side effect of quantity changes
+   */
+  getItemLots(userId: string, itemId: string): Promise<ItemLot[]>;
+
+  /**
+   * Get open lots whose best-before date is on or before the cutoff date
+   * Ordered soonest first; includes lots that have already expired
+   */
+  getExpiringLots(userId: string, cutoffDate: string): Promise<ExpiringLot[]>;
+
+  /**
+   * Get waste entries dated between fromDate and toDate (inclusive)
+   * Lots past their best-before date with stock remaining, and REMOVE
+   * activities with a waste reason (EXPIRED, SPOILED), count as waste.
+   * Priced from the average SessionItem price for the same product
+   */
+  getWasteEntries(userId: string, fromDate: string, toDate: string): Promise<WasteEntry[]>;
+
   // ==========================================================================
   // Activity Operations
   // ==========================================================================
 
   /**
    * Get all activities for a user with pagination
+   * Optionally filtered by item and/or reason
    */
   getActivities(
     userId: string,
     limit?: number,
     offset?: number,
-    itemId?: string
+    itemId?: string,
+    reason?: ActivityReason
   ): Promise<Activity[]>;
 
   /**
    * Get total count of activities for a user (for pagination)
    */
-  getActivityCount(userId: string, itemId?: string): Promise<number>;
+  getActivityCount(userId: string, itemId?: string, reason?: ActivityReason): Promise<number>;
 
   /**
    * Log a new activity for a user and update item quantity
+   * Stock increases create a lot; decreases consume lots first-expiring-first
+   * Dropping below minQuantity adds the item to the shopping list
+   * Throws an IncompatibleUnitsError if options.unit can't be converted
    * This is a transaction to ensure data consistency
    */
   logActivity(
@@ -165,9 +483,203 @@ export interface DatabaseAdapter {
     itemId: string,
     type: ActivityType,
     amount: number,
-    source?: ActivitySource
+    source?: ActivitySource,
+    options?: LogActivityOptions
   ): Promise<Activity | null>;
 
+  // ==========================================================================
+  // Shopping List Operations
+  // ==========================================================================
+
+  /**
+   * Get a user's shopping list, unchecked entries first
+   * Optionally filtered by checked state
+   */
+  getShoppingList(userId: string, checked?: boolean): Promise<ShoppingListItem[]>;
+
+  /**
+   * Get a single shopping list entry by ID
+   */
+  getShoppingListItemById(userId: string, id: string): Promise<ShoppingListItem | null>;
+
+  /**
+   * Add a manual entry to the shopping list
+   */
+  addShoppingListItem(userId: string, input: AddShoppingListItemInput): Promise<ShoppingListItem>;
+
+  /**
+   * Update a shopping list entry (including checking it off)
+   * Returns null if entry not found
+   */
+  updateShoppingListItem(
+    userId: string,
+    id: string,
+    input: UpdateShoppingListItemInput
+  ): Promise<ShoppingListItem | null>;
+
+  /**
+   * Delete a shopping list entry
+   */
+  deleteShoppingListItem(userId: string, id: string): Promise<boolean>;
+
+  /**
+   * Delete several shopping list entries at once
+   * Returns the number of entries deleted
+   */
+  deleteShoppingListItems(userId: string, ids: string[]): Promise<number>;
+
+  // ==========================================================================
+  // Household Operations
+  // ==========================================================================
+
+  /**
+   * Create a household owned by a user
+   * The owner's personal inventory moves into the household
+   */
+  createHousehold(ownerId: string, name: string): Promise<Household>;
+
+  /**
+   * Get a household by ID
+   */
+  getHouseholdById(householdId: string): Promise<Household | null>;
+
+  /**
+   * Get a household by its invite code (case-insensitive)
+   */
+  getHouseholdByInviteCode(inviteCode: string): Promise<Household | null>;
+
+  /**
+   * Get the household a user belongs to, with their role
+   */
+  getHouseholdForUser(userId: string): Promise<HouseholdMembership | null>;
+
+  /**
+   * Rename a household
+   */
+  updateHouseholdName(householdId: string, name: string): Promise<Household | null>;
+
+  /**
+   * Replace a household's invite code, invalidating the old one
+   */
+  regenerateHouseholdInviteCode(householdId: string): Promise<Household | null>;
+
+  /**
+   * Delete a household, returning its inventory to the given user
+   */
+  deleteHousehold(householdId: string, inventoryOwnerId: string): Promise<boolean>;
+
+  /**
+   * List the members of a household, owner first
+   */
+  getHouseholdMembers(householdId: string): Promise<HouseholdMember[]>;
+
+  /**
+   * Add a user to a household
+   */
+  addHouseholdMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember>;
+
+  /**
+   * Change a member's role
+   * Returns null if the user is not a member
+   */
+  updateHouseholdMemberRole(
+    householdId: string,
+    userId: string,
+    role: HouseholdRole
+  ): Promise<HouseholdMember | null>;
+
+  /**
+   * Remove a user from a household
+   */
+  removeHouseholdMember(householdId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Create an emailed invite to a household
+   */
+  createHouseholdInvite(householdId: string, input: CreateHouseholdInviteInput): Promise<HouseholdInvite>;
+
+  /**
+   * Get an invite by its token
+   */
+  getHouseholdInviteByToken(token: string): Promise<HouseholdInvite | null>;
+
+  /**
+   * List invites for a household that have not been accepted
+   */
+  getPendingHouseholdInvites(householdId: string): Promise<HouseholdInvite[]>;
+
+  /**
+   * Mark an invite as accepted by a user
+   */
+  markHouseholdInviteAccepted(inviteId: string, userId: string): Promise<void>;
+
+  /**
+   * Revoke (delete) a pending invite
+   */
+  deleteHouseholdInvite(householdId: string, inviteId: string): Promise<boolean>;
+
+  // ==========================================================================
+  // Recipe Operations
+  // ==========================================================================
+
+  /**
+   * Get all recipes for a user with their ingredients, ordered by name
+   */
+  getRecipes(userId: string): Promise<Recipe[]>;
+
+  /**
+   * Get a single recipe with its ingredients
+   */
+  getRecipeById(userId: string, id: string): Promise<Recipe | null>;
+
+  /**
+   * Create a recipe and its ingredient lines
+   */
+  createRecipe(userId: string, input: CreateRecipeInput): Promise<Recipe>;
+
+  /**
+   * Update a recipe
+   * Returns null if recipe not found
+   */
+  updateRecipe(userId: string, id: string, input: UpdateRecipeInput): Promise<Recipe | null>;
+
+  /**
+   * Delete a recipe and its ingredient lines
+   * Meal plan entries cooking it keep their title and free-text ingredients
+   */
+  deleteRecipe(userId: string, id: string): Promise<boolean>;
+
+  // ==========================================================================
+  // Meal Plan Operations
+  // ==========================================================================
+
+  /**
+   * Get planned meals with their ingredients, ordered by date and slot
+   * Optionally limited to a date range (inclusive, YYYY-MM-DD)
+   */
+  getMealPlan(userId: string, from?: string, to?: string): Promise<MealPlanEntry[]>;
+
+  /**
+   * Get a single planned meal with its ingredients
+   */
+  getMealPlanEntryById(userId: string, id: string): Promise<MealPlanEntry | null>;
+
+  /**
+   * Plan a meal and its free-text ingredient lines
+   */
+  createMealPlanEntry(userId: string, input: CreateMealPlanEntryInput): Promise<MealPlanEntry>;
+
+  /**
+   * Update a planned meal
+   * Returns null if entry not found
+   */
+  updateMealPlanEntry(userId: string, id: string, input: UpdateMealPlanEntryInput): Promise<MealPlanEntry | null>;
+
+  /**
+   * Delete a planned meal and its ingredient lines
+   */
+  deleteMealPlanEntry(userId: string, id: string): Promise<boolean>;
+
   // ==========================================================================
   // Scan Receipt Operations
   // ==========================================================================
@@ -184,12 +696,14 @@ export interface DatabaseAdapter {
 
   /**
    * Process visual usage detection results for a user
-   * Creates REMOVE activities for detected usage
+   * Creates REMOVE activities for detected usage, from the item matching the
+   * detected name (findItemMatch) in the detection's location when one is given
    */
   processVisualUsage(
     userId: string,
     detections: UsageResult[],
-    source?: string
+    source?: string,
+    performedBy?: string
   ): Promise<{ processed: UsageResult[]; activities: Activity[]; errors: string[] }>;
 
   // ==========================================================================
@@ -198,6 +712,7 @@ export interface DatabaseAdapter {
 
   /**
    * Look up a cached product by barcode
+   * Placeholder rows for barcodes queued before any product is known are skipped
    * @param barcode The barcode to look up
    * @param maxAgeDays Maximum age of cache in days (optional - returns stale if not specified)
    * @returns ProductInfo if found and not stale, null otherwise
@@ -206,10 +721,22 @@ export interface DatabaseAdapter {
 
   /**
    * Save a product to the cache
-   * Updates if exists, inserts if not
+   * Updates if exists, inserts if not, and takes it off the sync queue
    */
   saveProduct(input: ProductCacheInput): Promise<void>;
 
+  /**
+   * Every distinct barcode stored on cached products, pantry items, shopping
+   * list items, session items and price observations
+   */
+  listStoredBarcodes(): Promise<string[]>;
+
+  /**
+   * Change a barcode to another everywhere it is stored (normalizing old rows)
+   * If both barcodes have a cached product, the more recently synced one is kept
+   */
+  renameBarcode(from: string, to: string): Promise<void>;
+
   // ==========================================================================
   // Raw Query Access (for subscription service)
   // ==========================================================================
@@ -228,8 +755,9 @@ export interface DatabaseAdapter {
 
   /**
    * Execute within a transaction
+   * Adapter calls awaited inside fn join the transaction; it rolls back if fn throws
    */
-  transaction<T>(fn: () => T): Promise<T> | T;
+  transaction<T>(fn: () => Promise<T> | T): Promise<T>;
 
   // ==========================================================================
   // Client Error Operations
@@ -272,6 +800,38 @@ export interface DatabaseAdapter {
    */
   markErrorResolved(id: string): Promise<void>;
 
+  // ==========================================================================
+  // Role Operations
+  // ==========================================================================
+
+  /**
+   * List the staff roles granted to a user in the local user_roles table
+   */
+  getUserRoles(userId: string): Promise<UserRole[]>;
+
+  /**
+   * List every local role grant, newest first
+   */
+  getRoleAssignments(): Promise<RoleAssignment[]>;
+
+  /**
+   * Grant a staff role and record it in the audit log
+   * Returns null if the user already holds the role
+   */
+  grantRole(userId: string, role: UserRole, grantedBy: string): Promise<RoleAssignment | null>;
+
+  /**
+   * Revoke a staff role and record it in the audit log
+   * Returns false if the user did not hold the role
+   */
+  revokeRole(userId: string, role: UserRole, revokedBy: string): Promise<boolean>;
+
+  /**
+   * List role grants and revocations, newest first
+   * userId limits the log to changes to that user's roles
+   */
+  getRoleAuditLog(limit: number, offset: number, userId?: string): Promise<RoleAuditEntry[]>;
+
   // ==========================================================================
   // Shopping Session Operations
   // ==========================================================================
@@ -320,7 +880,8 @@ export interface DatabaseAdapter {
 
   /**
    * Complete a shopping session
-   * Marks as completed and sets final totals
+   * Marks as completed, sets final totals and records the price of each
+   * priced item in the price history
    */
   completeSession(
     userId: string,
@@ -348,29 +909,94 @@ export interface DatabaseAdapter {
    */
   getSessionSummary(userId: string): Promise<SessionSummary>;
 
+  /**
+   * Spend of sessions completed between two dates (YYYY-MM-DD, inclusive),
+   * oldest first, with priced items summed per category
+   */
+  getSessionSpend(userId: string, fromDate: string, toDate: string): Promise<SessionSpend[]>;
+
+  /**
+   * Apply receipt reconciliation fixes to a completed session
+   * Updates prices, removes and adds items, then recomputes the session totals
+   * and re-records its prices in the price history
+   * Returns null if the session is not found or not completed
+   */
+  applySessionFixes(
+    userId: string,
+    sessionId: string,
+    fixes: ReconciliationFix[]
+  ): Promise<ShoppingSessionWithItems | null>;
+
   /**
    * Add all items from a completed shopping session to pantry inventory
    * Creates PantryItem entries for each SessionItem with a barcode
-   * Logs ADD activity for each item added
+   * Logs ADD activity for each item added, converted to the pantry item's unit
+   * Adds nothing if any item's unit can't be converted
    * Returns the created PantryItem entries
    */
   addSessionToInventory(
     userId: string,
-    sessionId: string
+    sessionId: string,
+    performedBy?: string
   ): Promise<{ items: PantryItem[]; activities: Activity[] }>;
 
+  // ==========================================================================
+  // Price History Operations
+  // ==========================================================================
+
+  /**
+   * Record prices paid, normalized to a comparable unit price
+   * Prices that are not positive are skipped
+   */
+  recordPrices(userId: string, inputs: RecordPriceInput[]): Promise<PriceObservation[]>;
+
+  /**
+   * Get recorded prices, oldest first
+   */
+  getPriceHistory(userId: string, filter?: PriceHistoryFilter): Promise<PriceObservation[]>;
+
+  // ==========================================================================
+  // Budget Operations
+  // ==========================================================================
+
+  /**
+   * List budgets, overall budgets first
+   */
+  getBudgets(userId: string): Promise<Budget[]>;
+
+  /**
+   * Get a budget by ID
+   */
+  getBudgetById(userId: string, id: string): Promise<Budget | null>;
+
+  /**
+   * Create a budget
+   * Returns null when a budget for the same period and category
+   * (case-insensitive) already exists
+   */
+  createBudget(userId: string, input: CreateBudgetInput): Promise<Budget | null>;
+
+  /**
+   * Change a budget's amount
+   */
+  updateBudget(userId: string, id: string, amount: number): Promise<Budget | null>;
+
+  /**
+   * Delete a budget
+   */
+  deleteBudget(userId: string, id: string): Promise<boolean>;
+
   // ==========================================================================
   // Session Receipt Operations
   // ==========================================================================
 
   /**
-   * Capture a receipt image for a session
+   * Record a receipt for a session, its image already in blob storage
    */
   captureSessionReceipt(
     userId: string,
     sessionId: string,
-    imageData: string,
-    mimeType: string,
+    image: StoredReceiptImage,
     notes?: string
   ): Promise<SessionReceipt>;
 
@@ -391,6 +1017,18 @@ export interface DatabaseAdapter {
     receiptId: string
   ): Promise<SessionReceipt | null>;
 
+  /**
+   * Store the header read off a session receipt
+   * For completed sessions, the purchase date on it replaces completedAt,
+   * including for the prices recorded from the session
+   */
+  saveSessionReceiptHeader(
+    userId: string,
+    sessionId: string,
+    receiptId: string,
+    header: ReceiptHeader
+  ): Promise<SessionReceipt | null>;
+
   /**
    * Delete a session receipt
    */
@@ -399,4 +1037,186 @@ export interface DatabaseAdapter {
     sessionId: string,
     receiptId: string
   ): Promise<boolean>;
+
+  /**
+   * Receipts whose image is still stored in the database, oldest first
+   */
+  listUnmovedSessionReceipts(limit: number): Promise<UnmovedSessionReceipt[]>;
+
+  /**
+   * A receipt's image still stored in the database, or null once it has
+   * been moved to blob storage (or the receipt is gone)
+   */
+  getUnmovedSessionReceipt(receiptId: string): Promise<UnmovedSessionReceipt | null>;
+
+  /**
+   * Point a receipt at its image in blob storage and drop the copy in the
+   * database. False if the receipt is gone or was already moved
+   */
+  moveSessionReceiptImage(receiptId: string, image: StoredReceiptImage): Promise<boolean>;
+
+  // ==========================================================================
+  // Receipt Job Operations
+  // ==========================================================================
+
+  /**
+   * Queue a receipt image for scanning; with sessionReceipt, the image is that
+   * captured session receipt and the scan's header is saved on it
+   */
+  createReceiptJob(
+    userId: string,
+    imageData: string,
+    maxAttempts: number,
+    sessionReceipt?: SessionReceiptTarget
+  ): Promise<ReceiptJob>;
+
+  /**
+   * Get a receipt job, limited to the user's jobs when userId is given
+   */
+  getReceiptJob(id: string, userId?: string): Promise<ReceiptJob | null>;
+
+  /**
+   * Claim up to `limit` due jobs, oldest first, and start their next run
+   * Claims last leaseMs; a PROCESSING job past its lease is claimed again
+   */
+  claimReceiptJobs(limit: number, leaseMs: number): Promise<ClaimedReceiptJob[]>;
+
+  /**
+   * Store a claimed job's scan and drop its image
+   * Returns null if the job is no longer PROCESSING
+   */
+  completeReceiptJob(id: string, result: ReceiptScanResult): Promise<ReceiptJob | null>;
+
+  /**
+   * Record a failed run: the job runs again from retryAt, or fails for good without one
+   * Returns null if the job is no longer PROCESSING
+   */
+  failReceiptJob(id: string, error: string, retryAt?: string): Promise<ReceiptJob | null>;
+
+  /**
+   * List receipt jobs of all users, newest first
+   */
+  listReceiptJobs(status: ReceiptJobStatus | undefined, limit: number, offset: number): Promise<ReceiptJob[]>;
+
+  /**
+   * Queue a FAILED job again with its attempts reset
+   */
+  retryReceiptJob(id: string): Promise<ReceiptJob | null>;
+
+  // ==========================================================================
+  // Stripe Webhook Event Operations
+  // ==========================================================================
+
+  /**
+   * Record a webhook delivery and claim the event for processing
+   * A new event, a FAILED one or a PROCESSING one past its lease (the
+   * handler died) is claimed for leaseMs. Returns null when the event was
+   * already processed or another delivery is processing it
+   */
+  beginStripeWebhookEvent(event: NewStripeWebhookEvent, leaseMs: number): Promise<ClaimedStripeWebhookEvent | null>;
+
+  /**
+   * Claim a FAILED event for replay
+   * Returns null if there is no FAILED event with that ID
+   */
+  claimFailedStripeWebhookEvent(id: string, leaseMs: number): Promise<ClaimedStripeWebhookEvent | null>;
+
+  /**
+   * Mark a claimed event PROCESSED or SKIPPED, with the user it concerned
+   * Returns null if the event is no longer PROCESSING
+   */
+  completeStripeWebhookEvent(
+    id: string,
+    status: 'PROCESSED' | 'SKIPPED',
+    userId?: string
+  ): Promise<StripeWebhookEvent | null>;
+
+  /**
+   * Record why a claimed event failed
+   * Returns null if the event is no longer PROCESSING
+   */
+  failStripeWebhookEvent(id: string, error: string): Promise<StripeWebhookEvent | null>;
+
+  /**
+   * Get a recorded webhook event, without its payload
+   */
+  getStripeWebhookEvent(id: string): Promise<StripeWebhookEvent | null>;
+
+  /**
+   * List recorded webhook events, newest first, without their payloads
+   */
+  listStripeWebhookEvents(
+    status: StripeWebhookEventStatus | undefined,
+    limit: number,
+    offset: number
+  ): Promise<StripeWebhookEvent[]>;
+
+  /**
+   * Whether an event of one of eventTypes about objectId, created by Stripe
+   * after stripeCreatedAt, has already been processed
+   */
+  hasNewerStripeWebhookEvent(objectId: string, eventTypes: string[], stripeCreatedAt: string): Promise<boolean>;
+
+  // ==========================================================================
+  // Rate Limit Operations
+  // ==========================================================================
+
+  /**
+   * Take cost tokens from the bucket at key, refilled for the time since it
+   * was last used. A bucket never used starts full
+   */
+  takeRateLimitTokens(key: string, bucket: TokenBucket, cost: number): Promise<RateLimitResult>;
+
+  /**
+   * Delete buckets last used before `before` (milliseconds since the epoch)
+   * Returns how many were deleted
+   */
+  deleteIdleRateLimitBuckets(before: number): Promise<number>;
+
+  // ==========================================================================
+  // Product Sync Queue Operations
+  // ==========================================================================
+
+  /**
+   * Queue a barcode for a background lookup from syncAfter (ISO 8601)
+   * A placeholder row is added if no product is cached. A barcode already
+   * queued keeps its schedule and attempts; one given up on starts over
+   */
+  enqueueProductSync(barcode: string, error: string, syncAfter: string): Promise<void>;
+
+  /**
+   * Claim up to limit queued barcodes that are due, oldest first, holding
+   * them for leaseMs so other workers leave them alone
+   */
+  claimProductSyncs(limit: number, leaseMs: number): Promise<ClaimedProductSync[]>;
+
+  /**
+   * Put off a queued barcode until syncAfter without counting an attempt
+   */
+  deferProductSync(barcode: string, syncAfter: string): Promise<void>;
+
+  /**
+   * Record a failed lookup: retry at retryAt, or give up when there is none
+   */
+  failProductSync(barcode: string, error: string, retryAt?: string): Promise<void>;
+
+  /**
+   * Queued and given-up barcodes, most recently updated first
+   */
+  listProductSyncs(status: ProductSyncStatus | undefined, limit: number, offset: number): Promise<ProductSyncEntry[]>;
+
+  getProductSyncStats(): Promise<ProductSyncStats>;
+
+  // ==========================================================================
+  // Product Catalog Operations
+  // ==========================================================================
+
+  getCatalogProduct(barcode: string): Promise<CatalogProduct | null>;
+
+  /**
+   * Add a user-contributed product. A barcode already in the catalog stays
+   * its first contributor's: they may correct it, anyone else only fills in
+   * the brand or image it lacks
+   */
+  saveCatalogProduct(input: CatalogProductInput, contributedBy?: string): Promise<CatalogProduct>;
 }
@@ -151,11 +151,21 @@ export async function recordLoginEvent(
 
 /**
  * Record a transaction from Stripe webhook
+ * Does nothing if the Stripe event's transaction is already recorded, so a
+ * replayed event doesn't count twice
  */
 export async function recordTransaction(data: TransactionData): Promise<void> {
   const db = getDatabase();
   const id = generateId();
 
+  if (data.stripeEventId) {
+    const existing = await db.query(
+      `SELECT id FROM admin_transactions WHERE stripe_event_id = ?`,
+      [data.stripeEventId]
+    ) as any[];
+    if (existing.length > 0) return;
+  }
+
   await db.execute(
     `INSERT INTO admin_transactions (
       id, user_id, stripe_customer_id, stripe_subscription_id, stripe_invoice_id,
@@ -0,0 +1,29 @@
+-- Migration: Per-lot expiry tracking for pantry items
+-- Purpose: Track purchase batches with best-before dates so stock can be
+--          consumed first-expiring-first
+
+-- ============================================================================
+-- Item Lots Table
+-- One row per purchase batch; quantity is what remains of the batch
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS item_lots (
+    id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL REFERENCES pantry_items(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    initial_quantity REAL NOT NULL,
+    purchase_date TEXT NOT NULL,
+    best_before TEXT,
+    source TEXT NOT NULL DEFAULT 'MANUAL',
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_lots_item_id ON item_lots(item_id);
+CREATE INDEX IF NOT EXISTS idx_item_lots_user_best_before ON item_lots(user_id, best_before);
+
+-- ============================================================================
+-- Session Items: best-before date carried onto the pantry lot
+-- ============================================================================
+
+ALTER TABLE session_items ADD COLUMN best_before TEXT;
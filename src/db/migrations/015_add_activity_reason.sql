@@ -0,0 +1,13 @@
+-- Migration: Reason taxonomy for activities
+-- Purpose: Record why stock changed (consumed, expired, spoiled, donated,
+--          inventory correction, moved) so analytics and waste reporting can
+--          tell usage apart from loss
+
+-- ============================================================================
+-- Activities: optional reason
+-- ============================================================================
+
+ALTER TABLE activities ADD COLUMN reason TEXT
+    CHECK(reason IS NULL OR reason IN ('CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED', 'INVENTORY_CORRECTION', 'MOVED'));
+
+CREATE INDEX IF NOT EXISTS idx_activities_reason ON activities(reason);
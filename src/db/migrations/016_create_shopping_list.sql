@@ -0,0 +1,34 @@
+-- Migration: Low-stock thresholds and persistent shopping list
+-- Purpose: Items dropping below minQuantity are added to the shopping list
+--          automatically; checked-off entries can start a shopping session
+
+-- ============================================================================
+-- Pantry Items: low-stock thresholds
+-- ============================================================================
+
+ALTER TABLE pantry_items ADD COLUMN min_quantity REAL;
+ALTER TABLE pantry_items ADD COLUMN target_quantity REAL;
+
+-- ============================================================================
+-- Shopping List Items Table
+-- AUTO entries are managed by stock changes; MANUAL entries by the user
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS shopping_list_items (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    item_id TEXT REFERENCES pantry_items(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    quantity REAL NOT NULL DEFAULT 1,
+    unit TEXT,
+    category TEXT,
+    barcode TEXT,
+    checked INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL DEFAULT 'MANUAL' CHECK(source IN ('AUTO', 'MANUAL')),
+    checked_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_list_items_user_id ON shopping_list_items(user_id, checked);
+CREATE INDEX IF NOT EXISTS idx_shopping_list_items_item_id ON shopping_list_items(item_id);
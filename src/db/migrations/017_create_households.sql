@@ -0,0 +1,56 @@
+-- Migration: Shared household inventories
+-- Purpose: Family-tier users share one inventory. Inventory rows of a household
+--          are keyed by the household ID in their user_id column, and each
+--          activity records the member who performed it
+
+-- ============================================================================
+-- Activities: acting member
+-- ============================================================================
+
+ALTER TABLE activities ADD COLUMN performed_by TEXT;
+
+-- ============================================================================
+-- Households Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS households (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Household Members Table
+-- A user belongs to at most one household
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS household_members (
+    household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'viewer')),
+    joined_at TEXT NOT NULL,
+    PRIMARY KEY (household_id, user_id)
+);
+
+-- ============================================================================
+-- Household Invites Table
+-- Emailed invites are accepted with their secret token before expires_at
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS household_invites (
+    id TEXT PRIMARY KEY,
+    household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK(role IN ('editor', 'viewer')),
+    token TEXT NOT NULL UNIQUE,
+    invited_by TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    accepted_at TEXT,
+    accepted_by TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_invites_household_id ON household_invites(household_id);
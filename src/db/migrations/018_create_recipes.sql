@@ -0,0 +1,37 @@
+-- Migration: Recipe catalog
+-- Purpose: Recipes with ingredient lines, matched against pantry items to
+--          suggest what can be cooked and removed from stock when cooked
+
+-- ============================================================================
+-- Recipes Table
+-- user_id is the inventory owner (user or household)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recipes (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    servings INTEGER,
+    instructions TEXT,
+    source_url TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Recipe Ingredients Table
+-- Quantities are for the recipe's stated servings
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS recipe_ingredients (
+    id TEXT PRIMARY KEY,
+    recipe_id TEXT NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    quantity REAL,
+    unit TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_user_id ON recipes(user_id);
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe_id ON recipe_ingredients(recipe_id, position);
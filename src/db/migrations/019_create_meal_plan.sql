@@ -0,0 +1,40 @@
+-- Migration: Meal planner
+-- Purpose: Meals planned per day and slot, each cooking a recipe or a list of
+--          free-text ingredients; upcoming meals reserve pantry stock
+
+-- ============================================================================
+-- Meal Plan Entries Table
+-- user_id is the inventory owner (user or household)
+-- A deleted recipe leaves the entry with its title and own ingredients
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS meal_plan_entries (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    slot TEXT NOT NULL CHECK(slot IN ('BREAKFAST', 'LUNCH', 'DINNER', 'SNACK')),
+    recipe_id TEXT REFERENCES recipes(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    servings INTEGER,
+    notes TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Meal Plan Ingredients Table
+-- Free-text ingredient lines, in addition to the recipe's
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS meal_plan_ingredients (
+    id TEXT PRIMARY KEY,
+    entry_id TEXT NOT NULL REFERENCES meal_plan_entries(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    quantity REAL,
+    unit TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_user_date ON meal_plan_entries(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_recipe_id ON meal_plan_entries(recipe_id);
+CREATE INDEX IF NOT EXISTS idx_meal_plan_ingredients_entry_id ON meal_plan_ingredients(entry_id, position);
@@ -0,0 +1,27 @@
+-- Migration: Storage locations
+-- Purpose: User-defined places items are kept (fridge, freezer, pantry shelf),
+--          so the same product can be tracked separately per location
+
+-- ============================================================================
+-- Storage Locations Table
+-- user_id is the inventory owner (user or household)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS storage_locations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_locations_user_name ON storage_locations(user_id, LOWER(name));
+
+-- ============================================================================
+-- Pantry Items: assigned location
+-- Deleting a location keeps its items, unassigned
+-- ============================================================================
+
+ALTER TABLE pantry_items ADD COLUMN location_id TEXT REFERENCES storage_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pantry_items_location_id ON pantry_items(location_id);
@@ -0,0 +1,61 @@
+-- Migration: Item search index
+-- Purpose: FTS5 index over item names, barcodes, cached brands and categories
+--          for ranked fuzzy search (GET /api/items/search), receipt import and
+--          visual usage matching
+
+-- ============================================================================
+-- Search Index
+-- One row per pantry item; item_id and user_id are stored, not searched
+-- ============================================================================
+
+CREATE VIRTUAL TABLE IF NOT EXISTS item_search USING fts5(
+    name,
+    barcode,
+    brand,
+    category,
+    item_id UNINDEXED,
+    user_id UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- ============================================================================
+-- Sync Triggers
+-- Items are indexed as they change; brands follow the product cache
+-- ============================================================================
+
+CREATE TRIGGER IF NOT EXISTS item_search_insert AFTER INSERT ON pantry_items BEGIN
+    INSERT INTO item_search (name, barcode, brand, category, item_id, user_id)
+    VALUES (NEW.name, NEW.barcode, (SELECT brand FROM product_cache WHERE barcode = NEW.barcode), NEW.category, NEW.id, NEW.user_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS item_search_update AFTER UPDATE OF name, barcode, category, user_id ON pantry_items BEGIN
+    UPDATE item_search
+    SET name = NEW.name,
+        barcode = NEW.barcode,
+        brand = (SELECT brand FROM product_cache WHERE barcode = NEW.barcode),
+        category = NEW.category,
+        user_id = NEW.user_id
+    WHERE item_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS item_search_delete AFTER DELETE ON pantry_items BEGIN
+    DELETE FROM item_search WHERE item_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS item_search_brand_insert AFTER INSERT ON product_cache BEGIN
+    UPDATE item_search SET brand = NEW.brand WHERE barcode = NEW.barcode;
+END;
+
+CREATE TRIGGER IF NOT EXISTS item_search_brand_update AFTER UPDATE OF brand ON product_cache BEGIN
+    UPDATE item_search SET brand = NEW.brand WHERE barcode = NEW.barcode;
+END;
+
+-- ============================================================================
+-- Backfill existing items
+-- ============================================================================
+
+INSERT INTO item_search (name, barcode, brand, category, item_id, user_id)
+SELECT pantry_items.name, pantry_items.barcode, product_cache.brand, pantry_items.category, pantry_items.id, pantry_items.user_id
+FROM pantry_items
+LEFT JOIN product_cache ON product_cache.barcode = pantry_items.barcode
+WHERE pantry_items.id NOT IN (SELECT item_id FROM item_search);
@@ -0,0 +1,32 @@
+-- Migration: Staff roles
+-- Purpose: Locally granted admin API roles (admin, support, read_only) and an
+--          audit log of every grant and revocation
+
+-- ============================================================================
+-- User Roles Table
+-- Roles from Clerk session claims are not stored here
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK(role IN ('read_only', 'support', 'admin')),
+    granted_by TEXT NOT NULL,
+    granted_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, role)
+);
+
+-- ============================================================================
+-- Role Audit Log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS role_audit_log (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('GRANT', 'REVOKE')),
+    performed_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_audit_log_user_id ON role_audit_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_role_audit_log_created_at ON role_audit_log(created_at DESC);
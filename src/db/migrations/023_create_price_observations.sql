@@ -0,0 +1,32 @@
+-- Migration: Price history
+-- Purpose: Prices paid per product and store, recorded from completed shopping
+--          sessions and imported receipts, with a unit price comparable across
+--          pack sizes (per kg, l or piece)
+
+-- ============================================================================
+-- Price Observations Table
+-- product_key is "barcode:<code>", or "name:<normalized name>" without a barcode
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS price_observations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    product_key TEXT NOT NULL,
+    name_key TEXT NOT NULL,
+    barcode TEXT,
+    name TEXT NOT NULL,
+    store_name TEXT,
+    price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    unit TEXT,
+    unit_price REAL NOT NULL,
+    price_unit TEXT NOT NULL,
+    source TEXT NOT NULL CHECK(source IN ('SHOPPING_SESSION', 'RECEIPT_SCAN')),
+    session_id TEXT,
+    observed_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_observations_user_name ON price_observations(user_id, name_key);
+CREATE INDEX IF NOT EXISTS idx_price_observations_user_barcode ON price_observations(user_id, barcode);
+CREATE INDEX IF NOT EXISTS idx_price_observations_user_observed ON price_observations(user_id, observed_at);
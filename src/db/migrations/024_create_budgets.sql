@@ -0,0 +1,20 @@
+-- Migration: Grocery budgets
+-- Purpose: Weekly or monthly spending limits, overall (no category) or for one
+--          item category, checked against completed shopping sessions
+
+-- ============================================================================
+-- Budgets Table
+-- One budget per owner, period and category (case-insensitive)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS budgets (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    period TEXT NOT NULL CHECK(period IN ('week', 'month')),
+    category TEXT,
+    amount REAL NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_user_scope ON budgets(user_id, period, LOWER(COALESCE(category, '')));
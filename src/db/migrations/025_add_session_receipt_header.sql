@@ -0,0 +1,11 @@
+-- Migration: Receipt headers
+-- Purpose: Keep the purchase details read off a session receipt (date, time,
+--          subtotal, tax, discounts, total, payment method) so completed
+--          sessions can be dated by purchase and unbalanced receipts flagged
+
+-- ============================================================================
+-- Session Receipts: header
+-- JSON-encoded ReceiptHeader, NULL until the receipt has been read
+-- ============================================================================
+
+ALTER TABLE session_receipts ADD COLUMN header TEXT;
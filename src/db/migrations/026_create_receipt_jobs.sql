@@ -0,0 +1,29 @@
+-- Migration: Receipt job queue
+-- Purpose: Scan receipt images off the request path. Jobs are claimed by
+--          workers with a lease, retried with backoff and kept for inspection
+--          when they finally fail
+
+-- ============================================================================
+-- Receipt Jobs Table
+-- image_data is cleared once the scan succeeds; result is the scan as JSON
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS receipt_jobs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'PENDING' CHECK(status IN ('PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED')),
+    image_data TEXT,
+    result TEXT,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    run_at TEXT NOT NULL,
+    locked_until TEXT,
+    started_at TEXT,
+    completed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_jobs_status_run_at ON receipt_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_receipt_jobs_user_id ON receipt_jobs(user_id);
@@ -0,0 +1,40 @@
+-- Migration: Receipt images in blob storage
+-- Purpose: Stop storing base64 receipt images in session_receipts. Receipts
+--          record the blob storage key of their image and thumbnail, with
+--          the image's SHA-256 and size
+-- Safe/Unsafe: ⚠️ Multi-step required
+--   Step 1: Apply this migration (image_data becomes nullable)
+--   Step 2: Deploy code that writes images to blob storage
+--   Step 3: npm run db:migrate-receipt-images moves existing images out of
+--           the database and clears their image_data
+--   Step 4: Once no row has image_data left, the column can be dropped
+
+-- ============================================================================
+-- Session Receipts: rebuilt with a nullable image_data
+-- SQLite can't drop NOT NULL in place, so the table is copied
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS session_receipts_new (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    image_data TEXT,
+    image_key TEXT,
+    thumbnail_key TEXT,
+    content_hash TEXT,
+    size_bytes INTEGER,
+    mime_type TEXT NOT NULL,
+    notes TEXT,
+    header TEXT,
+    captured_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (session_id) REFERENCES shopping_sessions(id) ON DELETE CASCADE
+);
+
+INSERT INTO session_receipts_new (id, session_id, image_data, mime_type, notes, header, captured_at, created_at)
+SELECT id, session_id, image_data, mime_type, notes, header, captured_at, created_at FROM session_receipts;
+
+DROP TABLE session_receipts;
+ALTER TABLE session_receipts_new RENAME TO session_receipts;
+
+CREATE INDEX IF NOT EXISTS idx_session_receipts_session_id ON session_receipts(session_id);
+CREATE INDEX IF NOT EXISTS idx_session_receipts_captured_at ON session_receipts(captured_at);
@@ -0,0 +1,31 @@
+-- Migration: Stripe webhook event processing status
+-- Purpose: Process each Stripe event exactly once. Deliveries are recorded
+--          before they are handled, with their status, attempts and last
+--          error, so retries of a processed event are skipped and failed
+--          events can be listed and replayed
+
+-- ============================================================================
+-- Stripe Webhook Events: processing status
+-- object_id and stripe_created_at let an older customer.subscription.updated
+-- be skipped once a newer event for the subscription has been applied
+-- ============================================================================
+
+ALTER TABLE stripe_webhook_events ADD COLUMN status TEXT NOT NULL DEFAULT 'PROCESSING'
+  CHECK(status IN ('PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED'));
+ALTER TABLE stripe_webhook_events ADD COLUMN object_id TEXT;
+ALTER TABLE stripe_webhook_events ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE stripe_webhook_events ADD COLUMN error TEXT;
+ALTER TABLE stripe_webhook_events ADD COLUMN stripe_created_at TEXT;
+ALTER TABLE stripe_webhook_events ADD COLUMN locked_until TEXT;
+ALTER TABLE stripe_webhook_events ADD COLUMN processed_at TEXT;
+ALTER TABLE stripe_webhook_events ADD COLUMN updated_at TEXT;
+
+-- Rows written before this migration only know whether they were processed
+UPDATE stripe_webhook_events
+SET status = CASE WHEN processed THEN 'PROCESSED' ELSE 'FAILED' END,
+    attempts = 1,
+    stripe_created_at = created_at,
+    updated_at = created_at;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object_id ON stripe_webhook_events(object_id, stripe_created_at);
@@ -0,0 +1,17 @@
+-- Migration: Rate limit buckets
+-- Purpose: Share rate limiting token buckets between server instances when
+--          RATE_LIMIT_STORE=database. Each row is one bucket, keyed by
+--          endpoint class and user or IP address
+
+-- ============================================================================
+-- Rate Limit Buckets Table
+-- tokens left when the bucket was last used; updated_at in epoch milliseconds
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens REAL NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
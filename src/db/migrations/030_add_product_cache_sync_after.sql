@@ -0,0 +1,16 @@
+-- Migration: Schedule the product_cache background sync queue
+-- Purpose: Migration 013 added needs_sync, sync_retry_count and last_error for
+--          a background sync queue. sync_after holds when a queued row may be
+--          tried next, for retry backoff and so a row claimed by one server
+--          instance isn't picked up by another until its lease runs out.
+--          Barcodes queued before any product is known get a placeholder row
+--          with source 'pending', which lookups skip
+
+-- ============================================================================
+-- Product Cache Sync Schedule
+-- ISO 8601; NULL means due now
+-- ============================================================================
+
+ALTER TABLE product_cache ADD COLUMN sync_after TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_product_cache_sync_after ON product_cache(sync_after) WHERE needs_sync = 1;
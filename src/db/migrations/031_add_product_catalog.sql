@@ -0,0 +1,28 @@
+-- Migration: Product catalog and per-field provenance
+-- Purpose: Products entered by users are kept in product_catalog, the first
+--          source asked in a barcode lookup. Products are merged from several
+--          sources, so product_cache.provenance records which source each
+--          field came from
+
+-- ============================================================================
+-- Product Catalog Table
+-- One row per barcode (GTIN-14); the last contribution wins
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_catalog (
+    barcode TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    brand TEXT,
+    category TEXT NOT NULL,
+    image_url TEXT,
+    contributed_by TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- ============================================================================
+-- Product Cache Provenance
+-- JSON object of field name to source, e.g. {"name":"openfoodfacts","brand":"catalog"}
+-- ============================================================================
+
+ALTER TABLE product_cache ADD COLUMN provenance TEXT;
@@ -0,0 +1,14 @@
+-- Migration: Lots for stock held before lot tracking
+-- Purpose: Items stocked before migration 014 have quantity but no lots, so
+--          first-expiring-first consumption and expiry reports skip them.
+--          Each gets one undated lot holding its current quantity
+
+-- ============================================================================
+-- Backfill existing items
+-- The lot takes its item's ID, purchased the day the item was created
+-- ============================================================================
+
+INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+SELECT id, id, user_id, quantity, quantity, substr(created_at, 1, 10), NULL, 'MANUAL', created_at
+FROM pantry_items
+WHERE quantity > 0 AND id NOT IN (SELECT item_id FROM item_lots);
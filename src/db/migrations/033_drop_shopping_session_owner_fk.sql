@@ -0,0 +1,43 @@
+-- Migration: Shopping sessions owned by households
+-- Purpose: shopping_sessions.user_id is the inventory owner: a user, or a
+--          household once the user creates or joins one. The foreign key to
+--          user_subscriptions from 008 rejects household ids, so moving
+--          sessions into a household (and creating them there) failed
+-- Safe/Unsafe: Safe - the table is copied with every row and index
+
+-- ============================================================================
+-- Shopping Sessions: rebuilt without the user_subscriptions foreign key
+-- SQLite can't drop a foreign key in place, so the table is copied. Foreign
+-- keys are off while it is, or dropping the old table would cascade to the
+-- session items and receipts
+-- ============================================================================
+
+PRAGMA foreign_keys = OFF;
+
+CREATE TABLE IF NOT EXISTS shopping_sessions_new (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    store_name TEXT,
+    started_at TEXT NOT NULL,
+    completed_at TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    total_amount DECIMAL(10, 2) DEFAULT 0,
+    item_count INTEGER DEFAULT 0,
+    receipt_url TEXT,
+    notes TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO shopping_sessions_new (id, user_id, store_name, started_at, completed_at, status, total_amount, item_count, receipt_url, notes, created_at, updated_at)
+SELECT id, user_id, store_name, started_at, completed_at, status, total_amount, item_count, receipt_url, notes, created_at, updated_at FROM shopping_sessions;
+
+DROP TABLE shopping_sessions;
+ALTER TABLE shopping_sessions_new RENAME TO shopping_sessions;
+
+CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_id ON shopping_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_shopping_sessions_status ON shopping_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_status ON shopping_sessions(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_shopping_sessions_started_at ON shopping_sessions(started_at);
+
+PRAGMA foreign_keys = ON;
@@ -0,0 +1,16 @@
+-- Migration: Receipt jobs for captured session receipts
+-- Purpose: A receipt captured for a shopping session is queued to have its
+--          header (purchase date, time and totals) read, so the session is
+--          dated by purchase without a reconcile. The job records which
+--          session receipt the header is saved on
+-- Safe/Unsafe: Safe - nullable columns only; existing jobs read no receipt
+
+-- ============================================================================
+-- Receipt Jobs: the session receipt read
+-- owner_id is the session's owner (a user or a household); all three are set
+-- together, or all NULL
+-- ============================================================================
+
+ALTER TABLE receipt_jobs ADD COLUMN owner_id TEXT;
+ALTER TABLE receipt_jobs ADD COLUMN session_id TEXT;
+ALTER TABLE receipt_jobs ADD COLUMN receipt_id TEXT;
@@ -0,0 +1,13 @@
+-- Migration: Item density
+-- Purpose: Weights and volumes of an item convert into each other through
+--          its density, set by the user per item, instead of a built-in
+--          table matched against words of the item's name
+-- Safe/Unsafe: Safe - nullable column only; items without a density keep
+--              converting within weight or volume only
+
+-- ============================================================================
+-- Pantry Items: density
+-- g/ml (water is 1); NULL when unknown
+-- ============================================================================
+
+ALTER TABLE pantry_items ADD COLUMN density REAL;
@@ -4,36 +4,102 @@
  */
 
 import { getDatabase } from './index';
-import { CreateItemInput, UpdateItemInput, CreateSessionInput, AddSessionItemInput, CompleteSessionInput } from './adapter';
+import {
+  CreateItemInput,
+  UpdateItemInput,
+  LogActivityOptions,
+  CreateSessionInput,
+  AddSessionItemInput,
+  CompleteSessionInput,
+  AddShoppingListItemInput,
+  UpdateShoppingListItemInput,
+  CreateHouseholdInviteInput,
+  CreateRecipeInput,
+  UpdateRecipeInput,
+  CreateMealPlanEntryInput,
+  UpdateMealPlanEntryInput,
+  MoveItemOptions,
+  ItemSearchOptions,
+  RecordPriceInput,
+  PriceHistoryFilter,
+  CreateBudgetInput,
+} from './adapter';
 import {
   PantryItem,
+  ItemLot,
+  ExpiringLot,
+  WasteEntry,
   Activity,
   ActivityType,
   ActivitySource,
+  ActivityReason,
   ScanResult,
   UsageResult,
+  ItemSearchResult,
+  ProductCacheInput,
 } from '../models/types';
 import {
   ShoppingSession,
   ShoppingSessionWithItems,
   SessionItem,
   SessionSummary,
+  SessionReceipt,
+  StoredReceiptImage,
+  UnmovedSessionReceipt,
+  ReceiptHeader,
+  ReconciliationFix,
 } from '../models/shoppingSession';
+import { ShoppingListItem } from '../models/shoppingList';
+import {
+  Household,
+  HouseholdMember,
+  HouseholdMembership,
+  HouseholdRole,
+  HouseholdInvite,
+} from '../models/household';
+import { Recipe } from '../models/recipe';
+import { MealPlanEntry } from '../models/mealPlan';
+import { StorageLocation, MoveItemResult } from '../models/storageLocation';
+import { UserRole, RoleAssignment, RoleAuditEntry } from '../models/role';
+import { PriceObservation } from '../models/price';
+import { Budget, SessionSpend } from '../models/budget';
+import { ReceiptJob, ReceiptJobStatus, ClaimedReceiptJob, SessionReceiptTarget } from '../models/receiptJob';
+import {
+  StripeWebhookEvent,
+  StripeWebhookEventStatus,
+  ClaimedStripeWebhookEvent,
+  NewStripeWebhookEvent,
+} from '../models/stripeWebhookEvent';
+import { ProductSyncEntry, ProductSyncStatus, ProductSyncStats, ClaimedProductSync } from '../models/productSync';
+import { CatalogProduct, CatalogProductInput } from '../models/productCatalog';
+import type { ReceiptScanResult } from '../services/receiptOcr';
 
 // ==========================================================================
 // Pantry Item Operations
 // ==========================================================================
 
-export function getAllItems(userId: string, category?: string): Promise<PantryItem[]> {
-  return getDatabase().getAllItems(userId, category);
+export function getAllItems(userId: string, category?: string, locationId?: string | null): Promise<PantryItem[]> {
+  return getDatabase().getAllItems(userId, category, locationId);
 }
 
 export function getItemById(userId: string, id: string): Promise<PantryItem | null> {
   return getDatabase().getItemById(userId, id);
 }
 
-export function getItemByName(userId: string, name: string): Promise<PantryItem | null> {
-  return getDatabase().getItemByName(userId, name);
+export function getItemByName(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
+  return getDatabase().getItemByName(userId, name, locationId);
+}
+
+export function getItemByBarcode(userId: string, barcode: string, locationId?: string | null): Promise<PantryItem | null> {
+  return getDatabase().getItemByBarcode(userId, barcode, locationId);
+}
+
+export function searchItems(userId: string, query: string, options?: ItemSearchOptions): Promise<ItemSearchResult[]> {
+  return getDatabase().searchItems(userId, query, options);
+}
+
+export function findItemMatch(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
+  return getDatabase().findItemMatch(userId, name, locationId);
 }
 
 export function createItem(userId: string, input: CreateItemInput): Promise<PantryItem> {
@@ -56,6 +122,59 @@ export function getCategories(userId: string): Promise<string[]> {
   return getDatabase().getCategories(userId);
 }
 
+export function moveItem(
+  userId: string,
+  itemId: string,
+  locationId: string | null,
+  options?: MoveItemOptions
+): Promise<MoveItemResult | null> {
+  return getDatabase().moveItem(userId, itemId, locationId, options);
+}
+
+// ==========================================================================
+// Storage Location Operations
+// ==========================================================================
+
+export function getStorageLocations(userId: string): Promise<StorageLocation[]> {
+  return getDatabase().getStorageLocations(userId);
+}
+
+export function getStorageLocationById(userId: string, id: string): Promise<StorageLocation | null> {
+  return getDatabase().getStorageLocationById(userId, id);
+}
+
+export function getStorageLocationByName(userId: string, name: string): Promise<StorageLocation | null> {
+  return getDatabase().getStorageLocationByName(userId, name);
+}
+
+export function createStorageLocation(userId: string, name: string): Promise<StorageLocation> {
+  return getDatabase().createStorageLocation(userId, name);
+}
+
+export function updateStorageLocation(userId: string, id: string, name: string): Promise<StorageLocation | null> {
+  return getDatabase().updateStorageLocation(userId, id, name);
+}
+
+export function deleteStorageLocation(userId: string, id: string): Promise<boolean> {
+  return getDatabase().deleteStorageLocation(userId, id);
+}
+
+// ==========================================================================
+// Item Lot Operations
+// ==========================================================================
+
+export function getItemLots(userId: string, itemId: string): Promise<ItemLot[]> {
+  return getDatabase().getItemLots(userId, itemId);
+}
+
+export function getExpiringLots(userId: string, cutoffDate: string): Promise<ExpiringLot[]> {
+  return getDatabase().getExpiringLots(userId, cutoffDate);
+}
+
+export function getWasteEntries(userId: string, fromDate: string, toDate: string): Promise<WasteEntry[]> {
+  return getDatabase().getWasteEntries(userId, fromDate, toDate);
+}
+
 // ==========================================================================
 // Activity Operations
 // ==========================================================================
@@ -64,13 +183,14 @@ export function getActivities(
   userId: string,
   limit?: number,
   offset?: number,
-  itemId?: string
+  itemId?: string,
+  reason?: ActivityReason
 ): Promise<Activity[]> {
-  return getDatabase().getActivities(userId, limit, offset, itemId);
+  return getDatabase().getActivities(userId, limit, offset, itemId, reason);
 }
 
-export function getActivityCount(userId: string, itemId?: string): Promise<number> {
-  return getDatabase().getActivityCount(userId, itemId);
+export function getActivityCount(userId: string, itemId?: string, reason?: ActivityReason): Promise<number> {
+  return getDatabase().getActivityCount(userId, itemId, reason);
 }
 
 export function logActivity(
@@ -78,9 +198,42 @@ export function logActivity(
   itemId: string,
   type: ActivityType,
   amount: number,
-  source: ActivitySource = 'MANUAL'
+  source: ActivitySource = 'MANUAL',
+  options?: LogActivityOptions
 ): Promise<Activity | null> {
-  return getDatabase().logActivity(userId, itemId, type, amount, source);
+  return getDatabase().logActivity(userId, itemId, type, amount, source, options);
+}
+
+// ==========================================================================
+// Shopping List Operations
+// ==========================================================================
+
+export function getShoppingList(userId: string, checked?: boolean): Promise<ShoppingListItem[]> {
+  return getDatabase().getShoppingList(userId, checked);
+}
+
+export function getShoppingListItemById(userId: string, id: string): Promise<ShoppingListItem | null> {
+  return getDatabase().getShoppingListItemById(userId, id);
+}
+
+export function addShoppingListItem(userId: string, input: AddShoppingListItemInput): Promise<ShoppingListItem> {
+  return getDatabase().addShoppingListItem(userId, input);
+}
+
+export function updateShoppingListItem(
+  userId: string,
+  id: string,
+  input: UpdateShoppingListItemInput
+): Promise<ShoppingListItem | null> {
+  return getDatabase().updateShoppingListItem(userId, id, input);
+}
+
+export function deleteShoppingListItem(userId: string, id: string): Promise<boolean> {
+  return getDatabase().deleteShoppingListItem(userId, id);
+}
+
+export function deleteShoppingListItems(userId: string, ids: string[]): Promise<number> {
+  return getDatabase().deleteShoppingListItems(userId, ids);
 }
 
 // ==========================================================================
@@ -98,9 +251,10 @@ export function processReceiptScan(rawData: string | ScanResult[]): ScanResult[]
 export function processVisualUsage(
   userId: string,
   detections: UsageResult[],
-  source: string = 'VISUAL_USAGE'
+  source: string = 'VISUAL_USAGE',
+  performedBy?: string
 ): Promise<{ processed: UsageResult[]; activities: Activity[]; errors: string[] }> {
-  return getDatabase().processVisualUsage(userId, detections, source);
+  return getDatabase().processVisualUsage(userId, detections, source, performedBy);
 }
 
 // ==========================================================================
@@ -164,9 +318,391 @@ export function getSessionSummary(userId: string): Promise<SessionSummary> {
   return getDatabase().getSessionSummary(userId);
 }
 
+export function getSessionSpend(userId: string, fromDate: string, toDate: string): Promise<SessionSpend[]> {
+  return getDatabase().getSessionSpend(userId, fromDate, toDate);
+}
+
+export function applySessionFixes(
+  userId: string,
+  sessionId: string,
+  fixes: ReconciliationFix[]
+): Promise<ShoppingSessionWithItems | null> {
+  return getDatabase().applySessionFixes(userId, sessionId, fixes);
+}
+
 export function addSessionToInventory(
   userId: string,
-  sessionId: string
+  sessionId: string,
+  performedBy?: string
 ): Promise<{ items: PantryItem[]; activities: Activity[] }> {
-  return getDatabase().addSessionToInventory(userId, sessionId);
+  return getDatabase().addSessionToInventory(userId, sessionId, performedBy);
+}
+
+// ==========================================================================
+// Price History Operations
+// ==========================================================================
+
+export function recordPrices(userId: string, inputs: RecordPriceInput[]): Promise<PriceObservation[]> {
+  return getDatabase().recordPrices(userId, inputs);
+}
+
+export function getPriceHistory(userId: string, filter?: PriceHistoryFilter): Promise<PriceObservation[]> {
+  return getDatabase().getPriceHistory(userId, filter);
+}
+
+// ==========================================================================
+// Budget Operations
+// ==========================================================================
+
+export function getBudgets(userId: string): Promise<Budget[]> {
+  return getDatabase().getBudgets(userId);
+}
+
+export function getBudgetById(userId: string, id: string): Promise<Budget | null> {
+  return getDatabase().getBudgetById(userId, id);
+}
+
+export function createBudget(userId: string, input: CreateBudgetInput): Promise<Budget | null> {
+  return getDatabase().createBudget(userId, input);
+}
+
+export function updateBudget(userId: string, id: string, amount: number): Promise<Budget | null> {
+  return getDatabase().updateBudget(userId, id, amount);
+}
+
+export function deleteBudget(userId: string, id: string): Promise<boolean> {
+  return getDatabase().deleteBudget(userId, id);
+}
+
+// ==========================================================================
+// Session Receipt Operations
+// ==========================================================================
+
+export function captureSessionReceipt(
+  userId: string,
+  sessionId: string,
+  image: StoredReceiptImage,
+  notes?: string
+): Promise<SessionReceipt> {
+  return getDatabase().captureSessionReceipt(userId, sessionId, image, notes);
+}
+
+export function getSessionReceipts(userId: string, sessionId: string): Promise<SessionReceipt[]> {
+  return getDatabase().getSessionReceipts(userId, sessionId);
+}
+
+export function getSessionReceiptById(
+  userId: string,
+  sessionId: string,
+  receiptId: string
+): Promise<SessionReceipt | null> {
+  return getDatabase().getSessionReceiptById(userId, sessionId, receiptId);
+}
+
+export function saveSessionReceiptHeader(
+  userId: string,
+  sessionId: string,
+  receiptId: string,
+  header: ReceiptHeader
+): Promise<SessionReceipt | null> {
+  return getDatabase().saveSessionReceiptHeader(userId, sessionId, receiptId, header);
+}
+
+export function listUnmovedSessionReceipts(limit: number): Promise<UnmovedSessionReceipt[]> {
+  return getDatabase().listUnmovedSessionReceipts(limit);
+}
+
+export function getUnmovedSessionReceipt(receiptId: string): Promise<UnmovedSessionReceipt | null> {
+  return getDatabase().getUnmovedSessionReceipt(receiptId);
+}
+
+export function moveSessionReceiptImage(receiptId: string, image: StoredReceiptImage): Promise<boolean> {
+  return getDatabase().moveSessionReceiptImage(receiptId, image);
+}
+
+// ==========================================================================
+// Receipt Job Operations
+// ==========================================================================
+
+export function createReceiptJob(
+  userId: string,
+  imageData: string,
+  maxAttempts: number,
+  sessionReceipt?: SessionReceiptTarget
+): Promise<ReceiptJob> {
+  return getDatabase().createReceiptJob(userId, imageData, maxAttempts, sessionReceipt);
+}
+
+export function getReceiptJob(id: string, userId?: string): Promise<ReceiptJob | null> {
+  return getDatabase().getReceiptJob(id, userId);
+}
+
+export function claimReceiptJobs(limit: number, leaseMs: number): Promise<ClaimedReceiptJob[]> {
+  return getDatabase().claimReceiptJobs(limit, leaseMs);
+}
+
+export function completeReceiptJob(id: string, result: ReceiptScanResult): Promise<ReceiptJob | null> {
+  return getDatabase().completeReceiptJob(id, result);
+}
+
+export function failReceiptJob(id: string, error: string, retryAt?: string): Promise<ReceiptJob | null> {
+  return getDatabase().failReceiptJob(id, error, retryAt);
+}
+
+export function listReceiptJobs(
+  status: ReceiptJobStatus | undefined,
+  limit: number,
+  offset: number
+): Promise<ReceiptJob[]> {
+  return getDatabase().listReceiptJobs(status, limit, offset);
+}
+
+export function retryReceiptJob(id: string): Promise<ReceiptJob | null> {
+  return getDatabase().retryReceiptJob(id);
+}
+
+// ==========================================================================
+// Stripe Webhook Event Operations
+// ==========================================================================
+
+export function beginStripeWebhookEvent(
+  event: NewStripeWebhookEvent,
+  leaseMs: number
+): Promise<ClaimedStripeWebhookEvent | null> {
+  return getDatabase().beginStripeWebhookEvent(event, leaseMs);
+}
+
+export function claimFailedStripeWebhookEvent(id: string, leaseMs: number): Promise<ClaimedStripeWebhookEvent | null> {
+  return getDatabase().claimFailedStripeWebhookEvent(id, leaseMs);
+}
+
+export function completeStripeWebhookEvent(
+  id: string,
+  status: 'PROCESSED' | 'SKIPPED',
+  userId?: string
+): Promise<StripeWebhookEvent | null> {
+  return getDatabase().completeStripeWebhookEvent(id, status, userId);
+}
+
+export function failStripeWebhookEvent(id: string, error: string): Promise<StripeWebhookEvent | null> {
+  return getDatabase().failStripeWebhookEvent(id, error);
+}
+
+export function getStripeWebhookEvent(id: string): Promise<StripeWebhookEvent | null> {
+  return getDatabase().getStripeWebhookEvent(id);
+}
+
+export function listStripeWebhookEvents(
+  status: StripeWebhookEventStatus | undefined,
+  limit: number,
+  offset: number
+): Promise<StripeWebhookEvent[]> {
+  return getDatabase().listStripeWebhookEvents(status, limit, offset);
+}
+
+export function hasNewerStripeWebhookEvent(
+  objectId: string,
+  eventTypes: string[],
+  stripeCreatedAt: string
+): Promise<boolean> {
+  return getDatabase().hasNewerStripeWebhookEvent(objectId, eventTypes, stripeCreatedAt);
+}
+
+// ==========================================================================
+// Product Cache Operations
+// ==========================================================================
+
+export function saveProduct(input: ProductCacheInput): Promise<void> {
+  return getDatabase().saveProduct(input);
+}
+
+export function enqueueProductSync(barcode: string, error: string, syncAfter: string): Promise<void> {
+  return getDatabase().enqueueProductSync(barcode, error, syncAfter);
+}
+
+export function claimProductSyncs(limit: number, leaseMs: number): Promise<ClaimedProductSync[]> {
+  return getDatabase().claimProductSyncs(limit, leaseMs);
+}
+
+export function deferProductSync(barcode: string, syncAfter: string): Promise<void> {
+  return getDatabase().deferProductSync(barcode, syncAfter);
+}
+
+export function failProductSync(barcode: string, error: string, retryAt?: string): Promise<void> {
+  return getDatabase().failProductSync(barcode, error, retryAt);
+}
+
+export function listProductSyncs(status: ProductSyncStatus | undefined, limit: number, offset: number): Promise<ProductSyncEntry[]> {
+  return getDatabase().listProductSyncs(status, limit, offset);
+}
+
+export function getProductSyncStats(): Promise<ProductSyncStats> {
+  return getDatabase().getProductSyncStats();
+}
+
+export function getCatalogProduct(barcode: string): Promise<CatalogProduct | null> {
+  return getDatabase().getCatalogProduct(barcode);
+}
+
+export function saveCatalogProduct(input: CatalogProductInput, contributedBy?: string): Promise<CatalogProduct> {
+  return getDatabase().saveCatalogProduct(input, contributedBy);
+}
+
+// ==========================================================================
+// Household Operations
+// ==========================================================================
+
+export function createHousehold(ownerId: string, name: string): Promise<Household> {
+  return getDatabase().createHousehold(ownerId, name);
+}
+
+export function getHouseholdById(householdId: string): Promise<Household | null> {
+  return getDatabase().getHouseholdById(householdId);
+}
+
+export function getHouseholdByInviteCode(inviteCode: string): Promise<Household | null> {
+  return getDatabase().getHouseholdByInviteCode(inviteCode);
+}
+
+export function getHouseholdForUser(userId: string): Promise<HouseholdMembership | null> {
+  return getDatabase().getHouseholdForUser(userId);
+}
+
+export function updateHouseholdName(householdId: string, name: string): Promise<Household | null> {
+  return getDatabase().updateHouseholdName(householdId, name);
+}
+
+export function regenerateHouseholdInviteCode(householdId: string): Promise<Household | null> {
+  return getDatabase().regenerateHouseholdInviteCode(householdId);
+}
+
+export function deleteHousehold(householdId: string, inventoryOwnerId: string): Promise<boolean> {
+  return getDatabase().deleteHousehold(householdId, inventoryOwnerId);
+}
+
+export function getHouseholdMembers(householdId: string): Promise<HouseholdMember[]> {
+  return getDatabase().getHouseholdMembers(householdId);
+}
+
+export function addHouseholdMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember> {
+  return getDatabase().addHouseholdMember(householdId, userId, role);
+}
+
+export function updateHouseholdMemberRole(
+  householdId: string,
+  userId: string,
+  role: HouseholdRole
+): Promise<HouseholdMember | null> {
+  return getDatabase().updateHouseholdMemberRole(householdId, userId, role);
+}
+
+export function removeHouseholdMember(householdId: string, userId: string): Promise<boolean> {
+  return getDatabase().removeHouseholdMember(householdId, userId);
+}
+
+export function createHouseholdInvite(householdId: string, input: CreateHouseholdInviteInput): Promise<HouseholdInvite> {
+  return getDatabase().createHouseholdInvite(householdId, input);
+}
+
+export function getHouseholdInviteByToken(token: string): Promise<HouseholdInvite | null> {
+  return getDatabase().getHouseholdInviteByToken(token);
+}
+
+export function getPendingHouseholdInvites(householdId: string): Promise<HouseholdInvite[]> {
+  return getDatabase().getPendingHouseholdInvites(householdId);
+}
+
+export function markHouseholdInviteAccepted(inviteId: string, userId: string): Promise<void> {
+  return getDatabase().markHouseholdInviteAccepted(inviteId, userId);
+}
+
+export function deleteHouseholdInvite(householdId: string, inviteId: string): Promise<boolean> {
+  return getDatabase().deleteHouseholdInvite(householdId, inviteId);
+}
+
+// ==========================================================================
+// Recipe Operations
+// ==========================================================================
+
+export function getRecipes(userId: string): Promise<Recipe[]> {
+  return getDatabase().getRecipes(userId);
+}
+
+export function getRecipeById(userId: string, id: string): Promise<Recipe | null> {
+  return getDatabase().getRecipeById(userId, id);
+}
+
+export function createRecipe(userId: string, input: CreateRecipeInput): Promise<Recipe> {
+  return getDatabase().createRecipe(userId, input);
+}
+
+export function updateRecipe(userId: string, id: string, input: UpdateRecipeInput): Promise<Recipe | null> {
+  return getDatabase().updateRecipe(userId, id, input);
+}
+
+export function deleteRecipe(userId: string, id: string): Promise<boolean> {
+  return getDatabase().deleteRecipe(userId, id);
+}
+
+// ==========================================================================
+// Meal Plan Operations
+// ==========================================================================
+
+export function getMealPlan(userId: string, from?: string, to?: string): Promise<MealPlanEntry[]> {
+  return getDatabase().getMealPlan(userId, from, to);
+}
+
+export function getMealPlanEntryById(userId: string, id: string): Promise<MealPlanEntry | null> {
+  return getDatabase().getMealPlanEntryById(userId, id);
+}
+
+export function createMealPlanEntry(userId: string, input: CreateMealPlanEntryInput): Promise<MealPlanEntry> {
+  return getDatabase().createMealPlanEntry(userId, input);
+}
+
+export function updateMealPlanEntry(
+  userId: string,
+  id: string,
+  input: UpdateMealPlanEntryInput
+): Promise<MealPlanEntry | null> {
+  return getDatabase().updateMealPlanEntry(userId, id, input);
+}
+
+export function deleteMealPlanEntry(userId: string, id: string): Promise<boolean> {
+  return getDatabase().deleteMealPlanEntry(userId, id);
+}
+
+// ==========================================================================
+// Role Operations
+// ==========================================================================
+
+export function getUserRoles(userId: string): Promise<UserRole[]> {
+  return getDatabase().getUserRoles(userId);
+}
+
+export function getRoleAssignments(): Promise<RoleAssignment[]> {
+  return getDatabase().getRoleAssignments();
+}
+
+export function grantRole(userId: string, role: UserRole, grantedBy: string): Promise<RoleAssignment | null> {
+  return getDatabase().grantRole(userId, role, grantedBy);
+}
+
+export function revokeRole(userId: string, role: UserRole, revokedBy: string): Promise<boolean> {
+  return getDatabase().revokeRole(userId, role, revokedBy);
+}
+
+export function getRoleAuditLog(limit: number, offset: number, userId?: string): Promise<RoleAuditEntry[]> {
+  return getDatabase().getRoleAuditLog(limit, offset, userId);
+}
+
+// ==========================================================================
+// Transactions
+// ==========================================================================
+
+/**
+ * Run several operations atomically; they all roll back if fn throws
+ */
+export function transaction<T>(fn: () => Promise<T> | T): Promise<T> {
+  return getDatabase().transaction(fn);
 }
@@ -3,20 +3,49 @@
  * Uses pg for PostgreSQL operations
  */
 
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
-import { DatabaseAdapter, CreateItemInput, UpdateItemInput, CreateSessionInput, AddSessionItemInput, CompleteSessionInput } from './adapter';
+import {
+  DatabaseAdapter,
+  CreateItemInput,
+  UpdateItemInput,
+  LogActivityOptions,
+  CreateSessionInput,
+  AddSessionItemInput,
+  CompleteSessionInput,
+  AddShoppingListItemInput,
+  UpdateShoppingListItemInput,
+  CreateHouseholdInviteInput,
+  CreateRecipeInput,
+  UpdateRecipeInput,
+  CreateMealPlanEntryInput,
+  UpdateMealPlanEntryInput,
+  RecipeIngredientInput,
+  MoveItemOptions,
+  ItemSearchOptions,
+  RecordPriceInput,
+  PriceHistoryFilter,
+  CreateBudgetInput,
+} from './adapter';
 import {
   PantryItem,
   PantryItemRow,
+  ItemLot,
+  ItemLotRow,
+  ExpiringLot,
+  WasteEntry,
   Activity,
   ActivityRow,
   ActivityType,
   ActivitySource,
+  ActivityReason,
+  WASTE_REASONS,
   ScanResult,
   UsageResult,
   ProductInfo,
   ProductCacheInput,
+  ItemSearchResult,
 } from '../models/types';
 import {
   ShoppingSession,
@@ -26,7 +55,79 @@ import {
   ShoppingSessionWithItems,
   SessionSummary,
   SessionReceipt,
+  SessionReceiptRow,
+  StoredReceiptImage,
+  UnmovedSessionReceipt,
+  ReceiptHeader,
+  ReconciliationFix,
 } from '../models/shoppingSession';
+import { ShoppingListItem, ShoppingListItemRow } from '../models/shoppingList';
+import { isLowStock, restockQuantity } from '../services/shoppingList';
+import {
+  Household,
+  HouseholdRow,
+  HouseholdMember,
+  HouseholdMemberRow,
+  HouseholdMembership,
+  HouseholdRole,
+  HouseholdInvite,
+  HouseholdInviteRow,
+} from '../models/household';
+import { generateInviteCode, generateInviteToken, INVENTORY_TABLES } from '../services/household';
+import { convertToItemUnit, isIncompatibleUnitsError, normalizeUnit } from '../services/units';
+import { Recipe, RecipeRow, RecipeIngredient, RecipeIngredientRow } from '../models/recipe';
+import {
+  MealPlanEntry,
+  MealPlanEntryRow,
+  MealPlanIngredient,
+  MealPlanIngredientRow,
+} from '../models/mealPlan';
+import { StorageLocation, StorageLocationRow, MoveItemResult } from '../models/storageLocation';
+import {
+  UserRole,
+  RoleAssignment,
+  RoleAssignmentRow,
+  RoleAuditAction,
+  RoleAuditEntry,
+  RoleAuditEntryRow,
+} from '../models/role';
+import {
+  buildTsQuery,
+  rankCandidates,
+  SearchCandidate,
+  DEFAULT_SEARCH_LIMIT,
+  SEARCH_CANDIDATE_LIMIT,
+  MIN_MATCH_SCORE,
+} from '../services/search';
+import { PriceObservation, PriceObservationRow } from '../models/price';
+import { nameKey, productKey, normalizeUnitPrice } from '../services/prices';
+import { purchaseTimestamp } from '../services/receiptParser';
+import { Budget, BudgetRow, SessionSpend } from '../models/budget';
+import {
+  ReceiptJob,
+  ReceiptJobRow,
+  ReceiptJobStatus,
+  ClaimedReceiptJob,
+  SessionReceiptTarget,
+} from '../models/receiptJob';
+import {
+  StripeWebhookEvent,
+  StripeWebhookEventRow,
+  StripeWebhookEventStatus,
+  ClaimedStripeWebhookEvent,
+  NewStripeWebhookEvent,
+} from '../models/stripeWebhookEvent';
+import {
+  ProductSyncEntry,
+  ProductSyncRow,
+  ProductSyncStatus,
+  ProductSyncStats,
+  ClaimedProductSync,
+  PENDING_PRODUCT_SOURCE,
+} from '../models/productSync';
+import { CatalogProduct, CatalogProductInput, CatalogProductRow } from '../models/productCatalog';
+import type { ReceiptScanResult } from '../services/receiptOcr';
+import { takeTokens, TokenBucket, RateLimitResult } from '../services/rateLimit';
 
 // ============================================================================
 // Configuration
@@ -44,6 +145,36 @@ const DB_PASSWORD = process.env.DB_PASSWORD || 'postgres';
 // Default to SSL in production (DATABASE_URL typically includes SSL)
 const DB_SSL = process.env.DB_SSL === 'true' || (!!DATABASE_URL && process.env.NODE_ENV === 'production');
 
+// Lots with the nearest best-before date are consumed first; undated lots last
+const LOT_CONSUMPTION_ORDER = 'best_before IS NULL, best_before ASC, purchase_date ASC, created_at ASC';
+
+// Remaining lot quantities below this are treated as used up (float rounding)
+const LOT_EPSILON = 1e-9;
+
+// Tables, besides product_cache, that store barcodes
+const BARCODE_TABLES = ['pantry_items', 'shopping_list_items', 'session_items', 'price_observations'];
+
+// Meals of a day in the order they are eaten
+const MEAL_SLOT_ORDER = `CASE slot WHEN 'BREAKFAST' THEN 0 WHEN 'LUNCH' THEN 1 WHEN 'DINNER' THEN 2 ELSE 3 END`;
+
+// Storage locations with the number of items kept in each
+const STORAGE_LOCATION_SELECT = `
+  SELECT storage_locations.*,
+    (SELECT COUNT(*)::int FROM pantry_items WHERE pantry_items.location_id = storage_locations.id) AS item_count
+  FROM storage_locations`;
+
+// Average unit price paid for an item in past shopping sessions, matched by
+// barcode when the item has one and by name otherwise (i = pantry_items alias)
+const ITEM_UNIT_PRICE_SQL = `(
+  SELECT AVG(si.price)
+  FROM session_items si
+  JOIN shopping_sessions ss ON ss.id = si.session_id
+  WHERE ss.user_id = i.user_id
+    AND ss.status != 'cancelled'
+    AND si.price IS NOT NULL
+    AND ((i.barcode IS NOT NULL AND si.barcode = i.barcode) OR LOWER(si.name) = LOWER(i.name))
+)`;
+
 // ============================================================================
 // Row Mappers
 // ============================================================================
@@ -58,6 +189,142 @@ function mapPantryItemRow(row: PantryItemRow & { barcode?: string | null }): Pan
     unit: row.unit,
     category: row.category,
     lastUpdated: row.last_updated,
+    minQuantity: row.min_quantity ?? undefined,
+    targetQuantity: row.target_quantity ?? undefined,
+    locationId: row.location_id ?? undefined,
+    density: row.density ?? undefined,
+  };
+}
+
+/**
+ * SQL condition narrowing pantry items to a storage location, pushing its
+ * parameter: undefined matches any location, null only unassigned items
+ */
+function locationCondition(locationId: string | null | undefined, params: unknown[]): string {
+  if (locationId === undefined) return '';
+  if (locationId === null) return ' AND location_id IS NULL';
+  params.push(locationId);
+  return ` AND location_id = $${params.length}`;
+}
+
+function mapSearchCandidateRow(row: PantryItemRow & { brand: string | null }): SearchCandidate {
+  return {
+    item: mapPantryItemRow(row),
+    brand: row.brand ?? undefined,
+  };
+}
+
+function mapRoleAssignmentRow(row: RoleAssignmentRow): RoleAssignment {
+  return {
+    userId: row.user_id,
+    role: row.role,
+    grantedBy: row.granted_by,
+    grantedAt: row.granted_at,
+  };
+}
+
+function mapRoleAuditEntryRow(row: RoleAuditEntryRow): RoleAuditEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    action: row.action,
+    performedBy: row.performed_by,
+    createdAt: row.created_at,
+  };
+}
+
+function mapPriceObservationRow(row: PriceObservationRow): PriceObservation {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    productKey: row.product_key,
+    nameKey: row.name_key,
+    barcode: row.barcode || undefined,
+    name: row.name,
+    storeName: row.store_name || undefined,
+    price: Number(row.price),
+    quantity: Number(row.quantity),
+    unit: row.unit || undefined,
+    unitPrice: Number(row.unit_price),
+    priceUnit: row.price_unit,
+    source: row.source,
+    sessionId: row.session_id || undefined,
+    observedAt: row.observed_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapBudgetRow(row: BudgetRow): Budget {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    period: row.period,
+    category: row.category || undefined,
+    amount: Number(row.amount),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapStorageLocationRow(row: StorageLocationRow): StorageLocation {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    itemCount: row.item_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapItemLotRow(row: ItemLotRow): ItemLot {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    userId: row.user_id,
+    quantity: row.quantity,
+    initialQuantity: row.initial_quantity,
+    purchaseDate: row.purchase_date,
+    bestBefore: row.best_before ?? undefined,
+    source: row.source,
+    createdAt: row.created_at,
+  };
+}
+
+function mapExpiringLotRow(row: ItemLotRow & { item_name: string; category: string; unit: string }): ExpiringLot {
+  return {
+    ...mapItemLotRow(row),
+    itemName: row.item_name,
+    category: row.category,
+    unit: row.unit,
+  };
+}
+
+function mapWasteEntryRow(row: {
+  lot_id: string | null;
+  activity_id: string | null;
+  reason: ActivityReason | null;
+  item_id: string;
+  item_name: string;
+  category: string;
+  unit: string;
+  quantity: number;
+  date: string;
+  unit_price: string | number | null;
+}): WasteEntry {
+  return {
+    itemId: row.item_id,
+    itemName: row.item_name,
+    category: row.category,
+    unit: row.unit,
+    quantity: row.quantity,
+    date: row.date,
+    lotId: row.lot_id ?? undefined,
+    activityId: row.activity_id ?? undefined,
+    reason: row.reason ?? undefined,
+    // AVG() comes back from pg as a numeric string
+    unitPrice: row.unit_price !== null ? parseFloat(String(row.unit_price)) : undefined,
   };
 }
 
@@ -71,6 +338,8 @@ function mapActivityRow(row: ActivityRow): Activity {
     amount: row.amount,
     timestamp: row.timestamp,
     source: row.source,
+    reason: row.reason ?? undefined,
+    performedBy: row.performed_by ?? undefined,
     metadata: row.metadata ?? undefined,
   };
 }
@@ -102,17 +371,238 @@ function mapSessionItemRow(row: SessionItemRow): SessionItem {
     unit: row.unit ?? undefined,
     price: row.price ?? undefined,
     category: row.category ?? undefined,
+    bestBefore: row.best_before ?? undefined,
     addedAt: row.added_at,
     updatedAt: row.updated_at,
   };
 }
 
+function mapSessionReceiptRow(row: SessionReceiptRow): SessionReceipt {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    imageKey: row.image_key ?? undefined,
+    thumbnailKey: row.thumbnail_key ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    sizeBytes: row.size_bytes ?? undefined,
+    mimeType: row.mime_type,
+    notes: row.notes ?? undefined,
+    header: row.header ? JSON.parse(row.header) : undefined,
+    capturedAt: row.captured_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapReceiptJobRow(row: ReceiptJobRow): ReceiptJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+    sessionReceipt: row.owner_id && row.session_id && row.receipt_id
+      ? { ownerId: row.owner_id, sessionId: row.session_id, receiptId: row.receipt_id }
+      : undefined,
+    runAt: row.run_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapStripeWebhookEventRow(row: StripeWebhookEventRow): StripeWebhookEvent {
+  return {
+    id: row.id,
+    stripeEventId: row.stripe_event_id,
+    eventType: row.event_type,
+    objectId: row.object_id ?? undefined,
+    userId: row.user_id ?? undefined,
+    status: row.status,
+    attempts: Number(row.attempts),
+    error: row.error ?? undefined,
+    stripeCreatedAt: row.stripe_created_at,
+    processedAt: row.processed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapProductSyncRow(row: ProductSyncRow): ProductSyncEntry {
+  const queued = Number(row.needs_sync) === 1;
+  return {
+    barcode: row.barcode,
+    name: row.source === PENDING_PRODUCT_SOURCE ? undefined : row.name,
+    status: queued ? 'QUEUED' : 'FAILED',
+    attempts: Number(row.sync_retry_count ?? 0),
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: queued ? row.sync_after ?? undefined : undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+// product_cache rows in the sync queue, by status
+const PRODUCT_SYNC_CONDITIONS: Record<ProductSyncStatus, string> = {
+  QUEUED: 'needs_sync = 1',
+  FAILED: 'COALESCE(needs_sync, 0) = 0 AND last_error IS NOT NULL',
+};
+
+function mapCatalogProductRow(row: CatalogProductRow): CatalogProduct {
+  return {
+    barcode: row.barcode,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    category: row.category,
+    imageUrl: row.image_url ?? undefined,
+    contributedBy: row.contributed_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapHouseholdRow(row: HouseholdRow): Household {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    inviteCode: row.invite_code,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapHouseholdMemberRow(row: HouseholdMemberRow): HouseholdMember {
+  return {
+    householdId: row.household_id,
+    userId: row.user_id,
+    role: row.role,
+    joinedAt: row.joined_at,
+  };
+}
+
+function mapHouseholdInviteRow(row: HouseholdInviteRow): HouseholdInvite {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    email: row.email,
+    role: row.role,
+    token: row.token,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at ?? undefined,
+    acceptedBy: row.accepted_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function mapRecipeIngredientRow(row: RecipeIngredientRow): RecipeIngredient {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    position: row.position,
+    name: row.name,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit ?? undefined,
+  };
+}
+
+function mapRecipeRow(row: RecipeRow, ingredients: RecipeIngredient[]): Recipe {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    servings: row.servings ?? undefined,
+    instructions: row.instructions ?? undefined,
+    sourceUrl: row.source_url ?? undefined,
+    ingredients,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapMealPlanIngredientRow(row: MealPlanIngredientRow): MealPlanIngredient {
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    position: row.position,
+    name: row.name,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit ?? undefined,
+  };
+}
+
+function mapMealPlanEntryRow(row: MealPlanEntryRow, ingredients: MealPlanIngredient[]): MealPlanEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    slot: row.slot,
+    recipeId: row.recipe_id ?? undefined,
+    title: row.title,
+    servings: row.servings ?? undefined,
+    notes: row.notes ?? undefined,
+    ingredients,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapShoppingListItemRow(row: ShoppingListItemRow): ShoppingListItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    itemId: row.item_id ?? undefined,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit ?? undefined,
+    category: row.category ?? undefined,
+    barcode: row.barcode ?? undefined,
+    checked: Boolean(row.checked),
+    source: row.source,
+    checkedAt: row.checked_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================================================
+// Transaction Scoping
+// ============================================================================
+
+// Statements a nested BEGIN/COMMIT/ROLLBACK become inside transaction()
+const SAVEPOINT_SQL: Record<string, string> = {
+  BEGIN: 'SAVEPOINT nested_transaction',
+  COMMIT: 'RELEASE SAVEPOINT nested_transaction',
+  ROLLBACK: 'ROLLBACK TO SAVEPOINT nested_transaction',
+};
+
+/**
+ * Pool stand-in handed out while transaction() is running
+ * Queries run on the transaction's client, and clients connected from it
+ * turn their own BEGIN/COMMIT/ROLLBACK into savepoints
+ */
+function transactionPool(client: PoolClient): Pool {
+  const savepointClient = {
+    query: (sql: string, params?: unknown[]) => client.query(SAVEPOINT_SQL[sql] ?? sql, params),
+    release: () => undefined,
+  };
+
+  return {
+    query: (sql: string, params?: unknown[]) => client.query(sql, params),
+    connect: async () => savepointClient,
+  } as unknown as Pool;
+}
+
 // ============================================================================
 // PostgreSQL Adapter Class
 // ============================================================================
 
 export class PostgresAdapter implements DatabaseAdapter {
   private pool: Pool | null = null;
+  private readonly transactionClient = new AsyncLocalStorage<PoolClient>();
 
   initialize(): void {
     // Use DATABASE_URL if available (Railway, Render, etc.)
@@ -164,7 +654,10 @@ export class PostgresAdapter implements DatabaseAdapter {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
-    return this.pool;
+
+    // Inside transaction(), every query joins the transaction's client
+    const client = this.transactionClient.getStore();
+    return client ? transactionPool(client) : this.pool;
   }
 
   private async initializeSchema(): Promise<void> {
@@ -183,10 +676,33 @@ export class PostgresAdapter implements DatabaseAdapter {
           unit TEXT NOT NULL,
           category TEXT NOT NULL,
           last_updated TEXT NOT NULL,
+          min_quantity REAL,
+          target_quantity REAL,
           created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
         );
       `);
 
+      await client.query(`
+        ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS min_quantity REAL;
+        ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS target_quantity REAL;
+        ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS density REAL;
+      `);
+
+      // Storage locations (fridge, freezer, shelf) items can be assigned to
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS storage_locations (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_locations_user_name ON storage_locations(user_id, LOWER(name));
+
+        ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS location_id TEXT REFERENCES storage_locations(id) ON DELETE SET NULL;
+      `);
+
       // Activities table with user_id column and foreign key to pantry_items
       await client.query(`
         CREATE TABLE IF NOT EXISTS activities (
@@ -198,11 +714,19 @@ export class PostgresAdapter implements DatabaseAdapter {
           amount REAL NOT NULL,
           timestamp TEXT NOT NULL,
           source TEXT NOT NULL DEFAULT 'MANUAL' CHECK(source IN ('MANUAL', 'RECEIPT_SCAN', 'VISUAL_USAGE', 'SHOPPING_SESSION')),
+          reason TEXT CHECK(reason IS NULL OR reason IN ('CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED', 'INVENTORY_CORRECTION', 'MOVED')),
+          performed_by TEXT,
           metadata TEXT,
           created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
         );
       `);
 
+      await client.query(`
+        ALTER TABLE activities ADD COLUMN IF NOT EXISTS reason TEXT
+          CHECK(reason IS NULL OR reason IN ('CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED', 'INVENTORY_CORRECTION', 'MOVED'));
+        ALTER TABLE activities ADD COLUMN IF NOT EXISTS performed_by TEXT;
+      `);
+
       // Product cache table for barcode lookups
       await client.query(`
         CREATE TABLE IF NOT EXISTS product_cache (
@@ -220,6 +744,15 @@ export class PostgresAdapter implements DatabaseAdapter {
         );
       `);
 
+      // Background sync queue on cached products
+      await client.query(`
+        ALTER TABLE product_cache ADD COLUMN IF NOT EXISTS needs_sync INTEGER DEFAULT 0;
+        ALTER TABLE product_cache ADD COLUMN IF NOT EXISTS sync_retry_count INTEGER DEFAULT 0;
+        ALTER TABLE product_cache ADD COLUMN IF NOT EXISTS last_error TEXT;
+        ALTER TABLE product_cache ADD COLUMN IF NOT EXISTS sync_after TEXT;
+        ALTER TABLE product_cache ADD COLUMN IF NOT EXISTS provenance TEXT;
+      `);
+
       // Client Errors table for centralized error logging
       await client.query(`
         CREATE TABLE IF NOT EXISTS client_errors (
@@ -236,40 +769,403 @@ export class PostgresAdapter implements DatabaseAdapter {
         );
       `);
 
-      // Indexes for performance
+      // Staff roles for the admin API and the audit log of role changes
       await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
-        CREATE INDEX IF NOT EXISTS idx_pantry_items_category ON pantry_items(category);
-        CREATE INDEX IF NOT EXISTS idx_pantry_items_name ON pantry_items(name);
-        CREATE INDEX IF NOT EXISTS idx_pantry_items_barcode ON pantry_items(barcode);
-        CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
-        CREATE INDEX IF NOT EXISTS idx_activities_item_id ON activities(item_id);
-        CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON activities(timestamp DESC);
-        CREATE INDEX IF NOT EXISTS idx_activities_type ON activities(type);
-        CREATE INDEX IF NOT EXISTS idx_product_cache_barcode ON product_cache(barcode);
-        CREATE INDEX IF NOT EXISTS idx_product_cache_updated_at ON product_cache(updated_at);
-        CREATE INDEX IF NOT EXISTS idx_client_errors_resolved ON client_errors(resolved);
-        CREATE INDEX IF NOT EXISTS idx_client_errors_created ON client_errors(created_at);
-      `);
+        CREATE TABLE IF NOT EXISTS user_roles (
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL CHECK(role IN ('read_only', 'support', 'admin')),
+          granted_by TEXT NOT NULL,
+          granted_at TEXT NOT NULL,
+          PRIMARY KEY (user_id, role)
+        );
 
-      console.log('[DB] PostgreSQL schema initialized successfully');
-    } finally {
-      client.release();
-    }
-  }
+        CREATE TABLE IF NOT EXISTS role_audit_log (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('GRANT', 'REVOKE')),
+          performed_by TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
 
-  private async initializeSubscriptionSchema(): Promise<void> {
-    const pool = this.getPool();
-    const client = await pool.connect();
+        CREATE INDEX IF NOT EXISTS idx_role_audit_log_user_id ON role_audit_log(user_id);
+        CREATE INDEX IF NOT EXISTS idx_role_audit_log_created_at ON role_audit_log(created_at DESC);
+      `);
 
-    try {
-      // User subscriptions table
+      // Item lots table - one row per purchase batch of a pantry item
       await client.query(`
-        CREATE TABLE IF NOT EXISTS user_subscriptions (
+        CREATE TABLE IF NOT EXISTS item_lots (
           id TEXT PRIMARY KEY,
-          user_id TEXT UNIQUE NOT NULL,
-          tier TEXT NOT NULL DEFAULT 'free' CHECK(tier IN ('free', 'pro', 'family')),
-          stripe_customer_id TEXT,
+          item_id TEXT NOT NULL REFERENCES pantry_items(id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          initial_quantity REAL NOT NULL,
+          purchase_date TEXT NOT NULL,
+          best_before TEXT,
+          source TEXT NOT NULL DEFAULT 'MANUAL',
+          created_at TEXT NOT NULL
+        );
+      `);
+
+      // Shopping sessions, session items and receipts
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS shopping_sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          store_name TEXT,
+          started_at TEXT NOT NULL,
+          completed_at TEXT,
+          status TEXT NOT NULL DEFAULT 'active',
+          total_amount REAL DEFAULT 0,
+          item_count INTEGER DEFAULT 0,
+          receipt_url TEXT,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS session_items (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES shopping_sessions(id) ON DELETE CASCADE,
+          barcode TEXT,
+          name TEXT NOT NULL,
+          quantity REAL NOT NULL DEFAULT 1,
+          unit TEXT,
+          price REAL,
+          category TEXT,
+          best_before TEXT,
+          added_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      await client.query(`
+        ALTER TABLE session_items ADD COLUMN IF NOT EXISTS best_before TEXT;
+      `);
+
+      // Shopping list entries, added by hand or when stock drops below min_quantity
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS shopping_list_items (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          item_id TEXT REFERENCES pantry_items(id) ON DELETE SET NULL,
+          name TEXT NOT NULL,
+          quantity REAL NOT NULL DEFAULT 1,
+          unit TEXT,
+          category TEXT,
+          barcode TEXT,
+          checked BOOLEAN NOT NULL DEFAULT FALSE,
+          source TEXT NOT NULL DEFAULT 'MANUAL' CHECK(source IN ('AUTO', 'MANUAL')),
+          checked_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      // Prices paid, from completed shopping sessions and imported receipts
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS price_observations (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          product_key TEXT NOT NULL,
+          name_key TEXT NOT NULL,
+          barcode TEXT,
+          name TEXT NOT NULL,
+          store_name TEXT,
+          price REAL NOT NULL,
+          quantity REAL NOT NULL,
+          unit TEXT,
+          unit_price REAL NOT NULL,
+          price_unit TEXT NOT NULL,
+          source TEXT NOT NULL CHECK(source IN ('SHOPPING_SESSION', 'RECEIPT_SCAN')),
+          session_id TEXT,
+          observed_at TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_price_observations_user_name ON price_observations(user_id, name_key);
+        CREATE INDEX IF NOT EXISTS idx_price_observations_user_barcode ON price_observations(user_id, barcode);
+        CREATE INDEX IF NOT EXISTS idx_price_observations_user_observed ON price_observations(user_id, observed_at);
+      `);
+
+      // Weekly or monthly spending limits, overall or per category
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          period TEXT NOT NULL CHECK(period IN ('week', 'month')),
+          category TEXT,
+          amount REAL NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_user_scope ON budgets(user_id, period, LOWER(COALESCE(category, '')));
+      `);
+
+      // Recipes and their ingredient lines
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS recipes (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          servings INTEGER,
+          instructions TEXT,
+          source_url TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS recipe_ingredients (
+          id TEXT PRIMARY KEY,
+          recipe_id TEXT NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          quantity REAL,
+          unit TEXT
+        );
+      `);
+
+      // Meal plan: meals per day and slot, cooking a recipe or free-text ingredients
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS meal_plan_entries (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          slot TEXT NOT NULL CHECK(slot IN ('BREAKFAST', 'LUNCH', 'DINNER', 'SNACK')),
+          recipe_id TEXT REFERENCES recipes(id) ON DELETE SET NULL,
+          title TEXT NOT NULL,
+          servings INTEGER,
+          notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS meal_plan_ingredients (
+          id TEXT PRIMARY KEY,
+          entry_id TEXT NOT NULL REFERENCES meal_plan_entries(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          quantity REAL,
+          unit TEXT
+        );
+      `);
+
+      // Households share one inventory, keyed by the household ID
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS households (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          owner_id TEXT NOT NULL,
+          invite_code TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS household_members (
+          household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL UNIQUE,
+          role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'viewer')),
+          joined_at TEXT NOT NULL,
+          PRIMARY KEY (household_id, user_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS household_invites (
+          id TEXT PRIMARY KEY,
+          household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+          email TEXT NOT NULL,
+          role TEXT NOT NULL CHECK(role IN ('editor', 'viewer')),
+          token TEXT NOT NULL UNIQUE,
+          invited_by TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          accepted_at TEXT,
+          accepted_by TEXT,
+          created_at TEXT NOT NULL
+        );
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS session_receipts (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES shopping_sessions(id) ON DELETE CASCADE,
+          image_data TEXT,
+          image_key TEXT,
+          thumbnail_key TEXT,
+          content_hash TEXT,
+          size_bytes INTEGER,
+          mime_type TEXT NOT NULL,
+          notes TEXT,
+          header TEXT,
+          captured_at TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        ALTER TABLE session_receipts ADD COLUMN IF NOT EXISTS header TEXT;
+        ALTER TABLE session_receipts ADD COLUMN IF NOT EXISTS image_key TEXT;
+        ALTER TABLE session_receipts ADD COLUMN IF NOT EXISTS thumbnail_key TEXT;
+        ALTER TABLE session_receipts ADD COLUMN IF NOT EXISTS content_hash TEXT;
+        ALTER TABLE session_receipts ADD COLUMN IF NOT EXISTS size_bytes INTEGER;
+        ALTER TABLE session_receipts ALTER COLUMN image_data DROP NOT NULL;
+      `);
+
+      // Receipt images queued for scanning
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS receipt_jobs (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'PENDING' CHECK(status IN ('PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED')),
+          image_data TEXT,
+          result TEXT,
+          error TEXT,
+          owner_id TEXT,
+          session_id TEXT,
+          receipt_id TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL,
+          run_at TEXT NOT NULL,
+          locked_until TEXT,
+          started_at TEXT,
+          completed_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        ALTER TABLE receipt_jobs ADD COLUMN IF NOT EXISTS owner_id TEXT;
+        ALTER TABLE receipt_jobs ADD COLUMN IF NOT EXISTS session_id TEXT;
+        ALTER TABLE receipt_jobs ADD COLUMN IF NOT EXISTS receipt_id TEXT;
+      `);
+
+      // Stripe webhook deliveries, recorded so each event is processed once
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+          id TEXT PRIMARY KEY,
+          stripe_event_id TEXT UNIQUE NOT NULL,
+          event_type TEXT NOT NULL,
+          user_id TEXT,
+          processed BOOLEAN DEFAULT FALSE,
+          payload TEXT,
+          created_at TEXT
+        );
+
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS object_id TEXT;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'PROCESSING'
+          CHECK(status IN ('PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED'));
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS error TEXT;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS stripe_created_at TEXT;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS locked_until TEXT;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS processed_at TEXT;
+        ALTER TABLE stripe_webhook_events ADD COLUMN IF NOT EXISTS updated_at TEXT;
+      `);
+
+      // Token buckets for rate limiting (RATE_LIMIT_STORE=database)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          key TEXT PRIMARY KEY,
+          tokens DOUBLE PRECISION NOT NULL,
+          updated_at BIGINT NOT NULL
+        );
+      `);
+
+      // Products entered by users, the first source asked in barcode lookups
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS product_catalog (
+          barcode TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          brand TEXT,
+          category TEXT NOT NULL,
+          image_url TEXT,
+          contributed_by TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+
+      // Indexes for performance
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_item_lots_item_id ON item_lots(item_id);
+        CREATE INDEX IF NOT EXISTS idx_item_lots_user_best_before ON item_lots(user_id, best_before);
+        CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_id ON shopping_sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_status ON shopping_sessions(user_id, status);
+        CREATE INDEX IF NOT EXISTS idx_session_items_session_id ON session_items(session_id);
+        CREATE INDEX IF NOT EXISTS idx_session_items_barcode ON session_items(barcode);
+        CREATE INDEX IF NOT EXISTS idx_session_receipts_session_id ON session_receipts(session_id);
+        CREATE INDEX IF NOT EXISTS idx_receipt_jobs_status_run_at ON receipt_jobs(status, run_at);
+        CREATE INDEX IF NOT EXISTS idx_receipt_jobs_user_id ON receipt_jobs(user_id);
+        CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status, created_at);
+        CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object_id ON stripe_webhook_events(object_id, stripe_created_at);
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_shopping_list_items_user_id ON shopping_list_items(user_id, checked);
+        CREATE INDEX IF NOT EXISTS idx_shopping_list_items_item_id ON shopping_list_items(item_id);
+        CREATE INDEX IF NOT EXISTS idx_household_invites_household_id ON household_invites(household_id);
+        CREATE INDEX IF NOT EXISTS idx_recipes_user_id ON recipes(user_id);
+        CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe_id ON recipe_ingredients(recipe_id, position);
+        CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_user_date ON meal_plan_entries(user_id, date);
+        CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_recipe_id ON meal_plan_entries(recipe_id);
+        CREATE INDEX IF NOT EXISTS idx_meal_plan_ingredients_entry_id ON meal_plan_ingredients(entry_id, position);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_category ON pantry_items(category);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_name ON pantry_items(name);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_barcode ON pantry_items(barcode);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_location_id ON pantry_items(location_id);
+        CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
+        CREATE INDEX IF NOT EXISTS idx_activities_item_id ON activities(item_id);
+        CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON activities(timestamp DESC);
+        CREATE INDEX IF NOT EXISTS idx_activities_type ON activities(type);
+        CREATE INDEX IF NOT EXISTS idx_activities_reason ON activities(reason);
+        CREATE INDEX IF NOT EXISTS idx_product_cache_barcode ON product_cache(barcode);
+        CREATE INDEX IF NOT EXISTS idx_product_cache_updated_at ON product_cache(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_product_cache_sync_after ON product_cache(sync_after) WHERE needs_sync = 1;
+        CREATE INDEX IF NOT EXISTS idx_client_errors_resolved ON client_errors(resolved);
+        CREATE INDEX IF NOT EXISTS idx_client_errors_created ON client_errors(created_at);
+      `);
+
+      // Stock held before lot tracking gets one undated lot
+      await client.query(`
+        INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+        SELECT id, id, user_id, quantity, quantity, to_char(created_at, 'YYYY-MM-DD'), NULL, 'MANUAL',
+               to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+        FROM pantry_items
+        WHERE quantity > 0 AND id NOT IN (SELECT item_id FROM item_lots);
+      `);
+
+      // Item search: weighted full-text vector over name, barcode and category
+      // (brands are joined from product_cache when searching), plus a trigram
+      // index on names for typos
+      await client.query(`
+        CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+        ALTER TABLE pantry_items ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+          setweight(to_tsvector('simple', name), 'A') ||
+          setweight(to_tsvector('simple', COALESCE(barcode, '')), 'B') ||
+          setweight(to_tsvector('simple', category), 'D')
+        ) STORED;
+
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_search_vector ON pantry_items USING GIN (search_vector);
+        CREATE INDEX IF NOT EXISTS idx_pantry_items_name_trgm ON pantry_items USING GIN (name gin_trgm_ops);
+      `);
+
+      console.log('[DB] PostgreSQL schema initialized successfully');
+    } finally {
+      client.release();
+    }
+  }
+
+  private async initializeSubscriptionSchema(): Promise<void> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+
+    try {
+      // User subscriptions table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS user_subscriptions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT UNIQUE NOT NULL,
+          tier TEXT NOT NULL DEFAULT 'free' CHECK(tier IN ('free', 'pro', 'family')),
+          stripe_customer_id TEXT,
           stripe_subscription_id TEXT,
           stripe_price_id TEXT,
           subscription_status TEXT DEFAULT 'incomplete' CHECK(subscription_status IN ('active', 'canceled', 'incomplete', 'incomplete_expired', 'past_due', 'trialing', 'unpaid')),
@@ -312,17 +1208,19 @@ export class PostgresAdapter implements DatabaseAdapter {
   // Pantry Item Operations
   // ==========================================================================
 
-  async getAllItems(userId: string, category?: string): Promise<PantryItem[]> {
+  async getAllItems(userId: string, category?: string, locationId?: string | null): Promise<PantryItem[]> {
     const pool = this.getPool();
 
     let query = 'SELECT * FROM pantry_items WHERE user_id = $1';
-    const params: (string | undefined)[] = [userId];
+    const params: unknown[] = [userId];
 
     if (category) {
       query += ' AND category = $2';
       params.push(category);
     }
 
+    query += locationCondition(locationId, params);
+
     query += ' ORDER BY name';
 
     const result = await pool.query(query, params);
@@ -341,39 +1239,112 @@ export class PostgresAdapter implements DatabaseAdapter {
     return result.rows[0] ? mapPantryItemRow(result.rows[0]) : null;
   }
 
-  async getItemByName(userId: string, name: string): Promise<PantryItem | null> {
+  async getItemByName(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
     const pool = this.getPool();
 
+    const params: unknown[] = [userId, name];
     const result = await pool.query(
-      'SELECT * FROM pantry_items WHERE user_id = $1 AND LOWER(name) = LOWER($2)',
-      [userId, name]
+      `SELECT * FROM pantry_items WHERE user_id = $1 AND LOWER(name) = LOWER($2)${locationCondition(locationId, params)}`,
+      params
     );
 
     return result.rows[0] ? mapPantryItemRow(result.rows[0]) : null;
   }
 
-  async getItemByBarcode(userId: string, barcode: string): Promise<PantryItem | null> {
+  async getItemByBarcode(userId: string, barcode: string, locationId?: string | null): Promise<PantryItem | null> {
     const pool = this.getPool();
 
+    const params: unknown[] = [userId, barcode];
     const result = await pool.query(
-      'SELECT * FROM pantry_items WHERE user_id = $1 AND barcode = $2',
-      [userId, barcode]
+      `SELECT * FROM pantry_items WHERE user_id = $1 AND barcode = $2${locationCondition(locationId, params)}`,
+      params
     );
 
     return result.rows[0] ? mapPantryItemRow(result.rows[0]) : null;
   }
 
+  async searchItems(userId: string, query: string, options: ItemSearchOptions = {}): Promise<ItemSearchResult[]> {
+    const pool = this.getPool();
+
+    const tsQuery = buildTsQuery(query);
+    if (!tsQuery) return [];
+
+    const params: unknown[] = [userId, tsQuery, query.trim()];
+    let filters = '';
+    if (options.category) {
+      params.push(options.category);
+      filters += ` AND pantry_items.category = $${params.length}`;
+    }
+    filters += locationCondition(options.locationId, params);
+    params.push(SEARCH_CANDIDATE_LIMIT);
+
+    // Word-prefix matches on the item's vector plus its cached brand, or
+    // trigram-similar names (typos); rankCandidates gives the final order
+    const document = `pantry_items.search_vector || setweight(to_tsvector('simple', COALESCE(product_cache.brand, '')), 'C')`;
+    const result = await pool.query(
+      `SELECT pantry_items.*, product_cache.brand AS brand
+       FROM pantry_items
+       LEFT JOIN product_cache ON product_cache.barcode = pantry_items.barcode
+       WHERE pantry_items.user_id = $1${filters}
+         AND ((${document}) @@ to_tsquery('simple', $2) OR pantry_items.name % $3)
+       ORDER BY GREATEST(ts_rank(${document}, to_tsquery('simple', $2)), similarity(pantry_items.name, $3)) DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return rankCandidates(query, result.rows.map(mapSearchCandidateRow), options.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  async findItemMatch(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
+    const exact = await this.getItemByName(userId, name, locationId);
+    if (exact) return exact;
+
+    const [best] = await this.searchItems(userId, name, { locationId, limit: 1 });
+    return best && best.score >= MIN_MATCH_SCORE ? best.item : null;
+  }
+
   async createItem(userId: string, input: CreateItemInput): Promise<PantryItem> {
     const pool = this.getPool();
 
     const id = uuidv4();
     const now = new Date().toISOString();
 
-    await pool.query(
-      `INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [id, userId, input.name, input.barcode || null, input.quantity, input.unit, input.category, now]
-    );
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        // Insert the item and its opening lot together
+        await client.query(
+          `INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated, min_quantity, target_quantity, location_id, density)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [
+            id,
+            userId,
+            input.name,
+            input.barcode || null,
+            input.quantity,
+            input.unit,
+            input.category,
+            now,
+            input.minQuantity ?? null,
+            input.targetQuantity ?? null,
+            input.locationId ?? null,
+            input.density ?? null,
+          ]
+        );
+        await this.applyLotDelta(client, userId, id, input.quantity, 'MANUAL', { bestBefore: input.bestBefore }, now);
+        await this.syncLowStock(client, userId, id, now);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
 
     return {
       id,
@@ -384,6 +1355,10 @@ export class PostgresAdapter implements DatabaseAdapter {
       unit: input.unit,
       category: input.category,
       lastUpdated: now,
+      minQuantity: input.minQuantity,
+      targetQuantity: input.targetQuantity,
+      locationId: input.locationId,
+      density: input.density,
     };
   }
 
@@ -420,6 +1395,18 @@ export class PostgresAdapter implements DatabaseAdapter {
       updates.push(`category = $${paramIndex++}`);
       params.push(input.category);
     }
+    if (input.minQuantity !== undefined) {
+      updates.push(`min_quantity = $${paramIndex++}`);
+      params.push(input.minQuantity);
+    }
+    if (input.targetQuantity !== undefined) {
+      updates.push(`target_quantity = $${paramIndex++}`);
+      params.push(input.targetQuantity);
+    }
+    if (input.density !== undefined) {
+      updates.push(`density = $${paramIndex++}`);
+      params.push(input.density);
+    }
 
     // Always update last_updated
     updates.push(`last_updated = $${paramIndex++}`);
@@ -430,7 +1417,26 @@ export class PostgresAdapter implements DatabaseAdapter {
     params.push(id);
 
     const query = `UPDATE pantry_items SET ${updates.join(', ')} WHERE user_id = $${paramIndex++} AND id = $${paramIndex++}`;
-    await pool.query(query, params);
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await client.query(query, params);
+        if (input.quantity !== undefined) {
+          await this.applyLotDelta(client, userId, id, input.quantity - existing.quantity, 'MANUAL', {}, now);
+        }
+        await this.syncLowStock(client, userId, id, now);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
 
     return this.getItemById(userId, id);
   }
@@ -455,12 +1461,29 @@ export class PostgresAdapter implements DatabaseAdapter {
     const newQuantity = Math.max(0, existing.quantity + adjustment);
     const now = new Date().toISOString();
 
-    await pool.query(
-      `UPDATE pantry_items 
-       SET quantity = $1, last_updated = $2 
-       WHERE user_id = $3 AND id = $4`,
-      [newQuantity, now, userId, id]
-    );
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await client.query(
+          `UPDATE pantry_items 
+           SET quantity = $1, last_updated = $2 
+           WHERE user_id = $3 AND id = $4`,
+          [newQuantity, now, userId, id]
+        );
+        await this.applyLotDelta(client, userId, id, newQuantity - existing.quantity, 'MANUAL', {}, now);
+        await this.syncLowStock(client, userId, id, now);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
 
     return this.getItemById(userId, id);
   }
@@ -476,37 +1499,454 @@ export class PostgresAdapter implements DatabaseAdapter {
     return result.rows.map((r) => r.category);
   }
 
-  // ==========================================================================
-  // Activity Operations
-  // ==========================================================================
-
-  async getActivities(
+  async moveItem(
     userId: string,
-    limit: number = 20,
-    offset: number = 0,
-    itemId?: string
-  ): Promise<Activity[]> {
+    itemId: string,
+    locationId: string | null,
+    options: MoveItemOptions = {}
+  ): Promise<MoveItemResult | null> {
     const pool = this.getPool();
 
-    let query = 'SELECT * FROM activities WHERE user_id = $1';
-    const params: (string | number)[] = [userId];
-    let paramIndex = 2;
+    const item = await this.getItemById(userId, itemId);
+    if (!item) return null;
 
-    if (itemId) {
-      query += ` AND item_id = $${paramIndex++}`;
-      params.push(itemId);
+    const fromLocationId = item.locationId ?? null;
+    if (fromLocationId === locationId) {
+      return { item, destination: item, activities: [] };
     }
 
-    query += ` ORDER BY timestamp DESC LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
-    params.push(limit, offset);
+    const now = new Date().toISOString();
+    const quantity = options.quantity ?? item.quantity;
+    const partial = quantity < item.quantity;
 
-    const result = await pool.query(query, params);
+    let destinationId = itemId;
+    let existing: PantryItemRow | undefined;
 
-    return result.rows.map(mapActivityRow);
-  }
+    if (partial) {
+      const params: unknown[] = [userId, item.name, itemId];
+      const candidates = await pool.query(
+        `SELECT * FROM pantry_items WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id != $3${locationCondition(locationId, params)}`,
+        params
+      );
+      existing = (candidates.rows as PantryItemRow[]).find((row) => normalizeUnit(row.unit) === normalizeUnit(item.unit));
+      destinationId = existing?.id ?? uuidv4();
+    }
 
-  async getActivityCount(userId: string, itemId?: string): Promise<number> {
-    const pool = this.getPool();
+    const activities: Activity[] = [];
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        if (!partial) {
+          // Moving everything relocates the item itself, keeping its lots and history
+          await client.query(
+            'UPDATE pantry_items SET location_id = $1, last_updated = $2 WHERE user_id = $3 AND id = $4',
+            [locationId, now, userId, itemId]
+          );
+          activities.push(await this.logMoveActivity(
+            client, userId, item, 'ADJUST', 0, { fromLocationId, toLocationId: locationId }, options.performedBy, now
+          ));
+        } else {
+          if (existing) {
+            await client.query(
+              'UPDATE pantry_items SET quantity = quantity + $1, last_updated = $2 WHERE user_id = $3 AND id = $4',
+              [quantity, now, userId, destinationId]
+            );
+          } else {
+            await client.query(
+              `INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated, location_id)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+              [destinationId, userId, item.name, item.barcode || null, quantity, item.unit, item.category, now, locationId]
+            );
+          }
+
+          await client.query(
+            'UPDATE pantry_items SET quantity = $1, last_updated = $2 WHERE user_id = $3 AND id = $4',
+            [item.quantity - quantity, now, userId, itemId]
+          );
+
+          await this.transferLots(client, userId, itemId, destinationId, quantity);
+          await this.syncLowStock(client, userId, itemId, now);
+          await this.syncLowStock(client, userId, destinationId, now);
+
+          const metadata = { fromLocationId, toLocationId: locationId, fromItemId: itemId, toItemId: destinationId };
+          activities.push(
+            await this.logMoveActivity(client, userId, item, 'REMOVE', quantity, metadata, options.performedBy, now),
+            await this.logMoveActivity(client, userId, { ...item, id: destinationId }, 'ADD', quantity, metadata, options.performedBy, now)
+          );
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return {
+      item: (await this.getItemById(userId, itemId))!,
+      destination: (await this.getItemById(userId, destinationId))!,
+      activities,
+    };
+  }
+
+  /**
+   * Record a MOVED activity, with the locations involved as metadata
+   * Callers run this inside the transaction that moves the stock.
+   */
+  private async logMoveActivity(
+    client: PoolClient,
+    userId: string,
+    item: PantryItem,
+    type: ActivityType,
+    amount: number,
+    metadata: Record<string, string | null>,
+    performedBy: string | undefined,
+    now: string
+  ): Promise<Activity> {
+    const id = uuidv4();
+    const metadataJson = JSON.stringify(metadata);
+
+    await client.query(
+      `INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, reason, performed_by, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'MANUAL', 'MOVED', $8, $9)`,
+      [id, userId, item.id, item.name, type, amount, now, performedBy || null, metadataJson]
+    );
+
+    return {
+      id,
+      userId,
+      itemId: item.id,
+      itemName: item.name,
+      type,
+      amount,
+      timestamp: now,
+      source: 'MANUAL',
+      reason: 'MOVED',
+      performedBy,
+      metadata: metadataJson,
+    };
+  }
+
+  /**
+   * Move a quantity of stock's lots to another item, first-expiring-first,
+   * keeping their purchase and best-before dates. Stock not covered by lots
+   * stays untracked at the destination.
+   * Callers run this inside the transaction that moves the stock.
+   */
+  private async transferLots(
+    client: PoolClient,
+    userId: string,
+    fromItemId: string,
+    toItemId: string,
+    quantity: number
+  ): Promise<void> {
+    let remaining = quantity;
+    const lots = await client.query(
+      `SELECT * FROM item_lots WHERE user_id = $1 AND item_id = $2 ORDER BY ${LOT_CONSUMPTION_ORDER}`,
+      [userId, fromItemId]
+    );
+
+    for (const lot of lots.rows as ItemLotRow[]) {
+      if (remaining <= LOT_EPSILON) break;
+
+      const moved = Math.min(lot.quantity, remaining);
+      remaining -= moved;
+
+      if (lot.quantity - moved <= LOT_EPSILON) {
+        await client.query('DELETE FROM item_lots WHERE id = $1', [lot.id]);
+      } else {
+        await client.query('UPDATE item_lots SET quantity = $1 WHERE id = $2', [lot.quantity - moved, lot.id]);
+      }
+
+      await client.query(
+        `INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [uuidv4(), toItemId, userId, moved, moved, lot.purchase_date, lot.best_before, lot.source, lot.created_at]
+      );
+    }
+  }
+
+  // ==========================================================================
+  // Storage Location Operations
+  // ==========================================================================
+
+  async getStorageLocations(userId: string): Promise<StorageLocation[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `${STORAGE_LOCATION_SELECT} WHERE user_id = $1 ORDER BY LOWER(name)`,
+      [userId]
+    );
+
+    return result.rows.map(mapStorageLocationRow);
+  }
+
+  async getStorageLocationById(userId: string, id: string): Promise<StorageLocation | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `${STORAGE_LOCATION_SELECT} WHERE user_id = $1 AND id = $2`,
+      [userId, id]
+    );
+
+    return result.rows[0] ? mapStorageLocationRow(result.rows[0]) : null;
+  }
+
+  async getStorageLocationByName(userId: string, name: string): Promise<StorageLocation | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `${STORAGE_LOCATION_SELECT} WHERE user_id = $1 AND LOWER(name) = LOWER($2)`,
+      [userId, name]
+    );
+
+    return result.rows[0] ? mapStorageLocationRow(result.rows[0]) : null;
+  }
+
+  async createStorageLocation(userId: string, name: string): Promise<StorageLocation> {
+    const pool = this.getPool();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    await pool.query(
+      `INSERT INTO storage_locations (id, user_id, name, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, userId, name, now, now]
+    );
+
+    return { id, userId, name, itemCount: 0, createdAt: now, updatedAt: now };
+  }
+
+  async updateStorageLocation(userId: string, id: string, name: string): Promise<StorageLocation | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'UPDATE storage_locations SET name = $1, updated_at = $2 WHERE user_id = $3 AND id = $4',
+      [name, new Date().toISOString(), userId, id]
+    );
+
+    if ((result.rowCount || 0) === 0) return null;
+
+    return this.getStorageLocationById(userId, id);
+  }
+
+  async deleteStorageLocation(userId: string, id: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'DELETE FROM storage_locations WHERE user_id = $1 AND id = $2',
+      [userId, id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ==========================================================================
+  // Item Lot Operations
+  // ==========================================================================
+
+  async getItemLots(userId: string, itemId: string): Promise<ItemLot[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT * FROM item_lots WHERE user_id = $1 AND item_id = $2 ORDER BY ${LOT_CONSUMPTION_ORDER}`,
+      [userId, itemId]
+    );
+
+    return result.rows.map(mapItemLotRow);
+  }
+
+  async getExpiringLots(userId: string, cutoffDate: string): Promise<ExpiringLot[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT l.*, i.name AS item_name, i.category, i.unit
+       FROM item_lots l
+       JOIN pantry_items i ON i.id = l.item_id
+       WHERE l.user_id = $1 AND l.best_before IS NOT NULL AND l.best_before <= $2 AND l.quantity > 0
+       ORDER BY l.best_before ASC, LOWER(i.name)`,
+      [userId, cutoffDate]
+    );
+
+    return result.rows.map(mapExpiringLotRow);
+  }
+
+  async getWasteEntries(userId: string, fromDate: string, toDate: string): Promise<WasteEntry[]> {
+    const pool = this.getPool();
+    const today = new Date().toISOString().slice(0, 10);
+
+    // Lots still holding stock after their best-before date went unused,
+    // plus stock explicitly thrown out with a waste reason
+    const result = await pool.query(
+      `SELECT
+         l.id AS lot_id,
+         NULL AS activity_id,
+         NULL AS reason,
+         l.item_id,
+         i.name AS item_name,
+         i.category,
+         i.unit,
+         l.quantity,
+         l.best_before AS date,
+         ${ITEM_UNIT_PRICE_SQL} AS unit_price
+       FROM item_lots l
+       JOIN pantry_items i ON i.id = l.item_id
+       WHERE l.user_id = $1
+         AND l.quantity > 0
+         AND l.best_before IS NOT NULL
+         AND l.best_before < $2
+         AND l.best_before >= $3
+         AND l.best_before <= $4
+       UNION ALL
+       SELECT
+         NULL AS lot_id,
+         a.id AS activity_id,
+         a.reason,
+         a.item_id,
+         i.name AS item_name,
+         i.category,
+         i.unit,
+         a.amount AS quantity,
+         substr(a.timestamp, 1, 10) AS date,
+         ${ITEM_UNIT_PRICE_SQL} AS unit_price
+       FROM activities a
+       JOIN pantry_items i ON i.id = a.item_id
+       WHERE a.user_id = $1
+         AND a.type = 'REMOVE'
+         AND a.reason = ANY($5)
+         AND substr(a.timestamp, 1, 10) >= $3
+         AND substr(a.timestamp, 1, 10) <= $4
+       ORDER BY date ASC`,
+      [userId, today, fromDate, toDate, WASTE_REASONS]
+    );
+
+    return result.rows.map(mapWasteEntryRow);
+  }
+
+  /**
+   * Mirror a change in item quantity onto its lots.
+   * A positive delta opens a new lot; a negative delta drains open lots
+   * first-expiring-first and deletes the ones that are used up.
+   * Runs on the client holding the transaction that updates the item quantity.
+   */
+  private async applyLotDelta(
+    client: PoolClient,
+    userId: string,
+    itemId: string,
+    delta: number,
+    source: ActivitySource,
+    lot: LogActivityOptions,
+    now: string
+  ): Promise<void> {
+    if (delta > 0) {
+      await client.query(
+        `INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [uuidv4(), itemId, userId, delta, delta, lot.purchaseDate || now.slice(0, 10), lot.bestBefore || null, source, now]
+      );
+      return;
+    }
+
+    let remaining = -delta;
+    const lots = await client.query(
+      `SELECT id, quantity FROM item_lots WHERE user_id = $1 AND item_id = $2 ORDER BY ${LOT_CONSUMPTION_ORDER} FOR UPDATE`,
+      [userId, itemId]
+    );
+
+    for (const lotRow of lots.rows as { id: string; quantity: number }[]) {
+      if (remaining <= LOT_EPSILON) break;
+
+      const used = Math.min(lotRow.quantity, remaining);
+      remaining -= used;
+
+      if (lotRow.quantity - used <= LOT_EPSILON) {
+        await client.query('DELETE FROM item_lots WHERE id = $1', [lotRow.id]);
+      } else {
+        await client.query('UPDATE item_lots SET quantity = $1 WHERE id = $2', [lotRow.quantity - used, lotRow.id]);
+      }
+    }
+  }
+
+  /**
+   * Keep an item's AUTO shopping list entry in step with its stock.
+   * Below min_quantity with no open entry adds one for the restock amount;
+   * back at or above min_quantity removes any unchecked AUTO entry.
+   * Runs on the client holding the transaction that updates the item quantity.
+   */
+  private async syncLowStock(client: PoolClient, userId: string, itemId: string, now: string): Promise<void> {
+    const itemResult = await client.query(
+      'SELECT * FROM pantry_items WHERE user_id = $1 AND id = $2',
+      [userId, itemId]
+    );
+    if (!itemResult.rows[0]) return;
+
+    const item = mapPantryItemRow(itemResult.rows[0]);
+
+    if (!isLowStock(item)) {
+      await client.query(
+        `DELETE FROM shopping_list_items
+         WHERE user_id = $1 AND item_id = $2 AND checked = FALSE AND source = 'AUTO'`,
+        [userId, itemId]
+      );
+      return;
+    }
+
+    const open = await client.query(
+      'SELECT id FROM shopping_list_items WHERE user_id = $1 AND item_id = $2 AND checked = FALSE',
+      [userId, itemId]
+    );
+    if (open.rows.length > 0) return;
+
+    await client.query(
+      `INSERT INTO shopping_list_items (id, user_id, item_id, name, quantity, unit, category, barcode, source, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'AUTO', $9, $10)`,
+      [uuidv4(), userId, itemId, item.name, restockQuantity(item), item.unit, item.category, item.barcode || null, now, now]
+    );
+  }
+
+  // ==========================================================================
+  // Activity Operations
+  // ==========================================================================
+
+  async getActivities(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0,
+    itemId?: string,
+    reason?: ActivityReason
+  ): Promise<Activity[]> {
+    const pool = this.getPool();
+
+    let query = 'SELECT * FROM activities WHERE user_id = $1';
+    const params: (string | number)[] = [userId];
+    let paramIndex = 2;
+
+    if (itemId) {
+      query += ` AND item_id = $${paramIndex++}`;
+      params.push(itemId);
+    }
+
+    if (reason) {
+      query += ` AND reason = $${paramIndex++}`;
+      params.push(reason);
+    }
+
+    query += ` ORDER BY timestamp DESC LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
+    params.push(limit, offset);
+
+    const result = await pool.query(query, params);
+
+    return result.rows.map(mapActivityRow);
+  }
+
+  async getActivityCount(userId: string, itemId?: string, reason?: ActivityReason): Promise<number> {
+    const pool = this.getPool();
 
     let query = 'SELECT COUNT(*) as count FROM activities WHERE user_id = $1';
     const params: string[] = [userId];
@@ -517,6 +1957,11 @@ export class PostgresAdapter implements DatabaseAdapter {
       params.push(itemId);
     }
 
+    if (reason) {
+      query += ` AND reason = $${paramIndex++}`;
+      params.push(reason);
+    }
+
     const result = await pool.query(query, params);
 
     return parseInt(result.rows[0].count, 10);
@@ -527,13 +1972,19 @@ export class PostgresAdapter implements DatabaseAdapter {
     itemId: string,
     type: ActivityType,
     amount: number,
-    source: ActivitySource = 'MANUAL'
+    source: ActivitySource = 'MANUAL',
+    options: LogActivityOptions = {}
   ): Promise<Activity | null> {
     const pool = this.getPool();
 
     const item = await this.getItemById(userId, itemId);
     if (!item) return null;
 
+    // Amounts given in another unit are stored in the item's unit
+    if (options.unit) {
+      amount = convertToItemUnit(amount, options.unit, item);
+    }
+
     const id = uuidv4();
     const now = new Date().toISOString();
 
@@ -565,9 +2016,20 @@ export class PostgresAdapter implements DatabaseAdapter {
       try {
         // Create activity record with denormalized item name
         await client.query(
-          `INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-          [id, userId, itemId, item.name, type, actualAmount, now, source]
+          `INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, reason, performed_by)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            id,
+            userId,
+            itemId,
+            item.name,
+            type,
+            actualAmount,
+            now,
+            source,
+            options.reason || null,
+            options.performedBy || null,
+          ]
         );
 
         // Update item quantity
@@ -579,6 +2041,10 @@ export class PostgresAdapter implements DatabaseAdapter {
           [newQuantity, now, userId, itemId]
         );
 
+        // Open a lot for added stock, or draw down lots for removed stock
+        await this.applyLotDelta(client, userId, itemId, newQuantity - item.quantity, source, options, now);
+        await this.syncLowStock(client, userId, itemId, now);
+
         await client.query('COMMIT');
 
         return {
@@ -590,6 +2056,8 @@ export class PostgresAdapter implements DatabaseAdapter {
           amount: actualAmount,
           timestamp: now,
           source,
+          reason: options.reason,
+          performedBy: options.performedBy,
         };
       } catch (err) {
         await client.query('ROLLBACK');
@@ -601,135 +2069,1890 @@ export class PostgresAdapter implements DatabaseAdapter {
   }
 
   // ==========================================================================
-  // Scan Receipt Operations
+  // Shopping List Operations
   // ==========================================================================
 
-  processReceiptScan(rawData: string | ScanResult[]): ScanResult[] {
-    // If already structured data, validate and return
-    if (Array.isArray(rawData)) {
-      return rawData.filter((item) => item.name && item.quantity >= 0);
-    }
-
-    // Simple text parsing (mock implementation)
-    return this.parseReceiptText(rawData);
-  }
+  async getShoppingList(userId: string, checked?: boolean): Promise<ShoppingListItem[]> {
+    const pool = this.getPool();
 
-  private parseReceiptText(text: string): ScanResult[] {
-    const lines = text.split('\n').filter((line) => line.trim());
-    const results: ScanResult[] = [];
+    let query = 'SELECT * FROM shopping_list_items WHERE user_id = $1';
+    const params: (string | boolean)[] = [userId];
+    let paramIndex = 2;
 
-    for (const line of lines) {
-      // Simple parsing: look for patterns like "Item Name $X.XX" or "Item Name X qty"
-      const match = line.match(/(.+?)\s+(?:\$?\d+\.\d+|\d+)\s*(\w+)?/i);
-      if (match) {
-        const name = match[1].trim();
-        const category = this.inferCategory(name);
-        
-        results.push({
-          name,
-          quantity: 1,
-          unit: match[2] || 'pieces',
-          category,
-        });
-      }
+    if (checked !== undefined) {
+      query += ` AND checked = $${paramIndex++}`;
+      params.push(checked);
     }
 
-    return results;
+    query += ' ORDER BY checked ASC, LOWER(category), LOWER(name)';
+
+    const result = await pool.query(query, params);
+
+    return result.rows.map(mapShoppingListItemRow);
   }
 
-  private inferCategory(name: string): string {
-    const lowerName = name.toLowerCase();
-    
-    const categories: Record<string, string[]> = {
-      produce: ['apple', 'banana', 'orange', 'lettuce', 'tomato', 'onion', 'carrot'],
-      dairy: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'egg'],
-      meat: ['chicken', 'beef', 'pork', 'fish', 'salmon', 'turkey'],
-      bakery: ['bread', 'bagel', 'muffin', 'cake', 'roll'],
-      pantry: ['rice', 'pasta', 'flour', 'sugar', 'oil', 'sauce'],
-      beverages: ['water', 'soda', 'juice', 'coffee', 'tea'],
-      frozen: ['frozen', 'ice cream', 'pizza'],
-    };
+  async getShoppingListItemById(userId: string, id: string): Promise<ShoppingListItem | null> {
+    const pool = this.getPool();
 
-    for (const [category, keywords] of Object.entries(categories)) {
-      if (keywords.some((kw) => lowerName.includes(kw))) {
-        return category;
-      }
-    }
+    const result = await pool.query(
+      'SELECT * FROM shopping_list_items WHERE user_id = $1 AND id = $2',
+      [userId, id]
+    );
 
-    return 'general';
+    return result.rows[0] ? mapShoppingListItemRow(result.rows[0]) : null;
   }
 
-  // ==========================================================================
-  // Visual Usage Operations
-  // ==========================================================================
+  async addShoppingListItem(userId: string, input: AddShoppingListItemInput): Promise<ShoppingListItem> {
+    const pool = this.getPool();
 
-  async processVisualUsage(
-    userId: string,
-    detections: UsageResult[],
-    source: string = 'VISUAL_USAGE'
-  ): Promise<{ processed: UsageResult[]; activities: Activity[]; errors: string[] }> {
-    const results = {
-      processed: [] as UsageResult[],
-      activities: [] as Activity[],
-      errors: [] as string[],
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    await pool.query(
+      `INSERT INTO shopping_list_items (id, user_id, item_id, name, quantity, unit, category, barcode, source, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'MANUAL', $9, $10)`,
+      [
+        id,
+        userId,
+        input.itemId || null,
+        input.name,
+        input.quantity,
+        input.unit || null,
+        input.category || null,
+        input.barcode || null,
+        now,
+        now,
+      ]
+    );
+
+    return {
+      id,
+      userId,
+      itemId: input.itemId,
+      name: input.name,
+      quantity: input.quantity,
+      unit: input.unit,
+      category: input.category,
+      barcode: input.barcode,
+      checked: false,
+      source: 'MANUAL',
+      createdAt: now,
+      updatedAt: now,
     };
+  }
 
-    for (const detection of detections) {
-      // Try to find matching item by name for this user
-      const item = await this.getItemByName(userId, detection.name);
+  async updateShoppingListItem(
+    userId: string,
+    id: string,
+    input: UpdateShoppingListItemInput
+  ): Promise<ShoppingListItem | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
 
-      if (!item) {
-        results.errors.push(`Item not found: ${detection.name}`);
-        continue;
+    const updates: string[] = [];
+    const params: (string | number | boolean | null)[] = [];
+    let paramIndex = 1;
+
+    if (input.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      params.push(input.name);
+    }
+    if (input.quantity !== undefined) {
+      updates.push(`quantity = $${paramIndex++}`);
+      params.push(input.quantity);
+    }
+    if (input.unit !== undefined) {
+      updates.push(`unit = $${paramIndex++}`);
+      params.push(input.unit);
+    }
+    if (input.category !== undefined) {
+      updates.push(`category = $${paramIndex++}`);
+      params.push(input.category);
+    }
+    if (input.checked !== undefined) {
+      updates.push(`checked = $${paramIndex++}`, `checked_at = $${paramIndex++}`);
+      params.push(input.checked, input.checked ? now : null);
+    }
+
+    updates.push(`updated_at = $${paramIndex++}`);
+    params.push(now, userId, id);
+
+    const result = await pool.query(
+      `UPDATE shopping_list_items SET ${updates.join(', ')} WHERE user_id = $${paramIndex++} AND id = $${paramIndex++}`,
+      params
+    );
+
+    if ((result.rowCount || 0) === 0) return null;
+
+    return this.getShoppingListItemById(userId, id);
+  }
+
+  async deleteShoppingListItem(userId: string, id: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'DELETE FROM shopping_list_items WHERE user_id = $1 AND id = $2',
+      [userId, id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteShoppingListItems(userId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'DELETE FROM shopping_list_items WHERE user_id = $1 AND id = ANY($2)',
+      [userId, ids]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  // ==========================================================================
+  // Household Operations
+  // ==========================================================================
+
+  /**
+   * Re-key every inventory row from one owner to another
+   * Runs on the client holding the transaction that creates or dissolves a household.
+   */
+  private async transferInventory(client: PoolClient, fromOwnerId: string, toOwnerId: string): Promise<void> {
+    for (const table of INVENTORY_TABLES) {
+      await client.query(`UPDATE ${table} SET user_id = $1 WHERE user_id = $2`, [toOwnerId, fromOwnerId]);
+    }
+  }
+
+  async createHousehold(ownerId: string, name: string): Promise<Household> {
+    const pool = this.getPool();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const inviteCode = generateInviteCode();
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await client.query(
+          `INSERT INTO households (id, name, owner_id, invite_code, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, name, ownerId, inviteCode, now, now]
+        );
+        await client.query(
+          `INSERT INTO household_members (household_id, user_id, role, joined_at)
+           VALUES ($1, $2, 'owner', $3)`,
+          [id, ownerId, now]
+        );
+        await this.transferInventory(client, ownerId, id);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
       }
+    } finally {
+      client.release();
+    }
 
-      // Create REMOVE activity
-      const activity = await this.logActivity(
-        userId,
-        item.id,
-        'REMOVE',
-        detection.quantityUsed,
-        source as ActivitySource
-      );
+    return { id, name, ownerId, inviteCode, createdAt: now, updatedAt: now };
+  }
 
-      if (activity) {
-        results.processed.push(detection);
-        results.activities.push(activity);
-      } else {
-        results.errors.push(`Failed to log usage for: ${detection.name}`);
+  async getHouseholdById(householdId: string): Promise<Household | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM households WHERE id = $1', [householdId]);
+
+    return result.rows.length > 0 ? mapHouseholdRow(result.rows[0] as HouseholdRow) : null;
+  }
+
+  async getHouseholdByInviteCode(inviteCode: string): Promise<Household | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM households WHERE invite_code = $1', [inviteCode.toUpperCase()]);
+
+    return result.rows.length > 0 ? mapHouseholdRow(result.rows[0] as HouseholdRow) : null;
+  }
+
+  async getHouseholdForUser(userId: string): Promise<HouseholdMembership | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT h.*, m.role AS member_role
+       FROM household_members m
+       JOIN households h ON h.id = m.household_id
+       WHERE m.user_id = $1`,
+      [userId]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0] as HouseholdRow & { member_role: HouseholdRole };
+    return { household: mapHouseholdRow(row), role: row.member_role };
+  }
+
+  async updateHouseholdName(householdId: string, name: string): Promise<Household | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'UPDATE households SET name = $1, updated_at = $2 WHERE id = $3',
+      [name, new Date().toISOString(), householdId]
+    );
+
+    return (result.rowCount || 0) > 0 ? this.getHouseholdById(householdId) : null;
+  }
+
+  async regenerateHouseholdInviteCode(householdId: string): Promise<Household | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'UPDATE households SET invite_code = $1, updated_at = $2 WHERE id = $3',
+      [generateInviteCode(), new Date().toISOString(), householdId]
+    );
+
+    return (result.rowCount || 0) > 0 ? this.getHouseholdById(householdId) : null;
+  }
+
+  async deleteHousehold(householdId: string, inventoryOwnerId: string): Promise<boolean> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await this.transferInventory(client, householdId, inventoryOwnerId);
+        const result = await client.query('DELETE FROM households WHERE id = $1', [householdId]);
+
+        await client.query('COMMIT');
+
+        return (result.rowCount || 0) > 0;
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
       }
+    } finally {
+      client.release();
     }
+  }
 
-    return results;
+  async getHouseholdMembers(householdId: string): Promise<HouseholdMember[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT * FROM household_members
+       WHERE household_id = $1
+       ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, joined_at ASC`,
+      [householdId]
+    );
+
+    return result.rows.map((row) => mapHouseholdMemberRow(row as HouseholdMemberRow));
+  }
+
+  async addHouseholdMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    await pool.query(
+      `INSERT INTO household_members (household_id, user_id, role, joined_at)
+       VALUES ($1, $2, $3, $4)`,
+      [householdId, userId, role, now]
+    );
+
+    return { householdId, userId, role, joinedAt: now };
+  }
+
+  async updateHouseholdMemberRole(
+    householdId: string,
+    userId: string,
+    role: HouseholdRole
+  ): Promise<HouseholdMember | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `UPDATE household_members SET role = $1
+       WHERE household_id = $2 AND user_id = $3
+       RETURNING *`,
+      [role, householdId, userId]
+    );
+
+    return result.rows.length > 0 ? mapHouseholdMemberRow(result.rows[0] as HouseholdMemberRow) : null;
+  }
+
+  async removeHouseholdMember(householdId: string, userId: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'DELETE FROM household_members WHERE household_id = $1 AND user_id = $2',
+      [householdId, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createHouseholdInvite(householdId: string, input: CreateHouseholdInviteInput): Promise<HouseholdInvite> {
+    const pool = this.getPool();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const token = generateInviteToken();
+
+    await pool.query(
+      `INSERT INTO household_invites (id, household_id, email, role, token, invited_by, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [id, householdId, input.email, input.role, token, input.invitedBy, input.expiresAt, now]
+    );
+
+    return {
+      id,
+      householdId,
+      email: input.email,
+      role: input.role,
+      token,
+      invitedBy: input.invitedBy,
+      expiresAt: input.expiresAt,
+      createdAt: now,
+    };
+  }
+
+  async getHouseholdInviteByToken(token: string): Promise<HouseholdInvite | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM household_invites WHERE token = $1', [token]);
+
+    return result.rows.length > 0 ? mapHouseholdInviteRow(result.rows[0] as HouseholdInviteRow) : null;
+  }
+
+  async getPendingHouseholdInvites(householdId: string): Promise<HouseholdInvite[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT * FROM household_invites
+       WHERE household_id = $1 AND accepted_at IS NULL
+       ORDER BY created_at DESC`,
+      [householdId]
+    );
+
+    return result.rows.map((row) => mapHouseholdInviteRow(row as HouseholdInviteRow));
+  }
+
+  async markHouseholdInviteAccepted(inviteId: string, userId: string): Promise<void> {
+    const pool = this.getPool();
+
+    await pool.query(
+      'UPDATE household_invites SET accepted_at = $1, accepted_by = $2 WHERE id = $3',
+      [new Date().toISOString(), userId, inviteId]
+    );
+  }
+
+  async deleteHouseholdInvite(householdId: string, inviteId: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      'DELETE FROM household_invites WHERE household_id = $1 AND id = $2',
+      [householdId, inviteId]
+    );
+
+    return (result.rowCount || 0) > 0;
   }
 
   // ==========================================================================
-  // Raw Query Access (for subscription service)
+  // Recipe Operations
   // ==========================================================================
 
-  async query(sql: string, params?: unknown[]): Promise<unknown[]> {
-    const pool = this.getPool();
-    const result = await pool.query(sql, params);
-    return result.rows;
+  private async insertRecipeIngredients(
+    client: PoolClient,
+    recipeId: string,
+    ingredients: RecipeIngredientInput[]
+  ): Promise<void> {
+    for (const [position, ingredient] of ingredients.entries()) {
+      await client.query(
+        `INSERT INTO recipe_ingredients (id, recipe_id, position, name, quantity, unit)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [uuidv4(), recipeId, position, ingredient.name, ingredient.quantity ?? null, ingredient.unit || null]
+      );
+    }
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<{ changes: number; lastID?: string | number }> {
+  async getRecipes(userId: string): Promise<Recipe[]> {
     const pool = this.getPool();
-    const result = await pool.query(sql, params);
-    return { changes: result.rowCount || 0 };
+
+    const result = await pool.query('SELECT * FROM recipes WHERE user_id = $1 ORDER BY name ASC', [userId]);
+    if (result.rows.length === 0) return [];
+
+    const rows = result.rows as RecipeRow[];
+    const ingredientResult = await pool.query(
+      'SELECT * FROM recipe_ingredients WHERE recipe_id = ANY($1) ORDER BY recipe_id, position ASC',
+      [rows.map((row) => row.id)]
+    );
+
+    const byRecipe = new Map<string, RecipeIngredient[]>();
+    for (const row of ingredientResult.rows as RecipeIngredientRow[]) {
+      const lines = byRecipe.get(row.recipe_id) ?? [];
+      lines.push(mapRecipeIngredientRow(row));
+      byRecipe.set(row.recipe_id, lines);
+    }
+
+    return rows.map((row) => mapRecipeRow(row, byRecipe.get(row.id) ?? []));
   }
 
-  async transaction<T>(fn: () => Promise<T> | T): Promise<T> {
+  async getRecipeById(userId: string, id: string): Promise<Recipe | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM recipes WHERE user_id = $1 AND id = $2', [userId, id]);
+    if (result.rows.length === 0) return null;
+
+    const ingredientResult = await pool.query(
+      'SELECT * FROM recipe_ingredients WHERE recipe_id = $1 ORDER BY position ASC',
+      [id]
+    );
+
+    return mapRecipeRow(
+      result.rows[0] as RecipeRow,
+      (ingredientResult.rows as RecipeIngredientRow[]).map(mapRecipeIngredientRow)
+    );
+  }
+
+  async createRecipe(userId: string, input: CreateRecipeInput): Promise<Recipe> {
+    const pool = this.getPool();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await client.query(
+          `INSERT INTO recipes (id, user_id, name, description, servings, instructions, source_url, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            id,
+            userId,
+            input.name,
+            input.description || null,
+            input.servings ?? null,
+            input.instructions || null,
+            input.sourceUrl || null,
+            now,
+            now,
+          ]
+        );
+        await this.insertRecipeIngredients(client, id, input.ingredients);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return (await this.getRecipeById(userId, id))!;
+  }
+
+  async updateRecipe(userId: string, id: string, input: UpdateRecipeInput): Promise<Recipe | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+    let paramIndex = 1;
+
+    if (input.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      params.push(input.name);
+    }
+    if (input.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      params.push(input.description);
+    }
+    if (input.servings !== undefined) {
+      updates.push(`servings = $${paramIndex++}`);
+      params.push(input.servings);
+    }
+    if (input.instructions !== undefined) {
+      updates.push(`instructions = $${paramIndex++}`);
+      params.push(input.instructions);
+    }
+    if (input.sourceUrl !== undefined) {
+      updates.push(`source_url = $${paramIndex++}`);
+      params.push(input.sourceUrl);
+    }
+
+    updates.push(`updated_at = $${paramIndex++}`);
+    params.push(now, userId, id);
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const result = await client.query(
+          `UPDATE recipes SET ${updates.join(', ')} WHERE user_id = $${paramIndex++} AND id = $${paramIndex++}`,
+          params
+        );
+
+        if ((result.rowCount || 0) === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+
+        if (input.ingredients) {
+          await client.query('DELETE FROM recipe_ingredients WHERE recipe_id = $1', [id]);
+          await this.insertRecipeIngredients(client, id, input.ingredients);
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return this.getRecipeById(userId, id);
+  }
+
+  async deleteRecipe(userId: string, id: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query('DELETE FROM recipes WHERE user_id = $1 AND id = $2', [userId, id]);
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ==========================================================================
+  // Meal Plan Operations
+  // ==========================================================================
+
+  private async insertMealPlanIngredients(
+    client: PoolClient,
+    entryId: string,
+    ingredients: RecipeIngredientInput[]
+  ): Promise<void> {
+    for (const [position, ingredient] of ingredients.entries()) {
+      await client.query(
+        `INSERT INTO meal_plan_ingredients (id, entry_id, position, name, quantity, unit)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [uuidv4(), entryId, position, ingredient.name, ingredient.quantity ?? null, ingredient.unit || null]
+      );
+    }
+  }
+
+  async getMealPlan(userId: string, from?: string, to?: string): Promise<MealPlanEntry[]> {
+    const pool = this.getPool();
+
+    let query = 'SELECT * FROM meal_plan_entries WHERE user_id = $1';
+    const params: string[] = [userId];
+    let paramIndex = 2;
+
+    if (from) {
+      query += ` AND date >= $${paramIndex++}`;
+      params.push(from);
+    }
+
+    if (to) {
+      query += ` AND date <= $${paramIndex++}`;
+      params.push(to);
+    }
+
+    query += ` ORDER BY date ASC, ${MEAL_SLOT_ORDER}, created_at ASC`;
+
+    const result = await pool.query(query, params);
+    if (result.rows.length === 0) return [];
+
+    const rows = result.rows as MealPlanEntryRow[];
+    const ingredientResult = await pool.query(
+      'SELECT * FROM meal_plan_ingredients WHERE entry_id = ANY($1) ORDER BY entry_id, position ASC',
+      [rows.map((row) => row.id)]
+    );
+
+    const byEntry = new Map<string, MealPlanIngredient[]>();
+    for (const row of ingredientResult.rows as MealPlanIngredientRow[]) {
+      const lines = byEntry.get(row.entry_id) ?? [];
+      lines.push(mapMealPlanIngredientRow(row));
+      byEntry.set(row.entry_id, lines);
+    }
+
+    return rows.map((row) => mapMealPlanEntryRow(row, byEntry.get(row.id) ?? []));
+  }
+
+  async getMealPlanEntryById(userId: string, id: string): Promise<MealPlanEntry | null> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM meal_plan_entries WHERE user_id = $1 AND id = $2', [userId, id]);
+    if (result.rows.length === 0) return null;
+
+    const ingredientResult = await pool.query(
+      'SELECT * FROM meal_plan_ingredients WHERE entry_id = $1 ORDER BY position ASC',
+      [id]
+    );
+
+    return mapMealPlanEntryRow(
+      result.rows[0] as MealPlanEntryRow,
+      (ingredientResult.rows as MealPlanIngredientRow[]).map(mapMealPlanIngredientRow)
+    );
+  }
+
+  async createMealPlanEntry(userId: string, input: CreateMealPlanEntryInput): Promise<MealPlanEntry> {
+    const pool = this.getPool();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        await client.query(
+          `INSERT INTO meal_plan_entries (id, user_id, date, slot, recipe_id, title, servings, notes, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            id,
+            userId,
+            input.date,
+            input.slot,
+            input.recipeId || null,
+            input.title,
+            input.servings ?? null,
+            input.notes || null,
+            now,
+            now,
+          ]
+        );
+        await this.insertMealPlanIngredients(client, id, input.ingredients);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return (await this.getMealPlanEntryById(userId, id))!;
+  }
+
+  async updateMealPlanEntry(
+    userId: string,
+    id: string,
+    input: UpdateMealPlanEntryInput
+  ): Promise<MealPlanEntry | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+    let paramIndex = 1;
+
+    if (input.date !== undefined) {
+      updates.push(`date = $${paramIndex++}`);
+      params.push(input.date);
+    }
+    if (input.slot !== undefined) {
+      updates.push(`slot = $${paramIndex++}`);
+      params.push(input.slot);
+    }
+    if (input.recipeId !== undefined) {
+      updates.push(`recipe_id = $${paramIndex++}`);
+      params.push(input.recipeId);
+    }
+    if (input.title !== undefined) {
+      updates.push(`title = $${paramIndex++}`);
+      params.push(input.title);
+    }
+    if (input.servings !== undefined) {
+      updates.push(`servings = $${paramIndex++}`);
+      params.push(input.servings);
+    }
+    if (input.notes !== undefined) {
+      updates.push(`notes = $${paramIndex++}`);
+      params.push(input.notes);
+    }
+
+    updates.push(`updated_at = $${paramIndex++}`);
+    params.push(now, userId, id);
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const result = await client.query(
+          `UPDATE meal_plan_entries SET ${updates.join(', ')} WHERE user_id = $${paramIndex++} AND id = $${paramIndex++}`,
+          params
+        );
+
+        if ((result.rowCount || 0) === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+
+        if (input.ingredients) {
+          await client.query('DELETE FROM meal_plan_ingredients WHERE entry_id = $1', [id]);
+          await this.insertMealPlanIngredients(client, id, input.ingredients);
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return this.getMealPlanEntryById(userId, id);
+  }
+
+  async deleteMealPlanEntry(userId: string, id: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    const result = await pool.query('DELETE FROM meal_plan_entries WHERE user_id = $1 AND id = $2', [userId, id]);
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ==========================================================================
+  // Scan Receipt Operations
+  // ==========================================================================
+
+  processReceiptScan(rawData: string | ScanResult[]): ScanResult[] {
+    // If already structured data, validate and return
+    if (Array.isArray(rawData)) {
+      return rawData.filter((item) => item.name && item.quantity >= 0);
+    }
+
+    // Simple text parsing (mock implementation)
+    return this.parseReceiptText(rawData);
+  }
+
+  private parseReceiptText(text: string): ScanResult[] {
+    const lines = text.split('\n').filter((line) => line.trim());
+    const results: ScanResult[] = [];
+
+    for (const line of lines) {
+      // Simple parsing: look for patterns like "Item Name $X.XX" or "Item Name X qty"
+      const match = line.match(/(.+?)\s+(?:\$?(\d+\.\d+)|\d+)\s*(\w+)?/i);
+      if (match) {
+        const name = match[1].trim();
+        const category = this.inferCategory(name);
+        
+        results.push({
+          name,
+          quantity: 1,
+          unit: match[3] || 'pieces',
+          category,
+          price: match[2] ? parseFloat(match[2]) : undefined,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private inferCategory(name: string): string {
+    const lowerName = name.toLowerCase();
+    
+    const categories: Record<string, string[]> = {
+      produce: ['apple', 'banana', 'orange', 'lettuce', 'tomato', 'onion', 'carrot'],
+      dairy: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'egg'],
+      meat: ['chicken', 'beef', 'pork', 'fish', 'salmon', 'turkey'],
+      bakery: ['bread', 'bagel', 'muffin', 'cake', 'roll'],
+      pantry: ['rice', 'pasta', 'flour', 'sugar', 'oil', 'sauce'],
+      beverages: ['water', 'soda', 'juice', 'coffee', 'tea'],
+      frozen: ['frozen', 'ice cream', 'pizza'],
+    };
+
+    for (const [category, keywords] of Object.entries(categories)) {
+      if (keywords.some((kw) => lowerName.includes(kw))) {
+        return category;
+      }
+    }
+
+    return 'general';
+  }
+
+  // ==========================================================================
+  // Visual Usage Operations
+  // ==========================================================================
+
+  async processVisualUsage(
+    userId: string,
+    detections: UsageResult[],
+    source: string = 'VISUAL_USAGE',
+    performedBy?: string
+  ): Promise<{ processed: UsageResult[]; activities: Activity[]; errors: string[] }> {
+    const results = {
+      processed: [] as UsageResult[],
+      activities: [] as Activity[],
+      errors: [] as string[],
+    };
+
+    for (const detection of detections) {
+      // Find the item the detected name refers to for this user
+      const item = await this.findItemMatch(userId, detection.name, detection.locationId);
+
+      if (!item) {
+        results.errors.push(`Item not found: ${detection.name}`);
+        continue;
+      }
+
+      // Create REMOVE activity
+      let activity: Activity | null;
+      try {
+        activity = await this.logActivity(
+          userId,
+          item.id,
+          'REMOVE',
+          detection.quantityUsed,
+          source as ActivitySource,
+          { reason: 'CONSUMED', performedBy, unit: detection.unit }
+        );
+      } catch (err) {
+        if (!isIncompatibleUnitsError(err)) throw err;
+        results.errors.push(err.message);
+        continue;
+      }
+
+      if (activity) {
+        results.processed.push(detection);
+        results.activities.push(activity);
+      } else {
+        results.errors.push(`Failed to log usage for: ${detection.name}`);
+      }
+    }
+
+    return results;
+  }
+
+  // ==========================================================================
+  // Raw Query Access (for subscription service)
+  // ==========================================================================
+
+  async query(sql: string, params?: unknown[]): Promise<unknown[]> {
+    const pool = this.getPool();
+    const result = await pool.query(sql, params);
+    return result.rows;
+  }
+
+  async execute(sql: string, params?: unknown[]): Promise<{ changes: number; lastID?: string | number }> {
+    const pool = this.getPool();
+    const result = await pool.query(sql, params);
+    return { changes: result.rowCount || 0 };
+  }
+
+  async transaction<T>(fn: () => Promise<T> | T): Promise<T> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const result = await this.transactionClient.run(client, fn);
+        await client.query('COMMIT');
+        return result;
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  // ==========================================================================
+  // Barcode / Product Cache Operations
+  // ==========================================================================
+
+  async getProductByBarcode(barcode: string, maxAgeDays?: number): Promise<ProductInfo | null> {
+    const pool = this.getPool();
+
+    // If maxAgeDays is specified, check cache freshness
+    if (maxAgeDays !== undefined) {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - maxAgeDays);
+      const cutoffIso = cutoffDate.toISOString();
+
+      const result = await pool.query(
+        `SELECT * FROM product_cache 
+         WHERE barcode = $1 AND info_last_synced >= $2 AND source != $3`,
+        [barcode, cutoffIso, PENDING_PRODUCT_SOURCE]
+      );
+
+      const row = result.rows[0] as {
+        barcode: string;
+        name: string;
+        brand?: string;
+        category: string;
+        image_url?: string;
+        ingredients?: string;
+        nutrition?: string;
+        source: string;
+        provenance?: string | null;
+        info_last_synced: string;
+      } | undefined;
+
+      if (row) {
+        return {
+          barcode: row.barcode,
+          name: row.name,
+          brand: row.brand,
+          category: row.category,
+          imageUrl: row.image_url,
+          ingredients: row.ingredients,
+          nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
+          source: row.source,
+          provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
+          infoLastSynced: row.info_last_synced,
+        };
+      }
+      return null;
+    }
+
+    // No age limit - return any cached product
+    const result = await pool.query(
+      'SELECT * FROM product_cache WHERE barcode = $1 AND source != $2',
+      [barcode, PENDING_PRODUCT_SOURCE]
+    );
+
+    const row = result.rows[0] as {
+      barcode: string;
+      name: string;
+      brand?: string;
+      category: string;
+      image_url?: string;
+      ingredients?: string;
+      nutrition?: string;
+      source: string;
+      provenance?: string | null;
+      info_last_synced: string;
+    } | undefined;
+
+    if (!row) return null;
+
+    return {
+      barcode: row.barcode,
+      name: row.name,
+      brand: row.brand,
+      category: row.category,
+      imageUrl: row.image_url,
+      ingredients: row.ingredients,
+      nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
+      source: row.source,
+      provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
+      infoLastSynced: row.info_last_synced,
+    };
+  }
+
+  async saveProduct(input: ProductCacheInput): Promise<void> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    await pool.query(
+      `INSERT INTO product_cache (
+        barcode, name, brand, category, image_url, ingredients, 
+        nutrition, source, provenance, info_last_synced, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT(barcode) DO UPDATE SET
+        name = EXCLUDED.name,
+        brand = EXCLUDED.brand,
+        category = EXCLUDED.category,
+        image_url = EXCLUDED.image_url,
+        ingredients = EXCLUDED.ingredients,
+        nutrition = EXCLUDED.nutrition,
+        source = EXCLUDED.source,
+        provenance = EXCLUDED.provenance,
+        info_last_synced = EXCLUDED.info_last_synced,
+        updated_at = EXCLUDED.updated_at,
+        needs_sync = 0,
+        sync_retry_count = 0,
+        last_error = NULL,
+        sync_after = NULL`,
+      [
+        input.barcode,
+        input.name,
+        input.brand || null,
+        input.category,
+        input.imageUrl || null,
+        input.ingredients || null,
+        input.nutrition ? JSON.stringify(input.nutrition) : null,
+        input.source,
+        input.provenance ? JSON.stringify(input.provenance) : null,
+        now,
+        now,
+      ]
+    );
+  }
+
+  async listStoredBarcodes(): Promise<string[]> {
+    const pool = this.getPool();
+    const result = await pool.query(
+      ['product_cache', ...BARCODE_TABLES]
+        .map((table) => `SELECT barcode FROM ${table} WHERE barcode IS NOT NULL`)
+        .join(' UNION ')
+    );
+
+    return result.rows.map((row: { barcode: string }) => row.barcode);
+  }
+
+  async renameBarcode(from: string, to: string): Promise<void> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const cached = await client.query(
+          'SELECT barcode, info_last_synced FROM product_cache WHERE barcode IN ($1, $2) FOR UPDATE',
+          [from, to]
+        );
+        const lastSynced = (barcode: string): string | undefined =>
+          cached.rows.find((row: { barcode: string }) => row.barcode === barcode)?.info_last_synced;
+        const fromSynced = lastSynced(from);
+        const toSynced = lastSynced(to);
+        if (fromSynced && toSynced) {
+          await client.query('DELETE FROM product_cache WHERE barcode = $1', [fromSynced > toSynced ? to : from]);
+        }
+        await client.query('UPDATE product_cache SET barcode = $1 WHERE barcode = $2', [to, from]);
+
+        for (const table of BARCODE_TABLES) {
+          await client.query(`UPDATE ${table} SET barcode = $1 WHERE barcode = $2`, [to, from]);
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  // ==========================================================================
+  // Client Error Operations
+  // ==========================================================================
+
+  async saveClientError(error: {
+    userId?: string;
+    errorType: string;
+    errorMessage: string;
+    errorStack?: string;
+    component?: string;
+    url?: string;
+    userAgent?: string;
+  }): Promise<{ id: string }> {
+    const pool = this.getPool();
+    const id = uuidv4();
+
+    await pool.query(
+      `INSERT INTO client_errors (id, user_id, error_type, error_message, error_stack, component, url, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        id,
+        error.userId || null,
+        error.errorType,
+        error.errorMessage,
+        error.errorStack || null,
+        error.component || null,
+        error.url || null,
+        error.userAgent || null,
+      ]
+    );
+
+    return { id };
+  }
+
+  async getClientErrors(filters: {
+    resolved?: boolean;
+    limit?: number;
+  }): Promise<Array<{
+    id: string;
+    user_id: string | null;
+    error_type: string;
+    error_message: string;
+    error_stack: string | null;
+    component: string | null;
+    url: string | null;
+    user_agent: string | null;
+    resolved: boolean;
+    created_at: string;
+  }>> {
+    const pool = this.getPool();
+    const limit = filters.limit || 50;
+
+    let query = 'SELECT * FROM client_errors WHERE 1=1';
+    const params: (string | number | boolean)[] = [];
+    let paramIndex = 1;
+
+    if (filters.resolved !== undefined) {
+      query += ` AND resolved = $${paramIndex++}`;
+      params.push(filters.resolved ? 1 : 0);
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${paramIndex++}`;
+    params.push(limit);
+
+    const result = await pool.query(query, params);
+    return result.rows as Array<{
+      id: string;
+      user_id: string | null;
+      error_type: string;
+      error_message: string;
+      error_stack: string | null;
+      component: string | null;
+      url: string | null;
+      user_agent: string | null;
+      resolved: boolean;
+      created_at: string;
+    }>;
+  }
+
+  async markErrorResolved(id: string): Promise<void> {
+    const pool = this.getPool();
+    await pool.query('UPDATE client_errors SET resolved = 1 WHERE id = $1', [id]);
+  }
+
+  // ==========================================================================
+  // Role Operations
+  // ==========================================================================
+
+  async getUserRoles(userId: string): Promise<UserRole[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT role FROM user_roles WHERE user_id = $1', [userId]);
+
+    return result.rows.map((row: { role: UserRole }) => row.role);
+  }
+
+  async getRoleAssignments(): Promise<RoleAssignment[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query('SELECT * FROM user_roles ORDER BY granted_at DESC');
+
+    return result.rows.map(mapRoleAssignmentRow);
+  }
+
+  async grantRole(userId: string, role: UserRole, grantedBy: string): Promise<RoleAssignment | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const result = await client.query(
+          `INSERT INTO user_roles (user_id, role, granted_by, granted_at)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id, role) DO NOTHING`,
+          [userId, role, grantedBy, now]
+        );
+
+        if ((result.rowCount || 0) === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+
+        await this.logRoleChange(client, userId, role, 'GRANT', grantedBy, now);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return { userId, role, grantedBy, grantedAt: now };
+  }
+
+  async revokeRole(userId: string, role: UserRole, revokedBy: string): Promise<boolean> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        const result = await client.query(
+          'DELETE FROM user_roles WHERE user_id = $1 AND role = $2',
+          [userId, role]
+        );
+
+        if ((result.rowCount || 0) === 0) {
+          await client.query('ROLLBACK');
+          return false;
+        }
+
+        await this.logRoleChange(client, userId, role, 'REVOKE', revokedBy, now);
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return true;
+  }
+
+  async getRoleAuditLog(limit: number, offset: number, userId?: string): Promise<RoleAuditEntry[]> {
+    const pool = this.getPool();
+
+    let query = 'SELECT * FROM role_audit_log';
+    const params: unknown[] = [];
+
+    if (userId) {
+      params.push(userId);
+      query += ` WHERE user_id = $${params.length}`;
+    }
+
+    params.push(limit, offset);
+    query += ` ORDER BY created_at DESC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+    const result = await pool.query(query, params);
+
+    return result.rows.map(mapRoleAuditEntryRow);
+  }
+
+  /**
+   * Record a role change (runs inside the caller's transaction)
+   */
+  private async logRoleChange(
+    client: PoolClient,
+    userId: string,
+    role: UserRole,
+    action: RoleAuditAction,
+    performedBy: string,
+    now: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO role_audit_log (id, user_id, role, action, performed_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [uuidv4(), userId, role, action, performedBy, now]
+    );
+  }
+
+  // ==========================================================================
+  // Shopping Session Operations
+  // ==========================================================================
+
+  async createSession(userId: string, input: CreateSessionInput): Promise<ShoppingSession> {
+    const pool = this.getPool();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    await pool.query(
+      `INSERT INTO shopping_sessions (
+        id, user_id, store_name, started_at, status, total_amount, item_count, notes, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [id, userId, input.storeName || null, now, 'active', 0, 0, input.notes || null, now, now]
+    );
+
+    return {
+      id,
+      userId,
+      storeName: input.storeName,
+      startedAt: now,
+      status: 'active',
+      totalAmount: 0,
+      itemCount: 0,
+      notes: input.notes,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async getSessionById(userId: string, sessionId: string): Promise<ShoppingSessionWithItems | null> {
+    const pool = this.getPool();
+
+    // Get session
+    const sessionResult = await pool.query(
+      'SELECT * FROM shopping_sessions WHERE user_id = $1 AND id = $2',
+      [userId, sessionId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return null;
+    }
+
+    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
+
+    // Get items
+    const itemsResult = await pool.query(
+      'SELECT * FROM session_items WHERE session_id = $1 ORDER BY added_at DESC',
+      [sessionId]
+    );
+
+    return {
+      ...mapShoppingSessionRow(sessionRow),
+      items: itemsResult.rows.map(mapSessionItemRow),
+    };
+  }
+
+  async getUserSessions(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0,
+    status?: string
+  ): Promise<ShoppingSession[]> {
+    const pool = this.getPool();
+
+    let query = 'SELECT * FROM shopping_sessions WHERE user_id = $1';
+    const params: (string | number)[] = [userId];
+    let paramIndex = 2;
+
+    if (status) {
+      query += ` AND status = $${paramIndex++}`;
+      params.push(status);
+    }
+
+    query += ` ORDER BY started_at DESC LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
+    params.push(limit, offset);
+
+    const result = await pool.query(query, params);
+    return result.rows.map(mapShoppingSessionRow);
+  }
+
+  async getSessionCount(userId: string, status?: string): Promise<number> {
+    const pool = this.getPool();
+
+    let query = 'SELECT COUNT(*) as count FROM shopping_sessions WHERE user_id = $1';
+    const params: (string)[] = [userId];
+    let paramIndex = 2;
+
+    if (status) {
+      query += ` AND status = $${paramIndex++}`;
+      params.push(status);
+    }
+
+    const result = await pool.query(query, params);
+    return parseInt(result.rows[0]?.count || '0', 10);
+  }
+
+  async addSessionItem(
+    userId: string,
+    sessionId: string,
+    input: AddSessionItemInput
+  ): Promise<SessionItem> {
+    const pool = this.getPool();
+
+    // Verify session belongs to user and is active
+    const sessionResult = await pool.query(
+      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
+      [sessionId, userId, 'active']
+    );
+
+    if (sessionResult.rows.length === 0) {
+      throw new Error('Session not found or not active');
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    // Insert item
+    await pool.query(
+      `INSERT INTO session_items (
+        id, session_id, barcode, name, quantity, unit, price, category, best_before, added_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [id, sessionId, input.barcode || null, input.name, input.quantity, input.unit || null, input.price || null, input.category || null, input.bestBefore || null, now, now]
+    );
+
+    // Update session totals
+    const itemTotal = (input.price || 0) * input.quantity;
+    await pool.query(
+      `UPDATE shopping_sessions 
+       SET total_amount = total_amount + $1, 
+           item_count = item_count + 1,
+           updated_at = $2
+       WHERE id = $3`,
+      [itemTotal, now, sessionId]
+    );
+
+    return {
+      id,
+      sessionId,
+      barcode: input.barcode,
+      name: input.name,
+      quantity: input.quantity,
+      unit: input.unit,
+      price: input.price,
+      category: input.category,
+      bestBefore: input.bestBefore,
+      addedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async removeSessionItem(_userId: string, sessionId: string, itemId: string): Promise<boolean> {
+    const pool = this.getPool();
+
+    // Get item details before deletion (for total adjustment)
+    const itemResult = await pool.query(
+      'SELECT quantity, price FROM session_items WHERE id = $1 AND session_id = $2',
+      [itemId, sessionId]
+    );
+
+    if (itemResult.rows.length === 0) {
+      return false;
+    }
+
+    const itemRow = itemResult.rows[0] as { quantity: number; price: number | null };
+
+    // Delete item
+    const deleteResult = await pool.query(
+      'DELETE FROM session_items WHERE id = $1 AND session_id = $2',
+      [itemId, sessionId]
+    );
+
+    if (deleteResult.rowCount === 0) {
+      return false;
+    }
+
+    // Update session totals
+    const itemTotal = (itemRow.price || 0) * itemRow.quantity;
+    const now = new Date().toISOString();
+    await pool.query(
+      `UPDATE shopping_sessions 
+       SET total_amount = GREATEST(0, total_amount - $1), 
+           item_count = GREATEST(0, item_count - 1),
+           updated_at = $2
+       WHERE id = $3`,
+      [itemTotal, now, sessionId]
+    );
+
+    return true;
+  }
+
+  async completeSession(
+    userId: string,
+    sessionId: string,
+    input: CompleteSessionInput
+  ): Promise<ShoppingSession | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    // Verify session belongs to user and is active
+    const sessionResult = await pool.query(
+      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
+      [sessionId, userId, 'active']
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return null;
+    }
+
+    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
+
+    // Calculate final totals
+    const totalsResult = await pool.query(
+      'SELECT SUM(price * quantity) as total FROM session_items WHERE session_id = $1',
+      [sessionId]
+    );
+    const finalTotal = totalsResult.rows[0]?.total || sessionRow.total_amount;
+
+    // A receipt already read dates the session by purchase, not by now
+    const receiptResult = await pool.query(
+      'SELECT header FROM session_receipts WHERE session_id = $1 AND header IS NOT NULL ORDER BY captured_at DESC LIMIT 1',
+      [sessionId]
+    );
+    const receiptHeader = receiptResult.rows[0]?.header as string | undefined;
+    const completedAt = (receiptHeader && purchaseTimestamp(JSON.parse(receiptHeader))) || now;
+
+    // Update session
+    await pool.query(
+      `UPDATE shopping_sessions 
+       SET status = 'completed',
+           completed_at = $1,
+           total_amount = $2,
+           receipt_url = COALESCE($3, receipt_url),
+           notes = COALESCE($4, notes),
+           updated_at = $5
+       WHERE id = $6 AND user_id = $7`,
+      [completedAt, finalTotal, input.receiptUrl || null, input.notes || null, now, sessionId, userId]
+    );
+
+    // Record what was paid for each priced item
+    const pricedItems = await pool.query(
+      'SELECT * FROM session_items WHERE session_id = $1 AND price > 0',
+      [sessionId]
+    );
+    await this.recordPrices(
+      userId,
+      (pricedItems.rows as SessionItemRow[]).map((item) => ({
+        barcode: item.barcode || undefined,
+        name: item.name,
+        price: Number(item.price),
+        quantity: Number(item.quantity),
+        unit: item.unit || undefined,
+        storeName: sessionRow.store_name || undefined,
+        source: 'SHOPPING_SESSION' as const,
+        sessionId,
+        observedAt: completedAt,
+      }))
+    );
+
+    // Log shopping session activity
+    const activityId = uuidv4();
+    const metadata = JSON.stringify({
+      sessionId: sessionId,
+      itemCount: sessionRow.item_count,
+      storeName: sessionRow.store_name
+    });
+    await pool.query(
+      `INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, performed_by, metadata)
+       VALUES ($1, $2, $3, $4, 'SHOPPING_SESSION', $5, $6, 'SHOPPING_SESSION', $7, $8)`,
+      [
+        activityId,
+        userId,
+        sessionId,
+        `Shopping Session (${sessionRow.store_name || 'Unknown Store'})`,
+        finalTotal,
+        now,
+        input.performedBy || null,
+        metadata,
+      ]
+    );
+
+    return this.getSessionById(userId, sessionId);
+  }
+
+  async updateSessionReceipt(
+    userId: string,
+    sessionId: string,
+    receiptUrl: string
+  ): Promise<ShoppingSession | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    // Verify session belongs to user and is completed
+    const sessionResult = await pool.query(
+      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
+      [sessionId, userId, 'completed']
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return null;
+    }
+
+    // Update session receipt_url
+    await pool.query(
+      `UPDATE shopping_sessions 
+       SET receipt_url = $1,
+           updated_at = $2
+       WHERE id = $3 AND user_id = $4`,
+      [receiptUrl, now, sessionId, userId]
+    );
+
+    return this.getSessionById(userId, sessionId);
+  }
+
+  async cancelSession(userId: string, sessionId: string): Promise<boolean> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const result = await pool.query(
+      `UPDATE shopping_sessions 
+       SET status = 'cancelled',
+           completed_at = $1,
+           updated_at = $2
+       WHERE id = $3 AND user_id = $4 AND status = 'active'`,
+      [now, now, sessionId, userId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getSessionSummary(userId: string): Promise<SessionSummary> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT 
+        COUNT(*) as total_sessions,
+        COALESCE(SUM(total_amount), 0) as total_spent,
+        COALESCE(AVG(total_amount), 0) as avg_session_value
+      FROM shopping_sessions 
+      WHERE user_id = $1 AND status = 'completed'`,
+      [userId]
+    );
+
+    const row = result.rows[0] as {
+      total_sessions: string;
+      total_spent: string;
+      avg_session_value: string;
+    } | undefined;
+
+    return {
+      totalSessions: parseInt(row?.total_sessions || '0', 10),
+      totalSpent: parseFloat(row?.total_spent || '0'),
+      averageSessionValue: parseFloat(row?.avg_session_value || '0'),
+    };
+  }
+
+  async getSessionSpend(userId: string, fromDate: string, toDate: string): Promise<SessionSpend[]> {
+    const pool = this.getPool();
+
+    const result = await pool.query(
+      `SELECT
+         s.id,
+         s.store_name,
+         s.completed_at,
+         s.total_amount,
+         si.category,
+         SUM(si.price * si.quantity) AS amount
+       FROM shopping_sessions s
+       LEFT JOIN session_items si ON si.session_id = s.id AND si.price IS NOT NULL
+       WHERE s.user_id = $1
+         AND s.status = 'completed'
+         AND substr(s.completed_at, 1, 10) >= $2
+         AND substr(s.completed_at, 1, 10) <= $3
+       GROUP BY s.id, si.category
+       ORDER BY s.completed_at ASC, s.id`,
+      [userId, fromDate, toDate]
+    );
+
+    const sessions = new Map<string, SessionSpend>();
+    for (const row of result.rows) {
+      let session = sessions.get(row.id);
+      if (!session) {
+        session = {
+          sessionId: row.id,
+          storeName: row.store_name || undefined,
+          completedAt: row.completed_at,
+          totalAmount: Number(row.total_amount) || 0,
+          categories: [],
+        };
+        sessions.set(row.id, session);
+      }
+
+      if (row.amount !== null) {
+        session.categories.push({ category: row.category || undefined, amount: Number(row.amount) });
+      }
+    }
+
+    return [...sessions.values()];
+  }
+
+  async applySessionFixes(
+    userId: string,
+    sessionId: string,
+    fixes: ReconciliationFix[]
+  ): Promise<ShoppingSessionWithItems | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const sessionResult = await pool.query(
+      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
+      [sessionId, userId, 'completed']
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return null;
+    }
+
+    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      try {
+        for (const fix of fixes) {
+          if (fix.type === 'UPDATE_PRICE') {
+            await client.query(
+              'UPDATE session_items SET price = $1, updated_at = $2 WHERE id = $3 AND session_id = $4',
+              [fix.price, now, fix.sessionItemId, sessionId]
+            );
+          } else if (fix.type === 'REMOVE_ITEM') {
+            await client.query(
+              'DELETE FROM session_items WHERE id = $1 AND session_id = $2',
+              [fix.sessionItemId, sessionId]
+            );
+          } else {
+            await client.query(
+              `INSERT INTO session_items (
+                id, session_id, barcode, name, quantity, unit, price, category, best_before, added_at, updated_at
+              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NULL, $9, $10)`,
+              [
+                uuidv4(),
+                sessionId,
+                fix.barcode || null,
+                fix.name,
+                fix.quantity,
+                fix.unit || null,
+                fix.price,
+                fix.category || null,
+                now,
+                now,
+              ]
+            );
+          }
+        }
+
+        // Recompute totals from the corrected items
+        const totals = await client.query(
+          'SELECT COALESCE(SUM(price * quantity), 0) AS total, COUNT(*) AS count FROM session_items WHERE session_id = $1',
+          [sessionId]
+        );
+        await client.query(
+          `UPDATE shopping_sessions
+           SET total_amount = $1,
+               item_count = $2,
+               updated_at = $3
+           WHERE id = $4`,
+          [Number(totals.rows[0].total), Number(totals.rows[0].count), now, sessionId]
+        );
+
+        // Replace the prices recorded at completion with the corrected ones
+        await client.query(
+          'DELETE FROM price_observations WHERE user_id = $1 AND session_id = $2',
+          [userId, sessionId]
+        );
+        const pricedItems = await client.query(
+          'SELECT * FROM session_items WHERE session_id = $1 AND price > 0',
+          [sessionId]
+        );
+        await this.insertPrices(
+          client,
+          userId,
+          (pricedItems.rows as SessionItemRow[]).map((item) => ({
+            barcode: item.barcode || undefined,
+            name: item.name,
+            price: Number(item.price),
+            quantity: Number(item.quantity),
+            unit: item.unit || undefined,
+            storeName: sessionRow.store_name || undefined,
+            source: 'SHOPPING_SESSION' as const,
+            sessionId,
+            observedAt: sessionRow.completed_at || now,
+          })),
+          now
+        );
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
+    }
+
+    return this.getSessionById(userId, sessionId);
+  }
+
+  async addSessionToInventory(
+    userId: string,
+    sessionId: string,
+    performedBy?: string
+  ): Promise<{ items: PantryItem[]; activities: Activity[] }> {
+    // Get the session with items
+    const session = await this.getSessionById(userId, sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    if (session.status !== 'completed') {
+      throw new Error('Session must be completed before adding to inventory');
+    }
+
+    const items: PantryItem[] = [];
+    const activities: Activity[] = [];
+
+    // Lots from this trip are dated to when the session was completed
+    const purchaseDate = (session.completedAt || new Date().toISOString()).slice(0, 10);
+
+    // Process each session item with a barcode; one with a unit the pantry
+    // item can't be converted to rolls back the whole trip
+    await this.transaction(async () => {
+      for (const sessionItem of session.items) {
+        if (!sessionItem.barcode) {
+          continue;
+        }
+
+        // Reuse the existing pantry item, or create an empty one to add to
+        let item = await this.getItemByBarcode(userId, sessionItem.barcode);
+
+        if (!item) {
+          item = await this.createItem(userId, {
+            name: sessionItem.name,
+            quantity: 0,
+            unit: sessionItem.unit || 'pieces',
+            category: sessionItem.category || 'general',
+            barcode: sessionItem.barcode,
+          });
+        }
+
+        // Log ADD activity (updates quantity and opens a lot) in the item's unit
+        const activity = await this.logActivity(
+          userId,
+          item.id,
+          'ADD',
+          sessionItem.quantity,
+          'RECEIPT_SCAN',
+          {
+            purchaseDate,
+            bestBefore: sessionItem.bestBefore,
+            performedBy,
+            unit: sessionItem.unit,
+          }
+        );
+
+        if (activity) {
+          activities.push(activity);
+          const updatedItem = await this.getItemById(userId, item.id);
+          if (updatedItem) {
+            items.push(updatedItem);
+          }
+        }
+      }
+    });
+
+    return { items, activities };
+  }
+
+  // ==========================================================================
+  // Price History Operations
+  // ==========================================================================
+
+  async recordPrices(userId: string, inputs: RecordPriceInput[]): Promise<PriceObservation[]> {
     const pool = this.getPool();
+    const now = new Date().toISOString();
+
     const client = await pool.connect();
+    let observations: PriceObservation[] = [];
 
     try {
       await client.query('BEGIN');
 
       try {
-        const result = await fn();
+        observations = await this.insertPrices(client, userId, inputs, now);
+
         await client.query('COMMIT');
-        return result;
       } catch (err) {
         await client.query('ROLLBACK');
         throw err;
@@ -737,757 +3960,891 @@ export class PostgresAdapter implements DatabaseAdapter {
     } finally {
       client.release();
     }
-  }
 
-  // ==========================================================================
-  // Barcode / Product Cache Operations
-  // ==========================================================================
+    return observations;
+  }
 
-  async getProductByBarcode(barcode: string, maxAgeDays?: number): Promise<ProductInfo | null> {
+  async getPriceHistory(userId: string, filter: PriceHistoryFilter = {}): Promise<PriceObservation[]> {
     const pool = this.getPool();
 
-    // If maxAgeDays is specified, check cache freshness
-    if (maxAgeDays !== undefined) {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - maxAgeDays);
-      const cutoffIso = cutoffDate.toISOString();
-
-      const result = await pool.query(
-        `SELECT * FROM product_cache 
-         WHERE barcode = $1 AND info_last_synced >= $2`,
-        [barcode, cutoffIso]
-      );
+    let query = 'SELECT * FROM price_observations WHERE user_id = $1';
+    const params: unknown[] = [userId];
 
-      const row = result.rows[0] as {
-        barcode: string;
-        name: string;
-        brand?: string;
-        category: string;
-        image_url?: string;
-        ingredients?: string;
-        nutrition?: string;
-        source: string;
-        info_last_synced: string;
-      } | undefined;
+    if (filter.products) {
+      const nameKeys = [...new Set(filter.products.flatMap((product) => (product.name ? [nameKey(product.name)] : [])))];
+      const barcodes = [...new Set(filter.products.flatMap((product) => (product.barcode ? [product.barcode] : [])))];
+      if (nameKeys.length === 0 && barcodes.length === 0) return [];
 
-      if (row) {
-        return {
-          barcode: row.barcode,
-          name: row.name,
-          brand: row.brand,
-          category: row.category,
-          imageUrl: row.image_url,
-          ingredients: row.ingredients,
-          nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
-          source: row.source,
-          infoLastSynced: row.info_last_synced,
-        };
+      const conditions: string[] = [];
+      if (nameKeys.length > 0) {
+        params.push(nameKeys);
+        conditions.push(`name_key = ANY($${params.length})`);
       }
-      return null;
+      if (barcodes.length > 0) {
+        params.push(barcodes);
+        conditions.push(`barcode = ANY($${params.length})`);
+      }
+      query += ` AND (${conditions.join(' OR ')})`;
     }
 
-    // No age limit - return any cached product
-    const result = await pool.query(
-      'SELECT * FROM product_cache WHERE barcode = $1',
-      [barcode]
-    );
+    if (filter.since) {
+      params.push(filter.since);
+      query += ` AND observed_at >= $${params.length}`;
+    }
 
-    const row = result.rows[0] as {
-      barcode: string;
-      name: string;
-      brand?: string;
-      category: string;
-      image_url?: string;
-      ingredients?: string;
-      nutrition?: string;
-      source: string;
-      info_last_synced: string;
-    } | undefined;
+    query += ' ORDER BY observed_at ASC, created_at ASC';
 
-    if (!row) return null;
+    const result = await pool.query(query, params);
+    return (result.rows as PriceObservationRow[]).map(mapPriceObservationRow);
+  }
 
-    return {
-      barcode: row.barcode,
-      name: row.name,
-      brand: row.brand,
-      category: row.category,
-      imageUrl: row.image_url,
-      ingredients: row.ingredients,
-      nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
-      source: row.source,
-      infoLastSynced: row.info_last_synced,
-    };
+  /**
+   * Insert price observations (runs inside the caller's transaction)
+   */
+  private async insertPrices(
+    client: PoolClient,
+    userId: string,
+    inputs: RecordPriceInput[],
+    now: string
+  ): Promise<PriceObservation[]> {
+    const observations: PriceObservation[] = [];
+
+    for (const input of inputs) {
+      if (!(input.price > 0)) continue;
+
+      const { unitPrice, priceUnit } = normalizeUnitPrice(input.price, input.unit);
+      const observation: PriceObservation = {
+        id: uuidv4(),
+        userId,
+        productKey: productKey(input.barcode, input.name),
+        nameKey: nameKey(input.name),
+        barcode: input.barcode,
+        name: input.name,
+        storeName: input.storeName?.trim() || undefined,
+        price: input.price,
+        quantity: input.quantity,
+        unit: input.unit,
+        unitPrice,
+        priceUnit,
+        source: input.source,
+        sessionId: input.sessionId,
+        observedAt: input.observedAt || now,
+        createdAt: now,
+      };
+
+      await client.query(
+        `INSERT INTO price_observations (
+          id, user_id, product_key, name_key, barcode, name, store_name, price, quantity, unit,
+          unit_price, price_unit, source, session_id, observed_at, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+        [
+          observation.id,
+          userId,
+          observation.productKey,
+          observation.nameKey,
+          observation.barcode || null,
+          observation.name,
+          observation.storeName || null,
+          observation.price,
+          observation.quantity,
+          observation.unit || null,
+          observation.unitPrice,
+          observation.priceUnit,
+          observation.source,
+          observation.sessionId || null,
+          observation.observedAt,
+          now,
+        ]
+      );
+      observations.push(observation);
+    }
+
+    return observations;
   }
 
-  async saveProduct(input: ProductCacheInput): Promise<void> {
+  // ==========================================================================
+  // Budget Operations
+  // ==========================================================================
+
+  async getBudgets(userId: string): Promise<Budget[]> {
     const pool = this.getPool();
-    const now = new Date().toISOString();
 
-    await pool.query(
-      `INSERT INTO product_cache (
-        barcode, name, brand, category, image_url, ingredients, 
-        nutrition, source, info_last_synced, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      ON CONFLICT(barcode) DO UPDATE SET
-        name = EXCLUDED.name,
-        brand = EXCLUDED.brand,
-        category = EXCLUDED.category,
-        image_url = EXCLUDED.image_url,
-        ingredients = EXCLUDED.ingredients,
-        nutrition = EXCLUDED.nutrition,
-        source = EXCLUDED.source,
-        info_last_synced = EXCLUDED.info_last_synced,
-        updated_at = EXCLUDED.updated_at`,
-      [
-        input.barcode,
-        input.name,
-        input.brand || null,
-        input.category,
-        input.imageUrl || null,
-        input.ingredients || null,
-        input.nutrition ? JSON.stringify(input.nutrition) : null,
-        input.source,
-        now,
-        now,
-      ]
+    const result = await pool.query(
+      `SELECT * FROM budgets
+       WHERE user_id = $1
+       ORDER BY category IS NOT NULL, LOWER(category), period`,
+      [userId]
     );
+
+    return (result.rows as BudgetRow[]).map(mapBudgetRow);
   }
 
-  // ==========================================================================
-  // Client Error Operations
-  // ==========================================================================
+  async getBudgetById(userId: string, id: string): Promise<Budget | null> {
+    const pool = this.getPool();
 
-  async saveClientError(error: {
-    userId?: string;
-    errorType: string;
-    errorMessage: string;
-    errorStack?: string;
-    component?: string;
-    url?: string;
-    userAgent?: string;
-  }): Promise<{ id: string }> {
+    const result = await pool.query('SELECT * FROM budgets WHERE user_id = $1 AND id = $2', [userId, id]);
+
+    return result.rows.length > 0 ? mapBudgetRow(result.rows[0] as BudgetRow) : null;
+  }
+
+  async createBudget(userId: string, input: CreateBudgetInput): Promise<Budget | null> {
     const pool = this.getPool();
     const id = uuidv4();
+    const now = new Date().toISOString();
 
-    await pool.query(
-      `INSERT INTO client_errors (id, user_id, error_type, error_message, error_stack, component, url, user_agent)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [
-        id,
-        error.userId || null,
-        error.errorType,
-        error.errorMessage,
-        error.errorStack || null,
-        error.component || null,
-        error.url || null,
-        error.userAgent || null,
-      ]
+    const result = await pool.query(
+      `INSERT INTO budgets (id, user_id, period, category, amount, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT DO NOTHING`,
+      [id, userId, input.period, input.category || null, input.amount, now, now]
     );
 
-    return { id };
+    if ((result.rowCount || 0) === 0) {
+      return null;
+    }
+
+    return this.getBudgetById(userId, id);
   }
 
-  async getClientErrors(filters: {
-    resolved?: boolean;
-    limit?: number;
-  }): Promise<Array<{
-    id: string;
-    user_id: string | null;
-    error_type: string;
-    error_message: string;
-    error_stack: string | null;
-    component: string | null;
-    url: string | null;
-    user_agent: string | null;
-    resolved: boolean;
-    created_at: string;
-  }>> {
+  async updateBudget(userId: string, id: string, amount: number): Promise<Budget | null> {
     const pool = this.getPool();
-    const limit = filters.limit || 50;
+    const now = new Date().toISOString();
 
-    let query = 'SELECT * FROM client_errors WHERE 1=1';
-    const params: (string | number | boolean)[] = [];
-    let paramIndex = 1;
+    const result = await pool.query(
+      'UPDATE budgets SET amount = $1, updated_at = $2 WHERE user_id = $3 AND id = $4',
+      [amount, now, userId, id]
+    );
 
-    if (filters.resolved !== undefined) {
-      query += ` AND resolved = $${paramIndex++}`;
-      params.push(filters.resolved ? 1 : 0);
+    if ((result.rowCount || 0) === 0) {
+      return null;
     }
 
-    query += ` ORDER BY created_at DESC LIMIT $${paramIndex++}`;
-    params.push(limit);
-
-    const result = await pool.query(query, params);
-    return result.rows as Array<{
-      id: string;
-      user_id: string | null;
-      error_type: string;
-      error_message: string;
-      error_stack: string | null;
-      component: string | null;
-      url: string | null;
-      user_agent: string | null;
-      resolved: boolean;
-      created_at: string;
-    }>;
+    return this.getBudgetById(userId, id);
   }
 
-  async markErrorResolved(id: string): Promise<void> {
+  async deleteBudget(userId: string, id: string): Promise<boolean> {
     const pool = this.getPool();
-    await pool.query('UPDATE client_errors SET resolved = 1 WHERE id = $1', [id]);
+
+    const result = await pool.query('DELETE FROM budgets WHERE user_id = $1 AND id = $2', [userId, id]);
+
+    return (result.rowCount || 0) > 0;
   }
 
   // ==========================================================================
-  // Shopping Session Operations
+  // Session Receipt Operations
   // ==========================================================================
 
-  async createSession(userId: string, input: CreateSessionInput): Promise<ShoppingSession> {
+  async captureSessionReceipt(
+    userId: string,
+    sessionId: string,
+    image: StoredReceiptImage,
+    notes?: string
+  ): Promise<SessionReceipt> {
     const pool = this.getPool();
+
+    // Verify session belongs to user
+    const sessionResult = await pool.query(
+      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      throw new Error('Session not found');
+    }
+
     const id = uuidv4();
     const now = new Date().toISOString();
 
+    // Insert receipt
     await pool.query(
-      `INSERT INTO shopping_sessions (
-        id, user_id, store_name, started_at, status, total_amount, item_count, notes, created_at, updated_at
+      `INSERT INTO session_receipts (
+        id, session_id, image_key, thumbnail_key, content_hash, size_bytes, mime_type, notes, captured_at, created_at
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-      [id, userId, input.storeName || null, now, 'active', 0, 0, input.notes || null, now, now]
+      [
+        id,
+        sessionId,
+        image.imageKey,
+        image.thumbnailKey || null,
+        image.contentHash,
+        image.sizeBytes,
+        image.mimeType,
+        notes || null,
+        now,
+        now,
+      ]
+    );
+
+    // Update session with receipt reference
+    await pool.query(
+      'UPDATE shopping_sessions SET receipt_url = $1, updated_at = $2 WHERE id = $3',
+      [id, now, sessionId]
+    );
+
+    return {
+      id,
+      sessionId,
+      ...image,
+      notes,
+      capturedAt: now,
+      createdAt: now,
+    };
+  }
+
+  async getSessionReceipts(
+    userId: string,
+    sessionId: string
+  ): Promise<SessionReceipt[]> {
+    const pool = this.getPool();
+
+    // Verify session belongs to user
+    const sessionResult = await pool.query(
+      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return [];
+    }
+
+    const result = await pool.query(
+      'SELECT * FROM session_receipts WHERE session_id = $1 ORDER BY captured_at DESC',
+      [sessionId]
     );
 
-    return {
-      id,
-      userId,
-      storeName: input.storeName,
-      startedAt: now,
-      status: 'active',
-      totalAmount: 0,
-      itemCount: 0,
-      notes: input.notes,
-      createdAt: now,
-      updatedAt: now,
-    };
+    return (result.rows as SessionReceiptRow[]).map(mapSessionReceiptRow);
   }
 
-  async getSessionById(userId: string, sessionId: string): Promise<ShoppingSessionWithItems | null> {
+  async getSessionReceiptById(
+    userId: string,
+    sessionId: string,
+    receiptId: string
+  ): Promise<SessionReceipt | null> {
     const pool = this.getPool();
 
-    // Get session
+    // Verify session belongs to user
     const sessionResult = await pool.query(
-      'SELECT * FROM shopping_sessions WHERE user_id = $1 AND id = $2',
-      [userId, sessionId]
+      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
     );
 
     if (sessionResult.rows.length === 0) {
       return null;
     }
 
-    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
-
-    // Get items
-    const itemsResult = await pool.query(
-      'SELECT * FROM session_items WHERE session_id = $1 ORDER BY added_at DESC',
-      [sessionId]
+    const result = await pool.query(
+      'SELECT * FROM session_receipts WHERE id = $1 AND session_id = $2',
+      [receiptId, sessionId]
     );
 
-    return {
-      ...mapShoppingSessionRow(sessionRow),
-      items: itemsResult.rows.map(mapSessionItemRow),
-    };
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return mapSessionReceiptRow(result.rows[0] as SessionReceiptRow);
   }
 
-  async getUserSessions(
+  async saveSessionReceiptHeader(
     userId: string,
-    limit: number = 20,
-    offset: number = 0,
-    status?: string
-  ): Promise<ShoppingSession[]> {
+    sessionId: string,
+    receiptId: string,
+    header: ReceiptHeader
+  ): Promise<SessionReceipt | null> {
     const pool = this.getPool();
+    const now = new Date().toISOString();
 
-    let query = 'SELECT * FROM shopping_sessions WHERE user_id = $1';
-    const params: (string | number)[] = [userId];
-    let paramIndex = 2;
+    const sessionResult = await pool.query(
+      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
+    );
 
-    if (status) {
-      query += ` AND status = $${paramIndex++}`;
-      params.push(status);
+    if (sessionResult.rows.length === 0) {
+      return null;
     }
 
-    query += ` ORDER BY started_at DESC LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
-    params.push(limit, offset);
+    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
+    const purchasedAt = sessionRow.status === 'completed' ? purchaseTimestamp(header) : undefined;
+    const client = await pool.connect();
 
-    const result = await pool.query(query, params);
-    return result.rows.map(mapShoppingSessionRow);
-  }
+    try {
+      await client.query('BEGIN');
 
-  async getSessionCount(userId: string, status?: string): Promise<number> {
-    const pool = this.getPool();
+      try {
+        const result = await client.query(
+          'UPDATE session_receipts SET header = $1 WHERE id = $2 AND session_id = $3',
+          [JSON.stringify(header), receiptId, sessionId]
+        );
 
-    let query = 'SELECT COUNT(*) as count FROM shopping_sessions WHERE user_id = $1';
-    const params: (string)[] = [userId];
-    let paramIndex = 2;
+        if ((result.rowCount || 0) === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
 
-    if (status) {
-      query += ` AND status = $${paramIndex++}`;
-      params.push(status);
+        // The session was paid for when the receipt says, not when it was marked complete
+        if (purchasedAt) {
+          await client.query(
+            'UPDATE shopping_sessions SET completed_at = $1, updated_at = $2 WHERE id = $3',
+            [purchasedAt, now, sessionId]
+          );
+          await client.query(
+            'UPDATE price_observations SET observed_at = $1 WHERE user_id = $2 AND session_id = $3',
+            [purchasedAt, userId, sessionId]
+          );
+        }
+
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      client.release();
     }
 
-    const result = await pool.query(query, params);
-    return parseInt(result.rows[0]?.count || '0', 10);
+    return this.getSessionReceiptById(userId, sessionId, receiptId);
   }
 
-  async addSessionItem(
+  async deleteSessionReceipt(
     userId: string,
     sessionId: string,
-    input: AddSessionItemInput
-  ): Promise<SessionItem> {
+    receiptId: string
+  ): Promise<boolean> {
     const pool = this.getPool();
 
-    // Verify session belongs to user and is active
+    // Verify session belongs to user
     const sessionResult = await pool.query(
-      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
-      [sessionId, userId, 'active']
+      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
+      [sessionId, userId]
     );
 
     if (sessionResult.rows.length === 0) {
-      throw new Error('Session not found or not active');
+      return false;
     }
 
-    const id = uuidv4();
-    const now = new Date().toISOString();
+    const result = await pool.query(
+      'DELETE FROM session_receipts WHERE id = $1 AND session_id = $2',
+      [receiptId, sessionId]
+    );
 
-    // Insert item
-    await pool.query(
-      `INSERT INTO session_items (
-        id, session_id, barcode, name, quantity, unit, price, category, added_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-      [id, sessionId, input.barcode || null, input.name, input.quantity, input.unit || null, input.price || null, input.category || null, now, now]
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async listUnmovedSessionReceipts(limit: number): Promise<UnmovedSessionReceipt[]> {
+    const result = await this.getPool().query(
+      `SELECT id, session_id, image_data, mime_type FROM session_receipts
+       WHERE image_key IS NULL AND image_data IS NOT NULL
+       ORDER BY created_at ASC, id
+       LIMIT $1`,
+      [limit]
     );
 
-    // Update session totals
-    const itemTotal = (input.price || 0) * input.quantity;
-    await pool.query(
-      `UPDATE shopping_sessions 
-       SET total_amount = total_amount + $1, 
-           item_count = item_count + 1,
-           updated_at = $2
-       WHERE id = $3`,
-      [itemTotal, now, sessionId]
+    return result.rows.map((row) => ({
+      id: row.id,
+      sessionId: row.session_id,
+      imageData: row.image_data,
+      mimeType: row.mime_type,
+    }));
+  }
+
+  async getUnmovedSessionReceipt(receiptId: string): Promise<UnmovedSessionReceipt | null> {
+    const result = await this.getPool().query(
+      `SELECT id, session_id, image_data, mime_type FROM session_receipts
+       WHERE id = $1 AND image_key IS NULL AND image_data IS NOT NULL`,
+      [receiptId]
     );
 
-    return {
-      id,
-      sessionId,
-      barcode: input.barcode,
-      name: input.name,
-      quantity: input.quantity,
-      unit: input.unit,
-      price: input.price,
-      category: input.category,
-      addedAt: now,
-      updatedAt: now,
-    };
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { id: row.id, sessionId: row.session_id, imageData: row.image_data, mimeType: row.mime_type };
   }
 
-  async removeSessionItem(_userId: string, sessionId: string, itemId: string): Promise<boolean> {
+  async moveSessionReceiptImage(receiptId: string, image: StoredReceiptImage): Promise<boolean> {
+    const result = await this.getPool().query(
+      `UPDATE session_receipts
+       SET image_key = $1, thumbnail_key = $2, content_hash = $3, size_bytes = $4, image_data = NULL
+       WHERE id = $5 AND image_key IS NULL`,
+      [image.imageKey, image.thumbnailKey || null, image.contentHash, image.sizeBytes, receiptId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ==========================================================================
+  // Receipt Job Operations
+  // ==========================================================================
+
+  async createReceiptJob(
+    userId: string,
+    imageData: string,
+    maxAttempts: number,
+    sessionReceipt?: SessionReceiptTarget
+  ): Promise<ReceiptJob> {
     const pool = this.getPool();
+    const id = uuidv4();
+    const now = new Date().toISOString();
 
-    // Get item details before deletion (for total adjustment)
-    const itemResult = await pool.query(
-      'SELECT quantity, price FROM session_items WHERE id = $1 AND session_id = $2',
-      [itemId, sessionId]
+    const result = await pool.query(
+      `INSERT INTO receipt_jobs (id, user_id, status, image_data, owner_id, session_id, receipt_id, attempts, max_attempts, run_at, created_at, updated_at)
+       VALUES ($1, $2, 'PENDING', $3, $4, $5, $6, 0, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        id,
+        userId,
+        imageData,
+        sessionReceipt?.ownerId ?? null,
+        sessionReceipt?.sessionId ?? null,
+        sessionReceipt?.receiptId ?? null,
+        maxAttempts,
+        now,
+        now,
+        now,
+      ]
     );
 
-    if (itemResult.rows.length === 0) {
-      return false;
+    return mapReceiptJobRow(result.rows[0] as ReceiptJobRow);
+  }
+
+  async getReceiptJob(id: string, userId?: string): Promise<ReceiptJob | null> {
+    const pool = this.getPool();
+    const params: unknown[] = [id];
+    let sql = 'SELECT * FROM receipt_jobs WHERE id = $1';
+
+    if (userId) {
+      params.push(userId);
+      sql += ` AND user_id = $${params.length}`;
     }
 
-    const itemRow = itemResult.rows[0] as { quantity: number; price: number | null };
+    const result = await pool.query(sql, params);
+    return result.rows.length > 0 ? mapReceiptJobRow(result.rows[0] as ReceiptJobRow) : null;
+  }
 
-    // Delete item
-    const deleteResult = await pool.query(
-      'DELETE FROM session_items WHERE id = $1 AND session_id = $2',
-      [itemId, sessionId]
+  async claimReceiptJobs(limit: number, leaseMs: number): Promise<ClaimedReceiptJob[]> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    // SKIP LOCKED lets several workers claim from the queue at once
+    const result = await pool.query(
+      `UPDATE receipt_jobs
+       SET status = 'PROCESSING', attempts = attempts + 1, locked_until = $1, started_at = $2, updated_at = $2
+       WHERE id IN (
+         SELECT id FROM receipt_jobs
+         WHERE (status = 'PENDING' AND run_at <= $2)
+            OR (status = 'PROCESSING' AND locked_until < $2)
+         ORDER BY run_at ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [lockedUntil, now, limit]
     );
 
-    if (deleteResult.rowCount === 0) {
-      return false;
-    }
+    return (result.rows as ReceiptJobRow[])
+      .sort((a, b) => a.run_at.localeCompare(b.run_at))
+      .map((row) => ({ ...mapReceiptJobRow(row), imageData: row.image_data! }));
+  }
 
-    // Update session totals
-    const itemTotal = (itemRow.price || 0) * itemRow.quantity;
+  async completeReceiptJob(id: string, result: ReceiptScanResult): Promise<ReceiptJob | null> {
+    const pool = this.getPool();
     const now = new Date().toISOString();
-    await pool.query(
-      `UPDATE shopping_sessions 
-       SET total_amount = GREATEST(0, total_amount - $1), 
-           item_count = GREATEST(0, item_count - 1),
-           updated_at = $2
-       WHERE id = $3`,
-      [itemTotal, now, sessionId]
+
+    const update = await pool.query(
+      `UPDATE receipt_jobs
+       SET status = 'SUCCEEDED', result = $1, error = NULL, image_data = NULL, locked_until = NULL,
+           completed_at = $2, updated_at = $2
+       WHERE id = $3 AND status = 'PROCESSING'
+       RETURNING *`,
+      [JSON.stringify(result), now, id]
     );
 
-    return true;
+    return update.rows.length > 0 ? mapReceiptJobRow(update.rows[0] as ReceiptJobRow) : null;
   }
 
-  async completeSession(
-    userId: string,
-    sessionId: string,
-    input: CompleteSessionInput
-  ): Promise<ShoppingSession | null> {
+  async failReceiptJob(id: string, error: string, retryAt?: string): Promise<ReceiptJob | null> {
     const pool = this.getPool();
     const now = new Date().toISOString();
 
-    // Verify session belongs to user and is active
-    const sessionResult = await pool.query(
-      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
-      [sessionId, userId, 'active']
-    );
+    const update = retryAt
+      ? await pool.query(
+          `UPDATE receipt_jobs
+           SET status = 'PENDING', error = $1, run_at = $2, locked_until = NULL, updated_at = $3
+           WHERE id = $4 AND status = 'PROCESSING'
+           RETURNING *`,
+          [error, retryAt, now, id]
+        )
+      : await pool.query(
+          `UPDATE receipt_jobs
+           SET status = 'FAILED', error = $1, locked_until = NULL, completed_at = $2, updated_at = $2
+           WHERE id = $3 AND status = 'PROCESSING'
+           RETURNING *`,
+          [error, now, id]
+        );
 
-    if (sessionResult.rows.length === 0) {
-      return null;
-    }
+    return update.rows.length > 0 ? mapReceiptJobRow(update.rows[0] as ReceiptJobRow) : null;
+  }
 
-    const sessionRow = sessionResult.rows[0] as ShoppingSessionRow;
+  async listReceiptJobs(status: ReceiptJobStatus | undefined, limit: number, offset: number): Promise<ReceiptJob[]> {
+    const pool = this.getPool();
+    const params: unknown[] = [];
+    let sql = 'SELECT * FROM receipt_jobs';
 
-    // Calculate final totals
-    const totalsResult = await pool.query(
-      'SELECT SUM(price * quantity) as total FROM session_items WHERE session_id = $1',
-      [sessionId]
-    );
-    const finalTotal = totalsResult.rows[0]?.total || sessionRow.total_amount;
+    if (status) {
+      params.push(status);
+      sql += ' WHERE status = $1';
+    }
 
-    // Update session
-    await pool.query(
-      `UPDATE shopping_sessions 
-       SET status = 'completed',
-           completed_at = $1,
-           total_amount = $2,
-           receipt_url = COALESCE($3, receipt_url),
-           notes = COALESCE($4, notes),
-           updated_at = $5
-       WHERE id = $6 AND user_id = $7`,
-      [now, finalTotal, input.receiptUrl || null, input.notes || null, now, sessionId, userId]
-    );
+    params.push(limit, offset);
+    sql += ` ORDER BY created_at DESC, id LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+    const result = await pool.query(sql, params);
+    return (result.rows as ReceiptJobRow[]).map(mapReceiptJobRow);
+  }
 
-    // Log shopping session activity
-    const activityId = uuidv4();
-    const metadata = JSON.stringify({
-      sessionId: sessionId,
-      itemCount: sessionRow.item_count,
-      storeName: sessionRow.store_name
-    });
-    await pool.query(
-      `INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, metadata)
-       VALUES ($1, $2, $3, $4, 'SHOPPING_SESSION', $5, $6, 'SHOPPING_SESSION', $7)`,
-      [activityId, userId, sessionId, `Shopping Session (${sessionRow.store_name || 'Unknown Store'})`, finalTotal, now, metadata]
+  async retryReceiptJob(id: string): Promise<ReceiptJob | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+
+    const update = await pool.query(
+      `UPDATE receipt_jobs
+       SET status = 'PENDING', attempts = 0, run_at = $1, completed_at = NULL, updated_at = $1
+       WHERE id = $2 AND status = 'FAILED'
+       RETURNING *`,
+      [now, id]
     );
 
-    return this.getSessionById(userId, sessionId);
+    return update.rows.length > 0 ? mapReceiptJobRow(update.rows[0] as ReceiptJobRow) : null;
   }
 
-  async updateSessionReceipt(
-    userId: string,
-    sessionId: string,
-    receiptUrl: string
-  ): Promise<ShoppingSession | null> {
+  // ==========================================================================
+  // Stripe Webhook Event Operations
+  // ==========================================================================
+
+  async beginStripeWebhookEvent(
+    event: NewStripeWebhookEvent,
+    leaseMs: number
+  ): Promise<ClaimedStripeWebhookEvent | null> {
     const pool = this.getPool();
     const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    const inserted = await pool.query(
+      `INSERT INTO stripe_webhook_events (
+         id, stripe_event_id, event_type, object_id, status, processed, payload, attempts,
+         stripe_created_at, locked_until, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, 'PROCESSING', FALSE, $5, 1, $6, $7, $8, $8)
+       ON CONFLICT (stripe_event_id) DO NOTHING
+       RETURNING *`,
+      [uuidv4(), event.stripeEventId, event.eventType, event.objectId || null, event.payload,
+        event.stripeCreatedAt, lockedUntil, now]
+    );
 
-    // Verify session belongs to user and is completed
-    const sessionResult = await pool.query(
-      'SELECT * FROM shopping_sessions WHERE id = $1 AND user_id = $2 AND status = $3',
-      [sessionId, userId, 'completed']
+    // Already recorded: only claim it again if it failed or its handler died
+    const result = inserted.rows.length > 0 ? inserted : await pool.query(
+      `UPDATE stripe_webhook_events
+       SET status = 'PROCESSING', attempts = attempts + 1, locked_until = $1, updated_at = $2
+       WHERE stripe_event_id = $3 AND (status = 'FAILED' OR (status = 'PROCESSING' AND locked_until < $2))
+       RETURNING *`,
+      [lockedUntil, now, event.stripeEventId]
     );
 
-    if (sessionResult.rows.length === 0) {
-      return null;
-    }
+    if (result.rows.length === 0) return null;
 
-    // Update session receipt_url
-    await pool.query(
-      `UPDATE shopping_sessions 
-       SET receipt_url = $1,
-           updated_at = $2
-       WHERE id = $3 AND user_id = $4`,
-      [receiptUrl, now, sessionId, userId]
+    const row = result.rows[0] as StripeWebhookEventRow;
+    return { ...mapStripeWebhookEventRow(row), payload: row.payload };
+  }
+
+  async claimFailedStripeWebhookEvent(id: string, leaseMs: number): Promise<ClaimedStripeWebhookEvent | null> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    const result = await pool.query(
+      `UPDATE stripe_webhook_events
+       SET status = 'PROCESSING', attempts = attempts + 1, locked_until = $1, updated_at = $2
+       WHERE id = $3 AND status = 'FAILED'
+       RETURNING *`,
+      [lockedUntil, now, id]
     );
 
-    return this.getSessionById(userId, sessionId);
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0] as StripeWebhookEventRow;
+    return { ...mapStripeWebhookEventRow(row), payload: row.payload };
   }
 
-  async cancelSession(userId: string, sessionId: string): Promise<boolean> {
+  async completeStripeWebhookEvent(
+    id: string,
+    status: 'PROCESSED' | 'SKIPPED',
+    userId?: string
+  ): Promise<StripeWebhookEvent | null> {
     const pool = this.getPool();
     const now = new Date().toISOString();
 
-    const result = await pool.query(
-      `UPDATE shopping_sessions 
-       SET status = 'cancelled',
-           completed_at = $1,
-           updated_at = $2
-       WHERE id = $3 AND user_id = $4 AND status = 'active'`,
-      [now, now, sessionId, userId]
+    const update = await pool.query(
+      `UPDATE stripe_webhook_events
+       SET status = $1, processed = TRUE, user_id = COALESCE($2, user_id), error = NULL, locked_until = NULL,
+           processed_at = $3, updated_at = $3
+       WHERE id = $4 AND status = 'PROCESSING'
+       RETURNING *`,
+      [status, userId || null, now, id]
     );
 
-    return (result.rowCount ?? 0) > 0;
+    return update.rows.length > 0 ? mapStripeWebhookEventRow(update.rows[0] as StripeWebhookEventRow) : null;
   }
 
-  async getSessionSummary(userId: string): Promise<SessionSummary> {
+  async failStripeWebhookEvent(id: string, error: string): Promise<StripeWebhookEvent | null> {
     const pool = this.getPool();
+    const now = new Date().toISOString();
 
-    const result = await pool.query(
-      `SELECT 
-        COUNT(*) as total_sessions,
-        COALESCE(SUM(total_amount), 0) as total_spent,
-        COALESCE(AVG(total_amount), 0) as avg_session_value
-      FROM shopping_sessions 
-      WHERE user_id = $1 AND status = 'completed'`,
-      [userId]
+    const update = await pool.query(
+      `UPDATE stripe_webhook_events
+       SET status = 'FAILED', error = $1, locked_until = NULL, updated_at = $2
+       WHERE id = $3 AND status = 'PROCESSING'
+       RETURNING *`,
+      [error, now, id]
     );
 
-    const row = result.rows[0] as {
-      total_sessions: string;
-      total_spent: string;
-      avg_session_value: string;
-    } | undefined;
+    return update.rows.length > 0 ? mapStripeWebhookEventRow(update.rows[0] as StripeWebhookEventRow) : null;
+  }
 
-    return {
-      totalSessions: parseInt(row?.total_sessions || '0', 10),
-      totalSpent: parseFloat(row?.total_spent || '0'),
-      averageSessionValue: parseFloat(row?.avg_session_value || '0'),
-    };
+  async getStripeWebhookEvent(id: string): Promise<StripeWebhookEvent | null> {
+    const pool = this.getPool();
+    const result = await pool.query('SELECT * FROM stripe_webhook_events WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? mapStripeWebhookEventRow(result.rows[0] as StripeWebhookEventRow) : null;
   }
 
-  async addSessionToInventory(
-    userId: string,
-    sessionId: string
-  ): Promise<{ items: PantryItem[]; activities: Activity[] }> {
+  async listStripeWebhookEvents(
+    status: StripeWebhookEventStatus | undefined,
+    limit: number,
+    offset: number
+  ): Promise<StripeWebhookEvent[]> {
     const pool = this.getPool();
+    const params: unknown[] = [];
+    let sql = 'SELECT * FROM stripe_webhook_events';
 
-    // Get the session with items
-    const session = await this.getSessionById(userId, sessionId);
-    if (!session) {
-      throw new Error('Session not found');
+    if (status) {
+      params.push(status);
+      sql += ' WHERE status = $1';
     }
 
-    if (session.status !== 'completed') {
-      throw new Error('Session must be completed before adding to inventory');
-    }
+    params.push(limit, offset);
+    sql += ` ORDER BY created_at DESC, id LIMIT $${params.length - 1} OFFSET $${params.length}`;
 
-    const items: PantryItem[] = [];
-    const activities: Activity[] = [];
+    const result = await pool.query(sql, params);
+    return (result.rows as StripeWebhookEventRow[]).map(mapStripeWebhookEventRow);
+  }
 
-    // Process each session item with a barcode
-    for (const sessionItem of session.items) {
-      if (!sessionItem.barcode) {
-        continue;
-      }
+  async hasNewerStripeWebhookEvent(objectId: string, eventTypes: string[], stripeCreatedAt: string): Promise<boolean> {
+    const pool = this.getPool();
 
-      // Check if item already exists by barcode
-      const existingResult = await pool.query(
-        'SELECT * FROM pantry_items WHERE user_id = $1 AND barcode = $2',
-        [userId, sessionItem.barcode]
-      );
+    const result = await pool.query(
+      `SELECT 1 FROM stripe_webhook_events
+       WHERE object_id = $1 AND status = 'PROCESSED' AND stripe_created_at > $2 AND event_type = ANY($3)
+       LIMIT 1`,
+      [objectId, stripeCreatedAt, eventTypes]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  // ==========================================================================
+  // Rate Limit Operations
+  // ==========================================================================
 
-      if (existingResult.rows.length > 0) {
-        // Update existing item quantity
-        const existingRow = existingResult.rows[0] as PantryItemRow;
-        const newQuantity = existingRow.quantity + sessionItem.quantity;
-        const now = new Date().toISOString();
+  async takeRateLimitTokens(key: string, bucket: TokenBucket, cost: number): Promise<RateLimitResult> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
 
-        await pool.query(
-          'UPDATE pantry_items SET quantity = $1, last_updated = $2 WHERE user_id = $3 AND id = $4',
-          [newQuantity, now, userId, existingRow.id]
+      try {
+        // Lock the bucket so concurrent requests from other instances wait their turn
+        const existing = await client.query(
+          'SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = $1 FOR UPDATE',
+          [key]
         );
+        const row = existing.rows[0] as { tokens: number; updated_at: string } | undefined;
 
-        const updatedItem = await this.getItemById(userId, existingRow.id);
-        if (updatedItem) {
-          items.push(updatedItem);
-          // Log ADD activity
-          const activity = await this.logActivity(
-            userId,
-            updatedItem.id,
-            'ADD',
-            sessionItem.quantity,
-            'RECEIPT_SCAN'
-          );
-          if (activity) {
-            activities.push(activity);
-          }
-        }
-      } else {
-        // Create new pantry item
-        const id = uuidv4();
-        const now = new Date().toISOString();
-
-        await pool.query(
-          `INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-          [id, userId, sessionItem.name, sessionItem.barcode, sessionItem.quantity,
-           sessionItem.unit || 'pieces', sessionItem.category || 'general', now]
+        const { state, result } = takeTokens(
+          row ? { tokens: Number(row.tokens), updatedAt: Number(row.updated_at) } : null,
+          bucket,
+          cost,
+          Date.now()
         );
 
-        const newItem = await this.getItemById(userId, id);
-        if (newItem) {
-          items.push(newItem);
-          // Log ADD activity
-          const activity = await this.logActivity(
-            userId,
-            newItem.id,
-            'ADD',
-            sessionItem.quantity,
-            'RECEIPT_SCAN'
-          );
-          if (activity) {
-            activities.push(activity);
-          }
-        }
+        await client.query(
+          `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES ($1, $2, $3)
+           ON CONFLICT (key) DO UPDATE SET tokens = EXCLUDED.tokens, updated_at = EXCLUDED.updated_at`,
+          [key, state.tokens, state.updatedAt]
+        );
+
+        await client.query('COMMIT');
+        return result;
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
       }
+    } finally {
+      client.release();
     }
+  }
 
-    return { items, activities };
+  async deleteIdleRateLimitBuckets(before: number): Promise<number> {
+    const pool = this.getPool();
+    const result = await pool.query('DELETE FROM rate_limit_buckets WHERE updated_at < $1', [before]);
+    return result.rowCount || 0;
   }
 
   // ==========================================================================
-  // Session Receipt Operations
+  // Product Sync Queue Operations
   // ==========================================================================
 
-  async captureSessionReceipt(
-    userId: string,
-    sessionId: string,
-    imageData: string,
-    mimeType: string,
-    notes?: string
-  ): Promise<SessionReceipt> {
+  async enqueueProductSync(barcode: string, error: string, syncAfter: string): Promise<void> {
     const pool = this.getPool();
+    const now = new Date().toISOString();
 
-    // Verify session belongs to user
-    const sessionResult = await pool.query(
-      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
-      [sessionId, userId]
+    await pool.query(
+      `INSERT INTO product_cache (
+        barcode, name, category, source, info_last_synced, updated_at,
+        needs_sync, sync_retry_count, last_error, sync_after
+      ) VALUES ($1, '', 'other', $2, '', $3, 1, 0, $4, $5)
+      ON CONFLICT(barcode) DO UPDATE SET
+        needs_sync = 1,
+        sync_retry_count = 0,
+        last_error = EXCLUDED.last_error,
+        sync_after = EXCLUDED.sync_after,
+        updated_at = EXCLUDED.updated_at
+      WHERE COALESCE(product_cache.needs_sync, 0) = 0`,
+      [barcode, PENDING_PRODUCT_SOURCE, now, error, syncAfter]
     );
+  }
 
-    if (sessionResult.rows.length === 0) {
-      throw new Error('Session not found');
-    }
-
-    const id = uuidv4();
+  async claimProductSyncs(limit: number, leaseMs: number): Promise<ClaimedProductSync[]> {
+    const pool = this.getPool();
     const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
 
-    // Insert receipt
-    await pool.query(
-      `INSERT INTO session_receipts (
-        id, session_id, image_data, mime_type, notes, captured_at, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [id, sessionId, imageData, mimeType, notes || null, now, now]
+    // SKIP LOCKED lets several workers claim from the queue at once
+    const result = await pool.query(
+      `UPDATE product_cache
+       SET sync_after = $1
+       WHERE barcode IN (
+         SELECT barcode FROM product_cache
+         WHERE needs_sync = 1 AND (sync_after IS NULL OR sync_after <= $2)
+         ORDER BY sync_after ASC NULLS FIRST
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING barcode, sync_retry_count`,
+      [lockedUntil, now, limit]
     );
 
-    // Update session with receipt reference
+    return (result.rows as Pick<ProductSyncRow, 'barcode' | 'sync_retry_count'>[]).map((row) => ({
+      barcode: row.barcode,
+      attempts: Number(row.sync_retry_count ?? 0),
+    }));
+  }
+
+  async deferProductSync(barcode: string, syncAfter: string): Promise<void> {
+    const pool = this.getPool();
     await pool.query(
-      'UPDATE shopping_sessions SET receipt_url = $1, updated_at = $2 WHERE id = $3',
-      [id, now, sessionId]
+      'UPDATE product_cache SET sync_after = $1 WHERE barcode = $2 AND needs_sync = 1',
+      [syncAfter, barcode]
     );
-
-    return {
-      id,
-      sessionId,
-      imageData,
-      mimeType,
-      notes,
-      capturedAt: now,
-      createdAt: now,
-    };
   }
 
-  async getSessionReceipts(
-    userId: string,
-    sessionId: string
-  ): Promise<SessionReceipt[]> {
+  async failProductSync(barcode: string, error: string, retryAt?: string): Promise<void> {
     const pool = this.getPool();
+    const now = new Date().toISOString();
 
-    // Verify session belongs to user
-    const sessionResult = await pool.query(
-      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
-      [sessionId, userId]
+    await pool.query(
+      `UPDATE product_cache
+       SET needs_sync = $1, sync_retry_count = COALESCE(sync_retry_count, 0) + 1, last_error = $2,
+           sync_after = $3, updated_at = $4
+       WHERE barcode = $5 AND needs_sync = 1`,
+      [retryAt ? 1 : 0, error, retryAt ?? null, now, barcode]
     );
+  }
 
-    if (sessionResult.rows.length === 0) {
-      return [];
-    }
+  async listProductSyncs(status: ProductSyncStatus | undefined, limit: number, offset: number): Promise<ProductSyncEntry[]> {
+    const pool = this.getPool();
+    const condition = status
+      ? PRODUCT_SYNC_CONDITIONS[status]
+      : `(${PRODUCT_SYNC_CONDITIONS.QUEUED}) OR (${PRODUCT_SYNC_CONDITIONS.FAILED})`;
 
     const result = await pool.query(
-      'SELECT * FROM session_receipts WHERE session_id = $1 ORDER BY captured_at DESC',
-      [sessionId]
+      `SELECT barcode, name, source, needs_sync, sync_retry_count, last_error, sync_after, updated_at
+       FROM product_cache
+       WHERE ${condition}
+       ORDER BY updated_at DESC, barcode
+       LIMIT $1 OFFSET $2`,
+      [limit, offset]
     );
 
-    return result.rows.map(row => ({
-      id: row.id,
-      sessionId: row.session_id,
-      imageData: row.image_data,
-      mimeType: row.mime_type,
-      notes: row.notes ?? undefined,
-      capturedAt: row.captured_at,
-      createdAt: row.created_at,
-    }));
+    return (result.rows as ProductSyncRow[]).map(mapProductSyncRow);
   }
 
-  async getSessionReceiptById(
-    userId: string,
-    sessionId: string,
-    receiptId: string
-  ): Promise<SessionReceipt | null> {
+  async getProductSyncStats(): Promise<ProductSyncStats> {
     const pool = this.getPool();
-
-    // Verify session belongs to user
-    const sessionResult = await pool.query(
-      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
-      [sessionId, userId]
-    );
-
-    if (sessionResult.rows.length === 0) {
-      return null;
-    }
+    const now = new Date().toISOString();
 
     const result = await pool.query(
-      'SELECT * FROM session_receipts WHERE id = $1 AND session_id = $2',
-      [receiptId, sessionId]
+      `SELECT
+         COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.QUEUED}) AS queued,
+         COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.QUEUED} AND (sync_after IS NULL OR sync_after <= $1)) AS due,
+         COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.FAILED}) AS failed
+       FROM product_cache`,
+      [now]
     );
 
-    if (result.rows.length === 0) {
-      return null;
-    }
-
     const row = result.rows[0];
-    return {
-      id: row.id,
-      sessionId: row.session_id,
-      imageData: row.image_data,
-      mimeType: row.mime_type,
-      notes: row.notes ?? undefined,
-      capturedAt: row.captured_at,
-      createdAt: row.created_at,
-    };
+    return { queued: Number(row.queued), due: Number(row.due), failed: Number(row.failed) };
   }
 
-  async deleteSessionReceipt(
-    userId: string,
-    sessionId: string,
-    receiptId: string
-  ): Promise<boolean> {
-    const pool = this.getPool();
+  // ==========================================================================
+  // Product Catalog Operations
+  // ==========================================================================
 
-    // Verify session belongs to user
-    const sessionResult = await pool.query(
-      'SELECT id FROM shopping_sessions WHERE id = $1 AND user_id = $2',
-      [sessionId, userId]
-    );
+  async getCatalogProduct(barcode: string): Promise<CatalogProduct | null> {
+    const pool = this.getPool();
+    const result = await pool.query('SELECT * FROM product_catalog WHERE barcode = $1', [barcode]);
+    return result.rows[0] ? mapCatalogProductRow(result.rows[0]) : null;
+  }
 
-    if (sessionResult.rows.length === 0) {
-      return false;
-    }
+  async saveCatalogProduct(input: CatalogProductInput, contributedBy?: string): Promise<CatalogProduct> {
+    const pool = this.getPool();
+    const now = new Date().toISOString();
 
     const result = await pool.query(
-      'DELETE FROM session_receipts WHERE id = $1 AND session_id = $2',
-      [receiptId, sessionId]
+      `INSERT INTO product_catalog (barcode, name, brand, category, image_url, contributed_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT(barcode) DO UPDATE SET
+         name = CASE WHEN product_catalog.contributed_by = EXCLUDED.contributed_by
+           THEN EXCLUDED.name ELSE product_catalog.name END,
+         brand = CASE WHEN product_catalog.contributed_by = EXCLUDED.contributed_by
+           THEN EXCLUDED.brand ELSE COALESCE(product_catalog.brand, EXCLUDED.brand) END,
+         category = CASE WHEN product_catalog.contributed_by = EXCLUDED.contributed_by
+           THEN EXCLUDED.category ELSE product_catalog.category END,
+         image_url = CASE WHEN product_catalog.contributed_by = EXCLUDED.contributed_by
+           THEN EXCLUDED.image_url ELSE COALESCE(product_catalog.image_url, EXCLUDED.image_url) END,
+         updated_at = EXCLUDED.updated_at
+       RETURNING *`,
+      [
+        input.barcode,
+        input.name,
+        input.brand || null,
+        input.category,
+        input.imageUrl || null,
+        contributedBy ?? null,
+        now,
+        now,
+      ]
     );
 
-    return (result.rowCount ?? 0) > 0;
+    return mapCatalogProductRow(result.rows[0]);
   }
 }
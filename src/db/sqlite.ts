@@ -3,22 +3,51 @@
  * Uses better-sqlite3 for high-performance synchronous operations
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
 import { runMigrations } from './migrate';
 import { initializeSubscriptionSchema } from '../services/subscription';
-import { DatabaseAdapter, CreateItemInput, UpdateItemInput, CreateSessionInput, AddSessionItemInput, CompleteSessionInput } from './adapter';
+import {
+  DatabaseAdapter,
+  CreateItemInput,
+  UpdateItemInput,
+  LogActivityOptions,
+  CreateSessionInput,
+  AddSessionItemInput,
+  CompleteSessionInput,
+  AddShoppingListItemInput,
+  UpdateShoppingListItemInput,
+  CreateHouseholdInviteInput,
+  CreateRecipeInput,
+  UpdateRecipeInput,
+  CreateMealPlanEntryInput,
+  UpdateMealPlanEntryInput,
+  RecipeIngredientInput,
+  MoveItemOptions,
+  ItemSearchOptions,
+  RecordPriceInput,
+  PriceHistoryFilter,
+  CreateBudgetInput,
+} from './adapter';
 import {
   PantryItem,
   PantryItemRow,
+  ItemLot,
+  ItemLotRow,
+  ExpiringLot,
+  WasteEntry,
   Activity,
   ActivityRow,
   ActivityType,
   ActivitySource,
+  ActivityReason,
+  WASTE_REASONS,
   ScanResult,
   UsageResult,
   ProductInfo,
   ProductCacheInput,
+  ItemSearchResult,
 } from '../models/types';
 import {
   ShoppingSession,
@@ -28,7 +57,79 @@ import {
   ShoppingSessionWithItems,
   SessionSummary,
   SessionReceipt,
+  SessionReceiptRow,
+  StoredReceiptImage,
+  UnmovedSessionReceipt,
+  ReceiptHeader,
+  ReconciliationFix,
 } from '../models/shoppingSession';
+import { ShoppingListItem, ShoppingListItemRow } from '../models/shoppingList';
+import { isLowStock, restockQuantity } from '../services/shoppingList';
+import {
+  Household,
+  HouseholdRow,
+  HouseholdMember,
+  HouseholdMemberRow,
+  HouseholdMembership,
+  HouseholdRole,
+  HouseholdInvite,
+  HouseholdInviteRow,
+} from '../models/household';
+import { generateInviteCode, generateInviteToken, INVENTORY_TABLES } from '../services/household';
+import { convertToItemUnit, isIncompatibleUnitsError, normalizeUnit } from '../services/units';
+import { Recipe, RecipeRow, RecipeIngredient, RecipeIngredientRow } from '../models/recipe';
+import {
+  MealPlanEntry,
+  MealPlanEntryRow,
+  MealPlanIngredient,
+  MealPlanIngredientRow,
+} from '../models/mealPlan';
+import { StorageLocation, StorageLocationRow, MoveItemResult } from '../models/storageLocation';
+import {
+  UserRole,
+  RoleAssignment,
+  RoleAssignmentRow,
+  RoleAuditAction,
+  RoleAuditEntry,
+  RoleAuditEntryRow,
+} from '../models/role';
+import {
+  buildFtsQuery,
+  rankCandidates,
+  SearchCandidate,
+  DEFAULT_SEARCH_LIMIT,
+  SEARCH_CANDIDATE_LIMIT,
+  MIN_MATCH_SCORE,
+} from '../services/search';
+import { PriceObservation, PriceObservationRow } from '../models/price';
+import { nameKey, productKey, normalizeUnitPrice } from '../services/prices';
+import { purchaseTimestamp } from '../services/receiptParser';
+import { Budget, BudgetRow, SessionSpend } from '../models/budget';
+import {
+  ReceiptJob,
+  ReceiptJobRow,
+  ReceiptJobStatus,
+  ClaimedReceiptJob,
+  SessionReceiptTarget,
+} from '../models/receiptJob';
+import {
+  StripeWebhookEvent,
+  StripeWebhookEventRow,
+  StripeWebhookEventStatus,
+  ClaimedStripeWebhookEvent,
+  NewStripeWebhookEvent,
+} from '../models/stripeWebhookEvent';
+import {
+  ProductSyncEntry,
+  ProductSyncRow,
+  ProductSyncStatus,
+  ProductSyncStats,
+  ClaimedProductSync,
+  PENDING_PRODUCT_SOURCE,
+} from '../models/productSync';
+import { CatalogProduct, CatalogProductInput, CatalogProductRow } from '../models/productCatalog';
+import type { ReceiptScanResult } from '../services/receiptOcr';
+import { takeTokens, TokenBucket, RateLimitResult } from '../services/rateLimit';
 
 // ============================================================================
 // Configuration
@@ -37,6 +138,36 @@ import {
 const DB_PATH = process.env.DB_PATH || './data/pantry.db';
 const isDevelopment = process.env.NODE_ENV !== 'production';
 
+// Lots with the nearest best-before date are consumed first; undated lots last
+const LOT_CONSUMPTION_ORDER = 'best_before IS NULL, best_before ASC, purchase_date ASC, created_at ASC';
+
+// Remaining lot quantities below this are treated as used up (float rounding)
+const LOT_EPSILON = 1e-9;
+
+// Tables, besides product_cache, that store barcodes
+const BARCODE_TABLES = ['pantry_items', 'shopping_list_items', 'session_items', 'price_observations'];
+
+// Meals of a day in the order they are eaten
+const MEAL_SLOT_ORDER = `CASE slot WHEN 'BREAKFAST' THEN 0 WHEN 'LUNCH' THEN 1 WHEN 'DINNER' THEN 2 ELSE 3 END`;
+
+// Storage locations with the number of items kept in each
+const STORAGE_LOCATION_SELECT = `
+  SELECT storage_locations.*,
+    (SELECT COUNT(*) FROM pantry_items WHERE pantry_items.location_id = storage_locations.id) AS item_count
+  FROM storage_locations`;
+
+// Average unit price paid for an item in past shopping sessions, matched by
+// barcode when the item has one and by name otherwise (i = pantry_items alias)
+const ITEM_UNIT_PRICE_SQL = `(
+  SELECT AVG(si.price)
+  FROM session_items si
+  JOIN shopping_sessions ss ON ss.id = si.session_id
+  WHERE ss.user_id = i.user_id
+    AND ss.status != 'cancelled'
+    AND si.price IS NOT NULL
+    AND ((i.barcode IS NOT NULL AND si.barcode = i.barcode) OR LOWER(si.name) = LOWER(i.name))
+)`;
+
 // ============================================================================
 // Row Mappers
 // ============================================================================
@@ -51,6 +182,141 @@ function mapPantryItemRow(row: PantryItemRow): PantryItem {
     unit: row.unit,
     category: row.category,
     lastUpdated: row.last_updated,
+    minQuantity: row.min_quantity ?? undefined,
+    targetQuantity: row.target_quantity ?? undefined,
+    locationId: row.location_id ?? undefined,
+    density: row.density ?? undefined,
+  };
+}
+
+/**
+ * SQL condition narrowing pantry items to a storage location, pushing its
+ * parameter: undefined matches any location, null only unassigned items
+ */
+function locationCondition(locationId: string | null | undefined, params: unknown[]): string {
+  if (locationId === undefined) return '';
+  if (locationId === null) return ' AND location_id IS NULL';
+  params.push(locationId);
+  return ' AND location_id = ?';
+}
+
+function mapSearchCandidateRow(row: PantryItemRow & { brand: string | null }): SearchCandidate {
+  return {
+    item: mapPantryItemRow(row),
+    brand: row.brand ?? undefined,
+  };
+}
+
+function mapRoleAssignmentRow(row: RoleAssignmentRow): RoleAssignment {
+  return {
+    userId: row.user_id,
+    role: row.role,
+    grantedBy: row.granted_by,
+    grantedAt: row.granted_at,
+  };
+}
+
+function mapRoleAuditEntryRow(row: RoleAuditEntryRow): RoleAuditEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    action: row.action,
+    performedBy: row.performed_by,
+    createdAt: row.created_at,
+  };
+}
+
+function mapPriceObservationRow(row: PriceObservationRow): PriceObservation {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    productKey: row.product_key,
+    nameKey: row.name_key,
+    barcode: row.barcode || undefined,
+    name: row.name,
+    storeName: row.store_name || undefined,
+    price: row.price,
+    quantity: row.quantity,
+    unit: row.unit || undefined,
+    unitPrice: row.unit_price,
+    priceUnit: row.price_unit,
+    source: row.source,
+    sessionId: row.session_id || undefined,
+    observedAt: row.observed_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapBudgetRow(row: BudgetRow): Budget {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    period: row.period,
+    category: row.category || undefined,
+    amount: row.amount,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapStorageLocationRow(row: StorageLocationRow): StorageLocation {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    itemCount: row.item_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapItemLotRow(row: ItemLotRow): ItemLot {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    userId: row.user_id,
+    quantity: row.quantity,
+    initialQuantity: row.initial_quantity,
+    purchaseDate: row.purchase_date,
+    bestBefore: row.best_before ?? undefined,
+    source: row.source,
+    createdAt: row.created_at,
+  };
+}
+
+function mapExpiringLotRow(row: ItemLotRow & { item_name: string; category: string; unit: string }): ExpiringLot {
+  return {
+    ...mapItemLotRow(row),
+    itemName: row.item_name,
+    category: row.category,
+    unit: row.unit,
+  };
+}
+
+function mapWasteEntryRow(row: {
+  lot_id: string | null;
+  activity_id: string | null;
+  reason: ActivityReason | null;
+  item_id: string;
+  item_name: string;
+  category: string;
+  unit: string;
+  quantity: number;
+  date: string;
+  unit_price: number | null;
+}): WasteEntry {
+  return {
+    itemId: row.item_id,
+    itemName: row.item_name,
+    category: row.category,
+    unit: row.unit,
+    quantity: row.quantity,
+    date: row.date,
+    lotId: row.lot_id ?? undefined,
+    activityId: row.activity_id ?? undefined,
+    reason: row.reason ?? undefined,
+    unitPrice: row.unit_price ?? undefined,
   };
 }
 
@@ -64,6 +330,8 @@ function mapActivityRow(row: ActivityRow): Activity {
     amount: row.amount,
     timestamp: row.timestamp,
     source: row.source,
+    reason: row.reason ?? undefined,
+    performedBy: row.performed_by ?? undefined,
     metadata: row.metadata ?? undefined,
   };
 }
@@ -95,21 +363,220 @@ function mapSessionItemRow(row: SessionItemRow): SessionItem {
     unit: row.unit ?? undefined,
     price: row.price ?? undefined,
     category: row.category ?? undefined,
+    bestBefore: row.best_before ?? undefined,
     addedAt: row.added_at,
     updatedAt: row.updated_at,
   };
 }
 
+function mapSessionReceiptRow(row: SessionReceiptRow): SessionReceipt {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    imageKey: row.image_key ?? undefined,
+    thumbnailKey: row.thumbnail_key ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    sizeBytes: row.size_bytes ?? undefined,
+    mimeType: row.mime_type,
+    notes: row.notes ?? undefined,
+    header: row.header ? JSON.parse(row.header) : undefined,
+    capturedAt: row.captured_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapReceiptJobRow(row: ReceiptJobRow): ReceiptJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+    sessionReceipt: row.owner_id && row.session_id && row.receipt_id
+      ? { ownerId: row.owner_id, sessionId: row.session_id, receiptId: row.receipt_id }
+      : undefined,
+    runAt: row.run_at,
+    startedAt: row.started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapStripeWebhookEventRow(row: StripeWebhookEventRow): StripeWebhookEvent {
+  return {
+    id: row.id,
+    stripeEventId: row.stripe_event_id,
+    eventType: row.event_type,
+    objectId: row.object_id ?? undefined,
+    userId: row.user_id ?? undefined,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error ?? undefined,
+    stripeCreatedAt: row.stripe_created_at,
+    processedAt: row.processed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapProductSyncRow(row: ProductSyncRow): ProductSyncEntry {
+  const queued = row.needs_sync === 1;
+  return {
+    barcode: row.barcode,
+    name: row.source === PENDING_PRODUCT_SOURCE ? undefined : row.name,
+    status: queued ? 'QUEUED' : 'FAILED',
+    attempts: row.sync_retry_count ?? 0,
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: queued ? row.sync_after ?? undefined : undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+// product_cache rows in the sync queue, by status
+const PRODUCT_SYNC_CONDITIONS: Record<ProductSyncStatus, string> = {
+  QUEUED: 'needs_sync = 1',
+  FAILED: 'COALESCE(needs_sync, 0) = 0 AND last_error IS NOT NULL',
+};
+
+function mapCatalogProductRow(row: CatalogProductRow): CatalogProduct {
+  return {
+    barcode: row.barcode,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    category: row.category,
+    imageUrl: row.image_url ?? undefined,
+    contributedBy: row.contributed_by ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapHouseholdRow(row: HouseholdRow): Household {
+  return {
+    id: row.id,
+    name: row.name,
+    ownerId: row.owner_id,
+    inviteCode: row.invite_code,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapHouseholdMemberRow(row: HouseholdMemberRow): HouseholdMember {
+  return {
+    householdId: row.household_id,
+    userId: row.user_id,
+    role: row.role,
+    joinedAt: row.joined_at,
+  };
+}
+
+function mapHouseholdInviteRow(row: HouseholdInviteRow): HouseholdInvite {
+  return {
+    id: row.id,
+    householdId: row.household_id,
+    email: row.email,
+    role: row.role,
+    token: row.token,
+    invitedBy: row.invited_by,
+    expiresAt: row.expires_at,
+    acceptedAt: row.accepted_at ?? undefined,
+    acceptedBy: row.accepted_by ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function mapRecipeIngredientRow(row: RecipeIngredientRow): RecipeIngredient {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    position: row.position,
+    name: row.name,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit ?? undefined,
+  };
+}
+
+function mapRecipeRow(row: RecipeRow, ingredients: RecipeIngredient[]): Recipe {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    servings: row.servings ?? undefined,
+    instructions: row.instructions ?? undefined,
+    sourceUrl: row.source_url ?? undefined,
+    ingredients,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapMealPlanIngredientRow(row: MealPlanIngredientRow): MealPlanIngredient {
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    position: row.position,
+    name: row.name,
+    quantity: row.quantity ?? undefined,
+    unit: row.unit ?? undefined,
+  };
+}
+
+function mapMealPlanEntryRow(row: MealPlanEntryRow, ingredients: MealPlanIngredient[]): MealPlanEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: row.date,
+    slot: row.slot,
+    recipeId: row.recipe_id ?? undefined,
+    title: row.title,
+    servings: row.servings ?? undefined,
+    notes: row.notes ?? undefined,
+    ingredients,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapShoppingListItemRow(row: ShoppingListItemRow): ShoppingListItem {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    itemId: row.item_id ?? undefined,
+    name: row.name,
+    quantity: row.quantity,
+    unit: row.unit ?? undefined,
+    category: row.category ?? undefined,
+    barcode: row.barcode ?? undefined,
+    checked: Boolean(row.checked),
+    source: row.source,
+    checkedAt: row.checked_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
 // ============================================================================
 // SQLite Adapter Class
 // ============================================================================
 
 export class SQLiteAdapter implements DatabaseAdapter {
   private db: Database.Database | null = null;
+  // Settles once the transaction() holding the connection has finished
+  private transactionQueue: Promise<void> = Promise.resolve();
+  private readonly transactionScope = new AsyncLocalStorage<true>();
 
   initialize(): void {
-    // Run migrations first to ensure schema is up-to-date
-    runMigrations(DB_PATH);
+    // Run migrations first to ensure schema is up-to-date.
+    // Migrations open their own connection, so an in-memory database would
+    // be a separate, throwaway instance - initializeSchema covers that case.
+    if (DB_PATH !== ':memory:') {
+      runMigrations(DB_PATH);
+    }
 
     this.db = new Database(DB_PATH, {
       verbose: isDevelopment ? console.log : undefined,
@@ -152,23 +619,47 @@ export class SQLiteAdapter implements DatabaseAdapter {
         unit TEXT NOT NULL,
         category TEXT NOT NULL,
         last_updated TEXT NOT NULL,
+        min_quantity REAL,
+        target_quantity REAL,
+        location_id TEXT REFERENCES storage_locations(id) ON DELETE SET NULL,
+        density REAL,
         created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
+    // Storage locations (fridge, freezer, shelf) items can be assigned to
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS storage_locations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_locations_user_name ON storage_locations(user_id, LOWER(name));
+    `);
+
     // Activities table with user_id column and foreign key to pantry_items
+    // item_id is nullable for SHOPPING_SESSION entries (matches migration 011)
     db.exec(`
       CREATE TABLE IF NOT EXISTS activities (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
-        item_id TEXT NOT NULL REFERENCES pantry_items(id) ON DELETE CASCADE,
+        item_id TEXT REFERENCES pantry_items(id) ON DELETE CASCADE,
         item_name TEXT NOT NULL,
         type TEXT NOT NULL CHECK(type IN ('ADD', 'REMOVE', 'ADJUST', 'SHOPPING_SESSION')),
         amount REAL NOT NULL,
         timestamp TEXT NOT NULL,
         source TEXT NOT NULL DEFAULT 'MANUAL' CHECK(source IN ('MANUAL', 'RECEIPT_SCAN', 'VISUAL_USAGE', 'SHOPPING_SESSION')),
+        reason TEXT CHECK(reason IS NULL OR reason IN ('CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED', 'INVENTORY_CORRECTION', 'MOVED')),
+        performed_by TEXT,
         metadata TEXT,
-        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        CONSTRAINT chk_item_required_for_types CHECK (
+          (type IN ('ADD', 'REMOVE', 'ADJUST') AND item_id IS NOT NULL) OR
+          (type = 'SHOPPING_SESSION')
+        )
       );
     `);
 
@@ -188,7 +679,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
         updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
         needs_sync INTEGER DEFAULT 0,
         sync_retry_count INTEGER DEFAULT 0,
-        last_error TEXT
+        last_error TEXT,
+        sync_after TEXT,
+        provenance TEXT
       );
     `);
 
@@ -208,60 +701,432 @@ export class SQLiteAdapter implements DatabaseAdapter {
       );
     `);
 
+    // Staff roles for the admin API and the audit log of role changes
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS user_roles (
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('read_only', 'support', 'admin')),
+        granted_by TEXT NOT NULL,
+        granted_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, role)
+      );
+
+      CREATE TABLE IF NOT EXISTS role_audit_log (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('GRANT', 'REVOKE')),
+        performed_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_role_audit_log_user_id ON role_audit_log(user_id);
+      CREATE INDEX IF NOT EXISTS idx_role_audit_log_created_at ON role_audit_log(created_at DESC);
+    `);
+
     // Indexes for performance
     db.exec(`
       CREATE INDEX IF NOT EXISTS idx_pantry_items_user_id ON pantry_items(user_id);
       CREATE INDEX IF NOT EXISTS idx_pantry_items_category ON pantry_items(category);
       CREATE INDEX IF NOT EXISTS idx_pantry_items_name ON pantry_items(name);
       CREATE INDEX IF NOT EXISTS idx_pantry_items_barcode ON pantry_items(barcode);
+      CREATE INDEX IF NOT EXISTS idx_pantry_items_location_id ON pantry_items(location_id);
       CREATE INDEX IF NOT EXISTS idx_activities_user_id ON activities(user_id);
       CREATE INDEX IF NOT EXISTS idx_activities_item_id ON activities(item_id);
       CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON activities(timestamp DESC);
       CREATE INDEX IF NOT EXISTS idx_activities_type ON activities(type);
+      CREATE INDEX IF NOT EXISTS idx_activities_reason ON activities(reason);
       CREATE INDEX IF NOT EXISTS idx_product_cache_barcode ON product_cache(barcode);
       CREATE INDEX IF NOT EXISTS idx_product_cache_updated_at ON product_cache(updated_at);
       CREATE INDEX IF NOT EXISTS idx_client_errors_resolved ON client_errors(resolved);
       CREATE INDEX IF NOT EXISTS idx_client_errors_created ON client_errors(created_at);
     `);
 
-    // Session Receipts table for storing receipt images
+    // Full-text index for item search over names, barcodes, cached brands and
+    // categories, kept in step by triggers (also created by migration 021)
     db.exec(`
-      CREATE TABLE IF NOT EXISTS session_receipts (
+      CREATE VIRTUAL TABLE IF NOT EXISTS item_search USING fts5(
+        name,
+        barcode,
+        brand,
+        category,
+        item_id UNINDEXED,
+        user_id UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS item_search_insert AFTER INSERT ON pantry_items BEGIN
+        INSERT INTO item_search (name, barcode, brand, category, item_id, user_id)
+        VALUES (NEW.name, NEW.barcode, (SELECT brand FROM product_cache WHERE barcode = NEW.barcode), NEW.category, NEW.id, NEW.user_id);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS item_search_update AFTER UPDATE OF name, barcode, category, user_id ON pantry_items BEGIN
+        UPDATE item_search
+        SET name = NEW.name,
+            barcode = NEW.barcode,
+            brand = (SELECT brand FROM product_cache WHERE barcode = NEW.barcode),
+            category = NEW.category,
+            user_id = NEW.user_id
+        WHERE item_id = OLD.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS item_search_delete AFTER DELETE ON pantry_items BEGIN
+        DELETE FROM item_search WHERE item_id = OLD.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS item_search_brand_insert AFTER INSERT ON product_cache BEGIN
+        UPDATE item_search SET brand = NEW.brand WHERE barcode = NEW.barcode;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS item_search_brand_update AFTER UPDATE OF brand ON product_cache BEGIN
+        UPDATE item_search SET brand = NEW.brand WHERE barcode = NEW.barcode;
+      END;
+    `);
+
+    // Item lots table - one row per purchase batch of a pantry item
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS item_lots (
         id TEXT PRIMARY KEY,
-        session_id TEXT NOT NULL,
-        image_data TEXT NOT NULL,
-        mime_type TEXT NOT NULL,
+        item_id TEXT NOT NULL REFERENCES pantry_items(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        initial_quantity REAL NOT NULL,
+        purchase_date TEXT NOT NULL,
+        best_before TEXT,
+        source TEXT NOT NULL DEFAULT 'MANUAL',
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_item_lots_item_id ON item_lots(item_id);
+      CREATE INDEX IF NOT EXISTS idx_item_lots_user_best_before ON item_lots(user_id, best_before);
+    `);
+
+    // Stock held before lot tracking gets one undated lot (also migration 032)
+    db.exec(`
+      INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+      SELECT id, id, user_id, quantity, quantity, substr(created_at, 1, 10), NULL, 'MANUAL', created_at
+      FROM pantry_items
+      WHERE quantity > 0 AND id NOT IN (SELECT item_id FROM item_lots);
+    `);
+
+    // Shopping sessions and session items (also created by migration 008)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS shopping_sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        store_name TEXT,
+        started_at TEXT NOT NULL,
+        completed_at TEXT,
+        status TEXT NOT NULL DEFAULT 'active',
+        total_amount DECIMAL(10, 2) DEFAULT 0,
+        item_count INTEGER DEFAULT 0,
+        receipt_url TEXT,
         notes TEXT,
-        captured_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
         created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (session_id) REFERENCES shopping_sessions(id) ON DELETE CASCADE
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
-    // Indexes for session receipts
     db.exec(`
-      CREATE INDEX IF NOT EXISTS idx_session_receipts_session_id ON session_receipts(session_id);
-      CREATE INDEX IF NOT EXISTS idx_session_receipts_captured_at ON session_receipts(captured_at);
+      CREATE TABLE IF NOT EXISTS session_items (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        barcode TEXT,
+        name TEXT NOT NULL,
+        quantity DECIMAL(10, 3) NOT NULL DEFAULT 1,
+        unit TEXT,
+        price DECIMAL(10, 2),
+        category TEXT,
+        best_before TEXT,
+        added_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (session_id) REFERENCES shopping_sessions(id) ON DELETE CASCADE
+      );
     `);
 
-    console.log('[DB] SQLite schema initialized successfully');
-  }
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_id ON shopping_sessions(user_id);
+      CREATE INDEX IF NOT EXISTS idx_shopping_sessions_user_status ON shopping_sessions(user_id, status);
+      CREATE INDEX IF NOT EXISTS idx_session_items_session_id ON session_items(session_id);
+      CREATE INDEX IF NOT EXISTS idx_session_items_barcode ON session_items(barcode);
+    `);
+
+    // Shopping list entries, added by hand or when stock drops below minQuantity
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS shopping_list_items (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        item_id TEXT REFERENCES pantry_items(id) ON DELETE SET NULL,
+        name TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 1,
+        unit TEXT,
+        category TEXT,
+        barcode TEXT,
+        checked INTEGER NOT NULL DEFAULT 0,
+        source TEXT NOT NULL DEFAULT 'MANUAL' CHECK(source IN ('AUTO', 'MANUAL')),
+        checked_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_shopping_list_items_user_id ON shopping_list_items(user_id, checked);
+      CREATE INDEX IF NOT EXISTS idx_shopping_list_items_item_id ON shopping_list_items(item_id);
+    `);
+
+    // Prices paid, from completed shopping sessions and imported receipts
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS price_observations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        product_key TEXT NOT NULL,
+        name_key TEXT NOT NULL,
+        barcode TEXT,
+        name TEXT NOT NULL,
+        store_name TEXT,
+        price REAL NOT NULL,
+        quantity REAL NOT NULL,
+        unit TEXT,
+        unit_price REAL NOT NULL,
+        price_unit TEXT NOT NULL,
+        source TEXT NOT NULL CHECK(source IN ('SHOPPING_SESSION', 'RECEIPT_SCAN')),
+        session_id TEXT,
+        observed_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_price_observations_user_name ON price_observations(user_id, name_key);
+      CREATE INDEX IF NOT EXISTS idx_price_observations_user_barcode ON price_observations(user_id, barcode);
+      CREATE INDEX IF NOT EXISTS idx_price_observations_user_observed ON price_observations(user_id, observed_at);
+    `);
+
+    // Weekly or monthly spending limits, overall or per category
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        period TEXT NOT NULL CHECK(period IN ('week', 'month')),
+        category TEXT,
+        amount REAL NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_user_scope ON budgets(user_id, period, LOWER(COALESCE(category, '')));
+    `);
+
+    // Recipes and their ingredient lines
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS recipes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        servings INTEGER,
+        instructions TEXT,
+        source_url TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS recipe_ingredients (
+        id TEXT PRIMARY KEY,
+        recipe_id TEXT NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        quantity REAL,
+        unit TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_recipes_user_id ON recipes(user_id);
+      CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe_id ON recipe_ingredients(recipe_id, position);
+    `);
+
+    // Meal plan: meals per day and slot, cooking a recipe or free-text ingredients
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS meal_plan_entries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        slot TEXT NOT NULL CHECK(slot IN ('BREAKFAST', 'LUNCH', 'DINNER', 'SNACK')),
+        recipe_id TEXT REFERENCES recipes(id) ON DELETE SET NULL,
+        title TEXT NOT NULL,
+        servings INTEGER,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS meal_plan_ingredients (
+        id TEXT PRIMARY KEY,
+        entry_id TEXT NOT NULL REFERENCES meal_plan_entries(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        quantity REAL,
+        unit TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_user_date ON meal_plan_entries(user_id, date);
+      CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_recipe_id ON meal_plan_entries(recipe_id);
+      CREATE INDEX IF NOT EXISTS idx_meal_plan_ingredients_entry_id ON meal_plan_ingredients(entry_id, position);
+    `);
+
+    // Households share one inventory, keyed by the household ID
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS households (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        owner_id TEXT NOT NULL,
+        invite_code TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS household_members (
+        household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'viewer')),
+        joined_at TEXT NOT NULL,
+        PRIMARY KEY (household_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS household_invites (
+        id TEXT PRIMARY KEY,
+        household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+        email TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('editor', 'viewer')),
+        token TEXT NOT NULL UNIQUE,
+        invited_by TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        accepted_at TEXT,
+        accepted_by TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_household_invites_household_id ON household_invites(household_id);
+    `);
+
+    // Session Receipts table for storing receipt images
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_receipts (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        image_data TEXT,
+        image_key TEXT,
+        thumbnail_key TEXT,
+        content_hash TEXT,
+        size_bytes INTEGER,
+        mime_type TEXT NOT NULL,
+        notes TEXT,
+        header TEXT,
+        captured_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (session_id) REFERENCES shopping_sessions(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Indexes for session receipts
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_session_receipts_session_id ON session_receipts(session_id);
+      CREATE INDEX IF NOT EXISTS idx_session_receipts_captured_at ON session_receipts(captured_at);
+    `);
+
+    // Receipt images queued for scanning
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS receipt_jobs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'PENDING' CHECK(status IN ('PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED')),
+        image_data TEXT,
+        result TEXT,
+        error TEXT,
+        owner_id TEXT,
+        session_id TEXT,
+        receipt_id TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        run_at TEXT NOT NULL,
+        locked_until TEXT,
+        started_at TEXT,
+        completed_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_receipt_jobs_status_run_at ON receipt_jobs(status, run_at);
+      CREATE INDEX IF NOT EXISTS idx_receipt_jobs_user_id ON receipt_jobs(user_id);
+    `);
+
+    // Stripe webhook deliveries, recorded so each event is processed once
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+        id TEXT PRIMARY KEY,
+        stripe_event_id TEXT UNIQUE NOT NULL,
+        event_type TEXT NOT NULL,
+        object_id TEXT,
+        user_id TEXT,
+        status TEXT NOT NULL DEFAULT 'PROCESSING' CHECK(status IN ('PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED')),
+        processed BOOLEAN DEFAULT 0,
+        payload JSON,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        stripe_created_at TEXT,
+        locked_until TEXT,
+        processed_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object_id ON stripe_webhook_events(object_id, stripe_created_at);
+    `);
+
+    // Token buckets for rate limiting (RATE_LIMIT_STORE=database)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+    `);
+
+    // Products entered by users, the first source asked in barcode lookups
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS product_catalog (
+        barcode TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        brand TEXT,
+        category TEXT NOT NULL,
+        image_url TEXT,
+        contributed_by TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+
+    console.log('[DB] SQLite schema initialized successfully');
+  }
 
   // ==========================================================================
   // Pantry Item Operations
   // ==========================================================================
 
-  async getAllItems(userId: string, category?: string): Promise<PantryItem[]> {
+  async getAllItems(userId: string, category?: string, locationId?: string | null): Promise<PantryItem[]> {
     const db = this.getDatabase();
 
     let query = 'SELECT * FROM pantry_items WHERE user_id = ?';
-    const params: (string | undefined)[] = [userId];
+    const params: unknown[] = [userId];
 
     if (category) {
       query += ' AND category = ?';
       params.push(category);
     }
 
+    query += locationCondition(locationId, params);
+
     query += ' ORDER BY name COLLATE NOCASE';
 
     const stmt = db.prepare(query);
@@ -282,28 +1147,83 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return row ? mapPantryItemRow(row) : null;
   }
 
-  async getItemByName(userId: string, name: string): Promise<PantryItem | null> {
+  async getItemByName(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
     const db = this.getDatabase();
 
+    const params: unknown[] = [userId, name];
     const stmt = db.prepare(
-      'SELECT * FROM pantry_items WHERE user_id = ? AND LOWER(name) = LOWER(?)'
+      `SELECT * FROM pantry_items WHERE user_id = ? AND LOWER(name) = LOWER(?)${locationCondition(locationId, params)}`
     );
-    const row = stmt.get(userId, name) as PantryItemRow | undefined;
+    const row = stmt.get(...params) as PantryItemRow | undefined;
 
     return row ? mapPantryItemRow(row) : null;
   }
 
-  async getItemByBarcode(userId: string, barcode: string): Promise<PantryItem | null> {
+  async getItemByBarcode(userId: string, barcode: string, locationId?: string | null): Promise<PantryItem | null> {
     const db = this.getDatabase();
 
+    const params: unknown[] = [userId, barcode];
     const stmt = db.prepare(
-      'SELECT * FROM pantry_items WHERE user_id = ? AND barcode = ?'
+      `SELECT * FROM pantry_items WHERE user_id = ? AND barcode = ?${locationCondition(locationId, params)}`
     );
-    const row = stmt.get(userId, barcode) as PantryItemRow | undefined;
+    const row = stmt.get(...params) as PantryItemRow | undefined;
 
     return row ? mapPantryItemRow(row) : null;
   }
 
+  async searchItems(userId: string, query: string, options: ItemSearchOptions = {}): Promise<ItemSearchResult[]> {
+    const db = this.getDatabase();
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+
+    // Columns are qualified: item_search and product_cache share some names
+    const filterFor = (params: unknown[]): string => {
+      let filters = '';
+      if (options.category) {
+        filters += ' AND pantry_items.category = ?';
+        params.push(options.category);
+      }
+      return filters + locationCondition(options.locationId, params);
+    };
+
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    // Word-prefix matches, weighted name > barcode > brand > category
+    const ftsParams: unknown[] = [ftsQuery, userId];
+    const ftsFilters = filterFor(ftsParams);
+    const ftsRows = db.prepare(`
+      SELECT pantry_items.*, item_search.brand AS brand
+      FROM item_search
+      JOIN pantry_items ON pantry_items.id = item_search.item_id
+      WHERE item_search MATCH ? AND pantry_items.user_id = ?${ftsFilters}
+      ORDER BY bm25(item_search, 10.0, 5.0, 3.0, 1.0)
+      LIMIT ?
+    `).all(...ftsParams, SEARCH_CANDIDATE_LIMIT) as Array<PantryItemRow & { brand: string | null }>;
+
+    const results = rankCandidates(query, ftsRows.map(mapSearchCandidateRow), limit);
+    if (results.length > 0) return results;
+
+    // No word matched: rank all of the user's items, which catches typos
+    const params: unknown[] = [userId];
+    const filters = filterFor(params);
+    const rows = db.prepare(`
+      SELECT pantry_items.*, product_cache.brand AS brand
+      FROM pantry_items
+      LEFT JOIN product_cache ON product_cache.barcode = pantry_items.barcode
+      WHERE pantry_items.user_id = ?${filters}
+    `).all(...params) as Array<PantryItemRow & { brand: string | null }>;
+
+    return rankCandidates(query, rows.map(mapSearchCandidateRow), limit);
+  }
+
+  async findItemMatch(userId: string, name: string, locationId?: string | null): Promise<PantryItem | null> {
+    const exact = await this.getItemByName(userId, name, locationId);
+    if (exact) return exact;
+
+    const [best] = await this.searchItems(userId, name, { locationId, limit: 1 });
+    return best && best.score >= MIN_MATCH_SCORE ? best.item : null;
+  }
+
   async createItem(userId: string, input: CreateItemInput): Promise<PantryItem> {
     const db = this.getDatabase();
 
@@ -311,11 +1231,30 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const now = new Date().toISOString();
 
     const stmt = db.prepare(`
-      INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated, min_quantity, target_quantity, location_id, density)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.run(id, userId, input.name, input.barcode || null, input.quantity, input.unit, input.category, now);
+    // Insert the item and its opening lot together
+    const result = db.transaction(() => {
+      const inserted = stmt.run(
+        id,
+        userId,
+        input.name,
+        input.barcode || null,
+        input.quantity,
+        input.unit,
+        input.category,
+        now,
+        input.minQuantity ?? null,
+        input.targetQuantity ?? null,
+        input.locationId ?? null,
+        input.density ?? null
+      );
+      this.applyLotDelta(userId, id, input.quantity, 'MANUAL', { bestBefore: input.bestBefore }, now);
+      this.syncLowStock(userId, id, now);
+      return inserted;
+    })();
     
     // Debug logging to track persistence issues
     console.log(`[DB] createItem: inserted id=${id}, changes=${result.changes}, lastInsertRowid=${result.lastInsertRowid}`);
@@ -334,6 +1273,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
       unit: input.unit,
       category: input.category,
       lastUpdated: now,
+      minQuantity: input.minQuantity,
+      targetQuantity: input.targetQuantity,
+      locationId: input.locationId,
+      density: input.density,
     };
   }
 
@@ -369,6 +1312,18 @@ export class SQLiteAdapter implements DatabaseAdapter {
       updates.push('category = ?');
       params.push(input.category);
     }
+    if (input.minQuantity !== undefined) {
+      updates.push('min_quantity = ?');
+      params.push(input.minQuantity);
+    }
+    if (input.targetQuantity !== undefined) {
+      updates.push('target_quantity = ?');
+      params.push(input.targetQuantity);
+    }
+    if (input.density !== undefined) {
+      updates.push('density = ?');
+      params.push(input.density);
+    }
 
     // Always update last_updated
     updates.push('last_updated = ?');
@@ -380,7 +1335,16 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     const query = `UPDATE pantry_items SET ${updates.join(', ')} WHERE user_id = ? AND id = ?`;
     const stmt = db.prepare(query);
-    const result = stmt.run(...params);
+    const result = db.transaction(() => {
+      const updated = stmt.run(...params);
+      if (input.quantity !== undefined && updated.changes > 0) {
+        this.applyLotDelta(userId, id, input.quantity - existing.quantity, 'MANUAL', {}, now);
+      }
+      if (updated.changes > 0) {
+        this.syncLowStock(userId, id, now);
+      }
+      return updated;
+    })();
     
     // Debug logging to track persistence issues
     console.log(`[DB] updateItem: userId=${userId}, id=${id}, changes=${result.changes}`);
@@ -418,7 +1382,14 @@ export class SQLiteAdapter implements DatabaseAdapter {
       WHERE user_id = ? AND id = ?
     `);
 
-    const result = stmt.run(newQuantity, now, userId, id);
+    const result = db.transaction(() => {
+      const updated = stmt.run(newQuantity, now, userId, id);
+      if (updated.changes > 0) {
+        this.applyLotDelta(userId, id, newQuantity - existing.quantity, 'MANUAL', {}, now);
+        this.syncLowStock(userId, id, now);
+      }
+      return updated;
+    })();
 
     // Debug logging to track persistence issues
     console.log(`[DB] adjustItemQuantity: userId=${userId}, id=${id}, adjustment=${adjustment}, changes=${result.changes}`);
@@ -443,155 +1414,1226 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return rows.map((r) => r.category);
   }
 
-  // ==========================================================================
-  // Activity Operations
-  // ==========================================================================
-
-  async getActivities(
+  async moveItem(
     userId: string,
-    limit: number = 20,
-    offset: number = 0,
-    itemId?: string
-  ): Promise<Activity[]> {
+    itemId: string,
+    locationId: string | null,
+    options: MoveItemOptions = {}
+  ): Promise<MoveItemResult | null> {
     const db = this.getDatabase();
 
-    let query = 'SELECT * FROM activities WHERE user_id = ?';
-    const params: (string | number)[] = [userId];
+    const item = await this.getItemById(userId, itemId);
+    if (!item) return null;
 
-    if (itemId) {
-      query += ' AND item_id = ?';
-      params.push(itemId);
+    const fromLocationId = item.locationId ?? null;
+    if (fromLocationId === locationId) {
+      return { item, destination: item, activities: [] };
     }
 
-    query += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?';
-    params.push(limit, offset);
+    const now = new Date().toISOString();
+    const quantity = options.quantity ?? item.quantity;
+
+    // Moving everything relocates the item itself, keeping its lots and history
+    if (quantity >= item.quantity) {
+      const activity = db.transaction(() => {
+        db.prepare('UPDATE pantry_items SET location_id = ?, last_updated = ? WHERE user_id = ? AND id = ?')
+          .run(locationId, now, userId, itemId);
+        return this.logMoveActivity(userId, item, 'ADJUST', 0, { fromLocationId, toLocationId: locationId }, options.performedBy, now);
+      })();
+
+      const moved = (await this.getItemById(userId, itemId))!;
+      return { item: moved, destination: moved, activities: [activity] };
+    }
 
-    const stmt = db.prepare(query);
-    const rows = stmt.all(...params) as ActivityRow[];
+    const params: unknown[] = [userId, item.name, itemId];
+    const candidates = db.prepare(
+      `SELECT * FROM pantry_items WHERE user_id = ? AND LOWER(name) = LOWER(?) AND id != ?${locationCondition(locationId, params)}`
+    ).all(...params) as PantryItemRow[];
+    const existing = candidates.find((row) => normalizeUnit(row.unit) === normalizeUnit(item.unit));
 
-    return rows.map(mapActivityRow);
-  }
+    const destinationId = existing?.id ?? uuidv4();
 
-  async getActivityCount(userId: string, itemId?: string): Promise<number> {
-    const db = this.getDatabase();
+    const activities = db.transaction(() => {
+      if (existing) {
+        db.prepare('UPDATE pantry_items SET quantity = quantity + ?, last_updated = ? WHERE user_id = ? AND id = ?')
+          .run(quantity, now, userId, destinationId);
+      } else {
+        db.prepare(`
+          INSERT INTO pantry_items (id, user_id, name, barcode, quantity, unit, category, last_updated, location_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(destinationId, userId, item.name, item.barcode || null, quantity, item.unit, item.category, now, locationId);
+      }
 
-    let query = 'SELECT COUNT(*) as count FROM activities WHERE user_id = ?';
-    const params: string[] = [userId];
+      db.prepare('UPDATE pantry_items SET quantity = ?, last_updated = ? WHERE user_id = ? AND id = ?')
+        .run(item.quantity - quantity, now, userId, itemId);
 
-    if (itemId) {
-      query += ' AND item_id = ?';
-      params.push(itemId);
-    }
+      this.transferLots(userId, itemId, destinationId, quantity);
+      this.syncLowStock(userId, itemId, now);
+      this.syncLowStock(userId, destinationId, now);
 
-    const stmt = db.prepare(query);
-    const result = stmt.get(...params) as { count: number };
+      const metadata = { fromLocationId, toLocationId: locationId, fromItemId: itemId, toItemId: destinationId };
+      const destination = { ...item, id: destinationId };
+      return [
+        this.logMoveActivity(userId, item, 'REMOVE', quantity, metadata, options.performedBy, now),
+        this.logMoveActivity(userId, destination, 'ADD', quantity, metadata, options.performedBy, now),
+      ];
+    })();
 
-    return result.count;
+    return {
+      item: (await this.getItemById(userId, itemId))!,
+      destination: (await this.getItemById(userId, destinationId))!,
+      activities,
+    };
   }
 
-  async logActivity(
+  /**
+   * Record a MOVED activity, with the locations involved as metadata
+   * Callers run this inside the transaction that moves the stock.
+   */
+  private logMoveActivity(
     userId: string,
-    itemId: string,
+    item: PantryItem,
     type: ActivityType,
     amount: number,
-    source: ActivitySource = 'MANUAL'
-  ): Promise<Activity | null> {
+    metadata: Record<string, string | null>,
+    performedBy: string | undefined,
+    now: string
+  ): Activity {
     const db = this.getDatabase();
 
-    const item = await this.getItemById(userId, itemId);
-    if (!item) return null;
-
     const id = uuidv4();
-    const now = new Date().toISOString();
+    const metadataJson = JSON.stringify(metadata);
 
-    // Calculate quantity adjustment based on activity type
-    let quantityAdjustment = 0;
-    let actualAmount = amount;
+    db.prepare(`
+      INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, reason, performed_by, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'MANUAL', 'MOVED', ?, ?)
+    `).run(id, userId, item.id, item.name, type, amount, now, performedBy || null, metadataJson);
 
-    switch (type) {
-      case 'ADD':
-        quantityAdjustment = amount;
-        break;
-      case 'REMOVE':
-        quantityAdjustment = -amount;
-        // Cap removal at available quantity
-        actualAmount = Math.min(amount, item.quantity);
-        break;
-      case 'ADJUST':
-        // For ADJUST, amount represents the delta (positive or negative)
-        quantityAdjustment = amount;
-        actualAmount = Math.abs(amount);
-        break;
-    }
+    return {
+      id,
+      userId,
+      itemId: item.id,
+      itemName: item.name,
+      type,
+      amount,
+      timestamp: now,
+      source: 'MANUAL',
+      reason: 'MOVED',
+      performedBy,
+      metadata: metadataJson,
+    };
+  }
 
-    // Use transaction for atomicity
-    const transaction = db.transaction(() => {
-      // Create activity record with denormalized item name
-      const activityStmt = db.prepare(`
-        INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `);
+  /**
+   * Move a quantity of stock's lots to another item, first-expiring-first,
+   * keeping their purchase and best-before dates. Stock not covered by lots
+   * stays untracked at the destination.
+   * Callers run this inside the transaction that moves the stock.
+   */
+  private transferLots(userId: string, fromItemId: string, toItemId: string, quantity: number): void {
+    const db = this.getDatabase();
 
-      activityStmt.run(id, userId, itemId, item.name, type, actualAmount, now, source);
+    let remaining = quantity;
+    const lots = db.prepare(
+      `SELECT * FROM item_lots WHERE user_id = ? AND item_id = ? ORDER BY ${LOT_CONSUMPTION_ORDER}`
+    ).all(userId, fromItemId) as ItemLotRow[];
 
-      // Update item quantity
-      const newQuantity = Math.max(0, item.quantity + quantityAdjustment);
-      const updateStmt = db.prepare(`
-        UPDATE pantry_items 
-        SET quantity = ?, last_updated = ? 
-        WHERE user_id = ? AND id = ?
-      `);
+    for (const lot of lots) {
+      if (remaining <= LOT_EPSILON) break;
 
-      updateStmt.run(newQuantity, now, userId, itemId);
+      const moved = Math.min(lot.quantity, remaining);
+      remaining -= moved;
 
-      return {
-        id,
-        userId,
-        itemId,
-        itemName: item.name,
-        type,
-        amount: actualAmount,
-        timestamp: now,
-        source,
-      };
-    });
+      if (lot.quantity - moved <= LOT_EPSILON) {
+        db.prepare('DELETE FROM item_lots WHERE id = ?').run(lot.id);
+      } else {
+        db.prepare('UPDATE item_lots SET quantity = ? WHERE id = ?').run(lot.quantity - moved, lot.id);
+      }
 
-    return transaction();
+      db.prepare(`
+        INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(uuidv4(), toItemId, userId, moved, moved, lot.purchase_date, lot.best_before, lot.source, lot.created_at);
+    }
   }
 
   // ==========================================================================
-  // Scan Receipt Operations
+  // Storage Location Operations
   // ==========================================================================
 
-  processReceiptScan(rawData: string | ScanResult[]): ScanResult[] {
-    // If already structured data, validate and return
-    if (Array.isArray(rawData)) {
-      return rawData.filter((item) => item.name && item.quantity >= 0);
-    }
+  async getStorageLocations(userId: string): Promise<StorageLocation[]> {
+    const db = this.getDatabase();
 
-    // Simple text parsing (mock implementation)
-    return this.parseReceiptText(rawData);
+    const rows = db.prepare(
+      `${STORAGE_LOCATION_SELECT} WHERE user_id = ? ORDER BY name COLLATE NOCASE`
+    ).all(userId) as StorageLocationRow[];
+
+    return rows.map(mapStorageLocationRow);
   }
 
-  private parseReceiptText(text: string): ScanResult[] {
-    const lines = text.split('\n').filter((line) => line.trim());
-    const results: ScanResult[] = [];
+  async getStorageLocationById(userId: string, id: string): Promise<StorageLocation | null> {
+    const db = this.getDatabase();
 
-    for (const line of lines) {
-      // Simple parsing: look for patterns like "Item Name $X.XX" or "Item Name X qty"
-      const match = line.match(/(.+?)\s+(?:\$?\d+\.\d+|\d+)\s*(\w+)?/i);
-      if (match) {
-        const name = match[1].trim();
-        const category = this.inferCategory(name);
-        
-        results.push({
-          name,
-          quantity: 1,
-          unit: match[2] || 'pieces',
-          category,
-        });
-      }
-    }
+    const row = db.prepare(`${STORAGE_LOCATION_SELECT} WHERE user_id = ? AND id = ?`)
+      .get(userId, id) as StorageLocationRow | undefined;
+
+    return row ? mapStorageLocationRow(row) : null;
+  }
+
+  async getStorageLocationByName(userId: string, name: string): Promise<StorageLocation | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare(`${STORAGE_LOCATION_SELECT} WHERE user_id = ? AND LOWER(name) = LOWER(?)`)
+      .get(userId, name) as StorageLocationRow | undefined;
+
+    return row ? mapStorageLocationRow(row) : null;
+  }
+
+  async createStorageLocation(userId: string, name: string): Promise<StorageLocation> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO storage_locations (id, user_id, name, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, userId, name, now, now);
+
+    return { id, userId, name, itemCount: 0, createdAt: now, updatedAt: now };
+  }
+
+  async updateStorageLocation(userId: string, id: string, name: string): Promise<StorageLocation | null> {
+    const db = this.getDatabase();
+
+    const result = db.prepare(
+      'UPDATE storage_locations SET name = ?, updated_at = ? WHERE user_id = ? AND id = ?'
+    ).run(name, new Date().toISOString(), userId, id);
+
+    if (result.changes === 0) return null;
+
+    return this.getStorageLocationById(userId, id);
+  }
+
+  async deleteStorageLocation(userId: string, id: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM storage_locations WHERE user_id = ? AND id = ?').run(userId, id);
+
+    return result.changes > 0;
+  }
+
+  // ==========================================================================
+  // Item Lot Operations
+  // ==========================================================================
+
+  async getItemLots(userId: string, itemId: string): Promise<ItemLot[]> {
+    const db = this.getDatabase();
+
+    const stmt = db.prepare(
+      `SELECT * FROM item_lots WHERE user_id = ? AND item_id = ? ORDER BY ${LOT_CONSUMPTION_ORDER}`
+    );
+    const rows = stmt.all(userId, itemId) as ItemLotRow[];
+
+    return rows.map(mapItemLotRow);
+  }
+
+  async getExpiringLots(userId: string, cutoffDate: string): Promise<ExpiringLot[]> {
+    const db = this.getDatabase();
+
+    const stmt = db.prepare(`
+      SELECT l.*, i.name AS item_name, i.category, i.unit
+      FROM item_lots l
+      JOIN pantry_items i ON i.id = l.item_id
+      WHERE l.user_id = ? AND l.best_before IS NOT NULL AND l.best_before <= ? AND l.quantity > 0
+      ORDER BY l.best_before ASC, i.name COLLATE NOCASE
+    `);
+    const rows = stmt.all(userId, cutoffDate) as (ItemLotRow & { item_name: string; category: string; unit: string })[];
+
+    return rows.map(mapExpiringLotRow);
+  }
+
+  async getWasteEntries(userId: string, fromDate: string, toDate: string): Promise<WasteEntry[]> {
+    const db = this.getDatabase();
+    const today = new Date().toISOString().slice(0, 10);
+
+    // Lots still holding stock after their best-before date went unused,
+    // plus stock explicitly thrown out with a waste reason
+    const wastePlaceholders = WASTE_REASONS.map(() => '?').join(', ');
+    const stmt = db.prepare(`
+      SELECT
+        l.id AS lot_id,
+        NULL AS activity_id,
+        NULL AS reason,
+        l.item_id,
+        i.name AS item_name,
+        i.category,
+        i.unit,
+        l.quantity,
+        l.best_before AS date,
+        ${ITEM_UNIT_PRICE_SQL} AS unit_price
+      FROM item_lots l
+      JOIN pantry_items i ON i.id = l.item_id
+      WHERE l.user_id = ?
+        AND l.quantity > 0
+        AND l.best_before IS NOT NULL
+        AND l.best_before < ?
+        AND l.best_before >= ?
+        AND l.best_before <= ?
+      UNION ALL
+      SELECT
+        NULL AS lot_id,
+        a.id AS activity_id,
+        a.reason,
+        a.item_id,
+        i.name AS item_name,
+        i.category,
+        i.unit,
+        a.amount AS quantity,
+        substr(a.timestamp, 1, 10) AS date,
+        ${ITEM_UNIT_PRICE_SQL} AS unit_price
+      FROM activities a
+      JOIN pantry_items i ON i.id = a.item_id
+      WHERE a.user_id = ?
+        AND a.type = 'REMOVE'
+        AND a.reason IN (${wastePlaceholders})
+        AND substr(a.timestamp, 1, 10) >= ?
+        AND substr(a.timestamp, 1, 10) <= ?
+      ORDER BY date ASC
+    `);
+    const rows = stmt.all(
+      userId, today, fromDate, toDate,
+      userId, ...WASTE_REASONS, fromDate, toDate
+    ) as Parameters<typeof mapWasteEntryRow>[0][];
+
+    return rows.map(mapWasteEntryRow);
+  }
+
+  /**
+   * Mirror a change in item quantity onto its lots.
+   * A positive delta opens a new lot; a negative delta drains open lots
+   * first-expiring-first and deletes the ones that are used up.
+   * Callers run this inside the transaction that updates the item quantity.
+   */
+  private applyLotDelta(
+    userId: string,
+    itemId: string,
+    delta: number,
+    source: ActivitySource,
+    lot: LogActivityOptions,
+    now: string
+  ): void {
+    const db = this.getDatabase();
+
+    if (delta > 0) {
+      db.prepare(`
+        INSERT INTO item_lots (id, item_id, user_id, quantity, initial_quantity, purchase_date, best_before, source, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        uuidv4(),
+        itemId,
+        userId,
+        delta,
+        delta,
+        lot.purchaseDate || now.slice(0, 10),
+        lot.bestBefore || null,
+        source,
+        now
+      );
+      return;
+    }
+
+    let remaining = -delta;
+    const lots = db.prepare(
+      `SELECT id, quantity FROM item_lots WHERE user_id = ? AND item_id = ? ORDER BY ${LOT_CONSUMPTION_ORDER}`
+    ).all(userId, itemId) as { id: string; quantity: number }[];
+
+    const deleteStmt = db.prepare('DELETE FROM item_lots WHERE id = ?');
+    const updateStmt = db.prepare('UPDATE item_lots SET quantity = ? WHERE id = ?');
+
+    for (const lotRow of lots) {
+      if (remaining <= LOT_EPSILON) break;
+
+      const used = Math.min(lotRow.quantity, remaining);
+      remaining -= used;
+
+      if (lotRow.quantity - used <= LOT_EPSILON) {
+        deleteStmt.run(lotRow.id);
+      } else {
+        updateStmt.run(lotRow.quantity - used, lotRow.id);
+      }
+    }
+  }
+
+  /**
+   * Keep an item's AUTO shopping list entry in step with its stock.
+   * Below minQuantity with no open entry adds one for the restock amount;
+   * back at or above minQuantity removes any unchecked AUTO entry.
+   * Callers run this inside the transaction that updates the item quantity.
+   */
+  private syncLowStock(userId: string, itemId: string, now: string): void {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM pantry_items WHERE user_id = ? AND id = ?')
+      .get(userId, itemId) as PantryItemRow | undefined;
+    if (!row) return;
+
+    const item = mapPantryItemRow(row);
+
+    if (!isLowStock(item)) {
+      db.prepare(
+        `DELETE FROM shopping_list_items WHERE user_id = ? AND item_id = ? AND checked = 0 AND source = 'AUTO'`
+      ).run(userId, itemId);
+      return;
+    }
+
+    const open = db.prepare(
+      'SELECT id FROM shopping_list_items WHERE user_id = ? AND item_id = ? AND checked = 0'
+    ).get(userId, itemId);
+    if (open) return;
+
+    db.prepare(`
+      INSERT INTO shopping_list_items (id, user_id, item_id, name, quantity, unit, category, barcode, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'AUTO', ?, ?)
+    `).run(
+      uuidv4(),
+      userId,
+      itemId,
+      item.name,
+      restockQuantity(item),
+      item.unit,
+      item.category,
+      item.barcode || null,
+      now,
+      now
+    );
+  }
+
+  // ==========================================================================
+  // Activity Operations
+  // ==========================================================================
+
+  async getActivities(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0,
+    itemId?: string,
+    reason?: ActivityReason
+  ): Promise<Activity[]> {
+    const db = this.getDatabase();
+
+    let query = 'SELECT * FROM activities WHERE user_id = ?';
+    const params: (string | number)[] = [userId];
+
+    if (itemId) {
+      query += ' AND item_id = ?';
+      params.push(itemId);
+    }
+
+    if (reason) {
+      query += ' AND reason = ?';
+      params.push(reason);
+    }
+
+    query += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const stmt = db.prepare(query);
+    const rows = stmt.all(...params) as ActivityRow[];
+
+    return rows.map(mapActivityRow);
+  }
+
+  async getActivityCount(userId: string, itemId?: string, reason?: ActivityReason): Promise<number> {
+    const db = this.getDatabase();
+
+    let query = 'SELECT COUNT(*) as count FROM activities WHERE user_id = ?';
+    const params: string[] = [userId];
+
+    if (itemId) {
+      query += ' AND item_id = ?';
+      params.push(itemId);
+    }
+
+    if (reason) {
+      query += ' AND reason = ?';
+      params.push(reason);
+    }
+
+    const stmt = db.prepare(query);
+    const result = stmt.get(...params) as { count: number };
+
+    return result.count;
+  }
+
+  async logActivity(
+    userId: string,
+    itemId: string,
+    type: ActivityType,
+    amount: number,
+    source: ActivitySource = 'MANUAL',
+    options: LogActivityOptions = {}
+  ): Promise<Activity | null> {
+    const db = this.getDatabase();
+
+    const item = await this.getItemById(userId, itemId);
+    if (!item) return null;
+
+    // Amounts given in another unit are stored in the item's unit
+    if (options.unit) {
+      amount = convertToItemUnit(amount, options.unit, item);
+    }
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    // Calculate quantity adjustment based on activity type
+    let quantityAdjustment = 0;
+    let actualAmount = amount;
+
+    switch (type) {
+      case 'ADD':
+        quantityAdjustment = amount;
+        break;
+      case 'REMOVE':
+        quantityAdjustment = -amount;
+        // Cap removal at available quantity
+        actualAmount = Math.min(amount, item.quantity);
+        break;
+      case 'ADJUST':
+        // For ADJUST, amount represents the delta (positive or negative)
+        quantityAdjustment = amount;
+        actualAmount = Math.abs(amount);
+        break;
+    }
+
+    // Use transaction for atomicity
+    const transaction = db.transaction(() => {
+      // Create activity record with denormalized item name
+      const activityStmt = db.prepare(`
+        INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, reason, performed_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      activityStmt.run(
+        id,
+        userId,
+        itemId,
+        item.name,
+        type,
+        actualAmount,
+        now,
+        source,
+        options.reason || null,
+        options.performedBy || null
+      );
+
+      // Update item quantity
+      const newQuantity = Math.max(0, item.quantity + quantityAdjustment);
+      const updateStmt = db.prepare(`
+        UPDATE pantry_items 
+        SET quantity = ?, last_updated = ? 
+        WHERE user_id = ? AND id = ?
+      `);
+
+      updateStmt.run(newQuantity, now, userId, itemId);
+
+      // Open a lot for added stock, or draw down lots for removed stock
+      this.applyLotDelta(userId, itemId, newQuantity - item.quantity, source, options, now);
+      this.syncLowStock(userId, itemId, now);
+
+      return {
+        id,
+        userId,
+        itemId,
+        itemName: item.name,
+        type,
+        amount: actualAmount,
+        timestamp: now,
+        source,
+        reason: options.reason,
+        performedBy: options.performedBy,
+      };
+    });
+
+    return transaction();
+  }
+
+  // ==========================================================================
+  // Shopping List Operations
+  // ==========================================================================
+
+  async getShoppingList(userId: string, checked?: boolean): Promise<ShoppingListItem[]> {
+    const db = this.getDatabase();
+
+    let query = 'SELECT * FROM shopping_list_items WHERE user_id = ?';
+    const params: (string | number)[] = [userId];
+
+    if (checked !== undefined) {
+      query += ' AND checked = ?';
+      params.push(checked ? 1 : 0);
+    }
+
+    query += ' ORDER BY checked ASC, category COLLATE NOCASE, name COLLATE NOCASE';
+
+    const rows = db.prepare(query).all(...params) as ShoppingListItemRow[];
+
+    return rows.map(mapShoppingListItemRow);
+  }
+
+  async getShoppingListItemById(userId: string, id: string): Promise<ShoppingListItem | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM shopping_list_items WHERE user_id = ? AND id = ?')
+      .get(userId, id) as ShoppingListItemRow | undefined;
+
+    return row ? mapShoppingListItemRow(row) : null;
+  }
+
+  async addShoppingListItem(userId: string, input: AddShoppingListItemInput): Promise<ShoppingListItem> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO shopping_list_items (id, user_id, item_id, name, quantity, unit, category, barcode, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'MANUAL', ?, ?)
+    `).run(
+      id,
+      userId,
+      input.itemId || null,
+      input.name,
+      input.quantity,
+      input.unit || null,
+      input.category || null,
+      input.barcode || null,
+      now,
+      now
+    );
+
+    return {
+      id,
+      userId,
+      itemId: input.itemId,
+      name: input.name,
+      quantity: input.quantity,
+      unit: input.unit,
+      category: input.category,
+      barcode: input.barcode,
+      checked: false,
+      source: 'MANUAL',
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async updateShoppingListItem(
+    userId: string,
+    id: string,
+    input: UpdateShoppingListItemInput
+  ): Promise<ShoppingListItem | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      params.push(input.name);
+    }
+    if (input.quantity !== undefined) {
+      updates.push('quantity = ?');
+      params.push(input.quantity);
+    }
+    if (input.unit !== undefined) {
+      updates.push('unit = ?');
+      params.push(input.unit);
+    }
+    if (input.category !== undefined) {
+      updates.push('category = ?');
+      params.push(input.category);
+    }
+    if (input.checked !== undefined) {
+      updates.push('checked = ?', 'checked_at = ?');
+      params.push(input.checked ? 1 : 0, input.checked ? now : null);
+    }
+
+    updates.push('updated_at = ?');
+    params.push(now, userId, id);
+
+    const result = db.prepare(
+      `UPDATE shopping_list_items SET ${updates.join(', ')} WHERE user_id = ? AND id = ?`
+    ).run(...params);
+
+    if (result.changes === 0) return null;
+
+    return this.getShoppingListItemById(userId, id);
+  }
+
+  async deleteShoppingListItem(userId: string, id: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM shopping_list_items WHERE user_id = ? AND id = ?').run(userId, id);
+
+    return result.changes > 0;
+  }
+
+  async deleteShoppingListItems(userId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const db = this.getDatabase();
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const result = db.prepare(
+      `DELETE FROM shopping_list_items WHERE user_id = ? AND id IN (${placeholders})`
+    ).run(userId, ...ids);
+
+    return result.changes;
+  }
+
+  // ==========================================================================
+  // Household Operations
+  // ==========================================================================
+
+  /**
+   * Re-key every inventory row from one owner to another
+   * Callers run this inside the transaction that creates or dissolves a household.
+   */
+  private transferInventory(fromOwnerId: string, toOwnerId: string): void {
+    const db = this.getDatabase();
+
+    for (const table of INVENTORY_TABLES) {
+      db.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id = ?`).run(toOwnerId, fromOwnerId);
+    }
+  }
+
+  async createHousehold(ownerId: string, name: string): Promise<Household> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const inviteCode = generateInviteCode();
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO households (id, name, owner_id, invite_code, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, name, ownerId, inviteCode, now, now);
+
+      db.prepare(`
+        INSERT INTO household_members (household_id, user_id, role, joined_at)
+        VALUES (?, ?, 'owner', ?)
+      `).run(id, ownerId, now);
+
+      this.transferInventory(ownerId, id);
+    })();
+
+    return { id, name, ownerId, inviteCode, createdAt: now, updatedAt: now };
+  }
+
+  async getHouseholdById(householdId: string): Promise<Household | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM households WHERE id = ?').get(householdId) as HouseholdRow | undefined;
+
+    return row ? mapHouseholdRow(row) : null;
+  }
+
+  async getHouseholdByInviteCode(inviteCode: string): Promise<Household | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM households WHERE invite_code = ?')
+      .get(inviteCode.toUpperCase()) as HouseholdRow | undefined;
+
+    return row ? mapHouseholdRow(row) : null;
+  }
+
+  async getHouseholdForUser(userId: string): Promise<HouseholdMembership | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare(`
+      SELECT h.*, m.role AS member_role
+      FROM household_members m
+      JOIN households h ON h.id = m.household_id
+      WHERE m.user_id = ?
+    `).get(userId) as (HouseholdRow & { member_role: HouseholdRole }) | undefined;
+
+    return row ? { household: mapHouseholdRow(row), role: row.member_role } : null;
+  }
+
+  async updateHouseholdName(householdId: string, name: string): Promise<Household | null> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('UPDATE households SET name = ?, updated_at = ? WHERE id = ?')
+      .run(name, new Date().toISOString(), householdId);
+
+    return result.changes > 0 ? this.getHouseholdById(householdId) : null;
+  }
+
+  async regenerateHouseholdInviteCode(householdId: string): Promise<Household | null> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('UPDATE households SET invite_code = ?, updated_at = ? WHERE id = ?')
+      .run(generateInviteCode(), new Date().toISOString(), householdId);
+
+    return result.changes > 0 ? this.getHouseholdById(householdId) : null;
+  }
+
+  async deleteHousehold(householdId: string, inventoryOwnerId: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    return db.transaction(() => {
+      this.transferInventory(householdId, inventoryOwnerId);
+      return db.prepare('DELETE FROM households WHERE id = ?').run(householdId).changes > 0;
+    })();
+  }
+
+  async getHouseholdMembers(householdId: string): Promise<HouseholdMember[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare(`
+      SELECT * FROM household_members
+      WHERE household_id = ?
+      ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, joined_at ASC
+    `).all(householdId) as HouseholdMemberRow[];
+
+    return rows.map(mapHouseholdMemberRow);
+  }
+
+  async addHouseholdMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO household_members (household_id, user_id, role, joined_at)
+      VALUES (?, ?, ?, ?)
+    `).run(householdId, userId, role, now);
+
+    return { householdId, userId, role, joinedAt: now };
+  }
+
+  async updateHouseholdMemberRole(
+    householdId: string,
+    userId: string,
+    role: HouseholdRole
+  ): Promise<HouseholdMember | null> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('UPDATE household_members SET role = ? WHERE household_id = ? AND user_id = ?')
+      .run(role, householdId, userId);
+    if (result.changes === 0) return null;
+
+    const row = db.prepare('SELECT * FROM household_members WHERE household_id = ? AND user_id = ?')
+      .get(householdId, userId) as HouseholdMemberRow;
+
+    return mapHouseholdMemberRow(row);
+  }
+
+  async removeHouseholdMember(householdId: string, userId: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM household_members WHERE household_id = ? AND user_id = ?')
+      .run(householdId, userId);
+
+    return result.changes > 0;
+  }
+
+  async createHouseholdInvite(householdId: string, input: CreateHouseholdInviteInput): Promise<HouseholdInvite> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const token = generateInviteToken();
+
+    db.prepare(`
+      INSERT INTO household_invites (id, household_id, email, role, token, invited_by, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, householdId, input.email, input.role, token, input.invitedBy, input.expiresAt, now);
+
+    return {
+      id,
+      householdId,
+      email: input.email,
+      role: input.role,
+      token,
+      invitedBy: input.invitedBy,
+      expiresAt: input.expiresAt,
+      createdAt: now,
+    };
+  }
+
+  async getHouseholdInviteByToken(token: string): Promise<HouseholdInvite | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM household_invites WHERE token = ?').get(token) as HouseholdInviteRow | undefined;
+
+    return row ? mapHouseholdInviteRow(row) : null;
+  }
+
+  async getPendingHouseholdInvites(householdId: string): Promise<HouseholdInvite[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare(`
+      SELECT * FROM household_invites
+      WHERE household_id = ? AND accepted_at IS NULL
+      ORDER BY created_at DESC
+    `).all(householdId) as HouseholdInviteRow[];
+
+    return rows.map(mapHouseholdInviteRow);
+  }
+
+  async markHouseholdInviteAccepted(inviteId: string, userId: string): Promise<void> {
+    const db = this.getDatabase();
+
+    db.prepare('UPDATE household_invites SET accepted_at = ?, accepted_by = ? WHERE id = ?')
+      .run(new Date().toISOString(), userId, inviteId);
+  }
+
+  async deleteHouseholdInvite(householdId: string, inviteId: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM household_invites WHERE household_id = ? AND id = ?')
+      .run(householdId, inviteId);
+
+    return result.changes > 0;
+  }
+
+  // ==========================================================================
+  // Recipe Operations
+  // ==========================================================================
+
+  private insertRecipeIngredients(recipeId: string, ingredients: RecipeIngredientInput[]): void {
+    const db = this.getDatabase();
+
+    const stmt = db.prepare(`
+      INSERT INTO recipe_ingredients (id, recipe_id, position, name, quantity, unit)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    ingredients.forEach((ingredient, position) => {
+      stmt.run(uuidv4(), recipeId, position, ingredient.name, ingredient.quantity ?? null, ingredient.unit || null);
+    });
+  }
+
+  async getRecipes(userId: string): Promise<Recipe[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare('SELECT * FROM recipes WHERE user_id = ? ORDER BY name ASC').all(userId) as RecipeRow[];
+    if (rows.length === 0) return [];
+
+    const ingredientRows = db.prepare(`
+      SELECT ri.* FROM recipe_ingredients ri
+      JOIN recipes r ON r.id = ri.recipe_id
+      WHERE r.user_id = ?
+      ORDER BY ri.recipe_id, ri.position ASC
+    `).all(userId) as RecipeIngredientRow[];
+
+    const byRecipe = new Map<string, RecipeIngredient[]>();
+    for (const row of ingredientRows) {
+      const lines = byRecipe.get(row.recipe_id) ?? [];
+      lines.push(mapRecipeIngredientRow(row));
+      byRecipe.set(row.recipe_id, lines);
+    }
+
+    return rows.map((row) => mapRecipeRow(row, byRecipe.get(row.id) ?? []));
+  }
+
+  async getRecipeById(userId: string, id: string): Promise<Recipe | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM recipes WHERE user_id = ? AND id = ?').get(userId, id) as RecipeRow | undefined;
+    if (!row) return null;
+
+    const ingredientRows = db.prepare(
+      'SELECT * FROM recipe_ingredients WHERE recipe_id = ? ORDER BY position ASC'
+    ).all(id) as RecipeIngredientRow[];
+
+    return mapRecipeRow(row, ingredientRows.map(mapRecipeIngredientRow));
+  }
+
+  async createRecipe(userId: string, input: CreateRecipeInput): Promise<Recipe> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO recipes (id, user_id, name, description, servings, instructions, source_url, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        userId,
+        input.name,
+        input.description || null,
+        input.servings ?? null,
+        input.instructions || null,
+        input.sourceUrl || null,
+        now,
+        now
+      );
+
+      this.insertRecipeIngredients(id, input.ingredients);
+    })();
+
+    return (await this.getRecipeById(userId, id))!;
+  }
+
+  async updateRecipe(userId: string, id: string, input: UpdateRecipeInput): Promise<Recipe | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+
+    if (input.name !== undefined) {
+      updates.push('name = ?');
+      params.push(input.name);
+    }
+    if (input.description !== undefined) {
+      updates.push('description = ?');
+      params.push(input.description);
+    }
+    if (input.servings !== undefined) {
+      updates.push('servings = ?');
+      params.push(input.servings);
+    }
+    if (input.instructions !== undefined) {
+      updates.push('instructions = ?');
+      params.push(input.instructions);
+    }
+    if (input.sourceUrl !== undefined) {
+      updates.push('source_url = ?');
+      params.push(input.sourceUrl);
+    }
+
+    updates.push('updated_at = ?');
+    params.push(now, userId, id);
+
+    const updated = db.transaction(() => {
+      const result = db.prepare(
+        `UPDATE recipes SET ${updates.join(', ')} WHERE user_id = ? AND id = ?`
+      ).run(...params);
+
+      if (result.changes === 0) return false;
+
+      if (input.ingredients) {
+        db.prepare('DELETE FROM recipe_ingredients WHERE recipe_id = ?').run(id);
+        this.insertRecipeIngredients(id, input.ingredients);
+      }
+
+      return true;
+    })();
+
+    return updated ? this.getRecipeById(userId, id) : null;
+  }
+
+  async deleteRecipe(userId: string, id: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM recipes WHERE user_id = ? AND id = ?').run(userId, id);
+
+    return result.changes > 0;
+  }
+
+  // ==========================================================================
+  // Meal Plan Operations
+  // ==========================================================================
+
+  private insertMealPlanIngredients(entryId: string, ingredients: RecipeIngredientInput[]): void {
+    const db = this.getDatabase();
+
+    const stmt = db.prepare(`
+      INSERT INTO meal_plan_ingredients (id, entry_id, position, name, quantity, unit)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    ingredients.forEach((ingredient, position) => {
+      stmt.run(uuidv4(), entryId, position, ingredient.name, ingredient.quantity ?? null, ingredient.unit || null);
+    });
+  }
+
+  async getMealPlan(userId: string, from?: string, to?: string): Promise<MealPlanEntry[]> {
+    const db = this.getDatabase();
+
+    let where = 'user_id = ?';
+    const params: string[] = [userId];
+
+    if (from) {
+      where += ' AND date >= ?';
+      params.push(from);
+    }
+
+    if (to) {
+      where += ' AND date <= ?';
+      params.push(to);
+    }
+
+    const rows = db.prepare(
+      `SELECT * FROM meal_plan_entries WHERE ${where} ORDER BY date ASC, ${MEAL_SLOT_ORDER}, created_at ASC`
+    ).all(...params) as MealPlanEntryRow[];
+    if (rows.length === 0) return [];
+
+    const ingredientRows = db.prepare(`
+      SELECT * FROM meal_plan_ingredients
+      WHERE entry_id IN (SELECT id FROM meal_plan_entries WHERE ${where})
+      ORDER BY entry_id, position ASC
+    `).all(...params) as MealPlanIngredientRow[];
+
+    const byEntry = new Map<string, MealPlanIngredient[]>();
+    for (const row of ingredientRows) {
+      const lines = byEntry.get(row.entry_id) ?? [];
+      lines.push(mapMealPlanIngredientRow(row));
+      byEntry.set(row.entry_id, lines);
+    }
+
+    return rows.map((row) => mapMealPlanEntryRow(row, byEntry.get(row.id) ?? []));
+  }
+
+  async getMealPlanEntryById(userId: string, id: string): Promise<MealPlanEntry | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM meal_plan_entries WHERE user_id = ? AND id = ?')
+      .get(userId, id) as MealPlanEntryRow | undefined;
+    if (!row) return null;
+
+    const ingredientRows = db.prepare(
+      'SELECT * FROM meal_plan_ingredients WHERE entry_id = ? ORDER BY position ASC'
+    ).all(id) as MealPlanIngredientRow[];
+
+    return mapMealPlanEntryRow(row, ingredientRows.map(mapMealPlanIngredientRow));
+  }
+
+  async createMealPlanEntry(userId: string, input: CreateMealPlanEntryInput): Promise<MealPlanEntry> {
+    const db = this.getDatabase();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO meal_plan_entries (id, user_id, date, slot, recipe_id, title, servings, notes, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        userId,
+        input.date,
+        input.slot,
+        input.recipeId || null,
+        input.title,
+        input.servings ?? null,
+        input.notes || null,
+        now,
+        now
+      );
+
+      this.insertMealPlanIngredients(id, input.ingredients);
+    })();
+
+    return (await this.getMealPlanEntryById(userId, id))!;
+  }
+
+  async updateMealPlanEntry(
+    userId: string,
+    id: string,
+    input: UpdateMealPlanEntryInput
+  ): Promise<MealPlanEntry | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const updates: string[] = [];
+    const params: (string | number | null)[] = [];
+
+    if (input.date !== undefined) {
+      updates.push('date = ?');
+      params.push(input.date);
+    }
+    if (input.slot !== undefined) {
+      updates.push('slot = ?');
+      params.push(input.slot);
+    }
+    if (input.recipeId !== undefined) {
+      updates.push('recipe_id = ?');
+      params.push(input.recipeId);
+    }
+    if (input.title !== undefined) {
+      updates.push('title = ?');
+      params.push(input.title);
+    }
+    if (input.servings !== undefined) {
+      updates.push('servings = ?');
+      params.push(input.servings);
+    }
+    if (input.notes !== undefined) {
+      updates.push('notes = ?');
+      params.push(input.notes);
+    }
+
+    updates.push('updated_at = ?');
+    params.push(now, userId, id);
+
+    const updated = db.transaction(() => {
+      const result = db.prepare(
+        `UPDATE meal_plan_entries SET ${updates.join(', ')} WHERE user_id = ? AND id = ?`
+      ).run(...params);
+
+      if (result.changes === 0) return false;
+
+      if (input.ingredients) {
+        db.prepare('DELETE FROM meal_plan_ingredients WHERE entry_id = ?').run(id);
+        this.insertMealPlanIngredients(id, input.ingredients);
+      }
+
+      return true;
+    })();
+
+    return updated ? this.getMealPlanEntryById(userId, id) : null;
+  }
+
+  async deleteMealPlanEntry(userId: string, id: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM meal_plan_entries WHERE user_id = ? AND id = ?').run(userId, id);
+
+    return result.changes > 0;
+  }
+
+  // ==========================================================================
+  // Scan Receipt Operations
+  // ==========================================================================
+
+  processReceiptScan(rawData: string | ScanResult[]): ScanResult[] {
+    // If already structured data, validate and return
+    if (Array.isArray(rawData)) {
+      return rawData.filter((item) => item.name && item.quantity >= 0);
+    }
+
+    // Simple text parsing (mock implementation)
+    return this.parseReceiptText(rawData);
+  }
+
+  private parseReceiptText(text: string): ScanResult[] {
+    const lines = text.split('\n').filter((line) => line.trim());
+    const results: ScanResult[] = [];
+
+    for (const line of lines) {
+      // Simple parsing: look for patterns like "Item Name $X.XX" or "Item Name X qty"
+      const match = line.match(/(.+?)\s+(?:\$?(\d+\.\d+)|\d+)\s*(\w+)?/i);
+      if (match) {
+        const name = match[1].trim();
+        const category = this.inferCategory(name);
+        
+        results.push({
+          name,
+          quantity: 1,
+          unit: match[3] || 'pieces',
+          category,
+          price: match[2] ? parseFloat(match[2]) : undefined,
+        });
+      }
+    }
 
     return results;
   }
@@ -625,7 +2667,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
   async processVisualUsage(
     userId: string,
     detections: UsageResult[],
-    source: string = 'VISUAL_USAGE'
+    source: string = 'VISUAL_USAGE',
+    performedBy?: string
   ): Promise<{ processed: UsageResult[]; activities: Activity[]; errors: string[] }> {
     const results = {
       processed: [] as UsageResult[],
@@ -634,8 +2677,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
     };
 
     for (const detection of detections) {
-      // Try to find matching item by name for this user
-      const item = await this.getItemByName(userId, detection.name);
+      // Find the item the detected name refers to for this user
+      const item = await this.findItemMatch(userId, detection.name, detection.locationId);
 
       if (!item) {
         results.errors.push(`Item not found: ${detection.name}`);
@@ -643,13 +2686,21 @@ export class SQLiteAdapter implements DatabaseAdapter {
       }
 
       // Create REMOVE activity
-      const activity = await this.logActivity(
-        userId,
-        item.id,
-        'REMOVE',
-        detection.quantityUsed,
-        source as ActivitySource
-      );
+      let activity: Activity | null;
+      try {
+        activity = await this.logActivity(
+          userId,
+          item.id,
+          'REMOVE',
+          detection.quantityUsed,
+          source as ActivitySource,
+          { reason: 'CONSUMED', performedBy, unit: detection.unit }
+        );
+      } catch (err) {
+        if (!isIncompatibleUnitsError(err)) throw err;
+        results.errors.push(err.message);
+        continue;
+      }
 
       if (activity) {
         results.processed.push(detection);
@@ -684,9 +2735,49 @@ export class SQLiteAdapter implements DatabaseAdapter {
     });
   }
 
-  transaction<T>(fn: () => T): T {
+  async transaction<T>(fn: () => Promise<T> | T): Promise<T> {
     const db = this.getDatabase();
-    return db.transaction(fn)();
+
+    // Called from inside fn: join the open transaction as a savepoint
+    if (this.transactionScope.getStore()) {
+      db.exec('SAVEPOINT nested_transaction');
+
+      try {
+        const result = await fn();
+        db.exec('RELEASE SAVEPOINT nested_transaction');
+        return result;
+      } catch (err) {
+        db.exec('ROLLBACK TO SAVEPOINT nested_transaction');
+        db.exec('RELEASE SAVEPOINT nested_transaction');
+        throw err;
+      }
+    }
+
+    // There is one connection, so transactions take turns: fn awaits, and
+    // another BEGIN in the meantime would fail or end up inside this one
+    const previous = this.transactionQueue;
+    let finished!: () => void;
+    this.transactionQueue = new Promise<void>((resolve) => {
+      finished = resolve;
+    });
+    await previous;
+
+    try {
+      // Adapter methods open their own db.transaction() blocks, which
+      // better-sqlite3 nests as savepoints while this one is open
+      db.exec('BEGIN');
+
+      try {
+        const result = await this.transactionScope.run(true, fn);
+        db.exec('COMMIT');
+        return result;
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      finished();
+    }
   }
 
   // ==========================================================================
@@ -704,9 +2795,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
       const stmt = db.prepare(
         `SELECT * FROM product_cache 
-         WHERE barcode = ? AND info_last_synced >= ?`
+         WHERE barcode = ? AND info_last_synced >= ? AND source != ?`
       );
-      const row = stmt.get(barcode, cutoffIso) as {
+      const row = stmt.get(barcode, cutoffIso, PENDING_PRODUCT_SOURCE) as {
         barcode: string;
         name: string;
         brand?: string;
@@ -715,6 +2806,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         ingredients?: string;
         nutrition?: string;
         source: string;
+        provenance?: string | null;
         info_last_synced: string;
       } | undefined;
 
@@ -728,6 +2820,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
           ingredients: row.ingredients,
           nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
           source: row.source,
+          provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
           infoLastSynced: row.info_last_synced,
         };
       }
@@ -735,8 +2828,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
 
     // No age limit - return any cached product
-    const stmt = db.prepare('SELECT * FROM product_cache WHERE barcode = ?');
-    const row = stmt.get(barcode) as {
+    const stmt = db.prepare('SELECT * FROM product_cache WHERE barcode = ? AND source != ?');
+    const row = stmt.get(barcode, PENDING_PRODUCT_SOURCE) as {
       barcode: string;
       name: string;
       brand?: string;
@@ -745,6 +2838,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       ingredients?: string;
       nutrition?: string;
       source: string;
+      provenance?: string | null;
       info_last_synced: string;
     } | undefined;
 
@@ -759,6 +2853,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       ingredients: row.ingredients,
       nutrition: row.nutrition ? JSON.parse(row.nutrition) : undefined,
       source: row.source,
+      provenance: row.provenance ? JSON.parse(row.provenance) : undefined,
       infoLastSynced: row.info_last_synced,
     };
   }
@@ -770,8 +2865,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const stmt = db.prepare(`
       INSERT INTO product_cache (
         barcode, name, brand, category, image_url, ingredients, 
-        nutrition, source, info_last_synced, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        nutrition, source, provenance, info_last_synced, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(barcode) DO UPDATE SET
         name = excluded.name,
         brand = excluded.brand,
@@ -780,8 +2875,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
         ingredients = excluded.ingredients,
         nutrition = excluded.nutrition,
         source = excluded.source,
+        provenance = excluded.provenance,
         info_last_synced = excluded.info_last_synced,
-        updated_at = excluded.updated_at
+        updated_at = excluded.updated_at,
+        needs_sync = 0,
+        sync_retry_count = 0,
+        last_error = NULL,
+        sync_after = NULL
     `);
 
     stmt.run(
@@ -793,11 +2893,44 @@ export class SQLiteAdapter implements DatabaseAdapter {
       input.ingredients || null,
       input.nutrition ? JSON.stringify(input.nutrition) : null,
       input.source,
+      input.provenance ? JSON.stringify(input.provenance) : null,
       now,
       now
     );
   }
 
+  async listStoredBarcodes(): Promise<string[]> {
+    const db = this.getDatabase();
+    const rows = db.prepare(
+      ['product_cache', ...BARCODE_TABLES]
+        .map((table) => `SELECT barcode FROM ${table} WHERE barcode IS NOT NULL`)
+        .join(' UNION ')
+    ).all() as Array<{ barcode: string }>;
+
+    return rows.map((row) => row.barcode);
+  }
+
+  async renameBarcode(from: string, to: string): Promise<void> {
+    const db = this.getDatabase();
+    const lastSynced = (barcode: string) => (
+      db.prepare('SELECT info_last_synced FROM product_cache WHERE barcode = ?').get(barcode) as
+        { info_last_synced: string } | undefined
+    )?.info_last_synced;
+
+    db.transaction(() => {
+      const fromSynced = lastSynced(from);
+      const toSynced = lastSynced(to);
+      if (fromSynced && toSynced) {
+        db.prepare('DELETE FROM product_cache WHERE barcode = ?').run(fromSynced > toSynced ? to : from);
+      }
+      db.prepare('UPDATE product_cache SET barcode = ? WHERE barcode = ?').run(to, from);
+
+      for (const table of BARCODE_TABLES) {
+        db.prepare(`UPDATE ${table} SET barcode = ? WHERE barcode = ?`).run(to, from);
+      }
+    })();
+  }
+
   // ==========================================================================
   // Client Error Operations
   // ==========================================================================
@@ -883,6 +3016,89 @@ export class SQLiteAdapter implements DatabaseAdapter {
     stmt.run(id);
   }
 
+  // ==========================================================================
+  // Role Operations
+  // ==========================================================================
+
+  async getUserRoles(userId: string): Promise<UserRole[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare('SELECT role FROM user_roles WHERE user_id = ?').all(userId) as Array<{ role: UserRole }>;
+
+    return rows.map((row) => row.role);
+  }
+
+  async getRoleAssignments(): Promise<RoleAssignment[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare('SELECT * FROM user_roles ORDER BY granted_at DESC').all() as RoleAssignmentRow[];
+
+    return rows.map(mapRoleAssignmentRow);
+  }
+
+  async grantRole(userId: string, role: UserRole, grantedBy: string): Promise<RoleAssignment | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    return db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO user_roles (user_id, role, granted_by, granted_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(user_id, role) DO NOTHING
+      `).run(userId, role, grantedBy, now);
+
+      if (result.changes === 0) return null;
+
+      this.logRoleChange(userId, role, 'GRANT', grantedBy, now);
+      return { userId, role, grantedBy, grantedAt: now };
+    })();
+  }
+
+  async revokeRole(userId: string, role: UserRole, revokedBy: string): Promise<boolean> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    return db.transaction(() => {
+      const result = db.prepare('DELETE FROM user_roles WHERE user_id = ? AND role = ?').run(userId, role);
+
+      if (result.changes === 0) return false;
+
+      this.logRoleChange(userId, role, 'REVOKE', revokedBy, now);
+      return true;
+    })();
+  }
+
+  async getRoleAuditLog(limit: number, offset: number, userId?: string): Promise<RoleAuditEntry[]> {
+    const db = this.getDatabase();
+
+    let query = 'SELECT * FROM role_audit_log';
+    const params: unknown[] = [];
+
+    if (userId) {
+      query += ' WHERE user_id = ?';
+      params.push(userId);
+    }
+
+    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const rows = db.prepare(query).all(...params) as RoleAuditEntryRow[];
+
+    return rows.map(mapRoleAuditEntryRow);
+  }
+
+  /**
+   * Record a role change (runs inside the caller's transaction)
+   */
+  private logRoleChange(userId: string, role: UserRole, action: RoleAuditAction, performedBy: string, now: string): void {
+    const db = this.getDatabase();
+
+    db.prepare(`
+      INSERT INTO role_audit_log (id, user_id, role, action, performed_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(uuidv4(), userId, role, action, performedBy, now);
+  }
+
   // ==========================================================================
   // Shopping Session Operations
   // ==========================================================================
@@ -1012,8 +3228,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
     // Insert item
     const insertStmt = db.prepare(`
       INSERT INTO session_items (
-        id, session_id, barcode, name, quantity, unit, price, category, added_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, session_id, barcode, name, quantity, unit, price, category, best_before, added_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     insertStmt.run(
@@ -1025,6 +3241,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       input.unit || null,
       input.price || null,
       input.category || null,
+      input.bestBefore || null,
       now,
       now
     );
@@ -1049,6 +3266,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       unit: input.unit,
       price: input.price,
       category: input.category,
+      bestBefore: input.bestBefore,
       addedAt: now,
       updatedAt: now,
     };
@@ -1115,6 +3333,12 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const totalsResult = itemsStmt.get(sessionId) as { total: number | null } | undefined;
     const finalTotal = totalsResult?.total || sessionRow.total_amount;
 
+    // A receipt already read dates the session by purchase, not by now
+    const receiptRow = db.prepare(
+      'SELECT header FROM session_receipts WHERE session_id = ? AND header IS NOT NULL ORDER BY captured_at DESC LIMIT 1'
+    ).get(sessionId) as { header: string } | undefined;
+    const completedAt = (receiptRow && purchaseTimestamp(JSON.parse(receiptRow.header))) || now;
+
     // Update session
     const updateStmt = db.prepare(`
       UPDATE shopping_sessions 
@@ -1128,7 +3352,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
     `);
 
     updateStmt.run(
-      now,
+      completedAt,
       finalTotal,
       input.receiptUrl || null,
       input.notes || null,
@@ -1137,6 +3361,26 @@ export class SQLiteAdapter implements DatabaseAdapter {
       userId
     );
 
+    // Record what was paid for each priced item
+    const pricedItems = db
+      .prepare('SELECT * FROM session_items WHERE session_id = ? AND price > 0')
+      .all(sessionId) as SessionItemRow[];
+    this.insertPrices(
+      userId,
+      pricedItems.map((item) => ({
+        barcode: item.barcode || undefined,
+        name: item.name,
+        price: item.price!,
+        quantity: item.quantity,
+        unit: item.unit || undefined,
+        storeName: sessionRow.store_name || undefined,
+        source: 'SHOPPING_SESSION' as const,
+        sessionId,
+        observedAt: completedAt,
+      })),
+      now
+    );
+
     // Log shopping session activity
     const activityId = uuidv4();
     const metadata = JSON.stringify({
@@ -1145,8 +3389,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
       storeName: sessionRow.store_name
     });
     const activityStmt = db.prepare(`
-      INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, metadata)
-      VALUES (?, ?, NULL, ?, 'SHOPPING_SESSION', ?, ?, 'SHOPPING_SESSION', ?)
+      INSERT INTO activities (id, user_id, item_id, item_name, type, amount, timestamp, source, performed_by, metadata)
+      VALUES (?, ?, NULL, ?, 'SHOPPING_SESSION', ?, ?, 'SHOPPING_SESSION', ?, ?)
     `);
     activityStmt.run(
       activityId,
@@ -1154,6 +3398,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       `Shopping Session (${sessionRow.store_name || 'Unknown Store'})`,
       finalTotal,
       now,
+      input.performedBy || null,
       metadata
     );
 
@@ -1237,9 +3482,145 @@ export class SQLiteAdapter implements DatabaseAdapter {
     };
   }
 
+  async getSessionSpend(userId: string, fromDate: string, toDate: string): Promise<SessionSpend[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare(`
+      SELECT
+        s.id,
+        s.store_name,
+        s.completed_at,
+        s.total_amount,
+        si.category,
+        SUM(si.price * si.quantity) AS amount
+      FROM shopping_sessions s
+      LEFT JOIN session_items si ON si.session_id = s.id AND si.price IS NOT NULL
+      WHERE s.user_id = ?
+        AND s.status = 'completed'
+        AND substr(s.completed_at, 1, 10) >= ?
+        AND substr(s.completed_at, 1, 10) <= ?
+      GROUP BY s.id, si.category
+      ORDER BY s.completed_at ASC, s.id
+    `).all(userId, fromDate, toDate) as Array<{
+      id: string;
+      store_name: string | null;
+      completed_at: string;
+      total_amount: number | null;
+      category: string | null;
+      amount: number | null;
+    }>;
+
+    const sessions = new Map<string, SessionSpend>();
+    for (const row of rows) {
+      let session = sessions.get(row.id);
+      if (!session) {
+        session = {
+          sessionId: row.id,
+          storeName: row.store_name || undefined,
+          completedAt: row.completed_at,
+          totalAmount: row.total_amount || 0,
+          categories: [],
+        };
+        sessions.set(row.id, session);
+      }
+
+      if (row.amount !== null) {
+        session.categories.push({ category: row.category || undefined, amount: row.amount });
+      }
+    }
+
+    return [...sessions.values()];
+  }
+
+  async applySessionFixes(
+    userId: string,
+    sessionId: string,
+    fixes: ReconciliationFix[]
+  ): Promise<ShoppingSessionWithItems | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const sessionRow = db
+      .prepare('SELECT * FROM shopping_sessions WHERE id = ? AND user_id = ? AND status = ?')
+      .get(sessionId, userId, 'completed') as ShoppingSessionRow | undefined;
+
+    if (!sessionRow) {
+      return null;
+    }
+
+    const updatePrice = db.prepare(
+      'UPDATE session_items SET price = ?, updated_at = ? WHERE id = ? AND session_id = ?'
+    );
+    const deleteItem = db.prepare('DELETE FROM session_items WHERE id = ? AND session_id = ?');
+    const insertItem = db.prepare(`
+      INSERT INTO session_items (
+        id, session_id, barcode, name, quantity, unit, price, category, best_before, added_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const fix of fixes) {
+        if (fix.type === 'UPDATE_PRICE') {
+          updatePrice.run(fix.price, now, fix.sessionItemId, sessionId);
+        } else if (fix.type === 'REMOVE_ITEM') {
+          deleteItem.run(fix.sessionItemId, sessionId);
+        } else {
+          insertItem.run(
+            uuidv4(),
+            sessionId,
+            fix.barcode || null,
+            fix.name,
+            fix.quantity,
+            fix.unit || null,
+            fix.price,
+            fix.category || null,
+            now,
+            now
+          );
+        }
+      }
+
+      // Recompute totals from the corrected items
+      const totals = db
+        .prepare('SELECT COALESCE(SUM(price * quantity), 0) AS total, COUNT(*) AS count FROM session_items WHERE session_id = ?')
+        .get(sessionId) as { total: number; count: number };
+      db.prepare(`
+        UPDATE shopping_sessions
+        SET total_amount = ?,
+            item_count = ?,
+            updated_at = ?
+        WHERE id = ?
+      `).run(totals.total, totals.count, now, sessionId);
+
+      // Replace the prices recorded at completion with the corrected ones
+      db.prepare('DELETE FROM price_observations WHERE user_id = ? AND session_id = ?').run(userId, sessionId);
+      const pricedItems = db
+        .prepare('SELECT * FROM session_items WHERE session_id = ? AND price > 0')
+        .all(sessionId) as SessionItemRow[];
+      this.insertPrices(
+        userId,
+        pricedItems.map((item) => ({
+          barcode: item.barcode || undefined,
+          name: item.name,
+          price: item.price!,
+          quantity: item.quantity,
+          unit: item.unit || undefined,
+          storeName: sessionRow.store_name || undefined,
+          source: 'SHOPPING_SESSION' as const,
+          sessionId,
+          observedAt: sessionRow.completed_at || now,
+        })),
+        now
+      );
+    })();
+
+    return this.getSessionById(userId, sessionId);
+  }
+
   async addSessionToInventory(
     userId: string,
-    sessionId: string
+    sessionId: string,
+    performedBy?: string
   ): Promise<{ items: PantryItem[]; activities: Activity[] }> {
     // Get the session with items
     const session = await this.getSessionById(userId, sessionId);
@@ -1254,61 +3635,226 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const items: PantryItem[] = [];
     const activities: Activity[] = [];
 
-    // Process each session item with a barcode
-    for (const sessionItem of session.items) {
-      if (!sessionItem.barcode) {
-        continue;
-      }
+    // Lots from this trip are dated to when the session was completed
+    const purchaseDate = (session.completedAt || new Date().toISOString()).slice(0, 10);
 
-      // Check if item already exists
-      let existingItem = await this.getItemByBarcode(userId, sessionItem.barcode);
+    // Process each session item with a barcode; one with a unit the pantry
+    // item can't be converted to rolls back the whole trip
+    await this.transaction(async () => {
+      for (const sessionItem of session.items) {
+        if (!sessionItem.barcode) {
+          continue;
+        }
 
-      if (existingItem) {
-        // Update existing item quantity
-        const updatedItem = await this.adjustItemQuantity(
-          userId,
-          existingItem.id,
-          sessionItem.quantity
-        );
-        if (updatedItem) {
-          items.push(updatedItem);
-          // Log ADD activity
-          const activity = await this.logActivity(
-            userId,
-            updatedItem.id,
-            'ADD',
-            sessionItem.quantity,
-            'RECEIPT_SCAN'
-          );
-          if (activity) {
-            activities.push(activity);
-          }
+        // Reuse the existing pantry item, or create an empty one to add to
+        let item = await this.getItemByBarcode(userId, sessionItem.barcode);
+
+        if (!item) {
+          item = await this.createItem(userId, {
+            name: sessionItem.name,
+            quantity: 0,
+            unit: sessionItem.unit || 'pieces',
+            category: sessionItem.category || 'general',
+            barcode: sessionItem.barcode,
+          });
         }
-      } else {
-        // Create new pantry item
-        const newItem = await this.createItem(userId, {
-          name: sessionItem.name,
-          quantity: sessionItem.quantity,
-          unit: sessionItem.unit || 'pieces',
-          category: sessionItem.category || 'general',
-          barcode: sessionItem.barcode,
-        });
-        items.push(newItem);
-        // Log ADD activity
+
+        // Log ADD activity (updates quantity and opens a lot) in the item's unit
         const activity = await this.logActivity(
           userId,
-          newItem.id,
+          item.id,
           'ADD',
           sessionItem.quantity,
-          'RECEIPT_SCAN'
+          'RECEIPT_SCAN',
+          {
+            purchaseDate,
+            bestBefore: sessionItem.bestBefore,
+            performedBy,
+            unit: sessionItem.unit,
+          }
         );
+
         if (activity) {
           activities.push(activity);
+          const updatedItem = await this.getItemById(userId, item.id);
+          if (updatedItem) {
+            items.push(updatedItem);
+          }
         }
       }
+    });
+
+    return { items, activities };
+  }
+
+  // ==========================================================================
+  // Price History Operations
+  // ==========================================================================
+
+  async recordPrices(userId: string, inputs: RecordPriceInput[]): Promise<PriceObservation[]> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    return db.transaction(() => this.insertPrices(userId, inputs, now))();
+  }
+
+  async getPriceHistory(userId: string, filter: PriceHistoryFilter = {}): Promise<PriceObservation[]> {
+    const db = this.getDatabase();
+
+    let query = 'SELECT * FROM price_observations WHERE user_id = ?';
+    const params: unknown[] = [userId];
+
+    if (filter.products) {
+      const nameKeys = [...new Set(filter.products.flatMap((product) => (product.name ? [nameKey(product.name)] : [])))];
+      const barcodes = [...new Set(filter.products.flatMap((product) => (product.barcode ? [product.barcode] : [])))];
+      if (nameKeys.length === 0 && barcodes.length === 0) return [];
+
+      const conditions: string[] = [];
+      if (nameKeys.length > 0) {
+        conditions.push(`name_key IN (${nameKeys.map(() => '?').join(', ')})`);
+        params.push(...nameKeys);
+      }
+      if (barcodes.length > 0) {
+        conditions.push(`barcode IN (${barcodes.map(() => '?').join(', ')})`);
+        params.push(...barcodes);
+      }
+      query += ` AND (${conditions.join(' OR ')})`;
+    }
+
+    if (filter.since) {
+      query += ' AND observed_at >= ?';
+      params.push(filter.since);
+    }
+
+    query += ' ORDER BY observed_at ASC, created_at ASC';
+
+    const rows = db.prepare(query).all(...params) as PriceObservationRow[];
+    return rows.map(mapPriceObservationRow);
+  }
+
+  /**
+   * Insert price observations (runs inside the caller's transaction)
+   */
+  private insertPrices(userId: string, inputs: RecordPriceInput[], now: string): PriceObservation[] {
+    const db = this.getDatabase();
+    const stmt = db.prepare(`
+      INSERT INTO price_observations (
+        id, user_id, product_key, name_key, barcode, name, store_name, price, quantity, unit,
+        unit_price, price_unit, source, session_id, observed_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const observations: PriceObservation[] = [];
+
+    for (const input of inputs) {
+      if (!(input.price > 0)) continue;
+
+      const { unitPrice, priceUnit } = normalizeUnitPrice(input.price, input.unit);
+      const observation: PriceObservation = {
+        id: uuidv4(),
+        userId,
+        productKey: productKey(input.barcode, input.name),
+        nameKey: nameKey(input.name),
+        barcode: input.barcode,
+        name: input.name,
+        storeName: input.storeName?.trim() || undefined,
+        price: input.price,
+        quantity: input.quantity,
+        unit: input.unit,
+        unitPrice,
+        priceUnit,
+        source: input.source,
+        sessionId: input.sessionId,
+        observedAt: input.observedAt || now,
+        createdAt: now,
+      };
+
+      stmt.run(
+        observation.id,
+        userId,
+        observation.productKey,
+        observation.nameKey,
+        observation.barcode || null,
+        observation.name,
+        observation.storeName || null,
+        observation.price,
+        observation.quantity,
+        observation.unit || null,
+        observation.unitPrice,
+        observation.priceUnit,
+        observation.source,
+        observation.sessionId || null,
+        observation.observedAt,
+        now
+      );
+      observations.push(observation);
+    }
+
+    return observations;
+  }
+
+  // ==========================================================================
+  // Budget Operations
+  // ==========================================================================
+
+  async getBudgets(userId: string): Promise<Budget[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare(`
+      SELECT * FROM budgets
+      WHERE user_id = ?
+      ORDER BY category IS NOT NULL, LOWER(category), period
+    `).all(userId) as BudgetRow[];
+
+    return rows.map(mapBudgetRow);
+  }
+
+  async getBudgetById(userId: string, id: string): Promise<Budget | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare('SELECT * FROM budgets WHERE user_id = ? AND id = ?').get(userId, id) as BudgetRow | undefined;
+
+    return row ? mapBudgetRow(row) : null;
+  }
+
+  async createBudget(userId: string, input: CreateBudgetInput): Promise<Budget | null> {
+    const db = this.getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO budgets (id, user_id, period, category, amount, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, userId, input.period, input.category || null, input.amount, now, now);
+
+    if (result.changes === 0) {
+      return null;
+    }
+
+    return this.getBudgetById(userId, id);
+  }
+
+  async updateBudget(userId: string, id: string, amount: number): Promise<Budget | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const result = db.prepare(
+      'UPDATE budgets SET amount = ?, updated_at = ? WHERE user_id = ? AND id = ?'
+    ).run(amount, now, userId, id);
+
+    if (result.changes === 0) {
+      return null;
     }
 
-    return { items, activities };
+    return this.getBudgetById(userId, id);
+  }
+
+  async deleteBudget(userId: string, id: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare('DELETE FROM budgets WHERE user_id = ? AND id = ?').run(userId, id);
+
+    return result.changes > 0;
   }
 
   // ==========================================================================
@@ -1318,8 +3864,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
   async captureSessionReceipt(
     userId: string,
     sessionId: string,
-    imageData: string,
-    mimeType: string,
+    image: StoredReceiptImage,
     notes?: string
   ): Promise<SessionReceipt> {
     const db = this.getDatabase();
@@ -1339,11 +3884,22 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     const stmt = db.prepare(`
       INSERT INTO session_receipts (
-        id, session_id, image_data, mime_type, notes, captured_at, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        id, session_id, image_key, thumbnail_key, content_hash, size_bytes, mime_type, notes, captured_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, sessionId, imageData, mimeType, notes || null, now, now);
+    stmt.run(
+      id,
+      sessionId,
+      image.imageKey,
+      image.thumbnailKey || null,
+      image.contentHash,
+      image.sizeBytes,
+      image.mimeType,
+      notes || null,
+      now,
+      now
+    );
 
     // Update session with receipt reference
     const updateStmt = db.prepare(
@@ -1354,8 +3910,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return {
       id,
       sessionId,
-      imageData,
-      mimeType,
+      ...image,
       notes,
       capturedAt: now,
       createdAt: now,
@@ -1381,25 +3936,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const stmt = db.prepare(
       'SELECT * FROM session_receipts WHERE session_id = ? ORDER BY captured_at DESC'
     );
-    const rows = stmt.all(sessionId) as Array<{
-      id: string;
-      session_id: string;
-      image_data: string;
-      mime_type: string;
-      notes: string | null;
-      captured_at: string;
-      created_at: string;
-    }>;
+    const rows = stmt.all(sessionId) as SessionReceiptRow[];
 
-    return rows.map(row => ({
-      id: row.id,
-      sessionId: row.session_id,
-      imageData: row.image_data,
-      mimeType: row.mime_type,
-      notes: row.notes ?? undefined,
-      capturedAt: row.captured_at,
-      createdAt: row.created_at,
-    }));
+    return rows.map(mapSessionReceiptRow);
   }
 
   async getSessionReceiptById(
@@ -1422,29 +3961,50 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const stmt = db.prepare(
       'SELECT * FROM session_receipts WHERE id = ? AND session_id = ?'
     );
-    const row = stmt.get(receiptId, sessionId) as {
-      id: string;
-      session_id: string;
-      image_data: string;
-      mime_type: string;
-      notes: string | null;
-      captured_at: string;
-      created_at: string;
-    } | undefined;
+    const row = stmt.get(receiptId, sessionId) as SessionReceiptRow | undefined;
+
+    return row ? mapSessionReceiptRow(row) : null;
+  }
+
+  async saveSessionReceiptHeader(
+    userId: string,
+    sessionId: string,
+    receiptId: string,
+    header: ReceiptHeader
+  ): Promise<SessionReceipt | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
 
-    if (!row) {
+    const sessionRow = db
+      .prepare('SELECT * FROM shopping_sessions WHERE id = ? AND user_id = ?')
+      .get(sessionId, userId) as ShoppingSessionRow | undefined;
+
+    if (!sessionRow) {
       return null;
     }
 
-    return {
-      id: row.id,
-      sessionId: row.session_id,
-      imageData: row.image_data,
-      mimeType: row.mime_type,
-      notes: row.notes ?? undefined,
-      capturedAt: row.captured_at,
-      createdAt: row.created_at,
-    };
+    const purchasedAt = sessionRow.status === 'completed' ? purchaseTimestamp(header) : undefined;
+
+    const saved = db.transaction(() => {
+      const result = db
+        .prepare('UPDATE session_receipts SET header = ? WHERE id = ? AND session_id = ?')
+        .run(JSON.stringify(header), receiptId, sessionId);
+
+      if (result.changes === 0) {
+        return false;
+      }
+
+      // The session was paid for when the receipt says, not when it was marked complete
+      if (purchasedAt) {
+        db.prepare('UPDATE shopping_sessions SET completed_at = ?, updated_at = ? WHERE id = ?')
+          .run(purchasedAt, now, sessionId);
+        db.prepare('UPDATE price_observations SET observed_at = ? WHERE user_id = ? AND session_id = ?')
+          .run(purchasedAt, userId, sessionId);
+      }
+      return true;
+    })();
+
+    return saved ? this.getSessionReceiptById(userId, sessionId, receiptId) : null;
   }
 
   async deleteSessionReceipt(
@@ -1471,4 +4031,489 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     return result.changes > 0;
   }
+
+  async listUnmovedSessionReceipts(limit: number): Promise<UnmovedSessionReceipt[]> {
+    const db = this.getDatabase();
+
+    const rows = db.prepare(`
+      SELECT id, session_id, image_data, mime_type FROM session_receipts
+      WHERE image_key IS NULL AND image_data IS NOT NULL
+      ORDER BY created_at ASC, id
+      LIMIT ?
+    `).all(limit) as Pick<SessionReceiptRow, 'id' | 'session_id' | 'image_data' | 'mime_type'>[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      sessionId: row.session_id,
+      imageData: row.image_data!,
+      mimeType: row.mime_type,
+    }));
+  }
+
+  async getUnmovedSessionReceipt(receiptId: string): Promise<UnmovedSessionReceipt | null> {
+    const db = this.getDatabase();
+
+    const row = db.prepare(`
+      SELECT id, session_id, image_data, mime_type FROM session_receipts
+      WHERE id = ? AND image_key IS NULL AND image_data IS NOT NULL
+    `).get(receiptId) as Pick<SessionReceiptRow, 'id' | 'session_id' | 'image_data' | 'mime_type'> | undefined;
+
+    return row
+      ? { id: row.id, sessionId: row.session_id, imageData: row.image_data!, mimeType: row.mime_type }
+      : null;
+  }
+
+  async moveSessionReceiptImage(receiptId: string, image: StoredReceiptImage): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const result = db.prepare(`
+      UPDATE session_receipts
+      SET image_key = ?, thumbnail_key = ?, content_hash = ?, size_bytes = ?, image_data = NULL
+      WHERE id = ? AND image_key IS NULL
+    `).run(image.imageKey, image.thumbnailKey || null, image.contentHash, image.sizeBytes, receiptId);
+
+    return result.changes > 0;
+  }
+
+  // ==========================================================================
+  // Receipt Job Operations
+  // ==========================================================================
+
+  async createReceiptJob(
+    userId: string,
+    imageData: string,
+    maxAttempts: number,
+    sessionReceipt?: SessionReceiptTarget
+  ): Promise<ReceiptJob> {
+    const db = this.getDatabase();
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO receipt_jobs (id, user_id, status, image_data, owner_id, session_id, receipt_id, attempts, max_attempts, run_at, created_at, updated_at)
+      VALUES (?, ?, 'PENDING', ?, ?, ?, ?, 0, ?, ?, ?, ?)
+    `).run(
+      id,
+      userId,
+      imageData,
+      sessionReceipt?.ownerId ?? null,
+      sessionReceipt?.sessionId ?? null,
+      sessionReceipt?.receiptId ?? null,
+      maxAttempts,
+      now,
+      now,
+      now
+    );
+
+    return (await this.getReceiptJob(id))!;
+  }
+
+  async getReceiptJob(id: string, userId?: string): Promise<ReceiptJob | null> {
+    const db = this.getDatabase();
+    const params: unknown[] = [id];
+    let sql = 'SELECT * FROM receipt_jobs WHERE id = ?';
+
+    if (userId) {
+      sql += ' AND user_id = ?';
+      params.push(userId);
+    }
+
+    const row = db.prepare(sql).get(...params) as ReceiptJobRow | undefined;
+    return row ? mapReceiptJobRow(row) : null;
+  }
+
+  async claimReceiptJobs(limit: number, leaseMs: number): Promise<ClaimedReceiptJob[]> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    return db.transaction(() => {
+      const rows = db.prepare(`
+        SELECT * FROM receipt_jobs
+        WHERE (status = 'PENDING' AND run_at <= ?)
+           OR (status = 'PROCESSING' AND locked_until < ?)
+        ORDER BY run_at ASC
+        LIMIT ?
+      `).all(now, now, limit) as ReceiptJobRow[];
+
+      const claim = db.prepare(`
+        UPDATE receipt_jobs
+        SET status = 'PROCESSING', attempts = attempts + 1, locked_until = ?, started_at = ?, updated_at = ?
+        WHERE id = ?
+      `);
+
+      return rows.map((row) => {
+        claim.run(lockedUntil, now, now, row.id);
+        return {
+          ...mapReceiptJobRow({ ...row, status: 'PROCESSING', attempts: row.attempts + 1, started_at: now, updated_at: now }),
+          imageData: row.image_data!,
+        };
+      });
+    })();
+  }
+
+  async completeReceiptJob(id: string, result: ReceiptScanResult): Promise<ReceiptJob | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const update = db.prepare(`
+      UPDATE receipt_jobs
+      SET status = 'SUCCEEDED', result = ?, error = NULL, image_data = NULL, locked_until = NULL,
+          completed_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'PROCESSING'
+    `).run(JSON.stringify(result), now, now, id);
+
+    return update.changes > 0 ? this.getReceiptJob(id) : null;
+  }
+
+  async failReceiptJob(id: string, error: string, retryAt?: string): Promise<ReceiptJob | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const update = retryAt
+      ? db.prepare(`
+          UPDATE receipt_jobs
+          SET status = 'PENDING', error = ?, run_at = ?, locked_until = NULL, updated_at = ?
+          WHERE id = ? AND status = 'PROCESSING'
+        `).run(error, retryAt, now, id)
+      : db.prepare(`
+          UPDATE receipt_jobs
+          SET status = 'FAILED', error = ?, locked_until = NULL, completed_at = ?, updated_at = ?
+          WHERE id = ? AND status = 'PROCESSING'
+        `).run(error, now, now, id);
+
+    return update.changes > 0 ? this.getReceiptJob(id) : null;
+  }
+
+  async listReceiptJobs(status: ReceiptJobStatus | undefined, limit: number, offset: number): Promise<ReceiptJob[]> {
+    const db = this.getDatabase();
+    const params: unknown[] = [];
+    let sql = 'SELECT * FROM receipt_jobs';
+
+    if (status) {
+      sql += ' WHERE status = ?';
+      params.push(status);
+    }
+
+    sql += ' ORDER BY created_at DESC, id LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const rows = db.prepare(sql).all(...params) as ReceiptJobRow[];
+    return rows.map(mapReceiptJobRow);
+  }
+
+  async retryReceiptJob(id: string): Promise<ReceiptJob | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const update = db.prepare(`
+      UPDATE receipt_jobs
+      SET status = 'PENDING', attempts = 0, run_at = ?, completed_at = NULL, updated_at = ?
+      WHERE id = ? AND status = 'FAILED'
+    `).run(now, now, id);
+
+    return update.changes > 0 ? this.getReceiptJob(id) : null;
+  }
+
+  // ==========================================================================
+  // Stripe Webhook Event Operations
+  // ==========================================================================
+
+  async beginStripeWebhookEvent(
+    event: NewStripeWebhookEvent,
+    leaseMs: number
+  ): Promise<ClaimedStripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    const id = db.transaction(() => {
+      const existing = db.prepare('SELECT * FROM stripe_webhook_events WHERE stripe_event_id = ?')
+        .get(event.stripeEventId) as StripeWebhookEventRow | undefined;
+
+      if (!existing) {
+        const newId = uuidv4();
+        db.prepare(`
+          INSERT INTO stripe_webhook_events (
+            id, stripe_event_id, event_type, object_id, status, processed, payload, attempts,
+            stripe_created_at, locked_until, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, 'PROCESSING', 0, ?, 1, ?, ?, ?, ?)
+        `).run(
+          newId, event.stripeEventId, event.eventType, event.objectId || null, event.payload,
+          event.stripeCreatedAt, lockedUntil, now, now
+        );
+        return newId;
+      }
+
+      const claim = db.prepare(`
+        UPDATE stripe_webhook_events
+        SET status = 'PROCESSING', attempts = attempts + 1, locked_until = ?, updated_at = ?
+        WHERE id = ? AND (status = 'FAILED' OR (status = 'PROCESSING' AND locked_until < ?))
+      `).run(lockedUntil, now, existing.id, now);
+
+      return claim.changes > 0 ? existing.id : null;
+    })();
+
+    return id ? this.getClaimedStripeWebhookEvent(id) : null;
+  }
+
+  async claimFailedStripeWebhookEvent(id: string, leaseMs: number): Promise<ClaimedStripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    const claim = db.prepare(`
+      UPDATE stripe_webhook_events
+      SET status = 'PROCESSING', attempts = attempts + 1, locked_until = ?, updated_at = ?
+      WHERE id = ? AND status = 'FAILED'
+    `).run(lockedUntil, now, id);
+
+    return claim.changes > 0 ? this.getClaimedStripeWebhookEvent(id) : null;
+  }
+
+  private async getClaimedStripeWebhookEvent(id: string): Promise<ClaimedStripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const row = db.prepare('SELECT * FROM stripe_webhook_events WHERE id = ?')
+      .get(id) as StripeWebhookEventRow | undefined;
+
+    return row ? { ...mapStripeWebhookEventRow(row), payload: row.payload } : null;
+  }
+
+  async completeStripeWebhookEvent(
+    id: string,
+    status: 'PROCESSED' | 'SKIPPED',
+    userId?: string
+  ): Promise<StripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const update = db.prepare(`
+      UPDATE stripe_webhook_events
+      SET status = ?, processed = 1, user_id = COALESCE(?, user_id), error = NULL, locked_until = NULL,
+          processed_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'PROCESSING'
+    `).run(status, userId || null, now, now, id);
+
+    return update.changes > 0 ? this.getStripeWebhookEvent(id) : null;
+  }
+
+  async failStripeWebhookEvent(id: string, error: string): Promise<StripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    const update = db.prepare(`
+      UPDATE stripe_webhook_events
+      SET status = 'FAILED', error = ?, locked_until = NULL, updated_at = ?
+      WHERE id = ? AND status = 'PROCESSING'
+    `).run(error, now, id);
+
+    return update.changes > 0 ? this.getStripeWebhookEvent(id) : null;
+  }
+
+  async getStripeWebhookEvent(id: string): Promise<StripeWebhookEvent | null> {
+    const db = this.getDatabase();
+    const row = db.prepare('SELECT * FROM stripe_webhook_events WHERE id = ?')
+      .get(id) as StripeWebhookEventRow | undefined;
+
+    return row ? mapStripeWebhookEventRow(row) : null;
+  }
+
+  async listStripeWebhookEvents(
+    status: StripeWebhookEventStatus | undefined,
+    limit: number,
+    offset: number
+  ): Promise<StripeWebhookEvent[]> {
+    const db = this.getDatabase();
+    const params: unknown[] = [];
+    let sql = 'SELECT * FROM stripe_webhook_events';
+
+    if (status) {
+      sql += ' WHERE status = ?';
+      params.push(status);
+    }
+
+    sql += ' ORDER BY created_at DESC, id LIMIT ? OFFSET ?';
+    params.push(limit, offset);
+
+    const rows = db.prepare(sql).all(...params) as StripeWebhookEventRow[];
+    return rows.map(mapStripeWebhookEventRow);
+  }
+
+  async hasNewerStripeWebhookEvent(objectId: string, eventTypes: string[], stripeCreatedAt: string): Promise<boolean> {
+    const db = this.getDatabase();
+
+    const row = db.prepare(`
+      SELECT 1 FROM stripe_webhook_events
+      WHERE object_id = ? AND status = 'PROCESSED' AND stripe_created_at > ?
+        AND event_type IN (${eventTypes.map(() => '?').join(', ')})
+      LIMIT 1
+    `).get(objectId, stripeCreatedAt, ...eventTypes);
+
+    return row !== undefined;
+  }
+
+  // ==========================================================================
+  // Rate Limit Operations
+  // ==========================================================================
+
+  async takeRateLimitTokens(key: string, bucket: TokenBucket, cost: number): Promise<RateLimitResult> {
+    const db = this.getDatabase();
+
+    return db.transaction(() => {
+      const row = db.prepare('SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?')
+        .get(key) as { tokens: number; updated_at: number } | undefined;
+
+      const { state, result } = takeTokens(
+        row ? { tokens: row.tokens, updatedAt: row.updated_at } : null,
+        bucket,
+        cost,
+        Date.now()
+      );
+
+      db.prepare(`
+        INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+      `).run(key, state.tokens, state.updatedAt);
+
+      return result;
+    })();
+  }
+
+  async deleteIdleRateLimitBuckets(before: number): Promise<number> {
+    const db = this.getDatabase();
+    return db.prepare('DELETE FROM rate_limit_buckets WHERE updated_at < ?').run(before).changes;
+  }
+
+  // ==========================================================================
+  // Product Sync Queue Operations
+  // ==========================================================================
+
+  async enqueueProductSync(barcode: string, error: string, syncAfter: string): Promise<void> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO product_cache (
+        barcode, name, category, source, info_last_synced, updated_at,
+        needs_sync, sync_retry_count, last_error, sync_after
+      ) VALUES (?, '', 'other', ?, '', ?, 1, 0, ?, ?)
+      ON CONFLICT(barcode) DO UPDATE SET
+        needs_sync = 1,
+        sync_retry_count = 0,
+        last_error = excluded.last_error,
+        sync_after = excluded.sync_after,
+        updated_at = excluded.updated_at
+      WHERE COALESCE(product_cache.needs_sync, 0) = 0
+    `).run(barcode, PENDING_PRODUCT_SOURCE, now, error, syncAfter);
+  }
+
+  async claimProductSyncs(limit: number, leaseMs: number): Promise<ClaimedProductSync[]> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+
+    return db.transaction(() => {
+      const rows = db.prepare(`
+        SELECT barcode, sync_retry_count FROM product_cache
+        WHERE needs_sync = 1 AND (sync_after IS NULL OR sync_after <= ?)
+        ORDER BY sync_after ASC
+        LIMIT ?
+      `).all(now, limit) as Pick<ProductSyncRow, 'barcode' | 'sync_retry_count'>[];
+
+      const claim = db.prepare('UPDATE product_cache SET sync_after = ? WHERE barcode = ?');
+
+      return rows.map((row) => {
+        claim.run(lockedUntil, row.barcode);
+        return { barcode: row.barcode, attempts: row.sync_retry_count ?? 0 };
+      });
+    })();
+  }
+
+  async deferProductSync(barcode: string, syncAfter: string): Promise<void> {
+    const db = this.getDatabase();
+    db.prepare('UPDATE product_cache SET sync_after = ? WHERE barcode = ? AND needs_sync = 1').run(syncAfter, barcode);
+  }
+
+  async failProductSync(barcode: string, error: string, retryAt?: string): Promise<void> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      UPDATE product_cache
+      SET needs_sync = ?, sync_retry_count = COALESCE(sync_retry_count, 0) + 1, last_error = ?,
+          sync_after = ?, updated_at = ?
+      WHERE barcode = ? AND needs_sync = 1
+    `).run(retryAt ? 1 : 0, error, retryAt ?? null, now, barcode);
+  }
+
+  async listProductSyncs(status: ProductSyncStatus | undefined, limit: number, offset: number): Promise<ProductSyncEntry[]> {
+    const db = this.getDatabase();
+    const condition = status
+      ? PRODUCT_SYNC_CONDITIONS[status]
+      : `(${PRODUCT_SYNC_CONDITIONS.QUEUED}) OR (${PRODUCT_SYNC_CONDITIONS.FAILED})`;
+
+    const rows = db.prepare(`
+      SELECT barcode, name, source, needs_sync, sync_retry_count, last_error, sync_after, updated_at
+      FROM product_cache
+      WHERE ${condition}
+      ORDER BY updated_at DESC, barcode
+      LIMIT ? OFFSET ?
+    `).all(limit, offset) as ProductSyncRow[];
+
+    return rows.map(mapProductSyncRow);
+  }
+
+  async getProductSyncStats(): Promise<ProductSyncStats> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    return db.prepare(`
+      SELECT
+        COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.QUEUED}) AS queued,
+        COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.QUEUED} AND (sync_after IS NULL OR sync_after <= ?)) AS due,
+        COUNT(*) FILTER (WHERE ${PRODUCT_SYNC_CONDITIONS.FAILED}) AS failed
+      FROM product_cache
+    `).get(now) as ProductSyncStats;
+  }
+
+  // ==========================================================================
+  // Product Catalog Operations
+  // ==========================================================================
+
+  async getCatalogProduct(barcode: string): Promise<CatalogProduct | null> {
+    const db = this.getDatabase();
+    const row = db.prepare('SELECT * FROM product_catalog WHERE barcode = ?').get(barcode) as CatalogProductRow | undefined;
+    return row ? mapCatalogProductRow(row) : null;
+  }
+
+  async saveCatalogProduct(input: CatalogProductInput, contributedBy?: string): Promise<CatalogProduct> {
+    const db = this.getDatabase();
+    const now = new Date().toISOString();
+
+    db.prepare(`
+      INSERT INTO product_catalog (barcode, name, brand, category, image_url, contributed_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(barcode) DO UPDATE SET
+        name = CASE WHEN product_catalog.contributed_by = excluded.contributed_by
+          THEN excluded.name ELSE product_catalog.name END,
+        brand = CASE WHEN product_catalog.contributed_by = excluded.contributed_by
+          THEN excluded.brand ELSE COALESCE(product_catalog.brand, excluded.brand) END,
+        category = CASE WHEN product_catalog.contributed_by = excluded.contributed_by
+          THEN excluded.category ELSE product_catalog.category END,
+        image_url = CASE WHEN product_catalog.contributed_by = excluded.contributed_by
+          THEN excluded.image_url ELSE COALESCE(product_catalog.image_url, excluded.image_url) END,
+        updated_at = excluded.updated_at
+    `).run(
+      input.barcode,
+      input.name,
+      input.brand || null,
+      input.category,
+      input.imageUrl || null,
+      contributedBy ?? null,
+      now,
+      now
+    );
+
+    return (await this.getCatalogProduct(input.barcode))!;
+  }
 }
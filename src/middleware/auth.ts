@@ -5,12 +5,15 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '@clerk/clerk-sdk-node';
+import { UserRole } from '../models/role';
+import { rolesFromClaims } from '../services/roles';
 
-// Extend Express Request to include userId
+// Extend Express Request to include userId and token role claims
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      tokenRoles?: UserRole[];
     }
   }
 }
@@ -82,8 +85,9 @@ export async function requireAuth(
       return;
     }
 
-    // Attach userId to request
+    // Attach userId and any staff role claims to request
     req.userId = userId;
+    req.tokenRoles = rolesFromClaims(payload as Record<string, unknown>);
     next();
   } catch (error) {
     console.error('[Auth Middleware] Token verification failed:', error);
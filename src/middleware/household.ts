@@ -0,0 +1,76 @@
+/**
+ * Household middleware
+ * Resolves whose inventory a request works on and enforces household roles
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getHouseholdForUser } from '../db/operations';
+import { HouseholdRole } from '../models/household';
+import { canEditInventory } from '../services/household';
+
+// Extend Express Request to include the resolved inventory owner
+declare global {
+  namespace Express {
+    interface Request {
+      ownerId?: string;
+      householdId?: string;
+      householdRole?: HouseholdRole;
+    }
+  }
+}
+
+/**
+ * Middleware to resolve the inventory owner for the signed-in user
+ * Members of a household work on the household's shared inventory;
+ * everyone else works on their own. Must run after requireAuth.
+ */
+export async function resolveHousehold(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const userId = req.userId!;
+    const membership = await getHouseholdForUser(userId);
+
+    if (membership) {
+      req.ownerId = membership.household.id;
+      req.householdId = membership.household.id;
+      req.householdRole = membership.role;
+    } else {
+      req.ownerId = userId;
+    }
+
+    next();
+  } catch (error) {
+    console.error('[Household Middleware] Error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to resolve household',
+      },
+      meta: { timestamp: new Date().toISOString() },
+    });
+  }
+}
+
+/**
+ * Middleware to keep household viewers read-only
+ * Rejects any non-GET request from a member whose role cannot edit the inventory
+ */
+export function blockViewerWrites(req: Request, res: Response, next: NextFunction): void {
+  if (req.method !== 'GET' && req.householdRole && !canEditInventory(req.householdRole)) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Viewers cannot change the household inventory',
+      },
+      meta: { timestamp: new Date().toISOString() },
+    });
+    return;
+  }
+
+  next();
+}
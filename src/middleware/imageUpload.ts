@@ -0,0 +1,92 @@
+/**
+ * Image upload middleware
+ * Accepts receipt images as multipart/form-data, alongside the older base64
+ * JSON bodies. Uploads are capped while they stream in, typed from their
+ * bytes and normalized (EXIF orientation, HEIC to JPEG) before any route
+ * sees them
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { sniffImageType, prepareUploadedImage, UploadedImage } from '../services/receiptImages';
+
+// Largest uploaded image, in bytes
+const UPLOAD_MAX_BYTES = parseInt(process.env.UPLOAD_MAX_BYTES || String(10 * 1024 * 1024), 10);
+
+// Extend Express Request to include the uploaded image
+declare global {
+  namespace Express {
+    interface Request {
+      uploadedImage?: UploadedImage;
+    }
+  }
+}
+
+function sendError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({
+    success: false,
+    error: {
+      code,
+      message,
+    },
+    meta: { timestamp: new Date().toISOString() },
+  });
+}
+
+/**
+ * Middleware to take one image of at most maxBytes from a multipart upload's
+ * `field`. Sets req.uploadedImage and puts the form's text fields in req.body.
+ * Requests that aren't multipart pass through untouched, so routes keep
+ * reading base64 images from JSON bodies. Must run after requireAuth.
+ */
+export function acceptImageUpload(field: string = 'image', maxBytes: number = UPLOAD_MAX_BYTES) {
+  // Multer stops reading a file as soon as it passes fileSize
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1, fields: 10, fieldSize: 10 * 1024 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.is('multipart/form-data')) {
+      next();
+      return;
+    }
+
+    upload(req, res, async (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          sendError(res, 413, 'PAYLOAD_TOO_LARGE', `Image must be at most ${maxBytes} bytes`);
+        } else {
+          sendError(res, 400, 'VALIDATION_ERROR', `Invalid upload: ${error.message}`);
+        }
+        return;
+      }
+      if (error) {
+        console.error('[Image Upload Middleware] Error:', error);
+        sendError(res, 400, 'VALIDATION_ERROR', 'Invalid multipart body');
+        return;
+      }
+
+      if (!req.file) {
+        sendError(res, 400, 'VALIDATION_ERROR', `Missing image file in the "${field}" field`);
+        return;
+      }
+
+      const type = sniffImageType(req.file.buffer);
+      if (!type) {
+        sendError(res, 415, 'UNSUPPORTED_MEDIA_TYPE', 'Image must be a JPEG, PNG, WebP or HEIC file');
+        return;
+      }
+
+      try {
+        req.uploadedImage = await prepareUploadedImage(req.file.buffer, type);
+      } catch (prepareError) {
+        console.warn('[Image Upload Middleware] Unreadable image:', prepareError instanceof Error ? prepareError.message : prepareError);
+        sendError(res, 400, 'VALIDATION_ERROR', 'Could not read the uploaded image');
+        return;
+      }
+
+      next();
+    });
+  };
+}
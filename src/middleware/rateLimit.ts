@@ -0,0 +1,82 @@
+/**
+ * Rate limiting middleware
+ * Caps requests per user (or per IP before sign-in) for each class of
+ * endpoint, with budgets that scale with the user's tier. Responses carry
+ * RateLimit-* headers; refused requests get 429 with Retry-After
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getUserSubscription } from '../services/subscription';
+import {
+  getRateLimitStore,
+  rateLimitBudget,
+  tokenBucket,
+  RateLimitClass,
+} from '../services/rateLimit';
+import { UserTier } from '../models/subscription';
+
+/**
+ * The user's tier, from tier checks earlier in the chain or their subscription
+ */
+async function resolveTier(req: Request): Promise<UserTier> {
+  if (req.userTier) return req.userTier;
+
+  const subscription = await getUserSubscription(req.userId!);
+  return subscription?.tier ?? 'free';
+}
+
+/**
+ * Middleware to limit a class of endpoint
+ * Keys buckets by req.userId when it runs after requireAuth, otherwise by IP.
+ * Requests go through if the store fails, rather than the API going down
+ * with it. RATE_LIMIT_ENABLED=false turns limiting off.
+ */
+export function rateLimit(routeClass: RateLimitClass) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (process.env.RATE_LIMIT_ENABLED === 'false') {
+      next();
+      return;
+    }
+
+    try {
+      const tier = req.userId ? await resolveTier(req) : 'free';
+      const budget = rateLimitBudget(routeClass, tier);
+      const key = `${routeClass}:${req.userId ? `user:${req.userId}` : `ip:${req.ip}`}`;
+
+      const result = await getRateLimitStore().take(key, tokenBucket(budget));
+
+      res.set({
+        'RateLimit-Policy': `${budget.limit};w=${budget.windowSeconds}`,
+        'RateLimit-Limit': String(budget.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+      });
+
+      if (!result.allowed) {
+        const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({
+          success: false,
+          error: {
+            code: 'RATE_LIMITED',
+            message: `Too many requests, try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}`,
+            details: {
+              routeClass,
+              limit: budget.limit,
+              windowSeconds: budget.windowSeconds,
+              retryAfter,
+            },
+          },
+          meta: { timestamp: new Date().toISOString() },
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('[RateLimit Middleware] Error:', error);
+      // Don't block requests when the store is unavailable
+    }
+
+    next();
+  };
+}
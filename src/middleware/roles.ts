@@ -0,0 +1,73 @@
+/**
+ * Role middleware
+ * Guards the admin API with staff roles from Clerk claims or the user_roles table
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getUserRoles } from '../db/operations';
+import { UserRole } from '../models/role';
+import { hasRole } from '../services/roles';
+
+// Extend Express Request to include the resolved staff roles
+declare global {
+  namespace Express {
+    interface Request {
+      userRoles?: UserRole[];
+    }
+  }
+}
+
+/**
+ * Middleware to require a minimum staff role
+ * Roles are the token's role claims plus locally granted roles, resolved once
+ * per request. Must run after requireAuth.
+ * @param minimumRole - The lowest role allowed ('read_only', 'support' or 'admin')
+ */
+export function requireRole(minimumRole: UserRole) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+          meta: { timestamp: new Date().toISOString() },
+        });
+        return;
+      }
+
+      if (!req.userRoles) {
+        const granted = await getUserRoles(userId);
+        req.userRoles = [...new Set([...(req.tokenRoles ?? []), ...granted])];
+      }
+
+      if (!hasRole(req.userRoles, minimumRole)) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: `This action requires the ${minimumRole} role or higher`,
+          },
+          meta: { timestamp: new Date().toISOString() },
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('[Role Middleware] Error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to check roles',
+        },
+        meta: { timestamp: new Date().toISOString() },
+      });
+    }
+  };
+}
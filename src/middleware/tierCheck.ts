@@ -146,7 +146,28 @@ export async function checkItemLimit(req: Request, res: Response, next: NextFunc
 }
 
 /**
- * Middleware to track and check receipt scan usage
+ * Answer 403 for a user with no receipt scans left this month
+ */
+export function sendReceiptScanLimitReached(res: Response): void {
+  res.status(403).json({
+    success: false,
+    error: {
+      code: 'RECEIPT_SCAN_LIMIT_REACHED',
+      message: `You've reached your monthly receipt scan limit`,
+      details: {
+        remaining: 0,
+        upgradeUrl: '/pricing',
+        upgradeMessage: 'Upgrade to Pro for unlimited receipt scans',
+      },
+    },
+    meta: { timestamp: new Date().toISOString() },
+  });
+}
+
+/**
+ * Middleware to check receipt scan usage
+ * Turns away users already at their limit before the upload is read; the
+ * scan itself is reserved when its job is submitted
  */
 export async function trackReceiptScan(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
@@ -161,25 +182,10 @@ export async function trackReceiptScan(req: Request, res: Response, next: NextFu
     const check = await canScanReceipt(userId);
 
     if (!check.allowed) {
-      res.status(403).json({
-        success: false,
-        error: {
-          code: 'RECEIPT_SCAN_LIMIT_REACHED',
-          message: `You've reached your monthly receipt scan limit`,
-          details: {
-            remaining: 0,
-            upgradeUrl: '/pricing',
-            upgradeMessage: 'Upgrade to Pro for unlimited receipt scans',
-          },
-        },
-        meta: { timestamp: new Date().toISOString() },
-      });
+      sendReceiptScanLimitReached(res);
       return;
     }
 
-    // Increment usage
-    incrementUsage(userId, 'receiptScans');
-
     next();
   } catch (error) {
     console.error('[ReceiptScan Middleware] Error:', error);
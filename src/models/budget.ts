@@ -0,0 +1,151 @@
+/**
+ * Budget Types
+ * Type definitions for grocery budgets, spend reports and budget status
+ */
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * How often a budget resets (weeks start on Monday)
+ */
+export type BudgetPeriod = 'week' | 'month';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['week', 'month'];
+
+/**
+ * Bucket size for spend reports
+ */
+export type SpendPeriod = BudgetPeriod | 'year';
+
+export const SPEND_PERIODS: SpendPeriod[] = ['week', 'month', 'year'];
+
+// ============================================================================
+// Budget Models
+// ============================================================================
+
+/**
+ * A spending limit per week or month, overall or for one category
+ */
+export interface Budget {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Inventory owner the budget belongs to */
+  userId: string;
+  period: BudgetPeriod;
+  /** Category the budget covers; overall spend when absent */
+  category?: string;
+  /** Spending limit per period */
+  amount: number;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for budgets table
+ */
+export interface BudgetRow {
+  id: string;
+  user_id: string;
+  period: BudgetPeriod;
+  category: string | null;
+  amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Spend Models
+// ============================================================================
+
+/**
+ * A completed shopping session's spend, with its priced items summed by category
+ */
+export interface SessionSpend {
+  sessionId: string;
+  storeName?: string;
+  /** ISO 8601 timestamp the session was completed */
+  completedAt: string;
+  totalAmount: number;
+  /** price * quantity of the session's priced items, per item category */
+  categories: Array<{ category?: string; amount: number }>;
+}
+
+/**
+ * Spend in one category or at one store
+ */
+export interface SpendBreakdown {
+  /** Category name, or store name (absent for sessions without a store) */
+  name?: string;
+  amount: number;
+}
+
+/**
+ * Spend in one week, month or year
+ */
+export interface SpendBucket {
+  /** 2024-01-08 (week starting that Monday), 2024-01 or 2024 */
+  period: string;
+  /** First day of the period (YYYY-MM-DD) */
+  start: string;
+  /** Last day of the period (YYYY-MM-DD) */
+  end: string;
+  totalSpent: number;
+  sessionCount: number;
+  /** Largest first */
+  byCategory: SpendBreakdown[];
+  /** Largest first */
+  byStore: SpendBreakdown[];
+}
+
+/**
+ * Spend over a date range, bucketed by period
+ */
+export interface SpendReport {
+  /** First day covered (YYYY-MM-DD) */
+  from: string;
+  /** Last day covered (YYYY-MM-DD) */
+  to: string;
+  period: SpendPeriod;
+  totalSpent: number;
+  byCategory: SpendBreakdown[];
+  byStore: SpendBreakdown[];
+  /** Oldest first; periods without spend are left out */
+  buckets: SpendBucket[];
+}
+
+/**
+ * How a budget stands in its current period
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  /** First and last day of the current period (YYYY-MM-DD) */
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  /** Amount left; negative when over budget */
+  remaining: number;
+  percentUsed: number;
+  /** Spend by the end of the period at the pace so far */
+  projectedSpend: number;
+  /** How far projectedSpend exceeds the budget (0 when on track) */
+  projectedOverspend: number;
+  overBudget: boolean;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Request body for creating a budget
+ */
+export interface CreateBudgetRequest {
+  period: BudgetPeriod;
+  /** Omit for an overall budget */
+  category?: string;
+  amount: number;
+}
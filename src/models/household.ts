@@ -0,0 +1,136 @@
+/**
+ * Household Types
+ * Type definitions for shared household inventories (family tier)
+ */
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+/**
+ * Member roles within a household
+ * owner: manages members and invites; editor: changes inventory; viewer: read-only
+ */
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Roles that can be granted through an invite (ownership is never invited)
+ */
+export type HouseholdInviteRole = Exclude<HouseholdRole, 'owner'>;
+
+// ============================================================================
+// Household Models
+// ============================================================================
+
+/**
+ * Represents a household sharing one pantry inventory
+ * Inventory rows of a household are keyed by the household ID
+ */
+export interface Household {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Display name */
+  name: string;
+  /** User ID of the owner */
+  ownerId: string;
+  /** Short code other users can join with */
+  inviteCode: string;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for households table
+ */
+export interface HouseholdRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  invite_code: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A user's membership in a household
+ */
+export interface HouseholdMember {
+  householdId: string;
+  userId: string;
+  role: HouseholdRole;
+  /** ISO 8601 timestamp when the user joined */
+  joinedAt: string;
+}
+
+/**
+ * Database schema representation for household_members table
+ */
+export interface HouseholdMemberRow {
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  joined_at: string;
+}
+
+/**
+ * The household a user belongs to, with their role in it
+ */
+export interface HouseholdMembership {
+  household: Household;
+  role: HouseholdRole;
+}
+
+/**
+ * Household with its member list
+ */
+export interface HouseholdWithMembers extends Household {
+  members: HouseholdMember[];
+}
+
+// ============================================================================
+// Invite Models
+// ============================================================================
+
+/**
+ * An emailed invitation to join a household
+ * The token is the secret the invitee presents to accept
+ */
+export interface HouseholdInvite {
+  /** Unique identifier (UUID) */
+  id: string;
+  householdId: string;
+  /** Email address the invite was sent to */
+  email: string;
+  /** Role granted on acceptance */
+  role: HouseholdInviteRole;
+  /** Secret token used to accept the invite */
+  token: string;
+  /** User ID of the member who sent the invite */
+  invitedBy: string;
+  /** ISO 8601 timestamp after which the invite can no longer be accepted */
+  expiresAt: string;
+  /** ISO 8601 timestamp when the invite was accepted */
+  acceptedAt?: string;
+  /** User ID that accepted the invite */
+  acceptedBy?: string;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+}
+
+/**
+ * Database schema representation for household_invites table
+ */
+export interface HouseholdInviteRow {
+  id: string;
+  household_id: string;
+  email: string;
+  role: HouseholdInviteRole;
+  token: string;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+}
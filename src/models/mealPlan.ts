@@ -0,0 +1,143 @@
+/**
+ * Meal Plan Types
+ * Type definitions for the meal planner and the pantry stock it reserves
+ */
+
+import { PantryItem } from './types';
+
+// ============================================================================
+// Meal Plan Models
+// ============================================================================
+
+/**
+ * Meal of the day an entry is planned for
+ */
+export type MealSlot = 'BREAKFAST' | 'LUNCH' | 'DINNER' | 'SNACK';
+
+/**
+ * One free-text ingredient line of a meal plan entry
+ */
+export interface MealPlanIngredient {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Entry this line belongs to */
+  entryId: string;
+  /** Position of the line within the entry (0-based) */
+  position: number;
+  /** Ingredient name, matched against pantry item names */
+  name: string;
+  /** Amount needed, if stated */
+  quantity?: number;
+  /** Unit of measurement for quantity */
+  unit?: string;
+}
+
+/**
+ * Database schema representation for meal_plan_ingredients table
+ */
+export interface MealPlanIngredientRow {
+  id: string;
+  entry_id: string;
+  position: number;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+/**
+ * A meal planned for a day and slot
+ * Cooks a recipe, or lists its own free-text ingredients
+ */
+export interface MealPlanEntry {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** User ID who owns this entry */
+  userId: string;
+  /** Day of the meal (YYYY-MM-DD) */
+  date: string;
+  slot: MealSlot;
+  /** Recipe to cook, if any */
+  recipeId?: string;
+  /** Display title (defaults to the recipe name) */
+  title: string;
+  /** Servings to cook; recipe quantities are scaled to it */
+  servings?: number;
+  notes?: string;
+  /** Free-text ingredients, used in addition to the recipe's */
+  ingredients: MealPlanIngredient[];
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for meal_plan_entries table
+ */
+export interface MealPlanEntryRow {
+  id: string;
+  user_id: string;
+  date: string;
+  slot: MealSlot;
+  recipe_id: string | null;
+  title: string;
+  servings: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Reservations
+// ============================================================================
+
+/**
+ * Pantry item with the stock set aside for upcoming planned meals
+ */
+export interface ReservedPantryItem extends PantryItem {
+  /** Quantity reserved by the meal plan */
+  reserved: number;
+  /** quantity - reserved, never negative */
+  available: number;
+}
+
+/**
+ * Something the meal plan needs that the pantry can't supply
+ */
+export interface MealPlanShortfall {
+  /** Pantry item to restock, when the ingredient matches one */
+  itemId?: string;
+  name: string;
+  /** Amount to buy, in the pantry item's unit when itemId is set */
+  quantity: number;
+  unit?: string;
+  /** Days of the meals that need it (YYYY-MM-DD) */
+  dates: string[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Request body for planning a meal
+ * Either recipeId or a title with ingredients is required
+ */
+export interface CreateMealPlanEntryRequest {
+  date: string;
+  slot: MealSlot;
+  recipeId?: string;
+  title?: string;
+  servings?: number;
+  notes?: string;
+  ingredients?: Array<{ name: string; quantity?: number; unit?: string }>;
+}
+
+/**
+ * Request body for generating shopping list entries from the plan
+ * Defaults to the week starting today
+ */
+export interface MealPlanShoppingListRequest {
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,159 @@
+/**
+ * Price History Types
+ * Type definitions for recorded prices, price trends and store comparison
+ */
+
+// ============================================================================
+// Price Sources
+// ============================================================================
+
+/**
+ * Where a price was seen: a completed shopping session or an imported receipt
+ */
+export type PriceSource = 'SHOPPING_SESSION' | 'RECEIPT_SCAN';
+
+// ============================================================================
+// Price Observation Models
+// ============================================================================
+
+/**
+ * A price paid for a product at a store on a given day
+ */
+export interface PriceObservation {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Inventory owner the price belongs to */
+  userId: string;
+  /** Product identity: "barcode:<code>", or "name:<normalized name>" without a barcode */
+  productKey: string;
+  /** Normalized product name ("Whole Milks" -> "whole milk") */
+  nameKey: string;
+  barcode?: string;
+  /** Product name as bought */
+  name: string;
+  /** Store the price was paid at, if known */
+  storeName?: string;
+  /** Price paid per unit bought */
+  price: number;
+  /** Quantity bought */
+  quantity: number;
+  /** Unit the quantity and price are in */
+  unit?: string;
+  /** Price per priceUnit, comparable across pack sizes */
+  unitPrice: number;
+  /** kg, l or piece for measurement units, otherwise the unit bought (can, pack, ...) */
+  priceUnit: string;
+  source: PriceSource;
+  /** Shopping session the price came from */
+  sessionId?: string;
+  /** ISO 8601 timestamp of the purchase */
+  observedAt: string;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+}
+
+/**
+ * Database schema representation for price_observations table
+ */
+export interface PriceObservationRow {
+  id: string;
+  user_id: string;
+  product_key: string;
+  name_key: string;
+  barcode: string | null;
+  name: string;
+  store_name: string | null;
+  price: number;
+  quantity: number;
+  unit: string | null;
+  unit_price: number;
+  price_unit: string;
+  source: PriceSource;
+  session_id: string | null;
+  observed_at: string;
+  created_at: string;
+}
+
+// ============================================================================
+// Price Analysis
+// ============================================================================
+
+/**
+ * Prices seen for a product at one store
+ */
+export interface StorePriceSummary {
+  storeName?: string;
+  latestUnitPrice: number;
+  lowestUnitPrice: number;
+  averageUnitPrice: number;
+  observationCount: number;
+  /** ISO 8601 timestamp of the latest price */
+  lastObservedAt: string;
+}
+
+/**
+ * A product's unit price over time, oldest first
+ */
+export interface PriceTrend {
+  name: string;
+  barcode?: string;
+  priceUnit: string;
+  points: Array<{ observedAt: string; storeName?: string; unitPrice: number }>;
+  /** Per store, cheapest latest price first */
+  stores: StorePriceSummary[];
+  latestUnitPrice: number;
+  /** Change from the first to the latest unit price, in percent */
+  changePercent: number;
+}
+
+/**
+ * Estimated cost of the shopping list at one store
+ */
+export interface StoreListEstimate {
+  storeName: string;
+  estimatedTotal: number;
+  /** List entries with a known price at this store */
+  pricedItems: number;
+  /** Names of list entries without a price at this store */
+  missingItems: string[];
+}
+
+/**
+ * Cheapest known price for one shopping list entry
+ */
+export interface ListItemPrice {
+  shoppingListItemId: string;
+  name: string;
+  /** Null when the entry has never been bought at a known store */
+  cheapestStore: string | null;
+  unitPrice: number | null;
+  priceUnit: string | null;
+  estimatedCost: number | null;
+}
+
+/**
+ * Shopping list prices compared across stores
+ */
+export interface ShoppingListPriceComparison {
+  /** Store pricing the most entries, cheapest first; null without any prices */
+  cheapestStore: string | null;
+  /** Stores in the same order */
+  stores: StoreListEstimate[];
+  items: ListItemPrice[];
+}
+
+/**
+ * A product whose latest price at a store rose over the previous one
+ */
+export interface PriceAlert {
+  productKey: string;
+  name: string;
+  storeName?: string;
+  priceUnit: string;
+  previousUnitPrice: number;
+  currentUnitPrice: number;
+  changePercent: number;
+  /** ISO 8601 timestamps of the two prices */
+  previousObservedAt: string;
+  observedAt: string;
+}
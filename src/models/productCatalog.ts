@@ -0,0 +1,50 @@
+/**
+ * Product Catalog Types
+ * Type definitions for the local catalog of products users have entered by
+ * barcode, asked before any outside product source
+ */
+
+// ============================================================================
+// Product Catalog Models
+// ============================================================================
+
+/**
+ * A user-contributed product
+ */
+export interface CatalogProduct {
+  /** GTIN-14 */
+  barcode: string;
+  name: string;
+  brand?: string;
+  category: string;
+  imageUrl?: string;
+  /** User who first entered the product, the only one who may change it */
+  contributedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Input type for adding or correcting a catalog product
+ */
+export interface CatalogProductInput {
+  barcode: string;
+  name: string;
+  brand?: string;
+  category: string;
+  imageUrl?: string;
+}
+
+/**
+ * product_catalog row as stored
+ */
+export interface CatalogProductRow {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  category: string;
+  image_url: string | null;
+  contributed_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,78 @@
+/**
+ * Product Sync Types
+ * Type definitions for the queue of barcodes waiting for a product
+ * lookup, kept on product_cache rows
+ */
+
+// ============================================================================
+// Enums / Union Types
+// ============================================================================
+
+/**
+ * QUEUED: waiting for (another) lookup; FAILED: gave up after too many attempts
+ */
+export type ProductSyncStatus = 'QUEUED' | 'FAILED';
+
+export const PRODUCT_SYNC_STATUSES: ProductSyncStatus[] = ['QUEUED', 'FAILED'];
+
+/**
+ * product_cache.source of a placeholder row for a barcode queued before any
+ * product is known; lookups skip these rows
+ */
+export const PENDING_PRODUCT_SOURCE = 'pending';
+
+// ============================================================================
+// Product Sync Models
+// ============================================================================
+
+/**
+ * A barcode in the sync queue
+ */
+export interface ProductSyncEntry {
+  /** GTIN-14 */
+  barcode: string;
+  /** Cached product name; undefined until a product has been found */
+  name?: string;
+  status: ProductSyncStatus;
+  /** Lookups tried by the worker so far */
+  attempts: number;
+  /** Why the last lookup failed */
+  lastError?: string;
+  /** ISO 8601 timestamp the next lookup is due (QUEUED only) */
+  nextAttemptAt?: string;
+  updatedAt: string;
+}
+
+/**
+ * A queued barcode claimed by a worker
+ */
+export interface ClaimedProductSync {
+  barcode: string;
+  attempts: number;
+}
+
+/**
+ * Queue depth, for the admin API
+ */
+export interface ProductSyncStats {
+  /** Barcodes waiting for a lookup */
+  queued: number;
+  /** Queued barcodes whose next lookup is due now */
+  due: number;
+  /** Barcodes given up on */
+  failed: number;
+}
+
+/**
+ * product_cache columns read for the sync queue
+ */
+export interface ProductSyncRow {
+  barcode: string;
+  name: string;
+  source: string;
+  needs_sync: number;
+  sync_retry_count: number;
+  last_error: string | null;
+  sync_after: string | null;
+  updated_at: string;
+}
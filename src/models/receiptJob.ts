@@ -0,0 +1,97 @@
+/**
+ * Receipt Job Types
+ * Type definitions for the queue of receipt images waiting to be scanned
+ */
+
+import type { ReceiptScanResult } from '../services/receiptOcr';
+
+// ============================================================================
+// Enums / Union Types
+// ============================================================================
+
+/**
+ * Where a job is in the queue
+ * PENDING: waiting for a worker (first run or a retry); PROCESSING: claimed by
+ * a worker; SUCCEEDED and FAILED are final
+ */
+export type ReceiptJobStatus = 'PENDING' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED';
+
+export const RECEIPT_JOB_STATUSES: ReceiptJobStatus[] = ['PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED'];
+
+// ============================================================================
+// Receipt Job Models
+// ============================================================================
+
+/**
+ * The captured session receipt a job reads, so the scan's header is saved on it
+ */
+export interface SessionReceiptTarget {
+  /** Owner of the session: the user, or their household */
+  ownerId: string;
+  sessionId: string;
+  receiptId: string;
+}
+
+/**
+ * A receipt scan submitted to the queue
+ */
+export interface ReceiptJob {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Clerk user ID of the submitter */
+  userId: string;
+  status: ReceiptJobStatus;
+  /** Runs started so far */
+  attempts: number;
+  /** Runs allowed before the job fails */
+  maxAttempts: number;
+  /** The scan, once the job has succeeded */
+  result?: ReceiptScanResult;
+  /** Why the last run failed */
+  error?: string;
+  /** Set when the scan reads a receipt captured for a shopping session */
+  sessionReceipt?: SessionReceiptTarget;
+  /** ISO 8601 timestamp the job may run (again) from */
+  runAt: string;
+  /** ISO 8601 timestamp the last run started */
+  startedAt?: string;
+  /** ISO 8601 timestamp the job succeeded or finally failed */
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A job claimed by a worker, with the image to scan
+ */
+export interface ClaimedReceiptJob extends ReceiptJob {
+  /** Base64 encoded image */
+  imageData: string;
+}
+
+/**
+ * Database schema representation for receipt_jobs table
+ */
+export interface ReceiptJobRow {
+  id: string;
+  user_id: string;
+  status: ReceiptJobStatus;
+  /** Cleared once the job succeeds */
+  image_data: string | null;
+  /** JSON-encoded ReceiptScanResult */
+  result: string | null;
+  error: string | null;
+  /** owner_id, session_id and receipt_id are set together, or all NULL */
+  owner_id: string | null;
+  session_id: string | null;
+  receipt_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  /** A PROCESSING job whose lease ran out is claimed again (the worker died) */
+  locked_until: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,147 @@
+/**
+ * Recipe Types
+ * Type definitions for the recipe catalog and pantry matching
+ */
+
+// ============================================================================
+// Recipe Models
+// ============================================================================
+
+/**
+ * One ingredient line of a recipe
+ */
+export interface RecipeIngredient {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Recipe this line belongs to */
+  recipeId: string;
+  /** Position of the line within the recipe (0-based) */
+  position: number;
+  /** Ingredient name, matched against pantry item names */
+  name: string;
+  /** Amount needed for the recipe's servings, if stated */
+  quantity?: number;
+  /** Unit of measurement for quantity */
+  unit?: string;
+}
+
+/**
+ * Database schema representation for recipe_ingredients table
+ */
+export interface RecipeIngredientRow {
+  id: string;
+  recipe_id: string;
+  position: number;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+/**
+ * Represents a recipe in a user's catalog
+ */
+export interface Recipe {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** User ID who owns this recipe */
+  userId: string;
+  /** Recipe title */
+  name: string;
+  /** Short description */
+  description?: string;
+  /** Number of servings the ingredient quantities make */
+  servings?: number;
+  /** Preparation steps, one per line */
+  instructions?: string;
+  /** Where the recipe was imported from */
+  sourceUrl?: string;
+  /** Ingredient lines in recipe order */
+  ingredients: RecipeIngredient[];
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for recipes table
+ */
+export interface RecipeRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  servings: number | null;
+  instructions: string | null;
+  source_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Pantry Matching
+// ============================================================================
+
+/**
+ * A recipe ingredient covered by a pantry item
+ */
+export interface MatchedIngredient {
+  ingredient: RecipeIngredient;
+  /** Pantry item that covers the ingredient */
+  itemId: string;
+  itemName: string;
+  /** Quantity of the pantry item on hand */
+  available: number;
+  /** Unit of the pantry item */
+  unit: string;
+}
+
+/**
+ * How well the current pantry covers a recipe
+ */
+export interface RecipeMatch {
+  recipe: Recipe;
+  /** Number of ingredients the pantry covers */
+  matchedCount: number;
+  /** Number of ingredients in the recipe */
+  totalCount: number;
+  /** matchedCount / totalCount, 0-1 */
+  coverage: number;
+  matched: MatchedIngredient[];
+  /** Ingredients the pantry does not cover */
+  missing: RecipeIngredient[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Ingredient line in a create/update recipe request
+ */
+export interface RecipeIngredientRequest {
+  name: string;
+  quantity?: number;
+  unit?: string;
+}
+
+/**
+ * Request body for creating a recipe
+ */
+export interface CreateRecipeRequest {
+  name: string;
+  description?: string;
+  servings?: number;
+  instructions?: string;
+  sourceUrl?: string;
+  ingredients: RecipeIngredientRequest[];
+}
+
+/**
+ * Request body for cooking a recipe
+ * servings scales the ingredient quantities; skipMissing cooks without missing ingredients
+ */
+export interface CookRecipeRequest {
+  servings?: number;
+  skipMissing?: boolean;
+}
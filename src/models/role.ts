@@ -0,0 +1,90 @@
+/**
+ * Staff Role Types
+ * Type definitions for admin roles and the role grant audit log
+ */
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+/**
+ * Staff roles for the admin API, lowest to highest
+ * read_only: views dashboards and error reports; support: also resolves
+ * client errors; admin: also grants and revokes roles
+ */
+export type UserRole = 'read_only' | 'support' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['read_only', 'support', 'admin'];
+
+/**
+ * Audit log entry types
+ */
+export type RoleAuditAction = 'GRANT' | 'REVOKE';
+
+// ============================================================================
+// Role Models
+// ============================================================================
+
+/**
+ * A role granted to a user in the local user_roles table
+ * Roles can also come from Clerk session claims; those are not stored
+ */
+export interface RoleAssignment {
+  /** Clerk user ID holding the role */
+  userId: string;
+  role: UserRole;
+  /** User ID of the admin who granted it */
+  grantedBy: string;
+  /** ISO 8601 timestamp of the grant */
+  grantedAt: string;
+}
+
+/**
+ * Database schema representation for user_roles table
+ */
+export interface RoleAssignmentRow {
+  user_id: string;
+  role: UserRole;
+  granted_by: string;
+  granted_at: string;
+}
+
+/**
+ * A recorded role grant or revocation
+ */
+export interface RoleAuditEntry {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** User whose role changed */
+  userId: string;
+  role: UserRole;
+  action: RoleAuditAction;
+  /** User ID of the admin who made the change */
+  performedBy: string;
+  /** ISO 8601 timestamp of the change */
+  createdAt: string;
+}
+
+/**
+ * Database schema representation for role_audit_log table
+ */
+export interface RoleAuditEntryRow {
+  id: string;
+  user_id: string;
+  role: UserRole;
+  action: RoleAuditAction;
+  performed_by: string;
+  created_at: string;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Request body for granting a role
+ */
+export interface GrantRoleRequest {
+  userId: string;
+  role: UserRole;
+}
@@ -0,0 +1,93 @@
+/**
+ * Shopping List Types
+ * Type definitions for the persistent shopping list
+ */
+
+// ============================================================================
+// Shopping List Models
+// ============================================================================
+
+/**
+ * How an entry got onto the list
+ * AUTO entries are added when an item drops below its minQuantity
+ */
+export type ShoppingListItemSource = 'AUTO' | 'MANUAL';
+
+/**
+ * Represents an entry on a user's shopping list
+ */
+export interface ShoppingListItem {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** User ID who owns this entry */
+  userId: string;
+  /** Pantry item this entry restocks, if any */
+  itemId?: string;
+  /** Display name of the entry */
+  name: string;
+  /** Quantity to buy */
+  quantity: number;
+  /** Unit of measurement */
+  unit?: string;
+  /** Category for organization */
+  category?: string;
+  /** Optional barcode, carried into the shopping session */
+  barcode?: string;
+  /** Whether the entry has been checked off */
+  checked: boolean;
+  /** How the entry was added */
+  source: ShoppingListItemSource;
+  /** ISO 8601 timestamp when the entry was checked off */
+  checkedAt?: string;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for shopping_list_items table
+ */
+export interface ShoppingListItemRow {
+  id: string;
+  user_id: string;
+  item_id: string | null;
+  name: string;
+  quantity: number;
+  unit: string | null;
+  category: string | null;
+  barcode: string | null;
+  checked: number | boolean;
+  source: ShoppingListItemSource;
+  checked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Request body for adding an entry to the shopping list
+ * Either itemId or name is required; details default from the pantry item
+ */
+export interface AddShoppingListItemRequest {
+  itemId?: string;
+  name?: string;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  barcode?: string;
+}
+
+/**
+ * Request body for updating a shopping list entry
+ */
+export interface UpdateShoppingListItemRequest {
+  name?: string;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  checked?: boolean;
+}
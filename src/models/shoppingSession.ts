@@ -87,6 +87,8 @@ export interface SessionItem {
   price?: number;
   /** Category for organization */
   category?: string;
+  /** Best-before date (YYYY-MM-DD), carried onto the pantry lot */
+  bestBefore?: string;
   /** ISO 8601 timestamp when item was added */
   addedAt: string;
   /** ISO 8601 timestamp of last update */
@@ -105,6 +107,7 @@ export interface SessionItemRow {
   unit: string | null;
   price: number | null;
   category: string | null;
+  best_before: string | null;
   added_at: string;
   updated_at: string;
 }
@@ -139,6 +142,8 @@ export interface AddSessionItemRequest {
   price?: number;
   /** Category */
   category?: string;
+  /** Best-before date (YYYY-MM-DD) */
+  bestBefore?: string;
 }
 
 /**
@@ -185,6 +190,41 @@ export interface SessionSummary {
 // Session Receipt Models
 // ============================================================================
 
+/**
+ * How a receipt was paid
+ */
+export type ReceiptPaymentMethod =
+  | 'VISA'
+  | 'MASTERCARD'
+  | 'AMEX'
+  | 'DISCOVER'
+  | 'DEBIT'
+  | 'CREDIT'
+  | 'EBT'
+  | 'GIFT_CARD'
+  | 'CASH';
+
+/**
+ * Purchase details read off a receipt, around its item lines
+ */
+export interface ReceiptHeader {
+  /** Purchase date (YYYY-MM-DD) */
+  date?: string;
+  /** Purchase time (HH:MM, 24-hour) */
+  time?: string;
+  subtotal?: number;
+  /** Sum of the tax lines */
+  tax?: number;
+  /** Sum of the coupon and discount lines */
+  discounts?: number;
+  total?: number;
+  paymentMethod?: ReceiptPaymentMethod;
+  /** Last four digits of the card paid with */
+  cardLast4?: string;
+  /** Subtotal + tax differs from the total; only checked when all three are printed */
+  totalMismatch?: boolean;
+}
+
 /**
  * Represents a receipt image captured for a shopping session
  */
@@ -193,12 +233,23 @@ export interface SessionReceipt {
   id: string;
   /** Reference to parent shopping session */
   sessionId: string;
-  /** Base64 encoded image data */
-  imageData: string;
+  /**
+   * Blob storage key of the image; absent for receipts captured before blob
+   * storage until they have been moved (npm run db:migrate-receipt-images)
+   */
+  imageKey?: string;
+  /** Blob storage key of a JPEG thumbnail, when one could be made */
+  thumbnailKey?: string;
+  /** SHA-256 of the image (hex) */
+  contentHash?: string;
+  /** Image size in bytes */
+  sizeBytes?: number;
   /** MIME type of the image (e.g., 'image/jpeg', 'image/png') */
   mimeType: string;
   /** Optional notes about the receipt */
   notes?: string;
+  /** Purchase details, once the receipt has been read */
+  header?: ReceiptHeader;
   /** ISO 8601 timestamp when receipt was captured */
   capturedAt: string;
   /** ISO 8601 timestamp of creation */
@@ -211,13 +262,42 @@ export interface SessionReceipt {
 export interface SessionReceiptRow {
   id: string;
   session_id: string;
-  image_data: string;
+  /** Base64 image of a receipt not yet moved to blob storage */
+  image_data: string | null;
+  image_key: string | null;
+  thumbnail_key: string | null;
+  content_hash: string | null;
+  size_bytes: number | null;
   mime_type: string;
   notes: string | null;
+  /** JSON-encoded ReceiptHeader */
+  header: string | null;
   captured_at: string;
   created_at: string;
 }
 
+/**
+ * A receipt image written to blob storage, as recorded on its receipt
+ */
+export interface StoredReceiptImage {
+  imageKey: string;
+  thumbnailKey?: string;
+  contentHash: string;
+  sizeBytes: number;
+  mimeType: string;
+}
+
+/**
+ * A receipt whose image is still stored in the database
+ */
+export interface UnmovedSessionReceipt {
+  id: string;
+  sessionId: string;
+  /** Base64 encoded image, possibly a data URI */
+  imageData: string;
+  mimeType: string;
+}
+
 /**
  * Request body for capturing a receipt
  */
@@ -229,3 +309,95 @@ export interface CaptureReceiptRequest {
   /** Optional notes about the receipt */
   notes?: string;
 }
+
+// ============================================================================
+// Session Reconciliation Models
+// ============================================================================
+
+/**
+ * How a session and its receipt disagree:
+ * - MISSING: a session item that isn't on the receipt
+ * - EXTRA: a receipt line that isn't in the session
+ * - PRICE_MISMATCH: a matched line charged a different amount
+ */
+export type ReconciliationIssueType = 'MISSING' | 'EXTRA' | 'PRICE_MISMATCH';
+
+/**
+ * A line read off a receipt image
+ */
+export interface ReceiptLine {
+  name: string;
+  /** Barcode or PLU printed on the line */
+  barcode?: string;
+  quantity: number;
+  unit?: string;
+  category?: string;
+  /** Amount charged for the line */
+  price?: number;
+}
+
+/**
+ * A change that makes a session agree with its receipt
+ */
+export type ReconciliationFix =
+  | { type: 'REMOVE_ITEM'; sessionItemId: string }
+  | {
+      type: 'ADD_ITEM';
+      name: string;
+      barcode?: string;
+      quantity: number;
+      unit?: string;
+      /** Price per unit, so price * quantity is the amount charged */
+      price: number;
+      category?: string;
+    }
+  | {
+      type: 'UPDATE_PRICE';
+      sessionItemId: string;
+      /** Price per unit, so price * quantity is the amount charged */
+      price: number;
+    };
+
+/**
+ * A session item paired with the receipt line it was bought on
+ */
+export interface ReconciliationMatch {
+  sessionItemId: string;
+  /** Index of the line in the receipt's lines */
+  receiptLine: number;
+  matchedOn: 'barcode' | 'name';
+  score: number;
+}
+
+/**
+ * One disagreement between a session and its receipt, with its fix
+ */
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  /** Absent for EXTRA */
+  sessionItem?: SessionItem;
+  /** Absent for MISSING */
+  receiptLine?: ReceiptLine;
+  /** Session amount (price * quantity) */
+  expectedAmount?: number;
+  /** Receipt amount */
+  chargedAmount?: number;
+  fix: ReconciliationFix;
+}
+
+/**
+ * A session compared line by line with a receipt captured for it
+ */
+export interface SessionReconciliation {
+  sessionId: string;
+  receiptId: string;
+  /** Sum of the session's priced items */
+  sessionTotal: number;
+  /** Total printed on the receipt, or the sum of its lines */
+  receiptTotal: number;
+  lines: ReceiptLine[];
+  matches: ReconciliationMatch[];
+  issues: ReconciliationIssue[];
+  /** How much more the receipt charged than the session on mismatched lines */
+  overcharged: number;
+}
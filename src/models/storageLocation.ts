@@ -0,0 +1,75 @@
+/**
+ * Storage Location Types
+ * Type definitions for user-defined storage locations (fridge, freezer, shelf)
+ */
+
+import { Activity, PantryItem } from './types';
+
+// ============================================================================
+// Storage Location Models
+// ============================================================================
+
+/**
+ * A place pantry items are kept
+ * The same product stored in two locations is tracked as two items
+ */
+export interface StorageLocation {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** User ID who owns this location */
+  userId: string;
+  /** Display name, unique per owner (case-insensitive) */
+  name: string;
+  /** Number of items stored here */
+  itemCount: number;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  updatedAt: string;
+}
+
+/**
+ * Database schema representation for storage_locations table
+ * item_count is computed when listing
+ */
+export interface StorageLocationRow {
+  id: string;
+  user_id: string;
+  name: string;
+  item_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Outcome of moving stock to another location
+ */
+export interface MoveItemResult {
+  /** The moved item, or what is left of it after a partial move */
+  item: PantryItem;
+  /** Item now holding the moved stock (the same item for a full move) */
+  destination: PantryItem;
+  /** MOVED activities logged for the move */
+  activities: Activity[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Request body for creating or renaming a storage location
+ */
+export interface StorageLocationRequest {
+  name: string;
+}
+
+/**
+ * Request body for moving an item
+ * locationId null moves the item out of any location
+ * A quantity below the item's stock splits it into an item at the destination
+ */
+export interface MoveItemRequest {
+  locationId: string | null;
+  quantity?: number;
+}
@@ -0,0 +1,92 @@
+/**
+ * Stripe Webhook Event Types
+ * Type definitions for the record of Stripe webhook deliveries
+ */
+
+// ============================================================================
+// Enums / Union Types
+// ============================================================================
+
+/**
+ * Where an event is in processing
+ * PROCESSING: a delivery is being handled; PROCESSED: handled; SKIPPED: a
+ * subscription update older than one already applied, so left alone;
+ * FAILED: the handler threw, and Stripe's next retry or a replay runs it again
+ */
+export type StripeWebhookEventStatus = 'PROCESSING' | 'PROCESSED' | 'SKIPPED' | 'FAILED';
+
+export const STRIPE_WEBHOOK_EVENT_STATUSES: StripeWebhookEventStatus[] = ['PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED'];
+
+// ============================================================================
+// Stripe Webhook Event Models
+// ============================================================================
+
+/**
+ * A Stripe event received through the webhook
+ */
+export interface StripeWebhookEvent {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Stripe's event ID (evt_...) */
+  stripeEventId: string;
+  /** Event type, e.g. invoice.paid */
+  eventType: string;
+  /** ID of the Stripe object the event is about (subscription, invoice, ...) */
+  objectId?: string;
+  /** Clerk user ID, once a handler has found it */
+  userId?: string;
+  status: StripeWebhookEventStatus;
+  /** Times processing has started */
+  attempts: number;
+  /** Why the last attempt failed */
+  error?: string;
+  /** ISO 8601 timestamp Stripe created the event at */
+  stripeCreatedAt: string;
+  /** ISO 8601 timestamp the event was processed or skipped */
+  processedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An event claimed for processing, with the payload Stripe sent
+ */
+export interface ClaimedStripeWebhookEvent extends StripeWebhookEvent {
+  /** The verified event as JSON */
+  payload: string;
+}
+
+/**
+ * A verified event to record
+ */
+export interface NewStripeWebhookEvent {
+  stripeEventId: string;
+  eventType: string;
+  objectId?: string;
+  stripeCreatedAt: string;
+  payload: string;
+}
+
+/**
+ * Database schema representation for stripe_webhook_events table
+ */
+export interface StripeWebhookEventRow {
+  id: string;
+  stripe_event_id: string;
+  event_type: string;
+  object_id: string | null;
+  user_id: string | null;
+  status: StripeWebhookEventStatus;
+  /** Set once the event is PROCESSED or SKIPPED (kept for older queries) */
+  processed: boolean | number;
+  /** JSON-encoded Stripe event */
+  payload: string;
+  attempts: number;
+  error: string | null;
+  stripe_created_at: string;
+  /** A PROCESSING event whose lease ran out is claimed again (the handler died) */
+  locked_until: string | null;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
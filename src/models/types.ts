@@ -11,6 +11,20 @@ export type ActivityType = 'ADD' | 'REMOVE' | 'ADJUST' | 'SHOPPING_SESSION';
 
 export type ActivitySource = 'MANUAL' | 'RECEIPT_SCAN' | 'VISUAL_USAGE' | 'SHOPPING_SESSION';
 
+/**
+ * Why stock changed - separates eating from discarding in the log
+ */
+export type ActivityReason =
+  | 'CONSUMED'
+  | 'EXPIRED'
+  | 'SPOILED'
+  | 'DONATED'
+  | 'INVENTORY_CORRECTION'
+  | 'MOVED';
+
+/** Reasons that count as food waste in reporting */
+export const WASTE_REASONS: ActivityReason[] = ['EXPIRED', 'SPOILED'];
+
 // ============================================================================
 // Pantry Item Model
 // ============================================================================
@@ -36,6 +50,14 @@ export interface PantryItem {
   userId: string;
   /** Optional barcode for the item */
   barcode?: string;
+  /** Low-stock threshold; dropping below it adds the item to the shopping list */
+  minQuantity?: number;
+  /** Quantity to restock up to (defaults to minQuantity) */
+  targetQuantity?: number;
+  /** Storage location the item is kept in, if assigned */
+  locationId?: string;
+  /** Density in g/ml, set by the user; lets weights and volumes of the item convert */
+  density?: number;
 }
 
 /**
@@ -50,6 +72,164 @@ export interface PantryItemRow {
   category: string;
   last_updated: string;
   user_id: string;
+  min_quantity: number | null;
+  target_quantity: number | null;
+  location_id: string | null;
+  density: number | null;
+}
+
+// ============================================================================
+// Item Lot Model
+// ============================================================================
+
+/**
+ * Represents a single purchase lot (batch) of a pantry item
+ * Lots are consumed first-expiring-first when stock is removed
+ */
+export interface ItemLot {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Reference to the parent pantry item */
+  itemId: string;
+  /** User ID who owns this lot */
+  userId: string;
+  /** Quantity still remaining in this lot */
+  quantity: number;
+  /** Quantity the lot was created with */
+  initialQuantity: number;
+  /** Date the lot was purchased or added (YYYY-MM-DD) */
+  purchaseDate: string;
+  /** Best-before date (YYYY-MM-DD), if known */
+  bestBefore?: string;
+  /** Source of the activity that created the lot */
+  source: ActivitySource;
+  /** ISO 8601 timestamp of creation */
+  createdAt: string;
+}
+
+/**
+ * Database schema representation for item_lots table
+ */
+export interface ItemLotRow {
+  id: string;
+  item_id: string;
+  user_id: string;
+  quantity: number;
+  initial_quantity: number;
+  purchase_date: string;
+  best_before: string | null;
+  source: ActivitySource;
+  created_at: string;
+}
+
+/**
+ * Pantry item with its lot breakdown (GET /api/items/:id)
+ */
+export interface PantryItemWithLots extends PantryItem {
+  /** Open lots ordered first-expiring-first */
+  lots: ItemLot[];
+  /** Stock not covered by any lot (e.g. items created before lot tracking) */
+  untrackedQuantity: number;
+}
+
+// ============================================================================
+// Item Search
+// ============================================================================
+
+/** Item field a search result matched best on */
+export type SearchField = 'name' | 'barcode' | 'brand' | 'category';
+
+/**
+ * A ranked item search result (GET /api/items/search)
+ */
+export interface ItemSearchResult {
+  item: PantryItem;
+  /** Match score from 0 to 1; 1 is an exact name or barcode match */
+  score: number;
+  /** Field the score came from */
+  matchedOn: SearchField;
+  /** Brand from the product cache, when the item has a cached barcode */
+  brand?: string;
+}
+
+// ============================================================================
+// Expiry & Waste Reporting
+// ============================================================================
+
+/**
+ * An open lot with its item details, as listed by the expiring-soon view
+ */
+export interface ExpiringLot extends ItemLot {
+  /** Name of the parent pantry item */
+  itemName: string;
+  /** Category of the parent pantry item */
+  category: string;
+  /** Unit of the parent pantry item */
+  unit: string;
+  /** Days until the best-before date (negative once expired) */
+  daysUntilExpiry?: number;
+}
+
+/**
+ * A quantity of stock that went to waste, priced from shopping history
+ */
+export interface WasteEntry {
+  /** Reference to the wasted pantry item */
+  itemId: string;
+  /** Name of the wasted pantry item */
+  itemName: string;
+  /** Category of the wasted pantry item */
+  category: string;
+  /** Unit of the wasted pantry item */
+  unit: string;
+  /** Quantity wasted */
+  quantity: number;
+  /** Date the waste is attributed to (YYYY-MM-DD) */
+  date: string;
+  /** Lot that expired unused (expired stock still on hand) */
+  lotId?: string;
+  /** Activity that discarded the stock (EXPIRED/SPOILED removals) */
+  activityId?: string;
+  /** Reason recorded on the discarding activity */
+  reason?: ActivityReason;
+  /** Average price paid per unit in past shopping sessions, if known */
+  unitPrice?: number;
+}
+
+/**
+ * Waste totals for one category within one month
+ */
+export interface WasteReportCategory {
+  category: string;
+  /** Number of waste entries in the group */
+  entryCount: number;
+  /** Estimated money lost (priced entries only) */
+  estimatedLoss: number;
+  /** Entries with no price history, excluded from estimatedLoss */
+  unpricedCount: number;
+  entries: WasteEntry[];
+}
+
+/**
+ * Waste totals for one calendar month
+ */
+export interface WasteReportMonth {
+  /** Calendar month (YYYY-MM) */
+  month: string;
+  estimatedLoss: number;
+  categories: WasteReportCategory[];
+}
+
+/**
+ * Waste report grouped by month and category
+ */
+export interface WasteReport {
+  /** First day covered (YYYY-MM-DD) */
+  from: string;
+  /** Last day covered (YYYY-MM-DD) */
+  to: string;
+  totalEstimatedLoss: number;
+  months: WasteReportMonth[];
 }
 
 // ============================================================================
@@ -75,8 +255,12 @@ export interface Activity {
   timestamp: string;
   /** Source of the activity entry */
   source: ActivitySource;
-  /** User ID who performed this activity */
+  /** Why the stock changed (optional) */
+  reason?: ActivityReason;
+  /** Inventory owner: the user ID, or the household ID for a shared inventory */
   userId: string;
+  /** User ID of the member who made the change */
+  performedBy?: string;
   /** Optional metadata for additional context (JSON string) */
   metadata?: string;
 }
@@ -92,7 +276,9 @@ export interface ActivityRow {
   amount: number;
   timestamp: string;
   source: ActivitySource;
+  reason?: ActivityReason | null;
   user_id: string;
+  performed_by?: string | null;
   metadata?: string;
 }
 
@@ -113,6 +299,12 @@ export interface ScanResult {
   unit?: string;
   /** Suggested category (optional - may be classified) */
   category?: string;
+  /** Purchase date for the created lot (optional - defaults to today) */
+  purchaseDate?: string;
+  /** Best-before date for the created lot (optional) */
+  bestBefore?: string;
+  /** Price paid for the line, all of quantity (optional - recorded in price history) */
+  price?: number;
 }
 
 /**
@@ -124,6 +316,10 @@ export interface UsageResult {
   name: string;
   /** Estimated quantity used */
   quantityUsed: number;
+  /** Unit of quantityUsed (optional - defaults to the item's unit) */
+  unit?: string;
+  /** Storage location the item was taken from (optional - any location) */
+  locationId?: string;
 }
 
 /**
@@ -175,7 +371,10 @@ export interface CreateActivityRequest {
   itemId: string;
   type: ActivityType;
   amount: number;
+  /** Unit of amount (optional - defaults to the item's unit) */
+  unit?: string;
   source?: ActivitySource;
+  reason?: ActivityReason;
 }
 
 /**
@@ -228,6 +427,16 @@ export interface ResponseMeta {
 // Barcode & Product Cache Types
 // ============================================================================
 
+/**
+ * Product fields a product source can supply
+ */
+export type ProductField = 'name' | 'brand' | 'category' | 'imageUrl' | 'ingredients' | 'nutrition';
+
+/**
+ * The source each product field came from (e.g., { brand: 'catalog' })
+ */
+export type ProductProvenance = Partial<Record<ProductField, string>>;
+
 /**
  * Product information returned from barcode lookup
  * Cached to reduce third-party API calls
@@ -247,8 +456,10 @@ export interface ProductInfo {
   ingredients?: string;
   /** Nutrition information per 100g (optional) */
   nutrition?: Record<string, number>;
-  /** Data source (e.g., 'openfoodfacts') */
+  /** Data source (e.g., 'openfoodfacts'); the source of the name when merged */
   source: string;
+  /** Source of each field the product data supplied (optional) */
+  provenance?: ProductProvenance;
   /** ISO 8601 timestamp of when info was last synced */
   infoLastSynced: string;
 }
@@ -269,6 +480,10 @@ export interface BarcodeLookupResponse {
   stale?: boolean;
   /** Whether the request was rate limited */
   rateLimited?: boolean;
+  /** Seconds until the product source may be asked again (when rate limited) */
+  retryAfter?: number;
+  /** Whether a failed lookup was queued to be retried in the background */
+  queued?: boolean;
 }
 
 /**
@@ -283,6 +498,7 @@ export interface ProductCacheInput {
   ingredients?: string;
   nutrition?: Record<string, number>;
   source: string;
+  provenance?: ProductProvenance;
 }
 
 // ============================================================================
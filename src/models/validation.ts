@@ -4,7 +4,8 @@
  */
 
 import { z } from 'zod';
-import { ActivityType, ActivitySource } from './types';
+import { ActivityType, ActivitySource, ActivityReason } from './types';
+import { normalizeBarcode } from '../services/barcode';
 
 // ============================================================================
 // Validation Constants
@@ -14,6 +15,65 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-
 const MAX_ITEM_NAME_LENGTH = 100;
 const MAX_UNIT_LENGTH = 20;
 const MAX_CATEGORY_LENGTH = 50;
+const MAX_LOCATION_NAME_LENGTH = 50;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_PRICE_HISTORY_DAYS = 730;
+
+// ============================================================================
+// Shared Field Schemas
+// ============================================================================
+
+// Low-stock threshold quantities (minQuantity / targetQuantity)
+const thresholdQuantitySchema = z
+  .number()
+  .min(0, 'Quantity must be non-negative')
+  .max(999999, 'Quantity exceeds maximum allowed value');
+
+const thresholdsInOrder = (val: { minQuantity?: number | null; targetQuantity?: number | null }) =>
+  val.minQuantity == null || val.targetQuantity == null || val.targetQuantity >= val.minQuantity;
+
+const thresholdsInOrderError = {
+  message: 'targetQuantity must be at least minQuantity',
+  path: ['targetQuantity'],
+};
+
+// Item density in g/ml (water is 1), for converting between weight and volume
+const densitySchema = z
+  .number()
+  .positive('Density must be positive')
+  .max(25, 'Density exceeds maximum allowed value');
+
+// Storage location reference on items and usage detections
+const locationIdSchema = z
+  .string()
+  .regex(UUID_REGEX, 'Invalid location ID format');
+
+/**
+ * Barcode on items, shopping list and session entries - GTINs (UPC, EAN)
+ * are checked and normalized to GTIN-14; other codes are kept as given
+ */
+const barcodeSchema = z
+  .string()
+  .max(50, 'Barcode must be less than 50 characters')
+  .transform((val, ctx) => {
+    const normalized = normalizeBarcode(val);
+    if (normalized === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid barcode check digit' });
+      return z.NEVER;
+    }
+    return normalized;
+  });
+
+/**
+ * Calendar date (e.g. best-before) - accepts YYYY-MM-DD or a full ISO
+ * timestamp and normalizes to YYYY-MM-DD
+ */
+const calendarDateSchema = z
+  .string()
+  .refine((val) => /^\d{4}-\d{2}-\d{2}/.test(val) && !isNaN(Date.parse(val)), {
+    message: 'Must be a valid date (YYYY-MM-DD)',
+  })
+  .transform((val) => val.slice(0, 10));
 
 // ============================================================================
 // Pantry Item Validation
@@ -25,10 +85,7 @@ export const createItemSchema = z.object({
     .min(1, 'Item name is required')
     .max(MAX_ITEM_NAME_LENGTH, `Item name must be less than ${MAX_ITEM_NAME_LENGTH} characters`)
     .trim(),
-  barcode: z
-    .string()
-    .max(50, 'Barcode must be less than 50 characters')
-    .optional(),
+  barcode: barcodeSchema.optional(),
   quantity: z
     .number()
     .min(0, 'Quantity must be non-negative')
@@ -43,7 +100,12 @@ export const createItemSchema = z.object({
     .min(1, 'Category is required')
     .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
     .trim(),
-});
+  bestBefore: calendarDateSchema.optional(),
+  minQuantity: thresholdQuantitySchema.optional(),
+  targetQuantity: thresholdQuantitySchema.optional(),
+  locationId: locationIdSchema.optional(),
+  density: densitySchema.optional(),
+}).refine(thresholdsInOrder, thresholdsInOrderError);
 
 export const updateItemSchema = z.object({
   name: z
@@ -52,10 +114,7 @@ export const updateItemSchema = z.object({
     .max(MAX_ITEM_NAME_LENGTH, `Item name must be less than ${MAX_ITEM_NAME_LENGTH} characters`)
     .trim()
     .optional(),
-  barcode: z
-    .string()
-    .max(50, 'Barcode must be less than 50 characters')
-    .optional(),
+  barcode: barcodeSchema.optional(),
   quantity: z
     .number()
     .min(0, 'Quantity must be non-negative')
@@ -73,7 +132,10 @@ export const updateItemSchema = z.object({
     .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
     .trim()
     .optional(),
-});
+  minQuantity: thresholdQuantitySchema.nullable().optional(),
+  targetQuantity: thresholdQuantitySchema.nullable().optional(),
+  density: densitySchema.nullable().optional(),
+}).refine(thresholdsInOrder, thresholdsInOrderError);
 
 export const itemIdSchema = z.object({
   id: z
@@ -81,6 +143,41 @@ export const itemIdSchema = z.object({
     .regex(UUID_REGEX, 'Invalid UUID format'),
 });
 
+// Location filter for listing items: a location ID, or "none" for unassigned items
+export const itemLocationQuerySchema = z.object({
+  locationId: z
+    .union([locationIdSchema, z.literal('none')])
+    .optional()
+    .transform((val) => (val === 'none' ? null : val)),
+});
+
+export const moveItemSchema = z.object({
+  locationId: locationIdSchema.nullable(),
+  quantity: z
+    .number()
+    .min(0.001, 'Quantity must be greater than 0')
+    .max(999999, 'Quantity exceeds maximum allowed value')
+    .optional(),
+});
+
+export const itemSearchQuerySchema = z.object({
+  q: z
+    .string({ required_error: 'Search query is required' })
+    .trim()
+    .min(1, 'Search query is required')
+    .max(MAX_ITEM_NAME_LENGTH, `Search query must be less than ${MAX_ITEM_NAME_LENGTH} characters`),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional()),
+  category: z.string().max(MAX_CATEGORY_LENGTH).optional(),
+  locationId: z
+    .union([locationIdSchema, z.literal('none')])
+    .optional()
+    .transform((val) => (val === 'none' ? null : val)),
+});
+
 // ============================================================================
 // Activity Validation
 // ============================================================================
@@ -88,6 +185,18 @@ export const itemIdSchema = z.object({
 const validActivityTypes: ActivityType[] = ['ADD', 'REMOVE', 'ADJUST'];
 const validActivitySources: ActivitySource[] = ['MANUAL', 'RECEIPT_SCAN', 'VISUAL_USAGE'];
 
+// Reasons that describe stock leaving the pantry, so they never apply to an ADD
+const removalOnlyReasons: ActivityReason[] = ['CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED'];
+
+export const activityReasonSchema = z.enum([
+  'CONSUMED',
+  'EXPIRED',
+  'SPOILED',
+  'DONATED',
+  'INVENTORY_CORRECTION',
+  'MOVED',
+] as const);
+
 export const createActivitySchema = z.object({
   itemId: z
     .string()
@@ -104,8 +213,46 @@ export const createActivitySchema = z.object({
     .optional()
     .default('MANUAL')
     .refine((val): val is ActivitySource => validActivitySources.includes(val)),
+  unit: z
+    .string()
+    .min(1, 'Unit cannot be empty')
+    .max(MAX_UNIT_LENGTH, `Unit must be less than ${MAX_UNIT_LENGTH} characters`)
+    .trim()
+    .optional(),
+  reason: activityReasonSchema.optional(),
+  purchaseDate: calendarDateSchema.optional(),
+  bestBefore: calendarDateSchema.optional(),
+}).refine((val) => !(val.type === 'ADD' && val.reason && removalOnlyReasons.includes(val.reason)), {
+  message: 'Reason does not apply to ADD activities',
+  path: ['reason'],
+});
+
+export const activityQuerySchema = z.object({
+  reason: activityReasonSchema.optional(),
+});
+
+// ============================================================================
+// Expiry & Waste Validation
+// ============================================================================
+
+export const expiringQuerySchema = z.object({
+  withinDays: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 7))
+    .pipe(z.number().int().min(0).max(365)),
 });
 
+export const wasteReportQuerySchema = z
+  .object({
+    from: calendarDateSchema.optional(),
+    to: calendarDateSchema.optional(),
+  })
+  .refine((val) => !val.from || !val.to || val.from <= val.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
 // ============================================================================
 // Scan & Usage Validation
 // ============================================================================
@@ -126,6 +273,13 @@ export const scanResultSchema = z.object({
     .string()
     .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
     .optional(),
+  purchaseDate: calendarDateSchema.optional(),
+  bestBefore: calendarDateSchema.optional(),
+  price: z
+    .number()
+    .min(0, 'Price must be non-negative')
+    .max(999999.99, 'Price exceeds maximum allowed value')
+    .optional(),
 });
 
 export const scanReceiptSchema = z.object({
@@ -133,6 +287,11 @@ export const scanReceiptSchema = z.object({
     z.string().min(1, 'Scan data is required'),
     z.array(scanResultSchema).min(1, 'At least one item must be provided'),
   ]),
+  purchaseDate: calendarDateSchema.optional(),
+  storeName: z
+    .string()
+    .max(100, 'Store name must be less than 100 characters')
+    .optional(),
   minConfidence: z
     .number()
     .min(0)
@@ -148,6 +307,11 @@ export const usageResultSchema = z.object({
   quantityUsed: z
     .number()
     .min(0.001, 'Quantity used must be greater than 0'),
+  unit: z
+    .string()
+    .max(MAX_UNIT_LENGTH, `Unit must be less than ${MAX_UNIT_LENGTH} characters`)
+    .optional(),
+  locationId: locationIdSchema.optional(),
 });
 
 export const visualUsageSchema = z.object({
@@ -208,10 +372,7 @@ export const createSessionSchema = z.object({
 });
 
 export const addSessionItemSchema = z.object({
-  barcode: z
-    .string()
-    .max(50, 'Barcode must be less than 50 characters')
-    .optional(),
+  barcode: barcodeSchema.optional(),
   name: z
     .string()
     .min(1, 'Item name is required')
@@ -236,6 +397,7 @@ export const addSessionItemSchema = z.object({
     .string()
     .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
     .optional(),
+  bestBefore: calendarDateSchema.optional(),
 });
 
 export const completeSessionSchema = z.object({
@@ -262,6 +424,12 @@ export const sessionItemIdSchema = z.object({
     .regex(UUID_REGEX, 'Invalid UUID format'),
 });
 
+export const sessionReceiptIdSchema = z.object({
+  receiptId: z
+    .string()
+    .regex(UUID_REGEX, 'Invalid UUID format'),
+});
+
 export const updateSessionSchema = z.object({
   storeName: z
     .string()
@@ -278,10 +446,7 @@ export const updateSessionSchema = z.object({
           .string()
           .regex(UUID_REGEX, 'Invalid UUID format')
           .optional(),
-        barcode: z
-          .string()
-          .max(50, 'Barcode must be less than 50 characters')
-          .optional(),
+        barcode: barcodeSchema.optional(),
         name: z
           .string()
           .min(1, 'Item name is required')
@@ -326,6 +491,9 @@ export const captureReceiptSchema = z.object({
     .optional(),
 });
 
+// Form fields sent with a multipart receipt upload; the image is the file
+export const captureReceiptUploadSchema = captureReceiptSchema.pick({ notes: true });
+
 export const updateSessionReceiptSchema = z.object({
   receiptUrl: z
     .string()
@@ -333,6 +501,424 @@ export const updateSessionReceiptSchema = z.object({
     .max(500, 'Receipt URL must be less than 500 characters'),
 });
 
+// Price per unit set by a reconciliation fix
+const fixPriceSchema = z
+  .number()
+  .min(0, 'Price must be non-negative')
+  .max(999999.99, 'Price exceeds maximum allowed value');
+
+export const reconcileSessionSchema = captureReceiptSchema
+  .partial()
+  .extend({
+    receiptId: z
+      .string()
+      .regex(UUID_REGEX, 'Invalid receipt ID format')
+      .optional(),
+  })
+  .refine((val) => !(val.receiptId && val.imageData), {
+    message: 'Provide either receiptId or imageData, not both',
+    path: ['imageData'],
+  })
+  .refine((val) => !val.imageData || val.mimeType, {
+    message: 'mimeType is required with imageData',
+    path: ['mimeType'],
+  });
+
+const reconciliationFixSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('REMOVE_ITEM'),
+    sessionItemId: z.string().regex(UUID_REGEX, 'Invalid session item ID format'),
+  }),
+  z.object({
+    type: z.literal('UPDATE_PRICE'),
+    sessionItemId: z.string().regex(UUID_REGEX, 'Invalid session item ID format'),
+    price: fixPriceSchema,
+  }),
+  addSessionItemSchema.omit({ bestBefore: true }).extend({
+    type: z.literal('ADD_ITEM'),
+    price: fixPriceSchema,
+  }),
+]);
+
+export const applySessionFixesSchema = z.object({
+  fixes: z
+    .array(reconciliationFixSchema)
+    .min(1, 'At least one fix is required')
+    .max(200, 'Too many fixes'),
+});
+
+// ============================================================================
+// Shopping List Validation
+// ============================================================================
+
+export const addShoppingListItemSchema = z
+  .object({
+    itemId: z
+      .string()
+      .regex(UUID_REGEX, 'Invalid item ID format')
+      .optional(),
+    name: z
+      .string()
+      .min(1, 'Item name cannot be empty')
+      .max(MAX_ITEM_NAME_LENGTH, `Item name must be less than ${MAX_ITEM_NAME_LENGTH} characters`)
+      .trim()
+      .optional(),
+    quantity: z
+      .number()
+      .min(0.001, 'Quantity must be greater than 0')
+      .max(999999, 'Quantity exceeds maximum allowed value')
+      .optional()
+      .default(1),
+    unit: z
+      .string()
+      .max(MAX_UNIT_LENGTH, `Unit must be less than ${MAX_UNIT_LENGTH} characters`)
+      .optional(),
+    category: z
+      .string()
+      .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
+      .optional(),
+    barcode: barcodeSchema.optional(),
+  })
+  .refine((val) => val.itemId !== undefined || val.name !== undefined, {
+    message: 'Either itemId or name is required',
+    path: ['name'],
+  });
+
+export const updateShoppingListItemSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Item name cannot be empty')
+    .max(MAX_ITEM_NAME_LENGTH, `Item name must be less than ${MAX_ITEM_NAME_LENGTH} characters`)
+    .trim()
+    .optional(),
+  quantity: z
+    .number()
+    .min(0.001, 'Quantity must be greater than 0')
+    .max(999999, 'Quantity exceeds maximum allowed value')
+    .optional(),
+  unit: z
+    .string()
+    .max(MAX_UNIT_LENGTH, `Unit must be less than ${MAX_UNIT_LENGTH} characters`)
+    .optional(),
+  category: z
+    .string()
+    .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
+    .optional(),
+  checked: z.boolean().optional(),
+});
+
+export const shoppingListQuerySchema = z.object({
+  checked: z
+    .enum(['true', 'false'] as const)
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val === 'true')),
+});
+
+// ============================================================================
+// Household Validation
+// ============================================================================
+
+const householdNameSchema = z
+  .string()
+  .min(1, 'Household name cannot be empty')
+  .max(100, 'Household name must be less than 100 characters')
+  .trim();
+
+export const createHouseholdSchema = z.object({
+  name: householdNameSchema,
+});
+
+export const updateHouseholdSchema = z.object({
+  name: householdNameSchema,
+});
+
+export const joinHouseholdSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Invite code is required')
+    .max(20, 'Invite code must be less than 20 characters')
+    .trim(),
+});
+
+export const createHouseholdInviteSchema = z.object({
+  email: z.string().email('Invalid email address').max(254, 'Email must be less than 254 characters'),
+  role: z.enum(['editor', 'viewer'] as const).optional().default('editor'),
+});
+
+export const updateHouseholdMemberSchema = z.object({
+  role: z.enum(['editor', 'viewer'] as const, {
+    errorMap: () => ({ message: 'Role must be editor or viewer' }),
+  }),
+});
+
+// ============================================================================
+// Storage Location Validation
+// ============================================================================
+
+export const storageLocationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Location name cannot be empty')
+    .max(MAX_LOCATION_NAME_LENGTH, `Location name must be less than ${MAX_LOCATION_NAME_LENGTH} characters`),
+});
+
+// ============================================================================
+// Recipe Validation
+// ============================================================================
+
+const recipeIngredientSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Ingredient name cannot be empty')
+    .max(MAX_ITEM_NAME_LENGTH, `Ingredient name must be less than ${MAX_ITEM_NAME_LENGTH} characters`)
+    .trim(),
+  quantity: z
+    .number()
+    .min(0.001, 'Quantity must be greater than 0')
+    .max(999999, 'Quantity exceeds maximum allowed value')
+    .optional(),
+  unit: z
+    .string()
+    .max(MAX_UNIT_LENGTH, `Unit must be less than ${MAX_UNIT_LENGTH} characters`)
+    .optional(),
+});
+
+const recipeFields = {
+  name: z
+    .string()
+    .min(1, 'Recipe name cannot be empty')
+    .max(200, 'Recipe name must be less than 200 characters')
+    .trim(),
+  description: z.string().max(2000, 'Description must be less than 2000 characters').optional(),
+  servings: z.number().int('Servings must be a whole number').min(1).max(100).optional(),
+  instructions: z.string().max(20000, 'Instructions must be less than 20000 characters').optional(),
+  sourceUrl: z.string().url('Invalid source URL').max(500, 'Source URL must be less than 500 characters').optional(),
+  ingredients: z
+    .array(recipeIngredientSchema)
+    .min(1, 'A recipe needs at least one ingredient')
+    .max(100, 'A recipe can have at most 100 ingredients'),
+};
+
+export const createRecipeSchema = z.object(recipeFields);
+
+export const updateRecipeSchema = z.object(recipeFields).partial();
+
+export const cookRecipeSchema = z.object({
+  servings: z.number().int('Servings must be a whole number').min(1).max(100).optional(),
+  skipMissing: z.boolean().optional().default(false),
+});
+
+export const recipeMatchQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().min(1).max(100)),
+  maxMissing: z
+    .string()
+    .regex(/^\d+$/, 'maxMissing must be a non-negative integer')
+    .optional()
+    .transform((val) => (val === undefined ? undefined : parseInt(val, 10))),
+});
+
+// ============================================================================
+// Meal Plan Validation
+// ============================================================================
+
+export const mealSlotSchema = z.enum(['BREAKFAST', 'LUNCH', 'DINNER', 'SNACK']);
+
+const mealPlanFields = {
+  date: calendarDateSchema,
+  slot: mealSlotSchema,
+  recipeId: z.string().regex(UUID_REGEX, 'Invalid recipe ID format'),
+  title: z
+    .string()
+    .min(1, 'Title cannot be empty')
+    .max(200, 'Title must be less than 200 characters')
+    .trim(),
+  servings: z.number().int('Servings must be a whole number').min(1).max(100),
+  notes: z.string().max(1000, 'Notes must be less than 1000 characters'),
+  ingredients: z
+    .array(recipeIngredientSchema)
+    .max(100, 'A meal can have at most 100 ingredients'),
+};
+
+export const createMealPlanEntrySchema = z
+  .object({
+    date: mealPlanFields.date,
+    slot: mealPlanFields.slot,
+    recipeId: mealPlanFields.recipeId.optional(),
+    title: mealPlanFields.title.optional(),
+    servings: mealPlanFields.servings.optional(),
+    notes: mealPlanFields.notes.optional(),
+    ingredients: mealPlanFields.ingredients.optional().default([]),
+  })
+  .refine((val) => val.recipeId !== undefined || val.ingredients.length > 0, {
+    message: 'Either recipeId or ingredients is required',
+    path: ['ingredients'],
+  })
+  .refine((val) => val.recipeId !== undefined || val.title !== undefined, {
+    message: 'A title is required for meals without a recipe',
+    path: ['title'],
+  });
+
+export const updateMealPlanEntrySchema = z.object({
+  date: mealPlanFields.date.optional(),
+  slot: mealPlanFields.slot.optional(),
+  recipeId: mealPlanFields.recipeId.nullable().optional(),
+  title: mealPlanFields.title.optional(),
+  servings: mealPlanFields.servings.nullable().optional(),
+  notes: mealPlanFields.notes.nullable().optional(),
+  ingredients: mealPlanFields.ingredients.optional(),
+});
+
+// Date range for listing the plan or generating a shopping list
+export const mealPlanRangeSchema = z
+  .object({
+    from: calendarDateSchema.optional(),
+    to: calendarDateSchema.optional(),
+  })
+  .refine((val) => !val.from || !val.to || val.from <= val.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+// ============================================================================
+// Role Validation
+// ============================================================================
+
+const userRoleSchema = z.enum(['read_only', 'support', 'admin'] as const, {
+  errorMap: () => ({ message: 'Role must be read_only, support or admin' }),
+});
+
+export const grantRoleSchema = z.object({
+  userId: z.string().trim().min(1, 'User ID is required').max(255),
+  role: userRoleSchema,
+});
+
+export const revokeRoleParamsSchema = z.object({
+  userId: z.string().min(1).max(255),
+  role: userRoleSchema,
+});
+
+export const roleAuditQuerySchema = paginationSchema.extend({
+  userId: z.string().min(1).max(255).optional(),
+});
+
+// ============================================================================
+// Price History Validation
+// ============================================================================
+
+// Days of price history to look at
+const priceHistoryDaysSchema = z
+  .string()
+  .optional()
+  .transform((val) => (val ? parseInt(val, 10) : undefined))
+  .pipe(z.number().int().min(1).max(MAX_PRICE_HISTORY_DAYS).optional());
+
+export const priceTrendQuerySchema = z
+  .object({
+    barcode: z.string().trim().min(1).pipe(barcodeSchema).optional(),
+    name: z.string().trim().min(1).max(MAX_ITEM_NAME_LENGTH).optional(),
+    days: priceHistoryDaysSchema,
+  })
+  .refine((val) => val.barcode || val.name, {
+    message: 'barcode or name is required',
+    path: ['name'],
+  });
+
+export const shoppingListPricesQuerySchema = z.object({
+  days: priceHistoryDaysSchema,
+});
+
+export const priceAlertsQuerySchema = z.object({
+  days: priceHistoryDaysSchema,
+  threshold: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseFloat(val) : undefined))
+    .pipe(z.number().min(0).max(1000).optional()),
+});
+
+// ============================================================================
+// Budget Validation
+// ============================================================================
+
+const budgetAmountSchema = z
+  .number()
+  .positive('Budget amount must be greater than 0')
+  .max(999999.99, 'Budget amount exceeds maximum allowed value');
+
+export const createBudgetSchema = z.object({
+  period: z.enum(['week', 'month'] as const, {
+    errorMap: () => ({ message: 'Period must be week or month' }),
+  }),
+  category: z
+    .string()
+    .trim()
+    .min(1, 'Category cannot be empty')
+    .max(MAX_CATEGORY_LENGTH, `Category must be less than ${MAX_CATEGORY_LENGTH} characters`)
+    .optional(),
+  amount: budgetAmountSchema,
+});
+
+export const updateBudgetSchema = z.object({
+  amount: budgetAmountSchema,
+});
+
+export const budgetStatusQuerySchema = z.object({
+  date: calendarDateSchema.optional(),
+});
+
+// Date range and bucket size for the spending report
+export const spendingReportQuerySchema = z
+  .object({
+    from: calendarDateSchema.optional(),
+    to: calendarDateSchema.optional(),
+    period: z.enum(['week', 'month', 'year'] as const).optional(),
+  })
+  .refine((val) => !val.from || !val.to || val.from <= val.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+// ============================================================================
+// Receipt Job Validation
+// ============================================================================
+
+export const receiptJobIdSchema = z.object({
+  id: z
+    .string()
+    .regex(UUID_REGEX, 'Invalid UUID format'),
+});
+
+export const receiptJobQuerySchema = paginationSchema.extend({
+  status: z.enum(['PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED'] as const).optional(),
+});
+
+// ============================================================================
+// Stripe Webhook Event Schemas
+// ============================================================================
+
+export const stripeWebhookEventIdSchema = z.object({
+  id: z
+    .string()
+    .regex(UUID_REGEX, 'Invalid UUID format'),
+});
+
+export const stripeWebhookEventQuerySchema = paginationSchema.extend({
+  status: z.enum(['PROCESSING', 'PROCESSED', 'SKIPPED', 'FAILED'] as const).optional(),
+});
+
+// ============================================================================
+// Product Sync Queue Schemas
+// ============================================================================
+
+export const productSyncQuerySchema = paginationSchema.extend({
+  status: z.enum(['QUEUED', 'FAILED'] as const).optional(),
+});
+
 // ============================================================================
 // Type Exports (inferred from schemas)
 // ============================================================================
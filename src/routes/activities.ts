@@ -11,18 +11,24 @@ import {
   logActivity,
 } from '../db';
 import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
 import { ApiResponse } from '../models/types';
 import {
+  activityQuerySchema,
   createActivitySchema,
   itemIdSchema,
   paginationSchema,
 } from '../models/validation';
+import { isIncompatibleUnitsError } from '../services/units';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -59,11 +65,11 @@ function errorResponse(code: string, message: string, details?: Record<string, u
 /**
  * GET /api/activities
  * List recent activity for the authenticated user with pagination
- * Query params: page, limit, itemId
+ * Query params: page, limit, itemId, reason
  */
 router.get('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const pagination = paginationSchema.safeParse(req.query);
     const { itemId } = req.query as { itemId?: string };
 
@@ -77,12 +83,23 @@ router.get('/', async (req, res) => {
       }
     }
 
+    const query = activityQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid reason filter', {
+          errors: query.error.errors,
+        })
+      );
+      return;
+    }
+    const { reason } = query.data;
+
     const page = pagination.success ? pagination.data.page : 1;
     const limit = pagination.success ? pagination.data.limit : 20;
     const offset = (page - 1) * limit;
 
-    const activities = await getActivities(userId, limit, offset, itemId);
-    const total = await getActivityCount(userId, itemId);
+    const activities = await getActivities(ownerId, limit, offset, itemId, reason);
+    const total = await getActivityCount(ownerId, itemId, reason);
 
     res.json(
       successResponse(activities, {
@@ -104,10 +121,13 @@ router.get('/', async (req, res) => {
  * POST /api/activities
  * Log a new activity for the authenticated user (ADD, REMOVE, or ADJUST)
  * Automatically updates the associated item's quantity
+ * ADD accepts optional purchaseDate/bestBefore for the lot it creates
+ * An optional reason records why stock changed (EXPIRED/SPOILED count as waste)
+ * An optional unit is converted to the item's unit (400 INCOMPATIBLE_UNITS if it can't be)
  */
 router.post('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = createActivitySchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -119,9 +139,15 @@ router.post('/', async (req, res) => {
       return;
     }
 
-    const { itemId, type, amount, source } = validation.data;
+    const { itemId, type, amount, unit, source, reason, purchaseDate, bestBefore } = validation.data;
 
-    const activity = await logActivity(userId, itemId, type, amount, source);
+    const activity = await logActivity(ownerId, itemId, type, amount, source, {
+      reason,
+      purchaseDate,
+      bestBefore,
+      performedBy: req.userId!,
+      unit,
+    });
 
     if (!activity) {
       res.status(404).json(
@@ -132,6 +158,13 @@ router.post('/', async (req, res) => {
 
     res.status(201).json(successResponse(activity));
   } catch (error) {
+    if (isIncompatibleUnitsError(error)) {
+      res.status(400).json(
+        errorResponse('INCOMPATIBLE_UNITS', error.message)
+      );
+      return;
+    }
+
     console.error('[POST /activities] Error:', error);
     res.status(500).json(
       errorResponse('INTERNAL_ERROR', 'Failed to log activity')
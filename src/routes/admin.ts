@@ -1,32 +1,65 @@
 /**
  * Admin API Routes
- * Dashboard metrics, transaction history, and alerts
+ * Dashboard metrics, transaction history, alerts, staff role management,
+ * the receipt job queue, Stripe webhook events and the product sync queue
+ * All routes require a staff role; managing roles requires admin, and
+ * retrying receipt jobs or replaying webhook events requires support
  */
 
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/roles';
 import {
   getDashboardMetrics,
   getTransactions,
   getFailedPaymentAlerts,
 } from '../db/admin';
+import {
+  getRoleAssignments,
+  grantRole,
+  revokeRole,
+  getRoleAuditLog,
+  getReceiptJob,
+  listReceiptJobs,
+  getStripeWebhookEvent,
+  listStripeWebhookEvents,
+  listProductSyncs,
+  getProductSyncStats,
+} from '../db/operations';
 import { ApiResponse } from '../models/types';
+import {
+  grantRoleSchema,
+  revokeRoleParamsSchema,
+  roleAuditQuerySchema,
+  receiptJobIdSchema,
+  receiptJobQuerySchema,
+  stripeWebhookEventIdSchema,
+  stripeWebhookEventQuerySchema,
+  productSyncQuerySchema,
+} from '../models/validation';
+import { requeueReceiptJob } from '../services/receiptJobs';
+import { PRODUCT_SYNC_MAX_ATTEMPTS } from '../services/productSync';
+import { replayWebhookEvent } from '../services/stripe';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Revenue and payment data is for staff only
+router.use(requireRole('read_only'));
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function successResponse<T>(data: T): ApiResponse<T> {
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
   return {
     success: true,
     data,
     meta: {
       timestamp: new Date().toISOString(),
+      ...meta,
     },
   };
 }
@@ -125,4 +158,337 @@ router.get('/alerts', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/roles
+ * List locally granted staff roles (roles from Clerk claims are not listed)
+ */
+router.get('/roles', requireRole('admin'), async (_req, res) => {
+  try {
+    const assignments = await getRoleAssignments();
+
+    res.json(successResponse(assignments, { count: assignments.length }));
+  } catch (error) {
+    console.error('[GET /admin/roles] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve roles')
+    );
+  }
+});
+
+/**
+ * POST /api/admin/roles
+ * Grant a staff role to a user; recorded in the audit log
+ */
+router.post('/roles', requireRole('admin'), async (req, res) => {
+  try {
+    const validation = grantRoleSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { userId, role } = validation.data;
+    const assignment = await grantRole(userId, role, req.userId!);
+
+    if (!assignment) {
+      res.status(409).json(
+        errorResponse('CONFLICT', `User ${userId} already has the ${role} role`)
+      );
+      return;
+    }
+
+    res.status(201).json(successResponse(assignment));
+  } catch (error) {
+    console.error('[POST /admin/roles] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to grant role')
+    );
+  }
+});
+
+/**
+ * DELETE /api/admin/roles/:userId/:role
+ * Revoke a staff role; recorded in the audit log
+ * Admins cannot revoke their own admin role, so one admin always remains
+ */
+router.delete('/roles/:userId/:role', requireRole('admin'), async (req, res) => {
+  try {
+    const validation = revokeRoleParamsSchema.safeParse(req.params);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid role', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { userId, role } = validation.data;
+
+    if (userId === req.userId && role === 'admin') {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Admins cannot revoke their own admin role')
+      );
+      return;
+    }
+
+    const revoked = await revokeRole(userId, role, req.userId!);
+
+    if (!revoked) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `User ${userId} does not have the ${role} role`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ revoked: true, userId, role }));
+  } catch (error) {
+    console.error('[DELETE /admin/roles/:userId/:role] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to revoke role')
+    );
+  }
+});
+
+/**
+ * GET /api/admin/roles/audit?page=1&limit=20&userId=
+ * Role grants and revocations, newest first
+ */
+router.get('/roles/audit', requireRole('admin'), async (req, res) => {
+  try {
+    const validation = roleAuditQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { page, limit, userId } = validation.data;
+    const entries = await getRoleAuditLog(limit, (page - 1) * limit, userId);
+
+    res.json(successResponse(entries, { page, limit }));
+  } catch (error) {
+    console.error('[GET /admin/roles/audit] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve role audit log')
+    );
+  }
+});
+
+/**
+ * GET /api/admin/receipt-jobs?status=FAILED&page=1&limit=20
+ * Receipt scan jobs, newest first, without their images
+ */
+router.get('/receipt-jobs', async (req, res) => {
+  try {
+    const validation = receiptJobQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { page, limit, status } = validation.data;
+    const jobs = await listReceiptJobs(status, limit, (page - 1) * limit);
+
+    res.json(successResponse(jobs, { page, limit }));
+  } catch (error) {
+    console.error('[GET /admin/receipt-jobs] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve receipt jobs')
+    );
+  }
+});
+
+/**
+ * GET /api/admin/receipt-jobs/:id
+ * Any user's receipt job, including its last error
+ */
+router.get('/receipt-jobs/:id', async (req, res) => {
+  try {
+    const validation = receiptJobIdSchema.safeParse(req.params);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid job ID format', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const job = await getReceiptJob(validation.data.id);
+
+    if (!job) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Receipt job not found')
+      );
+      return;
+    }
+
+    res.json(successResponse(job));
+  } catch (error) {
+    console.error('[GET /admin/receipt-jobs/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve receipt job')
+    );
+  }
+});
+
+/**
+ * POST /api/admin/receipt-jobs/:id/retry
+ * Queue a FAILED job again with a fresh set of attempts; counts as one of
+ * the owner's receipt scans again
+ */
+router.post('/receipt-jobs/:id/retry', requireRole('support'), async (req, res) => {
+  try {
+    const validation = receiptJobIdSchema.safeParse(req.params);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid job ID format', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const job = await requeueReceiptJob(validation.data.id);
+
+    if (!job) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'No failed receipt job with that ID')
+      );
+      return;
+    }
+
+    res.json(successResponse(job));
+  } catch (error) {
+    console.error('[POST /admin/receipt-jobs/:id/retry] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retry receipt job')
+    );
+  }
+});
+
+/**
+ * GET /api/admin/stripe-events?status=FAILED&page=1&limit=20
+ * Stripe webhook events, newest first, without their payloads
+ */
+router.get('/stripe-events', async (req, res) => {
+  try {
+    const validation = stripeWebhookEventQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { page, limit, status } = validation.data;
+    const events = await listStripeWebhookEvents(status, limit, (page - 1) * limit);
+
+    res.json(successResponse(events, { page, limit }));
+  } catch (error) {
+    console.error('[GET /admin/stripe-events] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve webhook events')
+    );
+  }
+});
+
+/**
+ * POST /api/admin/stripe-events/:id/replay
+ * Process a FAILED webhook event again from its stored payload
+ */
+router.post('/stripe-events/:id/replay', requireRole('support'), async (req, res) => {
+  try {
+    const validation = stripeWebhookEventIdSchema.safeParse(req.params);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid event ID format', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const event = await replayWebhookEvent(validation.data.id);
+
+    if (!event) {
+      const existing = await getStripeWebhookEvent(validation.data.id);
+
+      if (existing) {
+        res.status(409).json(
+          errorResponse('CONFLICT', `Only FAILED events can be replayed; this one is ${existing.status}`)
+        );
+      } else {
+        res.status(404).json(
+          errorResponse('NOT_FOUND', 'Webhook event not found')
+        );
+      }
+      return;
+    }
+
+    res.json(successResponse(event));
+  } catch (error) {
+    console.error('[POST /admin/stripe-events/:id/replay] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to replay webhook event')
+    );
+  }
+});
+
+/**
+ * GET /api/admin/product-sync?status=FAILED&page=1&limit=20
+ * Depth of the product sync queue and its entries, most recently updated
+ * first: barcodes waiting for a product lookup retry (QUEUED) and those
+ * given up on (FAILED), with their last error
+ */
+router.get('/product-sync', async (req, res) => {
+  try {
+    const validation = productSyncQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { page, limit, status } = validation.data;
+    const [stats, entries] = await Promise.all([
+      getProductSyncStats(),
+      listProductSyncs(status, limit, (page - 1) * limit),
+    ]);
+
+    res.json(successResponse({ ...stats, maxAttempts: PRODUCT_SYNC_MAX_ATTEMPTS, entries }, { page, limit }));
+  } catch (error) {
+    console.error('[GET /admin/product-sync] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve product sync queue')
+    );
+  }
+});
+
 export default router;
@@ -2,49 +2,34 @@
  * Barcode Lookup API Routes
  * Endpoints for looking up product information by barcode
  * Implements caching to reduce third-party API calls
+ * Products saved by barcode go to the user-contributed catalog
  * All routes require authentication
  */
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { rateLimit } from '../middleware/rateLimit';
 import { getDatabase } from '../db';
 import { BarcodeLookupResponse } from '../models/types';
+import { itemIdSchema } from '../models/validation';
+import { isIncompatibleUnitsError } from '../services/units';
+import { parseGtin } from '../services/barcode';
+import { lookupProduct, productSourcesAvailable, sourcedProduct } from '../services/productProviders';
+import { queueProductSync } from '../services/productSync';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
-// ============================================================================
-// Type Definitions
-// ============================================================================
-
-interface OpenFoodFactsResponse {
-  status: number;
-  product?: {
-    product_name?: string;
-    generic_name?: string;
-    brands?: string;
-    categories?: string;
-    pnns_groups_1?: string;
-    image_url?: string;
-    ingredients_text?: string;
-    nutriments?: {
-      'energy-kcal'?: number;
-      proteins?: number;
-      carbohydrates?: number;
-      fat?: number;
-      salt?: number;
-      sugars?: number;
-    };
-  };
-}
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
-const OPEN_FOOD_FACTS_API = 'https://world.openfoodfacts.org/api/v0/product';
 const PRODUCT_CACHE_MAX_AGE_DAYS = parseInt(
   process.env.PRODUCT_CACHE_MAX_AGE_DAYS || '7',
   10
@@ -55,165 +40,64 @@ const PRODUCT_CACHE_MAX_AGE_DAYS = parseInt(
 // ============================================================================
 
 /**
- * Look up product by barcode using Open Food Facts API
+ * The :barcode parameter as a GTIN-14, or null once a 400 has been sent
+ * Any non-digits are removed first; the check digit must be right
  */
-async function lookupOpenFoodFacts(barcode: string): Promise<BarcodeLookupResponse> {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-    const response = await fetch(`${OPEN_FOOD_FACTS_API}/${barcode}.json`, {
-      signal: controller.signal,
-      headers: {
-        Accept: 'application/json',
-      },
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      // Handle rate limiting specifically
-      if (response.status === 429) {
-        console.warn(`[Barcode] Rate limited (429) for ${barcode}`);
-        return {
-          success: false,
-          cached: false,
-          rateLimited: true,
-          error: 'Rate limit exceeded. Please try again later.',
-        };
-      }
-      throw new Error(`HTTP error ${response.status}`);
-    }
-
-    const data = (await response.json()) as OpenFoodFactsResponse;
+function barcodeParam(req: Request, res: Response): string | null {
+  const digits = (req.params.barcode || '').replace(/[^0-9]/g, '');
 
-    if (data.status !== 1 || !data.product) {
-      return {
-        success: false,
-        cached: false,
-        error: 'Product not found in Open Food Facts',
-      };
-    }
-
-    const product = data.product;
-
-    // Map Open Food Facts categories to our categories
-    let category = 'other';
-    const categories = product.categories?.toLowerCase() || '';
-    const pnnsGroups = product.pnns_groups_1?.toLowerCase() || '';
-
-    // Debug: Log raw categories for investigation
-    console.log(`[Barcode Debug] Barcode: ${barcode}`);
-    console.log(`[Barcode Debug] Categories: ${product.categories}`);
-    console.log(`[Barcode Debug] PNNS Groups: ${product.pnns_groups_1}`);
-
-    if (
-      categories.includes('produce') ||
-      categories.includes('fruit') ||
-      categories.includes('vegetable') ||
-      pnnsGroups.includes('fruits') ||
-      pnnsGroups.includes('vegetables')
-    ) {
-      category = 'produce';
-    } else if (pnnsGroups.includes('milk') || pnnsGroups.includes('dairy')) {
-      category = 'dairy';
-    } else if (
-      categories.includes('frozen') ||
-      pnnsGroups.includes('frozen')
-    ) {
-      category = 'frozen';
-    } else if (
-      categories.includes('meat') ||
-      categories.includes('seafood') ||
-      pnnsGroups.includes('meat') ||
-      pnnsGroups.includes('fish')
-    ) {
-      category = 'meat';
-    } else if (
-      // Canned foods and pasta should be pantry, not beverages
-      categories.includes('canned') ||
-      categories.includes('pasta') ||
-      categories.includes('ready meals') ||
-      categories.includes('prepared meals') ||
-      categories.includes('soups') ||
-      pnnsGroups.includes('pasta') ||
-      pnnsGroups.includes('canned')
-    ) {
-      category = 'pantry';
-    } else if (
-      categories.includes('beverage') ||
-      pnnsGroups.includes('beverages') ||
-      categories.includes('drink')
-    ) {
-      category = 'beverages';
-    } else if (
-      categories.includes('snack') ||
-      pnnsGroups.includes('snacks') ||
-      categories.includes('sweet')
-    ) {
-      category = 'snacks';
-    } else if (
-      categories.includes('bakery') ||
-      categories.includes('bread') ||
-      pnnsGroups.includes('bread')
-    ) {
-      category = 'pantry';
-
-    }
-
-    // Extract nutrition data if available
-    const nutriments = product.nutriments || {};
-    const nutrition: Record<string, number> = {};
-
-    if (nutriments['energy-kcal'] !== undefined) {
-      nutrition.calories = nutriments['energy-kcal'];
-    }
-    if (nutriments.proteins !== undefined) {
-      nutrition.protein = nutriments.proteins;
-    }
-    if (nutriments.carbohydrates !== undefined) {
-      nutrition.carbs = nutriments.carbohydrates;
-    }
-    if (nutriments.fat !== undefined) {
-      nutrition.fat = nutriments.fat;
-    }
-    if (nutriments.salt !== undefined) {
-      nutrition.sodium = nutriments.salt;
-    }
-    if (nutriments.sugars !== undefined) {
-      nutrition.sugars = nutriments.sugars;
-    }
-
-    return {
-      success: true,
+  if (![8, 12, 13, 14].includes(digits.length)) {
+    res.status(400).json({
+      success: false,
       cached: false,
-      product: {
-        barcode,
-        name: product.product_name || product.generic_name || 'Unknown Product',
-        brand: product.brands?.split(',')[0]?.trim(),
-        category,
-        imageUrl: product.image_url,
-        ingredients: product.ingredients_text,
-        nutrition: Object.keys(nutrition).length > 0 ? nutrition : undefined,
-        source: 'openfoodfacts',
-        infoLastSynced: new Date().toISOString(),
-      },
-    };
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-    if (err instanceof Error && err.name === 'AbortError') {
-      return {
-        success: false,
-        cached: false,
-        error: 'Request timed out',
-      };
-    }
-    return {
+      error: 'Invalid barcode format: expected a UPC-A, UPC-E, EAN-8, EAN-13 or GTIN-14 code',
+    } as BarcodeLookupResponse);
+    return null;
+  }
+
+  const gtin = parseGtin(digits);
+  if (!gtin) {
+    res.status(400).json({
       success: false,
       cached: false,
-      error: `Failed to fetch: ${errorMessage}`,
-    };
+      error: 'Invalid barcode check digit',
+    } as BarcodeLookupResponse);
+    return null;
   }
+
+  return gtin.gtin14;
+}
+
+/**
+ * Refresh a cached product from the product sources without waiting for it
+ * Refreshes of the same barcode share requests; failed ones are queued
+ */
+function refreshInBackground(barcode: string): void {
+  (async () => {
+    try {
+      console.log(`[Barcode] Background refresh starting for ${barcode}...`);
+      const result = await lookupProduct(barcode);
+      if (result.success && result.product) {
+        await getDatabase().saveProduct({
+          barcode: result.product.barcode,
+          name: result.product.name,
+          brand: result.product.brand,
+          category: result.product.category,
+          imageUrl: result.product.imageUrl,
+          ingredients: result.product.ingredients,
+          nutrition: result.product.nutrition,
+          source: result.product.source,
+          provenance: result.product.provenance,
+        });
+        console.log(`[Barcode] Background refresh successful for ${barcode}`);
+      } else {
+        console.warn(`[Barcode] Background refresh failed for ${barcode}: ${result.error}`);
+        await queueProductSync(barcode, result);
+      }
+    } catch (err) {
+      console.error(`[Barcode] Background refresh error for ${barcode}:`, err);
+    }
+  })();
 }
 
 // ============================================================================
@@ -223,33 +107,18 @@ async function lookupOpenFoodFacts(barcode: string): Promise<BarcodeLookupRespon
 /**
  * POST /api/barcode/:barcode
  * Save a product to the database by barcode
- * Creates a new pantry item from barcode lookup
+ * The product goes into the catalog, which later lookups ask first; a barcode
+ * another user entered only has the fields it lacks filled in
+ * Creates a new pantry item from barcode lookup, in the optional storage
+ * location (locationId). If the location already holds an item with this
+ * barcode, that item is restocked instead; other locations stay separate.
  */
 router.post('/:barcode', async (req, res) => {
   try {
-    const barcode = req.params.barcode;
-    const { name, quantity = 1, unit = 'pieces', category, brand, imageUrl } = req.body;
+    const { name, quantity = 1, unit, category, brand, imageUrl, locationId } = req.body;
 
-    // Validate barcode
-    if (!barcode || barcode.length < 8) {
-      res.status(400).json({
-        success: false,
-        cached: false,
-        error: 'Invalid barcode',
-      } as BarcodeLookupResponse);
-      return;
-    }
-
-    // Clean barcode - remove any non-numeric characters
-    const cleanBarcode = barcode.replace(/[^0-9]/g, '');
-    if (cleanBarcode.length < 8) {
-      res.status(400).json({
-        success: false,
-        cached: false,
-        error: 'Invalid barcode format',
-      } as BarcodeLookupResponse);
-      return;
-    }
+    const cleanBarcode = barcodeParam(req, res);
+    if (!cleanBarcode) return;
 
     // Validate required fields
     if (!name || !category) {
@@ -261,47 +130,82 @@ router.post('/:barcode', async (req, res) => {
       return;
     }
 
+    // Inventory owner from household context (set by resolveHousehold middleware)
+    const ownerId = req.ownerId || 'anonymous';
+
+    if (locationId !== undefined) {
+      const locationExists = itemIdSchema.safeParse({ id: locationId }).success
+        && !!(await getDatabase().getStorageLocationById(ownerId, locationId));
+
+      if (!locationExists) {
+        res.status(400).json({
+          success: false,
+          cached: false,
+          error: 'Storage location not found',
+        } as BarcodeLookupResponse);
+        return;
+      }
+    }
+
     console.log(`[Barcode] Saving product for barcode ${cleanBarcode}: ${name}`);
 
-    // Get user ID from auth context (set by requireAuth middleware)
-    const userId = req.userId || 'anonymous';
+    // Save product to the catalog. A barcode another user entered keeps their
+    // product, so the cache only takes the catalog's entry when it is this
+    // user's or nothing is cached yet
+    const entry = await getDatabase().saveCatalogProduct({ barcode: cleanBarcode, name, brand, category, imageUrl }, req.userId);
+    let product = await getDatabase().getProductByBarcode(cleanBarcode);
+
+    if (!product || entry.contributedBy === req.userId) {
+      product = sourcedProduct(cleanBarcode, {
+        name: entry.name,
+        brand: entry.brand,
+        category: entry.category,
+        imageUrl: entry.imageUrl,
+      }, 'catalog');
+      await getDatabase().saveProduct(product);
+    }
 
-    // Save product to cache
-    await getDatabase().saveProduct({
-      barcode: cleanBarcode,
-      name,
-      brand,
-      category,
-      imageUrl,
-      source: 'manual_entry',
-    });
+    // Restock the item kept in this location, or create one there
+    const existing = await getDatabase().getItemByBarcode(ownerId, cleanBarcode, locationId ?? null);
+    let item;
 
-    // Create pantry item
-    const newItem = await getDatabase().createItem(userId, {
-      name,
-      quantity,
-      unit,
-      category,
-      barcode: cleanBarcode,
-    });
+    if (existing) {
+      await getDatabase().logActivity(ownerId, existing.id, 'ADD', quantity, 'MANUAL', {
+        unit,
+        performedBy: req.userId,
+      });
+      item = await getDatabase().getItemById(ownerId, existing.id);
+
+      console.log(`[Barcode] Restocked pantry item for ${cleanBarcode}: ${existing.id}`);
+    } else {
+      item = await getDatabase().createItem(ownerId, {
+        name,
+        quantity,
+        unit: unit || 'pieces',
+        category,
+        barcode: cleanBarcode,
+        locationId,
+      });
 
-    console.log(`[Barcode] Created pantry item for ${cleanBarcode}: ${newItem.id}`);
+      console.log(`[Barcode] Created pantry item for ${cleanBarcode}: ${item.id}`);
+    }
 
-    res.status(201).json({
+    res.status(existing ? 200 : 201).json({
       success: true,
       cached: true,
-      product: {
-        barcode: cleanBarcode,
-        name,
-        brand,
-        category,
-        imageUrl,
-        source: 'manual_entry',
-        infoLastSynced: new Date().toISOString(),
-      },
-      item: newItem,
+      product,
+      item,
     });
   } catch (error) {
+    if (isIncompatibleUnitsError(error)) {
+      res.status(400).json({
+        success: false,
+        cached: false,
+        error: error.message,
+      } as BarcodeLookupResponse);
+      return;
+    }
+
     console.error('[POST /barcode/:barcode] Error:', error);
     res.status(500).json({
       success: false,
@@ -314,32 +218,15 @@ router.post('/:barcode', async (req, res) => {
 /**
  * GET /api/barcode/:barcode
  * Look up product information by barcode
- * Checks local cache first, falls back to Open Food Facts API
+ * Checks local cache first, falls back to the product sources (PRODUCT_PROVIDERS)
+ * Products are cached under their GTIN-14, so every form of a code shares one entry
+ * Stale cache is served while every remote source is refusing lookups; a miss then gets 503
+ * Failed lookups are queued for the product sync worker to retry
  */
-router.get('/:barcode', async (req, res) => {
+router.get('/:barcode', rateLimit('barcodeLookup'), async (req, res) => {
   try {
-    const barcode = req.params.barcode;
-
-    // Validate barcode
-    if (!barcode || barcode.length < 8) {
-      res.status(400).json({
-        success: false,
-        cached: false,
-        error: 'Invalid barcode',
-      } as BarcodeLookupResponse);
-      return;
-    }
-
-    // Clean barcode - remove any non-numeric characters
-    const cleanBarcode = barcode.replace(/[^0-9]/g, '');
-    if (cleanBarcode.length < 8) {
-      res.status(400).json({
-        success: false,
-        cached: false,
-        error: 'Invalid barcode format',
-      } as BarcodeLookupResponse);
-      return;
-    }
+    const cleanBarcode = barcodeParam(req, res);
+    if (!cleanBarcode) return;
 
     console.log(
       `[Barcode] Lookup for ${cleanBarcode}, maxAgeDays=${PRODUCT_CACHE_MAX_AGE_DAYS}`
@@ -365,32 +252,13 @@ router.get('/:barcode', async (req, res) => {
     const staleProduct = await getDatabase().getProductByBarcode(cleanBarcode); // no maxAgeDays
 
     if (staleProduct) {
-      console.log(`[Barcode] Stale cache found for ${cleanBarcode}, returning immediately and refreshing in background...`);
-
-      // Background refresh: do NOT await
-      (async () => {
-        try {
-          console.log(`[Barcode] Background refresh starting for ${cleanBarcode}...`);
-          const result = await lookupOpenFoodFacts(cleanBarcode);
-          if (result.success && result.product) {
-            await getDatabase().saveProduct({
-              barcode: result.product.barcode,
-              name: result.product.name,
-              brand: result.product.brand,
-              category: result.product.category,
-              imageUrl: result.product.imageUrl,
-              ingredients: result.product.ingredients,
-              nutrition: result.product.nutrition,
-              source: result.product.source,
-            });
-            console.log(`[Barcode] Background refresh successful for ${cleanBarcode}`);
-          } else {
-            console.warn(`[Barcode] Background refresh failed for ${cleanBarcode}: ${result.error}`);
-          }
-        } catch (err) {
-          console.error(`[Barcode] Background refresh error for ${cleanBarcode}:`, err);
-        }
-      })();
+      // While the product sources are failing or limiting us, the stale copy is the answer
+      if (productSourcesAvailable()) {
+        console.log(`[Barcode] Stale cache found for ${cleanBarcode}, returning immediately and refreshing in background...`);
+        refreshInBackground(cleanBarcode);
+      } else {
+        console.log(`[Barcode] Stale cache found for ${cleanBarcode}, product sources unavailable, not refreshing`);
+      }
 
       res.json({
         success: true,
@@ -401,12 +269,22 @@ router.get('/:barcode', async (req, res) => {
       return;
     }
 
-    // Step 3: Call Open Food Facts API (no cache at all)
-    console.log(`[Barcode] Cache miss for ${cleanBarcode}, calling API...`);
-    const result = await lookupOpenFoodFacts(cleanBarcode);
+    // Step 3: Ask the product sources (no cache at all)
+    console.log(`[Barcode] Cache miss for ${cleanBarcode}, asking product sources...`);
+    const result = await lookupProduct(cleanBarcode);
 
     if (!result.success || !result.product) {
-      res.status(404).json(result);
+      // Retried in the background; a later lookup finds the product in the cache
+      const queued = await queueProductSync(cleanBarcode, result);
+
+      // A source couldn't be asked; that doesn't mean the product doesn't exist
+      if (result.rateLimited) {
+        res.set('Retry-After', String(result.retryAfter));
+        res.status(503).json({ ...result, queued });
+        return;
+      }
+
+      res.status(404).json({ ...result, queued });
       return;
     }
 
@@ -420,6 +298,7 @@ router.get('/:barcode', async (req, res) => {
       ingredients: result.product.ingredients,
       nutrition: result.product.nutrition,
       source: result.product.source,
+      provenance: result.product.provenance,
     });
 
     console.log(`[Barcode] Cached result for ${cleanBarcode}`);
@@ -0,0 +1,248 @@
+/**
+ * Budget API Routes
+ * Endpoints for weekly/monthly grocery budgets and how they stand
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import {
+  getBudgets,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+  getSessionSpend,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetStatusQuerySchema,
+  itemIdSchema,
+} from '../models/validation';
+import { buildBudgetStatus, periodBounds } from '../services/budget';
+import { today } from '../services/expiry';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/budgets
+ * List budgets, overall budgets first
+ */
+router.get('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+
+    const budgets = await getBudgets(ownerId);
+
+    res.json(successResponse(budgets, { count: budgets.length }));
+  } catch (error) {
+    console.error('[GET /budgets] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve budgets')
+    );
+  }
+});
+
+/**
+ * GET /api/budgets/status
+ * Spend, remaining amount and projected overspend of each budget in its
+ * current week or month
+ * Query params: date (YYYY-MM-DD, default today)
+ */
+router.get('/status', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = budgetStatusQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const date = validation.data.date || today();
+    const budgets = await getBudgets(ownerId);
+
+    if (budgets.length === 0) {
+      res.json(successResponse([], { count: 0, date }));
+      return;
+    }
+
+    // One read covering the earliest period start of any budget
+    const from = budgets
+      .map((budget) => periodBounds(date, budget.period).start)
+      .reduce((earliest, start) => (start < earliest ? start : earliest));
+    const sessions = await getSessionSpend(ownerId, from, date);
+
+    const statuses = budgets.map((budget) => buildBudgetStatus(budget, sessions, date));
+
+    res.json(successResponse(statuses, { count: statuses.length, date }));
+  } catch (error) {
+    console.error('[GET /budgets/status] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve budget status')
+    );
+  }
+});
+
+/**
+ * POST /api/budgets
+ * Create a weekly or monthly budget, overall or for one category
+ * One budget per period and category (case-insensitive)
+ */
+router.post('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = createBudgetSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const budget = await createBudget(ownerId, validation.data);
+
+    if (!budget) {
+      const { period, category } = validation.data;
+      res.status(409).json(
+        errorResponse('CONFLICT', `A ${period}ly budget ${category ? `for ${category}` : 'for all spending'} already exists`)
+      );
+      return;
+    }
+
+    res.status(201).json(successResponse(budget));
+  } catch (error) {
+    console.error('[POST /budgets] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to create budget')
+    );
+  }
+});
+
+/**
+ * PUT /api/budgets/:id
+ * Change a budget's amount
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const budgetId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: budgetId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid budget ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = updateBudgetSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const budget = await updateBudget(ownerId, budgetId, bodyValidation.data.amount);
+
+    if (!budget) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Budget with ID ${budgetId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(budget));
+  } catch (error) {
+    console.error('[PUT /budgets/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update budget')
+    );
+  }
+});
+
+/**
+ * DELETE /api/budgets/:id
+ * Delete a budget
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const budgetId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: budgetId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid budget ID format')
+      );
+      return;
+    }
+
+    if (!(await deleteBudget(ownerId, budgetId))) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Budget with ID ${budgetId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: budgetId }));
+  } catch (error) {
+    console.error('[DELETE /budgets/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete budget')
+    );
+  }
+});
+
+export default router;
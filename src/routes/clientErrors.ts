@@ -1,10 +1,13 @@
 import express from 'express';
 import { getDatabase } from '../db';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/roles';
+import { rateLimit } from '../middleware/rateLimit';
 
 const router = express.Router();
 
 // POST /api/client-errors - Log error from frontend
-router.post('/', async (req, res) => {
+router.post('/', rateLimit('clientErrors'), async (req, res) => {
   try {
     const error = {
       userId: req.body.userId,
@@ -24,8 +27,8 @@ router.post('/', async (req, res) => {
   }
 });
 
-// GET /api/client-errors - Get errors for admin
-router.get('/', async (req, res) => {
+// GET /api/client-errors - Get errors for admin (staff only)
+router.get('/', requireAuth, requireRole('read_only'), async (req, res) => {
   try {
     const { resolved = 'false', limit = '50' } = req.query;
     const errors = await getDatabase().getClientErrors({
@@ -38,8 +41,8 @@ router.get('/', async (req, res) => {
   }
 });
 
-// PATCH /api/client-errors/:id/resolve - Mark resolved
-router.patch('/:id/resolve', async (req, res) => {
+// PATCH /api/client-errors/:id/resolve - Mark resolved (support or admin)
+router.patch('/:id/resolve', requireAuth, requireRole('support'), async (req, res) => {
   try {
     await getDatabase().markErrorResolved(req.params.id);
     res.json({ success: true });
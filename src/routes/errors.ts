@@ -1,4 +1,5 @@
 import express from 'express';
+import { rateLimit } from '../middleware/rateLimit';
 
 const router = express.Router();
 
@@ -15,7 +16,7 @@ interface ErrorLogRequest {
  * POST /api/errors
  * Log client-side errors for admin dashboard viewing
  */
-router.post('/', async (req: express.Request<{}, {}, ErrorLogRequest>, res: express.Response) => {
+router.post('/', rateLimit('clientErrors'), async (req: express.Request<{}, {}, ErrorLogRequest>, res: express.Response) => {
   const { type, message, component, url, userAgent, stack } = req.body;
 
   // Log to console for now
@@ -0,0 +1,551 @@
+/**
+ * Household API Routes
+ * Endpoints for creating, joining and managing shared household inventories
+ * All routes require authentication
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  createHousehold,
+  getHouseholdById,
+  getHouseholdByInviteCode,
+  getHouseholdForUser,
+  updateHouseholdName,
+  regenerateHouseholdInviteCode,
+  deleteHousehold,
+  getHouseholdMembers,
+  addHouseholdMember,
+  updateHouseholdMemberRole,
+  removeHouseholdMember,
+  createHouseholdInvite,
+  getHouseholdInviteByToken,
+  getPendingHouseholdInvites,
+  markHouseholdInviteAccepted,
+  deleteHouseholdInvite,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { ApiResponse } from '../models/types';
+import { Household, HouseholdMembership, HouseholdRole } from '../models/household';
+import {
+  createHouseholdSchema,
+  updateHouseholdSchema,
+  joinHouseholdSchema,
+  createHouseholdInviteSchema,
+  updateHouseholdMemberSchema,
+} from '../models/validation';
+import { canManageMembers, INVITE_TTL_DAYS } from '../services/household';
+import { hasSharedInventory, getMaxFamilyMembers } from '../services/subscription';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Load the signed-in user's membership, sending 404 when they have none
+ * With ownerOnly, also sends 403 unless the user owns the household
+ */
+async function loadMembership(
+  req: Request,
+  res: Response,
+  ownerOnly: boolean = false
+): Promise<HouseholdMembership | null> {
+  const membership = await getHouseholdForUser(req.userId!);
+
+  if (!membership) {
+    res.status(404).json(
+      errorResponse('NOT_FOUND', 'You are not a member of a household')
+    );
+    return null;
+  }
+
+  if (ownerOnly && !canManageMembers(membership.role)) {
+    res.status(403).json(
+      errorResponse('FORBIDDEN', 'Only the household owner can do this')
+    );
+    return null;
+  }
+
+  return membership;
+}
+
+/**
+ * Add the signed-in user to a household, shared by join-by-code and invite acceptance
+ * Enforces one household per user and the owner's family member limit
+ * Returns false when a response has already been sent
+ */
+async function addMember(req: Request, res: Response, household: Household, role: HouseholdRole): Promise<boolean> {
+  const userId = req.userId!;
+
+  if (await getHouseholdForUser(userId)) {
+    res.status(409).json(
+      errorResponse('CONFLICT', 'You are already a member of a household')
+    );
+    return false;
+  }
+
+  const members = await getHouseholdMembers(household.id);
+  const maxMembers = await getMaxFamilyMembers(household.ownerId);
+
+  if (members.length >= maxMembers) {
+    res.status(403).json(
+      errorResponse('FAMILY_MEMBER_LIMIT_REACHED', 'This household has reached its member limit', {
+        limit: maxMembers,
+      })
+    );
+    return false;
+  }
+
+  await addHouseholdMember(household.id, userId, role);
+  return true;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/households
+ * Get the signed-in user's household with its members and their role
+ */
+router.get('/', async (req, res) => {
+  try {
+    const membership = await loadMembership(req, res);
+    if (!membership) return;
+
+    const members = await getHouseholdMembers(membership.household.id);
+
+    res.json(successResponse({ ...membership.household, members, role: membership.role }));
+  } catch (error) {
+    console.error('[GET /households] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve household')
+    );
+  }
+});
+
+/**
+ * POST /api/households
+ * Create a household owned by the signed-in user (family tier)
+ * The owner's existing inventory becomes the household's shared inventory
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const validation = createHouseholdSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    if (!(await hasSharedInventory(userId))) {
+      res.status(403).json(
+        errorResponse('UPGRADE_REQUIRED', 'Shared households require the family tier', {
+          requiredTier: 'family',
+          upgradeUrl: '/pricing',
+        })
+      );
+      return;
+    }
+
+    if (await getHouseholdForUser(userId)) {
+      res.status(409).json(
+        errorResponse('CONFLICT', 'You are already a member of a household')
+      );
+      return;
+    }
+
+    const household = await createHousehold(userId, validation.data.name);
+    const members = await getHouseholdMembers(household.id);
+
+    res.status(201).json(successResponse({ ...household, members, role: 'owner' }));
+  } catch (error) {
+    console.error('[POST /households] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to create household')
+    );
+  }
+});
+
+/**
+ * PATCH /api/households
+ * Rename the household (owner only)
+ */
+router.patch('/', async (req, res) => {
+  try {
+    const validation = updateHouseholdSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    const household = await updateHouseholdName(membership.household.id, validation.data.name);
+
+    res.json(successResponse(household));
+  } catch (error) {
+    console.error('[PATCH /households] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update household')
+    );
+  }
+});
+
+/**
+ * POST /api/households/leave
+ * Leave the household
+ * An owner can only leave once everyone else has gone; that dissolves the
+ * household and hands the shared inventory back to them
+ */
+router.post('/leave', async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const membership = await loadMembership(req, res);
+    if (!membership) return;
+
+    const householdId = membership.household.id;
+
+    if (membership.role === 'owner') {
+      const members = await getHouseholdMembers(householdId);
+
+      if (members.length > 1) {
+        res.status(409).json(
+          errorResponse('HOUSEHOLD_OWNER_CANNOT_LEAVE', 'Remove the other members before leaving the household')
+        );
+        return;
+      }
+
+      await deleteHousehold(householdId, userId);
+      res.json(successResponse({ left: true, householdId, dissolved: true }));
+      return;
+    }
+
+    await removeHouseholdMember(householdId, userId);
+
+    res.json(successResponse({ left: true, householdId, dissolved: false }));
+  } catch (error) {
+    console.error('[POST /households/leave] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to leave household')
+    );
+  }
+});
+
+/**
+ * POST /api/households/join
+ * Join a household with its invite code, as an editor
+ */
+router.post('/join', async (req, res) => {
+  try {
+    const validation = joinHouseholdSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const household = await getHouseholdByInviteCode(validation.data.code);
+
+    if (!household) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'No household matches that invite code')
+      );
+      return;
+    }
+
+    if (!(await addMember(req, res, household, 'editor'))) return;
+
+    res.status(201).json(successResponse({ ...household, role: 'editor' }));
+  } catch (error) {
+    console.error('[POST /households/join] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to join household')
+    );
+  }
+});
+
+/**
+ * POST /api/households/invite-code/regenerate
+ * Replace the household invite code, invalidating the old one (owner only)
+ */
+router.post('/invite-code/regenerate', async (req, res) => {
+  try {
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    const household = await regenerateHouseholdInviteCode(membership.household.id);
+
+    res.json(successResponse(household));
+  } catch (error) {
+    console.error('[POST /households/invite-code/regenerate] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to regenerate invite code')
+    );
+  }
+});
+
+/**
+ * GET /api/households/invites
+ * List invites that have not been accepted yet (owner only)
+ */
+router.get('/invites', async (req, res) => {
+  try {
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    const invites = await getPendingHouseholdInvites(membership.household.id);
+
+    res.json(successResponse(invites, { count: invites.length }));
+  } catch (error) {
+    console.error('[GET /households/invites] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve invites')
+    );
+  }
+});
+
+/**
+ * POST /api/households/invites
+ * Invite someone by email (owner only)
+ * The response includes the token the invitee uses to accept
+ */
+router.post('/invites', async (req, res) => {
+  try {
+    const validation = createHouseholdInviteSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const invite = await createHouseholdInvite(membership.household.id, {
+      email: validation.data.email,
+      role: validation.data.role,
+      invitedBy: req.userId!,
+      expiresAt,
+    });
+
+    res.status(201).json(successResponse(invite));
+  } catch (error) {
+    console.error('[POST /households/invites] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to create invite')
+    );
+  }
+});
+
+/**
+ * DELETE /api/households/invites/:id
+ * Revoke an invite (owner only)
+ */
+router.delete('/invites/:id', async (req, res) => {
+  try {
+    const inviteId = req.params.id;
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    const deleted = await deleteHouseholdInvite(membership.household.id, inviteId);
+
+    if (!deleted) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Invite with ID ${inviteId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: inviteId }));
+  } catch (error) {
+    console.error('[DELETE /households/invites/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete invite')
+    );
+  }
+});
+
+/**
+ * POST /api/households/invites/:token/accept
+ * Accept an emailed invite and join its household with the invited role
+ */
+router.post('/invites/:token/accept', async (req, res) => {
+  try {
+    const invite = await getHouseholdInviteByToken(req.params.token);
+
+    if (!invite) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Invite not found')
+      );
+      return;
+    }
+
+    if (invite.acceptedAt) {
+      res.status(409).json(
+        errorResponse('INVITE_ALREADY_ACCEPTED', 'This invite has already been accepted')
+      );
+      return;
+    }
+
+    if (invite.expiresAt <= new Date().toISOString()) {
+      res.status(410).json(
+        errorResponse('INVITE_EXPIRED', 'This invite has expired')
+      );
+      return;
+    }
+
+    const household = await getHouseholdById(invite.householdId);
+    if (!household) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Invite not found')
+      );
+      return;
+    }
+
+    if (!(await addMember(req, res, household, invite.role))) return;
+
+    await markHouseholdInviteAccepted(invite.id, req.userId!);
+
+    res.status(201).json(successResponse({ ...household, role: invite.role }));
+  } catch (error) {
+    console.error('[POST /households/invites/:token/accept] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to accept invite')
+    );
+  }
+});
+
+/**
+ * PATCH /api/households/members/:userId
+ * Change a member's role between editor and viewer (owner only)
+ */
+router.patch('/members/:userId', async (req, res) => {
+  try {
+    const memberId = req.params.userId;
+    const validation = updateHouseholdMemberSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    if (memberId === req.userId) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'The owner role cannot be changed')
+      );
+      return;
+    }
+
+    const member = await updateHouseholdMemberRole(membership.household.id, memberId, validation.data.role);
+
+    if (!member) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Member ${memberId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(member));
+  } catch (error) {
+    console.error('[PATCH /households/members/:userId] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update member')
+    );
+  }
+});
+
+/**
+ * DELETE /api/households/members/:userId
+ * Remove a member from the household (owner only)
+ * Their own items stay with them; they lose access to the shared inventory
+ */
+router.delete('/members/:userId', async (req, res) => {
+  try {
+    const memberId = req.params.userId;
+    const membership = await loadMembership(req, res, true);
+    if (!membership) return;
+
+    if (memberId === req.userId) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Use POST /api/households/leave to leave the household')
+      );
+      return;
+    }
+
+    const removed = await removeHouseholdMember(membership.household.id, memberId);
+
+    if (!removed) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Member ${memberId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ removed: true, userId: memberId }));
+  } catch (error) {
+    console.error('[DELETE /households/members/:userId] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to remove member')
+    );
+  }
+});
+
+export default router;
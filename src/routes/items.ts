@@ -12,20 +12,34 @@ import {
   updateItem,
   deleteItem,
   getCategories,
+  getItemLots,
+  getExpiringLots,
 } from '../db';
+import { getMealPlan, getRecipes, getStorageLocationById, moveItem, searchItems } from '../db/operations';
 import { requireAuth } from '../middleware/auth';
-import { ApiResponse } from '../models/types';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse, PantryItemWithLots } from '../models/types';
 import {
   createItemSchema,
   updateItemSchema,
   itemIdSchema,
+  itemLocationQuerySchema,
+  itemSearchQuerySchema,
+  moveItemSchema,
+  expiringQuerySchema,
 } from '../models/validation';
+import { today, addDays, annotateExpiry } from '../services/expiry';
+import { allocateMealPlan, withReservations } from '../services/mealPlan';
+import { parseGtin } from '../services/barcode';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -55,6 +69,19 @@ function errorResponse(code: string, message: string, details?: Record<string, u
   };
 }
 
+/**
+ * Quantities reserved per item by meals planned from today on
+ * Allocated across the whole pantry, so a category filter doesn't change them
+ */
+async function reservedQuantities(ownerId: string): Promise<Record<string, number>> {
+  const plan = await getMealPlan(ownerId, today());
+  if (plan.length === 0) return {};
+
+  const [recipes, items] = await Promise.all([getRecipes(ownerId), getAllItems(ownerId)]);
+
+  return allocateMealPlan(plan, recipes, items).reserved;
+}
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -62,15 +89,28 @@ function errorResponse(code: string, message: string, details?: Record<string, u
 /**
  * GET /api/items
  * List all pantry items for the authenticated user with optional category filter
+ * Query param locationId filters by storage location ("none" for unassigned items)
+ * Each item shows the quantity reserved by upcoming planned meals and what is available
  */
 router.get('/', async (req, res) => {
   try {
     const { category } = req.query;
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
+
+    const validation = itemLocationQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
     
-    const items = await getAllItems(userId, category as string | undefined);
+    const items = await getAllItems(ownerId, category as string | undefined, validation.data.locationId);
+    const reserved = await reservedQuantities(ownerId);
 
-    res.json(successResponse(items, userId));
+    res.json(successResponse(withReservations(items, reserved), ownerId));
   } catch (error) {
     console.error('[GET /items] Error:', error);
     res.status(500).json(
@@ -85,8 +125,8 @@ router.get('/', async (req, res) => {
  */
 router.get('/categories', async (req, res) => {
   try {
-    const userId = req.userId!;
-    const categories = await getCategories(userId);
+    const ownerId = req.ownerId!;
+    const categories = await getCategories(ownerId);
     res.json(successResponse(categories));
   } catch (error) {
     console.error('[GET /items/categories] Error:', error);
@@ -96,13 +136,79 @@ router.get('/categories', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/items/search
+ * Ranked fuzzy search over item names, barcodes, brands and categories
+ * Query params: q (required), limit (default 20, max 50), category,
+ * locationId ("none" for unassigned items)
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = itemSearchQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    // A scanned UPC or EAN finds items stored under its GTIN-14
+    const { q, ...options } = validation.data;
+    const results = await searchItems(ownerId, parseGtin(q)?.gtin14 ?? q, options);
+
+    res.json(successResponse(results, ownerId));
+  } catch (error) {
+    console.error('[GET /items/search] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to search items')
+    );
+  }
+});
+
+/**
+ * GET /api/items/expiring
+ * List open lots expiring within the next N days ("use these first")
+ * Query params: withinDays (default 7) - already-expired lots are included
+ */
+router.get('/expiring', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = expiringQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { withinDays } = validation.data;
+    const referenceDate = today();
+    const lots = await getExpiringLots(ownerId, addDays(referenceDate, withinDays));
+
+    res.json(successResponse(annotateExpiry(lots, referenceDate)));
+  } catch (error) {
+    console.error('[GET /items/expiring] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve expiring items')
+    );
+  }
+});
+
 /**
  * GET /api/items/:id
  * Get a specific item by ID for the authenticated user
+ * Includes the open lots (first-expiring-first) making up its quantity
  */
 router.get('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = itemIdSchema.safeParse({ id: req.params.id });
 
     if (!validation.success) {
@@ -114,7 +220,7 @@ router.get('/:id', async (req, res) => {
       return;
     }
 
-    const item = await getItemById(userId, req.params.id);
+    const item = await getItemById(ownerId, req.params.id);
 
     if (!item) {
       res.status(404).json(
@@ -123,7 +229,15 @@ router.get('/:id', async (req, res) => {
       return;
     }
 
-    res.json(successResponse(item));
+    const lots = await getItemLots(ownerId, item.id);
+    const lotTotal = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const itemWithLots: PantryItemWithLots = {
+      ...item,
+      lots,
+      untrackedQuantity: Math.max(0, item.quantity - lotTotal),
+    };
+
+    res.json(successResponse(itemWithLots));
   } catch (error) {
     console.error('[GET /items/:id] Error:', error);
     res.status(500).json(
@@ -138,7 +252,7 @@ router.get('/:id', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = createItemSchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -150,9 +264,17 @@ router.post('/', async (req, res) => {
       return;
     }
 
-    const newItem = await createItem(userId, validation.data);
+    const { locationId } = validation.data;
+    if (locationId && !(await getStorageLocationById(ownerId, locationId))) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Storage location with ID ${locationId} not found`)
+      );
+      return;
+    }
+
+    const newItem = await createItem(ownerId, validation.data);
 
-    res.status(201).json(successResponse(newItem, userId));
+    res.status(201).json(successResponse(newItem, ownerId));
   } catch (error) {
     console.error('[POST /items] Error:', error);
     res.status(500).json(
@@ -167,13 +289,13 @@ router.post('/', async (req, res) => {
  */
 router.put('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const itemId = req.params.id;
     
     // DEBUG: Log incoming request details
     console.log(`[PUT /api/items/:id] Request received:`, {
       itemId,
-      userId,
+      ownerId,
       body: req.body,
       contentType: req.headers['content-type'],
     });
@@ -210,12 +332,12 @@ router.put('/:id', async (req, res) => {
     }
 
     console.log(`[PUT /api/items/:id] Calling updateItem with:`, {
-      userId,
+      ownerId,
       itemId,
       data: bodyValidation.data,
     });
 
-    const updatedItem = await updateItem(userId, itemId, bodyValidation.data);
+    const updatedItem = await updateItem(ownerId, itemId, bodyValidation.data);
 
     // DEBUG: Log result
     console.log(`[PUT /api/items/:id] updateItem result:`, updatedItem);
@@ -238,13 +360,85 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/items/:id/move
+ * Move an item to a storage location (locationId null: out of any location)
+ * Body: { locationId, quantity? } - moving part of the stock transfers it to
+ * the item of the same name and unit at the destination, creating one if needed
+ * Logged as MOVED activities
+ */
+router.post('/:id/move', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const itemId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: itemId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid item ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = moveItemSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { locationId, quantity } = bodyValidation.data;
+
+    const item = await getItemById(ownerId, itemId);
+    if (!item) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Item with ID ${itemId} not found`)
+      );
+      return;
+    }
+
+    if (locationId && !(await getStorageLocationById(ownerId, locationId))) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Storage location with ID ${locationId} not found`)
+      );
+      return;
+    }
+
+    if (quantity !== undefined && quantity > item.quantity) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', `Cannot move ${quantity} ${item.unit}: only ${item.quantity} in stock`)
+      );
+      return;
+    }
+
+    const result = await moveItem(ownerId, itemId, locationId, { quantity, performedBy: req.userId! });
+
+    if (!result) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Item with ID ${itemId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(result));
+  } catch (error) {
+    console.error('[POST /items/:id/move] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to move item')
+    );
+  }
+});
+
 /**
  * DELETE /api/items/:id
  * Delete a pantry item for the authenticated user
  */
 router.delete('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = itemIdSchema.safeParse({ id: req.params.id });
 
     if (!validation.success) {
@@ -254,7 +448,7 @@ router.delete('/:id', async (req, res) => {
       return;
     }
 
-    const deleted = await deleteItem(userId, req.params.id);
+    const deleted = await deleteItem(ownerId, req.params.id);
 
     if (!deleted) {
       res.status(404).json(
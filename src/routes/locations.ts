@@ -0,0 +1,209 @@
+/**
+ * Storage Location API Routes
+ * Endpoints for managing where pantry items are kept (fridge, freezer, shelf)
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import {
+  getStorageLocations,
+  getStorageLocationById,
+  getStorageLocationByName,
+  createStorageLocation,
+  updateStorageLocation,
+  deleteStorageLocation,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import { storageLocationSchema, itemIdSchema } from '../models/validation';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/locations
+ * List storage locations with the number of items in each
+ */
+router.get('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+
+    const locations = await getStorageLocations(ownerId);
+
+    res.json(successResponse(locations, { count: locations.length }));
+  } catch (error) {
+    console.error('[GET /locations] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve storage locations')
+    );
+  }
+});
+
+/**
+ * POST /api/locations
+ * Create a storage location; names are unique (case-insensitive)
+ */
+router.post('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = storageLocationSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { name } = validation.data;
+
+    if (await getStorageLocationByName(ownerId, name)) {
+      res.status(409).json(
+        errorResponse('CONFLICT', `A storage location named ${name} already exists`)
+      );
+      return;
+    }
+
+    const location = await createStorageLocation(ownerId, name);
+
+    res.status(201).json(successResponse(location));
+  } catch (error) {
+    console.error('[POST /locations] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to create storage location')
+    );
+  }
+});
+
+/**
+ * PUT /api/locations/:id
+ * Rename a storage location
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const locationId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: locationId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid location ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = storageLocationSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { name } = bodyValidation.data;
+
+    const existing = await getStorageLocationByName(ownerId, name);
+    if (existing && existing.id !== locationId) {
+      res.status(409).json(
+        errorResponse('CONFLICT', `A storage location named ${name} already exists`)
+      );
+      return;
+    }
+
+    const location = await updateStorageLocation(ownerId, locationId, name);
+
+    if (!location) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Storage location with ID ${locationId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(location));
+  } catch (error) {
+    console.error('[PUT /locations/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update storage location')
+    );
+  }
+});
+
+/**
+ * DELETE /api/locations/:id
+ * Delete a storage location; its items are kept without a location
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const locationId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: locationId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid location ID format')
+      );
+      return;
+    }
+
+    const location = await getStorageLocationById(ownerId, locationId);
+
+    if (!location || !(await deleteStorageLocation(ownerId, locationId))) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Storage location with ID ${locationId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: locationId, unassignedItems: location.itemCount }));
+  } catch (error) {
+    console.error('[DELETE /locations/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete storage location')
+    );
+  }
+});
+
+export default router;
@@ -0,0 +1,379 @@
+/**
+ * Meal Plan API Routes
+ * Endpoints for planning meals and shopping for the plan
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import {
+  getAllItems,
+  getRecipes,
+  getRecipeById,
+  getMealPlan,
+  getMealPlanEntryById,
+  createMealPlanEntry,
+  updateMealPlanEntry,
+  deleteMealPlanEntry,
+  getShoppingList,
+  addShoppingListItem,
+  updateShoppingListItem,
+  transaction,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import { ShoppingListItem } from '../models/shoppingList';
+import { MealPlanShortfall } from '../models/mealPlan';
+import {
+  createMealPlanEntrySchema,
+  updateMealPlanEntrySchema,
+  mealPlanRangeSchema,
+  itemIdSchema,
+} from '../models/validation';
+import { today, addDays } from '../services/expiry';
+import { allocateMealPlan } from '../services/mealPlan';
+import { normalizeUnit } from '../services/units';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// Days covered when no range is given: the week starting today
+const DEFAULT_PLAN_DAYS = 7;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Open shopping list entry already buying a shortfall: the same pantry item,
+ * or for unmatched ingredients the same name and unit
+ */
+function findOpenEntry(list: ShoppingListItem[], shortfall: MealPlanShortfall): ShoppingListItem | undefined {
+  return list.find((entry) =>
+    shortfall.itemId
+      ? entry.itemId === shortfall.itemId
+      : !entry.itemId
+        && entry.name.toLowerCase() === shortfall.name.toLowerCase()
+        && normalizeUnit(entry.unit ?? '') === normalizeUnit(shortfall.unit ?? '')
+  );
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/meal-plan
+ * List planned meals by date and slot
+ * Query params: from (default today), to (default a week from from)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = mealPlanRangeSchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const from = validation.data.from ?? today();
+    const to = validation.data.to ?? addDays(from, DEFAULT_PLAN_DAYS - 1);
+
+    const entries = await getMealPlan(ownerId, from, to);
+
+    res.json(successResponse(entries, { from, to, count: entries.length }));
+  } catch (error) {
+    console.error('[GET /meal-plan] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve meal plan')
+    );
+  }
+});
+
+/**
+ * POST /api/meal-plan
+ * Plan a meal for a day and slot
+ * Cooks a recipe (title defaults to its name) and/or free-text ingredients
+ */
+router.post('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = createMealPlanEntrySchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { recipeId, title } = validation.data;
+
+    const recipe = recipeId ? await getRecipeById(ownerId, recipeId) : null;
+    if (recipeId && !recipe) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    const entry = await createMealPlanEntry(ownerId, {
+      ...validation.data,
+      title: title ?? recipe!.name,
+    });
+
+    res.status(201).json(successResponse(entry));
+  } catch (error) {
+    console.error('[POST /meal-plan] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to plan meal')
+    );
+  }
+});
+
+/**
+ * POST /api/meal-plan/shopping-list
+ * Add what the planned meals need beyond current stock to the shopping list
+ * Body: { from?, to? } - defaults to the week starting today
+ * Meals between today and from reserve stock first. Needs already on the
+ * list raise the open entry's quantity instead of adding another.
+ */
+router.post('/shopping-list', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = mealPlanRangeSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const from = validation.data.from ?? today();
+    const to = validation.data.to ?? addDays(from, DEFAULT_PLAN_DAYS - 1);
+    const planStart = from < today() ? from : today();
+
+    const [plan, recipes, items, openEntries] = await Promise.all([
+      getMealPlan(ownerId, planStart, to),
+      getRecipes(ownerId),
+      getAllItems(ownerId),
+      getShoppingList(ownerId, false),
+    ]);
+
+    const { shortfalls } = allocateMealPlan(plan, recipes, items, from);
+
+    const { added, updated } = await transaction(async () => {
+      const result = { added: [] as ShoppingListItem[], updated: [] as ShoppingListItem[] };
+
+      for (const shortfall of shortfalls) {
+        const open = findOpenEntry(openEntries, shortfall);
+
+        if (open) {
+          if (open.quantity < shortfall.quantity) {
+            const entry = await updateShoppingListItem(ownerId, open.id, { quantity: shortfall.quantity });
+            if (entry) result.updated.push(entry);
+          }
+          continue;
+        }
+
+        const item = shortfall.itemId ? items.find((candidate) => candidate.id === shortfall.itemId) : undefined;
+
+        result.added.push(await addShoppingListItem(ownerId, {
+          itemId: shortfall.itemId,
+          name: shortfall.name,
+          quantity: shortfall.quantity,
+          unit: shortfall.unit,
+          category: item?.category,
+          barcode: item?.barcode,
+        }));
+      }
+
+      return result;
+    });
+
+    res.json(successResponse({ added, updated, shortfalls }, {
+      from,
+      to,
+      addedCount: added.length,
+      updatedCount: updated.length,
+    }));
+  } catch (error) {
+    console.error('[POST /meal-plan/shopping-list] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to generate shopping list from meal plan')
+    );
+  }
+});
+
+/**
+ * GET /api/meal-plan/:id
+ * Get a planned meal
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const entryId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: entryId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid meal plan entry ID format')
+      );
+      return;
+    }
+
+    const entry = await getMealPlanEntryById(ownerId, entryId);
+
+    if (!entry) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Meal plan entry with ID ${entryId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(entry));
+  } catch (error) {
+    console.error('[GET /meal-plan/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve meal plan entry')
+    );
+  }
+});
+
+/**
+ * PUT /api/meal-plan/:id
+ * Update a planned meal; an ingredients list replaces the existing one
+ * recipeId, servings and notes can be cleared with null
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const entryId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: entryId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid meal plan entry ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = updateMealPlanEntrySchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    if (Object.keys(bodyValidation.data).length === 0) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+      );
+      return;
+    }
+
+    const { recipeId } = bodyValidation.data;
+    if (recipeId && !(await getRecipeById(ownerId, recipeId))) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    const entry = await updateMealPlanEntry(ownerId, entryId, bodyValidation.data);
+
+    if (!entry) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Meal plan entry with ID ${entryId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(entry));
+  } catch (error) {
+    console.error('[PUT /meal-plan/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update meal plan entry')
+    );
+  }
+});
+
+/**
+ * DELETE /api/meal-plan/:id
+ * Remove a planned meal, releasing the stock it reserved
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const entryId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: entryId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid meal plan entry ID format')
+      );
+      return;
+    }
+
+    const deleted = await deleteMealPlanEntry(ownerId, entryId);
+
+    if (!deleted) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Meal plan entry with ID ${entryId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: entryId }));
+  } catch (error) {
+    console.error('[DELETE /meal-plan/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete meal plan entry')
+    );
+  }
+});
+
+export default router;
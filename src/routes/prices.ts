@@ -0,0 +1,198 @@
+/**
+ * Price History API Routes
+ * Endpoints for price trends, store comparison and price rise alerts,
+ * built from completed shopping sessions and imported receipts
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import { getAllItems, getPriceHistory, getShoppingList } from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import {
+  priceTrendQuerySchema,
+  shoppingListPricesQuerySchema,
+  priceAlertsQuerySchema,
+} from '../models/validation';
+import {
+  buildPriceTrend,
+  compareShoppingListPrices,
+  findPriceIncreases,
+  DEFAULT_PRICE_HISTORY_DAYS,
+  PRICE_ALERT_THRESHOLD_PERCENT,
+} from '../services/prices';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * ISO 8601 timestamp `days` days ago
+ */
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/prices/trend
+ * Unit price of a product over time, per store
+ * Query params:
+ *   - barcode or name: the product (prices match by barcode or normalized name)
+ *   - days: history to include (default 180)
+ */
+router.get('/trend', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = priceTrendQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { barcode, name, days = DEFAULT_PRICE_HISTORY_DAYS } = validation.data;
+
+    const observations = await getPriceHistory(ownerId, {
+      products: [{ barcode, name }],
+      since: daysAgo(days),
+    });
+    const trend = buildPriceTrend(observations);
+
+    if (!trend) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'No prices recorded for this product')
+      );
+      return;
+    }
+
+    res.json(successResponse(trend, { days, observationCount: trend.points.length }));
+  } catch (error) {
+    console.error('[GET /prices/trend] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve price trend')
+    );
+  }
+});
+
+/**
+ * GET /api/prices/shopping-list
+ * Estimated cost of the unchecked shopping list at each store, using each
+ * store's latest price, and the cheapest known store per entry
+ * Query params:
+ *   - days: history to include (default 180)
+ */
+router.get('/shopping-list', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = shoppingListPricesQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { days = DEFAULT_PRICE_HISTORY_DAYS } = validation.data;
+
+    const items = await getShoppingList(ownerId, false);
+    const observations = items.length > 0
+      ? await getPriceHistory(ownerId, { products: items, since: daysAgo(days) })
+      : [];
+    const densities = new Map<string, number>();
+    if (items.some((item) => item.itemId)) {
+      for (const pantryItem of await getAllItems(ownerId)) {
+        if (pantryItem.density !== undefined) densities.set(pantryItem.id, pantryItem.density);
+      }
+    }
+    const comparison = compareShoppingListPrices(items, observations, densities);
+
+    res.json(successResponse(comparison, { days, itemCount: items.length }));
+  } catch (error) {
+    console.error('[GET /prices/shopping-list] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to compare shopping list prices')
+    );
+  }
+});
+
+/**
+ * GET /api/prices/alerts
+ * Products whose latest price at a store rose over the previous price there
+ * Query params:
+ *   - threshold: smallest rise to report, in percent (default 10)
+ *   - days: history to include (default 180)
+ */
+router.get('/alerts', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = priceAlertsQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { days = DEFAULT_PRICE_HISTORY_DAYS, threshold = PRICE_ALERT_THRESHOLD_PERCENT } = validation.data;
+
+    const observations = await getPriceHistory(ownerId, { since: daysAgo(days) });
+    const alerts = findPriceIncreases(observations, threshold);
+
+    res.json(successResponse(alerts, { count: alerts.length, days, threshold }));
+  } catch (error) {
+    console.error('[GET /prices/alerts] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve price alerts')
+    );
+  }
+});
+
+export default router;
@@ -1,13 +1,23 @@
 /**
  * Receipt Scanning API Routes
- * Tesseract.js-based OCR for receipt scanning
- * POST /api/receipts/scan - Upload image, get extracted items
+ * OCR for receipt scanning (Tesseract.js by default, see services/ocrEngine)
+ * POST /api/receipts/jobs - Queue an image, poll or stream the job for its items
+ * POST /api/receipts/scan - The same (it used to wait for the scan)
+ * Images come as multipart/form-data (field `image`) or base64 in JSON
  */
 
-import { Router } from 'express';
-import { scanReceiptImage } from '../services/receiptOcr';
+import { Router, Request, Response } from 'express';
+import { getOcrEngine } from '../services/ocrEngine';
+import { listStoreProfiles } from '../services/receiptParser';
+import { submitReceiptJob, watchReceiptJob, isFinishedJob } from '../services/receiptJobs';
+import { getReceiptJob } from '../db/operations';
 import { requireAuth } from '../middleware/auth';
+import { trackReceiptScan, sendReceiptScanLimitReached } from '../middleware/tierCheck';
+import { acceptImageUpload } from '../middleware/imageUpload';
+import { rateLimit } from '../middleware/rateLimit';
 import { ApiResponse } from '../models/types';
+import { ReceiptJob } from '../models/receiptJob';
+import { receiptJobIdSchema } from '../models/validation';
 
 const router = Router();
 
@@ -43,66 +53,165 @@ function errorResponse(code: string, message: string, details?: Record<string, u
   };
 }
 
+/**
+ * Why an uploaded image can't be scanned, or null if it looks fine
+ * Multipart uploads were already checked by acceptImageUpload
+ */
+function imageError(req: Request): string | null {
+  if (req.uploadedImage) return null;
+
+  const { image } = req.body;
+  if (!image || typeof image !== 'string') {
+    return 'Missing or invalid image field. Expected base64 string.';
+  }
+
+  // Validate base64 (basic check)
+  if (!image.match(/^[A-Za-z0-9+/]*={0,2}$/)) {
+    return 'Invalid base64 image data';
+  }
+
+  return null;
+}
+
+/**
+ * Queue the uploaded image for scanning; answers 202 with the PENDING job
+ * The scan counts toward the monthly limit from now on, and is given back
+ * if the job fails for good
+ */
+async function queueReceiptScan(req: Request, res: Response): Promise<void> {
+  try {
+    const invalid = imageError(req);
+
+    if (invalid) {
+      res.status(400).json(errorResponse('VALIDATION_ERROR', invalid));
+      return;
+    }
+
+    // Jobs keep their image as base64 until they are scanned
+    const image = req.uploadedImage ? req.uploadedImage.data.toString('base64') : req.body.image;
+    const job = await submitReceiptJob(req.userId!, image);
+
+    if (!job) {
+      sendReceiptScanLimitReached(res);
+      return;
+    }
+
+    res.status(202).json(successResponse(job));
+  } catch (error) {
+    console.error(`[POST /receipts${req.path}] Error:`, error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to queue receipt scan')
+    );
+  }
+}
+
 // ============================================================================
 // Routes
 // ============================================================================
 
 /**
  * POST /api/receipts/scan
- * Scan a receipt image using Tesseract.js OCR
- * Body: { image: base64String }
- * Returns: { items: [{ name, quantity, unit, category, price }] }
+ * Scan a receipt image with the configured OCR engine, parsed with the
+ * detected store's profile
+ * Scans run on the receipt job worker, so this queues a job like /jobs and
+ * answers 202 with it; the items are in the job's `result` once it succeeds
+ * Body: { image: base64String }, or multipart/form-data with an `image` file
  */
-router.post('/scan', async (req, res) => {
-  try {
-    const { image } = req.body;
+router.post('/scan', rateLimit('receiptScan'), trackReceiptScan, acceptImageUpload(), queueReceiptScan);
+
+/**
+ * POST /api/receipts/jobs
+ * Queue a receipt image for scanning; returns the PENDING job right away
+ * Body: { image: base64String }, or multipart/form-data with an `image` file
+ */
+router.post('/jobs', rateLimit('receiptScan'), trackReceiptScan, acceptImageUpload(), queueReceiptScan);
 
-    if (!image || typeof image !== 'string') {
+/**
+ * GET /api/receipts/jobs/:id
+ * Poll a receipt job; `result` holds the scan once it has SUCCEEDED
+ */
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const validation = receiptJobIdSchema.safeParse(req.params);
+    if (!validation.success) {
       res.status(400).json(
-        errorResponse('VALIDATION_ERROR', 'Missing or invalid image field. Expected base64 string.')
+        errorResponse('VALIDATION_ERROR', 'Invalid job ID format')
       );
       return;
     }
 
-    // Validate base64 (basic check)
-    if (!image.match(/^[A-Za-z0-9+/]*={0,2}$/)) {
-      res.status(400).json(
-        errorResponse('VALIDATION_ERROR', 'Invalid base64 image data')
+    const job = await getReceiptJob(validation.data.id, req.userId!);
+
+    if (!job) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Receipt job not found')
       );
       return;
     }
 
-    console.log('[Receipt Scan] Starting OCR...');
-    const startTime = Date.now();
-
-    // Run OCR
-    const result = await scanReceiptImage(image);
-
-    const duration = Date.now() - startTime;
-    console.log(`[Receipt Scan] OCR complete in ${duration}ms, found ${result.items.length} items`);
-
-    res.json(
-      successResponse(
-        {
-          items: result.items,
-          store: result.store,
-          total: result.total,
-          confidence: result.confidence,
-        },
-        {
-          ocrEngine: 'tesseract.js',
-          processingTimeMs: duration,
-          rawLength: result.rawText.length,
-        }
-      )
+    res.json(successResponse(job));
+  } catch (error) {
+    console.error('[GET /receipts/jobs/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve receipt job')
     );
+  }
+});
+
+/**
+ * GET /api/receipts/jobs/:id/events
+ * Server-sent events: a `job` event with the job now and on every change,
+ * closing once it has SUCCEEDED or FAILED
+ */
+router.get('/jobs/:id/events', async (req, res) => {
+  try {
+    const validation = receiptJobIdSchema.safeParse(req.params);
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid job ID format')
+      );
+      return;
+    }
+
+    const job = await getReceiptJob(validation.data.id, req.userId!);
+
+    if (!job) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Receipt job not found')
+      );
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const send = (current: ReceiptJob) => {
+      res.write(`event: job\ndata: ${JSON.stringify(current)}\n\n`);
+    };
+
+    send(job);
+    if (isFinishedJob(job)) {
+      res.end();
+      return;
+    }
+
+    const stop = watchReceiptJob(job, (next) => {
+      send(next);
+      if (isFinishedJob(next)) res.end();
+    });
+    req.on('close', stop);
   } catch (error) {
-    console.error('[POST /receipts/scan] Error:', error);
+    console.error('[GET /receipts/jobs/:id/events] Error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
     res.status(500).json(
-      errorResponse(
-        'OCR_ERROR',
-        error instanceof Error ? error.message : 'Failed to process receipt image'
-      )
+      errorResponse('INTERNAL_ERROR', 'Failed to stream receipt job')
     );
   }
 });
@@ -115,8 +224,9 @@ router.get('/health', (_req, res) => {
   res.json(
     successResponse({
       status: 'ok',
-      ocrEngine: 'tesseract.js',
+      ocrEngine: getOcrEngine().name,
       supportedLanguages: ['eng'],
+      storeProfiles: listStoreProfiles(),
     })
   );
 });
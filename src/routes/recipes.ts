@@ -0,0 +1,418 @@
+/**
+ * Recipe API Routes
+ * Endpoints for the recipe catalog, pantry matching and cooking recipes
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import {
+  getAllItems,
+  getRecipes,
+  getRecipeById,
+  createRecipe,
+  updateRecipe,
+  deleteRecipe,
+  logActivity,
+  transaction,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse, Activity } from '../models/types';
+import { RecipeIngredient } from '../models/recipe';
+import {
+  createRecipeSchema,
+  updateRecipeSchema,
+  cookRecipeSchema,
+  recipeMatchQuerySchema,
+  itemIdSchema,
+} from '../models/validation';
+import {
+  parseSchemaOrgRecipes,
+  matchRecipe,
+  rankRecipes,
+  requiredAmount,
+  servingScale,
+} from '../services/recipe';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/recipes
+ * List the user's recipes with their ingredients
+ */
+router.get('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const recipes = await getRecipes(ownerId);
+
+    res.json(successResponse(recipes, { count: recipes.length }));
+  } catch (error) {
+    console.error('[GET /recipes] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve recipes')
+    );
+  }
+});
+
+/**
+ * GET /api/recipes/matches
+ * Rank recipes by how many ingredients the current pantry covers
+ * Query params: limit (default 20), maxMissing
+ */
+router.get('/matches', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = recipeMatchQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { limit, maxMissing } = validation.data;
+
+    const [recipes, items] = await Promise.all([getRecipes(ownerId), getAllItems(ownerId)]);
+    const matches = rankRecipes(recipes, items)
+      .filter((match) => maxMissing === undefined || match.missing.length <= maxMissing)
+      .slice(0, limit);
+
+    res.json(successResponse(matches, { count: matches.length }));
+  } catch (error) {
+    console.error('[GET /recipes/matches] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to match recipes')
+    );
+  }
+});
+
+/**
+ * POST /api/recipes
+ * Create a recipe
+ */
+router.post('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = createRecipeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const recipe = await createRecipe(ownerId, validation.data);
+
+    res.status(201).json(successResponse(recipe));
+  } catch (error) {
+    console.error('[POST /recipes] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to create recipe')
+    );
+  }
+});
+
+/**
+ * POST /api/recipes/import
+ * Import recipes from a schema.org Recipe JSON-LD document
+ * Accepts a single Recipe, an array, or a document with @graph
+ */
+router.post('/import', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const inputs = parseSchemaOrgRecipes(req.body);
+
+    if (inputs.length === 0) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'No schema.org Recipe with a name and ingredients found')
+      );
+      return;
+    }
+
+    const invalid = inputs
+      .map((input) => createRecipeSchema.safeParse(input))
+      .find((result) => !result.success);
+
+    if (invalid && !invalid.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Imported recipe is invalid', {
+          errors: invalid.error.errors,
+        })
+      );
+      return;
+    }
+
+    const recipes = [];
+    for (const input of inputs) {
+      recipes.push(await createRecipe(ownerId, input));
+    }
+
+    res.status(201).json(successResponse(recipes, { count: recipes.length }));
+  } catch (error) {
+    console.error('[POST /recipes/import] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to import recipes')
+    );
+  }
+});
+
+/**
+ * GET /api/recipes/:id
+ * Get a recipe with how well the current pantry covers it
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const recipeId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: recipeId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid recipe ID format')
+      );
+      return;
+    }
+
+    const recipe = await getRecipeById(ownerId, recipeId);
+
+    if (!recipe) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    const { matched, missing, coverage } = matchRecipe(recipe, await getAllItems(ownerId));
+
+    res.json(successResponse({ ...recipe, matched, missing, coverage }));
+  } catch (error) {
+    console.error('[GET /recipes/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve recipe')
+    );
+  }
+});
+
+/**
+ * PUT /api/recipes/:id
+ * Update a recipe; an ingredients list replaces the existing one
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const recipeId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: recipeId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid recipe ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = updateRecipeSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    if (Object.keys(bodyValidation.data).length === 0) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+      );
+      return;
+    }
+
+    const recipe = await updateRecipe(ownerId, recipeId, bodyValidation.data);
+
+    if (!recipe) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(recipe));
+  } catch (error) {
+    console.error('[PUT /recipes/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update recipe')
+    );
+  }
+});
+
+/**
+ * DELETE /api/recipes/:id
+ * Delete a recipe
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const recipeId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: recipeId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid recipe ID format')
+      );
+      return;
+    }
+
+    const deleted = await deleteRecipe(ownerId, recipeId);
+
+    if (!deleted) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: recipeId }));
+  } catch (error) {
+    console.error('[DELETE /recipes/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete recipe')
+    );
+  }
+});
+
+/**
+ * POST /api/recipes/:id/cook
+ * Cook a recipe: log a CONSUMED removal for every ingredient in one transaction
+ * Fails with 409 when ingredients are missing unless skipMissing is set.
+ * Ingredients whose amount can't be read in the pantry item's unit are skipped.
+ */
+router.post('/:id/cook', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const recipeId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: recipeId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid recipe ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = cookRecipeSchema.safeParse(req.body ?? {});
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const recipe = await getRecipeById(ownerId, recipeId);
+
+    if (!recipe) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Recipe with ID ${recipeId} not found`)
+      );
+      return;
+    }
+
+    const items = await getAllItems(ownerId);
+    const scale = servingScale(recipe, bodyValidation.data.servings);
+    const { matched, missing } = matchRecipe(recipe, items, scale);
+
+    if (missing.length > 0 && !bodyValidation.data.skipMissing) {
+      res.status(409).json(
+        errorResponse('RECIPE_INGREDIENTS_MISSING', 'The pantry does not cover every ingredient', {
+          missing,
+        })
+      );
+      return;
+    }
+
+    const skipped: RecipeIngredient[] = [];
+
+    const activities = await transaction(async () => {
+      const logged: Activity[] = [];
+
+      for (const { ingredient, itemId } of matched) {
+        const item = items.find((candidate) => candidate.id === itemId)!;
+        const amount = requiredAmount(ingredient, item, scale);
+
+        if (amount === null) {
+          skipped.push(ingredient);
+          continue;
+        }
+
+        const activity = await logActivity(ownerId, itemId, 'REMOVE', amount, 'MANUAL', {
+          reason: 'CONSUMED',
+          performedBy: req.userId!,
+        });
+
+        // The item vanished since matching; undo everything logged so far
+        if (!activity) {
+          throw new Error(`Item not found: ${item.name}`);
+        }
+
+        logged.push(activity);
+      }
+
+      return logged;
+    });
+
+    res.status(201).json(successResponse({ recipeId, activities, skipped, missing }));
+  } catch (error) {
+    console.error('[POST /recipes/:id/cook] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to cook recipe')
+    );
+  }
+});
+
+export default router;
@@ -0,0 +1,133 @@
+/**
+ * Reports API Routes
+ * Aggregated views over inventory history (waste, spending)
+ * All routes require authentication
+ */
+
+import { Router } from 'express';
+import { getWasteEntries, getSessionSpend } from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import { wasteReportQuerySchema, spendingReportQuerySchema } from '../models/validation';
+import { today, startOfMonth, buildWasteReport } from '../services/expiry';
+import { buildSpendReport } from '../services/budget';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// Default waste report window: the current month plus the previous five
+const DEFAULT_WASTE_REPORT_MONTHS = 6;
+
+// Default spending report window: the current month plus the previous five
+const DEFAULT_SPENDING_REPORT_MONTHS = 6;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/reports/waste
+ * Stock that expired unused, grouped by month and category, with money lost
+ * estimated from shopping session prices
+ * Query params: from, to (YYYY-MM-DD, default the last six months)
+ */
+router.get('/waste', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = wasteReportQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const to = validation.data.to || today();
+    const from = validation.data.from || startOfMonth(to, DEFAULT_WASTE_REPORT_MONTHS - 1);
+
+    const entries = await getWasteEntries(ownerId, from, to);
+
+    res.json(successResponse(buildWasteReport(entries, from, to)));
+  } catch (error) {
+    console.error('[GET /reports/waste] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to build waste report')
+    );
+  }
+});
+
+/**
+ * GET /api/reports/spending
+ * Spend from completed shopping sessions by week, month or year, with
+ * totals per category and store
+ * Query params: from, to (YYYY-MM-DD, default the last six months),
+ * period (week | month | year, default month)
+ */
+router.get('/spending', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = spendingReportQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const to = validation.data.to || today();
+    const from = validation.data.from || startOfMonth(to, DEFAULT_SPENDING_REPORT_MONTHS - 1);
+    const period = validation.data.period || 'month';
+
+    const sessions = await getSessionSpend(ownerId, from, to);
+
+    res.json(successResponse(buildSpendReport(sessions, from, to, period)));
+  } catch (error) {
+    console.error('[GET /reports/spending] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to build spending report')
+    );
+  }
+});
+
+export default router;
@@ -10,10 +10,11 @@ import {
   processReceiptScan,
   processVisualUsage,
   createItem,
-  getItemByName,
   logActivity,
 } from '../db';
+import { findItemMatch, recordPrices } from '../db/operations';
 import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
 import { ApiResponse, ScanResult } from '../models/types';
 import {
   scanReceiptSchema,
@@ -25,6 +26,9 @@ const router = Router();
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -106,11 +110,17 @@ router.post('/scan-receipt', (req, res) => {
 /**
  * POST /api/scan-receipt/import
  * Process receipt and automatically import items to inventory
- * Adds detected items as ADD activities
+ * Adds detected items as ADD activities, each opening a lot dated to the
+ * item's purchaseDate (falling back to the receipt-level purchaseDate)
+ * Lines are matched to existing items by fuzzy search; unmatched lines
+ * create new items
+ * Quantities are converted to the existing item's unit; items whose unit
+ * can't be converted are reported in errors
+ * Lines with a price are recorded in the price history under storeName
  */
 router.post('/scan-receipt/import', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = scanReceiptSchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -122,7 +132,7 @@ router.post('/scan-receipt/import', async (req, res) => {
       return;
     }
 
-    const { scanData } = validation.data;
+    const { scanData, purchaseDate, storeName } = validation.data;
 
     // Parse the scan data (this is synchronous)
     const results: ScanResult[] = processReceiptScan(scanData);
@@ -131,12 +141,12 @@ router.post('/scan-receipt/import', async (req, res) => {
 
     for (const scanResult of results) {
       try {
-        // Check if item already exists for this user
-        let item = await getItemByName(userId, scanResult.name);
+        // Match the receipt line to an existing item ("Whole Milk 2%" -> "Milk")
+        let item = await findItemMatch(ownerId, scanResult.name);
 
         if (!item) {
           // Create new item
-          item = await createItem(userId, {
+          item = await createItem(ownerId, {
             name: scanResult.name,
             quantity: 0,
             unit: scanResult.unit || 'pieces',
@@ -146,11 +156,17 @@ router.post('/scan-receipt/import', async (req, res) => {
 
         // Log ADD activity
         const activity = await logActivity(
-          userId,
+          ownerId,
           item.id,
           'ADD',
           scanResult.quantity,
-          'RECEIPT_SCAN'
+          'RECEIPT_SCAN',
+          {
+            purchaseDate: scanResult.purchaseDate || purchaseDate,
+            bestBefore: scanResult.bestBefore,
+            performedBy: req.userId!,
+            unit: scanResult.unit,
+          }
         );
 
         if (activity) {
@@ -169,11 +185,39 @@ router.post('/scan-receipt/import', async (req, res) => {
       }
     }
 
+    // Record the price paid per unit for each priced line
+    let pricesRecorded = 0;
+    const pricedLines = results.filter((line) => line.price && line.quantity > 0);
+    if (pricedLines.length > 0) {
+      try {
+        const prices = await recordPrices(
+          ownerId,
+          pricedLines.map((line) => {
+            const date = line.purchaseDate || purchaseDate;
+            return {
+              name: line.name,
+              price: line.price! / line.quantity,
+              quantity: line.quantity,
+              unit: line.unit,
+              storeName,
+              source: 'RECEIPT_SCAN' as const,
+              observedAt: date ? `${date}T00:00:00.000Z` : undefined,
+            };
+          })
+        );
+        pricesRecorded = prices.length;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        errors.push(`Error recording receipt prices: ${errorMessage}`);
+      }
+    }
+
     res.json(
       successResponse(
         { imported, errors },
         {
           totalProcessed: results.length,
+          pricesRecorded,
           successfulImports: imported.length,
           failedImports: errors.length,
           processedAt: new Date().toISOString(),
@@ -195,7 +239,7 @@ router.post('/scan-receipt/import', async (req, res) => {
  */
 router.post('/visual-usage', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = visualUsageSchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -211,7 +255,7 @@ router.post('/visual-usage', async (req, res) => {
     const source = detectionSource || 'VISUAL_USAGE';
 
     // Process detections and create activities
-    const results = await processVisualUsage(userId, detections, source);
+    const results = await processVisualUsage(ownerId, detections, source, req.userId!);
 
     res.json(
       successResponse(
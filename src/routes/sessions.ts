@@ -8,13 +8,19 @@
 import { Router } from 'express';
 import { getDatabase } from '../db';
 import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { acceptImageUpload } from '../middleware/imageUpload';
 import { ApiResponse } from '../models/types';
 import { SessionItem } from '../models/shoppingSession';
+import { saveReceiptImage, recordReceiptImage, decodeImageData } from '../services/receiptImages';
+import { queueReceiptHeaderRead } from '../services/receiptJobs';
 import {
   createSessionSchema,
   sessionIdSchema,
   updateSessionSchema,
   captureReceiptSchema,
+  captureReceiptUploadSchema,
+  CaptureReceiptInput,
 } from '../models/validation';
 
 const router = Router();
@@ -22,6 +28,9 @@ const router = Router();
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -71,7 +80,7 @@ function calculateRunningTotal(items: SessionItem[]): number {
  */
 router.post('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = createSessionSchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -84,7 +93,7 @@ router.post('/', async (req, res) => {
     }
 
     const db = getDatabase();
-    const session = await db.createSession(userId, validation.data);
+    const session = await db.createSession(ownerId, validation.data);
 
     res.status(201).json(successResponse(session));
   } catch (error) {
@@ -101,7 +110,7 @@ router.post('/', async (req, res) => {
  */
 router.get('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     const validation = sessionIdSchema.safeParse({ id: sessionId });
@@ -113,7 +122,7 @@ router.get('/:id', async (req, res) => {
     }
 
     const db = getDatabase();
-    const session = await db.getSessionById(userId, sessionId);
+    const session = await db.getSessionById(ownerId, sessionId);
 
     if (!session) {
       res.status(404).json(
@@ -145,10 +154,10 @@ router.get('/:id', async (req, res) => {
  */
 router.get('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const db = getDatabase();
 
-    const sessions = await db.getUserSessions(userId, 100, 0);
+    const sessions = await db.getUserSessions(ownerId, 100, 0);
 
     res.json(successResponse(sessions));
   } catch (error) {
@@ -165,7 +174,7 @@ router.get('/', async (req, res) => {
  */
 router.patch('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     const idValidation = sessionIdSchema.safeParse({ id: sessionId });
@@ -189,7 +198,7 @@ router.patch('/:id', async (req, res) => {
     const db = getDatabase();
 
     // Verify session exists and belongs to user
-    const existingSession = await db.getSessionById(userId, sessionId);
+    const existingSession = await db.getSessionById(ownerId, sessionId);
     if (!existingSession) {
       res.status(404).json(
         errorResponse('NOT_FOUND', 'Shopping session not found or not active')
@@ -201,7 +210,7 @@ router.patch('/:id', async (req, res) => {
     if (bodyValidation.data.items && bodyValidation.data.items.length > 0) {
       // Add items to session
       for (const item of bodyValidation.data.items) {
-        await db.addSessionItem(userId, sessionId, {
+        await db.addSessionItem(ownerId, sessionId, {
           barcode: item.barcode,
           name: item.name,
           quantity: item.quantity || 1,
@@ -213,7 +222,7 @@ router.patch('/:id', async (req, res) => {
     }
 
     // Return updated session
-    const updatedSession = await db.getSessionById(userId, sessionId);
+    const updatedSession = await db.getSessionById(ownerId, sessionId);
     if (!updatedSession) {
       res.status(500).json(
         errorResponse('INTERNAL_ERROR', 'Failed to retrieve updated session')
@@ -248,10 +257,12 @@ router.patch('/:id', async (req, res) => {
 /**
  * POST /sessions/:id/capture
  * Capture receipt image for a session
+ * Body: { imageData, mimeType, notes? }, or multipart/form-data with an
+ * `image` file and an optional `notes` field
  */
-router.post('/:id/capture', async (req, res) => {
+router.post('/:id/capture', acceptImageUpload(), async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     const idValidation = sessionIdSchema.safeParse({ id: sessionId });
@@ -262,7 +273,7 @@ router.post('/:id/capture', async (req, res) => {
       return;
     }
 
-    const bodyValidation = captureReceiptSchema.safeParse(req.body);
+    const bodyValidation = (req.uploadedImage ? captureReceiptUploadSchema : captureReceiptSchema).safeParse(req.body);
     if (!bodyValidation.success) {
       res.status(400).json(
         errorResponse('VALIDATION_ERROR', 'Invalid request body', {
@@ -275,7 +286,7 @@ router.post('/:id/capture', async (req, res) => {
     const db = getDatabase();
 
     // Verify session exists
-    const session = await db.getSessionById(userId, sessionId);
+    const session = await db.getSessionById(ownerId, sessionId);
     if (!session) {
       res.status(404).json(
         errorResponse('NOT_FOUND', 'Shopping session not found')
@@ -283,16 +294,17 @@ router.post('/:id/capture', async (req, res) => {
       return;
     }
 
-    // Capture receipt using adapter method
-    const receipt = await db.captureSessionReceipt(
-      userId,
-      sessionId,
-      bodyValidation.data.imageData,
-      bodyValidation.data.mimeType,
-      bodyValidation.data.notes
-    );
+    // Store the image in blob storage, then record the receipt
+    // Without an upload the body was checked against the full captureReceiptSchema
+    const { imageData, mimeType, notes } = bodyValidation.data as CaptureReceiptInput;
+    const image = req.uploadedImage ?? { data: decodeImageData(imageData), mimeType };
+    const stored = await saveReceiptImage(sessionId, image.data, image.mimeType);
+    const receipt = await recordReceiptImage(stored, () => db.captureSessionReceipt(ownerId, sessionId, stored, notes));
+
+    // Read the purchase date and totals off the receipt in the background
+    const job = await queueReceiptHeaderRead(req.userId!, image.data, { ownerId, sessionId, receiptId: receipt.id });
 
-    res.status(201).json(successResponse(receipt));
+    res.status(201).json(successResponse(receipt, { receiptJobId: job?.id }));
   } catch (error) {
     console.error('[POST /sessions/:id/capture] Error:', error);
     res.status(500).json(
@@ -307,7 +319,7 @@ router.post('/:id/capture', async (req, res) => {
  */
 router.get('/:id/receipts', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     const idValidation = sessionIdSchema.safeParse({ id: sessionId });
@@ -321,7 +333,7 @@ router.get('/:id/receipts', async (req, res) => {
     const db = getDatabase();
 
     // Verify session exists
-    const session = await db.getSessionById(userId, sessionId);
+    const session = await db.getSessionById(ownerId, sessionId);
     if (!session) {
       res.status(404).json(
         errorResponse('NOT_FOUND', 'Shopping session not found')
@@ -329,7 +341,7 @@ router.get('/:id/receipts', async (req, res) => {
       return;
     }
 
-    const receipts = await db.getSessionReceipts(userId, sessionId);
+    const receipts = await db.getSessionReceipts(ownerId, sessionId);
 
     res.json(successResponse(receipts));
   } catch (error) {
@@ -0,0 +1,351 @@
+/**
+ * Shopping List API Routes
+ * Endpoints for the persistent shopping list and starting shopping sessions from it
+ * All routes require authentication
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  getItemById,
+  getShoppingList,
+  addShoppingListItem,
+  updateShoppingListItem,
+  deleteShoppingListItem,
+  deleteShoppingListItems,
+  createSession,
+  addSessionItem,
+  getSessionById,
+  transaction,
+} from '../db/operations';
+import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { ApiResponse } from '../models/types';
+import {
+  addShoppingListItemSchema,
+  updateShoppingListItemSchema,
+  shoppingListQuerySchema,
+  createSessionSchema,
+  itemIdSchema,
+} from '../models/validation';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(requireAuth);
+
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function successResponse<T>(data: T, meta?: Record<string, unknown>): ApiResponse<T> {
+  return {
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString(),
+      ...meta,
+    },
+  };
+}
+
+function errorResponse(code: string, message: string, details?: Record<string, unknown>): ApiResponse<never> {
+  return {
+    success: false,
+    error: {
+      code,
+      message,
+      details,
+    },
+    meta: {
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Set the checked state of an entry, shared by the check and uncheck routes
+ */
+async function setChecked(req: Request, res: Response, checked: boolean): Promise<void> {
+  const ownerId = req.ownerId!;
+  const entryId = req.params.id;
+
+  const idValidation = itemIdSchema.safeParse({ id: entryId });
+  if (!idValidation.success) {
+    res.status(400).json(
+      errorResponse('VALIDATION_ERROR', 'Invalid shopping list item ID format')
+    );
+    return;
+  }
+
+  const entry = await updateShoppingListItem(ownerId, entryId, { checked });
+
+  if (!entry) {
+    res.status(404).json(
+      errorResponse('NOT_FOUND', `Shopping list item with ID ${entryId} not found`)
+    );
+    return;
+  }
+
+  res.json(successResponse(entry));
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/shopping-list
+ * List the user's shopping list, unchecked entries first
+ * Query params: checked (true|false)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = shoppingListQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid query parameters', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const items = await getShoppingList(ownerId, validation.data.checked);
+
+    res.json(successResponse(items, { count: items.length }));
+  } catch (error) {
+    console.error('[GET /shopping-list] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve shopping list')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-list
+ * Add an entry to the shopping list
+ * With itemId, name/unit/category/barcode default from the pantry item
+ */
+router.post('/', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = addShoppingListItemSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { itemId, name, quantity, unit, category, barcode } = validation.data;
+
+    const pantryItem = itemId ? await getItemById(ownerId, itemId) : null;
+    if (itemId && !pantryItem) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Item with ID ${itemId} not found`)
+      );
+      return;
+    }
+
+    const entry = await addShoppingListItem(ownerId, {
+      itemId,
+      name: name ?? pantryItem!.name,
+      quantity,
+      unit: unit ?? pantryItem?.unit,
+      category: category ?? pantryItem?.category,
+      barcode: barcode ?? pantryItem?.barcode,
+    });
+
+    res.status(201).json(successResponse(entry));
+  } catch (error) {
+    console.error('[POST /shopping-list] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to add shopping list item')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-list/start-session
+ * Start a shopping session containing every checked-off entry
+ * The entries move into the session and leave the list, in one transaction
+ */
+router.post('/start-session', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const validation = createSessionSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: validation.error.errors,
+        })
+      );
+      return;
+    }
+
+    // All or nothing: a failure part way leaves the list as it was and no session
+    const session = await transaction(async () => {
+      const checked = await getShoppingList(ownerId, true);
+      if (checked.length === 0) return null;
+
+      const created = await createSession(ownerId, validation.data);
+
+      for (const entry of checked) {
+        await addSessionItem(ownerId, created.id, {
+          barcode: entry.barcode,
+          name: entry.name,
+          quantity: entry.quantity,
+          unit: entry.unit,
+          category: entry.category,
+        });
+      }
+
+      await deleteShoppingListItems(ownerId, checked.map((entry) => entry.id));
+      return created;
+    });
+
+    if (!session) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'No checked-off items on the shopping list')
+      );
+      return;
+    }
+
+    const sessionWithItems = await getSessionById(ownerId, session.id);
+
+    res.status(201).json(successResponse(sessionWithItems));
+  } catch (error) {
+    console.error('[POST /shopping-list/start-session] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to start shopping session from list')
+    );
+  }
+});
+
+/**
+ * PUT /api/shopping-list/:id
+ * Update a shopping list entry
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const entryId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: entryId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid shopping list item ID format')
+      );
+      return;
+    }
+
+    const bodyValidation = updateShoppingListItemSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    if (Object.keys(bodyValidation.data).length === 0) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'At least one field must be provided for update')
+      );
+      return;
+    }
+
+    const entry = await updateShoppingListItem(ownerId, entryId, bodyValidation.data);
+
+    if (!entry) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Shopping list item with ID ${entryId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse(entry));
+  } catch (error) {
+    console.error('[PUT /shopping-list/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to update shopping list item')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-list/:id/check
+ * Check off a shopping list entry
+ */
+router.post('/:id/check', async (req, res) => {
+  try {
+    await setChecked(req, res, true);
+  } catch (error) {
+    console.error('[POST /shopping-list/:id/check] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to check off shopping list item')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-list/:id/uncheck
+ * Return a checked-off entry to the list
+ */
+router.post('/:id/uncheck', async (req, res) => {
+  try {
+    await setChecked(req, res, false);
+  } catch (error) {
+    console.error('[POST /shopping-list/:id/uncheck] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to uncheck shopping list item')
+    );
+  }
+});
+
+/**
+ * DELETE /api/shopping-list/:id
+ * Remove an entry from the shopping list
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const entryId = req.params.id;
+
+    const idValidation = itemIdSchema.safeParse({ id: entryId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid shopping list item ID format')
+      );
+      return;
+    }
+
+    const deleted = await deleteShoppingListItem(ownerId, entryId);
+
+    if (!deleted) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', `Shopping list item with ID ${entryId} not found`)
+      );
+      return;
+    }
+
+    res.json(successResponse({ deleted: true, id: entryId }));
+  } catch (error) {
+    console.error('[DELETE /shopping-list/:id] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to delete shopping list item')
+    );
+  }
+});
+
+export default router;
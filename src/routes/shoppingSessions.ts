@@ -4,7 +4,7 @@
  * Ticket: REMY-285
  */
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import {
   createSession,
   getSessionById,
@@ -16,24 +16,54 @@ import {
   cancelSession,
   addSessionToInventory,
   updateSessionReceipt,
+  applySessionFixes,
+  captureSessionReceipt,
+  getSessionReceipts,
+  getSessionReceiptById,
+  saveSessionReceiptHeader,
 } from '../db/operations';
 import { requireAuth } from '../middleware/auth';
+import { resolveHousehold, blockViewerWrites } from '../middleware/household';
+import { acceptImageUpload } from '../middleware/imageUpload';
+import { rateLimit } from '../middleware/rateLimit';
+import { trackReceiptScan, sendReceiptScanLimitReached } from '../middleware/tierCheck';
 import { ApiResponse } from '../models/types';
+import { SessionReceipt } from '../models/shoppingSession';
 import {
   createSessionSchema,
   addSessionItemSchema,
   completeSessionSchema,
   sessionIdSchema,
   sessionItemIdSchema,
+  sessionReceiptIdSchema,
   paginationSchema,
   updateSessionReceiptSchema,
+  captureReceiptUploadSchema,
+  reconcileSessionSchema,
+  applySessionFixesSchema,
 } from '../models/validation';
+import { isIncompatibleUnitsError } from '../services/units';
+import { scanReceiptImage } from '../services/receiptOcr';
+import {
+  saveReceiptImage,
+  recordReceiptImage,
+  decodeImageData,
+  readReceiptImage,
+  openReceiptImage,
+  ReceiptImageVariant,
+} from '../services/receiptImages';
+import { reconcileReceipt } from '../services/reconciliation';
+import { queueReceiptHeaderRead } from '../services/receiptJobs';
+import { reserveReceiptScan, releaseReceiptScan } from '../services/subscription';
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(requireAuth);
 
+// Work on the household's shared inventory when the user belongs to one
+router.use(resolveHousehold, blockViewerWrites);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -63,6 +93,97 @@ function errorResponse(code: string, message: string, details?: Record<string, u
   };
 }
 
+/**
+ * Stream a receipt's image or thumbnail from blob storage (or, for receipts
+ * not yet moved there, the image from the database), shared by the image and
+ * thumbnail routes
+ */
+async function sendReceiptImage(req: Request, res: Response, variant: ReceiptImageVariant): Promise<void> {
+  const ownerId = req.ownerId!;
+  const { id: sessionId, receiptId } = req.params;
+
+  // Validate IDs
+  const sessionValidation = sessionIdSchema.safeParse({ id: sessionId });
+  const receiptValidation = sessionReceiptIdSchema.safeParse({ receiptId });
+
+  if (!sessionValidation.success || !receiptValidation.success) {
+    res.status(400).json(
+      errorResponse('VALIDATION_ERROR', 'Invalid ID format')
+    );
+    return;
+  }
+
+  const receipt = await getSessionReceiptById(ownerId, sessionId, receiptId);
+  const image = receipt ? await openReceiptImage(receipt, variant) : null;
+
+  if (!receipt || !image) {
+    res.status(404).json(
+      errorResponse('NOT_FOUND', receipt ? `Receipt has no ${variant}` : `Receipt with ID ${receiptId} not found`)
+    );
+    return;
+  }
+
+  res.set({
+    'Content-Type': image.contentType,
+    'Cache-Control': 'private, max-age=86400',
+  });
+  if (variant === 'image' && receipt.sizeBytes !== undefined) {
+    res.set('Content-Length', String(receipt.sizeBytes));
+  }
+  if (variant === 'image' && receipt.contentHash) {
+    res.set('ETag', `"${receipt.contentHash}"`);
+  }
+
+  image.stream.on('error', (error) => {
+    console.error(`[ReceiptImages] Failed to stream receipt ${receiptId} ${variant}:`, error);
+    res.destroy(error);
+  });
+  image.stream.pipe(res);
+}
+
+/**
+ * Capture a multipart receipt upload for a completed session and link the
+ * session's receipt URL to it, for POST /:id/receipt
+ */
+async function linkUploadedReceipt(req: Request, res: Response): Promise<void> {
+  const ownerId = req.ownerId!;
+  const sessionId = req.params.id;
+
+  const bodyValidation = captureReceiptUploadSchema.safeParse(req.body);
+  if (!bodyValidation.success) {
+    res.status(400).json(
+      errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+        errors: bodyValidation.error.errors,
+      })
+    );
+    return;
+  }
+
+  const existing = await getSessionById(ownerId, sessionId);
+  if (!existing || existing.status !== 'completed') {
+    res.status(404).json(
+      errorResponse('NOT_FOUND', 'Shopping session not found or not completed')
+    );
+    return;
+  }
+
+  const { data, mimeType } = req.uploadedImage!;
+  const stored = await saveReceiptImage(sessionId, data, mimeType);
+  const receipt = await recordReceiptImage(stored, () =>
+    captureSessionReceipt(ownerId, sessionId, stored, bodyValidation.data.notes)
+  );
+  const session = await updateSessionReceipt(
+    ownerId,
+    sessionId,
+    `/api/shopping-sessions/${sessionId}/receipts/${receipt.id}/image`
+  );
+
+  // Read the purchase date off the receipt in the background, dating the session by it
+  const job = await queueReceiptHeaderRead(req.userId!, data, { ownerId, sessionId, receiptId: receipt.id });
+
+  res.json(successResponse(session, { receiptId: receipt.id, receiptJobId: job?.id }));
+}
+
 // ============================================================================
 // Routes
 // ============================================================================
@@ -74,7 +195,7 @@ function errorResponse(code: string, message: string, details?: Record<string, u
  */
 router.get('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const pagination = paginationSchema.safeParse(req.query);
     const { status } = req.query as { status?: string };
 
@@ -82,8 +203,8 @@ router.get('/', async (req, res) => {
     const limit = pagination.success ? pagination.data.limit : 20;
     const offset = (page - 1) * limit;
 
-    const sessions = await getUserSessions(userId, limit, offset, status);
-    const total = await getSessionCount(userId, status);
+    const sessions = await getUserSessions(ownerId, limit, offset, status);
+    const total = await getSessionCount(ownerId, status);
 
     res.json(
       successResponse(sessions, {
@@ -108,7 +229,7 @@ router.get('/', async (req, res) => {
  */
 router.post('/', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const validation = createSessionSchema.safeParse(req.body);
 
     if (!validation.success) {
@@ -120,7 +241,7 @@ router.post('/', async (req, res) => {
       return;
     }
 
-    const session = await createSession(userId, validation.data);
+    const session = await createSession(ownerId, validation.data);
 
     res.status(201).json(successResponse(session));
   } catch (error) {
@@ -137,7 +258,7 @@ router.post('/', async (req, res) => {
  */
 router.get('/:id', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     const validation = sessionIdSchema.safeParse({ id: sessionId });
@@ -148,7 +269,7 @@ router.get('/:id', async (req, res) => {
       return;
     }
 
-    const session = await getSessionById(userId, sessionId);
+    const session = await getSessionById(ownerId, sessionId);
 
     if (!session) {
       res.status(404).json(
@@ -172,7 +293,7 @@ router.get('/:id', async (req, res) => {
  */
 router.post('/:id/items', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     // Validate session ID
@@ -195,7 +316,7 @@ router.post('/:id/items', async (req, res) => {
       return;
     }
 
-    const item = await addSessionItem(userId, sessionId, bodyValidation.data);
+    const item = await addSessionItem(ownerId, sessionId, bodyValidation.data);
 
     res.status(201).json(successResponse(item));
   } catch (error: any) {
@@ -220,7 +341,7 @@ router.post('/:id/items', async (req, res) => {
  */
 router.delete('/:id/items/:itemId', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
     const itemId = req.params.itemId;
 
@@ -235,7 +356,7 @@ router.delete('/:id/items/:itemId', async (req, res) => {
       return;
     }
 
-    const deleted = await removeSessionItem(userId, sessionId, itemId);
+    const deleted = await removeSessionItem(ownerId, sessionId, itemId);
 
     if (!deleted) {
       res.status(404).json(
@@ -259,7 +380,7 @@ router.delete('/:id/items/:itemId', async (req, res) => {
  */
 router.post('/:id/complete', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     // Validate session ID
@@ -282,7 +403,10 @@ router.post('/:id/complete', async (req, res) => {
       return;
     }
 
-    const session = await completeSession(userId, sessionId, bodyValidation.data);
+    const session = await completeSession(ownerId, sessionId, {
+      ...bodyValidation.data,
+      performedBy: req.userId!,
+    });
 
     if (!session) {
       res.status(404).json(
@@ -306,7 +430,7 @@ router.post('/:id/complete', async (req, res) => {
  */
 router.post('/:id/cancel', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     // Validate session ID
@@ -318,7 +442,7 @@ router.post('/:id/cancel', async (req, res) => {
       return;
     }
 
-    const cancelled = await cancelSession(userId, sessionId);
+    const cancelled = await cancelSession(ownerId, sessionId);
 
     if (!cancelled) {
       res.status(404).json(
@@ -340,11 +464,12 @@ router.post('/:id/cancel', async (req, res) => {
  * POST /api/shopping-sessions/:id/add-to-inventory
  * Add all items from a completed shopping session to pantry inventory
  * Only items with barcodes are added to inventory
- * Logs ADD activity for each item
+ * Logs ADD activity for each item, converted to the pantry item's unit
+ * Adds nothing if any item's unit can't be converted (400 INCOMPATIBLE_UNITS)
  */
 router.post('/:id/add-to-inventory', async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     // Validate session ID
@@ -356,7 +481,7 @@ router.post('/:id/add-to-inventory', async (req, res) => {
       return;
     }
 
-    const result = await addSessionToInventory(userId, sessionId);
+    const result = await addSessionToInventory(ownerId, sessionId, req.userId!);
 
     res.json(successResponse(result, {
       itemsAdded: result.items.length,
@@ -379,6 +504,13 @@ router.post('/:id/add-to-inventory', async (req, res) => {
       return;
     }
 
+    if (isIncompatibleUnitsError(error)) {
+      res.status(400).json(
+        errorResponse('INCOMPATIBLE_UNITS', error.message)
+      );
+      return;
+    }
+
     res.status(500).json(
       errorResponse('INTERNAL_ERROR', 'Failed to add session items to inventory')
     );
@@ -389,10 +521,12 @@ router.post('/:id/add-to-inventory', async (req, res) => {
  * POST /api/shopping-sessions/:id/receipt
  * Update receipt URL for a completed shopping session
  * Only allows updating sessions with status='completed'
+ * Body: { receiptUrl }, or multipart/form-data with an `image` file (and
+ * optional `notes`) to capture as a receipt and link to
  */
-router.post('/:id/receipt', async (req, res) => {
+router.post('/:id/receipt', acceptImageUpload(), async (req, res) => {
   try {
-    const userId = req.userId!;
+    const ownerId = req.ownerId!;
     const sessionId = req.params.id;
 
     // Validate session ID
@@ -404,6 +538,11 @@ router.post('/:id/receipt', async (req, res) => {
       return;
     }
 
+    if (req.uploadedImage) {
+      await linkUploadedReceipt(req, res);
+      return;
+    }
+
     // Validate request body
     const bodyValidation = updateSessionReceiptSchema.safeParse(req.body);
     if (!bodyValidation.success) {
@@ -415,7 +554,7 @@ router.post('/:id/receipt', async (req, res) => {
       return;
     }
 
-    const session = await updateSessionReceipt(userId, sessionId, bodyValidation.data.receiptUrl);
+    const session = await updateSessionReceipt(ownerId, sessionId, bodyValidation.data.receiptUrl);
 
     if (!session) {
       res.status(404).json(
@@ -433,4 +572,280 @@ router.post('/:id/receipt', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/shopping-sessions/:id/receipts
+ * List the receipts captured for a session, newest first
+ */
+router.get('/:id/receipts', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const sessionId = req.params.id;
+
+    // Validate session ID
+    const idValidation = sessionIdSchema.safeParse({ id: sessionId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid session ID format')
+      );
+      return;
+    }
+
+    const session = await getSessionById(ownerId, sessionId);
+
+    if (!session) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Shopping session not found')
+      );
+      return;
+    }
+
+    const receipts = await getSessionReceipts(ownerId, sessionId);
+
+    res.json(successResponse(receipts, { count: receipts.length }));
+  } catch (error) {
+    console.error('[GET /shopping-sessions/:id/receipts] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve session receipts')
+    );
+  }
+});
+
+/**
+ * GET /api/shopping-sessions/:id/receipts/:receiptId/image
+ * Download a receipt image, streamed from blob storage
+ */
+router.get('/:id/receipts/:receiptId/image', async (req, res) => {
+  try {
+    await sendReceiptImage(req, res, 'image');
+  } catch (error) {
+    console.error('[GET /shopping-sessions/:id/receipts/:receiptId/image] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve receipt image')
+    );
+  }
+});
+
+/**
+ * GET /api/shopping-sessions/:id/receipts/:receiptId/thumbnail
+ * Download a receipt's JPEG thumbnail
+ */
+router.get('/:id/receipts/:receiptId/thumbnail', async (req, res) => {
+  try {
+    await sendReceiptImage(req, res, 'thumbnail');
+  } catch (error) {
+    console.error('[GET /shopping-sessions/:id/receipts/:receiptId/thumbnail] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to retrieve receipt thumbnail')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-sessions/:id/reconcile
+ * Compare a completed session with its receipt: the receipt is read with OCR
+ * and its lines are matched to session items by barcode, name and price
+ * Body (optional):
+ *   - receiptId: a receipt captured for the session (default the latest), or
+ *   - imageData, mimeType, notes: a new receipt to capture and compare, or
+ *     the same as multipart/form-data with an `image` file and `notes`
+ * Reports missing, extra and price-mismatch lines, each with its fix
+ * The receipt's header (date, tax, total, payment) is stored with it, and its
+ * purchase date becomes the session's completedAt
+ * Reading the receipt counts as a receipt scan; it's given back if no scan happens
+ */
+router.post('/:id/reconcile', rateLimit('receiptScan'), trackReceiptScan, acceptImageUpload(), async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const sessionId = req.params.id;
+
+    // Validate session ID
+    const idValidation = sessionIdSchema.safeParse({ id: sessionId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid session ID format')
+      );
+      return;
+    }
+
+    // Validate request body
+    const bodyValidation = reconcileSessionSchema.safeParse(req.body || {});
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const session = await getSessionById(ownerId, sessionId);
+
+    if (!session) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Shopping session not found')
+      );
+      return;
+    }
+
+    if (session.status !== 'completed') {
+      res.status(400).json(
+        errorResponse('INVALID_STATE', 'Session must be completed before reconciling its receipt')
+      );
+      return;
+    }
+
+    const { receiptId, imageData, mimeType, notes } = bodyValidation.data;
+    const upload = req.uploadedImage ?? (imageData ? { data: decodeImageData(imageData), mimeType: mimeType! } : undefined);
+    let receipt: SessionReceipt | null;
+
+    if (upload && receiptId) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Provide either receiptId or an image, not both')
+      );
+      return;
+    }
+
+    // Reserved before the receipt is read, so parallel requests can't go over the limit
+    const reservedAt = new Date().toISOString();
+    const reservation = await reserveReceiptScan(req.userId!);
+    if (!reservation.allowed) {
+      sendReceiptScanLimitReached(res);
+      return;
+    }
+
+    let scan;
+    try {
+      if (upload) {
+        const stored = await saveReceiptImage(sessionId, upload.data, upload.mimeType);
+        receipt = await recordReceiptImage(stored, () => captureSessionReceipt(ownerId, sessionId, stored, notes));
+      } else if (receiptId) {
+        receipt = await getSessionReceiptById(ownerId, sessionId, receiptId);
+      } else {
+        // Receipts come newest first
+        [receipt = null] = await getSessionReceipts(ownerId, sessionId);
+      }
+
+      if (!receipt) {
+        res.status(404).json(
+          errorResponse('NOT_FOUND', receiptId ? `Receipt with ID ${receiptId} not found` : 'No receipt captured for this session')
+        );
+        return;
+      }
+
+      const image = await readReceiptImage(receipt);
+
+      if (!image) {
+        res.status(400).json(
+          errorResponse('INVALID_STATE', 'Receipt has no image')
+        );
+        return;
+      }
+
+      try {
+        scan = await scanReceiptImage(image);
+      } catch (error) {
+        console.error('[POST /shopping-sessions/:id/reconcile] OCR error:', error);
+        res.status(500).json(
+          errorResponse('OCR_ERROR', error instanceof Error ? error.message : 'Failed to process receipt image')
+        );
+        return;
+      }
+    } finally {
+      if (!scan) await releaseReceiptScan(req.userId!, reservedAt);
+    }
+
+    await saveSessionReceiptHeader(ownerId, sessionId, receipt.id, scan.header);
+    const reconciliation = reconcileReceipt(session, receipt.id, scan.items, scan.total);
+
+    res.json(successResponse({ ...reconciliation, header: scan.header }, {
+      issueCount: reconciliation.issues.length,
+      ocrConfidence: scan.confidence,
+    }));
+  } catch (error) {
+    console.error('[POST /shopping-sessions/:id/reconcile] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to reconcile shopping session')
+    );
+  }
+});
+
+/**
+ * POST /api/shopping-sessions/:id/reconcile/apply
+ * Accept fixes from a reconciliation: update prices, remove and add items
+ * The session's totals and recorded prices are recomputed afterwards
+ * Body: { fixes: ReconciliationFix[] }
+ */
+router.post('/:id/reconcile/apply', async (req, res) => {
+  try {
+    const ownerId = req.ownerId!;
+    const sessionId = req.params.id;
+
+    // Validate session ID
+    const idValidation = sessionIdSchema.safeParse({ id: sessionId });
+    if (!idValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid session ID format')
+      );
+      return;
+    }
+
+    // Validate request body
+    const bodyValidation = applySessionFixesSchema.safeParse(req.body);
+    if (!bodyValidation.success) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Invalid request body', {
+          errors: bodyValidation.error.errors,
+        })
+      );
+      return;
+    }
+
+    const { fixes } = bodyValidation.data;
+    const session = await getSessionById(ownerId, sessionId);
+
+    if (!session) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Shopping session not found')
+      );
+      return;
+    }
+
+    if (session.status !== 'completed') {
+      res.status(400).json(
+        errorResponse('INVALID_STATE', 'Session must be completed before reconciling its receipt')
+      );
+      return;
+    }
+
+    const itemIds = new Set(session.items.map((item) => item.id));
+    const unknownItemIds = fixes.flatMap((fix) =>
+      fix.type !== 'ADD_ITEM' && !itemIds.has(fix.sessionItemId) ? [fix.sessionItemId] : []
+    );
+    if (unknownItemIds.length > 0) {
+      res.status(400).json(
+        errorResponse('VALIDATION_ERROR', 'Fixes refer to items not in this session', {
+          sessionItemIds: unknownItemIds,
+        })
+      );
+      return;
+    }
+
+    const updated = await applySessionFixes(ownerId, sessionId, fixes);
+
+    if (!updated) {
+      res.status(404).json(
+        errorResponse('NOT_FOUND', 'Shopping session not found or not completed')
+      );
+      return;
+    }
+
+    res.json(successResponse(updated, { fixesApplied: fixes.length }));
+  } catch (error) {
+    console.error('[POST /shopping-sessions/:id/reconcile/apply] Error:', error);
+    res.status(500).json(
+      errorResponse('INTERNAL_ERROR', 'Failed to apply reconciliation fixes')
+    );
+  }
+});
+
 export default router;
@@ -15,6 +15,8 @@ const router = Router();
 /**
  * POST /api/webhooks/stripe
  * Receive and process Stripe webhook events
+ * Each event is processed once; retries of a processed event are
+ * acknowledged without processing it again
  * 
  * Note: This endpoint must use raw body parsing (not JSON)
  * because Stripe requires the raw payload for signature verification
@@ -37,10 +39,16 @@ router.post(
 
       const result = await handleWebhookEvent(payload, signature);
 
-      if (result.received) {
-        res.json({ received: true });
-      } else {
+      if (!result.received) {
         res.status(400).json({ received: false });
+      } else if (result.status === 'FAILED') {
+        // A non-2xx response makes Stripe deliver the event again later
+        res.status(500).json({
+          received: false,
+          error: 'Webhook processing failed',
+        });
+      } else {
+        res.json({ received: true });
       }
     } catch (error) {
       console.error('[Webhook] Error processing webhook:', error);
@@ -28,9 +28,23 @@ import clientErrorsRouter from './routes/clientErrors';
 import receiptsRouter from './routes/receipts';
 import adminRouter from './routes/admin';
 import shoppingSessionsRouter from './routes/shoppingSessions';
+import shoppingListRouter from './routes/shoppingList';
+import householdsRouter from './routes/households';
+import recipesRouter from './routes/recipes';
+import mealPlanRouter from './routes/mealPlan';
+import locationsRouter from './routes/locations';
+import reportsRouter from './routes/reports';
+import pricesRouter from './routes/prices';
+import budgetsRouter from './routes/budgets';
 
 // Import services
 import { ensureStripeProducts } from './services/stripe';
+import { getReceiptJobWorker } from './services/receiptJobs';
+import { getOpenFoodFactsClient } from './services/openFoodFacts';
+import { getProductSyncWorker } from './services/productSync';
+
+// Import middleware
+import { rateLimit } from './middleware/rateLimit';
 
 // ============================================================================
 // Configuration
@@ -40,6 +54,8 @@ const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const isDevelopment = NODE_ENV === 'development';
 const USE_HTTPS = process.env.USE_HTTPS !== 'false'; // Default to HTTPS
+// Proxy hops in front of the server, so req.ip (which rate limits key on) is the client's
+const TRUST_PROXY = parseInt(process.env.TRUST_PROXY || '0', 10);
 
 // CORS configuration - allow both localhost and the local IP
 const CORS_ORIGINS = process.env.CORS_ORIGINS
@@ -63,6 +79,10 @@ const SSL_KEY_PATH = process.env.SSL_KEY_PATH || path.resolve(__dirname, '../.ce
 
 const app = express();
 
+if (TRUST_PROXY > 0) {
+  app.set('trust proxy', TRUST_PROXY);
+}
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: isDevelopment ? false : undefined,
@@ -75,6 +95,7 @@ app.use(
     origin: CORS_ORIGINS,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
+    exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
     credentials: true,
   })
 );
@@ -125,6 +146,8 @@ app.get('/health', async (_req: Request, res: Response) => {
       uptime: process.uptime(),
       environment: NODE_ENV,
       version: '1.0.0',
+      // Upstream trouble degrades barcode lookups but leaves the server healthy
+      openFoodFacts: getOpenFoodFactsClient().metrics(),
     });
   } catch (error) {
     res.status(503).json({
@@ -145,23 +168,102 @@ app.get('/api', (_req: Request, res: Response) => {
     description: 'Inventory management with receipt scanning and visual usage detection',
     endpoints: {
       items: {
-        'GET /api/items': 'List all pantry items (optional: ?category=)',
+        'GET /api/items': 'List all pantry items with reserved/available quantities (optional: ?category=&locationId=, locationId=none for unassigned)',
+        'GET /api/items/search?q=': 'Ranked fuzzy search over item names, barcodes, brands and categories (optional: &limit=&category=&locationId=)',
         'GET /api/items/categories': 'Get all unique categories',
-        'GET /api/items/:id': 'Get a specific item by ID',
+        'GET /api/items/expiring?withinDays=7': 'List lots expiring soon (use these first)',
+        'GET /api/items/:id': 'Get a specific item by ID, with its lot breakdown',
         'POST /api/items': 'Create a new pantry item',
         'PUT /api/items/:id': 'Update an existing item',
         'DELETE /api/items/:id': 'Delete an item',
+        'POST /api/items/:id/move': 'Move an item (or part of its stock) to a storage location',
       },
       activities: {
-        'GET /api/activities': 'List recent activities (supports pagination)',
-        'POST /api/activities': 'Log a new activity (ADD, REMOVE, ADJUST)',
+        'GET /api/activities': 'List recent activities (supports pagination, itemId and reason filters)',
+        'POST /api/activities': 'Log a new activity (ADD, REMOVE, ADJUST) with an optional reason',
       },
       scan: {
         'POST /api/scan-receipt': 'Process receipt scan and return parsed items',
-        'POST /api/scan-receipt/import': 'Scan and automatically import items',
+        'POST /api/scan-receipt/import': 'Scan and automatically import items (lines are fuzzy-matched to existing items)',
         'POST /api/visual-usage': 'Process visual usage detection results',
         'GET /api/visual-usage/supported-items': 'Get list of detectable items',
       },
+      receipts: {
+        'POST /api/receipts/scan': 'Queue a receipt image for scanning (base64 JSON or multipart upload); same as /jobs',
+        'POST /api/receipts/jobs': 'Queue a receipt image for scanning (202 with the job)',
+        'GET /api/receipts/jobs/:id': 'Get a receipt job, with its result once it has succeeded',
+        'GET /api/receipts/jobs/:id/events': 'Server-sent events with each change to a receipt job',
+      },
+      shoppingList: {
+        'GET /api/shopping-list?checked=': 'List shopping list entries (low-stock items are added automatically)',
+        'POST /api/shopping-list': 'Add an entry (by itemId or name)',
+        'PUT /api/shopping-list/:id': 'Update an entry',
+        'DELETE /api/shopping-list/:id': 'Remove an entry',
+        'POST /api/shopping-list/:id/check': 'Check off an entry',
+        'POST /api/shopping-list/:id/uncheck': 'Un-check an entry',
+        'POST /api/shopping-list/start-session': 'Start a shopping session with the checked-off entries',
+      },
+      shoppingSessions: {
+        'GET /api/shopping-sessions/:id/receipts': 'List the receipts captured for a session',
+        'GET /api/shopping-sessions/:id/receipts/:receiptId/image': 'Download a receipt image (streamed from blob storage)',
+        'GET /api/shopping-sessions/:id/receipts/:receiptId/thumbnail': 'Download a receipt thumbnail (JPEG)',
+        'POST /api/shopping-sessions/:id/reconcile': 'Compare a completed session with its receipt (missing, extra and mismatched lines)',
+        'POST /api/shopping-sessions/:id/reconcile/apply': 'Accept reconciliation fixes and recompute the session totals',
+      },
+      recipes: {
+        'GET /api/recipes': 'List recipes with ingredients',
+        'GET /api/recipes/matches?limit=&maxMissing=': 'Rank recipes by pantry coverage, listing missing ingredients',
+        'POST /api/recipes': 'Create a recipe',
+        'POST /api/recipes/import': 'Import schema.org Recipe JSON-LD',
+        'GET /api/recipes/:id': 'Get a recipe with pantry coverage',
+        'PUT /api/recipes/:id': 'Update a recipe',
+        'DELETE /api/recipes/:id': 'Delete a recipe',
+        'POST /api/recipes/:id/cook': 'Remove every ingredient from the pantry in one transaction',
+      },
+      mealPlan: {
+        'GET /api/meal-plan?from=&to=': 'List planned meals (defaults to the week starting today)',
+        'POST /api/meal-plan': 'Plan a meal for a day and slot (recipe or free-text ingredients)',
+        'POST /api/meal-plan/shopping-list': 'Add what the week\'s meals need beyond current stock to the shopping list',
+        'GET /api/meal-plan/:id': 'Get a planned meal',
+        'PUT /api/meal-plan/:id': 'Update a planned meal',
+        'DELETE /api/meal-plan/:id': 'Remove a planned meal',
+      },
+      locations: {
+        'GET /api/locations': 'List storage locations with item counts',
+        'POST /api/locations': 'Create a storage location (fridge, freezer, shelf, ...)',
+        'PUT /api/locations/:id': 'Rename a storage location',
+        'DELETE /api/locations/:id': 'Delete a storage location (its items become unassigned)',
+      },
+      households: {
+        'GET /api/households': 'Get your household, members and role',
+        'POST /api/households': 'Create a household (family tier)',
+        'PATCH /api/households': 'Rename the household (owner)',
+        'POST /api/households/join': 'Join a household with its invite code',
+        'POST /api/households/leave': 'Leave the household',
+        'POST /api/households/invite-code/regenerate': 'Replace the invite code (owner)',
+        'GET /api/households/invites': 'List pending invites (owner)',
+        'POST /api/households/invites': 'Invite someone by email (owner)',
+        'DELETE /api/households/invites/:id': 'Revoke an invite (owner)',
+        'POST /api/households/invites/:token/accept': 'Accept an invite',
+        'PATCH /api/households/members/:userId': 'Change a member role (owner)',
+        'DELETE /api/households/members/:userId': 'Remove a member (owner)',
+      },
+      reports: {
+        'GET /api/reports/waste?from=&to=': 'Expired-unused stock by month and category, with estimated loss',
+        'GET /api/reports/spending?from=&to=&period=': 'Shopping spend by week, month or year, per category and store',
+      },
+      budgets: {
+        'GET /api/budgets': 'List budgets',
+        'GET /api/budgets/status?date=': 'Spend, remaining amount and projected overspend for the current period',
+        'POST /api/budgets': 'Create a weekly or monthly budget, overall or per category',
+        'PUT /api/budgets/:id': 'Change a budget amount',
+        'DELETE /api/budgets/:id': 'Delete a budget',
+      },
+      prices: {
+        'GET /api/prices/trend?barcode=&name=&days=': 'Unit price of a product over time, per store',
+        'GET /api/prices/shopping-list?days=': 'Shopping list cost per store and the cheapest store per entry',
+        'GET /api/prices/alerts?threshold=&days=': 'Products whose latest price rose over the previous one',
+      },
       subscription: {
         'GET /api/subscription/tier': 'Get current tier info and usage limits',
         'GET /api/subscription/check-items': 'Check item limit status',
@@ -176,6 +278,18 @@ app.get('/api', (_req: Request, res: Response) => {
         'GET /api/admin/dashboard?period=7d': 'Get dashboard metrics (7d, 30d, 90d)',
         'GET /api/admin/transactions?limit=10': 'Get paginated transaction history',
         'GET /api/admin/alerts': 'Get failed payment alerts',
+        'GET /api/admin/roles': 'List granted staff roles (admin)',
+        'POST /api/admin/roles': 'Grant a staff role (admin, audit-logged)',
+        'DELETE /api/admin/roles/:userId/:role': 'Revoke a staff role (admin, audit-logged)',
+        'GET /api/admin/roles/audit?page=&limit=&userId=': 'Role grant/revoke audit log (admin)',
+        'GET /api/admin/receipt-jobs?status=&page=&limit=': 'List receipt scan jobs',
+        'GET /api/admin/receipt-jobs/:id': 'Get a receipt scan job with its last error',
+        'POST /api/admin/receipt-jobs/:id/retry': 'Queue a failed receipt job again (support or admin)',
+        'GET /api/admin/stripe-events?status=&page=&limit=': 'List Stripe webhook events',
+        'POST /api/admin/stripe-events/:id/replay': 'Process a failed Stripe webhook event again (support or admin)',
+        'GET /api/admin/product-sync?status=&page=&limit=': 'Product sync queue depth and barcodes waiting for or given up on a product lookup retry',
+        'GET /api/client-errors': 'List client errors (staff)',
+        'PATCH /api/client-errors/:id/resolve': 'Resolve a client error (support or admin)',
       },
     },
     models: {
@@ -186,6 +300,18 @@ app.get('/api', (_req: Request, res: Response) => {
         unit: 'string',
         category: 'string',
         lastUpdated: 'string (ISO 8601)',
+        minQuantity: 'number (optional, low-stock threshold)',
+        targetQuantity: 'number (optional, restock level)',
+        locationId: 'string (UUID, optional storage location)',
+        density: 'number (optional, g/ml; converts weights and volumes of the item)',
+        reserved: 'number (held for upcoming planned meals, GET /api/items only)',
+        available: 'number (quantity - reserved, GET /api/items only)',
+      },
+      ItemSearchResult: {
+        item: 'PantryItem',
+        score: 'number (0-1, 1 for an exact name or barcode match)',
+        matchedOn: "'name' | 'barcode' | 'brand' | 'category'",
+        brand: 'string (from the product cache, optional)',
       },
       Activity: {
         id: 'string (UUID)',
@@ -195,6 +321,82 @@ app.get('/api', (_req: Request, res: Response) => {
         amount: 'number',
         timestamp: 'string (ISO 8601)',
         source: "'MANUAL' | 'RECEIPT_SCAN' | 'VISUAL_USAGE'",
+        reason: "'CONSUMED' | 'EXPIRED' | 'SPOILED' | 'DONATED' | 'INVENTORY_CORRECTION' | 'MOVED' (optional)",
+        performedBy: 'string (user ID of the member who made the change, optional)',
+      },
+      ShoppingListItem: {
+        id: 'string (UUID)',
+        itemId: 'string (UUID, optional)',
+        name: 'string',
+        quantity: 'number',
+        unit: 'string (optional)',
+        category: 'string (optional)',
+        barcode: 'string (optional)',
+        checked: 'boolean',
+        source: "'AUTO' | 'MANUAL'",
+      },
+      ItemLot: {
+        id: 'string (UUID)',
+        itemId: 'string (UUID)',
+        quantity: 'number (remaining)',
+        initialQuantity: 'number',
+        purchaseDate: 'string (YYYY-MM-DD)',
+        bestBefore: 'string (YYYY-MM-DD, optional)',
+      },
+      Recipe: {
+        id: 'string (UUID)',
+        name: 'string',
+        servings: 'number (optional)',
+        instructions: 'string (optional)',
+        sourceUrl: 'string (optional)',
+        ingredients: '{ name, quantity?, unit? }[]',
+      },
+      MealPlanEntry: {
+        id: 'string (UUID)',
+        date: 'string (YYYY-MM-DD)',
+        slot: "'BREAKFAST' | 'LUNCH' | 'DINNER' | 'SNACK'",
+        recipeId: 'string (UUID, optional)',
+        title: 'string',
+        servings: 'number (optional, scales the recipe)',
+        notes: 'string (optional)',
+        ingredients: '{ name, quantity?, unit? }[] (free-text, in addition to the recipe)',
+      },
+      StorageLocation: {
+        id: 'string (UUID)',
+        name: 'string (unique per inventory)',
+        itemCount: 'number',
+      },
+      Household: {
+        id: 'string (UUID)',
+        name: 'string',
+        ownerId: 'string',
+        inviteCode: 'string',
+        members: "{ userId, role: 'owner' | 'editor' | 'viewer', joinedAt }[]",
+      },
+      PriceObservation: {
+        id: 'string (UUID)',
+        productKey: "string ('barcode:<code>' or 'name:<normalized name>')",
+        name: 'string',
+        storeName: 'string (optional)',
+        price: 'number (paid per unit bought)',
+        quantity: 'number',
+        unit: 'string (optional)',
+        unitPrice: 'number (per priceUnit)',
+        priceUnit: "string ('kg', 'l', 'piece' or a packaging unit)",
+        source: "'SHOPPING_SESSION' | 'RECEIPT_SCAN'",
+        observedAt: 'string (ISO 8601)',
+      },
+      Budget: {
+        id: 'string (UUID)',
+        period: "'week' | 'month'",
+        category: 'string (optional, overall spend when absent)',
+        amount: 'number',
+      },
+      RoleAssignment: {
+        userId: 'string',
+        role: "'read_only' | 'support' | 'admin'",
+        grantedBy: 'string',
+        grantedAt: 'string (ISO 8601)',
       },
     },
   });
@@ -207,6 +409,11 @@ app.get('/api', (_req: Request, res: Response) => {
 /**
  * Mount route handlers
  */
+// Webhook route needs raw body for Stripe signature verification, and
+// Stripe's deliveries aren't rate limited
+app.use('/api/webhooks', webhookRouter);
+// Every other API request counts toward a per-IP budget
+app.use('/api', rateLimit('api'));
 app.use('/api/items', itemsRouter);
 app.use('/api/activities', activitiesRouter);
 app.use('/api/subscription', subscriptionRouter);
@@ -215,8 +422,14 @@ app.use('/api/errors', errorRouter);
 app.use('/api/client-errors', clientErrorsRouter);
 app.use('/api/receipts', receiptsRouter);
 app.use('/api/shopping-sessions', shoppingSessionsRouter);
-// Webhook route needs raw body for Stripe signature verification
-app.use('/api/webhooks', webhookRouter);
+app.use('/api/shopping-list', shoppingListRouter);
+app.use('/api/households', householdsRouter);
+app.use('/api/recipes', recipesRouter);
+app.use('/api/meal-plan', mealPlanRouter);
+app.use('/api/locations', locationsRouter);
+app.use('/api/reports', reportsRouter);
+app.use('/api/prices', pricesRouter);
+app.use('/api/budgets', budgetsRouter);
 // Scan routes are mounted at root for cleaner URLs per spec
 app.use('/api', scanRouter);
 // Admin dashboard routes
@@ -280,6 +493,12 @@ async function startServer(): Promise<void> {
     getDatabase();
     console.log('[SERVER] Database connected successfully');
 
+    // Scan queued receipts in the background
+    getReceiptJobWorker().start();
+
+    // Retry failed product lookups in the background
+    getProductSyncWorker().start();
+
     // Determine protocol and SSL options
     let server: https.Server | any;
     let protocol = 'http';
@@ -329,6 +548,8 @@ async function startServer(): Promise<void> {
     // Graceful shutdown handlers
     const gracefulShutdown = (signal: string) => {
       console.log(`[SERVER] Received ${signal}. Starting graceful shutdown...`);
+      getReceiptJobWorker().stop();
+      getProductSyncWorker().stop();
       
       server.close(() => {
         console.log('[SERVER] HTTP server closed');
@@ -0,0 +1,107 @@
+/**
+ * Barcode Service
+ * Validates and normalizes retail barcodes (GTINs)
+ *
+ * UPC-A, UPC-E, EAN-8, EAN-13 and GTIN-14 codes for one product all
+ * normalize to the same 14-digit GTIN, which is the key products and pantry
+ * items are stored under. Check digits are verified so typos are caught
+ * before they reach the cache or Open Food Facts.
+ */
+
+export type BarcodeFormat = 'UPC-A' | 'UPC-E' | 'EAN-8' | 'EAN-13' | 'GTIN-14';
+
+export interface Gtin {
+  /** 14 digits, zero-padded on the left */
+  gtin14: string;
+  /** Symbology the code was given in */
+  format: BarcodeFormat;
+}
+
+// Digit strings of these lengths are taken to be GTINs
+const GTIN_PATTERN = /^(\d{8}|\d{12,14})$/;
+
+/**
+ * GS1 check digit for a code without its check digit: digits are weighted
+ * 3, 1, 3, ... from the right
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function hasValidCheckDigit(code: string): boolean {
+  return gs1CheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+}
+
+/**
+ * Expand an 8-digit UPC-E code (number system, six digits, check digit) to
+ * its 12-digit UPC-A form, or null if it isn't a valid UPC-E code
+ */
+export function expandUpcE(upcE: string): string | null {
+  if (!/^[01]\d{7}$/.test(upcE)) return null;
+
+  const numberSystem = upcE[0];
+  const [d1, d2, d3, d4, d5, d6] = upcE.slice(1, 7);
+
+  let body: string;
+  if (d6 <= '2') {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === '3') {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === '4') {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+
+  const upcA = `${numberSystem}${body}${upcE[7]}`;
+  return hasValidCheckDigit(upcA) ? upcA : null;
+}
+
+/**
+ * Read a barcode as a GTIN, or null if it isn't one with a valid check digit
+ * Spaces and hyphens are ignored. Eight digits starting with 0 or 1 are read
+ * as UPC-E when they check out as one (EAN-8 codes starting with 0 are
+ * restricted to in-store use), otherwise as EAN-8
+ */
+export function parseGtin(input: string): Gtin | null {
+  const code = input.replace(/[\s-]/g, '');
+  if (!GTIN_PATTERN.test(code)) return null;
+
+  if (code.length === 8) {
+    const upcA = expandUpcE(code);
+    if (upcA) return { gtin14: upcA.padStart(14, '0'), format: 'UPC-E' };
+  }
+
+  if (!hasValidCheckDigit(code)) return null;
+
+  const formats: Record<number, BarcodeFormat> = { 8: 'EAN-8', 12: 'UPC-A', 13: 'EAN-13', 14: 'GTIN-14' };
+  return { gtin14: code.padStart(14, '0'), format: formats[code.length] };
+}
+
+/**
+ * The key to store a barcode under: the GTIN-14 for GTINs, other codes
+ * (store labels, QR contents) trimmed but otherwise as they are
+ * Returns null for GTIN-length digit strings with a wrong check digit
+ */
+export function normalizeBarcode(input: string): string | null {
+  const trimmed = input.trim();
+  if (!GTIN_PATTERN.test(trimmed.replace(/[\s-]/g, ''))) return trimmed;
+
+  return parseGtin(trimmed)?.gtin14 ?? null;
+}
+
+/**
+ * Shortest standard form of a GTIN-14: EAN-8 or EAN-13 (UPC-A with a
+ * leading zero) when it has the zeros for one. Open Food Facts keys
+ * products this way
+ */
+export function shortGtin(gtin14: string): string {
+  if (gtin14.startsWith('000000')) return gtin14.slice(6);
+  if (gtin14.startsWith('0')) return gtin14.slice(1);
+  return gtin14;
+}
@@ -0,0 +1,263 @@
+/**
+ * Blob Storage
+ * Keeps files such as receipt images out of the database. Files go under
+ * BLOB_DIR on local disk by default; BLOB_STORE=s3 writes to an S3-compatible
+ * bucket (AWS S3, MinIO, R2, ...) instead
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const BLOB_STORE = process.env.BLOB_STORE || 'fs';
+const BLOB_DIR = process.env.BLOB_DIR || './data/blobs';
+const S3_ENDPOINT = process.env.S3_ENDPOINT || 'https://s3.amazonaws.com';
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_BUCKET = process.env.S3_BUCKET || 'pantry-pal';
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || '';
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || '';
+const S3_TIMEOUT_MS = parseInt(process.env.S3_TIMEOUT_MS || '30000', 10);
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+/**
+ * Stores files under keys such as 'receipts/<sessionId>/<id>.jpg'
+ */
+export interface BlobStore {
+  /** Reported by health checks, e.g. 'fs' */
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Stream the file at key, or null if there is none */
+  get(key: string): Promise<Readable | null>;
+  /** Removing a missing file is not an error */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Read a whole file into memory, or null if there is none
+ */
+export async function readBlob(store: BlobStore, key: string): Promise<Buffer | null> {
+  const stream = await store.get(key);
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Files on local disk, one per key under a root directory
+ */
+export class FileBlobStore implements BlobStore {
+  readonly name = 'fs';
+  private readonly root: string;
+
+  constructor(root: string = BLOB_DIR) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.pathFor(key);
+    try {
+      await fs.promises.access(file);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, key);
+    // Keys come from our own code, but never let one escape the root
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return file;
+  }
+}
+
+export interface S3BlobStoreOptions {
+  /** e.g. 'https://s3.amazonaws.com' or 'http://localhost:9000' for MinIO */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  timeoutMs?: number;
+}
+
+/**
+ * An S3-compatible bucket, addressed path-style (<endpoint>/<bucket>/<key>)
+ * so MinIO and other self-hosted stand-ins work without DNS setup.
+ * Requests are signed with AWS Signature Version 4
+ */
+export class S3BlobStore implements BlobStore {
+  readonly name = 's3';
+
+  constructor(private readonly options: S3BlobStoreOptions) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, { 'Content-Type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} returned HTTP ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET ${key} returned HTTP ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} returned HTTP ${response.status}`);
+    }
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(this.options.endpoint);
+    url.pathname = [url.pathname.replace(/\/$/, ''), this.options.bucket, ...key.split('/')]
+      .map((segment, i) => (i === 0 ? segment : encodeRfc3986(segment)))
+      .join('/');
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs ?? S3_TIMEOUT_MS);
+
+    try {
+      return await fetch(url, {
+        method,
+        signal: controller.signal,
+        headers: { ...headers, ...this.sign(method, url, body ?? Buffer.alloc(0)) },
+        body,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Signature Version 4 headers for a request without a query string
+   */
+  private sign(method: string, url: URL, body: Buffer): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.options;
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body);
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      `host:${url.host}`,
+      `x-amz-content-sha256:${payloadHash}`,
+      `x-amz-date:${amzDate}`,
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, date), region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// S3 wants every character but A-Z a-z 0-9 - _ . ~ percent-encoded
+function encodeRfc3986(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Create the store named by BLOB_STORE ('fs' or 's3')
+ */
+export function createBlobStore(): BlobStore {
+  if (BLOB_STORE === 's3') {
+    return new S3BlobStore({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new FileBlobStore();
+}
+
+/**
+ * Singleton store instance
+ */
+let store: BlobStore | null = null;
+
+/**
+ * Get or create the blob store (singleton pattern)
+ */
+export function getBlobStore(): BlobStore {
+  if (!store) {
+    store = createBlobStore();
+  }
+  return store;
+}
+
+/**
+ * Swap in another store; null goes back to the configured one
+ */
+export function setBlobStore(next: BlobStore | null): void {
+  store = next;
+}
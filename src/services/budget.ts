@@ -0,0 +1,195 @@
+/**
+ * Budget Service
+ * Period bounds, spend reports and budget status from completed shopping sessions
+ *
+ * A session's spend is its totalAmount. Priced items split it by category;
+ * whatever the items don't account for counts as "uncategorized".
+ */
+
+import {
+  Budget,
+  BudgetStatus,
+  SessionSpend,
+  SpendBreakdown,
+  SpendBucket,
+  SpendPeriod,
+  SpendReport,
+} from '../models/budget';
+import { addDays, daysBetween, startOfMonth } from './expiry';
+
+/** Category for spend not covered by a categorized, priced item */
+export const UNCATEGORIZED = 'uncategorized';
+
+// Leftover session amounts below this are rounding, not spend
+const MONEY_EPSILON = 0.005;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Categories and stores group case-insensitively
+function categoryKey(category?: string): string {
+  return category?.trim().toLowerCase() || UNCATEGORIZED;
+}
+
+function storeKey(storeName?: string): string {
+  return storeName ? storeName.trim().toLowerCase() : '';
+}
+
+type SpendTotals = Map<string, SpendBreakdown>;
+
+// Add to a running total, keeping the first spelling of the name seen
+function addSpend(totals: SpendTotals, key: string, name: string | undefined, amount: number): void {
+  const total = totals.get(key) || { name, amount: 0 };
+  total.amount += amount;
+  totals.set(key, total);
+}
+
+// Rounded totals, largest first
+function listSpend(totals: SpendTotals): SpendBreakdown[] {
+  return [...totals.values()]
+    .map((total) => ({ ...total, amount: roundMoney(total.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * The week (from Monday), month or year a YYYY-MM-DD date falls in
+ * key labels the period: the Monday for weeks, YYYY-MM or YYYY otherwise
+ */
+export function periodBounds(date: string, period: SpendPeriod): { key: string; start: string; end: string } {
+  if (period === 'week') {
+    const daysSinceMonday = (new Date(Date.parse(date)).getUTCDay() + 6) % 7;
+    const start = addDays(date, -daysSinceMonday);
+    return { key: start, start, end: addDays(start, 6) };
+  }
+
+  if (period === 'month') {
+    const start = startOfMonth(date);
+    return { key: start.slice(0, 7), start, end: addDays(startOfMonth(date, -1), -1) };
+  }
+
+  const year = date.slice(0, 4);
+  return { key: year, start: `${year}-01-01`, end: `${year}-12-31` };
+}
+
+// ============================================================================
+// Spend
+// ============================================================================
+
+/**
+ * A session's spend per category (lowercased), summing to its total
+ */
+export function sessionCategorySpend(session: SessionSpend): Map<string, number> {
+  const amounts = new Map<string, number>();
+  let itemized = 0;
+
+  for (const { category, amount } of session.categories) {
+    const key = categoryKey(category);
+    amounts.set(key, (amounts.get(key) || 0) + amount);
+    itemized += amount;
+  }
+
+  const rest = session.totalAmount - itemized;
+  if (rest > MONEY_EPSILON) {
+    amounts.set(UNCATEGORIZED, (amounts.get(UNCATEGORIZED) || 0) + rest);
+  }
+
+  return amounts;
+}
+
+/**
+ * Bucket session spend by week, month or year, with category and store totals
+ */
+export function buildSpendReport(sessions: SessionSpend[], from: string, to: string, period: SpendPeriod): SpendReport {
+  const buckets = new Map<string, { bucket: SpendBucket; categories: SpendTotals; stores: SpendTotals }>();
+  const categories: SpendTotals = new Map();
+  const stores: SpendTotals = new Map();
+  let totalSpent = 0;
+
+  for (const session of sessions) {
+    const { key, start, end } = periodBounds(session.completedAt.slice(0, 10), period);
+
+    let entry = buckets.get(key);
+    if (!entry) {
+      entry = {
+        bucket: { period: key, start, end, totalSpent: 0, sessionCount: 0, byCategory: [], byStore: [] },
+        categories: new Map(),
+        stores: new Map(),
+      };
+      buckets.set(key, entry);
+    }
+
+    let sessionTotal = 0;
+    for (const [category, amount] of sessionCategorySpend(session)) {
+      addSpend(entry.categories, category, category, amount);
+      addSpend(categories, category, category, amount);
+      sessionTotal += amount;
+    }
+
+    addSpend(entry.stores, storeKey(session.storeName), session.storeName, sessionTotal);
+    addSpend(stores, storeKey(session.storeName), session.storeName, sessionTotal);
+    entry.bucket.totalSpent += sessionTotal;
+    entry.bucket.sessionCount++;
+    totalSpent += sessionTotal;
+  }
+
+  return {
+    from,
+    to,
+    period,
+    totalSpent: roundMoney(totalSpent),
+    byCategory: listSpend(categories),
+    byStore: listSpend(stores),
+    buckets: [...buckets.values()]
+      .map(({ bucket, categories: bucketCategories, stores: bucketStores }) => ({
+        ...bucket,
+        totalSpent: roundMoney(bucket.totalSpent),
+        byCategory: listSpend(bucketCategories),
+        byStore: listSpend(bucketStores),
+      }))
+      .sort((a, b) => a.start.localeCompare(b.start)),
+  };
+}
+
+// ============================================================================
+// Budget Status
+// ============================================================================
+
+/**
+ * How a budget stands on a date: spend from the start of its current period
+ * up to that date, and the spend projected for the whole period at that pace
+ */
+export function buildBudgetStatus(budget: Budget, sessions: SessionSpend[], date: string): BudgetStatus {
+  const { start, end } = periodBounds(date, budget.period);
+
+  let spent = 0;
+  for (const session of sessions) {
+    const day = session.completedAt.slice(0, 10);
+    if (day < start || day > date) continue;
+
+    const amounts = sessionCategorySpend(session);
+    spent += budget.category
+      ? amounts.get(categoryKey(budget.category)) || 0
+      : [...amounts.values()].reduce((sum, amount) => sum + amount, 0);
+  }
+
+  const daysInPeriod = daysBetween(start, end) + 1;
+  const daysElapsed = daysBetween(start, date) + 1;
+  const projectedSpend = (spent / daysElapsed) * daysInPeriod;
+
+  return {
+    budget,
+    periodStart: start,
+    periodEnd: end,
+    spent: roundMoney(spent),
+    remaining: roundMoney(budget.amount - spent),
+    percentUsed: Math.round((spent / budget.amount) * 1000) / 10,
+    projectedSpend: roundMoney(projectedSpend),
+    projectedOverspend: roundMoney(Math.max(0, projectedSpend - budget.amount)),
+    overBudget: spent > budget.amount,
+  };
+}
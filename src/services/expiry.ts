@@ -0,0 +1,110 @@
+/**
+ * Expiry Service
+ * Date helpers for lot expiry and aggregation of waste entries into reports
+ */
+
+import {
+  ExpiringLot,
+  WasteEntry,
+  WasteReport,
+  WasteReportCategory,
+  WasteReportMonth,
+} from '../models/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Today's date as YYYY-MM-DD (UTC, matching how lot dates are stored)
+ */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from `from` until `date` (negative if `date` is in the past)
+ */
+export function daysBetween(from: string, date: string): number {
+  return Math.round((Date.parse(date) - Date.parse(from)) / MS_PER_DAY);
+}
+
+/**
+ * First day of the month `monthsBack` months before the month of `date`
+ */
+export function startOfMonth(date: string, monthsBack: number = 0): string {
+  const d = new Date(Date.parse(date));
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() - monthsBack, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Attach days-until-expiry to lots relative to a reference date
+ */
+export function annotateExpiry(lots: ExpiringLot[], referenceDate: string): ExpiringLot[] {
+  return lots.map((lot) => ({
+    ...lot,
+    daysUntilExpiry: lot.bestBefore !== undefined ? daysBetween(referenceDate, lot.bestBefore) : undefined,
+  }));
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Group waste entries by month and category, estimating money lost from
+ * each entry's unit price. Entries without a price are counted but not valued.
+ */
+export function buildWasteReport(entries: WasteEntry[], from: string, to: string): WasteReport {
+  const months = new Map<string, Map<string, WasteReportCategory>>();
+
+  for (const entry of entries) {
+    const month = entry.date.slice(0, 7);
+    if (!months.has(month)) {
+      months.set(month, new Map());
+    }
+
+    const categories = months.get(month)!;
+    let group = categories.get(entry.category);
+    if (!group) {
+      group = { category: entry.category, entryCount: 0, estimatedLoss: 0, unpricedCount: 0, entries: [] };
+      categories.set(entry.category, group);
+    }
+
+    group.entryCount++;
+    group.entries.push(entry);
+    if (entry.unitPrice !== undefined) {
+      group.estimatedLoss += entry.unitPrice * entry.quantity;
+    } else {
+      group.unpricedCount++;
+    }
+  }
+
+  const monthList: WasteReportMonth[] = Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, categories]) => {
+      const categoryList = Array.from(categories.values())
+        .map((group) => ({ ...group, estimatedLoss: roundMoney(group.estimatedLoss) }))
+        .sort((a, b) => b.estimatedLoss - a.estimatedLoss || a.category.localeCompare(b.category));
+
+      return {
+        month,
+        estimatedLoss: roundMoney(categoryList.reduce((sum, group) => sum + group.estimatedLoss, 0)),
+        categories: categoryList,
+      };
+    });
+
+  return {
+    from,
+    to,
+    totalEstimatedLoss: roundMoney(monthList.reduce((sum, month) => sum + month.estimatedLoss, 0)),
+    months: monthList,
+  };
+}
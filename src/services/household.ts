@@ -0,0 +1,64 @@
+/**
+ * Household Service
+ * Invite code/token generation and role rules for shared households
+ */
+
+import { randomBytes } from 'crypto';
+import { HouseholdRole } from '../models/household';
+
+/** Days an emailed invite stays valid */
+export const INVITE_TTL_DAYS = 7;
+
+// Invite codes skip characters that are easy to misread (0/O, 1/I/L)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Tables whose rows belong to an inventory owner (user_id column)
+ * Moved between a user and their household when it is created or dissolved
+ */
+export const INVENTORY_TABLES = [
+  'pantry_items',
+  'item_lots',
+  'activities',
+  'shopping_sessions',
+  'shopping_list_items',
+  'recipes',
+  'meal_plan_entries',
+  'storage_locations',
+  'price_observations',
+  'budgets',
+];
+
+/**
+ * Generate a short, human-friendly household invite code
+ */
+export function generateInviteCode(): string {
+  const bytes = randomBytes(INVITE_CODE_LENGTH);
+  let code = '';
+  for (const byte of bytes) {
+    code += INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+/**
+ * Generate a secret token for an emailed invite
+ */
+export function generateInviteToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Whether a role may change the shared inventory
+ */
+export function canEditInventory(role: HouseholdRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Whether a role may invite, remove and re-role members
+ */
+export function canManageMembers(role: HouseholdRole): boolean {
+  return role === 'owner';
+}
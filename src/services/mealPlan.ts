@@ -0,0 +1,149 @@
+/**
+ * Meal Plan Service
+ * Works out the pantry stock planned meals reserve and what is left to buy
+ */
+
+import { PantryItem } from '../models/types';
+import { Recipe } from '../models/recipe';
+import { MealPlanEntry, MealPlanShortfall, ReservedPantryItem } from '../models/mealPlan';
+import { namesMatch, servingScale } from './recipe';
+import { convertQuantity, normalizeUnit, roundQuantity } from './units';
+
+// Leftover amounts below this are treated as covered (float rounding)
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * An ingredient a planned meal needs
+ */
+interface MealNeed {
+  date: string;
+  name: string;
+  quantity?: number;
+  unit?: string;
+}
+
+/**
+ * Result of allocating pantry stock to planned meals
+ */
+export interface MealPlanAllocation {
+  /** Quantity reserved per pantry item ID, in the item's unit */
+  reserved: Record<string, number>;
+  /** Needs the pantry can't cover, merged per item (or name and unit) */
+  shortfalls: MealPlanShortfall[];
+}
+
+/**
+ * Ingredients a planned meal needs: its recipe's, scaled to the planned
+ * servings, followed by its own free-text lines
+ */
+function mealNeeds(entry: MealPlanEntry, recipes: Map<string, Recipe>): MealNeed[] {
+  const recipe = entry.recipeId ? recipes.get(entry.recipeId) : undefined;
+  const scale = recipe ? servingScale(recipe, entry.servings) : 1;
+
+  const lines = [
+    ...(recipe?.ingredients ?? []).map((line) => ({
+      ...line,
+      quantity: line.quantity === undefined ? undefined : line.quantity * scale,
+    })),
+    ...entry.ingredients,
+  ];
+
+  return lines.map((line) => ({ date: entry.date, name: line.name, quantity: line.quantity, unit: line.unit }));
+}
+
+/**
+ * Merge shortfalls for the same pantry item, or the same name and unit
+ */
+function mergeShortfalls(shortfalls: MealPlanShortfall[]): MealPlanShortfall[] {
+  const merged = new Map<string, MealPlanShortfall>();
+
+  for (const shortfall of shortfalls) {
+    const key = shortfall.itemId
+      ?? `${shortfall.name.toLowerCase()}|${shortfall.unit ? normalizeUnit(shortfall.unit) : ''}`;
+    const existing = merged.get(key);
+
+    if (existing) {
+      existing.quantity = roundQuantity(existing.quantity + shortfall.quantity);
+      existing.dates = [...new Set([...existing.dates, ...shortfall.dates])];
+    } else {
+      merged.set(key, { ...shortfall, dates: [...shortfall.dates] });
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Allocate pantry stock to planned meals, earliest meal first
+ * Each ingredient draws on the first pantry item whose name matches and whose
+ * unit it converts to; what that item can't supply becomes a shortfall.
+ * Ingredients without a quantity reserve nothing and are short only when no
+ * matching item is in stock. Only shortfalls on or after shortfallsFrom
+ * (YYYY-MM-DD) are reported; earlier meals still reserve stock.
+ */
+export function allocateMealPlan(
+  entries: MealPlanEntry[],
+  recipes: Recipe[],
+  items: PantryItem[],
+  shortfallsFrom?: string
+): MealPlanAllocation {
+  const recipesById = new Map(recipes.map((recipe) => [recipe.id, recipe]));
+  const remaining = new Map(items.map((item) => [item.id, item.quantity]));
+  const reserved: Record<string, number> = {};
+  const shortfalls: MealPlanShortfall[] = [];
+
+  const needs = [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap((entry) => mealNeeds(entry, recipesById));
+
+  for (const need of needs) {
+    const candidates = items.filter((item) => namesMatch(need.name, item.name));
+    const report = (shortfall: Omit<MealPlanShortfall, 'dates'>) => {
+      if (!shortfallsFrom || need.date >= shortfallsFrom) {
+        shortfalls.push({ ...shortfall, dates: [need.date] });
+      }
+    };
+
+    if (need.quantity === undefined) {
+      if (!candidates.some((item) => remaining.get(item.id)! > QUANTITY_EPSILON)) {
+        const item = candidates[0];
+        report({ itemId: item?.id, name: item?.name ?? need.name, quantity: 1, unit: item ? undefined : need.unit });
+      }
+      continue;
+    }
+
+    const amounts = candidates
+      .map((item) => ({ item, amount: convertQuantity(need.quantity!, need.unit ?? 'piece', item.unit, item.density) }))
+      .filter((candidate): candidate is { item: PantryItem; amount: number } => candidate.amount !== null);
+
+    if (amounts.length === 0) {
+      report({ name: need.name, quantity: need.quantity, unit: need.unit });
+      continue;
+    }
+
+    // Prefer an item with stock left; otherwise restock the first match
+    const { item, amount } = amounts.find(({ item }) => remaining.get(item.id)! > QUANTITY_EPSILON) ?? amounts[0];
+    const taken = Math.min(amount, remaining.get(item.id)!);
+
+    if (taken > 0) {
+      remaining.set(item.id, remaining.get(item.id)! - taken);
+      reserved[item.id] = roundQuantity((reserved[item.id] ?? 0) + taken);
+    }
+
+    if (amount - taken > QUANTITY_EPSILON) {
+      report({ itemId: item.id, name: item.name, quantity: roundQuantity(amount - taken), unit: item.unit });
+    }
+  }
+
+  return { reserved, shortfalls: mergeShortfalls(shortfalls) };
+}
+
+/**
+ * Add reserved and available quantities to pantry items
+ */
+export function withReservations(items: PantryItem[], reserved: Record<string, number>): ReservedPantryItem[] {
+  return items.map((item) => {
+    const itemReserved = reserved[item.id] ?? 0;
+    return { ...item, reserved: itemReserved, available: Math.max(item.quantity - itemReserved, 0) };
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * OCR Engines
+ * Turn a receipt image into text. Tesseract.js runs in-process by default;
+ * OCR_ENGINE=http sends images to an OCR service at OCR_HTTP_URL instead
+ */
+
+import Tesseract from 'tesseract.js';
+import Sharp from 'sharp';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const OCR_ENGINE = process.env.OCR_ENGINE || 'tesseract';
+const OCR_HTTP_URL = process.env.OCR_HTTP_URL || 'http://localhost:8884/ocr';
+const OCR_HTTP_TIMEOUT_MS = parseInt(process.env.OCR_HTTP_TIMEOUT_MS || '30000', 10);
+
+// ============================================================================
+// Engine Interface
+// ============================================================================
+
+/**
+ * Text read from an image
+ */
+export interface OcrResult {
+  text: string;
+  /** 0-100 */
+  confidence: number;
+}
+
+/**
+ * Reads the text off an image
+ */
+export interface OcrEngine {
+  /** Reported with scan results, e.g. 'tesseract.js' */
+  readonly name: string;
+  recognize(image: Buffer): Promise<OcrResult>;
+}
+
+// ============================================================================
+// Engines
+// ============================================================================
+
+/**
+ * In-process Tesseract.js with Sharp preprocessing (grayscale, normalize, sharpen)
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract.js';
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const processedBuffer = await Sharp(image)
+      .grayscale()
+      .normalize()
+      .sharpen(1, 1, 2)
+      .toBuffer();
+
+    const result = await Tesseract.recognize(processedBuffer, 'eng', {
+      logger: (m) => {
+        if (m.status === 'recognizing text') {
+          console.log(`OCR Progress: ${(m.progress * 100).toFixed(1)}%`);
+        }
+      },
+    });
+
+    return { text: result.data.text, confidence: result.data.confidence };
+  }
+}
+
+/**
+ * An OCR service over HTTP: POSTs { image: base64 } and expects
+ * { text, confidence? } back. Used for a local stand-in or a hosted engine
+ */
+export class HttpOcrEngine implements OcrEngine {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number = OCR_HTTP_TIMEOUT_MS
+  ) {}
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: JSON.stringify({ image: image.toString('base64') }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OCR service returned HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as { text?: unknown; confidence?: unknown };
+      if (typeof data.text !== 'string') {
+        throw new Error('OCR service response has no text');
+      }
+
+      return {
+        text: data.text,
+        confidence: typeof data.confidence === 'number' ? data.confidence : 0,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// ============================================================================
+// Engine Selection
+// ============================================================================
+
+/**
+ * Create the engine named by OCR_ENGINE ('tesseract' or 'http')
+ */
+export function createOcrEngine(): OcrEngine {
+  if (OCR_ENGINE === 'http') {
+    return new HttpOcrEngine(OCR_HTTP_URL);
+  }
+  return new TesseractOcrEngine();
+}
+
+/**
+ * Singleton engine instance
+ */
+let engine: OcrEngine | null = null;
+
+/**
+ * Get or create the OCR engine (singleton pattern)
+ */
+export function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    engine = createOcrEngine();
+  }
+  return engine;
+}
+
+/**
+ * Swap in another engine; null goes back to the configured one
+ */
+export function setOcrEngine(next: OcrEngine | null): void {
+  engine = next;
+}
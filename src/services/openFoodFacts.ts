@@ -0,0 +1,545 @@
+/**
+ * Open Food Facts Client
+ * Every call to Open Food Facts goes through one client. It keeps the server
+ * within a global request budget, asks for each barcode at most once at a
+ * time, and stops calling for a while (a circuit breaker) after repeated
+ * failures or a 429, so callers can serve stale cache instead
+ *
+ * Open Beauty Facts and Open Pet Food Facts share Open Food Facts' API; each
+ * gets a client of its own, with its own budget and circuit
+ */
+
+import { BarcodeLookupResponse, ProductInfo, ProductProvenance } from '../models/types';
+import { shortGtin } from './barcode';
+import { getRateLimitStore, RateLimitBudget, tokenBucket } from './rateLimit';
+import type { ProductProvider } from './productProviders';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface OpenFoodFactsProduct {
+  product_name?: string;
+  generic_name?: string;
+  brands?: string;
+  categories?: string;
+  pnns_groups_1?: string;
+  image_url?: string;
+  ingredients_text?: string;
+  nutriments?: {
+    'energy-kcal'?: number;
+    proteins?: number;
+    carbohydrates?: number;
+    fat?: number;
+    salt?: number;
+    sugars?: number;
+  };
+}
+
+interface OpenFoodFactsResponse {
+  status: number;
+  product?: OpenFoodFactsProduct;
+}
+
+/**
+ * closed: calls go through; open: calls are refused until openUntil;
+ * half_open: one trial call decides whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface OpenFoodFactsClientOptions {
+  /** Recorded as the source of the products found (e.g., 'openbeautyfacts') */
+  source?: string;
+  /** Name in messages (e.g., 'Open Beauty Facts') */
+  label?: string;
+  baseUrl?: string;
+  /** Category for every product found, for databases of non-food items */
+  category?: string;
+  /** Requests per minute across the whole server */
+  requestsPerMinute?: number;
+  timeoutMs?: number;
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** How long the circuit stays open, unless a 429 asks for longer */
+  cooldownMs?: number;
+}
+
+export interface OpenFoodFactsMetrics {
+  circuit: {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** ISO 8601; set while the circuit is open */
+    openUntil: string | null;
+  };
+  budget: RateLimitBudget;
+  /** Lookups asked of the client */
+  lookups: number;
+  /** Requests actually sent to Open Food Facts */
+  requests: number;
+  /** Lookups that joined a request already in flight for the barcode */
+  deduplicated: number;
+  /** Lookups refused by the budget or the open circuit, without a request */
+  rejected: number;
+  /** Requests that errored, timed out or got a 5xx */
+  failures: number;
+  /** 429 responses from Open Food Facts */
+  rateLimited: number;
+  inFlight: number;
+  /** ISO 8601 */
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const OPEN_FOOD_FACTS_API = process.env.OPEN_FOOD_FACTS_API || 'https://world.openfoodfacts.org/api/v0/product';
+const OPEN_FOOD_FACTS_REQUESTS_PER_MINUTE = parseInt(process.env.OPEN_FOOD_FACTS_REQUESTS_PER_MINUTE || '60', 10);
+const OPEN_FOOD_FACTS_TIMEOUT_MS = 10000;
+const OPEN_FOOD_FACTS_FAILURE_THRESHOLD = parseInt(process.env.OPEN_FOOD_FACTS_FAILURE_THRESHOLD || '5', 10);
+const OPEN_FOOD_FACTS_COOLDOWN_MS = parseInt(process.env.OPEN_FOOD_FACTS_COOLDOWN_MS || '60000', 10);
+
+/**
+ * The Open Food Facts family of databases, by source
+ * The request budget, timeout and circuit settings apply to each one
+ */
+export const OPEN_FACTS_DATABASES: Record<string, { label: string; baseUrl: string; category?: string }> = {
+  openfoodfacts: {
+    label: 'Open Food Facts',
+    baseUrl: OPEN_FOOD_FACTS_API,
+  },
+  openbeautyfacts: {
+    label: 'Open Beauty Facts',
+    baseUrl: process.env.OPEN_BEAUTY_FACTS_API || 'https://world.openbeautyfacts.org/api/v0/product',
+    category: 'personal care',
+  },
+  openpetfoodfacts: {
+    label: 'Open Pet Food Facts',
+    baseUrl: process.env.OPEN_PET_FOOD_FACTS_API || 'https://world.openpetfoodfacts.org/api/v0/product',
+    category: 'pet supplies',
+  },
+};
+
+// ============================================================================
+// Product Mapping
+// ============================================================================
+
+/**
+ * Map an Open Food Facts product to ours, guessing our category from theirs
+ * unless one is given. Provenance lists the fields the product actually had;
+ * the name and category fall back to placeholders
+ */
+export function mapOpenFoodFactsProduct(
+  barcode: string,
+  product: OpenFoodFactsProduct,
+  source: string = 'openfoodfacts',
+  fixedCategory?: string
+): ProductInfo {
+  // Map Open Food Facts categories to our categories
+  let category = 'other';
+  const categories = product.categories?.toLowerCase() || '';
+  const pnnsGroups = product.pnns_groups_1?.toLowerCase() || '';
+
+  // Debug: Log raw categories for investigation
+  console.log(`[Barcode Debug] Barcode: ${barcode}`);
+  console.log(`[Barcode Debug] Categories: ${product.categories}`);
+  console.log(`[Barcode Debug] PNNS Groups: ${product.pnns_groups_1}`);
+
+  if (
+    categories.includes('produce') ||
+    categories.includes('fruit') ||
+    categories.includes('vegetable') ||
+    pnnsGroups.includes('fruits') ||
+    pnnsGroups.includes('vegetables')
+  ) {
+    category = 'produce';
+  } else if (pnnsGroups.includes('milk') || pnnsGroups.includes('dairy')) {
+    category = 'dairy';
+  } else if (
+    categories.includes('frozen') ||
+    pnnsGroups.includes('frozen')
+  ) {
+    category = 'frozen';
+  } else if (
+    categories.includes('meat') ||
+    categories.includes('seafood') ||
+    pnnsGroups.includes('meat') ||
+    pnnsGroups.includes('fish')
+  ) {
+    category = 'meat';
+  } else if (
+    // Canned foods and pasta should be pantry, not beverages
+    categories.includes('canned') ||
+    categories.includes('pasta') ||
+    categories.includes('ready meals') ||
+    categories.includes('prepared meals') ||
+    categories.includes('soups') ||
+    pnnsGroups.includes('pasta') ||
+    pnnsGroups.includes('canned')
+  ) {
+    category = 'pantry';
+  } else if (
+    categories.includes('beverage') ||
+    pnnsGroups.includes('beverages') ||
+    categories.includes('drink')
+  ) {
+    category = 'beverages';
+  } else if (
+    categories.includes('snack') ||
+    pnnsGroups.includes('snacks') ||
+    categories.includes('sweet')
+  ) {
+    category = 'snacks';
+  } else if (
+    categories.includes('bakery') ||
+    categories.includes('bread') ||
+    pnnsGroups.includes('bread')
+  ) {
+    category = 'pantry';
+  }
+
+  // Extract nutrition data if available
+  const nutriments = product.nutriments || {};
+  const nutrition: Record<string, number> = {};
+
+  if (nutriments['energy-kcal'] !== undefined) {
+    nutrition.calories = nutriments['energy-kcal'];
+  }
+  if (nutriments.proteins !== undefined) {
+    nutrition.protein = nutriments.proteins;
+  }
+  if (nutriments.carbohydrates !== undefined) {
+    nutrition.carbs = nutriments.carbohydrates;
+  }
+  if (nutriments.fat !== undefined) {
+    nutrition.fat = nutriments.fat;
+  }
+  if (nutriments.salt !== undefined) {
+    nutrition.sodium = nutriments.salt;
+  }
+  if (nutriments.sugars !== undefined) {
+    nutrition.sugars = nutriments.sugars;
+  }
+
+  const mapped = {
+    name: product.product_name || product.generic_name,
+    brand: product.brands?.split(',')[0]?.trim() || undefined,
+    category: fixedCategory ?? (category === 'other' ? undefined : category),
+    imageUrl: product.image_url || undefined,
+    ingredients: product.ingredients_text || undefined,
+    nutrition: Object.keys(nutrition).length > 0 ? nutrition : undefined,
+  };
+
+  const provenance: ProductProvenance = {};
+  for (const [field, value] of Object.entries(mapped)) {
+    if (value !== undefined) provenance[field as keyof ProductProvenance] = source;
+  }
+
+  return {
+    barcode,
+    ...mapped,
+    name: mapped.name || 'Unknown Product',
+    category: mapped.category ?? 'other',
+    source,
+    provenance,
+    infoLastSynced: new Date().toISOString(),
+  };
+}
+
+/**
+ * A lookup refused before reaching Open Food Facts, or answered with a 429
+ */
+function rateLimitedResult(retryAfterMs: number): BarcodeLookupResponse {
+  return {
+    success: false,
+    cached: false,
+    rateLimited: true,
+    retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+    error: 'Rate limit exceeded. Please try again later.',
+  };
+}
+
+/**
+ * Retry-After in milliseconds, from seconds or an HTTP date
+ */
+function retryAfterMs(header: string | null, now: number): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Looks products up on Open Food Facts. Lookups never throw; failures come
+ * back as unsuccessful BarcodeLookupResponses
+ */
+export class OpenFoodFactsClient implements ProductProvider {
+  readonly source: string;
+  readonly label: string;
+  readonly remote = true;
+  private readonly baseUrl: string;
+  private readonly category?: string;
+  private readonly budgetKey: string;
+  private readonly budget: RateLimitBudget;
+  private readonly timeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  private readonly inFlight = new Map<string, Promise<BarcodeLookupResponse>>();
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  private counters = { lookups: 0, requests: 0, deduplicated: 0, rejected: 0, failures: 0, rateLimited: 0 };
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(options: OpenFoodFactsClientOptions = {}) {
+    this.source = options.source ?? 'openfoodfacts';
+    this.label = options.label ?? 'Open Food Facts';
+    this.baseUrl = options.baseUrl ?? OPEN_FOOD_FACTS_API;
+    this.category = options.category;
+    // Rate limit store key, shared by every instance with RATE_LIMIT_STORE=database
+    this.budgetKey = `outbound:${this.source}`;
+    this.budget = { limit: options.requestsPerMinute ?? OPEN_FOOD_FACTS_REQUESTS_PER_MINUTE, windowSeconds: 60 };
+    this.timeoutMs = options.timeoutMs ?? OPEN_FOOD_FACTS_TIMEOUT_MS;
+    this.failureThreshold = options.failureThreshold ?? OPEN_FOOD_FACTS_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? OPEN_FOOD_FACTS_COOLDOWN_MS;
+  }
+
+  /**
+   * Look up a product by barcode (a GTIN-14). Lookups for a barcode already
+   * being fetched share that request
+   */
+  lookup(barcode: string): Promise<BarcodeLookupResponse> {
+    this.counters.lookups++;
+
+    const pending = this.inFlight.get(barcode);
+    if (pending) {
+      this.counters.deduplicated++;
+      return pending;
+    }
+
+    const request = this.send(barcode).finally(() => {
+      this.inFlight.delete(barcode);
+    });
+    this.inFlight.set(barcode, request);
+    return request;
+  }
+
+  /**
+   * Whether a lookup now would be sent, rather than refused by the circuit
+   */
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return Date.now() >= this.openUntil;
+    return !this.trialInFlight;
+  }
+
+  /**
+   * Circuit state and counters, for /health
+   */
+  metrics(): OpenFoodFactsMetrics {
+    // An open circuit whose cooldown is over lets the next lookup through
+    const state = this.state === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.state;
+
+    return {
+      circuit: {
+        state,
+        consecutiveFailures: this.consecutiveFailures,
+        openUntil: state === 'open' ? new Date(this.openUntil).toISOString() : null,
+      },
+      budget: { ...this.budget },
+      ...this.counters,
+      inFlight: this.inFlight.size,
+      lastSuccessAt: this.lastSuccessAt ? new Date(this.lastSuccessAt).toISOString() : null,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Check the circuit and the budget, then fetch
+   */
+  private async send(barcode: string): Promise<BarcodeLookupResponse> {
+    const now = Date.now();
+
+    if (this.state === 'open') {
+      if (now < this.openUntil) {
+        this.counters.rejected++;
+        return rateLimitedResult(this.openUntil - now);
+      }
+      this.state = 'half_open';
+    }
+
+    // Half open: let one trial request through to see if the database is back
+    const trial = this.state === 'half_open';
+    if (trial) {
+      if (this.trialInFlight) {
+        this.counters.rejected++;
+        return rateLimitedResult(this.cooldownMs);
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const allowed = await this.takeBudget();
+      if (allowed !== true) {
+        this.counters.rejected++;
+        return rateLimitedResult(allowed);
+      }
+
+      return await this.fetchProduct(barcode);
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Take a request from the budget: true, or milliseconds until one is free
+   * Requests go through if the rate limit store fails
+   */
+  private async takeBudget(): Promise<true | number> {
+    try {
+      const result = await getRateLimitStore().take(this.budgetKey, tokenBucket(this.budget));
+      return result.allowed ? true : result.retryAfterMs;
+    } catch (error) {
+      console.error('[OpenFoodFacts] Budget check failed:', error);
+      return true;
+    }
+  }
+
+  private async fetchProduct(barcode: string): Promise<BarcodeLookupResponse> {
+    this.counters.requests++;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      // Open Food Facts keys products by their EAN-13 or EAN-8
+      const response = await fetch(`${this.baseUrl}/${shortGtin(barcode)}.json`, {
+        signal: controller.signal,
+        headers: {
+          Accept: 'application/json',
+        },
+      });
+
+      if (response.status === 429) {
+        console.warn(`[OpenFoodFacts] ${this.label} rate limited (429) for ${barcode}`);
+        this.counters.rateLimited++;
+        const waitMs = Math.max(this.cooldownMs, retryAfterMs(response.headers.get('retry-after'), Date.now()) ?? 0);
+        this.open(waitMs, 'Rate limited (429)');
+        return rateLimitedResult(waitMs);
+      }
+
+      // A product the database doesn't know is an answer, not a failure
+      if (response.status === 404) {
+        this.recordSuccess();
+        return { success: false, cached: false, error: `Product not found in ${this.label}` };
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error ${response.status}`);
+      }
+
+      const data = (await response.json()) as OpenFoodFactsResponse;
+      this.recordSuccess();
+
+      if (data.status !== 1 || !data.product) {
+        return { success: false, cached: false, error: `Product not found in ${this.label}` };
+      }
+
+      return {
+        success: true,
+        cached: false,
+        product: mapOpenFoodFactsProduct(barcode, data.product, this.source, this.category),
+      };
+    } catch (err) {
+      const timedOut = err instanceof Error && err.name === 'AbortError';
+      const error = timedOut ? 'Request timed out' : `Failed to fetch: ${err instanceof Error ? err.message : 'Unknown error'}`;
+
+      this.recordFailure(error);
+      return { success: false, cached: false, error };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(error: string): void {
+    this.counters.failures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastError = error;
+
+    // A failed trial reopens the circuit straight away
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.open(this.cooldownMs, error);
+    }
+  }
+
+  private open(durationMs: number, reason: string): void {
+    if (this.state !== 'open') {
+      console.warn(`[OpenFoodFacts] ${this.label} circuit open for ${Math.ceil(durationMs / 1000)}s: ${reason}`);
+    }
+    this.state = 'open';
+    this.openUntil = Date.now() + durationMs;
+    this.lastFailureAt = Date.now();
+    this.lastError = reason;
+  }
+}
+
+// ============================================================================
+// Client Instance
+// ============================================================================
+
+/**
+ * Client instances, by source
+ */
+const clients = new Map<string, OpenFoodFactsClient>();
+
+/**
+ * Get or create the client for one of OPEN_FACTS_DATABASES (one per source)
+ */
+export function getOpenFactsClient(source: string): OpenFoodFactsClient {
+  let client = clients.get(source);
+  if (!client) {
+    client = new OpenFoodFactsClient({ source, ...OPEN_FACTS_DATABASES[source] });
+    clients.set(source, client);
+  }
+  return client;
+}
+
+/**
+ * Get or create the Open Food Facts client (singleton pattern)
+ */
+export function getOpenFoodFactsClient(): OpenFoodFactsClient {
+  return getOpenFactsClient('openfoodfacts');
+}
+
+/**
+ * Swap in another client, e.g. one with test settings; null goes back to a
+ * fresh configured one
+ */
+export function setOpenFoodFactsClient(next: OpenFoodFactsClient | null): void {
+  if (next) {
+    clients.set('openfoodfacts', next);
+  } else {
+    clients.delete('openfoodfacts');
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Price History Service
+ * Comparable unit prices, price trends, store comparison and price rise alerts
+ *
+ * Prices are normalized to one kg, one l or one piece so pack sizes compare;
+ * packaging units (can, pack, ...) are only compared with themselves.
+ */
+
+import { ShoppingListItem } from '../models/shoppingList';
+import {
+  PriceObservation,
+  PriceTrend,
+  StorePriceSummary,
+  ShoppingListPriceComparison,
+  StoreListEstimate,
+  ListItemPrice,
+  PriceAlert,
+} from '../models/price';
+import { nameTokens } from './recipe';
+import { UnitDimension, convertQuantity, findUnit, normalizeUnit } from './units';
+
+/** Days of price history the price endpoints look at by default */
+export const DEFAULT_PRICE_HISTORY_DAYS = 180;
+
+/** Smallest rise over the previous price, in percent, that raises an alert */
+export const PRICE_ALERT_THRESHOLD_PERCENT = 10;
+
+// Unit prices are quoted per one of these, by dimension
+const PRICE_UNITS: Record<UnitDimension, { name: string; factor: number }> = {
+  mass: { name: 'kg', factor: 1000 },
+  volume: { name: 'l', factor: 1000 },
+  count: { name: 'piece', factor: 1 },
+};
+
+/**
+ * A product to look prices up for
+ */
+export interface PricedProduct {
+  barcode?: string;
+  name?: string;
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentChange(from: number, to: number): number {
+  if (from === 0) return 0;
+  return Math.round(((to - from) / from) * 1000) / 10;
+}
+
+// Store names group case-insensitively ("Aldi" and "ALDI ")
+function storeKey(storeName?: string): string {
+  return storeName ? storeName.trim().toLowerCase() : '';
+}
+
+// ============================================================================
+// Product Identity
+// ============================================================================
+
+/**
+ * Normalized product name used to match prices ("Whole Milks" -> "whole milk")
+ */
+export function nameKey(name: string): string {
+  return nameTokens(name).join(' ');
+}
+
+/**
+ * Product identity for a price: the barcode, or the normalized name without one
+ */
+export function productKey(barcode: string | undefined, name: string): string {
+  return barcode ? `barcode:${barcode}` : `name:${nameKey(name)}`;
+}
+
+/**
+ * Whether a recorded price is for a product: same barcode or same normalized name
+ */
+export function matchesProduct(observation: PriceObservation, product: PricedProduct): boolean {
+  if (product.barcode && observation.barcode === product.barcode) return true;
+  return product.name !== undefined && observation.nameKey === nameKey(product.name);
+}
+
+/**
+ * Price per kg, l or piece for a price paid per `unit`
+ * Items without a unit count as pieces; packaging and unregistered units
+ * keep their own (normalized) unit
+ */
+export function normalizeUnitPrice(price: number, unit?: string): { unitPrice: number; priceUnit: string } {
+  if (!unit) {
+    return { unitPrice: roundPrice(price), priceUnit: 'piece' };
+  }
+
+  const definition = findUnit(unit);
+  if (!definition) {
+    return { unitPrice: roundPrice(price), priceUnit: normalizeUnit(unit) };
+  }
+
+  const target = PRICE_UNITS[definition.dimension];
+  return {
+    unitPrice: roundPrice((price * target.factor) / definition.factor),
+    priceUnit: target.name,
+  };
+}
+
+// ============================================================================
+// Price Trend
+// ============================================================================
+
+/**
+ * A product's price history from its recorded prices (oldest first)
+ * Prices in a different unit than most of them (kg vs can) are left out
+ * Null without any prices
+ */
+export function buildPriceTrend(observations: PriceObservation[]): PriceTrend | null {
+  if (observations.length === 0) return null;
+
+  const unitCounts = new Map<string, number>();
+  for (const observation of observations) {
+    unitCounts.set(observation.priceUnit, (unitCounts.get(observation.priceUnit) || 0) + 1);
+  }
+  const priceUnit = [...unitCounts.entries()].reduce((best, next) => (next[1] > best[1] ? next : best))[0];
+
+  const prices = observations.filter((observation) => observation.priceUnit === priceUnit);
+  const latest = prices[prices.length - 1];
+
+  const byStore = new Map<string, PriceObservation[]>();
+  for (const observation of prices) {
+    const key = storeKey(observation.storeName);
+    byStore.set(key, [...(byStore.get(key) || []), observation]);
+  }
+
+  const stores: StorePriceSummary[] = [...byStore.values()]
+    .map((storePrices) => {
+      const unitPrices = storePrices.map((observation) => observation.unitPrice);
+      const last = storePrices[storePrices.length - 1];
+      return {
+        storeName: last.storeName,
+        latestUnitPrice: last.unitPrice,
+        lowestUnitPrice: Math.min(...unitPrices),
+        averageUnitPrice: roundPrice(unitPrices.reduce((sum, value) => sum + value, 0) / unitPrices.length),
+        observationCount: storePrices.length,
+        lastObservedAt: last.observedAt,
+      };
+    })
+    .sort((a, b) => a.latestUnitPrice - b.latestUnitPrice);
+
+  return {
+    name: latest.name,
+    barcode: [...prices].reverse().find((observation) => observation.barcode)?.barcode,
+    priceUnit,
+    points: prices.map((observation) => ({
+      observedAt: observation.observedAt,
+      storeName: observation.storeName,
+      unitPrice: observation.unitPrice,
+    })),
+    stores,
+    latestUnitPrice: latest.unitPrice,
+    changePercent: percentChange(prices[0].unitPrice, latest.unitPrice),
+  };
+}
+
+// ============================================================================
+// Store Comparison
+// ============================================================================
+
+/**
+ * What a shopping list entry would cost at a store's latest price
+ * An entry without a unit is taken to be in the unit it was bought in;
+ * null when the entry's unit can't be converted to the price's unit
+ */
+function estimateCost(
+  item: ShoppingListItem,
+  observation: PriceObservation,
+  density?: number
+): number | null {
+  if (!item.unit) {
+    return item.quantity * observation.price;
+  }
+
+  const quantity = convertQuantity(item.quantity, item.unit, observation.priceUnit, density);
+  return quantity === null ? null : quantity * observation.unitPrice;
+}
+
+/**
+ * Compare a shopping list's cost across stores using each store's latest prices
+ * Prices without a store are ignored. Stores are ordered by how many entries
+ * they have prices for, then by estimated total. densities maps pantry item
+ * ids to their density, so entries linked to an item convert by weight or volume
+ */
+export function compareShoppingListPrices(
+  items: ShoppingListItem[],
+  observations: PriceObservation[],
+  densities: Map<string, number> = new Map()
+): ShoppingListPriceComparison {
+  const estimates = new Map<string, StoreListEstimate & { pricedIds: Set<string> }>();
+  const itemPrices: ListItemPrice[] = [];
+
+  for (const item of items) {
+    // Latest price per store (observations are oldest first)
+    const latestByStore = new Map<string, PriceObservation>();
+    for (const observation of observations) {
+      if (observation.storeName && matchesProduct(observation, item)) {
+        latestByStore.set(storeKey(observation.storeName), observation);
+      }
+    }
+
+    let cheapest: { observation: PriceObservation; cost: number } | null = null;
+
+    for (const [key, observation] of latestByStore) {
+      const cost = estimateCost(item, observation, item.itemId ? densities.get(item.itemId) : undefined);
+      if (cost === null) continue;
+
+      const estimate = estimates.get(key) || {
+        storeName: observation.storeName!,
+        estimatedTotal: 0,
+        pricedItems: 0,
+        missingItems: [],
+        pricedIds: new Set<string>(),
+      };
+      estimate.estimatedTotal += cost;
+      estimate.pricedItems += 1;
+      estimate.pricedIds.add(item.id);
+      estimates.set(key, estimate);
+
+      if (!cheapest || cost < cheapest.cost) {
+        cheapest = { observation, cost };
+      }
+    }
+
+    itemPrices.push({
+      shoppingListItemId: item.id,
+      name: item.name,
+      cheapestStore: cheapest ? cheapest.observation.storeName! : null,
+      unitPrice: cheapest ? cheapest.observation.unitPrice : null,
+      priceUnit: cheapest ? cheapest.observation.priceUnit : null,
+      estimatedCost: cheapest ? roundMoney(cheapest.cost) : null,
+    });
+  }
+
+  const stores: StoreListEstimate[] = [...estimates.values()]
+    .map(({ pricedIds, ...estimate }) => ({
+      ...estimate,
+      estimatedTotal: roundMoney(estimate.estimatedTotal),
+      missingItems: items.filter((item) => !pricedIds.has(item.id)).map((item) => item.name),
+    }))
+    .sort((a, b) => b.pricedItems - a.pricedItems || a.estimatedTotal - b.estimatedTotal);
+
+  return {
+    cheapestStore: stores.length > 0 ? stores[0].storeName : null,
+    stores,
+    items: itemPrices,
+  };
+}
+
+// ============================================================================
+// Price Alerts
+// ============================================================================
+
+/**
+ * Products whose latest price at a store rose at least thresholdPercent over
+ * the previous price there, biggest rise first
+ */
+export function findPriceIncreases(
+  observations: PriceObservation[],
+  thresholdPercent: number = PRICE_ALERT_THRESHOLD_PERCENT
+): PriceAlert[] {
+  const groups = new Map<string, PriceObservation[]>();
+  for (const observation of observations) {
+    const key = [observation.productKey, storeKey(observation.storeName), observation.priceUnit].join('|');
+    groups.set(key, [...(groups.get(key) || []), observation]);
+  }
+
+  const alerts: PriceAlert[] = [];
+  for (const prices of groups.values()) {
+    if (prices.length < 2) continue;
+
+    const previous = prices[prices.length - 2];
+    const current = prices[prices.length - 1];
+    const changePercent = percentChange(previous.unitPrice, current.unitPrice);
+
+    if (changePercent > 0 && changePercent >= thresholdPercent) {
+      alerts.push({
+        productKey: current.productKey,
+        name: current.name,
+        storeName: current.storeName,
+        priceUnit: current.priceUnit,
+        previousUnitPrice: previous.unitPrice,
+        currentUnitPrice: current.unitPrice,
+        changePercent,
+        previousObservedAt: previous.observedAt,
+        observedAt: current.observedAt,
+      });
+    }
+  }
+
+  return alerts.sort((a, b) => b.changePercent - a.changePercent);
+}
@@ -0,0 +1,307 @@
+/**
+ * Product Providers
+ * Barcode lookups ask the product sources named by PRODUCT_PROVIDERS, in
+ * order, and merge what they find: each field comes from the first source
+ * that has it, and the product's provenance records which source that was.
+ * Sources after the one that completes the name, brand, category and image
+ * aren't asked.
+ *
+ * Sources: catalog (products users entered), openfoodfacts, openbeautyfacts,
+ * openpetfoodfacts, and http (a product service at PRODUCT_HTTP_URL)
+ */
+
+import { getCatalogProduct } from '../db/operations';
+import { BarcodeLookupResponse, ProductField, ProductInfo, ProductProvenance } from '../models/types';
+import { getOpenFactsClient, OPEN_FACTS_DATABASES } from './openFoodFacts';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A source of product data
+ */
+export interface ProductProvider {
+  /** Recorded as the source of the fields it supplies, e.g. 'catalog' */
+  readonly source: string;
+  /** Whether lookups leave the server (and so may be refused or fail) */
+  readonly remote: boolean;
+  /** Whether a lookup now would be sent, rather than refused */
+  isAvailable(): boolean;
+  /**
+   * Look a product up by GTIN-14. The product's provenance lists the fields
+   * the source actually has. Never throws
+   */
+  lookup(barcode: string): Promise<BarcodeLookupResponse>;
+}
+
+type ProductFields = Partial<Pick<ProductInfo, ProductField>>;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PRODUCT_PROVIDERS = (process.env.PRODUCT_PROVIDERS || 'catalog,openfoodfacts')
+  .split(',')
+  .map((name) => name.trim())
+  .filter(Boolean);
+const PRODUCT_HTTP_URL = process.env.PRODUCT_HTTP_URL || 'http://localhost:8885/products';
+const PRODUCT_HTTP_TOKEN = process.env.PRODUCT_HTTP_TOKEN;
+const PRODUCT_HTTP_TIMEOUT_MS = parseInt(process.env.PRODUCT_HTTP_TIMEOUT_MS || '10000', 10);
+
+const PRODUCT_FIELDS: ProductField[] = ['name', 'brand', 'category', 'imageUrl', 'ingredients', 'nutrition'];
+
+// Once these are known, the rest of the chain isn't asked
+const CORE_FIELDS: ProductField[] = ['name', 'brand', 'category', 'imageUrl'];
+
+/**
+ * A product with the fields a source supplied, attributed to it
+ */
+export function sourcedProduct(barcode: string, fields: ProductFields, source: string): ProductInfo {
+  const provenance: ProductProvenance = {};
+  for (const field of PRODUCT_FIELDS) {
+    if (fields[field] !== undefined) provenance[field] = source;
+  }
+
+  return {
+    barcode,
+    ...fields,
+    name: fields.name ?? 'Unknown Product',
+    category: fields.category ?? 'other',
+    source,
+    provenance,
+    infoLastSynced: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Products users entered by barcode (product_catalog)
+ */
+export class CatalogProductProvider implements ProductProvider {
+  readonly source = 'catalog';
+  readonly remote = false;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async lookup(barcode: string): Promise<BarcodeLookupResponse> {
+    try {
+      const entry = await getCatalogProduct(barcode);
+      if (!entry) {
+        return { success: false, cached: false, error: 'Product not found in the catalog' };
+      }
+
+      return {
+        success: true,
+        cached: false,
+        product: sourcedProduct(barcode, {
+          name: entry.name,
+          brand: entry.brand,
+          category: entry.category,
+          imageUrl: entry.imageUrl,
+        }, this.source),
+      };
+    } catch (error) {
+      console.error(`[ProductProviders] Catalog lookup failed for ${barcode}:`, error);
+      return { success: false, cached: false, error: 'Catalog lookup failed' };
+    }
+  }
+}
+
+/**
+ * A product service over HTTP: GET {url}/{barcode} (a GTIN-14) answers with
+ * { name?, brand?, category?, imageUrl?, ingredients?, nutrition? }, or 404
+ * for a product it doesn't know. Used for a local stand-in or a hosted catalog
+ */
+export class HttpProductProvider implements ProductProvider {
+  readonly source = 'http';
+  readonly remote = true;
+
+  constructor(
+    private readonly url: string,
+    private readonly token?: string,
+    private readonly timeoutMs: number = PRODUCT_HTTP_TIMEOUT_MS
+  ) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async lookup(barcode: string): Promise<BarcodeLookupResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.url}/${barcode}`, {
+        signal: controller.signal,
+        headers: {
+          Accept: 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+      });
+
+      if (response.status === 404) {
+        return { success: false, cached: false, error: 'Product not found in the product service' };
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error ${response.status}`);
+      }
+
+      const fields = httpProductFields(await response.json());
+      if (Object.values(fields).every((value) => value === undefined)) {
+        return { success: false, cached: false, error: 'Product not found in the product service' };
+      }
+
+      return { success: true, cached: false, product: sourcedProduct(barcode, fields, this.source) };
+    } catch (err) {
+      const timedOut = err instanceof Error && err.name === 'AbortError';
+      const error = timedOut ? 'Request timed out' : `Failed to fetch: ${err instanceof Error ? err.message : 'Unknown error'}`;
+
+      console.warn(`[ProductProviders] Product service lookup failed for ${barcode}: ${error}`);
+      return { success: false, cached: false, error };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * The product fields in a product service response; anything else is ignored
+ */
+function httpProductFields(data: unknown): ProductFields {
+  const body = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const text = (key: string): string | undefined => {
+    const value = body[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  let nutrition: Record<string, number> | undefined;
+  if (body.nutrition && typeof body.nutrition === 'object') {
+    const values = Object.entries(body.nutrition).filter(([, value]) => typeof value === 'number');
+    nutrition = values.length > 0 ? Object.fromEntries(values) : undefined;
+  }
+
+  return {
+    name: text('name'),
+    brand: text('brand'),
+    category: text('category')?.toLowerCase(),
+    imageUrl: text('imageUrl'),
+    ingredients: text('ingredients'),
+    nutrition,
+  };
+}
+
+// ============================================================================
+// Provider Chain
+// ============================================================================
+
+const catalogProvider = new CatalogProductProvider();
+const httpProvider = new HttpProductProvider(PRODUCT_HTTP_URL, PRODUCT_HTTP_TOKEN);
+
+/**
+ * Providers by the name used in PRODUCT_PROVIDERS. Open Facts clients are
+ * looked up each time, so a client swapped in for tests is used
+ */
+const PROVIDERS: Record<string, () => ProductProvider> = {
+  catalog: () => catalogProvider,
+  ...Object.fromEntries(Object.keys(OPEN_FACTS_DATABASES).map((source) => [source, () => getOpenFactsClient(source)])),
+  http: () => httpProvider,
+};
+
+const unknownProviders = PRODUCT_PROVIDERS.filter((name) => !PROVIDERS[name]);
+if (unknownProviders.length > 0) {
+  console.warn(
+    `[ProductProviders] Ignoring unknown PRODUCT_PROVIDERS: ${unknownProviders.join(', ')} ` +
+    `(known: ${Object.keys(PROVIDERS).join(', ')})`
+  );
+}
+
+/**
+ * The configured providers, in the order they are asked
+ */
+export function getProductProviders(): ProductProvider[] {
+  return PRODUCT_PROVIDERS.filter((name) => PROVIDERS[name]).map((name) => PROVIDERS[name]());
+}
+
+/**
+ * Whether a lookup now would reach any source worth refreshing from: false
+ * only while every remote source is refusing lookups
+ */
+export function productSourcesAvailable(providers: ProductProvider[] = getProductProviders()): boolean {
+  const remote = providers.filter((provider) => provider.remote);
+  return remote.length === 0 || remote.some((provider) => provider.isAvailable());
+}
+
+/**
+ * Look a product up in each provider in turn and merge the fields found
+ * When nothing is found, the result is rate limited if any source was (the
+ * product may exist there); otherwise it carries every source's error
+ */
+export async function lookupProduct(
+  barcode: string,
+  providers: ProductProvider[] = getProductProviders()
+): Promise<BarcodeLookupResponse> {
+  const found: ProductInfo[] = [];
+  const failures: BarcodeLookupResponse[] = [];
+  const merged: ProductFields = {};
+  const provenance: ProductProvenance = {};
+
+  for (const provider of providers) {
+    const result = await provider.lookup(barcode);
+    if (!result.success || !result.product) {
+      failures.push(result);
+      continue;
+    }
+
+    const product = result.product;
+    found.push(product);
+
+    for (const field of PRODUCT_FIELDS) {
+      const source = product.provenance ? product.provenance[field] : product.source;
+      if (provenance[field] || !source || product[field] === undefined) continue;
+      (merged as Record<ProductField, unknown>)[field] = product[field];
+      provenance[field] = source;
+    }
+
+    if (CORE_FIELDS.every((field) => provenance[field])) break;
+  }
+
+  if (found.length > 0) {
+    return {
+      success: true,
+      cached: false,
+      product: {
+        barcode,
+        ...merged,
+        name: merged.name ?? 'Unknown Product',
+        category: merged.category ?? 'other',
+        source: provenance.name ?? found[0].source,
+        provenance,
+        infoLastSynced: new Date().toISOString(),
+      },
+    };
+  }
+
+  const limited = failures.filter((result) => result.rateLimited);
+  if (limited.length > 0) {
+    return {
+      success: false,
+      cached: false,
+      rateLimited: true,
+      retryAfter: Math.min(...limited.map((result) => result.retryAfter ?? 60)),
+      error: limited[0].error,
+    };
+  }
+
+  return {
+    success: false,
+    cached: false,
+    error: failures.map((result) => result.error).filter(Boolean).join('; ') || 'Product not found',
+  };
+}
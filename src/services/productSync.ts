@@ -0,0 +1,209 @@
+/**
+ * Product Sync Worker
+ * Retries product lookups that failed, off the request path
+ *
+ * Barcodes are queued on their product_cache row (needs_sync). A lookup that
+ * fails again is retried with exponential backoff until the barcode runs out
+ * of attempts; it then stays in the table with its last error for the admin
+ * API. Barcodes are claimed with a lease, so several server instances can
+ * share the queue. While every remote product source is refusing lookups the
+ * worker waits.
+ */
+
+import {
+  enqueueProductSync,
+  claimProductSyncs,
+  deferProductSync,
+  failProductSync,
+  saveProduct,
+} from '../db/operations';
+import { ClaimedProductSync } from '../models/productSync';
+import { BarcodeLookupResponse } from '../models/types';
+import { lookupProduct, productSourcesAvailable } from './productProviders';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Barcodes looked up per poll by this instance; 0 leaves the queue to other instances */
+const PRODUCT_SYNC_BATCH_SIZE = parseInt(process.env.PRODUCT_SYNC_BATCH_SIZE || '10', 10);
+export const PRODUCT_SYNC_MAX_ATTEMPTS = parseInt(process.env.PRODUCT_SYNC_MAX_ATTEMPTS || '5', 10);
+const PRODUCT_SYNC_POLL_MS = parseInt(process.env.PRODUCT_SYNC_POLL_MS || '60000', 10);
+const PRODUCT_SYNC_RETRY_BASE_MS = parseInt(process.env.PRODUCT_SYNC_RETRY_BASE_MS || '300000', 10);
+
+// Longest wait between retries
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+// A claimed barcode not finished after this is claimed again
+const LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Wait before retrying a barcode whose lookup number `attempt` failed: base, 2x, 4x, ...
+ */
+export function syncRetryDelay(attempt: number, baseMs: number = PRODUCT_SYNC_RETRY_BASE_MS): number {
+  return Math.min(baseMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+// ============================================================================
+// Queueing
+// ============================================================================
+
+/**
+ * Queue a barcode whose lookup failed. The first retry waits the base delay,
+ * or as long as a product source asked when it was rate limited
+ * Returns whether the barcode was queued; queueing never throws
+ */
+export async function queueProductSync(barcode: string, result: BarcodeLookupResponse): Promise<boolean> {
+  const delayMs = result.rateLimited && result.retryAfter
+    ? result.retryAfter * 1000
+    : syncRetryDelay(1);
+
+  try {
+    await enqueueProductSync(
+      barcode,
+      result.error || 'Lookup failed',
+      new Date(Date.now() + delayMs).toISOString()
+    );
+    return true;
+  } catch (error) {
+    console.error(`[ProductSync] Failed to queue ${barcode}:`, error);
+    return false;
+  }
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+export interface ProductSyncWorkerOptions {
+  batchSize: number;
+  maxAttempts: number;
+  pollMs: number;
+  retryBaseMs: number;
+  leaseMs: number;
+}
+
+const DEFAULT_OPTIONS: ProductSyncWorkerOptions = {
+  batchSize: PRODUCT_SYNC_BATCH_SIZE,
+  maxAttempts: PRODUCT_SYNC_MAX_ATTEMPTS,
+  pollMs: PRODUCT_SYNC_POLL_MS,
+  retryBaseMs: PRODUCT_SYNC_RETRY_BASE_MS,
+  leaseMs: LEASE_MS,
+};
+
+/**
+ * Claims due barcodes a batch at a time and looks them up one by one, so the
+ * queue draws slowly on the product sources' shared budgets
+ */
+export class ProductSyncWorker {
+  private readonly options: ProductSyncWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(options: Partial<ProductSyncWorkerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.timer || this.options.batchSize <= 0) return;
+
+    this.timer = setInterval(() => void this.poll(), this.options.pollMs);
+    this.timer.unref();
+    void this.poll();
+  }
+
+  /**
+   * Stop claiming barcodes; a batch already claimed finishes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Claim a batch of due barcodes and look them up
+   * Resolves once the batch has finished
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+
+    // Nothing would get through; leave the queue until a circuit closes
+    if (!productSourcesAvailable()) return;
+
+    this.polling = true;
+    try {
+      const entries = await claimProductSyncs(this.options.batchSize, this.options.leaseMs);
+      for (const entry of entries) {
+        await this.run(entry);
+      }
+    } catch (error) {
+      console.error('[ProductSync] Failed to claim barcodes:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Look one claimed barcode up: save the product, retry later or give up
+   */
+  async run(entry: ClaimedProductSync): Promise<void> {
+    try {
+      const result = await lookupProduct(entry.barcode);
+
+      if (result.success && result.product) {
+        // Saving takes the barcode off the queue
+        await saveProduct({
+          barcode: result.product.barcode,
+          name: result.product.name,
+          brand: result.product.brand,
+          category: result.product.category,
+          imageUrl: result.product.imageUrl,
+          ingredients: result.product.ingredients,
+          nutrition: result.product.nutrition,
+          source: result.product.source,
+          provenance: result.product.provenance,
+        });
+        console.log(`[ProductSync] Synced ${entry.barcode}`);
+        return;
+      }
+
+      // Our budget or a source's limit, not the barcode: don't count it
+      if (result.rateLimited) {
+        await deferProductSync(entry.barcode, new Date(Date.now() + (result.retryAfter ?? 60) * 1000).toISOString());
+        return;
+      }
+
+      const attempts = entry.attempts + 1;
+      const retryAt = attempts < this.options.maxAttempts
+        ? new Date(Date.now() + syncRetryDelay(attempts, this.options.retryBaseMs)).toISOString()
+        : undefined;
+
+      await failProductSync(entry.barcode, result.error || 'Lookup failed', retryAt);
+      if (!retryAt) {
+        console.warn(`[ProductSync] Gave up on ${entry.barcode} after ${attempts} attempts: ${result.error}`);
+      }
+    } catch (error) {
+      console.error(`[ProductSync] ${entry.barcode} error:`, error);
+    }
+  }
+}
+
+/**
+ * Singleton worker instance
+ */
+let worker: ProductSyncWorker | null = null;
+
+/**
+ * Get or create the product sync worker (singleton pattern)
+ */
+export function getProductSyncWorker(): ProductSyncWorker {
+  if (!worker) {
+    worker = new ProductSyncWorker();
+  }
+  return worker;
+}
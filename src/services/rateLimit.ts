@@ -0,0 +1,272 @@
+/**
+ * Rate Limiting
+ * Token buckets that cap how often a user (or, before sign-in, an IP
+ * address) may call each class of endpoint. Budgets scale with the user's
+ * subscription tier. Buckets live in memory by default;
+ * RATE_LIMIT_STORE=database keeps them in the database so every server
+ * instance shares them
+ */
+
+import { getDatabase } from '../db';
+import { UserTier } from '../models/subscription';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+
+// Buckets kept in memory; the least recently used go first beyond this
+const MEMORY_STORE_MAX_KEYS = 10000;
+
+// How often the memory store drops buckets that have refilled
+const MEMORY_STORE_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// How often the database store drops idle buckets
+const DATABASE_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * Endpoints that share a budget
+ * api: every API request, per IP; receiptScan: OCR; barcodeLookup: Open
+ * Food Facts lookups; clientErrors: client error reports
+ */
+export type RateLimitClass = 'api' | 'receiptScan' | 'barcodeLookup' | 'clientErrors';
+
+export interface RateLimitBudget {
+  /** Requests allowed in a burst, and per window on average */
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * Free tier (and signed-out) budgets
+ */
+export const RATE_LIMIT_BUDGETS: Record<RateLimitClass, RateLimitBudget> = {
+  api: { limit: 100, windowSeconds: 60 },
+  receiptScan: { limit: 10, windowSeconds: 60 },
+  barcodeLookup: { limit: 30, windowSeconds: 60 },
+  clientErrors: { limit: 10, windowSeconds: 60 },
+};
+
+/**
+ * Paid tiers get a multiple of the free budget
+ */
+export const RATE_LIMIT_TIER_MULTIPLIERS: Record<UserTier, number> = {
+  free: 1,
+  pro: 3,
+  family: 5,
+};
+
+/**
+ * The budget for a class of endpoint at a tier (free when there is no user)
+ */
+export function rateLimitBudget(routeClass: RateLimitClass, tier: UserTier = 'free'): RateLimitBudget {
+  const budget = RATE_LIMIT_BUDGETS[routeClass];
+  return { ...budget, limit: budget.limit * RATE_LIMIT_TIER_MULTIPLIERS[tier] };
+}
+
+// ============================================================================
+// Token Buckets
+// ============================================================================
+
+export interface TokenBucket {
+  /** Most tokens the bucket holds */
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * A bucket's tokens when it was last used; a bucket never used is full
+ */
+export interface BucketState {
+  tokens: number;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left */
+  remaining: number;
+  /** Until the request could succeed; 0 when it was allowed */
+  retryAfterMs: number;
+  /** Until the bucket is full again */
+  resetMs: number;
+}
+
+/**
+ * A bucket that refills a budget's limit once per window
+ */
+export function tokenBucket(budget: RateLimitBudget): TokenBucket {
+  return { capacity: budget.limit, refillPerSecond: budget.limit / budget.windowSeconds };
+}
+
+/**
+ * Refill a bucket for the time since it was last used and take `cost`
+ * tokens if it has them. A refused request takes nothing
+ */
+export function takeTokens(
+  state: BucketState | null,
+  bucket: TokenBucket,
+  cost: number,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const refilled = state
+    ? state.tokens + (Math.max(0, now - state.updatedAt) / 1000) * bucket.refillPerSecond
+    : bucket.capacity;
+  const available = Math.min(bucket.capacity, refilled);
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil(((cost - tokens) / bucket.refillPerSecond) * 1000),
+      resetMs: Math.ceil(((bucket.capacity - tokens) / bucket.refillPerSecond) * 1000),
+    },
+  };
+}
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+/**
+ * Holds token buckets under keys such as 'receiptScan:user:<userId>'
+ */
+export interface RateLimitStore {
+  /** Identifies the store, e.g. 'memory' */
+  readonly name: string;
+  /** Take cost tokens (1 by default) from the bucket at key */
+  take(key: string, bucket: TokenBucket, cost?: number): Promise<RateLimitResult>;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Buckets in this process only; each server instance limits on its own
+ * Buckets that have refilled are dropped every pruneIntervalMs. Beyond
+ * maxKeys the least recently used are dropped at once, refilled or not
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  // Kept in order of last use: the first entries are the least recently used
+  private readonly buckets = new Map<string, { state: BucketState; bucket: TokenBucket }>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly maxKeys: number = MEMORY_STORE_MAX_KEYS,
+    private readonly pruneIntervalMs: number = MEMORY_STORE_PRUNE_INTERVAL_MS
+  ) {}
+
+  async take(key: string, bucket: TokenBucket, cost: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    const taken = takeTokens(this.buckets.get(key)?.state ?? null, bucket, cost, now);
+
+    this.buckets.delete(key);
+    this.buckets.set(key, { state: taken.state, bucket });
+
+    for (const oldest of this.buckets.keys()) {
+      if (this.buckets.size <= this.maxKeys) break;
+      this.buckets.delete(oldest);
+    }
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.prune(Date.now()), this.pruneIntervalMs);
+      this.timer.unref();
+    }
+
+    return taken.result;
+  }
+
+  /**
+   * Stop pruning on a timer
+   */
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Number of buckets held */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Drop buckets that have refilled; a missing bucket is a full one
+   */
+  private prune(now: number): void {
+    for (const [key, { state, bucket }] of this.buckets) {
+      if (takeTokens(state, bucket, 0, now).result.resetMs === 0) this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Buckets in the rate_limit_buckets table, shared by every server instance
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+  private lastPrunedAt = Date.now();
+
+  async take(key: string, bucket: TokenBucket, cost: number = 1): Promise<RateLimitResult> {
+    const db = getDatabase();
+    const result = await db.takeRateLimitTokens(key, bucket, cost);
+
+    // Every bucket is full again after the longest window, so older rows can go
+    if (Date.now() - this.lastPrunedAt > DATABASE_PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now();
+      const longestWindowMs = Math.max(...Object.values(RATE_LIMIT_BUDGETS).map((b) => b.windowSeconds)) * 1000;
+      await db.deleteIdleRateLimitBuckets(Date.now() - longestWindowMs);
+    }
+
+    return result;
+  }
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Create the store named by RATE_LIMIT_STORE ('memory' or 'database')
+ */
+export function createRateLimitStore(): RateLimitStore {
+  if (RATE_LIMIT_STORE === 'database') {
+    return new DatabaseRateLimitStore();
+  }
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Singleton store instance
+ */
+let store: RateLimitStore | null = null;
+
+/**
+ * Get or create the rate limit store (singleton pattern)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Swap in another store, e.g. one backed by Redis; null goes back to the
+ * configured one
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
@@ -0,0 +1,249 @@
+/**
+ * Receipt Images
+ * Session receipt images and their thumbnails in blob storage
+ *
+ * The database keeps each receipt's blob key, SHA-256 and size. Receipts
+ * captured before blob storage keep their base64 image in session_receipts
+ * until moveReceiptImagesToBlobStore() (npm run db:migrate-receipt-images)
+ * moves it out; until then they are read from there.
+ */
+
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import decodeHeic from 'heic-decode';
+import Sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { getUnmovedSessionReceipt, listUnmovedSessionReceipts, moveSessionReceiptImage } from '../db/operations';
+import { SessionReceipt, StoredReceiptImage } from '../models/shoppingSession';
+import { getBlobStore, readBlob } from './blobStorage';
+
+// Longest side of a thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+export type ReceiptImageVariant = 'image' | 'thumbnail';
+
+export type UploadedImageType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/heic';
+
+export interface UploadedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+// ISO base media brands of HEVC-coded HEIF photos (iPhone cameras and others)
+// AVIF files carry the generic HEIF brands (mif1, msf1) too, so those don't count
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis']);
+
+/**
+ * Decode a base64 image, with or without a data URI prefix
+ */
+export function decodeImageData(imageData: string): Buffer {
+  return Buffer.from(imageData.replace(/^data:[^;]+;base64,/, ''), 'base64');
+}
+
+/**
+ * Write a receipt image and its thumbnail to blob storage
+ * Images Sharp can't read are stored without a thumbnail
+ */
+export async function saveReceiptImage(
+  sessionId: string,
+  image: Buffer,
+  mimeType: string
+): Promise<StoredReceiptImage> {
+  const store = getBlobStore();
+  const baseKey = `receipts/${sessionId}/${uuidv4()}`;
+  const imageKey = `${baseKey}.${EXTENSIONS[mimeType] || 'bin'}`;
+
+  await store.put(imageKey, image, mimeType);
+
+  let thumbnailKey: string | undefined;
+  try {
+    const thumbnail = await Sharp(image)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+    thumbnailKey = `${baseKey}.thumb.jpg`;
+    await store.put(thumbnailKey, thumbnail, 'image/jpeg');
+  } catch (error) {
+    thumbnailKey = undefined;
+    console.warn(`[ReceiptImages] No thumbnail for ${imageKey}:`, error instanceof Error ? error.message : error);
+  }
+
+  return {
+    imageKey,
+    thumbnailKey,
+    contentHash: crypto.createHash('sha256').update(image).digest('hex'),
+    sizeBytes: image.length,
+    mimeType,
+  };
+}
+
+/**
+ * The image of a receipt captured before blob storage and not yet moved
+ */
+async function readUnmovedReceiptImage(receipt: SessionReceipt): Promise<Buffer | null> {
+  const unmoved = await getUnmovedSessionReceipt(receipt.id);
+  return unmoved ? decodeImageData(unmoved.imageData) : null;
+}
+
+/**
+ * Stream a receipt's image or thumbnail, or null if it has none
+ * Receipts not yet moved to blob storage have their image but no thumbnail
+ */
+export async function openReceiptImage(
+  receipt: SessionReceipt,
+  variant: ReceiptImageVariant = 'image'
+): Promise<{ stream: Readable; contentType: string } | null> {
+  if (variant === 'image' && !receipt.imageKey) {
+    const image = await readUnmovedReceiptImage(receipt);
+    return image ? { stream: Readable.from([image]), contentType: receipt.mimeType } : null;
+  }
+
+  const key = variant === 'thumbnail' ? receipt.thumbnailKey : receipt.imageKey;
+  if (!key) return null;
+
+  const stream = await getBlobStore().get(key);
+  if (!stream) return null;
+
+  return { stream, contentType: variant === 'thumbnail' ? 'image/jpeg' : receipt.mimeType };
+}
+
+/**
+ * Read a receipt's whole image, e.g. for OCR, or null if it has none
+ */
+export async function readReceiptImage(receipt: SessionReceipt): Promise<Buffer | null> {
+  return receipt.imageKey ? readBlob(getBlobStore(), receipt.imageKey) : readUnmovedReceiptImage(receipt);
+}
+
+/**
+ * Remove the blobs written by saveReceiptImage
+ */
+export async function deleteReceiptImage(image: Pick<StoredReceiptImage, 'imageKey' | 'thumbnailKey'>): Promise<void> {
+  const store = getBlobStore();
+  await store.delete(image.imageKey);
+  if (image.thumbnailKey) {
+    await store.delete(image.thumbnailKey);
+  }
+}
+
+/**
+ * Record a receipt whose image saveReceiptImage just wrote, removing the
+ * blobs again if it can't be recorded (e.g. its session was deleted meanwhile)
+ */
+export async function recordReceiptImage<T>(stored: StoredReceiptImage, record: () => Promise<T>): Promise<T> {
+  try {
+    return await record();
+  } catch (error) {
+    await deleteReceiptImage(stored).catch((deleteError) => {
+      console.error(`[ReceiptImages] Failed to remove orphaned ${stored.imageKey}:`, deleteError);
+    });
+    throw error;
+  }
+}
+
+// ============================================================================
+// Uploaded Images
+// ============================================================================
+
+/**
+ * Tell an image's type from its first bytes, or null if it isn't one we take
+ * Clients' Content-Type and mimeType fields are not trusted
+ */
+export function sniffImageType(data: Buffer): UploadedImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ftypBrands(data).some((brand) => HEIC_BRANDS.has(brand))) {
+    return 'image/heic';
+  }
+  return null;
+}
+
+/**
+ * The major and compatible brands in an ISO base media file's ftyp box, or
+ * none if the file doesn't start with one
+ */
+function ftypBrands(data: Buffer): string[] {
+  if (data.length < 16 || data.toString('latin1', 4, 8) !== 'ftyp') return [];
+
+  // Box size, type, major brand, minor version, then compatible brands
+  const end = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(data.toString('latin1', offset, offset + 4));
+  }
+  return brands;
+}
+
+/**
+ * Get an uploaded image ready to store and scan: HEIC is converted to JPEG
+ * and photos with an EXIF orientation are turned upright. Other images are
+ * kept byte for byte
+ * Throws if the image can't be decoded
+ */
+export async function prepareUploadedImage(data: Buffer, type: UploadedImageType): Promise<UploadedImage> {
+  if (type === 'image/heic') {
+    // Sharp's prebuilt libheif only decodes AVIF, so HEVC goes through
+    // libheif's WebAssembly build, which applies the image's rotation itself
+    const { width, height, data: pixels } = await decodeHeic({ buffer: data });
+    const jpeg = await Sharp(Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength), {
+      raw: { width, height, channels: 4 },
+    })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+    return { data: jpeg, mimeType: 'image/jpeg' };
+  }
+
+  const { orientation = 1 } = await Sharp(data).metadata();
+  if (orientation === 1) {
+    return { data, mimeType: type };
+  }
+
+  // rotate() with no angle applies the EXIF orientation and drops the tag
+  const upright = await Sharp(data).rotate().toBuffer();
+  return { data: upright, mimeType: type };
+}
+
+// ============================================================================
+// Moving Images Out of the Database
+// ============================================================================
+
+/**
+ * Move every receipt image still stored in the database to blob storage,
+ * a batch at a time. Safe to re-run: moved receipts are skipped
+ * Returns the number of receipts moved
+ */
+export async function moveReceiptImagesToBlobStore(batchSize: number = 50): Promise<number> {
+  let moved = 0;
+
+  for (;;) {
+    const receipts = await listUnmovedSessionReceipts(batchSize);
+    if (receipts.length === 0) return moved;
+
+    for (const receipt of receipts) {
+      const stored = await saveReceiptImage(receipt.sessionId, decodeImageData(receipt.imageData), receipt.mimeType);
+
+      if (await moveSessionReceiptImage(receipt.id, stored)) {
+        moved++;
+      } else {
+        // Moved by someone else meanwhile
+        await deleteReceiptImage(stored);
+      }
+    }
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Receipt Job Worker
+ * Scans queued receipt images off the request path, a few at a time
+ *
+ * Jobs are claimed from the receipt_jobs table, so several server instances
+ * can share the queue. A failed run is retried with exponential backoff until
+ * the job runs out of attempts; it then stays FAILED for the admin API.
+ * A receipt scan is reserved against the monthly limit when its job is
+ * submitted and given back if the job fails for good.
+ * Receipts captured for a shopping session are queued too: the header read
+ * off them is saved on the receipt, dating the session by purchase.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  createReceiptJob,
+  getReceiptJob,
+  claimReceiptJobs,
+  completeReceiptJob,
+  failReceiptJob,
+  retryReceiptJob,
+  saveSessionReceiptHeader,
+} from '../db/operations';
+import { ReceiptJob, ClaimedReceiptJob, SessionReceiptTarget } from '../models/receiptJob';
+import { scanReceiptImage, ReceiptScanResult } from './receiptOcr';
+import { reserveReceiptScan, releaseReceiptScan, restoreReceiptScan } from './subscription';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Scans run at once by this instance; 0 leaves the queue to other instances */
+const RECEIPT_JOB_CONCURRENCY = parseInt(process.env.RECEIPT_JOB_CONCURRENCY || '2', 10);
+const RECEIPT_JOB_MAX_ATTEMPTS = parseInt(process.env.RECEIPT_JOB_MAX_ATTEMPTS || '3', 10);
+const RECEIPT_JOB_POLL_MS = parseInt(process.env.RECEIPT_JOB_POLL_MS || '2000', 10);
+const RECEIPT_JOB_RETRY_BASE_MS = parseInt(process.env.RECEIPT_JOB_RETRY_BASE_MS || '5000', 10);
+
+// Longest wait between retries
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// A run still going after this is taken to be dead and claimed again
+const LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Wait before retrying a job whose run number `attempt` failed: base, 2x, 4x, ...
+ */
+export function retryDelay(attempt: number, baseMs: number = RECEIPT_JOB_RETRY_BASE_MS): number {
+  return Math.min(baseMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function isFinishedJob(job: ReceiptJob): boolean {
+  return job.status === 'SUCCEEDED' || job.status === 'FAILED';
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+export interface ReceiptJobWorkerOptions {
+  concurrency: number;
+  pollMs: number;
+  retryBaseMs: number;
+  leaseMs: number;
+}
+
+const DEFAULT_OPTIONS: ReceiptJobWorkerOptions = {
+  concurrency: RECEIPT_JOB_CONCURRENCY,
+  pollMs: RECEIPT_JOB_POLL_MS,
+  retryBaseMs: RECEIPT_JOB_RETRY_BASE_MS,
+  leaseMs: LEASE_MS,
+};
+
+/**
+ * Claims due jobs, up to its concurrency, and scans them
+ * Every change to a job is emitted as an event named by the job's ID
+ */
+export class ReceiptJobWorker extends EventEmitter {
+  private readonly options: ReceiptJobWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = 0;
+  private claiming = false;
+
+  constructor(options: Partial<ReceiptJobWorkerOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.timer || this.options.concurrency <= 0) return;
+
+    this.timer = setInterval(() => void this.poll(), this.options.pollMs);
+    this.timer.unref();
+    void this.poll();
+  }
+
+  /**
+   * Stop claiming jobs; scans already running finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Claim and start as many due jobs as there are free slots
+   * Resolves once they have started, not finished
+   */
+  async poll(): Promise<void> {
+    const free = this.options.concurrency - this.running;
+    if (this.claiming || free <= 0) return;
+
+    this.claiming = true;
+    let jobs: ClaimedReceiptJob[];
+    try {
+      jobs = await claimReceiptJobs(free, this.options.leaseMs);
+    } catch (error) {
+      console.error('[ReceiptJobs] Failed to claim jobs:', error);
+      return;
+    } finally {
+      this.claiming = false;
+    }
+
+    for (const job of jobs) {
+      this.running++;
+      this.publish(job);
+      void this.run(job).finally(() => {
+        this.running--;
+        // A slot is free: take the next job without waiting for the timer
+        if (this.timer) void this.poll();
+      });
+    }
+  }
+
+  /**
+   * Run one claimed job to success, a retry or failure
+   */
+  async run(job: ClaimedReceiptJob): Promise<void> {
+    try {
+      // Claimed again after its lease ran out on every attempt
+      if (job.attempts > job.maxAttempts) {
+        await this.fail(job, 'Scan did not finish');
+        return;
+      }
+
+      let result: ReceiptScanResult;
+      try {
+        result = await scanReceiptImage(job.imageData);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const retryAt = job.attempts < job.maxAttempts
+          ? new Date(Date.now() + retryDelay(job.attempts, this.options.retryBaseMs)).toISOString()
+          : undefined;
+        await this.fail(job, message, retryAt);
+        return;
+      }
+
+      const completed = await completeReceiptJob(job.id, result);
+      if (!completed) return;
+
+      // Null when the session or receipt was deleted while the job waited
+      if (job.sessionReceipt) {
+        const { ownerId, sessionId, receiptId } = job.sessionReceipt;
+        await saveSessionReceiptHeader(ownerId, sessionId, receiptId, result.header);
+      }
+
+      this.publish(completed);
+    } catch (error) {
+      console.error(`[ReceiptJobs] Job ${job.id} error:`, error);
+    }
+  }
+
+  /**
+   * Fail a run, to be retried at retryAt or for good; a job failed for good
+   * gives back the scan reserved when it was submitted
+   */
+  private async fail(job: ClaimedReceiptJob, message: string, retryAt?: string): Promise<void> {
+    const failed = await failReceiptJob(job.id, message, retryAt);
+    this.publish(failed);
+
+    if (failed?.status === 'FAILED') {
+      await releaseReceiptScan(failed.userId, failed.createdAt);
+    }
+  }
+
+  private publish(job: ReceiptJob | null): void {
+    if (!job) return;
+    // Never hand the image to listeners
+    const { imageData: _imageData, ...rest } = job as ClaimedReceiptJob;
+    this.emit(job.id, rest);
+  }
+}
+
+/**
+ * Singleton worker instance
+ */
+let worker: ReceiptJobWorker | null = null;
+
+/**
+ * Get or create the receipt job worker (singleton pattern)
+ */
+export function getReceiptJobWorker(): ReceiptJobWorker {
+  if (!worker) {
+    worker = new ReceiptJobWorker();
+  }
+  return worker;
+}
+
+// ============================================================================
+// Submitting and Watching Jobs
+// ============================================================================
+
+/**
+ * Reserve one of the user's receipt scans, queue the image and nudge the
+ * worker, if this instance runs one
+ * Returns null, queuing nothing, when the user has no scans left this month
+ */
+export async function submitReceiptJob(
+  userId: string,
+  imageData: string,
+  sessionReceipt?: SessionReceiptTarget
+): Promise<ReceiptJob | null> {
+  const reservedAt = new Date().toISOString();
+  const reservation = await reserveReceiptScan(userId);
+  if (!reservation.allowed) return null;
+
+  let job: ReceiptJob;
+  try {
+    job = await createReceiptJob(userId, imageData, RECEIPT_JOB_MAX_ATTEMPTS, sessionReceipt);
+  } catch (error) {
+    await releaseReceiptScan(userId, reservedAt);
+    throw error;
+  }
+
+  const jobWorker = getReceiptJobWorker();
+  if (jobWorker.isRunning) void jobWorker.poll();
+  return job;
+}
+
+/**
+ * Queue a receipt just captured for a shopping session to have its header
+ * read, using one of the user's receipt scans
+ * The receipt is already stored, so this never throws: it is left unread
+ * (null) when the user has no scans left or the job can't be queued
+ */
+export async function queueReceiptHeaderRead(
+  userId: string,
+  image: Buffer,
+  sessionReceipt: SessionReceiptTarget
+): Promise<ReceiptJob | null> {
+  try {
+    return await submitReceiptJob(userId, image.toString('base64'), sessionReceipt);
+  } catch (error) {
+    console.error(`[ReceiptJobs] Failed to queue receipt ${sessionReceipt.receiptId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Queue a FAILED job again with a fresh set of attempts, counting the scan
+ * it gave back when it failed in the month it was given back to (the month
+ * the job was submitted), so failing again refunds the same month; null if
+ * there is no such failed job
+ * Retries are an admin decision, so the monthly limit isn't checked
+ */
+export async function requeueReceiptJob(id: string): Promise<ReceiptJob | null> {
+  const job = await retryReceiptJob(id);
+  if (!job) return null;
+
+  await restoreReceiptScan(job.userId, job.createdAt);
+
+  const jobWorker = getReceiptJobWorker();
+  if (jobWorker.isRunning) void jobWorker.poll();
+  return job;
+}
+
+/**
+ * Call listener with each change to a job until it finishes
+ * Changes come from this instance's worker and, for jobs run by other
+ * instances, from re-reading the job every poll interval
+ * Returns a function that stops watching
+ */
+export function watchReceiptJob(
+  job: ReceiptJob,
+  listener: (job: ReceiptJob) => void
+): () => void {
+  const jobWorker = getReceiptJobWorker();
+  const version = (current: ReceiptJob) => `${current.status}:${current.attempts}:${current.updatedAt}`;
+  let lastVersion = version(job);
+
+  const onChange = (next: ReceiptJob) => {
+    if (version(next) === lastVersion) return;
+    lastVersion = version(next);
+    listener(next);
+    if (isFinishedJob(next)) stop();
+  };
+
+  const timer = setInterval(() => {
+    getReceiptJob(job.id, job.userId)
+      .then((next) => next && onChange(next))
+      .catch((error) => console.error(`[ReceiptJobs] Failed to read job ${job.id}:`, error));
+  }, RECEIPT_JOB_POLL_MS);
+
+  const stop = () => {
+    clearInterval(timer);
+    jobWorker.off(job.id, onChange);
+  };
+
+  jobWorker.on(job.id, onChange);
+  return stop;
+}
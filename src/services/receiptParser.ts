@@ -0,0 +1,601 @@
+/**
+ * Receipt Parser
+ * Turns OCR text into receipt items, with store profiles for store-specific rules
+ *
+ * The store is detected from the receipt header and picks a profile: its
+ * abbreviation dictionary ("GV WHL MLK" is "Great Value Whole Milk"), item
+ * number format and discount lines. Every profile also gets the generic rules:
+ * names and prices split over two lines, weighted produce
+ * (`1.23 lb @ 0.99/lb`), multiples (`2 @ 1.99`), coupons and discounts.
+ * Date, subtotal, tax, total and payment lines go into the receipt header.
+ */
+
+import { ReceiptHeader, ReceiptPaymentMethod } from '../models/shoppingSession';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReceiptItem {
+  name: string;
+  barcode?: string;
+  /** Store item number (e.g. Costco), used to match discounts to items */
+  itemCode?: string;
+  quantity: number;
+  unit?: string;
+  category?: string;
+  /** Amount charged for the line, after discounts */
+  price?: number;
+  /** Coupons and discounts taken off the line */
+  discount?: number;
+  confidence?: number;
+}
+
+/**
+ * Items and header details read from a receipt's text
+ */
+export interface ParsedReceipt {
+  items: ReceiptItem[];
+  store?: string;
+  /** ID of the store profile the receipt was parsed with */
+  storeProfile: string;
+  total?: number;
+  header: ReceiptHeader;
+}
+
+/**
+ * Store-specific parsing rules
+ */
+export interface StoreProfile {
+  /** Stable identifier, e.g. 'walmart' */
+  id: string;
+  /** Store name reported on scans */
+  name: string;
+  /** Matches the store's name in the receipt header */
+  storePattern: RegExp;
+  /** Receipt abbreviations (upper case) and what they stand for */
+  abbreviations: Record<string, string>;
+  /** Item number printed before the name, captured in group 1 */
+  itemCodePattern?: RegExp;
+  /** Discount lines beyond the generic ones; group 1 may capture the item number discounted */
+  discountPattern?: RegExp;
+  /** Store-specific cleanup run on each line before parsing */
+  cleanLine?: (line: string) => string;
+}
+
+// ============================================================================
+// Categories and Quantities
+// ============================================================================
+
+// Common grocery categories for auto-detection
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  produce: ['apple', 'banana', 'orange', 'lettuce', 'tomato', 'onion', 'potato', 'carrot', 'broccoli', 'spinach', 'pepper', 'cucumber', 'grape', 'strawberry', 'blueberry', 'melon', 'watermelon', 'peach', 'pear', 'plum', 'cherry', 'avocado', 'lemon', 'lime', 'garlic', 'ginger', 'mushroom', 'celery', 'asparagus', 'corn', 'cabbage', 'cauliflower'],
+  dairy: ['milk', 'cheese', 'yogurt', 'butter', 'cream', 'egg', 'eggs', 'sour cream', 'cottage cheese', 'cream cheese', 'whipped cream', 'half and half', 'buttermilk', 'cheddar', 'mozzarella', 'parmesan', 'brie', 'feta'],
+  meat: ['chicken', 'beef', 'pork', 'turkey', 'sausage', 'bacon', 'ham', 'steak', 'ground beef', 'ribs', 'lamb', 'venison', 'salami', 'pepperoni', 'hot dog', 'bratwurst'],
+  frozen: ['frozen', 'ice cream', 'pizza', 'microwave', 'tv dinner', 'fries', 'frozen vegetables', 'frozen fruit', 'popsicle', 'waffle', 'breakfast sandwich'],
+  beverages: ['water', 'soda', 'juice', 'coffee', 'tea', 'beer', 'wine', 'soda', 'pop', 'coke', 'pepsi', 'sprite', 'dr pepper', 'mountain dew', 'energy drink', 'sports drink', 'gatorade', 'powerade', 'red bull', 'monster'],
+  pantry: ['pasta', 'rice', 'bread', 'cereal', 'flour', 'sugar', 'salt', 'oil', 'vinegar', 'sauce', 'soup', 'can', 'canned', 'jar', 'box', 'chip', 'cracker', 'cookie', 'snack', 'nut', 'dried fruit', 'honey', 'jam', 'jelly', 'peanut butter', 'oatmeal', 'granola', 'tortilla', 'pita'],
+  snacks: ['chip', 'cracker', 'cookie', 'candy', 'chocolate', 'popcorn', 'pretzel', 'nut', 'trail mix', 'granola bar', 'protein bar', 'jerky', 'gum', 'mint'],
+};
+
+function detectCategory(itemName: string): string {
+  const lowerName = itemName.toLowerCase();
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (keywords.some(kw => lowerName.includes(kw))) {
+      return category;
+    }
+  }
+  return 'other';
+}
+
+function parseQuantity(text: string): { quantity: number; unit: string } {
+  // Look for patterns like "2x", "3 units", "1.5 lbs", "16 oz"
+  // Units end at a word boundary so pack sizes like "1GAL" aren't read as grams
+  const patterns = [
+    { regex: /(\d+\.?\d*)?\s*x?\s*(\d+\.?\d*)\s*(lbs?|pounds?|lb)\b/i, unit: 'lbs' },
+    { regex: /(\d+\.?\d*)\s*(oz|ounces?)\b/i, unit: 'oz' },
+    { regex: /(\d+\.?\d*)\s*(g|grams?)\b/i, unit: 'grams' },
+    { regex: /(\d+\.?\d*)\s*(kg|kilos?)\b/i, unit: 'kg' },
+    { regex: /(\d+\.?\d*)\s*(cups?)\b/i, unit: 'cups' },
+    { regex: /(\d+\.?\d*)\s*(bottles?)\b/i, unit: 'bottles' },
+    { regex: /(\d+\.?\d*)\s*(cans?)\b/i, unit: 'cans' },
+    { regex: /(\d+\.?\d*)\s*(boxes?)\b/i, unit: 'boxes' },
+    { regex: /(\d+\.?\d*)\s*(bags?)\b/i, unit: 'bags' },
+    { regex: /(\d+)\s*x\s*(\d+)/i, multiplier: true },
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern.regex);
+    if (match) {
+      if ('multiplier' in pattern && pattern.multiplier) {
+        const qty = parseInt(match[1]) * parseInt(match[2]);
+        return { quantity: qty, unit: 'units' };
+      }
+      const qty = parseFloat(match[1] || match[2] || '1');
+      return { quantity: qty, unit: pattern.unit || 'units' };
+    }
+  }
+
+  // Default: look for any number
+  const numberMatch = text.match(/(\d+)/);
+  if (numberMatch) {
+    return { quantity: parseInt(numberMatch[1]), unit: 'units' };
+  }
+
+  return { quantity: 1, unit: 'units' };
+}
+
+// ============================================================================
+// Store Profiles
+// ============================================================================
+
+// Abbreviations common to most receipts
+const GENERIC_ABBREVIATIONS: Record<string, string> = {
+  WHL: 'Whole',
+  MLK: 'Milk',
+  ORG: 'Organic',
+  BNLS: 'Boneless',
+  SKNLS: 'Skinless',
+  CHKN: 'Chicken',
+  BRST: 'Breast',
+  GRND: 'Ground',
+  BF: 'Beef',
+  YGRT: 'Yogurt',
+  CHS: 'Cheese',
+  SHRD: 'Shredded',
+  BTR: 'Butter',
+  BRD: 'Bread',
+  WHT: 'Wheat',
+  VEG: 'Vegetable',
+  FRZ: 'Frozen',
+  BNNS: 'Bananas',
+  STRWBRY: 'Strawberries',
+  TOM: 'Tomato',
+  POT: 'Potato',
+  OJ: 'Orange Juice',
+  PNT: 'Peanut',
+  LG: 'Large',
+  SM: 'Small',
+  PK: 'Pack',
+};
+
+/**
+ * Fallback for stores without a profile
+ */
+export const GENERIC_STORE_PROFILE: StoreProfile = {
+  id: 'generic',
+  name: 'Generic',
+  storePattern: /(?!)/,
+  abbreviations: {},
+};
+
+const WALMART_PROFILE: StoreProfile = {
+  id: 'walmart',
+  name: 'Walmart',
+  storePattern: /\bwal[\s\-*]?mart\b/i,
+  abbreviations: {
+    GV: 'Great Value',
+    MM: "Member's Mark",
+    MKTSD: 'Marketside',
+    FRSH: 'Fresh',
+  },
+  // Drop the one-letter SNAP/tax code printed before the price ("... F 3.48")
+  cleanLine: (line) => line.replace(/\s[A-Z]{1,2}\s+(?=\$?[\d,]+\.\d{2}\b)/, ' '),
+};
+
+const COSTCO_PROFILE: StoreProfile = {
+  id: 'costco',
+  name: 'Costco',
+  storePattern: /\bcostco\b/i,
+  abbreviations: {
+    KS: 'Kirkland Signature',
+    KIRK: 'Kirkland',
+    RTSRE: 'Rotisserie',
+    EVOO: 'Extra Virgin Olive Oil',
+  },
+  // "E 1234567 KS WATER 40PK 4.99": optional E flag, then the item number
+  itemCodePattern: /^(?:E\s+)?(\d{4,7})\s+/,
+  // Instant savings: "TPD/1234567 3.00-" or "/1234567 3.00-"
+  discountPattern: /^(?:TPD\s*)?\/\s*(\d{4,7})\b/i,
+};
+
+const storeProfiles: StoreProfile[] = [WALMART_PROFILE, COSTCO_PROFILE];
+
+/**
+ * Add a store profile, replacing one with the same ID
+ */
+export function registerStoreProfile(profile: StoreProfile): void {
+  const index = storeProfiles.findIndex((existing) => existing.id === profile.id);
+  if (index >= 0) {
+    storeProfiles[index] = profile;
+  } else {
+    storeProfiles.push(profile);
+  }
+}
+
+/**
+ * IDs of the registered store profiles
+ */
+export function listStoreProfiles(): string[] {
+  return storeProfiles.map((profile) => profile.id);
+}
+
+/**
+ * The profile for a store name, or the generic profile
+ */
+export function findStoreProfile(store?: string): StoreProfile {
+  return (store && storeProfiles.find((profile) => profile.storePattern.test(store))) || GENERIC_STORE_PROFILE;
+}
+
+// ============================================================================
+// Line Parsing
+// ============================================================================
+
+// Header lines searched for a known store
+const HEADER_LINES = 5;
+
+// Lines that are never items
+const SKIP_LINE = /^(subtotal|tax|total|balance|paid|change|thank|cashi?er|date|time|phone|address|www\.|http|visa|mastercard|amex|debit|credit|cash|tend)/i;
+const DATE_LINE = /^\d{1,2}[/-]\d{1,2}[/-]\d{2,4}/;
+
+// Coupon and discount lines, and amounts printed as negative ("1.00-", "-1.00")
+const DISCOUNT_LINE = /^(?:mfr\s+|store\s+|digital\s+)?(?:coupon|discount|savings|instant\s+savings|promo|markdown)\b/i;
+const NEGATIVE_AMOUNT = /-\s*\$?(\d+\.\d{2})\b|\$?(\d+\.\d{2})\s*-(?=\s|$)/;
+
+// Tax flag printed after the price ("3.48 N")
+const TRAILING_FLAG = /(\.\d{2})\s+[A-Z]{1,2}$/;
+
+const PRICE = /\$?([\d,]+\.\d{2})\b/g;
+const BARCODE = /\b(\d{8,14})\b/;
+
+// "2.35 lb @ 0.59/lb" or "2.35 lb @ 1 lb /0.59"
+const WEIGHED = /(\d+(?:\.\d+)?)\s*(lbs?|kg|oz)\s*@\s*(?:1\s*(?:lbs?|kg|oz)\s*\/\s*)?\$?(\d+(?:\.\d+)?)(?:\s*\/\s*(?:lbs?|kg|oz)\b)?/i;
+// "2 @ 1.99"
+const MULTIPLE = /\b(\d+)\s*@\s*\$?(\d+\.\d{2})(?:\s*(?:ea|each)\b)?/i;
+
+// Amounts this close are the same charge
+const AMOUNT_TOLERANCE = 0.01;
+
+// Purchase detail lines
+const SUBTOTAL_LINE = /^sub[\s-]*total\b/i;
+const TAX_LINE = /^(?:sales\s+)?tax\s*\d?\b|^(?:gst|hst|pst|vat)\b/i;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const US_DATE = /\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/;
+const TIME = /\b(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([ap])\.?m\b\.?)?/i;
+const CARD_LAST4 = /(?:[*xX#]{4,}\s*|\bending\s+in\s+)(\d{4})\b/i;
+
+// Card brands first: "VISA CREDIT" was paid by Visa
+const PAYMENT_METHODS: Array<[RegExp, ReceiptPaymentMethod]> = [
+  [/\bvisa\b/i, 'VISA'],
+  [/\bmaster\s*card\b/i, 'MASTERCARD'],
+  [/\bamex\b|\bamerican\s+express\b/i, 'AMEX'],
+  [/\bdiscover\b/i, 'DISCOVER'],
+  [/\bebt\b/i, 'EBT'],
+  [/\bgift\s*card\b/i, 'GIFT_CARD'],
+  [/\bdebit\b/i, 'DEBIT'],
+  [/\bcredit\b/i, 'CREDIT'],
+  [/^cash\b/i, 'CASH'],
+];
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Last amount on a line (the line total sits rightmost)
+ */
+function lastPrice(text: string): number | undefined {
+  const matches = [...text.matchAll(PRICE)];
+  if (matches.length === 0) return undefined;
+  return parseFloat(matches[matches.length - 1][1].replace(/,/g, ''));
+}
+
+/**
+ * What's left of a line once amounts, a leading count and stray symbols are gone
+ * Empty when nothing name-like is left
+ */
+function cleanName(text: string): string {
+  const name = text
+    .replace(/\$?[\d,]+\.\d{2}-?/g, ' ')
+    .replace(/^\d+\s+/, '')
+    .replace(/[@*#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return /[a-z]{2}/i.test(name) ? name : '';
+}
+
+function expandAbbreviations(name: string, abbreviations: Record<string, string>): string {
+  return name
+    .split(' ')
+    .map((token) => abbreviations[token.toUpperCase()] ?? token)
+    .join(' ');
+}
+
+function normalizeWeightUnit(unit: string): string {
+  return unit.toLowerCase().startsWith('lb') ? 'lb' : unit.toLowerCase();
+}
+
+/**
+ * The store named in the receipt header and its profile
+ * Returns the index of the header line naming the store, which isn't an item
+ */
+function detectStore(lines: string[]): { store?: string; profile: StoreProfile; headerLine: number } {
+  const header = lines.slice(0, HEADER_LINES);
+
+  for (const profile of storeProfiles) {
+    const index = header.findIndex((line) => profile.storePattern.test(line));
+    if (index >= 0) {
+      return { store: profile.name, profile, headerLine: index };
+    }
+  }
+
+  // Unknown store: a plain name on the first line
+  const storeMatch = lines[0]?.match(/^([A-Z][A-Za-z0-9\s&]+)$/);
+  const store = storeMatch ? storeMatch[1].trim() : undefined;
+  return { store, profile: findStoreProfile(store), headerLine: store ? 0 : -1 };
+}
+
+// ============================================================================
+// Header Parsing
+// ============================================================================
+
+/**
+ * The payment method a line names, if it's a payment line
+ */
+function paymentMethod(line: string): ReceiptPaymentMethod | undefined {
+  return PAYMENT_METHODS.find(([pattern]) => pattern.test(line))?.[1];
+}
+
+/**
+ * Purchase date as YYYY-MM-DD; US receipts print month first
+ */
+function parseDate(line: string): string | undefined {
+  let year: number, month: number, day: number;
+  const iso = line.match(ISO_DATE);
+  const us = iso ? null : line.match(US_DATE);
+
+  if (iso) {
+    [year, month, day] = [iso[1], iso[2], iso[3]].map(Number);
+  } else if (us) {
+    [month, day, year] = [us[1], us[2], us[3]].map(Number);
+    if (year < 100) year += 2000;
+  } else {
+    return undefined;
+  }
+
+  // Reject impossible dates (13/45/24, 02/30/24)
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+}
+
+function parseTime(line: string): string | undefined {
+  const match = line.match(TIME);
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Read the purchase details printed around the item lines
+ */
+function parseHeader(lines: string[], rawText: string, discounts: number): ReceiptHeader {
+  const header: ReceiptHeader = {};
+
+  for (const line of lines) {
+    header.date ??= parseDate(line);
+    header.time ??= parseTime(line);
+    header.cardLast4 ??= line.match(CARD_LAST4)?.[1];
+
+    if (SUBTOTAL_LINE.test(line)) {
+      header.subtotal ??= lastPrice(line);
+    } else if (TAX_LINE.test(line)) {
+      const tax = lastPrice(line);
+      if (tax !== undefined) header.tax = roundMoney((header.tax || 0) + tax);
+    } else if (!header.paymentMethod) {
+      header.paymentMethod = paymentMethod(line);
+    }
+  }
+
+  // The TOTAL line; SUBTOTAL only when there is none
+  const totalMatch = rawText.match(/^\s*total[\s:$]*([\d,]+\.\d{2})/im) || rawText.match(/total[\s:$]*([\d,]+\.\d{2})/i);
+  header.total = totalMatch ? parseFloat(totalMatch[1].replace(/,/g, '')) : undefined;
+
+  if (discounts > 0) header.discounts = roundMoney(discounts);
+
+  // A missing tax line is no tax
+  if (header.subtotal !== undefined && header.total !== undefined) {
+    header.totalMismatch = Math.abs(header.subtotal + (header.tax || 0) - header.total) > AMOUNT_TOLERANCE;
+  }
+
+  return header;
+}
+
+/**
+ * When the receipt was paid, in the store's local time as printed: an ISO
+ * date-time with no offset (2026-10-02T17:45:00), or just the date when no
+ * time is printed. The store's time zone isn't known, so none is assumed
+ */
+export function purchaseTimestamp(header: ReceiptHeader): string | undefined {
+  if (!header.date) return undefined;
+  return header.time ? `${header.date}T${header.time}:00` : header.date;
+}
+
+// ============================================================================
+// Receipt Parsing
+// ============================================================================
+
+/**
+ * Parse OCR text into receipt items with the detected store's profile
+ */
+export function parseReceiptText(rawText: string): ParsedReceipt {
+  const lines = rawText
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 2);
+
+  const { store, profile, headerLine } = detectStore(lines);
+  const abbreviations = { ...GENERIC_ABBREVIATIONS, ...profile.abbreviations };
+
+  const items: ReceiptItem[] = [];
+  // Items whose weight came from a weight line
+  const weighed = new Set<ReceiptItem>();
+  // A name line still waiting for its price line
+  let pending: { name: string; barcode?: string; itemCode?: string } | null = null;
+  // A weight line still waiting for its name line
+  let pendingWeight: { quantity: number; unit: string; price: number } | null = null;
+  let discounts = 0;
+
+  const addItem = (rawName: string, fields: Partial<ReceiptItem>): ReceiptItem => {
+    const name = expandAbbreviations(rawName, abbreviations);
+    const { quantity, unit } = parseQuantity(rawName);
+    const item: ReceiptItem = {
+      name,
+      quantity,
+      unit,
+      category: detectCategory(name),
+      ...fields,
+    };
+    items.push(item);
+    return item;
+  };
+
+  // An unfinished name line becomes an unpriced item
+  const flushPending = () => {
+    if (pending) {
+      addItem(pending.name, { barcode: pending.barcode, itemCode: pending.itemCode });
+      pending = null;
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (index <= headerLine) return;
+
+    if (SKIP_LINE.test(line) || DATE_LINE.test(line) || paymentMethod(line) || CARD_LAST4.test(line)) {
+      flushPending();
+      return;
+    }
+
+    let text = line.replace(TRAILING_FLAG, '$1');
+    if (profile.cleanLine) text = profile.cleanLine(text);
+
+    // Coupons and discounts come off the item they name, or the one before
+    const profileDiscount = profile.discountPattern?.exec(text);
+    const negative = text.match(NEGATIVE_AMOUNT);
+    if (profileDiscount || negative || DISCOUNT_LINE.test(text)) {
+      const amount = negative ? parseFloat(negative[1] || negative[2]) : lastPrice(text);
+      flushPending();
+      const code = profileDiscount?.[1];
+      const target = code ? items.find((item) => item.itemCode === code) : items[items.length - 1];
+      if (amount !== undefined) discounts += amount;
+      if (amount !== undefined && target) {
+        target.discount = roundMoney((target.discount || 0) + amount);
+        if (target.price !== undefined) target.price = roundMoney(Math.max(0, target.price - amount));
+      }
+      return;
+    }
+
+    // Pull out a printed barcode (8-14 digits) so it isn't read as a quantity
+    const barcodeMatch = text.match(BARCODE);
+    const barcode = barcodeMatch ? barcodeMatch[1] : undefined;
+    if (barcodeMatch) text = text.replace(barcodeMatch[0], ' ');
+
+    const codeMatch = profile.itemCodePattern ? text.match(profile.itemCodePattern) : null;
+    const itemCode = codeMatch ? codeMatch[1] : undefined;
+    if (codeMatch) text = text.slice(codeMatch[0].length);
+
+    // Weighted produce
+    const weight = text.match(WEIGHED);
+    if (weight) {
+      const quantity = parseFloat(weight[1]);
+      const unit = normalizeWeightUnit(weight[2]);
+      const after = text.slice(weight.index! + weight[0].length);
+      const price = lastPrice(after) ?? roundMoney(quantity * parseFloat(weight[3]));
+      const name = cleanName(text.slice(0, weight.index));
+      const last = items[items.length - 1];
+
+      if (name) {
+        flushPending();
+        weighed.add(addItem(name, { barcode, itemCode, quantity, unit, price }));
+      } else if (pending) {
+        weighed.add(addItem(pending.name, { barcode: pending.barcode, itemCode: pending.itemCode, quantity, unit, price }));
+        pending = null;
+      } else if (last && !weighed.has(last) && (last.price === undefined || Math.abs(last.price - price) <= AMOUNT_TOLERANCE)) {
+        // Weight printed under an item already priced
+        last.quantity = quantity;
+        last.unit = unit;
+        last.price ??= price;
+        weighed.add(last);
+      } else {
+        pendingWeight = { quantity, unit, price };
+      }
+      return;
+    }
+
+    // Multiples: the count, with the line total computed when it isn't printed
+    let quantity: number | undefined;
+    let price: number | undefined;
+    const multiple = text.match(MULTIPLE);
+    if (multiple) {
+      quantity = parseInt(multiple[1], 10);
+      text = text.replace(multiple[0], ' ');
+      price = lastPrice(text) ?? roundMoney(quantity * parseFloat(multiple[2]));
+    } else {
+      price = lastPrice(text);
+    }
+
+    // A leading count ("2 MILK 3.49")
+    const count = text.trim().match(/^(\d{1,2})\s+(?=[a-z])/i);
+    if (count && quantity === undefined) quantity = parseInt(count[1], 10);
+
+    const name = cleanName(text);
+
+    if (!name) {
+      // A price line finishing the name line above it
+      if (price === undefined) return;
+      const last = items[items.length - 1];
+      if (pending) {
+        addItem(pending.name, { barcode: pending.barcode, itemCode: pending.itemCode, price, ...(quantity ? { quantity } : {}) });
+        pending = null;
+      } else if (last && last.price === undefined) {
+        last.price = price;
+        if (quantity) last.quantity = quantity;
+      }
+      return;
+    }
+
+    flushPending();
+
+    if (price === undefined) {
+      pending = { name, barcode, itemCode };
+      return;
+    }
+
+    const item = addItem(name, { barcode, itemCode, price, ...(quantity ? { quantity } : {}) });
+    if (pendingWeight) {
+      item.quantity = pendingWeight.quantity;
+      item.unit = pendingWeight.unit;
+      weighed.add(item);
+      pendingWeight = null;
+    }
+  });
+
+  flushPending();
+
+  const header = parseHeader(lines, rawText, discounts);
+
+  return {
+    items,
+    store,
+    storeProfile: profile.id,
+    total: header.total,
+    header,
+  };
+}
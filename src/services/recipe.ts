@@ -0,0 +1,278 @@
+/**
+ * Recipe Service
+ * Ingredient parsing, schema.org Recipe import and pantry matching
+ */
+
+import { PantryItem } from '../models/types';
+import { Recipe, RecipeIngredient, RecipeMatch, MatchedIngredient } from '../models/recipe';
+import { CreateRecipeInput, RecipeIngredientInput } from '../db/adapter';
+import { convertQuantity, isKnownUnit, normalizeUnit } from './units';
+
+// ============================================================================
+// Ingredient Parsing
+// ============================================================================
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125,
+};
+
+// "1 1/2" or "1/2"
+const FRACTION_PATTERN = /^(?:(\d+)\s+)?(\d+)\/(\d+)/;
+// "2", "1.5", "1½" or "½"
+const NUMBER_PATTERN = /^(\d+(?:[.,]\d+)?)?\s*([½⅓⅔¼¾⅛])?/;
+
+/**
+ * Parse the amount at the start of an ingredient line
+ * Returns the amount and the rest of the line, or null if the line has no amount
+ */
+function parseAmount(text: string): { amount: number; rest: string } | null {
+  const fraction = text.match(FRACTION_PATTERN);
+  if (fraction && Number(fraction[3]) !== 0) {
+    const amount = Number(fraction[1] ?? 0) + Number(fraction[2]) / Number(fraction[3]);
+    return { amount, rest: text.slice(fraction[0].length).trim() };
+  }
+
+  const number = text.match(NUMBER_PATTERN);
+  if (!number || (!number[1] && !number[2])) return null;
+
+  const amount = Number((number[1] ?? '0').replace(',', '.')) + (number[2] ? UNICODE_FRACTIONS[number[2]] : 0);
+  return { amount, rest: text.slice(number[0].length).trim() };
+}
+
+/**
+ * Parse a free-text ingredient line ("2 cups flour", "1 onion, diced")
+ * Preparation notes after a comma and parenthesised asides are dropped from the name
+ */
+export function parseIngredientLine(line: string): RecipeIngredientInput {
+  const text = line.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+
+  let quantity: number | undefined;
+  let unit: string | undefined;
+  let rest = text;
+
+  const parsed = parseAmount(text);
+  if (parsed) {
+    quantity = parsed.amount;
+    rest = parsed.rest;
+
+    const unitMatch = rest.match(/^([a-zA-Z]+)\.?(?:\s+of)?\s+(.*)$/);
+    if (unitMatch && isKnownUnit(unitMatch[1])) {
+      unit = normalizeUnit(unitMatch[1]);
+      rest = unitMatch[2];
+    }
+  }
+
+  const name = rest.split(',')[0].trim() || text;
+
+  return { name, quantity, unit };
+}
+
+// ============================================================================
+// schema.org Recipe Import
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+function isRecipeNode(node: JsonObject): boolean {
+  const type = node['@type'];
+  return type === 'Recipe' || (Array.isArray(type) && type.includes('Recipe'));
+}
+
+/**
+ * Find every Recipe node in a JSON-LD document (object, array or @graph)
+ */
+function findRecipeNodes(doc: unknown): JsonObject[] {
+  if (Array.isArray(doc)) {
+    return doc.flatMap(findRecipeNodes);
+  }
+  if (!doc || typeof doc !== 'object') {
+    return [];
+  }
+
+  const node = doc as JsonObject;
+  if (isRecipeNode(node)) {
+    return [node];
+  }
+  return node['@graph'] ? findRecipeNodes(node['@graph']) : [];
+}
+
+/**
+ * Flatten recipeInstructions (text, HowToStep list or HowToSection list) into lines
+ */
+function instructionLines(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split('\n').map((line) => line.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(instructionLines);
+  }
+  if (value && typeof value === 'object') {
+    const step = value as JsonObject;
+    if (step.itemListElement) return instructionLines(step.itemListElement);
+    if (typeof step.text === 'string') return instructionLines(step.text);
+  }
+  return [];
+}
+
+/**
+ * Read servings from recipeYield ("4", "4 servings", 4 or ["4", "4 servings"])
+ */
+function parseYield(value: unknown): number | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  const match = String(first ?? '').match(/\d+/);
+  const servings = match ? Number(match[0]) : NaN;
+  return servings > 0 ? servings : undefined;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Convert a schema.org Recipe JSON-LD document into recipe inputs
+ * Recipes without a name or ingredients are skipped
+ */
+export function parseSchemaOrgRecipes(doc: unknown): CreateRecipeInput[] {
+  const recipes: CreateRecipeInput[] = [];
+
+  for (const node of findRecipeNodes(doc)) {
+    const name = optionalText(node.name);
+    const lines = node.recipeIngredient ?? node.ingredients;
+    const ingredients = (Array.isArray(lines) ? lines : [])
+      .filter((line): line is string => typeof line === 'string' && line.trim() !== '')
+      .map(parseIngredientLine);
+
+    if (!name || ingredients.length === 0) continue;
+
+    const instructions = instructionLines(node.recipeInstructions);
+
+    recipes.push({
+      name,
+      description: optionalText(node.description),
+      servings: parseYield(node.recipeYield),
+      instructions: instructions.length > 0 ? instructions.join('\n') : undefined,
+      sourceUrl: optionalText(node.url),
+      ingredients,
+    });
+  }
+
+  return recipes;
+}
+
+// ============================================================================
+// Pantry Matching
+// ============================================================================
+
+/**
+ * Strip a simple English plural ("tomatoes" -> "tomato", "eggs" -> "egg")
+ */
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Reduce a name to comparable words: lowercase, no punctuation, singular
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singular);
+}
+
+/**
+ * Whether a pantry item name refers to an ingredient
+ * Either name's words must all appear in the other ("flour" matches "plain flour")
+ */
+export function namesMatch(ingredientName: string, itemName: string): boolean {
+  const ingredient = nameTokens(ingredientName);
+  const item = nameTokens(itemName);
+  if (ingredient.length === 0 || item.length === 0) return false;
+
+  return ingredient.every((word) => item.includes(word)) || item.every((word) => ingredient.includes(word));
+}
+
+/**
+ * Amount of a pantry item an ingredient needs, in the item's unit
+ * Ingredients without a unit are counted in pieces
+ * Null when the ingredient has no quantity or its unit can't be converted
+ */
+export function requiredAmount(ingredient: RecipeIngredient, item: PantryItem, scale: number = 1): number | null {
+  if (ingredient.quantity === undefined) return null;
+
+  return convertQuantity(ingredient.quantity * scale, ingredient.unit ?? 'piece', item.unit, item.density);
+}
+
+/**
+ * Find the pantry item covering an ingredient
+ * The item must be in stock, and hold enough when the amount can be compared
+ */
+function findCoveringItem(ingredient: RecipeIngredient, items: PantryItem[], scale: number): PantryItem | undefined {
+  return items.find((item) => {
+    if (item.quantity <= 0 || !namesMatch(ingredient.name, item.name)) return false;
+
+    const needed = requiredAmount(ingredient, item, scale);
+    return needed === null || item.quantity >= needed;
+  });
+}
+
+/**
+ * Work out which of a recipe's ingredients the pantry covers
+ * scale multiplies the ingredient quantities (servings wanted / recipe servings)
+ */
+export function matchRecipe(recipe: Recipe, items: PantryItem[], scale: number = 1): RecipeMatch {
+  const matched: MatchedIngredient[] = [];
+  const missing: RecipeIngredient[] = [];
+
+  for (const ingredient of recipe.ingredients) {
+    const item = findCoveringItem(ingredient, items, scale);
+
+    if (item) {
+      matched.push({
+        ingredient,
+        itemId: item.id,
+        itemName: item.name,
+        available: item.quantity,
+        unit: item.unit,
+      });
+    } else {
+      missing.push(ingredient);
+    }
+  }
+
+  const totalCount = recipe.ingredients.length;
+
+  return {
+    recipe,
+    matchedCount: matched.length,
+    totalCount,
+    coverage: totalCount > 0 ? matched.length / totalCount : 0,
+    matched,
+    missing,
+  };
+}
+
+/**
+ * Rank recipes by how many ingredients the pantry covers
+ * Ties go to the recipe with fewer missing ingredients, then by name
+ */
+export function rankRecipes(recipes: Recipe[], items: PantryItem[]): RecipeMatch[] {
+  return recipes
+    .map((recipe) => matchRecipe(recipe, items))
+    .sort((a, b) =>
+      b.matchedCount - a.matchedCount
+      || a.missing.length - b.missing.length
+      || a.recipe.name.localeCompare(b.recipe.name)
+    );
+}
+
+/**
+ * Scale factor for cooking a number of servings of a recipe
+ */
+export function servingScale(recipe: Recipe, servings?: number): number {
+  return servings && recipe.servings ? servings / recipe.servings : 1;
+}
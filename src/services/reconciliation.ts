@@ -0,0 +1,180 @@
+/**
+ * Receipt Reconciliation Service
+ * Compares a shopping session with the lines read off its receipt
+ *
+ * Lines pair with session items by barcode, or by name with a matching amount
+ * making a weak name match count. Anything left over on either side, and any
+ * pair charged a different amount, is reported with the fix that resolves it.
+ */
+
+import {
+  ShoppingSessionWithItems,
+  SessionItem,
+  ReceiptLine,
+  ReconciliationMatch,
+  ReconciliationIssue,
+  SessionReconciliation,
+} from '../models/shoppingSession';
+import { nameSimilarity } from './search';
+import { normalizeBarcode } from './barcode';
+
+/** Lowest score for pairing a receipt line with a session item */
+export const MIN_RECONCILIATION_SCORE = 0.7;
+
+// Names scoring below this never pair, whatever the amounts
+const MIN_NAME_SCORE = 0.4;
+// Added to the name score when the line and the item cost the same
+const AMOUNT_MATCH_BONUS = 0.3;
+// Amounts this close are the same charge
+const AMOUNT_TOLERANCE = 0.01;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Per-unit prices keep sub-cent precision so price * quantity lands on the charge
+function roundUnitPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * What a session item should have cost (price * quantity), if it was priced
+ */
+function itemAmount(item: SessionItem): number | undefined {
+  return item.price !== undefined ? roundMoney(item.price * item.quantity) : undefined;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) <= AMOUNT_TOLERANCE;
+}
+
+/**
+ * Score a receipt line against a session item, or null if they can't pair
+ */
+function scorePair(item: SessionItem, line: ReceiptLine): Omit<ReconciliationMatch, 'sessionItemId' | 'receiptLine'> | null {
+  // Session barcodes are stored normalized; receipts print UPC/EAN forms
+  if (item.barcode && line.barcode && item.barcode === normalizeBarcode(line.barcode)) {
+    return { score: 1, matchedOn: 'barcode' };
+  }
+
+  const nameScore = nameSimilarity(line.name, item.name);
+  if (nameScore < MIN_NAME_SCORE) return null;
+
+  const expected = itemAmount(item);
+  const amountMatches = expected !== undefined && line.price !== undefined && sameAmount(expected, line.price);
+  const score = Math.min(1, nameScore + (amountMatches ? AMOUNT_MATCH_BONUS : 0));
+
+  return score >= MIN_RECONCILIATION_SCORE
+    ? { score: Math.round(score * 1000) / 1000, matchedOn: 'name' }
+    : null;
+}
+
+/**
+ * Pair receipt lines with session items, best pairs first, each used once
+ */
+export function matchReceiptLines(items: SessionItem[], lines: ReceiptLine[]): ReconciliationMatch[] {
+  const candidates: ReconciliationMatch[] = [];
+  items.forEach((item) => {
+    lines.forEach((line, index) => {
+      const pair = scorePair(item, line);
+      if (pair) candidates.push({ sessionItemId: item.id, receiptLine: index, ...pair });
+    });
+  });
+
+  const pairedItems = new Set<string>();
+  const pairedLines = new Set<number>();
+  const matches: ReconciliationMatch[] = [];
+
+  // Stable sort: ties keep session order, then receipt order
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (pairedItems.has(candidate.sessionItemId) || pairedLines.has(candidate.receiptLine)) continue;
+    pairedItems.add(candidate.sessionItemId);
+    pairedLines.add(candidate.receiptLine);
+    matches.push(candidate);
+  }
+
+  return matches.sort((a, b) => a.receiptLine - b.receiptLine);
+}
+
+/**
+ * Compare a session with a receipt's lines
+ * Issues follow the receipt's order, with session items missing from it last
+ */
+export function reconcileReceipt(
+  session: ShoppingSessionWithItems,
+  receiptId: string,
+  lines: ReceiptLine[],
+  printedTotal?: number
+): SessionReconciliation {
+  const matches = matchReceiptLines(session.items, lines);
+  const itemsById = new Map(session.items.map((item) => [item.id, item]));
+  const matchByLine = new Map(matches.map((match) => [match.receiptLine, match]));
+  const matchedItems = new Set(matches.map((match) => match.sessionItemId));
+
+  const issues: ReconciliationIssue[] = [];
+  let overcharged = 0;
+
+  lines.forEach((line, index) => {
+    const match = matchByLine.get(index);
+
+    if (!match) {
+      // Unpriced lines are headers and noise more often than purchases
+      if (line.price !== undefined && line.price > 0) {
+        const quantity = line.quantity > 0 ? line.quantity : 1;
+        issues.push({
+          type: 'EXTRA',
+          receiptLine: line,
+          chargedAmount: line.price,
+          fix: {
+            type: 'ADD_ITEM',
+            name: line.name,
+            barcode: line.barcode,
+            quantity,
+            unit: line.unit,
+            price: roundUnitPrice(line.price / quantity),
+            category: line.category,
+          },
+        });
+      }
+      return;
+    }
+
+    const item = itemsById.get(match.sessionItemId)!;
+    const expected = itemAmount(item);
+    if (expected === undefined || line.price === undefined || sameAmount(expected, line.price)) return;
+
+    overcharged += Math.max(0, line.price - expected);
+    issues.push({
+      type: 'PRICE_MISMATCH',
+      sessionItem: item,
+      receiptLine: line,
+      expectedAmount: expected,
+      chargedAmount: line.price,
+      fix: { type: 'UPDATE_PRICE', sessionItemId: item.id, price: roundUnitPrice(line.price / item.quantity) },
+    });
+  });
+
+  for (const item of session.items) {
+    if (matchedItems.has(item.id)) continue;
+    issues.push({
+      type: 'MISSING',
+      sessionItem: item,
+      expectedAmount: itemAmount(item),
+      fix: { type: 'REMOVE_ITEM', sessionItemId: item.id },
+    });
+  }
+
+  const sessionTotal = session.items.reduce((sum, item) => sum + (itemAmount(item) || 0), 0);
+  const linesTotal = lines.reduce((sum, line) => sum + (line.price || 0), 0);
+
+  return {
+    sessionId: session.id,
+    receiptId,
+    sessionTotal: roundMoney(sessionTotal),
+    receiptTotal: roundMoney(printedTotal ?? linesTotal),
+    lines,
+    matches,
+    issues,
+    overcharged: roundMoney(overcharged),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Role Service
+ * Staff role rules and role claims from Clerk session tokens
+ */
+
+import { UserRole, USER_ROLES } from '../models/role';
+
+const ROLE_LEVELS: Record<UserRole, number> = { read_only: 0, support: 1, admin: 2 };
+
+/**
+ * Whether a value names a staff role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether any of a user's roles is at least the given role
+ */
+export function hasRole(roles: UserRole[], minimumRole: UserRole): boolean {
+  return roles.some((role) => ROLE_LEVELS[role] >= ROLE_LEVELS[minimumRole]);
+}
+
+/**
+ * Staff roles carried in a verified Clerk session token
+ * Reads a `role` or `roles` claim, at the top level or under `metadata`
+ * (a session token template mapping `{{user.public_metadata}}`).
+ * Unknown role names are ignored.
+ */
+export function rolesFromClaims(claims: Record<string, unknown>): UserRole[] {
+  const metadata = claims.metadata && typeof claims.metadata === 'object'
+    ? (claims.metadata as Record<string, unknown>)
+    : {};
+
+  const values = [claims.role, claims.roles, metadata.role, metadata.roles].flatMap((value) =>
+    Array.isArray(value) ? value : [value]
+  );
+
+  return [...new Set(values.filter(isUserRole))];
+}
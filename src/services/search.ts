@@ -0,0 +1,191 @@
+/**
+ * Item Search Service
+ * Full-text query building and fuzzy ranking shared by both database adapters
+ *
+ * The adapters fetch candidates (FTS5 on SQLite, tsvector/trigram on Postgres);
+ * scoring happens here so results and match thresholds are the same everywhere.
+ */
+
+import { PantryItem, ItemSearchResult, SearchField } from '../models/types';
+import { nameTokens } from './recipe';
+
+/** Results returned by a search when no limit is given */
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Candidates fetched from the database before ranking */
+export const SEARCH_CANDIDATE_LIMIT = 100;
+
+/** Lowest score a search result can have */
+export const MIN_SEARCH_SCORE = 0.3;
+
+/**
+ * Lowest score for treating a scanned or detected name as an existing item
+ * Receipt import creates a new item below this; visual usage reports it as not found
+ */
+export const MIN_MATCH_SCORE = 0.7;
+
+// Brand and category matches rank below an equally good name match
+const BRAND_WEIGHT = 0.9;
+const CATEGORY_WEIGHT = 0.5;
+
+// Shortest word that can match another word it starts ("tom" -> "tomato")
+const MIN_PREFIX_LENGTH = 3;
+// Shortest word a typo is tolerated in
+const MIN_TYPO_LENGTH = 4;
+const MIN_TYPO_SIMILARITY = 0.75;
+
+/**
+ * An item as fetched for ranking, with its brand from the product cache
+ */
+export interface SearchCandidate {
+  item: PantryItem;
+  brand?: string;
+}
+
+// ============================================================================
+// Query Building
+// ============================================================================
+
+/**
+ * FTS5 MATCH expression: any query word as a prefix ("milk" OR "whole" ...)
+ * Null when the query has no searchable words
+ */
+export function buildFtsQuery(query: string): string | null {
+  const words = nameTokens(query);
+  if (words.length === 0) return null;
+
+  return [...new Set(words)].map((word) => `"${word}"*`).join(' OR ');
+}
+
+/**
+ * Postgres to_tsquery expression: any query word as a prefix (milk:* | whole:*)
+ * Null when the query has no searchable words
+ */
+export function buildTsQuery(query: string): string | null {
+  const words = nameTokens(query);
+  if (words.length === 0) return null;
+
+  return [...new Set(words)].map((word) => `${word}:*`).join(' | ');
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Optimal string alignment distance (edits, with adjacent swaps as one edit)
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * How alike two words are: 1 when equal, 0.9 when one starts the other,
+ * otherwise edit similarity for longer words with a typo or two
+ */
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter)) return 0.9;
+  if (shorter.length < MIN_TYPO_LENGTH) return 0;
+
+  const similarity = 1 - editDistance(a, b) / longer.length;
+  return similarity >= MIN_TYPO_SIMILARITY ? similarity : 0;
+}
+
+function bestSimilarity(word: string, words: string[]): number {
+  return words.reduce((best, other) => Math.max(best, wordSimilarity(word, other)), 0);
+}
+
+/**
+ * Score how well query words match a field's words, from 0 to 1
+ * An overlap score over both word lists, raised when every word of the field
+ * is in the query: a verbose receipt line ("Whole Milk 2%") still scores high
+ * against the shorter item name ("Milk")
+ */
+function fieldScore(queryWords: string[], fieldWords: string[]): number {
+  if (queryWords.length === 0 || fieldWords.length === 0) return 0;
+
+  const queryFound = queryWords.reduce((sum, word) => sum + bestSimilarity(word, fieldWords), 0);
+  const fieldFound = fieldWords.reduce((sum, word) => sum + bestSimilarity(word, queryWords), 0);
+
+  const overlap = (queryFound + fieldFound) / (queryWords.length + fieldWords.length);
+  const coverage = fieldFound / fieldWords.length;
+
+  return Math.max(overlap, coverage * (0.7 + 0.3 * overlap));
+}
+
+/**
+ * Score how well two free-text names match, from 0 to 1
+ */
+export function nameSimilarity(query: string, name: string): number {
+  return fieldScore(nameTokens(query), nameTokens(name));
+}
+
+/**
+ * Score a candidate item against a search query
+ * Returns the best score and the field it came from
+ */
+export function scoreCandidate(query: string, candidate: SearchCandidate): { score: number; matchedOn: SearchField } {
+  const { item, brand } = candidate;
+  const trimmed = query.trim();
+
+  if (item.barcode && item.barcode === trimmed) {
+    return { score: 1, matchedOn: 'barcode' };
+  }
+
+  const queryWords = nameTokens(trimmed);
+  const nameWords = nameTokens(item.name);
+
+  const scores: Array<{ score: number; matchedOn: SearchField }> = [
+    { score: fieldScore(queryWords, nameWords), matchedOn: 'name' },
+  ];
+  if (brand) {
+    scores.push({
+      score: BRAND_WEIGHT * fieldScore(queryWords, [...nameTokens(brand), ...nameWords]),
+      matchedOn: 'brand',
+    });
+  }
+  scores.push({ score: CATEGORY_WEIGHT * fieldScore(queryWords, nameTokens(item.category)), matchedOn: 'category' });
+
+  return scores.reduce((best, next) => (next.score > best.score ? next : best));
+}
+
+/**
+ * Score, filter and order search candidates, best match first
+ * Ties keep the candidates' order (the database's own ranking)
+ */
+export function rankCandidates(query: string, candidates: SearchCandidate[], limit: number = DEFAULT_SEARCH_LIMIT): ItemSearchResult[] {
+  return candidates
+    .map((candidate) => {
+      const { score, matchedOn } = scoreCandidate(query, candidate);
+      return {
+        item: candidate.item,
+        score: Math.round(score * 1000) / 1000,
+        matchedOn,
+        brand: candidate.brand,
+      };
+    })
+    .filter((result) => result.score >= MIN_SEARCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
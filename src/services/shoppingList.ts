@@ -0,0 +1,23 @@
+/**
+ * Shopping List Service
+ * Low-stock rules shared by the database adapters
+ */
+
+import { PantryItem } from '../models/types';
+
+/**
+ * Whether an item has dropped below its minimum stock level
+ * Items without a minQuantity are never low on stock
+ */
+export function isLowStock(item: PantryItem): boolean {
+  return item.minQuantity !== undefined && item.quantity < item.minQuantity;
+}
+
+/**
+ * How much to buy to bring an item back up to its target
+ * Falls back to minQuantity when no target is set
+ */
+export function restockQuantity(item: PantryItem): number {
+  const target = Math.max(item.targetQuantity ?? 0, item.minQuantity ?? 0);
+  return Math.max(target - item.quantity, 0);
+}
@@ -9,6 +9,15 @@ import {
   downgradeToFree,
 } from './subscription';
 import { recordTransaction } from '../db/admin';
+import {
+  beginStripeWebhookEvent,
+  claimFailedStripeWebhookEvent,
+  completeStripeWebhookEvent,
+  failStripeWebhookEvent,
+  getStripeWebhookEvent,
+  hasNewerStripeWebhookEvent,
+} from '../db/operations';
+import { StripeWebhookEvent, StripeWebhookEventStatus } from '../models/stripeWebhookEvent';
 
 // Initialize Stripe client
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -236,10 +245,33 @@ export async function createCustomerPortalSession(
 // Webhook Handling
 // ============================================================================
 
+// How long a delivery may take before a retry of the event may take it over
+const WEBHOOK_LEASE_MS = 5 * 60 * 1000;
+
+// Events that set a subscription's state; a subscription update older than
+// one of these that has been applied would undo it
+const SUBSCRIPTION_STATE_EVENTS = ['customer.subscription.updated', 'customer.subscription.deleted'];
+
+export interface WebhookResult {
+  received: boolean;
+  event?: Stripe.Event;
+  /** How processing ended; absent when the event was already processed */
+  status?: StripeWebhookEventStatus;
+  /** True when this delivery was a retry of an event already handled */
+  duplicate?: boolean;
+}
+
+/**
+ * Verify and process a webhook delivery
+ * Each event is recorded in stripe_webhook_events before it is handled and
+ * processed once: retries of a processed event are acknowledged without
+ * running its handler again. A failed event keeps its error and status
+ * FAILED, so Stripe's next retry (or an admin replay) runs it again
+ */
 export async function handleWebhookEvent(
   payload: string,
   signature: string
-): Promise<{ received: boolean; event?: Stripe.Event }> {
+): Promise<WebhookResult> {
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
 
   if (!webhookSecret) {
@@ -258,43 +290,115 @@ export async function handleWebhookEvent(
 
   console.log(`[STRIPE] Webhook received: ${event.type}`);
 
-  // Handle the event
+  const record = await beginStripeWebhookEvent(
+    {
+      stripeEventId: event.id,
+      eventType: event.type,
+      objectId: (event.data.object as { id?: string }).id,
+      stripeCreatedAt: new Date(event.created * 1000).toISOString(),
+      payload: JSON.stringify(event),
+    },
+    WEBHOOK_LEASE_MS
+  );
+
+  if (!record) {
+    console.log(`[STRIPE] Event ${event.id} already processed, skipping`);
+    return { received: true, event, duplicate: true };
+  }
+
+  const status = await processWebhookEvent(record.id, event);
+
+  return { received: true, event, status };
+}
+
+/**
+ * Process a FAILED event again from its stored payload
+ * The payload was verified when it was received, so it isn't verified
+ * again. Returns null if there is no FAILED event with that ID
+ */
+export async function replayWebhookEvent(id: string): Promise<StripeWebhookEvent | null> {
+  const record = await claimFailedStripeWebhookEvent(id, WEBHOOK_LEASE_MS);
+  if (!record) return null;
+
+  console.log(`[STRIPE] Replaying ${record.eventType} ${record.stripeEventId}`);
+  await processWebhookEvent(record.id, JSON.parse(record.payload) as Stripe.Event);
+
+  return getStripeWebhookEvent(id);
+}
+
+/**
+ * Run the handler for a claimed event and record how it ended
+ */
+async function processWebhookEvent(
+  recordId: string,
+  event: Stripe.Event
+): Promise<StripeWebhookEventStatus> {
+  try {
+    if (await isOutOfOrder(event)) {
+      console.log(`[STRIPE] Skipping ${event.type} ${event.id}: a newer subscription event was already applied`);
+      await completeStripeWebhookEvent(recordId, 'SKIPPED');
+      return 'SKIPPED';
+    }
+
+    const userId = await dispatchWebhookEvent(event);
+    await completeStripeWebhookEvent(recordId, 'PROCESSED', userId);
+    return 'PROCESSED';
+  } catch (error) {
+    console.error(`[STRIPE] Failed to process ${event.type} ${event.id}:`, error);
+    await failStripeWebhookEvent(recordId, error instanceof Error ? error.message : String(error));
+    return 'FAILED';
+  }
+}
+
+/**
+ * Stripe doesn't deliver events in order: a subscription update created
+ * before an update or deletion already applied is out of date
+ */
+async function isOutOfOrder(event: Stripe.Event): Promise<boolean> {
+  if (event.type !== 'customer.subscription.updated') return false;
+
+  const subscription = event.data.object as Stripe.Subscription;
+  return hasNewerStripeWebhookEvent(
+    subscription.id,
+    SUBSCRIPTION_STATE_EVENTS,
+    new Date(event.created * 1000).toISOString()
+  );
+}
+
+/**
+ * Hand an event to its handler; returns the user it concerned, if known
+ */
+async function dispatchWebhookEvent(event: Stripe.Event): Promise<string | undefined> {
   switch (event.type) {
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
-      await handleCheckoutSessionCompleted(session);
-      break;
+      return handleCheckoutSessionCompleted(session);
     }
 
     case 'invoice.paid': {
       const invoice = event.data.object as Stripe.Invoice;
-      await handleInvoicePaid(invoice);
-      break;
+      return handleInvoicePaid(invoice, event.id);
     }
 
     case 'invoice.payment_failed': {
       const invoice = event.data.object as Stripe.Invoice;
-      await handleInvoicePaymentFailed(invoice);
-      break;
+      return handleInvoicePaymentFailed(invoice, event.id);
     }
 
     case 'customer.subscription.updated': {
       const subscription = event.data.object as Stripe.Subscription;
-      await handleSubscriptionUpdated(subscription);
-      break;
+      return handleSubscriptionUpdated(subscription);
     }
 
     case 'customer.subscription.deleted': {
       const subscription = event.data.object as Stripe.Subscription;
-      await handleSubscriptionDeleted(subscription);
-      break;
+      return handleSubscriptionDeleted(subscription);
     }
 
     default:
       console.log(`[STRIPE] Unhandled event type: ${event.type}`);
+      return undefined;
   }
-
-  return { received: true, event };
 }
 
 /**
@@ -303,20 +407,20 @@ export async function handleWebhookEvent(
  */
 async function handleCheckoutSessionCompleted(
   session: Stripe.Checkout.Session
-): Promise<void> {
+): Promise<string | undefined> {
   const userId = session.metadata?.userId;
   const tier = session.metadata?.tier as 'pro' | 'family' | undefined;
 
   if (!userId || !tier) {
     console.error('[STRIPE] Missing metadata in checkout session');
-    return;
+    return undefined;
   }
 
   // Get subscription details
   const subscriptionId = (session as any).subscription;
   if (!subscriptionId) {
     console.error('[STRIPE] No subscription in checkout session');
-    return;
+    return userId;
   }
 
   const subscription = await stripe.subscriptions.retrieve(subscriptionId);
@@ -325,7 +429,7 @@ async function handleCheckoutSessionCompleted(
   // Update user subscription in database
   const priceId = subscription.items.data[0]?.price.id;
 
-  updateUserSubscription(userId, {
+  await updateUserSubscription(userId, {
     tier,
     stripeSubscriptionId: subscription.id,
     stripePriceId: priceId || null,
@@ -335,22 +439,23 @@ async function handleCheckoutSessionCompleted(
   });
 
   console.log(`[STRIPE] Subscription activated for user ${userId}: ${tier}`);
+  return userId;
 }
 
 /**
  * Handle invoice.paid
  * Confirms ongoing subscription payment
  */
-async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+async function handleInvoicePaid(invoice: Stripe.Invoice, eventId: string): Promise<string | undefined> {
   const subscriptionId = (invoice as any).subscription;
-  if (!subscriptionId) return;
+  if (!subscriptionId) return undefined;
 
   const subscription = await stripe.subscriptions.retrieve(subscriptionId);
   const userId = subscription.metadata?.userId;
 
   if (!userId) {
     console.error('[STRIPE] No userId found for paid invoice');
-    return;
+    return undefined;
   }
 
   // Get tier and billing interval from subscription
@@ -365,39 +470,37 @@ async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
   }
 
   // Record the successful transaction
-  try {
-    await recordTransaction({
-      userId,
-      stripeCustomerId: invoice.customer as string | undefined,
-      stripeSubscriptionId: subscriptionId,
-      stripeInvoiceId: invoice.id,
-      amountCents: invoice.amount_paid || 0,
-      currency: invoice.currency || 'usd',
-      status: 'succeeded',
-      tier,
-      billingInterval,
-      stripeEventId: invoice.id,
-    });
-    console.log(`[STRIPE] Invoice paid recorded for user ${userId}: ${invoice.amount_paid} cents`);
-  } catch (err) {
-    console.error('[STRIPE] Failed to record transaction:', err);
-  }
+  await recordTransaction({
+    userId,
+    stripeCustomerId: invoice.customer as string | undefined,
+    stripeSubscriptionId: subscriptionId,
+    stripeInvoiceId: invoice.id,
+    amountCents: invoice.amount_paid || 0,
+    currency: invoice.currency || 'usd',
+    status: 'succeeded',
+    tier,
+    billingInterval,
+    stripeEventId: eventId,
+  });
+  console.log(`[STRIPE] Invoice paid recorded for user ${userId}: ${invoice.amount_paid} cents`);
+
+  return userId;
 }
 
 /**
  * Handle invoice.payment_failed
  * Payment failed - may need to handle grace period
  */
-async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice, eventId: string): Promise<string | undefined> {
   const subscriptionId = (invoice as any).subscription;
-  if (!subscriptionId) return;
+  if (!subscriptionId) return undefined;
 
   const subscription = await stripe.subscriptions.retrieve(subscriptionId);
 
   const userId = subscription.metadata?.userId;
   if (!userId) {
     console.error('[STRIPE] No userId in subscription metadata');
-    return;
+    return undefined;
   }
 
   // Get tier and billing interval from subscription
@@ -416,32 +519,29 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void
   const failureCode = lastPaymentError?.code || lastPaymentError?.decline_code || 'unknown';
   const failureMessage = lastPaymentError?.message || 'Payment failed';
 
-  // Record the failed transaction
-  try {
-    await recordTransaction({
-      userId,
-      stripeCustomerId: invoice.customer as string | undefined,
-      stripeSubscriptionId: subscriptionId,
-      stripeInvoiceId: invoice.id,
-      amountCents: invoice.amount_due || 0,
-      currency: invoice.currency || 'usd',
-      status: 'failed',
-      tier,
-      billingInterval,
-      failureCode,
-      failureMessage,
-      stripeEventId: invoice.id,
-    });
-    console.log(`[STRIPE] Failed payment recorded for user ${userId}: ${failureMessage}`);
-  } catch (err) {
-    console.error('[STRIPE] Failed to record failed transaction:', err);
-  }
+  // Record the failed transaction (skipped if a replay already recorded it)
+  await recordTransaction({
+    userId,
+    stripeCustomerId: invoice.customer as string | undefined,
+    stripeSubscriptionId: subscriptionId,
+    stripeInvoiceId: invoice.id,
+    amountCents: invoice.amount_due || 0,
+    currency: invoice.currency || 'usd',
+    status: 'failed',
+    tier,
+    billingInterval,
+    failureCode,
+    failureMessage,
+    stripeEventId: eventId,
+  });
+  console.log(`[STRIPE] Failed payment recorded for user ${userId}: ${failureMessage}`);
 
-  updateUserSubscription(userId, {
+  await updateUserSubscription(userId, {
     subscriptionStatus: 'past_due',
   });
 
   console.log(`[STRIPE] Payment failed for user ${userId}`);
+  return userId;
 }
 
 /**
@@ -450,17 +550,17 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void
  */
 async function handleSubscriptionUpdated(
   subscription: Stripe.Subscription
-): Promise<void> {
+): Promise<string | undefined> {
   const userId = subscription.metadata?.userId;
   if (!userId) {
     console.error('[STRIPE] No userId in subscription metadata');
-    return;
+    return undefined;
   }
 
   const tier = subscription.metadata?.tier as 'pro' | 'family' | undefined;
   const priceId = subscription.items.data[0]?.price.id;
 
-  updateUserSubscription(userId, {
+  await updateUserSubscription(userId, {
     tier: tier || undefined,
     stripePriceId: priceId || undefined,
     subscriptionStatus: subscription.status as any,
@@ -468,6 +568,7 @@ async function handleSubscriptionUpdated(
   });
 
   console.log(`[STRIPE] Subscription updated for user ${userId}: ${subscription.status}`);
+  return userId;
 }
 
 /**
@@ -476,16 +577,17 @@ async function handleSubscriptionUpdated(
  */
 async function handleSubscriptionDeleted(
   subscription: Stripe.Subscription
-): Promise<void> {
+): Promise<string | undefined> {
   const userId = subscription.metadata?.userId;
   if (!userId) {
     console.error('[STRIPE] No userId in subscription metadata');
-    return;
+    return undefined;
   }
 
-  downgradeToFree(userId);
+  await downgradeToFree(userId);
 
   console.log(`[STRIPE] Subscription canceled for user ${userId}, downgraded to free`);
+  return userId;
 }
 
 // ============================================================================
@@ -242,11 +242,10 @@ export async function downgradeToFree(userId: string): Promise<UserSubscription
 // ============================================================================
 
 /**
- * Get current month string in YYYY-MM format
+ * Get current month string in YYYY-MM format (or the month of `date`)
  */
-function getCurrentMonth(): string {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+function getCurrentMonth(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
 }
 
 /**
@@ -319,6 +318,74 @@ export async function incrementUsage(
   return getOrCreateUsageLimits(userId);
 }
 
+/**
+ * Count a receipt scan now, if the user has one left this month
+ * The limit is checked in the same UPDATE, so scans submitted at once can't
+ * go over it. Give the scan back with releaseReceiptScan if it never happens.
+ * `remaining` is null on plans without a scan limit
+ */
+export async function reserveReceiptScan(userId: string): Promise<{ allowed: boolean; remaining: number | null }> {
+  const subscription = await getOrCreateUserSubscription(userId);
+  const limit = TIER_LIMITS[subscription.tier].receiptScansPerMonth;
+
+  if (limit === Infinity) {
+    await incrementUsage(userId, 'receiptScans');
+    return { allowed: true, remaining: null };
+  }
+
+  const db = getDatabase();
+  const month = getCurrentMonth();
+  const now = new Date().toISOString();
+
+  // Ensure record exists
+  await getOrCreateUsageLimits(userId);
+
+  const reserved = await db.execute(
+    `UPDATE usage_limits
+     SET receipt_scans = receipt_scans + 1,
+         updated_at = ?
+     WHERE user_id = ? AND month = ? AND receipt_scans < ?`,
+    [now, userId, month, limit]
+  );
+
+  const usage = await getOrCreateUsageLimits(userId);
+  return { allowed: reserved.changes > 0, remaining: Math.max(0, limit - usage.receiptScans) };
+}
+
+/**
+ * Give back a receipt scan reserved at `reservedAt` that never happened
+ */
+export async function releaseReceiptScan(userId: string, reservedAt: string): Promise<void> {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `UPDATE usage_limits
+     SET receipt_scans = receipt_scans - 1,
+         updated_at = ?
+     WHERE user_id = ? AND month = ? AND receipt_scans > 0`,
+    [now, userId, getCurrentMonth(new Date(reservedAt))]
+  );
+}
+
+/**
+ * Count again a receipt scan reserved at `reservedAt` and given back with
+ * releaseReceiptScan, in the month it was given back to. The limit isn't
+ * checked: the scan was allowed when it was reserved
+ */
+export async function restoreReceiptScan(userId: string, reservedAt: string): Promise<void> {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+
+  await db.execute(
+    `UPDATE usage_limits
+     SET receipt_scans = receipt_scans + 1,
+         updated_at = ?
+     WHERE user_id = ? AND month = ?`,
+    [now, userId, getCurrentMonth(new Date(reservedAt))]
+  );
+}
+
 /**
  * Get usage limits for a user
  */
@@ -401,6 +468,14 @@ export async function hasSharedInventory(userId: string): Promise<boolean> {
   return TIER_LIMITS[subscription.tier].sharedInventory;
 }
 
+/**
+ * Get how many members a user's household may have (family tier)
+ */
+export async function getMaxFamilyMembers(userId: string): Promise<number> {
+  const subscription = await getOrCreateUserSubscription(userId);
+  return TIER_LIMITS[subscription.tier].maxFamilyMembers;
+}
+
 /**
  * Get user tier info for API response
  */
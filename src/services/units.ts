@@ -0,0 +1,198 @@
+/**
+ * Unit Conversion Service
+ * Registry of measurement units and conversion between them
+ *
+ * Units belong to a dimension (mass, volume or count) and convert through the
+ * dimension's base unit (g, ml, piece). Mass and volume convert into each other
+ * only through a density (g/ml), which users set per pantry item. Packaging
+ * units (can, clove, ...) only convert to themselves; anything else
+ * unregistered is compared as text.
+ */
+
+// ============================================================================
+// Unit Registry
+// ============================================================================
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  /** Canonical unit name */
+  name: string;
+  dimension: UnitDimension;
+  /** Size of one unit in the dimension's base unit (g, ml or piece) */
+  factor: number;
+  /** Other spellings, matched case-insensitively */
+  aliases: string[];
+}
+
+export const UNITS: UnitDefinition[] = [
+  // Mass (base: gram)
+  { name: 'mg', dimension: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { name: 'g', dimension: 'mass', factor: 1, aliases: ['gr', 'gram', 'grams', 'gramme', 'grammes'] },
+  { name: 'kg', dimension: 'mass', factor: 1000, aliases: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { name: 'oz', dimension: 'mass', factor: 28.349523125, aliases: ['ounce', 'ounces'] },
+  { name: 'lb', dimension: 'mass', factor: 453.59237, aliases: ['lbs', 'pound', 'pounds'] },
+
+  // Volume (base: millilitre, US customary sizes)
+  { name: 'ml', dimension: 'volume', factor: 1, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { name: 'cl', dimension: 'volume', factor: 10, aliases: ['centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { name: 'dl', dimension: 'volume', factor: 100, aliases: ['deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { name: 'l', dimension: 'volume', factor: 1000, aliases: ['liter', 'liters', 'litre', 'litres'] },
+  { name: 'tsp', dimension: 'volume', factor: 4.92892159375, aliases: ['teaspoon', 'teaspoons'] },
+  { name: 'tbsp', dimension: 'volume', factor: 14.78676478125, aliases: ['tablespoon', 'tablespoons'] },
+  { name: 'fl oz', dimension: 'volume', factor: 29.5735295625, aliases: ['floz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+  { name: 'cup', dimension: 'volume', factor: 236.5882365, aliases: ['cups'] },
+  { name: 'pint', dimension: 'volume', factor: 473.176473, aliases: ['pints', 'pt'] },
+  { name: 'quart', dimension: 'volume', factor: 946.352946, aliases: ['quarts', 'qt'] },
+  { name: 'gallon', dimension: 'volume', factor: 3785.411784, aliases: ['gallons', 'gal'] },
+
+  // Count (base: piece)
+  { name: 'piece', dimension: 'count', factor: 1, aliases: ['pieces', 'pc', 'pcs', 'unit', 'units', 'each', 'ea', 'whole', 'item', 'items'] },
+  { name: 'dozen', dimension: 'count', factor: 12, aliases: ['doz'] },
+];
+
+// Packaging and other counted units: never converted to pieces or to each other
+const PACKAGE_UNITS: Record<string, string[]> = {
+  can: ['cans', 'tin', 'tins'],
+  bottle: ['bottles'],
+  box: ['boxes'],
+  bag: ['bags'],
+  jar: ['jars'],
+  pack: ['packs', 'package', 'packages', 'pkg'],
+  carton: ['cartons'],
+  loaf: ['loaves'],
+  bunch: ['bunches'],
+  clove: ['cloves'],
+  slice: ['slices'],
+  pinch: ['pinches'],
+};
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  for (const spelling of [unit.name, ...unit.aliases]) {
+    UNIT_LOOKUP.set(spelling, unit);
+  }
+}
+
+const PACKAGE_LOOKUP = new Map<string, string>();
+for (const [name, aliases] of Object.entries(PACKAGE_UNITS)) {
+  for (const spelling of [name, ...aliases]) {
+    PACKAGE_LOOKUP.set(spelling, name);
+  }
+}
+
+function cleanUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Look up a registered measurement unit by any of its spellings
+ */
+export function findUnit(unit: string): UnitDefinition | undefined {
+  return UNIT_LOOKUP.get(cleanUnit(unit));
+}
+
+/**
+ * Whether a unit is in the registry (measurement or packaging unit)
+ */
+export function isKnownUnit(unit: string): boolean {
+  const cleaned = cleanUnit(unit);
+  return UNIT_LOOKUP.has(cleaned) || PACKAGE_LOOKUP.has(cleaned);
+}
+
+/**
+ * Canonical form of a unit ("Grams" -> "g", "cans" -> "can")
+ * Unregistered units are returned trimmed and lowercased
+ */
+export function normalizeUnit(unit: string): string {
+  const cleaned = cleanUnit(unit);
+  return UNIT_LOOKUP.get(cleaned)?.name ?? PACKAGE_LOOKUP.get(cleaned) ?? cleaned;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Drop floating point noise from a quantity (16 oz -> 1 lb, not 0.9999999999)
+ */
+export function roundQuantity(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Convert an amount between units
+ * density (g/ml) enables mass <-> volume conversion
+ * Returns null when the units can't be converted into each other
+ */
+export function convertQuantity(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  density?: number
+): number | null {
+  if (normalizeUnit(fromUnit) === normalizeUnit(toUnit)) {
+    return amount;
+  }
+
+  const from = findUnit(fromUnit);
+  const to = findUnit(toUnit);
+  if (!from || !to) return null;
+
+  const base = amount * from.factor;
+
+  if (from.dimension === to.dimension) {
+    return roundQuantity(base / to.factor);
+  }
+
+  if (density === undefined) return null;
+
+  if (from.dimension === 'volume' && to.dimension === 'mass') {
+    return roundQuantity((base * density) / to.factor);
+  }
+  if (from.dimension === 'mass' && to.dimension === 'volume') {
+    return roundQuantity(base / density / to.factor);
+  }
+
+  return null;
+}
+
+/**
+ * Raised when an amount can't be converted into a pantry item's unit
+ */
+export class IncompatibleUnitsError extends Error {
+  constructor(
+    readonly fromUnit: string,
+    readonly toUnit: string,
+    readonly itemName: string
+  ) {
+    super(`Incompatible units: cannot convert ${fromUnit} to ${toUnit} for ${itemName}`);
+    this.name = 'IncompatibleUnitsError';
+  }
+}
+
+/**
+ * Convert an amount into a pantry item's unit, through the item's density
+ * between weight and volume
+ * Throws an IncompatibleUnitsError when the units can't be converted
+ */
+export function convertToItemUnit(
+  amount: number,
+  unit: string,
+  item: { name: string; unit: string; density?: number }
+): number {
+  const converted = convertQuantity(amount, unit, item.unit, item.density);
+
+  if (converted === null) {
+    throw new IncompatibleUnitsError(unit, item.unit, item.name);
+  }
+
+  return converted;
+}
+
+/**
+ * Whether an error was raised by convertToItemUnit
+ */
+export function isIncompatibleUnitsError(error: unknown): error is IncompatibleUnitsError {
+  return error instanceof IncompatibleUnitsError;
+}
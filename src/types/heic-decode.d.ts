@@ -0,0 +1,21 @@
+/**
+ * heic-decode: HEIC (HEVC-coded HEIF) images decoded by libheif compiled to
+ * WebAssembly. The package ships no types
+ */
+
+declare module 'heic-decode' {
+  interface DecodedHeic {
+    width: number;
+    height: number;
+    /** RGBA, 4 bytes per pixel */
+    data: Uint8ClampedArray;
+  }
+
+  /**
+   * Decode the primary image. Rejects if the buffer isn't a HEIF image or
+   * can't be decoded
+   */
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedHeic>;
+
+  export = decode;
+}
@@ -0,0 +1,315 @@
+/**
+ * Admin Access Tests
+ * Staff role checks on admin and client error routes, role management, and
+ * the receipt job, Stripe webhook event and product sync routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+let mockTokenRoles: string[] = [];
+
+// Mock the database modules
+jest.mock('../src/db/operations', () => ({
+  getUserRoles: jest.fn(),
+  getRoleAssignments: jest.fn(),
+  grantRole: jest.fn(),
+  revokeRole: jest.fn(),
+  getRoleAuditLog: jest.fn(),
+  getReceiptJob: jest.fn(),
+  listReceiptJobs: jest.fn(),
+  retryReceiptJob: jest.fn(),
+  getStripeWebhookEvent: jest.fn(),
+  listStripeWebhookEvents: jest.fn(),
+  listProductSyncs: jest.fn(),
+  getProductSyncStats: jest.fn(),
+}));
+
+jest.mock('../src/services/stripe', () => ({
+  replayWebhookEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/subscription', () => ({
+  restoreReceiptScan: jest.fn(),
+}));
+
+jest.mock('../src/db/admin', () => ({
+  getDashboardMetrics: jest.fn(() => Promise.resolve({ users: { total: 3 } })),
+  getTransactions: jest.fn(() => Promise.resolve({ transactions: [] })),
+  getFailedPaymentAlerts: jest.fn(() => Promise.resolve({ count: 0, recent: [] })),
+}));
+
+jest.mock('../src/db', () => ({
+  getDatabase: jest.fn(() => ({
+    getClientErrors: jest.fn(() => Promise.resolve([])),
+    markErrorResolved: jest.fn(() => Promise.resolve()),
+    saveClientError: jest.fn(() => Promise.resolve({ id: 'error-1' })),
+  })),
+}));
+
+// Mock the auth middleware (role claims come from mockTokenRoles)
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    req.tokenRoles = mockTokenRoles as Request['tokenRoles'];
+    next();
+  }),
+}));
+
+import {
+  getUserRoles,
+  grantRole,
+  revokeRole,
+  getRoleAuditLog,
+  listReceiptJobs,
+  retryReceiptJob,
+  getStripeWebhookEvent,
+  listStripeWebhookEvents,
+  listProductSyncs,
+  getProductSyncStats,
+} from '../src/db/operations';
+import { getDashboardMetrics } from '../src/db/admin';
+import { replayWebhookEvent } from '../src/services/stripe';
+import { restoreReceiptScan } from '../src/services/subscription';
+import adminRouter from '../src/routes/admin';
+import clientErrorsRouter from '../src/routes/clientErrors';
+import { hasRole, rolesFromClaims } from '../src/services/roles';
+
+const USER_ID = 'test_user_123456';
+const JOB_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+describe('Role Service', () => {
+  it('should rank roles from read_only to admin', () => {
+    expect(hasRole(['support'], 'read_only')).toBe(true);
+    expect(hasRole(['support'], 'admin')).toBe(false);
+    expect(hasRole([], 'read_only')).toBe(false);
+  });
+
+  it('should read known roles from token claims', () => {
+    expect(rolesFromClaims({ sub: USER_ID, role: 'admin' })).toEqual(['admin']);
+    expect(rolesFromClaims({ metadata: { roles: ['support', 'owner', 'support'] } })).toEqual(['support']);
+    expect(rolesFromClaims({ sub: USER_ID })).toEqual([]);
+  });
+});
+
+describe('Admin API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTokenRoles = [];
+    (getUserRoles as jest.Mock).mockResolvedValue([]);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    app.use('/api/client-errors', clientErrorsRouter);
+  });
+
+  describe('staff access', () => {
+    it('should forbid signed-in users without a staff role', async () => {
+      const response = await request(app).get('/api/admin/dashboard');
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FORBIDDEN');
+      expect(getDashboardMetrics).not.toHaveBeenCalled();
+    });
+
+    it('should allow a locally granted read_only role', async () => {
+      (getUserRoles as jest.Mock).mockResolvedValue(['read_only']);
+
+      const response = await request(app).get('/api/admin/dashboard');
+
+      expect(response.status).toBe(200);
+      expect(getUserRoles).toHaveBeenCalledWith(USER_ID);
+    });
+
+    it('should allow a role from the token claims', async () => {
+      mockTokenRoles = ['support'];
+
+      const response = await request(app).get('/api/admin/alerts');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should protect the client error list and require support to resolve', async () => {
+      const anonymousList = await request(app).get('/api/client-errors');
+      expect(anonymousList.status).toBe(403);
+
+      (getUserRoles as jest.Mock).mockResolvedValue(['read_only']);
+      const list = await request(app).get('/api/client-errors');
+      const resolve = await request(app).patch('/api/client-errors/error-1/resolve');
+      expect(list.status).toBe(200);
+      expect(resolve.status).toBe(403);
+
+      (getUserRoles as jest.Mock).mockResolvedValue(['support']);
+      const supportResolve = await request(app).patch('/api/client-errors/error-1/resolve');
+      expect(supportResolve.status).toBe(200);
+    });
+
+    it('should still accept error reports from clients', async () => {
+      const response = await request(app).post('/api/client-errors').send({ type: 'TypeError', message: 'boom' });
+
+      expect(response.status).toBe(200);
+      expect(getUserRoles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('role management', () => {
+    it('should require admin to grant roles', async () => {
+      (getUserRoles as jest.Mock).mockResolvedValue(['support']);
+
+      const response = await request(app).post('/api/admin/roles').send({ userId: 'user_2', role: 'support' });
+
+      expect(response.status).toBe(403);
+      expect(grantRole).not.toHaveBeenCalled();
+    });
+
+    it('should grant a role as the signed-in admin', async () => {
+      mockTokenRoles = ['admin'];
+      (grantRole as jest.Mock).mockResolvedValue({ userId: 'user_2', role: 'support', grantedBy: USER_ID, grantedAt: '' });
+
+      const response = await request(app).post('/api/admin/roles').send({ userId: 'user_2', role: 'support' });
+
+      expect(response.status).toBe(201);
+      expect(grantRole).toHaveBeenCalledWith('user_2', 'support', USER_ID);
+    });
+
+    it('should return 409 for a role already held and 400 for an unknown role', async () => {
+      mockTokenRoles = ['admin'];
+      (grantRole as jest.Mock).mockResolvedValue(null);
+
+      const held = await request(app).post('/api/admin/roles').send({ userId: 'user_2', role: 'support' });
+      const unknown = await request(app).post('/api/admin/roles').send({ userId: 'user_2', role: 'owner' });
+
+      expect(held.status).toBe(409);
+      expect(unknown.status).toBe(400);
+    });
+
+    it('should revoke a role and refuse to revoke your own admin role', async () => {
+      mockTokenRoles = ['admin'];
+      (revokeRole as jest.Mock).mockResolvedValue(true);
+
+      const revoked = await request(app).delete('/api/admin/roles/user_2/support');
+      const self = await request(app).delete(`/api/admin/roles/${USER_ID}/admin`);
+
+      expect(revoked.status).toBe(200);
+      expect(revokeRole).toHaveBeenCalledWith('user_2', 'support', USER_ID);
+      expect(self.status).toBe(400);
+      expect(revokeRole).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 404 when revoking a role the user does not have', async () => {
+      mockTokenRoles = ['admin'];
+      (revokeRole as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/admin/roles/user_2/read_only');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should page through the audit log', async () => {
+      mockTokenRoles = ['admin'];
+      (getRoleAuditLog as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/admin/roles/audit?page=3&limit=10&userId=user_2');
+
+      expect(response.status).toBe(200);
+      expect(getRoleAuditLog).toHaveBeenCalledWith(10, 20, 'user_2');
+    });
+  });
+
+  describe('receipt jobs', () => {
+    it('should list failed jobs for read_only staff', async () => {
+      mockTokenRoles = ['read_only'];
+      (listReceiptJobs as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/admin/receipt-jobs?status=FAILED&page=2&limit=10');
+      const invalid = await request(app).get('/api/admin/receipt-jobs?status=LOST');
+
+      expect(response.status).toBe(200);
+      expect(listReceiptJobs).toHaveBeenCalledWith('FAILED', 10, 10);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should require support to retry a job, count its scan again and 404 when it has not failed', async () => {
+      mockTokenRoles = ['read_only'];
+      const forbidden = await request(app).post(`/api/admin/receipt-jobs/${JOB_ID}/retry`);
+      expect(forbidden.status).toBe(403);
+      expect(retryReceiptJob).not.toHaveBeenCalled();
+
+      mockTokenRoles = ['support'];
+      (retryReceiptJob as jest.Mock)
+        .mockResolvedValueOnce({ id: JOB_ID, userId: 'user_owner', status: 'PENDING', attempts: 0, createdAt: '2026-09-30T22:00:00.000Z' })
+        .mockResolvedValueOnce(null);
+
+      const retried = await request(app).post(`/api/admin/receipt-jobs/${JOB_ID}/retry`);
+      const notFailed = await request(app).post(`/api/admin/receipt-jobs/${JOB_ID}/retry`);
+
+      expect(retried.status).toBe(200);
+      expect(retried.body.data.status).toBe('PENDING');
+      expect(retryReceiptJob).toHaveBeenCalledWith(JOB_ID);
+      expect(restoreReceiptScan).toHaveBeenCalledTimes(1);
+      expect(restoreReceiptScan).toHaveBeenCalledWith('user_owner', '2026-09-30T22:00:00.000Z');
+      expect(notFailed.status).toBe(404);
+    });
+  });
+
+  describe('stripe events', () => {
+    it('should list failed events for read_only staff', async () => {
+      mockTokenRoles = ['read_only'];
+      (listStripeWebhookEvents as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/admin/stripe-events?status=FAILED&page=2&limit=10');
+      const invalid = await request(app).get('/api/admin/stripe-events?status=LOST');
+
+      expect(response.status).toBe(200);
+      expect(listStripeWebhookEvents).toHaveBeenCalledWith('FAILED', 10, 10);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should require support to replay an event and only replay failed ones', async () => {
+      mockTokenRoles = ['read_only'];
+      const forbidden = await request(app).post(`/api/admin/stripe-events/${JOB_ID}/replay`);
+      expect(forbidden.status).toBe(403);
+      expect(replayWebhookEvent).not.toHaveBeenCalled();
+
+      mockTokenRoles = ['support'];
+      (replayWebhookEvent as jest.Mock)
+        .mockResolvedValueOnce({ id: JOB_ID, status: 'PROCESSED', attempts: 2 })
+        .mockResolvedValue(null);
+      (getStripeWebhookEvent as jest.Mock)
+        .mockResolvedValueOnce({ id: JOB_ID, status: 'PROCESSED' })
+        .mockResolvedValueOnce(null);
+
+      const replayed = await request(app).post(`/api/admin/stripe-events/${JOB_ID}/replay`);
+      const processed = await request(app).post(`/api/admin/stripe-events/${JOB_ID}/replay`);
+      const missing = await request(app).post(`/api/admin/stripe-events/${JOB_ID}/replay`);
+
+      expect(replayed.status).toBe(200);
+      expect(replayed.body.data.status).toBe('PROCESSED');
+      expect(replayWebhookEvent).toHaveBeenCalledWith(JOB_ID);
+      expect(processed.status).toBe(409);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe('product sync', () => {
+    it('should show queue depth and failed barcodes to staff', async () => {
+      mockTokenRoles = ['read_only'];
+      (getProductSyncStats as jest.Mock).mockResolvedValue({ queued: 4, due: 1, failed: 2 });
+      (listProductSyncs as jest.Mock).mockResolvedValue([
+        { barcode: '00036000291452', status: 'FAILED', attempts: 5, lastError: 'Product not found in Open Food Facts', updatedAt: '2026-10-18T10:30:00Z' },
+      ]);
+
+      const response = await request(app).get('/api/admin/product-sync?status=FAILED&limit=10');
+      const invalid = await request(app).get('/api/admin/product-sync?status=SYNCED');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ queued: 4, due: 1, failed: 2, maxAttempts: 5 });
+      expect(response.body.data.entries[0].lastError).toBe('Product not found in Open Food Facts');
+      expect(listProductSyncs).toHaveBeenCalledWith('FAILED', 10, 0);
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
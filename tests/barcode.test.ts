@@ -0,0 +1,255 @@
+/**
+ * Barcode Tests
+ * GTIN check digits, UPC-E expansion, normalization and the barcode lookup routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database modules
+jest.mock('../src/db', () => ({
+  getDatabase: jest.fn(),
+}));
+
+jest.mock('../src/db/operations', () => ({
+  enqueueProductSync: jest.fn(),
+  getCatalogProduct: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import { getDatabase } from '../src/db';
+import { enqueueProductSync, getCatalogProduct } from '../src/db/operations';
+import { gs1CheckDigit, expandUpcE, parseGtin, normalizeBarcode, shortGtin } from '../src/services/barcode';
+import { createItemSchema } from '../src/models/validation';
+import { OpenFoodFactsClient, setOpenFoodFactsClient } from '../src/services/openFoodFacts';
+import barcodeRouter from '../src/routes/barcode';
+
+describe('Barcode Service', () => {
+  it('should compute GS1 check digits', () => {
+    expect(gs1CheckDigit('03600029145')).toBe(2);
+    expect(gs1CheckDigit('400638133393')).toBe(1);
+    expect(gs1CheckDigit('9638507')).toBe(4);
+  });
+
+  it('should expand UPC-E codes for each last-digit rule', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264');
+    expect(expandUpcE('01234531')).toBe('012300000451');
+    expect(expandUpcE('01234558')).toBe('012345000058');
+    expect(expandUpcE('04252615')).toBeNull();
+    expect(expandUpcE('96385074')).toBeNull();
+  });
+
+  it('should read every form of a product as the same GTIN-14', () => {
+    expect(parseGtin('036000291452')).toEqual({ gtin14: '00036000291452', format: 'UPC-A' });
+    expect(parseGtin('0036000291452')).toEqual({ gtin14: '00036000291452', format: 'EAN-13' });
+    expect(parseGtin('10036000291459')).toEqual({ gtin14: '10036000291459', format: 'GTIN-14' });
+    expect(parseGtin('04252614')).toEqual({ gtin14: '00042100005264', format: 'UPC-E' });
+    expect(parseGtin('042100005264')!.gtin14).toBe(parseGtin('04252614')!.gtin14);
+    expect(parseGtin('96385074')).toEqual({ gtin14: '00000096385074', format: 'EAN-8' });
+    expect(parseGtin('4006-3813-3393-1')).toEqual({ gtin14: '04006381333931', format: 'EAN-13' });
+  });
+
+  it('should reject wrong check digits and lengths', () => {
+    expect(parseGtin('036000291453')).toBeNull();
+    expect(parseGtin('96385075')).toBeNull();
+    expect(parseGtin('12345')).toBeNull();
+    expect(parseGtin('SHOP-42')).toBeNull();
+  });
+
+  it('should keep codes that aren\'t GTINs and refuse GTIN typos', () => {
+    expect(normalizeBarcode(' 036000291452 ')).toBe('00036000291452');
+    expect(normalizeBarcode('SHOP-42')).toBe('SHOP-42');
+    expect(normalizeBarcode('12345')).toBe('12345');
+    expect(normalizeBarcode('036000291453')).toBeNull();
+  });
+
+  it('should shorten GTIN-14s to the EAN form Open Food Facts uses', () => {
+    expect(shortGtin('00036000291452')).toBe('0036000291452');
+    expect(shortGtin('00000096385074')).toBe('96385074');
+    expect(shortGtin('10036000291459')).toBe('10036000291459');
+  });
+
+  it('should store item barcodes normalized', () => {
+    const item = { name: 'Cola', quantity: 1, unit: 'cans', category: 'beverages' };
+
+    expect(createItemSchema.parse({ ...item, barcode: '036000291452' }).barcode).toBe('00036000291452');
+    expect(createItemSchema.safeParse({ ...item, barcode: '036000291453' }).success).toBe(false);
+  });
+});
+
+describe('Barcode Routes', () => {
+  let app: express.Application;
+  let mockDb: Record<string, jest.Mock>;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockDb = {
+      getProductByBarcode: jest.fn().mockResolvedValue(null),
+      saveProduct: jest.fn().mockResolvedValue(undefined),
+      saveCatalogProduct: jest.fn().mockResolvedValue(undefined),
+      getItemByBarcode: jest.fn().mockResolvedValue(null),
+      createItem: jest.fn().mockResolvedValue({ id: 'item_1' }),
+    };
+    (getDatabase as jest.Mock).mockReturnValue(mockDb);
+    (getCatalogProduct as jest.Mock).mockResolvedValue(null);
+    setOpenFoodFactsClient(null);
+    fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ status: 1, product: { product_name: 'Cola', categories: 'Beverages' } }))
+    );
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/barcode', barcodeRouter);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should look UPC-A codes up by their EAN-13 and cache them under the GTIN-14', async () => {
+    const response = await request(app).get('/api/barcode/036000291452');
+
+    expect(response.status).toBe(200);
+    expect(mockDb.getProductByBarcode).toHaveBeenCalledWith('00036000291452', expect.any(Number));
+    expect(fetchSpy.mock.calls[0][0]).toMatch(/\/0036000291452\.json$/);
+    expect(mockDb.saveProduct).toHaveBeenCalledWith(expect.objectContaining({ barcode: '00036000291452', name: 'Cola' }));
+    expect(response.body.product.barcode).toBe('00036000291452');
+  });
+
+  it('should reject typos without calling Open Food Facts', async () => {
+    const typo = await request(app).get('/api/barcode/036000291453');
+    const short = await request(app).get('/api/barcode/1234567');
+
+    expect(typo.status).toBe(400);
+    expect(typo.body.error).toBe('Invalid barcode check digit');
+    expect(short.status).toBe(400);
+    expect(mockDb.getProductByBarcode).not.toHaveBeenCalled();
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should serve stale cache without refreshing while Open Food Facts is unavailable', async () => {
+    const client = new OpenFoodFactsClient();
+    jest.spyOn(client, 'isAvailable').mockReturnValue(false);
+    setOpenFoodFactsClient(client);
+    mockDb.getProductByBarcode.mockImplementation(async (_barcode, maxAgeDays) =>
+      maxAgeDays === undefined ? { barcode: '00036000291452', name: 'Cola' } : null
+    );
+
+    const response = await request(app).get('/api/barcode/036000291452');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, cached: true, stale: true });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should answer 503 with Retry-After for a miss while Open Food Facts is limiting us', async () => {
+    fetchSpy.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '90' } }));
+
+    const limited = await request(app).get('/api/barcode/036000291452');
+    const refused = await request(app).get('/api/barcode/4006381333931');
+
+    expect(limited.status).toBe(503);
+    expect(limited.headers['retry-after']).toBe('90');
+    expect(limited.body).toMatchObject({ success: false, rateLimited: true, retryAfter: 90 });
+    expect(refused.status).toBe(503);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(mockDb.saveProduct).not.toHaveBeenCalled();
+  });
+
+  it('should queue failed lookups for a background retry', async () => {
+    fetchSpy.mockResolvedValue(new Response(JSON.stringify({ status: 0 })));
+
+    const response = await request(app).get('/api/barcode/036000291452');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({
+      success: false,
+      queued: true,
+      error: 'Product not found in the catalog; Product not found in Open Food Facts',
+    });
+    expect(enqueueProductSync).toHaveBeenCalledWith(
+      '00036000291452',
+      'Product not found in the catalog; Product not found in Open Food Facts',
+      expect.any(String)
+    );
+  });
+
+  it('should fill in catalog products from Open Food Facts and record where each field came from', async () => {
+    (getCatalogProduct as jest.Mock).mockResolvedValue({ barcode: '00036000291452', name: 'Coke', brand: 'Coca-Cola', category: 'beverages' });
+    fetchSpy.mockResolvedValue(new Response(JSON.stringify({
+      status: 1,
+      product: { product_name: 'Cola', brands: 'Coca Cola', image_url: 'https://images.example/cola.jpg', ingredients_text: 'Water' },
+    })));
+
+    const response = await request(app).get('/api/barcode/036000291452');
+
+    expect(response.status).toBe(200);
+    expect(response.body.product).toMatchObject({
+      name: 'Coke',
+      brand: 'Coca-Cola',
+      imageUrl: 'https://images.example/cola.jpg',
+      ingredients: 'Water',
+      source: 'catalog',
+      provenance: { name: 'catalog', brand: 'catalog', category: 'catalog', imageUrl: 'openfoodfacts', ingredients: 'openfoodfacts' },
+    });
+    expect(mockDb.saveProduct).toHaveBeenCalledWith(expect.objectContaining({
+      provenance: expect.objectContaining({ imageUrl: 'openfoodfacts' }),
+    }));
+  });
+
+  it('should add products saved by barcode to the catalog', async () => {
+    mockDb.saveCatalogProduct.mockResolvedValue({
+      barcode: '00036000291452',
+      name: 'Coke',
+      brand: 'Coca-Cola',
+      category: 'beverages',
+      contributedBy: 'test_user_123456',
+    });
+
+    const response = await request(app)
+      .post('/api/barcode/036000291452')
+      .send({ name: 'Coke', category: 'beverages', brand: 'Coca-Cola' });
+
+    expect(response.status).toBe(201);
+    expect(mockDb.saveCatalogProduct).toHaveBeenCalledWith(
+      { barcode: '00036000291452', name: 'Coke', brand: 'Coca-Cola', category: 'beverages', imageUrl: undefined },
+      'test_user_123456'
+    );
+    expect(response.body.product).toMatchObject({
+      source: 'catalog',
+      provenance: { name: 'catalog', brand: 'catalog', category: 'catalog' },
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should keep another user\'s catalog product when saving the same barcode', async () => {
+    const cached = { barcode: '00036000291452', name: 'Coke', brand: 'Coca-Cola', category: 'beverages' };
+    mockDb.saveCatalogProduct.mockResolvedValue({ ...cached, contributedBy: 'other_user' });
+    mockDb.getProductByBarcode.mockResolvedValue(cached);
+
+    const response = await request(app)
+      .post('/api/barcode/036000291452')
+      .send({ name: 'Free Money', category: 'other', brand: 'Prank Co' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.product).toEqual(cached);
+    expect(mockDb.saveProduct).not.toHaveBeenCalled();
+    expect(mockDb.createItem).toHaveBeenCalledWith('test_user_123456', expect.objectContaining({ name: 'Free Money' }));
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Budget Tests
+ * Period bounds, budget status projection and the budget routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getBudgets: jest.fn(),
+  createBudget: jest.fn(),
+  updateBudget: jest.fn(),
+  deleteBudget: jest.fn(),
+  getSessionSpend: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getBudgets,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+  getSessionSpend,
+} from '../src/db/operations';
+import budgetsRouter from '../src/routes/budgets';
+import { periodBounds, buildBudgetStatus } from '../src/services/budget';
+import { Budget, SessionSpend } from '../src/models/budget';
+
+const USER_ID = 'test_user_123456';
+const BUDGET_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function budget(overrides: Partial<Budget>): Budget {
+  return {
+    id: BUDGET_ID,
+    userId: USER_ID,
+    period: 'month',
+    amount: 100,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function spend(overrides: Partial<SessionSpend>): SessionSpend {
+  return {
+    sessionId: 'session-1',
+    storeName: 'Aldi',
+    completedAt: '2024-04-05T10:00:00.000Z',
+    totalAmount: 30,
+    categories: [{ category: 'dairy', amount: 10 }],
+    ...overrides,
+  };
+}
+
+describe('Budget Service', () => {
+  it('should compute week, month and year bounds', () => {
+    expect(periodBounds('2024-04-10', 'week')).toEqual({ key: '2024-04-08', start: '2024-04-08', end: '2024-04-14' });
+    expect(periodBounds('2024-04-14', 'week').start).toBe('2024-04-08');
+    expect(periodBounds('2024-02-10', 'month')).toEqual({ key: '2024-02', start: '2024-02-01', end: '2024-02-29' });
+    expect(periodBounds('2024-12-31', 'month').end).toBe('2024-12-31');
+    expect(periodBounds('2024-06-01', 'year')).toEqual({ key: '2024', start: '2024-01-01', end: '2024-12-31' });
+  });
+
+  it('should project spend for the rest of the period', () => {
+    const status = buildBudgetStatus(budget({}), [
+      spend({ completedAt: '2024-03-31T10:00:00.000Z' }),
+      spend({}),
+      spend({ sessionId: 'session-2', completedAt: '2024-04-09T10:00:00.000Z', totalAmount: 30 }),
+      spend({ sessionId: 'session-3', completedAt: '2024-04-11T10:00:00.000Z' }),
+    ], '2024-04-10');
+
+    expect(status).toMatchObject({
+      periodStart: '2024-04-01',
+      periodEnd: '2024-04-30',
+      spent: 60,
+      remaining: 40,
+      percentUsed: 60,
+      projectedSpend: 180,
+      projectedOverspend: 80,
+      overBudget: false,
+    });
+  });
+
+  it('should count only the budget category for category budgets', () => {
+    const status = buildBudgetStatus(budget({ category: 'Dairy', amount: 15 }), [
+      spend({}),
+      spend({ sessionId: 'session-2', categories: [{ category: 'DAIRY', amount: 8 }] }),
+    ], '2024-04-30');
+
+    expect(status).toMatchObject({ spent: 18, remaining: -3, projectedOverspend: 3, overBudget: true });
+  });
+});
+
+describe('Budget API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/budgets', budgetsRouter);
+  });
+
+  describe('GET /api/budgets/status', () => {
+    it('should read spend from the earliest period start', async () => {
+      (getBudgets as jest.Mock).mockResolvedValue([
+        budget({}),
+        budget({ id: 'budget-2', period: 'week', category: 'dairy', amount: 20 }),
+      ]);
+      (getSessionSpend as jest.Mock).mockResolvedValue([spend({ completedAt: '2024-04-09T10:00:00.000Z' })]);
+
+      const response = await request(app).get('/api/budgets/status?date=2024-04-10');
+
+      expect(response.status).toBe(200);
+      expect(getSessionSpend).toHaveBeenCalledWith(USER_ID, '2024-04-01', '2024-04-10');
+      expect(response.body.data.map((s: { spent: number }) => s.spent)).toEqual([30, 10]);
+      expect(response.body.meta).toMatchObject({ count: 2, date: '2024-04-10' });
+    });
+
+    it('should skip the spend lookup without budgets', async () => {
+      (getBudgets as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/budgets/status');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([]);
+      expect(getSessionSpend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/budgets', () => {
+    it('should create a budget', async () => {
+      (createBudget as jest.Mock).mockResolvedValue(budget({ category: 'dairy' }));
+
+      const response = await request(app)
+        .post('/api/budgets')
+        .send({ period: 'month', category: ' dairy ', amount: 100 });
+
+      expect(response.status).toBe(201);
+      expect(createBudget).toHaveBeenCalledWith(USER_ID, { period: 'month', category: 'dairy', amount: 100 });
+    });
+
+    it('should return 409 when the budget already exists', async () => {
+      (createBudget as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).post('/api/budgets').send({ period: 'week', amount: 50 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+      expect(response.body.error.message).toBe('A weekly budget for all spending already exists');
+    });
+
+    it('should reject invalid periods and amounts', async () => {
+      const period = await request(app).post('/api/budgets').send({ period: 'day', amount: 50 });
+      const amount = await request(app).post('/api/budgets').send({ period: 'week', amount: 0 });
+
+      expect(period.status).toBe(400);
+      expect(amount.status).toBe(400);
+      expect(createBudget).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/budgets/:id', () => {
+    it('should update the amount or return 404', async () => {
+      (updateBudget as jest.Mock).mockResolvedValueOnce(budget({ amount: 120 })).mockResolvedValueOnce(null);
+
+      const updated = await request(app).put(`/api/budgets/${BUDGET_ID}`).send({ amount: 120 });
+      const missing = await request(app).put(`/api/budgets/${BUDGET_ID}`).send({ amount: 120 });
+
+      expect(updated.status).toBe(200);
+      expect(updateBudget).toHaveBeenCalledWith(USER_ID, BUDGET_ID, 120);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/budgets/:id', () => {
+    it('should delete a budget or return 404', async () => {
+      (deleteBudget as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const deleted = await request(app).delete(`/api/budgets/${BUDGET_ID}`);
+      const missing = await request(app).delete(`/api/budgets/${BUDGET_ID}`);
+      const invalid = await request(app).delete('/api/budgets/not-a-uuid');
+
+      expect(deleted.body.data).toEqual({ deleted: true, id: BUDGET_ID });
+      expect(missing.status).toBe(404);
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -4,8 +4,23 @@
  * Priority: P0 - Database operations with SQLite
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
 import { SQLiteAdapter } from '../src/db/sqlite';
 import { CreateItemInput, UpdateItemInput } from '../src/db/adapter';
+import { getDatabase, closeDatabase } from '../src/db';
+import {
+  getOrCreateUserSubscription,
+  updateUserSubscription,
+  incrementUsage,
+  reserveReceiptScan,
+  releaseReceiptScan,
+  restoreReceiptScan,
+  getUsageLimits,
+} from '../src/services/subscription';
+import { IncompatibleUnitsError } from '../src/services/units';
 import { createTestUserId } from './test-utils';
 
 describe('Database Operations', () => {
@@ -592,4 +607,1473 @@ describe('Database Operations', () => {
       expect(result).toBeNull();
     });
   });
+
+  // ============================================================================
+  // Item Lots
+  // ============================================================================
+  describe('item lots', () => {
+    const milk: CreateItemInput = {
+      name: 'Milk',
+      quantity: 0,
+      unit: 'cartons',
+      category: 'dairy',
+    };
+
+    it('should open a lot with dates for each ADD activity', async () => {
+      const item = await db.createItem(testUserId, milk);
+
+      await db.logActivity(testUserId, item.id, 'ADD', 2, 'MANUAL', {
+        purchaseDate: '2024-01-10',
+        bestBefore: '2024-01-17',
+      });
+
+      const lots = await db.getItemLots(testUserId, item.id);
+      expect(lots).toHaveLength(1);
+      expect(lots[0].quantity).toBe(2);
+      expect(lots[0].initialQuantity).toBe(2);
+      expect(lots[0].purchaseDate).toBe('2024-01-10');
+      expect(lots[0].bestBefore).toBe('2024-01-17');
+    });
+
+    it('should create an opening lot when an item is created with stock', async () => {
+      const item = await db.createItem(testUserId, { ...milk, quantity: 3, bestBefore: '2024-02-01' });
+
+      const lots = await db.getItemLots(testUserId, item.id);
+      expect(lots).toHaveLength(1);
+      expect(lots[0].quantity).toBe(3);
+      expect(lots[0].bestBefore).toBe('2024-02-01');
+    });
+
+    it('should not create a lot for an empty item', async () => {
+      const item = await db.createItem(testUserId, milk);
+
+      expect(await db.getItemLots(testUserId, item.id)).toEqual([]);
+    });
+
+    it('should consume lots first-expiring-first on REMOVE', async () => {
+      const item = await db.createItem(testUserId, milk);
+
+      await db.logActivity(testUserId, item.id, 'ADD', 2, 'MANUAL', { bestBefore: '2024-01-20' });
+      await db.logActivity(testUserId, item.id, 'ADD', 1);
+      await db.logActivity(testUserId, item.id, 'ADD', 2, 'MANUAL', { bestBefore: '2024-01-15' });
+
+      await db.logActivity(testUserId, item.id, 'REMOVE', 3);
+
+      const lots = await db.getItemLots(testUserId, item.id);
+      expect(lots.map((lot) => [lot.bestBefore, lot.quantity])).toEqual([
+        ['2024-01-20', 1],
+        [undefined, 1],
+      ]);
+      expect((await db.getItemById(testUserId, item.id))?.quantity).toBe(2);
+    });
+
+    it('should draw down lots when quantity is edited directly', async () => {
+      const item = await db.createItem(testUserId, { ...milk, quantity: 4 });
+
+      await db.updateItem(testUserId, item.id, { quantity: 1 });
+
+      const lots = await db.getItemLots(testUserId, item.id);
+      expect(lots).toHaveLength(1);
+      expect(lots[0].quantity).toBe(1);
+    });
+
+    it('should remove lots along with their item', async () => {
+      const item = await db.createItem(testUserId, { ...milk, quantity: 2 });
+
+      await db.deleteItem(testUserId, item.id);
+
+      expect(await db.getItemLots(testUserId, item.id)).toEqual([]);
+    });
+
+    it('should open dated lots when importing a shopping session', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Grocer' });
+      await db.addSessionItem(testUserId, session.id, {
+        barcode: '0123456789012',
+        name: 'Yogurt',
+        quantity: 4,
+        bestBefore: '2024-03-01',
+      });
+      const completed = await db.completeSession(testUserId, session.id, {});
+
+      const result = await db.addSessionToInventory(testUserId, session.id);
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].quantity).toBe(4);
+      const lots = await db.getItemLots(testUserId, result.items[0].id);
+      expect(lots).toHaveLength(1);
+      expect(lots[0].bestBefore).toBe('2024-03-01');
+      expect(lots[0].purchaseDate).toBe(completed?.completedAt?.slice(0, 10));
+      expect(lots[0].source).toBe('RECEIPT_SCAN');
+    });
+
+    it('should give stock held before lot tracking one undated lot on startup', async () => {
+      // Items stocked before lots existed can only be written directly
+      const sqlite = (db as unknown as { getDatabase(): Database.Database }).getDatabase();
+      sqlite.prepare(`
+        INSERT INTO pantry_items (id, user_id, name, quantity, unit, category, last_updated, created_at)
+        VALUES ('old-milk', ?, 'Milk', 2, 'cartons', 'dairy', '2024-01-15', '2024-01-15T09:30:00.000Z'),
+               ('old-empty', ?, 'Flour', 0, 'bags', 'pantry', '2024-01-15', '2024-01-15T09:30:00.000Z')
+      `).run(testUserId, testUserId);
+      const lotted = await db.createItem(testUserId, { ...milk, quantity: 3 });
+
+      (db as unknown as { initializeSchema(): void }).initializeSchema();
+      (db as unknown as { initializeSchema(): void }).initializeSchema();
+
+      expect(await db.getItemLots(testUserId, 'old-milk')).toEqual([
+        expect.objectContaining({ itemId: 'old-milk', quantity: 2, initialQuantity: 2, purchaseDate: '2024-01-15', bestBefore: undefined }),
+      ]);
+      expect(await db.getItemLots(testUserId, 'old-empty')).toEqual([]);
+      expect(await db.getItemLots(testUserId, lotted.id)).toHaveLength(1);
+
+      await db.logActivity(testUserId, 'old-milk', 'REMOVE', 1);
+      expect((await db.getItemLots(testUserId, 'old-milk'))[0].quantity).toBe(1);
+    });
+
+    it('should backfill lots for existing stock in migration 032', () => {
+      const sqlite = new Database(':memory:');
+      sqlite.exec(`
+        CREATE TABLE pantry_items (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, quantity REAL NOT NULL, created_at TEXT NOT NULL);
+        CREATE TABLE item_lots (
+          id TEXT PRIMARY KEY,
+          item_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          initial_quantity REAL NOT NULL,
+          purchase_date TEXT NOT NULL,
+          best_before TEXT,
+          source TEXT NOT NULL DEFAULT 'MANUAL',
+          created_at TEXT NOT NULL
+        );
+        INSERT INTO pantry_items VALUES ('i1', 'u1', 2.5, '2024-01-15 09:30:00'), ('i2', 'u1', 0, '2024-01-15 09:30:00'), ('i3', 'u1', 4, '2024-02-01 08:00:00');
+        INSERT INTO item_lots VALUES ('l3', 'i3', 'u1', 4, 4, '2024-02-01', '2024-03-01', 'RECEIPT_SCAN', '2024-02-01 08:00:00');
+      `);
+
+      sqlite.exec(fs.readFileSync(path.join(__dirname, '../src/db/migrations/032_backfill_item_lots.sql'), 'utf-8'));
+
+      expect(sqlite.prepare('SELECT item_id, quantity, purchase_date, best_before, source FROM item_lots ORDER BY item_id').all()).toEqual([
+        { item_id: 'i1', quantity: 2.5, purchase_date: '2024-01-15', best_before: null, source: 'MANUAL' },
+        { item_id: 'i3', quantity: 4, purchase_date: '2024-02-01', best_before: '2024-03-01', source: 'RECEIPT_SCAN' },
+      ]);
+      sqlite.close();
+    });
+  });
+
+  // ============================================================================
+  // Expiry & Waste
+  // ============================================================================
+  describe('expiry and waste', () => {
+    const dayOffset = (days: number) =>
+      new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    it('should list lots expiring on or before the cutoff, soonest first', async () => {
+      const milk = await db.createItem(testUserId, { name: 'Milk', quantity: 0, unit: 'cartons', category: 'dairy' });
+      const rice = await db.createItem(testUserId, { name: 'Rice', quantity: 0, unit: 'kg', category: 'pantry' });
+
+      await db.logActivity(testUserId, milk.id, 'ADD', 1, 'MANUAL', { bestBefore: dayOffset(3) });
+      await db.logActivity(testUserId, milk.id, 'ADD', 1, 'MANUAL', { bestBefore: dayOffset(-1) });
+      await db.logActivity(testUserId, rice.id, 'ADD', 2, 'MANUAL', { bestBefore: dayOffset(300) });
+      await db.logActivity(testUserId, rice.id, 'ADD', 2);
+
+      const lots = await db.getExpiringLots(testUserId, dayOffset(7));
+
+      expect(lots.map((lot) => lot.bestBefore)).toEqual([dayOffset(-1), dayOffset(3)]);
+      expect(lots[0].itemName).toBe('Milk');
+      expect(lots[0].category).toBe('dairy');
+    });
+
+    it('should report expired lots priced from shopping history', async () => {
+      const session = await db.createSession(testUserId, {});
+      await db.addSessionItem(testUserId, session.id, { barcode: '0001', name: 'Milk', quantity: 1, price: 3 });
+      await db.addSessionItem(testUserId, session.id, { barcode: '0001', name: 'Milk', quantity: 1, price: 4 });
+      await db.completeSession(testUserId, session.id, {});
+
+      const milk = await db.createItem(testUserId, {
+        name: 'Whole Milk', barcode: '0001', quantity: 0, unit: 'cartons', category: 'dairy',
+      });
+      const herbs = await db.createItem(testUserId, { name: 'Basil', quantity: 0, unit: 'bunch', category: 'produce' });
+
+      await db.logActivity(testUserId, milk.id, 'ADD', 2, 'MANUAL', { bestBefore: dayOffset(-2) });
+      await db.logActivity(testUserId, herbs.id, 'ADD', 1, 'MANUAL', { bestBefore: dayOffset(-1) });
+      await db.logActivity(testUserId, herbs.id, 'ADD', 1, 'MANUAL', { bestBefore: dayOffset(5) });
+
+      const entries = await db.getWasteEntries(testUserId, dayOffset(-30), dayOffset(30));
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ itemName: 'Whole Milk', quantity: 2, unitPrice: 3.5 });
+      expect(entries[1]).toMatchObject({ itemName: 'Basil', quantity: 1 });
+      expect(entries[1].unitPrice).toBeUndefined();
+    });
+
+    it('should not report lots that were used up before expiring', async () => {
+      const item = await db.createItem(testUserId, { name: 'Bread', quantity: 0, unit: 'loaf', category: 'bakery' });
+      await db.logActivity(testUserId, item.id, 'ADD', 1, 'MANUAL', { bestBefore: dayOffset(-1) });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1);
+
+      expect(await db.getWasteEntries(testUserId, dayOffset(-30), dayOffset(0))).toEqual([]);
+    });
+
+    it('should report stock removed as expired or spoiled', async () => {
+      const item = await db.createItem(testUserId, { name: 'Yogurt', quantity: 4, unit: 'cups', category: 'dairy' });
+      const spoiled = await db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { reason: 'SPOILED' });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { reason: 'CONSUMED' });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { reason: 'DONATED' });
+
+      const entries = await db.getWasteEntries(testUserId, dayOffset(-1), dayOffset(1));
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        itemName: 'Yogurt',
+        quantity: 1,
+        date: dayOffset(0),
+        activityId: spoiled!.id,
+        reason: 'SPOILED',
+      });
+      expect(entries[0].lotId).toBeUndefined();
+    });
+  });
+
+  describe('activity reasons', () => {
+    it('should store the reason on the activity', async () => {
+      const item = await db.createItem(testUserId, { name: 'Eggs', quantity: 12, unit: 'pcs', category: 'dairy' });
+      const activity = await db.logActivity(testUserId, item.id, 'REMOVE', 2, 'MANUAL', { reason: 'CONSUMED' });
+
+      expect(activity!.reason).toBe('CONSUMED');
+
+      const [stored] = await db.getActivities(testUserId);
+      expect(stored.reason).toBe('CONSUMED');
+    });
+
+    it('should leave the reason unset when none is given', async () => {
+      const item = await db.createItem(testUserId, { name: 'Eggs', quantity: 12, unit: 'pcs', category: 'dairy' });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 2);
+
+      const [stored] = await db.getActivities(testUserId);
+      expect(stored.reason).toBeUndefined();
+    });
+
+    it('should filter activities and counts by reason', async () => {
+      const item = await db.createItem(testUserId, { name: 'Eggs', quantity: 12, unit: 'pcs', category: 'dairy' });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 2, 'MANUAL', { reason: 'CONSUMED' });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { reason: 'EXPIRED' });
+      await db.logActivity(testUserId, item.id, 'ADJUST', 1, 'MANUAL', { reason: 'INVENTORY_CORRECTION' });
+
+      const expired = await db.getActivities(testUserId, 20, 0, undefined, 'EXPIRED');
+
+      expect(expired).toHaveLength(1);
+      expect(expired[0].amount).toBe(1);
+      expect(await db.getActivityCount(testUserId, undefined, 'EXPIRED')).toBe(1);
+      expect(await db.getActivityCount(testUserId, item.id, 'CONSUMED')).toBe(1);
+    });
+
+    it('should record visual usage as consumed', async () => {
+      await db.createItem(testUserId, { name: 'Apples', quantity: 5, unit: 'pcs', category: 'produce' });
+
+      const result = await db.processVisualUsage(testUserId, [{ name: 'Apples', quantityUsed: 2 }]);
+
+      expect(result.activities[0].reason).toBe('CONSUMED');
+    });
+  });
+
+  describe('shopping list', () => {
+    it('should add an item to the list when it drops below its minimum', async () => {
+      const item = await db.createItem(testUserId, {
+        name: 'Milk', quantity: 4, unit: 'cartons', category: 'dairy', minQuantity: 2, targetQuantity: 6,
+      });
+
+      await db.logActivity(testUserId, item.id, 'REMOVE', 3);
+
+      const list = await db.getShoppingList(testUserId);
+      expect(list).toHaveLength(1);
+      expect(list[0]).toMatchObject({
+        itemId: item.id, name: 'Milk', quantity: 5, unit: 'cartons', source: 'AUTO', checked: false,
+      });
+    });
+
+    it('should restock to the minimum when no target is set', async () => {
+      const item = await db.createItem(testUserId, { name: 'Eggs', quantity: 6, unit: 'pcs', category: 'dairy', minQuantity: 4 });
+
+      await db.adjustItemQuantity(testUserId, item.id, -5);
+
+      const [entry] = await db.getShoppingList(testUserId);
+      expect(entry.quantity).toBe(3);
+    });
+
+    it('should not add a second entry while one is outstanding', async () => {
+      const item = await db.createItem(testUserId, { name: 'Rice', quantity: 5, unit: 'kg', category: 'pantry', minQuantity: 3 });
+
+      await db.logActivity(testUserId, item.id, 'REMOVE', 3);
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1);
+
+      expect(await db.getShoppingList(testUserId)).toHaveLength(1);
+    });
+
+    it('should drop the automatic entry once the item is restocked', async () => {
+      const item = await db.createItem(testUserId, { name: 'Rice', quantity: 5, unit: 'kg', category: 'pantry', minQuantity: 3 });
+      await db.logActivity(testUserId, item.id, 'REMOVE', 3);
+      await db.addShoppingListItem(testUserId, { name: 'Coffee', quantity: 1 });
+
+      await db.logActivity(testUserId, item.id, 'ADD', 4);
+
+      const list = await db.getShoppingList(testUserId);
+      expect(list.map((entry) => entry.name)).toEqual(['Coffee']);
+    });
+
+    it('should ignore items without a minimum', async () => {
+      const item = await db.createItem(testUserId, { name: 'Salt', quantity: 1, unit: 'box', category: 'pantry' });
+
+      await db.logActivity(testUserId, item.id, 'REMOVE', 1);
+
+      expect(await db.getShoppingList(testUserId)).toEqual([]);
+    });
+
+    it('should store thresholds and clear them on update', async () => {
+      const item = await db.createItem(testUserId, { name: 'Flour', quantity: 2, unit: 'kg', category: 'baking', minQuantity: 1 });
+      expect((await db.getItemById(testUserId, item.id))!.minQuantity).toBe(1);
+
+      const updated = await db.updateItem(testUserId, item.id, { minQuantity: null });
+
+      expect(updated!.minQuantity).toBeUndefined();
+    });
+
+    it('should check off, filter and delete entries', async () => {
+      const bread = await db.addShoppingListItem(testUserId, { name: 'Bread', quantity: 1 });
+      const jam = await db.addShoppingListItem(testUserId, { name: 'Jam', quantity: 2 });
+
+      const checked = await db.updateShoppingListItem(testUserId, bread.id, { checked: true });
+      expect(checked!.checked).toBe(true);
+      expect(checked!.checkedAt).toBeDefined();
+
+      expect((await db.getShoppingList(testUserId, true)).map((entry) => entry.id)).toEqual([bread.id]);
+      expect((await db.getShoppingList(testUserId, false)).map((entry) => entry.id)).toEqual([jam.id]);
+
+      expect(await db.deleteShoppingListItems(testUserId, [bread.id, jam.id])).toBe(2);
+      expect(await db.getShoppingList(testUserId)).toEqual([]);
+    });
+
+    it('should not touch another user\'s entries', async () => {
+      const entry = await db.addShoppingListItem(testUserId, { name: 'Bread', quantity: 1 });
+
+      expect(await db.updateShoppingListItem('other_user', entry.id, { checked: true })).toBeNull();
+      expect(await db.deleteShoppingListItem('other_user', entry.id)).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Households
+  // ============================================================================
+  describe('households', () => {
+    it('should move the owner\'s inventory into a new household', async () => {
+      const item = await db.createItem(testUserId, { name: 'Rice', quantity: 2, unit: 'kg', category: 'pantry' });
+      await db.logActivity(testUserId, item.id, 'ADD', 1);
+
+      const household = await db.createHousehold(testUserId, 'Home');
+
+      expect(household.inviteCode).toHaveLength(8);
+      expect(await db.getAllItems(testUserId)).toEqual([]);
+      expect((await db.getItemById(household.id, item.id))!.name).toBe('Rice');
+      const lots = await db.getItemLots(household.id, item.id);
+      expect(lots).toHaveLength(2);
+      expect(lots.every((lot) => lot.userId === household.id)).toBe(true);
+      expect(await db.getActivityCount(household.id)).toBe(1);
+      expect(await db.getActivityCount(testUserId)).toBe(0);
+    });
+
+    it('should move sessions into a household in a database migrated from 008', async () => {
+      // A deployed database: sessions created by 008 (user_id references
+      // user_subscriptions) and every later migration but 033 applied
+      const migrations = path.join(__dirname, '../src/db/migrations');
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pantry-pal-'));
+      const dbPath = path.join(dir, 'pantry.db');
+      const sqlite = new Database(dbPath);
+      sqlite.exec('CREATE TABLE migrations (id INTEGER PRIMARY KEY, filename TEXT NOT NULL UNIQUE, applied_at TEXT NOT NULL)');
+      sqlite.exec(fs.readFileSync(path.join(migrations, '002_add_subscription_fields.sql'), 'utf-8'));
+      sqlite.exec(fs.readFileSync(path.join(migrations, '008_create_shopping_sessions.sql'), 'utf-8'));
+      sqlite.exec(`
+        INSERT INTO user_subscriptions (id, user_id) VALUES ('sub1', '${testUserId}');
+        INSERT INTO shopping_sessions (id, user_id, store_name, started_at, status) VALUES ('s1', '${testUserId}', 'Corner Shop', '2026-01-01', 'completed');
+        INSERT INTO session_items (id, session_id, name) VALUES ('i1', 's1', 'Milk');
+      `);
+      for (const filename of fs.readdirSync(migrations).filter((file) => file.endsWith('.sql') && !file.startsWith('033'))) {
+        sqlite.prepare('INSERT OR IGNORE INTO migrations (filename, applied_at) VALUES (?, ?)').run(filename, '2026-01-01');
+      }
+      sqlite.close();
+
+      process.env.DB_PATH = dbPath;
+      let migrated!: SQLiteAdapter;
+      jest.isolateModules(() => {
+        migrated = new (require('../src/db/sqlite').SQLiteAdapter as typeof SQLiteAdapter)();
+      });
+
+      try {
+        migrated.initialize();
+        await migrated.createSession(testUserId, { storeName: 'Bakery' });
+
+        const household = await migrated.createHousehold(testUserId, 'Home');
+        await migrated.createSession(household.id, { storeName: 'Market' });
+
+        const kept = await migrated.getSessionById(household.id, 's1');
+        expect(kept!.storeName).toBe('Corner Shop');
+        expect(kept!.items.map((item) => item.name)).toEqual(['Milk']);
+        expect(await migrated.getSessionCount(household.id)).toBe(3);
+      } finally {
+        migrated.close();
+        process.env.DB_PATH = ':memory:';
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should resolve memberships and list members owner first', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      await db.addHouseholdMember(household.id, 'viewer_user', 'viewer');
+      await db.addHouseholdMember(household.id, 'editor_user', 'editor');
+
+      const membership = await db.getHouseholdForUser('editor_user');
+      expect(membership!.household.id).toBe(household.id);
+      expect(membership!.role).toBe('editor');
+      expect(await db.getHouseholdForUser('stranger')).toBeNull();
+
+      const members = await db.getHouseholdMembers(household.id);
+      expect(members.map((member) => member.userId)).toEqual([testUserId, 'editor_user', 'viewer_user']);
+    });
+
+    it('should allow only one household per user', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      const other = await db.createHousehold('other_owner', 'Cabin');
+      await db.addHouseholdMember(household.id, 'member_user', 'editor');
+
+      await expect(db.addHouseholdMember(other.id, 'member_user', 'editor')).rejects.toThrow();
+    });
+
+    it('should find households by invite code case-insensitively', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+
+      const found = await db.getHouseholdByInviteCode(household.inviteCode.toLowerCase());
+      expect(found!.id).toBe(household.id);
+
+      const regenerated = await db.regenerateHouseholdInviteCode(household.id);
+      expect(regenerated!.inviteCode).not.toBe(household.inviteCode);
+      expect(await db.getHouseholdByInviteCode(household.inviteCode)).toBeNull();
+    });
+
+    it('should update roles and remove members', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      await db.addHouseholdMember(household.id, 'member_user', 'editor');
+
+      const updated = await db.updateHouseholdMemberRole(household.id, 'member_user', 'viewer');
+      expect(updated!.role).toBe('viewer');
+      expect(await db.updateHouseholdMemberRole(household.id, 'stranger', 'viewer')).toBeNull();
+
+      expect(await db.removeHouseholdMember(household.id, 'member_user')).toBe(true);
+      expect(await db.getHouseholdForUser('member_user')).toBeNull();
+    });
+
+    it('should track invites until they are accepted', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      const invite = await db.createHouseholdInvite(household.id, {
+        email: 'sam@example.com',
+        role: 'viewer',
+        invitedBy: testUserId,
+        expiresAt: '2099-01-01T00:00:00.000Z',
+      });
+
+      expect((await db.getHouseholdInviteByToken(invite.token))!.id).toBe(invite.id);
+      expect(await db.getPendingHouseholdInvites(household.id)).toHaveLength(1);
+
+      await db.markHouseholdInviteAccepted(invite.id, 'sam_user');
+
+      const accepted = await db.getHouseholdInviteByToken(invite.token);
+      expect(accepted!.acceptedBy).toBe('sam_user');
+      expect(await db.getPendingHouseholdInvites(household.id)).toEqual([]);
+      expect(await db.deleteHouseholdInvite('other_household', invite.id)).toBe(false);
+    });
+
+    it('should return the inventory when the household is deleted', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      await db.createItem(household.id, { name: 'Beans', quantity: 3, unit: 'cans', category: 'pantry' });
+
+      expect(await db.deleteHousehold(household.id, testUserId)).toBe(true);
+
+      expect((await db.getAllItems(testUserId)).map((item) => item.name)).toEqual(['Beans']);
+      expect(await db.getHouseholdById(household.id)).toBeNull();
+      expect(await db.getHouseholdMembers(household.id)).toEqual([]);
+    });
+
+    it('should record which member made each change', async () => {
+      const household = await db.createHousehold(testUserId, 'Home');
+      const item = await db.createItem(household.id, { name: 'Eggs', quantity: 12, unit: 'pieces', category: 'dairy' });
+
+      const activity = await db.logActivity(household.id, item.id, 'REMOVE', 2, 'MANUAL', { performedBy: 'member_user' });
+      expect(activity!.performedBy).toBe('member_user');
+
+      const [logged] = await db.getActivities(household.id, 10, 0, item.id);
+      expect(logged.performedBy).toBe('member_user');
+    });
+  });
+
+  // ============================================================================
+  // Recipes
+  // ============================================================================
+  describe('recipes', () => {
+    const pancakes = {
+      name: 'Pancakes',
+      servings: 4,
+      ingredients: [
+        { name: 'flour', quantity: 200, unit: 'g' },
+        { name: 'eggs', quantity: 2 },
+        { name: 'salt' },
+      ],
+    };
+
+    it('should create a recipe with ordered ingredient lines', async () => {
+      const recipe = await db.createRecipe(testUserId, pancakes);
+
+      expect(recipe.userId).toBe(testUserId);
+      expect(recipe.servings).toBe(4);
+      expect(recipe.ingredients.map((line) => line.name)).toEqual(['flour', 'eggs', 'salt']);
+      expect(recipe.ingredients[2].quantity).toBeUndefined();
+
+      const [listed] = await db.getRecipes(testUserId);
+      expect(listed.ingredients).toHaveLength(3);
+      expect(await db.getRecipes('other_user')).toEqual([]);
+    });
+
+    it('should replace ingredients on update', async () => {
+      const recipe = await db.createRecipe(testUserId, pancakes);
+
+      const updated = await db.updateRecipe(testUserId, recipe.id, {
+        name: 'Crepes',
+        ingredients: [{ name: 'flour', quantity: 125, unit: 'g' }],
+      });
+
+      expect(updated!.name).toBe('Crepes');
+      expect(updated!.ingredients).toHaveLength(1);
+      expect(await db.updateRecipe('other_user', recipe.id, { name: 'Nope' })).toBeNull();
+    });
+
+    it('should delete a recipe and its ingredients', async () => {
+      const recipe = await db.createRecipe(testUserId, pancakes);
+
+      expect(await db.deleteRecipe(testUserId, recipe.id)).toBe(true);
+      expect(await db.getRecipeById(testUserId, recipe.id)).toBeNull();
+      expect(await db.query('SELECT * FROM recipe_ingredients WHERE recipe_id = ?', [recipe.id])).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // Storage Locations
+  // ============================================================================
+  describe('storage locations', () => {
+    it('should list locations with their item counts', async () => {
+      const freezer = await db.createStorageLocation(testUserId, 'Freezer');
+      await db.createStorageLocation(testUserId, 'fridge');
+      await db.createItem(testUserId, { name: 'Peas', quantity: 1, unit: 'bag', category: 'frozen', locationId: freezer.id });
+
+      const locations = await db.getStorageLocations(testUserId);
+
+      expect(locations.map((location) => [location.name, location.itemCount])).toEqual([['Freezer', 1], ['fridge', 0]]);
+      expect((await db.getStorageLocationByName(testUserId, 'FREEZER'))!.id).toBe(freezer.id);
+      expect(await db.getStorageLocations('other_user')).toEqual([]);
+    });
+
+    it('should reject duplicate names ignoring case', async () => {
+      await db.createStorageLocation(testUserId, 'Pantry shelf');
+
+      await expect(db.createStorageLocation(testUserId, 'pantry SHELF')).rejects.toThrow();
+      await expect(db.createStorageLocation('other_user', 'Pantry shelf')).resolves.toBeDefined();
+    });
+
+    it('should keep items without a location when their location is deleted', async () => {
+      const freezer = await db.createStorageLocation(testUserId, 'Freezer');
+      const item = await db.createItem(testUserId, { name: 'Peas', quantity: 1, unit: 'bag', category: 'frozen', locationId: freezer.id });
+
+      expect(await db.deleteStorageLocation(testUserId, freezer.id)).toBe(true);
+
+      expect((await db.getItemById(testUserId, item.id))!.locationId).toBeUndefined();
+    });
+
+    it('should tell the same product apart by location', async () => {
+      const freezer = await db.createStorageLocation(testUserId, 'Freezer');
+      const fresh = await db.createItem(testUserId, { name: 'Chicken', quantity: 1, unit: 'lbs', category: 'meat', barcode: '0123456789012' });
+      const frozen = await db.createItem(testUserId, { name: 'Chicken', quantity: 2, unit: 'lbs', category: 'meat', barcode: '0123456789012', locationId: freezer.id });
+
+      expect((await db.getItemByName(testUserId, 'chicken', freezer.id))!.id).toBe(frozen.id);
+      expect((await db.getItemByName(testUserId, 'chicken', null))!.id).toBe(fresh.id);
+      expect((await db.getItemByBarcode(testUserId, '0123456789012', freezer.id))!.id).toBe(frozen.id);
+      expect((await db.getAllItems(testUserId, undefined, freezer.id)).map((item) => item.id)).toEqual([frozen.id]);
+      expect((await db.getAllItems(testUserId, undefined, null)).map((item) => item.id)).toEqual([fresh.id]);
+
+      const { activities } = await db.processVisualUsage(testUserId, [{ name: 'Chicken', quantityUsed: 1, locationId: freezer.id }]);
+
+      expect(activities[0].itemId).toBe(frozen.id);
+      expect((await db.getItemById(testUserId, fresh.id))!.quantity).toBe(1);
+    });
+
+    it('should move a whole item and log a MOVED activity', async () => {
+      const freezer = await db.createStorageLocation(testUserId, 'Freezer');
+      const item = await db.createItem(testUserId, { name: 'Bread', quantity: 1, unit: 'loaf', category: 'bakery' });
+
+      const result = await db.moveItem(testUserId, item.id, freezer.id, { performedBy: testUserId });
+
+      expect(result!.item.locationId).toBe(freezer.id);
+      expect(result!.destination.id).toBe(item.id);
+      expect(result!.activities).toHaveLength(1);
+      expect(result!.activities[0]).toMatchObject({ type: 'ADJUST', amount: 0, reason: 'MOVED' });
+      expect(JSON.parse(result!.activities[0].metadata!)).toEqual({ fromLocationId: null, toLocationId: freezer.id });
+      expect(await db.getActivities(testUserId, 10, 0, undefined, 'MOVED')).toHaveLength(1);
+    });
+
+    it('should split part of an item into the destination, keeping lot dates', async () => {
+      const freezer = await db.createStorageLocation(testUserId, 'Freezer');
+      const fresh = await db.createItem(testUserId, { name: 'Chicken', quantity: 2, unit: 'lbs', category: 'meat', bestBefore: '2026-10-20' });
+      await db.logActivity(testUserId, fresh.id, 'ADD', 1, 'MANUAL', { bestBefore: '2026-10-25' });
+
+      const first = await db.moveItem(testUserId, fresh.id, freezer.id, { quantity: 2.5 });
+
+      expect(first!.item.quantity).toBe(0.5);
+      expect(first!.destination).toMatchObject({ name: 'Chicken', quantity: 2.5, locationId: freezer.id });
+      expect(first!.activities.map((activity) => [activity.type, activity.itemId])).toEqual([
+        ['REMOVE', fresh.id],
+        ['ADD', first!.destination.id],
+      ]);
+
+      const movedLots = await db.getItemLots(testUserId, first!.destination.id);
+      expect(movedLots.map((lot) => [lot.quantity, lot.bestBefore])).toEqual([[2, '2026-10-20'], [0.5, '2026-10-25']]);
+      expect((await db.getItemLots(testUserId, fresh.id)).map((lot) => lot.quantity)).toEqual([0.5]);
+
+      // A second partial move adds to the same destination item
+      const second = await db.moveItem(testUserId, fresh.id, freezer.id, { quantity: 0.25 });
+
+      expect(second!.destination.id).toBe(first!.destination.id);
+      expect(second!.destination.quantity).toBe(2.75);
+    });
+  });
+
+  // ============================================================================
+  // Item Search
+  // ============================================================================
+  describe('item search', () => {
+    it('should match a verbose receipt name to the shorter item name', async () => {
+      const milk = await db.createItem(testUserId, { name: 'Milk', quantity: 1, unit: 'l', category: 'dairy' });
+      await db.createItem(testUserId, { name: 'Milk Chocolate', quantity: 1, unit: 'bar', category: 'snacks' });
+
+      const results = await db.searchItems(testUserId, 'Whole Milk 2%');
+
+      expect(results[0]).toMatchObject({ item: { id: milk.id }, matchedOn: 'name' });
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect((await db.findItemMatch(testUserId, 'Whole Milk 2%'))!.id).toBe(milk.id);
+    });
+
+    it('should match word prefixes and typos', async () => {
+      const tomatoes = await db.createItem(testUserId, { name: 'Cherry Tomatoes', quantity: 1, unit: 'pack', category: 'produce' });
+
+      expect((await db.searchItems(testUserId, 'tom'))[0].item.id).toBe(tomatoes.id);
+      expect((await db.searchItems(testUserId, 'chery tomatoe'))[0].item.id).toBe(tomatoes.id);
+      expect(await db.searchItems(testUserId, 'rice')).toEqual([]);
+    });
+
+    it('should search barcodes, cached brands and categories', async () => {
+      await db.saveProduct({ barcode: '5000112637922', name: 'Cola', brand: 'Fizzco', category: 'drinks', source: 'manual' });
+      const cola = await db.createItem(testUserId, { name: 'Cola', quantity: 6, unit: 'cans', category: 'beverages', barcode: '5000112637922' });
+
+      expect((await db.searchItems(testUserId, '5000112637922'))[0]).toMatchObject({ item: { id: cola.id }, score: 1, matchedOn: 'barcode' });
+      expect((await db.searchItems(testUserId, 'fizzco'))[0]).toMatchObject({ item: { id: cola.id }, matchedOn: 'brand', brand: 'Fizzco' });
+      expect((await db.searchItems(testUserId, 'beverages'))[0]).toMatchObject({ item: { id: cola.id }, matchedOn: 'category' });
+
+      // The index follows later changes to the item and the product cache
+      await db.updateItem(testUserId, cola.id, { name: 'Diet Cola' });
+      await db.saveProduct({ barcode: '5000112637922', name: 'Cola', brand: 'Popco', category: 'drinks', source: 'manual' });
+      expect((await db.searchItems(testUserId, 'popco diet'))[0].item.id).toBe(cola.id);
+
+      await db.deleteItem(testUserId, cola.id);
+      expect(await db.searchItems(testUserId, 'cola')).toEqual([]);
+    });
+
+    it('should only search the user\'s own items', async () => {
+      await db.createItem('other_user', { name: 'Butter', quantity: 1, unit: 'block', category: 'dairy' });
+
+      expect(await db.searchItems(testUserId, 'butter')).toEqual([]);
+    });
+
+    it('should not treat a weak match as the same item', async () => {
+      await db.createItem(testUserId, { name: 'Milk Chocolate', quantity: 1, unit: 'bar', category: 'snacks' });
+
+      expect(await db.findItemMatch(testUserId, 'Milk')).toBeNull();
+    });
+
+    it('should log visual usage against the fuzzy-matched item', async () => {
+      const yogurt = await db.createItem(testUserId, { name: 'Greek Yogurt', quantity: 4, unit: 'pots', category: 'dairy' });
+
+      const { activities, errors } = await db.processVisualUsage(testUserId, [
+        { name: 'greek yoghurt', quantityUsed: 1 },
+        { name: 'mustard', quantityUsed: 1 },
+      ]);
+
+      expect(activities.map((activity) => activity.itemId)).toEqual([yogurt.id]);
+      expect(errors).toEqual(['Item not found: mustard']);
+    });
+  });
+
+  // ============================================================================
+  // Staff Roles
+  // ============================================================================
+  describe('staff roles', () => {
+    it('should grant roles once and audit each change', async () => {
+      const granted = await db.grantRole(testUserId, 'support', 'admin_user');
+
+      expect(granted).toMatchObject({ userId: testUserId, role: 'support', grantedBy: 'admin_user' });
+      expect(await db.grantRole(testUserId, 'support', 'admin_user')).toBeNull();
+      expect(await db.getUserRoles(testUserId)).toEqual(['support']);
+
+      expect(await db.revokeRole(testUserId, 'support', 'other_admin')).toBe(true);
+      expect(await db.revokeRole(testUserId, 'support', 'other_admin')).toBe(false);
+      expect(await db.getUserRoles(testUserId)).toEqual([]);
+
+      const log = await db.getRoleAuditLog(10, 0);
+      expect(log).toHaveLength(2);
+      expect(log.map((entry) => [entry.action, entry.performedBy])).toEqual(
+        expect.arrayContaining([['GRANT', 'admin_user'], ['REVOKE', 'other_admin']])
+      );
+    });
+
+    it('should list assignments and filter the audit log by user', async () => {
+      await db.grantRole(testUserId, 'read_only', 'admin_user');
+      await db.grantRole('other_user', 'admin', 'admin_user');
+
+      expect(await db.getRoleAssignments()).toHaveLength(2);
+      expect((await db.getRoleAuditLog(10, 0, 'other_user')).map((entry) => entry.role)).toEqual(['admin']);
+      expect(await db.getRoleAuditLog(10, 2)).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // Price History
+  // ============================================================================
+  describe('price history', () => {
+    it('should record priced session items with a comparable unit price', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Aldi' });
+      await db.addSessionItem(testUserId, session.id, { name: 'Whole Milk', quantity: 2, unit: 'gal', price: 3.79 });
+      await db.addSessionItem(testUserId, session.id, { barcode: '0000000000017', name: 'Ground Beef', quantity: 500, unit: 'g', price: 0.011 });
+      await db.addSessionItem(testUserId, session.id, { name: 'Napkins', quantity: 1 });
+      await db.completeSession(testUserId, session.id, {});
+
+      const history = await db.getPriceHistory(testUserId);
+
+      expect(history).toHaveLength(2);
+      const milk = history.find((price) => price.name === 'Whole Milk')!;
+      expect(milk).toMatchObject({ storeName: 'Aldi', source: 'SHOPPING_SESSION', sessionId: session.id, priceUnit: 'l' });
+      expect(milk.unitPrice).toBeCloseTo(1.0012, 4);
+      const beef = history.find((price) => price.name === 'Ground Beef')!;
+      expect(beef).toMatchObject({ productKey: 'barcode:0000000000017', unitPrice: 11, priceUnit: 'kg' });
+    });
+
+    it('should filter by barcode or normalized name and by date', async () => {
+      await db.recordPrices(testUserId, [
+        { name: 'Whole Milks', price: 1, quantity: 1, unit: 'l', source: 'RECEIPT_SCAN', observedAt: '2024-01-01T00:00:00.000Z' },
+        { name: 'Milk', barcode: '111', price: 1.2, quantity: 1, unit: 'l', source: 'RECEIPT_SCAN', observedAt: '2024-02-01T00:00:00.000Z' },
+        { name: 'Bread', price: 2.5, quantity: 1, source: 'RECEIPT_SCAN', observedAt: '2024-02-01T00:00:00.000Z' },
+        { name: 'Free Sample', price: 0, quantity: 1, source: 'RECEIPT_SCAN' },
+      ]);
+
+      const byName = await db.getPriceHistory(testUserId, { products: [{ name: 'whole milk' }] });
+      const byEither = await db.getPriceHistory(testUserId, { products: [{ name: 'Whole Milk', barcode: '111' }] });
+      const recent = await db.getPriceHistory(testUserId, { since: '2024-01-15T00:00:00.000Z' });
+
+      expect(byName.map((price) => price.price)).toEqual([1]);
+      expect(byEither.map((price) => price.price)).toEqual([1, 1.2]);
+      expect(recent.map((price) => price.name).sort()).toEqual(['Bread', 'Milk']);
+      expect(await db.getPriceHistory(testUserId, { products: [] })).toEqual([]);
+      expect(await db.getPriceHistory('other_user')).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // Budgets
+  // ============================================================================
+  describe('budgets', () => {
+    it('should keep one budget per period and category', async () => {
+      const overall = await db.createBudget(testUserId, { period: 'month', amount: 400 });
+      const dairy = await db.createBudget(testUserId, { period: 'month', category: 'Dairy', amount: 50 });
+      await db.createBudget(testUserId, { period: 'week', category: 'dairy', amount: 15 });
+
+      expect(overall).not.toBeNull();
+      expect(await db.createBudget(testUserId, { period: 'month', category: 'DAIRY', amount: 60 })).toBeNull();
+      expect(await db.createBudget(testUserId, { period: 'month', amount: 500 })).toBeNull();
+
+      const budgets = await db.getBudgets(testUserId);
+      expect(budgets).toHaveLength(3);
+      expect(budgets[0].id).toBe(overall!.id);
+
+      const updated = await db.updateBudget(testUserId, dairy!.id, 75);
+      expect(updated).toMatchObject({ category: 'Dairy', amount: 75 });
+      expect(await db.updateBudget('other_user', dairy!.id, 75)).toBeNull();
+
+      expect(await db.deleteBudget(testUserId, dairy!.id)).toBe(true);
+      expect(await db.deleteBudget(testUserId, dairy!.id)).toBe(false);
+      expect(await db.getBudgetById(testUserId, dairy!.id)).toBeNull();
+    });
+
+    it('should sum completed session spend by item category', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Aldi' });
+      await db.addSessionItem(testUserId, session.id, { name: 'Milk', category: 'dairy', quantity: 2, price: 1.5 });
+      await db.addSessionItem(testUserId, session.id, { name: 'Cheese', category: 'dairy', quantity: 1, price: 4 });
+      await db.addSessionItem(testUserId, session.id, { name: 'Napkins', quantity: 1, price: 2 });
+      await db.addSessionItem(testUserId, session.id, { name: 'Sample', quantity: 1 });
+      await db.completeSession(testUserId, session.id, {});
+      await db.createSession(testUserId, { storeName: 'Open' });
+
+      const date = new Date().toISOString().slice(0, 10);
+      const spend = await db.getSessionSpend(testUserId, date, date);
+
+      expect(spend).toHaveLength(1);
+      expect(spend[0]).toMatchObject({ sessionId: session.id, storeName: 'Aldi', totalAmount: 9 });
+      expect(spend[0].categories).toEqual(expect.arrayContaining([
+        { category: 'dairy', amount: 7 },
+        { category: undefined, amount: 2 },
+      ]));
+      expect(await db.getSessionSpend(testUserId, '2000-01-01', '2000-12-31')).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // Session Reconciliation
+  // ============================================================================
+  describe('session reconciliation fixes', () => {
+    it('should apply fixes, recompute totals and re-record prices', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Aldi' });
+      const milk = await db.addSessionItem(testUserId, session.id, { name: 'Milk', quantity: 2, unit: 'l', price: 1 });
+      const bread = await db.addSessionItem(testUserId, session.id, { name: 'Bread', quantity: 1, price: 2.5 });
+      const completed = await db.completeSession(testUserId, session.id, {});
+
+      const fixed = await db.applySessionFixes(testUserId, session.id, [
+        { type: 'UPDATE_PRICE', sessionItemId: milk.id, price: 1.25 },
+        { type: 'REMOVE_ITEM', sessionItemId: bread.id },
+        { type: 'ADD_ITEM', name: 'Bag Fee', quantity: 1, price: 0.1 },
+      ]);
+
+      expect(fixed).toMatchObject({ status: 'completed', totalAmount: 2.6, itemCount: 2 });
+      expect(fixed!.items.map((item) => [item.name, item.price]).sort()).toEqual([['Bag Fee', 0.1], ['Milk', 1.25]]);
+
+      const history = await db.getPriceHistory(testUserId);
+      expect(history.map((price) => [price.name, price.price]).sort()).toEqual([['Bag Fee', 0.1], ['Milk', 1.25]]);
+      expect(history.every((price) => price.observedAt === completed!.completedAt && price.storeName === 'Aldi')).toBe(true);
+    });
+
+    it('should only fix completed sessions of the user', async () => {
+      const active = await db.createSession(testUserId, {});
+      const fix = { type: 'ADD_ITEM' as const, name: 'Bag Fee', quantity: 1, price: 0.1 };
+
+      expect(await db.applySessionFixes(testUserId, active.id, [fix])).toBeNull();
+
+      await db.completeSession(testUserId, active.id, {});
+      expect(await db.applySessionFixes('other_user', active.id, [fix])).toBeNull();
+    });
+  });
+
+  describe('session receipt headers', () => {
+    const image = { imageKey: 'receipts/s/r.png', contentHash: '8f43', sizeBytes: 2, mimeType: 'image/png' };
+
+    it('should store the header and date the completed session by purchase', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Aldi' });
+      await db.addSessionItem(testUserId, session.id, { name: 'Milk', quantity: 1, price: 1.2 });
+      await db.completeSession(testUserId, session.id, {});
+      const receipt = await db.captureSessionReceipt(testUserId, session.id, image);
+      const header = { date: '2026-10-02', time: '17:45', subtotal: 1.2, tax: 0, total: 1.2, paymentMethod: 'VISA' as const, totalMismatch: false };
+
+      const saved = await db.saveSessionReceiptHeader(testUserId, session.id, receipt.id, header);
+
+      expect(saved!.header).toEqual(header);
+      expect((await db.getSessionReceipts(testUserId, session.id))[0].header).toEqual(header);
+      expect((await db.getSessionById(testUserId, session.id))!.completedAt).toBe('2026-10-02T17:45:00');
+      expect((await db.getPriceHistory(testUserId))[0].observedAt).toBe('2026-10-02T17:45:00');
+    });
+
+    it('should date a session by the receipt read before it was completed', async () => {
+      const session = await db.createSession(testUserId, { storeName: 'Aldi' });
+      await db.addSessionItem(testUserId, session.id, { name: 'Milk', quantity: 1, price: 1.2 });
+      const receipt = await db.captureSessionReceipt(testUserId, session.id, image);
+      await db.saveSessionReceiptHeader(testUserId, session.id, receipt.id, { date: '2026-10-02' });
+
+      const completed = await db.completeSession(testUserId, session.id, {});
+
+      expect(completed!.completedAt).toBe('2026-10-02');
+      expect((await db.getPriceHistory(testUserId))[0].observedAt).toBe('2026-10-02');
+    });
+
+    it('should leave active sessions undated and ignore unknown receipts', async () => {
+      const session = await db.createSession(testUserId, {});
+      const receipt = await db.captureSessionReceipt(testUserId, session.id, image);
+
+      await db.saveSessionReceiptHeader(testUserId, session.id, receipt.id, { date: '2026-10-02' });
+
+      expect((await db.getSessionById(testUserId, session.id))!.completedAt).toBeUndefined();
+      expect(await db.saveSessionReceiptHeader(testUserId, session.id, 'missing-receipt', {})).toBeNull();
+      expect(await db.saveSessionReceiptHeader('other_user', session.id, receipt.id, {})).toBeNull();
+    });
+  });
+
+  describe('receipt images', () => {
+    const image = { imageKey: 'receipts/s/r.png', thumbnailKey: 'receipts/s/r.thumb.jpg', contentHash: '8f43', sizeBytes: 2, mimeType: 'image/png' };
+
+    it('should record where a captured receipt image is stored', async () => {
+      const session = await db.createSession(testUserId, {});
+
+      const receipt = await db.captureSessionReceipt(testUserId, session.id, image, 'aisle 3');
+
+      expect(receipt).toMatchObject({ ...image, notes: 'aisle 3' });
+      expect(await db.getSessionReceiptById(testUserId, session.id, receipt.id)).toMatchObject(image);
+      expect(await db.listUnmovedSessionReceipts(10)).toEqual([]);
+    });
+
+    it('should list images still in the database and move them once', async () => {
+      const session = await db.createSession(testUserId, {});
+      // Receipts captured before blob storage can only be written directly
+      const sqlite = (db as unknown as { getDatabase(): Database.Database }).getDatabase();
+      sqlite.prepare(`
+        INSERT INTO session_receipts (id, session_id, image_data, mime_type, captured_at, created_at)
+        VALUES ('legacy-receipt', ?, 'aGk=', 'image/png', '2024-01-15', '2024-01-15')
+      `).run(session.id);
+
+      expect(await db.listUnmovedSessionReceipts(10)).toEqual([
+        { id: 'legacy-receipt', sessionId: session.id, imageData: 'aGk=', mimeType: 'image/png' },
+      ]);
+      expect((await db.getSessionReceiptById(testUserId, session.id, 'legacy-receipt'))!.imageKey).toBeUndefined();
+      expect(await db.getUnmovedSessionReceipt('legacy-receipt')).toEqual(
+        { id: 'legacy-receipt', sessionId: session.id, imageData: 'aGk=', mimeType: 'image/png' }
+      );
+
+      expect(await db.moveSessionReceiptImage('legacy-receipt', image)).toBe(true);
+      expect(await db.moveSessionReceiptImage('legacy-receipt', image)).toBe(false);
+      expect(await db.listUnmovedSessionReceipts(10)).toEqual([]);
+      expect(await db.getUnmovedSessionReceipt('legacy-receipt')).toBeNull();
+      expect(await db.getSessionReceiptById(testUserId, session.id, 'legacy-receipt')).toMatchObject(image);
+      expect(sqlite.prepare("SELECT image_data FROM session_receipts WHERE id = 'legacy-receipt'").get()).toEqual({ image_data: null });
+    });
+
+    it('should make image_data nullable in migration 027 and keep existing receipts', () => {
+      const sqlite = new Database(':memory:');
+      sqlite.exec(`
+        CREATE TABLE shopping_sessions (id TEXT PRIMARY KEY);
+        CREATE TABLE session_receipts (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          image_data TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          notes TEXT,
+          header TEXT,
+          captured_at TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        INSERT INTO shopping_sessions (id) VALUES ('s1');
+        INSERT INTO session_receipts VALUES ('r1', 's1', 'aGk=', 'image/png', 'note', NULL, '2024-01-15', '2024-01-15');
+      `);
+
+      sqlite.exec(fs.readFileSync(path.join(__dirname, '../src/db/migrations/027_move_receipt_images_to_blob_storage.sql'), 'utf-8'));
+      sqlite.prepare("INSERT INTO session_receipts (id, session_id, image_key, mime_type) VALUES ('r2', 's1', 'receipts/s1/r2.png', 'image/png')").run();
+
+      expect(sqlite.prepare("SELECT id, image_data, notes FROM session_receipts ORDER BY id").all()).toEqual([
+        { id: 'r1', image_data: 'aGk=', notes: 'note' },
+        { id: 'r2', image_data: null, notes: null },
+      ]);
+      sqlite.close();
+    });
+  });
+
+  // ============================================================================
+  // Barcodes
+  // ============================================================================
+  describe('barcode normalization', () => {
+    it('should rename a barcode everywhere, keeping the more recently synced product', async () => {
+      await db.saveProduct({ barcode: '042100005264', name: 'Old Milk', category: 'dairy', source: 'manual' });
+      await db.saveProduct({ barcode: '00042100005264', name: 'Milk', category: 'dairy', source: 'manual' });
+      const item = await db.createItem(testUserId, { name: 'Milk', quantity: 1, unit: 'l', category: 'dairy', barcode: '042100005264' });
+      await db.createItem(testUserId, { name: 'Flyer', quantity: 1, unit: 'pieces', category: 'other', barcode: 'SHOP-42' });
+
+      expect((await db.listStoredBarcodes()).sort()).toEqual(['00042100005264', '042100005264', 'SHOP-42']);
+
+      await db.renameBarcode('042100005264', '00042100005264');
+
+      expect((await db.listStoredBarcodes()).sort()).toEqual(['00042100005264', 'SHOP-42']);
+      expect((await db.getProductByBarcode('00042100005264'))!.name).toBe('Milk');
+      expect((await db.getItemById(testUserId, item.id))!.barcode).toBe('00042100005264');
+      expect((await db.searchItems(testUserId, '00042100005264'))[0].item.id).toBe(item.id);
+    });
+  });
+
+  // ============================================================================
+  // Receipt Jobs
+  // ============================================================================
+  describe('receipt jobs', () => {
+    const scan = { items: [], rawText: '', storeProfile: 'generic', confidence: 90, ocrEngine: 'fake', header: {} };
+
+    it('should claim due jobs once and complete them without the image', async () => {
+      const job = await db.createReceiptJob(testUserId, 'aGk=', 3);
+
+      const [claimed] = await db.claimReceiptJobs(5, 60000);
+      expect(claimed).toMatchObject({ id: job.id, status: 'PROCESSING', attempts: 1, imageData: 'aGk=' });
+      expect(await db.claimReceiptJobs(5, 60000)).toEqual([]);
+
+      const completed = await db.completeReceiptJob(job.id, scan);
+      expect(completed).toMatchObject({ status: 'SUCCEEDED', result: scan });
+      expect(await db.completeReceiptJob(job.id, scan)).toBeNull();
+      expect(await db.getReceiptJob(job.id, 'other_user')).toBeNull();
+    });
+
+    it('should keep the session receipt a job reads', async () => {
+      const sessionReceipt = { ownerId: testUserId, sessionId: 'session-1', receiptId: 'receipt-1' };
+      const job = await db.createReceiptJob(testUserId, 'aGk=', 3, sessionReceipt);
+
+      const [claimed] = await db.claimReceiptJobs(5, 60000);
+
+      expect(job.sessionReceipt).toEqual(sessionReceipt);
+      expect(claimed.sessionReceipt).toEqual(sessionReceipt);
+      expect((await db.createReceiptJob(testUserId, 'aGk=', 3)).sessionReceipt).toBeUndefined();
+    });
+
+    it('should claim a job again once its lease runs out', async () => {
+      const job = await db.createReceiptJob(testUserId, 'aGk=', 3);
+
+      await db.claimReceiptJobs(1, -1000);
+      const [reclaimed] = await db.claimReceiptJobs(1, 60000);
+
+      expect(reclaimed).toMatchObject({ id: job.id, attempts: 2 });
+    });
+
+    it('should hold retries until they are due and let failed jobs be retried', async () => {
+      const job = await db.createReceiptJob(testUserId, 'aGk=', 3);
+      await db.claimReceiptJobs(1, 60000);
+
+      const retrying = await db.failReceiptJob(job.id, 'engine down', new Date(Date.now() + 60000).toISOString());
+      expect(retrying).toMatchObject({ status: 'PENDING', error: 'engine down', attempts: 1 });
+      expect(await db.claimReceiptJobs(1, 60000)).toEqual([]);
+      expect(await db.retryReceiptJob(job.id)).toBeNull();
+
+      await db.failReceiptJob(job.id, 'not claimed');
+      expect((await db.getReceiptJob(job.id))!.status).toBe('PENDING');
+
+      await db.createReceiptJob(testUserId, 'aGk=', 3);
+      const [other] = await db.claimReceiptJobs(1, 60000);
+      await db.failReceiptJob(other.id, 'engine down');
+
+      expect((await db.listReceiptJobs('FAILED', 10, 0)).map((failed) => failed.id)).toEqual([other.id]);
+      expect(await db.retryReceiptJob(other.id)).toMatchObject({ status: 'PENDING', attempts: 0 });
+      expect(await db.listReceiptJobs(undefined, 10, 0)).toHaveLength(2);
+    });
+  });
+
+  describe('receipt scan reservations', () => {
+    // The subscription service works on the shared database
+    afterEach(() => {
+      closeDatabase();
+    });
+
+    it('should reserve only as many scans as are left when reserved at once', async () => {
+      await getOrCreateUserSubscription(testUserId);
+      for (let scan = 0; scan < 4; scan++) {
+        await incrementUsage(testUserId, 'receiptScans');
+      }
+
+      const reservations = await Promise.all(Array.from({ length: 4 }, () => reserveReceiptScan(testUserId)));
+
+      expect(reservations.filter((reservation) => reservation.allowed)).toHaveLength(1);
+      expect((await getUsageLimits(testUserId)).receiptScans).toBe(5);
+    });
+
+    it('should count scans on plans without a limit and report no remaining number', async () => {
+      await getOrCreateUserSubscription(testUserId);
+      await updateUserSubscription(testUserId, { tier: 'pro' });
+
+      expect(await reserveReceiptScan(testUserId)).toEqual({ allowed: true, remaining: null });
+      expect((await getUsageLimits(testUserId)).receiptScans).toBe(1);
+    });
+
+    it('should restore a scan in the month it was given back to', async () => {
+      const submitted = new Date();
+      submitted.setMonth(submitted.getMonth() - 2, 15);
+      const month = `${submitted.getFullYear()}-${String(submitted.getMonth() + 1).padStart(2, '0')}`;
+      const shared = getDatabase();
+      await shared.execute(
+        `INSERT INTO usage_limits (id, user_id, month, receipt_scans, ai_calls, voice_sessions, created_at, updated_at)
+         VALUES (?, ?, ?, 1, 0, 0, ?, ?)`,
+        ['usage-submitted', testUserId, month, submitted.toISOString(), submitted.toISOString()]
+      );
+      const scansThen = async () => {
+        const rows = await shared.query('SELECT receipt_scans FROM usage_limits WHERE user_id = ? AND month = ?', [testUserId, month]);
+        return (rows as { receipt_scans: number }[])[0].receipt_scans;
+      };
+      const scansNow = (await getUsageLimits(testUserId)).receiptScans;
+
+      await releaseReceiptScan(testUserId, submitted.toISOString());
+      expect(await scansThen()).toBe(0);
+
+      await restoreReceiptScan(testUserId, submitted.toISOString());
+      expect(await scansThen()).toBe(1);
+      expect((await getUsageLimits(testUserId)).receiptScans).toBe(scansNow);
+    });
+  });
+
+  // ============================================================================
+  // Stripe Webhook Events
+  // ============================================================================
+  describe('stripe webhook events', () => {
+    const delivery = (stripeEventId: string, stripeCreatedAt: string) => ({
+      stripeEventId,
+      eventType: 'customer.subscription.updated',
+      objectId: 'sub_1',
+      stripeCreatedAt,
+      payload: JSON.stringify({ id: stripeEventId }),
+    });
+
+    it('should claim an event once and not again once it is processed', async () => {
+      const claimed = await db.beginStripeWebhookEvent(delivery('evt_1', '2026-10-18T10:00:00.000Z'), 60000);
+      expect(claimed).toMatchObject({ stripeEventId: 'evt_1', status: 'PROCESSING', attempts: 1, payload: '{"id":"evt_1"}' });
+
+      // A retry while the first delivery is still being handled
+      expect(await db.beginStripeWebhookEvent(delivery('evt_1', '2026-10-18T10:00:00.000Z'), 60000)).toBeNull();
+
+      const processed = await db.completeStripeWebhookEvent(claimed!.id, 'PROCESSED', testUserId);
+      expect(processed).toMatchObject({ status: 'PROCESSED', userId: testUserId });
+      expect(processed!.processedAt).toBeDefined();
+      expect(await db.beginStripeWebhookEvent(delivery('evt_1', '2026-10-18T10:00:00.000Z'), 60000)).toBeNull();
+    });
+
+    it('should claim failed events and events whose handler died again', async () => {
+      const stalled = await db.beginStripeWebhookEvent(delivery('evt_1', '2026-10-18T10:00:00.000Z'), -1000);
+      const reclaimed = await db.beginStripeWebhookEvent(delivery('evt_1', '2026-10-18T10:00:00.000Z'), 60000);
+      expect(reclaimed).toMatchObject({ id: stalled!.id, attempts: 2 });
+
+      const failed = await db.failStripeWebhookEvent(reclaimed!.id, 'database busy');
+      expect(failed).toMatchObject({ status: 'FAILED', error: 'database busy' });
+      expect((await db.listStripeWebhookEvents('FAILED', 10, 0)).map((event) => event.id)).toEqual([stalled!.id]);
+
+      const replayed = await db.claimFailedStripeWebhookEvent(stalled!.id, 60000);
+      expect(replayed).toMatchObject({ status: 'PROCESSING', attempts: 3 });
+      expect(await db.claimFailedStripeWebhookEvent(stalled!.id, 60000)).toBeNull();
+    });
+
+    it('should find newer processed events for the same object', async () => {
+      const newer = await db.beginStripeWebhookEvent(delivery('evt_2', '2026-10-18T11:00:00.000Z'), 60000);
+      const types = ['customer.subscription.updated', 'customer.subscription.deleted'];
+
+      expect(await db.hasNewerStripeWebhookEvent('sub_1', types, '2026-10-18T10:00:00.000Z')).toBe(false);
+
+      await db.completeStripeWebhookEvent(newer!.id, 'PROCESSED');
+
+      expect(await db.hasNewerStripeWebhookEvent('sub_1', types, '2026-10-18T10:00:00.000Z')).toBe(true);
+      expect(await db.hasNewerStripeWebhookEvent('sub_1', types, '2026-10-18T12:00:00.000Z')).toBe(false);
+      expect(await db.hasNewerStripeWebhookEvent('sub_2', types, '2026-10-18T10:00:00.000Z')).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // Rate Limit Buckets
+  // ============================================================================
+  describe('rate limit buckets', () => {
+    const bucket = { capacity: 2, refillPerSecond: 0.01 };
+
+    it('should take tokens until the bucket is empty', async () => {
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push(await db.takeRateLimitTokens('receiptScan:user:a', bucket, 1));
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([true, true, false]);
+      expect(results[2].retryAfterMs).toBeGreaterThan(0);
+      expect((await db.takeRateLimitTokens('receiptScan:user:b', bucket, 1)).allowed).toBe(true);
+    });
+
+    it('should delete idle buckets', async () => {
+      await db.takeRateLimitTokens('api:ip:1.2.3.4', bucket, 1);
+
+      expect(await db.deleteIdleRateLimitBuckets(Date.now() - 60000)).toBe(0);
+      expect(await db.deleteIdleRateLimitBuckets(Date.now() + 1)).toBe(1);
+      expect((await db.takeRateLimitTokens('api:ip:1.2.3.4', bucket, 1)).remaining).toBe(1);
+    });
+  });
+
+  // ============================================================================
+  // Product Sync Queue
+  // ============================================================================
+  describe('product sync queue', () => {
+    const past = '2026-01-01T00:00:00.000Z';
+    const future = '2999-01-01T00:00:00.000Z';
+
+    it('should queue unknown barcodes behind placeholders that lookups skip', async () => {
+      await db.enqueueProductSync('00036000291452', 'Request timed out', past);
+      await db.enqueueProductSync('04006381333931', 'Request timed out', future);
+
+      expect(await db.getProductByBarcode('00036000291452')).toBeNull();
+      expect(await db.getProductSyncStats()).toEqual({ queued: 2, due: 1, failed: 0 });
+
+      const claimed = await db.claimProductSyncs(10, 60000);
+      expect(claimed).toEqual([{ barcode: '00036000291452', attempts: 0 }]);
+      expect(await db.claimProductSyncs(10, 60000)).toEqual([]);
+    });
+
+    it('should keep a queued barcode\'s schedule when it is queued again', async () => {
+      await db.enqueueProductSync('00036000291452', 'Request timed out', past);
+      await db.claimProductSyncs(10, 60000);
+      await db.failProductSync('00036000291452', 'HTTP error 502', past);
+
+      await db.enqueueProductSync('00036000291452', 'Request timed out', future);
+
+      const [entry] = await db.listProductSyncs('QUEUED', 10, 0);
+      expect(entry).toMatchObject({ barcode: '00036000291452', status: 'QUEUED', attempts: 1, lastError: 'HTTP error 502', nextAttemptAt: past });
+      expect(entry.name).toBeUndefined();
+    });
+
+    it('should give up on a barcode and keep its last error', async () => {
+      await db.saveProduct({ barcode: '00036000291452', name: 'Cola', category: 'beverages', source: 'openfoodfacts' });
+      await db.enqueueProductSync('00036000291452', 'Request timed out', past);
+      await db.claimProductSyncs(10, 60000);
+
+      await db.failProductSync('00036000291452', 'Product not found in Open Food Facts');
+
+      expect(await db.claimProductSyncs(10, 60000)).toEqual([]);
+      expect(await db.getProductSyncStats()).toEqual({ queued: 0, due: 0, failed: 1 });
+      expect(await db.listProductSyncs('FAILED', 10, 0)).toEqual([
+        expect.objectContaining({ barcode: '00036000291452', name: 'Cola', status: 'FAILED', attempts: 1, lastError: 'Product not found in Open Food Facts' }),
+      ]);
+      expect((await db.getProductByBarcode('00036000291452'))!.name).toBe('Cola');
+    });
+
+    it('should take a barcode off the queue once its product is saved', async () => {
+      await db.enqueueProductSync('00036000291452', 'Request timed out', past);
+      await db.saveProduct({ barcode: '00036000291452', name: 'Cola', category: 'beverages', source: 'openfoodfacts' });
+
+      expect(await db.listProductSyncs(undefined, 10, 0)).toEqual([]);
+      expect((await db.getProductByBarcode('00036000291452', 7))!.name).toBe('Cola');
+    });
+  });
+
+  // ============================================================================
+  // Product Catalog
+  // ============================================================================
+  describe('product catalog', () => {
+    it('should keep one entry per barcode, only filled in by other contributors', async () => {
+      const first = await db.saveCatalogProduct({ barcode: '00036000291452', name: 'Coke', category: 'beverages' }, 'user_a');
+      const second = await db.saveCatalogProduct(
+        { barcode: '00036000291452', name: 'Free Money', brand: 'Coca-Cola', category: 'other', imageUrl: 'https://example.com/coke.jpg' },
+        'user_b'
+      );
+      const third = await db.saveCatalogProduct({ barcode: '00036000291452', name: 'Cola', brand: 'Prank Co', category: 'other' }, 'user_c');
+
+      expect(first).toMatchObject({ name: 'Coke', contributedBy: 'user_a' });
+      expect(first.brand).toBeUndefined();
+      expect(second).toMatchObject({ name: 'Coke', brand: 'Coca-Cola', category: 'beverages', contributedBy: 'user_a', createdAt: first.createdAt });
+      expect(third).toMatchObject({ name: 'Coke', brand: 'Coca-Cola', imageUrl: 'https://example.com/coke.jpg' });
+      expect(await db.getCatalogProduct('04006381333931')).toBeNull();
+    });
+
+    it('should let the first contributor correct their entry', async () => {
+      await db.saveCatalogProduct({ barcode: '00036000291452', name: 'Coke', category: 'other' }, 'user_a');
+      await db.saveCatalogProduct({ barcode: '00036000291452', name: 'Coke', brand: 'Coca-Cola', category: 'other' }, 'user_b');
+
+      const corrected = await db.saveCatalogProduct({ barcode: '00036000291452', name: 'Coca-Cola', category: 'beverages' }, 'user_a');
+
+      expect(corrected).toMatchObject({ name: 'Coca-Cola', category: 'beverages', contributedBy: 'user_a' });
+      expect(corrected.brand).toBeUndefined();
+    });
+
+    it('should cache where each product field came from', async () => {
+      const provenance = { name: 'catalog', brand: 'openfoodfacts' };
+      await db.saveProduct({ barcode: '00036000291452', name: 'Coke', brand: 'Coca-Cola', category: 'other', source: 'catalog', provenance });
+
+      expect((await db.getProductByBarcode('00036000291452', 7))!.provenance).toEqual(provenance);
+
+      await db.saveProduct({ barcode: '00036000291452', name: 'Coke', category: 'other', source: 'catalog' });
+      expect((await db.getProductByBarcode('00036000291452'))!.provenance).toBeUndefined();
+    });
+  });
+
+  // ============================================================================
+  // Meal Plan
+  // ============================================================================
+  describe('meal plan', () => {
+    it('should list entries in a date range by date and slot', async () => {
+      await db.createMealPlanEntry(testUserId, { date: '2026-10-21', slot: 'BREAKFAST', title: 'Porridge', ingredients: [{ name: 'oats', quantity: 80, unit: 'g' }] });
+      await db.createMealPlanEntry(testUserId, { date: '2026-10-20', slot: 'DINNER', title: 'Soup', ingredients: [{ name: 'leeks' }] });
+      await db.createMealPlanEntry(testUserId, { date: '2026-10-20', slot: 'LUNCH', title: 'Salad', ingredients: [{ name: 'lettuce' }] });
+      await db.createMealPlanEntry(testUserId, { date: '2026-10-28', slot: 'LUNCH', title: 'Later', ingredients: [{ name: 'rice' }] });
+
+      const week = await db.getMealPlan(testUserId, '2026-10-20', '2026-10-26');
+
+      expect(week.map((entry) => entry.title)).toEqual(['Salad', 'Soup', 'Porridge']);
+      expect(week[2].ingredients[0]).toMatchObject({ name: 'oats', quantity: 80, unit: 'g' });
+      expect(await db.getMealPlan(testUserId)).toHaveLength(4);
+      expect(await db.getMealPlan('other_user')).toEqual([]);
+    });
+
+    it('should replace ingredients on update', async () => {
+      const entry = await db.createMealPlanEntry(testUserId, { date: '2026-10-20', slot: 'DINNER', title: 'Stew', servings: 2, ingredients: [{ name: 'beef' }, { name: 'carrots' }] });
+
+      const updated = await db.updateMealPlanEntry(testUserId, entry.id, { servings: null, ingredients: [{ name: 'lentils', quantity: 200, unit: 'g' }] });
+
+      expect(updated!.servings).toBeUndefined();
+      expect(updated!.ingredients.map((line) => line.name)).toEqual(['lentils']);
+      expect(await db.updateMealPlanEntry('other_user', entry.id, { title: 'Nope' })).toBeNull();
+    });
+
+    it('should keep planned meals when their recipe is deleted', async () => {
+      const recipe = await db.createRecipe(testUserId, { name: 'Pancakes', ingredients: [{ name: 'flour' }] });
+      const entry = await db.createMealPlanEntry(testUserId, { date: '2026-10-20', slot: 'BREAKFAST', recipeId: recipe.id, title: 'Pancakes', ingredients: [] });
+
+      await db.deleteRecipe(testUserId, recipe.id);
+
+      const kept = await db.getMealPlanEntryById(testUserId, entry.id);
+      expect(kept!.title).toBe('Pancakes');
+      expect(kept!.recipeId).toBeUndefined();
+    });
+
+    it('should delete an entry and its ingredients', async () => {
+      const entry = await db.createMealPlanEntry(testUserId, { date: '2026-10-20', slot: 'SNACK', title: 'Fruit', ingredients: [{ name: 'apples', quantity: 2 }] });
+
+      expect(await db.deleteMealPlanEntry(testUserId, entry.id)).toBe(true);
+      expect(await db.getMealPlanEntryById(testUserId, entry.id)).toBeNull();
+      expect(await db.query('SELECT * FROM meal_plan_ingredients WHERE entry_id = ?', [entry.id])).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // Unit Conversion
+  // ============================================================================
+  describe('unit conversion', () => {
+    it('should convert activity amounts to the item unit', async () => {
+      const item = await db.createItem(testUserId, { name: 'Ground Beef', quantity: 2, unit: 'lbs', category: 'meat' });
+
+      const activity = await db.logActivity(testUserId, item.id, 'ADD', 16, 'RECEIPT_SCAN', { unit: 'oz' });
+
+      expect(activity?.amount).toBe(1);
+      expect((await db.getItemById(testUserId, item.id))!.quantity).toBe(3);
+    });
+
+    it('should convert weights and volumes through the density the user set', async () => {
+      const item = await db.createItem(testUserId, { name: 'Flour', quantity: 1000, unit: 'g', category: 'baking', density: 0.53 });
+
+      const activity = await db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { unit: 'cup' });
+      expect(activity?.amount).toBeCloseTo(125.39, 2);
+
+      const cleared = await db.updateItem(testUserId, item.id, { density: null });
+      expect(cleared!.density).toBeUndefined();
+      await expect(
+        db.logActivity(testUserId, item.id, 'REMOVE', 1, 'MANUAL', { unit: 'cup' })
+      ).rejects.toBeInstanceOf(IncompatibleUnitsError);
+
+      const updated = await db.updateItem(testUserId, item.id, { density: 0.6 });
+      expect(updated!.density).toBe(0.6);
+      expect((await db.getItemById(testUserId, item.id))!.density).toBe(0.6);
+    });
+
+    it('should reject units that cannot be converted', async () => {
+      const item = await db.createItem(testUserId, { name: 'Eggs', quantity: 6, unit: 'pieces', category: 'dairy' });
+
+      await expect(
+        db.logActivity(testUserId, item.id, 'ADD', 200, 'MANUAL', { unit: 'g' })
+      ).rejects.toThrow('Incompatible units');
+
+      expect((await db.getItemById(testUserId, item.id))!.quantity).toBe(6);
+      expect(await db.getActivityCount(testUserId, item.id)).toBe(0);
+    });
+
+    it('should import nothing from a session with an unconvertible unit', async () => {
+      const beef = await db.createItem(testUserId, {
+        name: 'Ground Beef', quantity: 1, unit: 'lb', category: 'meat', barcode: '0000000000017',
+      });
+      const eggs = await db.createItem(testUserId, {
+        name: 'Eggs', quantity: 6, unit: 'pieces', category: 'dairy', barcode: '0000000000024',
+      });
+      const session = await db.createSession(testUserId, {});
+      await db.addSessionItem(testUserId, session.id, { barcode: '0000000000017', name: 'Ground Beef', quantity: 500, unit: 'g' });
+      await db.addSessionItem(testUserId, session.id, { barcode: '0000000000024', name: 'Eggs', quantity: 1, unit: 'l' });
+      await db.completeSession(testUserId, session.id, {});
+
+      await expect(db.addSessionToInventory(testUserId, session.id)).rejects.toThrow('Incompatible units');
+
+      expect((await db.getItemById(testUserId, beef.id))!.quantity).toBe(1);
+      expect((await db.getItemById(testUserId, eggs.id))!.quantity).toBe(6);
+    });
+
+    it('should convert session items to the pantry item unit', async () => {
+      const beef = await db.createItem(testUserId, {
+        name: 'Ground Beef', quantity: 1, unit: 'kg', category: 'meat', barcode: '0000000000017',
+      });
+      const session = await db.createSession(testUserId, {});
+      await db.addSessionItem(testUserId, session.id, { barcode: '0000000000017', name: 'Ground Beef', quantity: 500, unit: 'g' });
+      await db.completeSession(testUserId, session.id, {});
+
+      const result = await db.addSessionToInventory(testUserId, session.id);
+
+      expect(result.activities[0].amount).toBe(0.5);
+      expect((await db.getItemById(testUserId, beef.id))!.quantity).toBe(1.5);
+    });
+  });
+
+  // ============================================================================
+  // Transactions
+  // ============================================================================
+  describe('transaction', () => {
+    it('should commit adapter calls made inside it', async () => {
+      const item = await db.createItem(testUserId, { name: 'Flour', quantity: 1000, unit: 'g', category: 'baking' });
+
+      await db.transaction(async () => {
+        await db.logActivity(testUserId, item.id, 'REMOVE', 200);
+        await db.logActivity(testUserId, item.id, 'REMOVE', 100);
+      });
+
+      expect((await db.getItemById(testUserId, item.id))!.quantity).toBe(700);
+    });
+
+    it('should roll back every adapter call when it throws', async () => {
+      const flour = await db.createItem(testUserId, { name: 'Flour', quantity: 1000, unit: 'g', category: 'baking' });
+      const eggs = await db.createItem(testUserId, { name: 'Eggs', quantity: 6, unit: 'pieces', category: 'dairy' });
+
+      await expect(db.transaction(async () => {
+        await db.logActivity(testUserId, flour.id, 'REMOVE', 200);
+        await db.logActivity(testUserId, eggs.id, 'REMOVE', 2);
+        throw new Error('Item not found: Milk');
+      })).rejects.toThrow('Item not found: Milk');
+
+      expect((await db.getItemById(testUserId, flour.id))!.quantity).toBe(1000);
+      expect((await db.getItemById(testUserId, eggs.id))!.quantity).toBe(6);
+      expect(await db.getActivityCount(testUserId, flour.id)).toBe(0);
+      expect(await db.getItemLots(testUserId, eggs.id)).toEqual([
+        expect.objectContaining({ quantity: 6 }),
+      ]);
+    });
+
+    it('should run overlapping transactions one after the other', async () => {
+      const flour = await db.createItem(testUserId, { name: 'Flour', quantity: 1000, unit: 'g', category: 'baking' });
+      const eggs = await db.createItem(testUserId, { name: 'Eggs', quantity: 6, unit: 'pieces', category: 'dairy' });
+      const pause = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+      const results = await Promise.allSettled([
+        db.transaction(async () => {
+          await db.logActivity(testUserId, flour.id, 'REMOVE', 200);
+          await pause();
+          throw new Error('Item not found: Milk');
+        }),
+        db.transaction(async () => {
+          await db.logActivity(testUserId, eggs.id, 'REMOVE', 2);
+          await pause();
+        }),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'fulfilled']);
+      expect((await db.getItemById(testUserId, flour.id))!.quantity).toBe(1000);
+      expect((await db.getItemById(testUserId, eggs.id))!.quantity).toBe(4);
+    });
+
+    it('should roll back only a nested transaction that throws', async () => {
+      const flour = await db.createItem(testUserId, { name: 'Flour', quantity: 1000, unit: 'g', category: 'baking' });
+
+      await db.transaction(async () => {
+        await db.logActivity(testUserId, flour.id, 'REMOVE', 200);
+        await expect(db.transaction(async () => {
+          await db.logActivity(testUserId, flour.id, 'REMOVE', 100);
+          throw new Error('Item not found: Milk');
+        })).rejects.toThrow('Item not found: Milk');
+      });
+
+      expect((await db.getItemById(testUserId, flour.id))!.quantity).toBe(800);
+    });
+  });
 });
@@ -0,0 +1,329 @@
+/**
+ * Household API Route Tests
+ * Creating, joining and managing households, and the household middleware
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  createHousehold: jest.fn(),
+  getHouseholdById: jest.fn(),
+  getHouseholdByInviteCode: jest.fn(),
+  getHouseholdForUser: jest.fn(),
+  updateHouseholdName: jest.fn(),
+  regenerateHouseholdInviteCode: jest.fn(),
+  deleteHousehold: jest.fn(),
+  getHouseholdMembers: jest.fn(),
+  addHouseholdMember: jest.fn(),
+  updateHouseholdMemberRole: jest.fn(),
+  removeHouseholdMember: jest.fn(),
+  createHouseholdInvite: jest.fn(),
+  getHouseholdInviteByToken: jest.fn(),
+  getPendingHouseholdInvites: jest.fn(),
+  markHouseholdInviteAccepted: jest.fn(),
+  deleteHouseholdInvite: jest.fn(),
+}));
+
+// Mock the subscription service
+jest.mock('../src/services/subscription', () => ({
+  hasSharedInventory: jest.fn(),
+  getMaxFamilyMembers: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+import {
+  createHousehold,
+  getHouseholdById,
+  getHouseholdByInviteCode,
+  getHouseholdForUser,
+  deleteHousehold,
+  getHouseholdMembers,
+  addHouseholdMember,
+  removeHouseholdMember,
+  createHouseholdInvite,
+  getHouseholdInviteByToken,
+  markHouseholdInviteAccepted,
+  updateHouseholdMemberRole,
+} from '../src/db/operations';
+import { hasSharedInventory, getMaxFamilyMembers } from '../src/services/subscription';
+import { resolveHousehold, blockViewerWrites } from '../src/middleware/household';
+import householdsRouter from '../src/routes/households';
+
+const USER_ID = 'test_user_123456';
+const HOUSEHOLD_ID = '8d0f7b2e-3c4a-4e5f-9a6b-1c2d3e4f5a6b';
+
+const household = {
+  id: HOUSEHOLD_ID,
+  name: 'Home',
+  ownerId: 'owner_user',
+  inviteCode: 'K7MP4QRX',
+  createdAt: '2024-01-15T10:00:00.000Z',
+  updatedAt: '2024-01-15T10:00:00.000Z',
+};
+
+function member(userId: string, role: string) {
+  return { householdId: HOUSEHOLD_ID, userId, role, joinedAt: '2024-01-15T10:00:00.000Z' };
+}
+
+describe('Household API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/households', householdsRouter);
+  });
+
+  describe('GET /api/households', () => {
+    it('should return the household with members and role', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'editor' });
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member('owner_user', 'owner'), member(USER_ID, 'editor')]);
+
+      const response = await request(app).get('/api/households');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.role).toBe('editor');
+      expect(response.body.data.members).toHaveLength(2);
+    });
+
+    it('should return 404 when not in a household', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get('/api/households');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/households', () => {
+    it('should create a household on the family tier', async () => {
+      (hasSharedInventory as jest.Mock).mockResolvedValue(true);
+      (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+      (createHousehold as jest.Mock).mockResolvedValue({ ...household, ownerId: USER_ID });
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member(USER_ID, 'owner')]);
+
+      const response = await request(app).post('/api/households').send({ name: 'Home' });
+
+      expect(response.status).toBe(201);
+      expect(createHousehold).toHaveBeenCalledWith(USER_ID, 'Home');
+      expect(response.body.data.role).toBe('owner');
+    });
+
+    it('should require the family tier', async () => {
+      (hasSharedInventory as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app).post('/api/households').send({ name: 'Home' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('UPGRADE_REQUIRED');
+      expect(createHousehold).not.toHaveBeenCalled();
+    });
+
+    it('should reject users already in a household', async () => {
+      (hasSharedInventory as jest.Mock).mockResolvedValue(true);
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'editor' });
+
+      const response = await request(app).post('/api/households').send({ name: 'Home' });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /api/households/join', () => {
+    it('should join as an editor', async () => {
+      (getHouseholdByInviteCode as jest.Mock).mockResolvedValue(household);
+      (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member('owner_user', 'owner')]);
+      (getMaxFamilyMembers as jest.Mock).mockResolvedValue(5);
+
+      const response = await request(app).post('/api/households/join').send({ code: 'k7mp4qrx' });
+
+      expect(response.status).toBe(201);
+      expect(getMaxFamilyMembers).toHaveBeenCalledWith('owner_user');
+      expect(addHouseholdMember).toHaveBeenCalledWith(HOUSEHOLD_ID, USER_ID, 'editor');
+    });
+
+    it('should enforce the family member limit', async () => {
+      (getHouseholdByInviteCode as jest.Mock).mockResolvedValue(household);
+      (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member('owner_user', 'owner'), member('a', 'editor')]);
+      (getMaxFamilyMembers as jest.Mock).mockResolvedValue(2);
+
+      const response = await request(app).post('/api/households/join').send({ code: 'K7MP4QRX' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('FAMILY_MEMBER_LIMIT_REACHED');
+      expect(addHouseholdMember).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown code', async () => {
+      (getHouseholdByInviteCode as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).post('/api/households/join').send({ code: 'NOPE' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/households/leave', () => {
+    it('should remove a member', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'editor' });
+      (removeHouseholdMember as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app).post('/api/households/leave');
+
+      expect(response.status).toBe(200);
+      expect(removeHouseholdMember).toHaveBeenCalledWith(HOUSEHOLD_ID, USER_ID);
+    });
+
+    it('should stop the owner leaving while others remain', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'owner' });
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member(USER_ID, 'owner'), member('a', 'editor')]);
+
+      const response = await request(app).post('/api/households/leave');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('HOUSEHOLD_OWNER_CANNOT_LEAVE');
+    });
+
+    it('should dissolve the household when the owner is alone', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'owner' });
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member(USER_ID, 'owner')]);
+
+      const response = await request(app).post('/api/households/leave');
+
+      expect(response.status).toBe(200);
+      expect(deleteHousehold).toHaveBeenCalledWith(HOUSEHOLD_ID, USER_ID);
+      expect(response.body.data.dissolved).toBe(true);
+    });
+  });
+
+  describe('invites', () => {
+    it('should let the owner invite by email', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'owner' });
+      (createHouseholdInvite as jest.Mock).mockResolvedValue({ id: 'invite-1', token: 'abc' });
+
+      const response = await request(app)
+        .post('/api/households/invites')
+        .send({ email: 'sam@example.com', role: 'viewer' });
+
+      expect(response.status).toBe(201);
+      expect(createHouseholdInvite).toHaveBeenCalledWith(HOUSEHOLD_ID, expect.objectContaining({
+        email: 'sam@example.com', role: 'viewer', invitedBy: USER_ID,
+      }));
+    });
+
+    it('should not let editors invite', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'editor' });
+
+      const response = await request(app).post('/api/households/invites').send({ email: 'sam@example.com' });
+
+      expect(response.status).toBe(403);
+      expect(createHouseholdInvite).not.toHaveBeenCalled();
+    });
+
+    it('should accept an invite with its role', async () => {
+      (getHouseholdInviteByToken as jest.Mock).mockResolvedValue({
+        id: 'invite-1', householdId: HOUSEHOLD_ID, role: 'viewer', expiresAt: '2099-01-01T00:00:00.000Z',
+      });
+      (getHouseholdById as jest.Mock).mockResolvedValue(household);
+      (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+      (getHouseholdMembers as jest.Mock).mockResolvedValue([member('owner_user', 'owner')]);
+      (getMaxFamilyMembers as jest.Mock).mockResolvedValue(5);
+
+      const response = await request(app).post('/api/households/invites/abc/accept');
+
+      expect(response.status).toBe(201);
+      expect(addHouseholdMember).toHaveBeenCalledWith(HOUSEHOLD_ID, USER_ID, 'viewer');
+      expect(markHouseholdInviteAccepted).toHaveBeenCalledWith('invite-1', USER_ID);
+    });
+
+    it('should reject expired invites', async () => {
+      (getHouseholdInviteByToken as jest.Mock).mockResolvedValue({
+        id: 'invite-1', householdId: HOUSEHOLD_ID, role: 'editor', expiresAt: '2020-01-01T00:00:00.000Z',
+      });
+
+      const response = await request(app).post('/api/households/invites/abc/accept');
+
+      expect(response.status).toBe(410);
+      expect(addHouseholdMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('members', () => {
+    it('should let the owner change a role', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'owner' });
+      (updateHouseholdMemberRole as jest.Mock).mockResolvedValue(member('a', 'viewer'));
+
+      const response = await request(app).patch('/api/households/members/a').send({ role: 'viewer' });
+
+      expect(response.status).toBe(200);
+      expect(updateHouseholdMemberRole).toHaveBeenCalledWith(HOUSEHOLD_ID, 'a', 'viewer');
+    });
+
+    it('should not let the owner remove themselves', async () => {
+      (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'owner' });
+
+      const response = await request(app).delete(`/api/households/members/${USER_ID}`);
+
+      expect(response.status).toBe(400);
+      expect(removeHouseholdMember).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Household Middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use((req, _res, next) => {
+      req.userId = USER_ID;
+      next();
+    });
+    app.use(resolveHousehold, blockViewerWrites);
+    app.all('/owner', (req, res) => {
+      res.json({ ownerId: req.ownerId });
+    });
+  });
+
+  it('should use the user ID outside a household', async () => {
+    (getHouseholdForUser as jest.Mock).mockResolvedValue(null);
+
+    const response = await request(app).get('/owner');
+
+    expect(response.body.ownerId).toBe(USER_ID);
+  });
+
+  it('should use the household ID for members', async () => {
+    (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'editor' });
+
+    const response = await request(app).post('/owner');
+
+    expect(response.status).toBe(200);
+    expect(response.body.ownerId).toBe(HOUSEHOLD_ID);
+  });
+
+  it('should keep viewers read-only', async () => {
+    (getHouseholdForUser as jest.Mock).mockResolvedValue({ household, role: 'viewer' });
+
+    expect((await request(app).get('/owner')).status).toBe(200);
+
+    const response = await request(app).post('/owner');
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Image Upload Tests
+ * Multipart receipt uploads: type sniffing, size limits, orientation and
+ * HEIC conversion, and the routes that take them
+ */
+
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import Sharp from 'sharp';
+
+// Mock the database modules
+jest.mock('../src/db/operations', () => ({
+  getSessionById: jest.fn(),
+  captureSessionReceipt: jest.fn(),
+  updateSessionReceipt: jest.fn(),
+}));
+
+jest.mock('../src/db', () => ({
+  getDatabase: jest.fn(),
+}));
+
+// Mock OCR (Tesseract and Sharp are too slow for unit tests)
+jest.mock('../src/services/receiptOcr', () => ({
+  scanReceiptImage: jest.fn(),
+}));
+
+jest.mock('../src/services/receiptJobs', () => ({
+  ...jest.requireActual('../src/services/receiptJobs'),
+  submitReceiptJob: jest.fn(),
+  queueReceiptHeaderRead: jest.fn(),
+}));
+
+jest.mock('../src/services/subscription', () => ({
+  ...jest.requireActual('../src/services/subscription'),
+  canScanReceipt: jest.fn(() => Promise.resolve({ allowed: true, remaining: 5 })),
+}));
+
+jest.mock('../src/services/receiptImages', () => ({
+  ...jest.requireActual('../src/services/receiptImages'),
+  saveReceiptImage: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import { getSessionById, captureSessionReceipt, updateSessionReceipt } from '../src/db/operations';
+import { getDatabase } from '../src/db';
+import { submitReceiptJob, queueReceiptHeaderRead } from '../src/services/receiptJobs';
+import { saveReceiptImage, sniffImageType, prepareUploadedImage } from '../src/services/receiptImages';
+import { acceptImageUpload } from '../src/middleware/imageUpload';
+import receiptsRouter from '../src/routes/receipts';
+import sessionsRouter from '../src/routes/sessions';
+import shoppingSessionsRouter from '../src/routes/shoppingSessions';
+
+const USER_ID = 'test_user_123456';
+const SESSION_ID = '550e8400-e29b-41d4-a716-446655440000';
+const RECEIPT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const JOB_ID = '9b2f0c1e-4d3a-4e8b-a6f1-2c7d5e9f8a10';
+
+function blank(width: number, height: number): Sharp.Sharp {
+  return Sharp({ create: { width, height, channels: 3, background: { r: 255, g: 255, b: 255 } } });
+}
+
+// An HEVC-coded HEIC, as iPhones take: 40x20, red on the left, blue on the right
+const HEIC = fs.readFileSync(path.join(__dirname, 'fixtures/receipt.heic'));
+
+describe('Uploaded Images', () => {
+  it('should tell image types from their bytes', async () => {
+    expect(sniffImageType(await blank(4, 4).jpeg().toBuffer())).toBe('image/jpeg');
+    expect(sniffImageType(await blank(4, 4).png().toBuffer())).toBe('image/png');
+    expect(sniffImageType(await blank(4, 4).webp().toBuffer())).toBe('image/webp');
+    expect(sniffImageType(HEIC)).toBe('image/heic');
+    expect(sniffImageType(Buffer.from('%PDF-1.7 not an image'))).toBeNull();
+  });
+
+  it('should not take AVIF for HEIC, whatever its major brand', async () => {
+    const avif = await blank(4, 4).heif({ compression: 'av1' }).toBuffer();
+    expect(sniffImageType(avif)).toBeNull();
+
+    avif.write('mif1', 8, 'latin1');
+    expect(sniffImageType(avif)).toBeNull();
+  });
+
+  it('should keep upright images byte for byte', async () => {
+    const png = await blank(40, 20).png().toBuffer();
+
+    const prepared = await prepareUploadedImage(png, 'image/png');
+
+    expect(prepared.data).toBe(png);
+    expect(prepared.mimeType).toBe('image/png');
+  });
+
+  it('should turn photos upright from their EXIF orientation', async () => {
+    // Orientation 6: stored landscape, shown rotated 90 degrees clockwise
+    const photo = await blank(40, 20).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+    const prepared = await prepareUploadedImage(photo, 'image/jpeg');
+
+    const metadata = await Sharp(prepared.data).metadata();
+    expect(metadata).toMatchObject({ format: 'jpeg', width: 20, height: 40 });
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('should convert HEIC to JPEG', async () => {
+    const prepared = await prepareUploadedImage(HEIC, 'image/heic');
+
+    expect(prepared.mimeType).toBe('image/jpeg');
+    expect(await Sharp(prepared.data).metadata()).toMatchObject({ format: 'jpeg', width: 40, height: 20 });
+    const { data } = await Sharp(prepared.data).extract({ left: 5, top: 10, width: 1, height: 1 }).raw().toBuffer({ resolveWithObject: true });
+    expect(data[0]).toBeGreaterThan(200);
+    expect(data[2]).toBeLessThan(60);
+  });
+});
+
+describe('Image Upload Middleware', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.post('/upload', acceptImageUpload('image', 1024), (req, res) => {
+      res.json({ uploaded: req.uploadedImage && { mimeType: req.uploadedImage.mimeType }, body: req.body });
+    });
+  });
+
+  it('should type uploads from their bytes, not the client\'s claims', async () => {
+    const png = await blank(8, 8).png().toBuffer();
+
+    const response = await request(app)
+      .post('/upload')
+      .field('notes', 'Corner shop')
+      .attach('image', png, { filename: 'receipt.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ uploaded: { mimeType: 'image/png' }, body: { notes: 'Corner shop' } });
+  });
+
+  it('should reject files that aren\'t images, are too large or are missing', async () => {
+    const text = await request(app)
+      .post('/upload')
+      .attach('image', Buffer.from('just some text'), { filename: 'receipt.jpg', contentType: 'image/jpeg' });
+    const large = await request(app)
+      .post('/upload')
+      .attach('image', Buffer.alloc(4096), { filename: 'receipt.png', contentType: 'image/png' });
+    const missing = await request(app).post('/upload').field('notes', 'No image');
+
+    expect(text.status).toBe(415);
+    expect(text.body.error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+    expect(large.status).toBe(413);
+    expect(large.body.error.code).toBe('PAYLOAD_TOO_LARGE');
+    expect(missing.status).toBe(400);
+    expect(missing.body.error.message).toBe('Missing image file in the "image" field');
+  });
+
+  it('should leave JSON bodies to the route', async () => {
+    const response = await request(app).post('/upload').send({ image: 'aGVsbG8=' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ body: { image: 'aGVsbG8=' } });
+  });
+});
+
+describe('Multipart Receipt Routes', () => {
+  let app: express.Application;
+  let jpeg: Buffer;
+  const stored = { imageKey: `receipts/${SESSION_ID}/upload.jpg`, contentHash: 'c8', sizeBytes: 2, mimeType: 'image/jpeg' };
+  const receipt = { id: RECEIPT_ID, sessionId: SESSION_ID, ...stored, capturedAt: '', createdAt: '' };
+
+  beforeAll(async () => {
+    jpeg = await blank(16, 16).jpeg().toBuffer();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (saveReceiptImage as jest.Mock).mockResolvedValue(stored);
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/receipts', receiptsRouter);
+    app.use('/api/sessions', sessionsRouter);
+    app.use('/api/shopping-sessions', shoppingSessionsRouter);
+  });
+
+  it('should queue an uploaded receipt for scanning', async () => {
+    (submitReceiptJob as jest.Mock).mockResolvedValue({ id: RECEIPT_ID, status: 'PENDING' });
+
+    const response = await request(app).post('/api/receipts/scan').attach('image', jpeg, 'receipt.jpg');
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toEqual({ id: RECEIPT_ID, status: 'PENDING' });
+    expect(submitReceiptJob).toHaveBeenCalledWith(USER_ID, jpeg.toString('base64'));
+  });
+
+  it('should capture an uploaded receipt for a session and queue its header read', async () => {
+    const mockDb = {
+      getSessionById: jest.fn().mockResolvedValue({ id: SESSION_ID }),
+      captureSessionReceipt: jest.fn().mockResolvedValue(receipt),
+    };
+    (getDatabase as jest.Mock).mockReturnValue(mockDb);
+    (queueReceiptHeaderRead as jest.Mock).mockResolvedValue({ id: JOB_ID, status: 'PENDING' });
+
+    const response = await request(app)
+      .post(`/api/sessions/${SESSION_ID}/capture`)
+      .field('notes', 'Weekly shop')
+      .attach('image', jpeg, { filename: 'receipt.png', contentType: 'image/png' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.meta.receiptJobId).toBe(JOB_ID);
+    expect(saveReceiptImage).toHaveBeenCalledWith(SESSION_ID, jpeg, 'image/jpeg');
+    expect(mockDb.captureSessionReceipt).toHaveBeenCalledWith(USER_ID, SESSION_ID, stored, 'Weekly shop');
+    expect(queueReceiptHeaderRead).toHaveBeenCalledWith(USER_ID, jpeg, {
+      ownerId: USER_ID,
+      sessionId: SESSION_ID,
+      receiptId: RECEIPT_ID,
+    });
+  });
+
+  it('should capture an uploaded receipt and link a completed session to it', async () => {
+    (getSessionById as jest.Mock).mockResolvedValue({ id: SESSION_ID, status: 'completed' });
+    (captureSessionReceipt as jest.Mock).mockResolvedValue(receipt);
+    (updateSessionReceipt as jest.Mock).mockImplementation(async (_ownerId, id, receiptUrl) => ({ id, receiptUrl }));
+
+    const response = await request(app)
+      .post(`/api/shopping-sessions/${SESSION_ID}/receipt`)
+      .attach('image', jpeg, 'receipt.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.receiptUrl).toBe(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/image`);
+    expect(response.body.meta.receiptId).toBe(RECEIPT_ID);
+    expect(queueReceiptHeaderRead).toHaveBeenCalledWith(USER_ID, jpeg, {
+      ownerId: USER_ID,
+      sessionId: SESSION_ID,
+      receiptId: RECEIPT_ID,
+    });
+  });
+
+  it('should not capture uploads for sessions that aren\'t completed', async () => {
+    (getSessionById as jest.Mock).mockResolvedValue({ id: SESSION_ID, status: 'active' });
+
+    const response = await request(app)
+      .post(`/api/shopping-sessions/${SESSION_ID}/receipt`)
+      .attach('image', jpeg, 'receipt.jpg');
+
+    expect(response.status).toBe(404);
+    expect(saveReceiptImage).not.toHaveBeenCalled();
+  });
+});
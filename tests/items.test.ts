@@ -15,6 +15,13 @@ jest.mock('../src/db/operations', () => ({
   updateItem: jest.fn(),
   deleteItem: jest.fn(),
   getCategories: jest.fn(),
+  getItemLots: jest.fn(),
+  getExpiringLots: jest.fn(),
+  getMealPlan: jest.fn(() => Promise.resolve([])),
+  getRecipes: jest.fn(() => Promise.resolve([])),
+  getStorageLocationById: jest.fn(),
+  moveItem: jest.fn(),
+  searchItems: jest.fn(),
 }));
 
 // Mock the auth middleware
@@ -25,6 +32,15 @@ jest.mock('../src/middleware/auth', () => ({
   }),
 }));
 
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
 // Import mocked functions after jest.mock
 import {
   getAllItems,
@@ -33,6 +49,12 @@ import {
   updateItem,
   deleteItem,
   getCategories,
+  getItemLots,
+  getExpiringLots,
+  getMealPlan,
+  getStorageLocationById,
+  moveItem,
+  searchItems,
 } from '../src/db/operations';
 
 // Import routers after mocking
@@ -382,8 +404,57 @@ describe('Items API Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(items);
-      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', undefined);
+      expect(response.body.data).toEqual(
+        items.map((item) => ({ ...item, reserved: 0, available: item.quantity }))
+      );
+      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', undefined, undefined);
+    });
+
+    it('should filter by storage location', async () => {
+      (getAllItems as jest.Mock).mockResolvedValue([]);
+
+      const byLocation = await request(app).get('/api/items?locationId=7c6b5a49-3827-4165-9c4b-3a2918070605');
+      const unassigned = await request(app).get('/api/items?locationId=none');
+      const invalid = await request(app).get('/api/items?locationId=freezer');
+
+      expect(byLocation.status).toBe(200);
+      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', undefined, '7c6b5a49-3827-4165-9c4b-3a2918070605');
+      expect(unassigned.status).toBe(200);
+      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', undefined, null);
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should show stock reserved by planned meals', async () => {
+      const items = [
+        {
+          id: '550e8400-e29b-41d4-a716-446655440001',
+          userId: 'test_user_123456',
+          name: 'Eggs',
+          quantity: 6,
+          unit: 'pieces',
+          category: 'dairy',
+          lastUpdated: new Date().toISOString(),
+        },
+      ];
+
+      (getAllItems as jest.Mock).mockResolvedValue(items);
+      (getMealPlan as jest.Mock).mockResolvedValueOnce([{
+        id: 'entry-1',
+        userId: 'test_user_123456',
+        date: '2099-01-01',
+        slot: 'BREAKFAST',
+        title: 'Omelette',
+        ingredients: [{ id: 'line-1', entryId: 'entry-1', position: 0, name: 'eggs', quantity: 4 }],
+        createdAt: '',
+        updatedAt: '',
+      }]);
+
+      const response = await request(app)
+        .get('/api/items')
+        .set('Authorization', 'Bearer test_token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0]).toMatchObject({ quantity: 6, reserved: 4, available: 2 });
     });
 
     it('should filter items by category', async () => {
@@ -406,7 +477,7 @@ describe('Items API Routes', () => {
         .set('Authorization', 'Bearer test_token');
 
       expect(response.status).toBe(200);
-      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', 'produce');
+      expect(getAllItems).toHaveBeenCalledWith('test_user_123456', 'produce', undefined);
     });
 
     it('should return empty array when no items', async () => {
@@ -448,6 +519,7 @@ describe('Items API Routes', () => {
       };
 
       (getItemById as jest.Mock).mockResolvedValue(item);
+      (getItemLots as jest.Mock).mockResolvedValue([]);
 
       const response = await request(app)
         .get('/api/items/550e8400-e29b-41d4-a716-446655440000')
@@ -455,7 +527,55 @@ describe('Items API Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.data).toEqual(item);
+      expect(response.body.data).toEqual({ ...item, lots: [], untrackedQuantity: 5 });
+    });
+
+    it('should include the lot breakdown', async () => {
+      const item = {
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        userId: 'test_user_123456',
+        name: 'Milk',
+        quantity: 3,
+        unit: 'cartons',
+        category: 'dairy',
+        lastUpdated: new Date().toISOString(),
+      };
+      const lots = [
+        {
+          id: '7d0c1a52-4f7e-4b8e-9a43-2f1a5c9b8e10',
+          itemId: item.id,
+          userId: item.userId,
+          quantity: 1,
+          initialQuantity: 2,
+          purchaseDate: '2024-01-10',
+          bestBefore: '2024-01-17',
+          source: 'MANUAL',
+          createdAt: '2024-01-10T09:00:00.000Z',
+        },
+        {
+          id: '8e1d2b63-5a8f-4c9f-8b54-3a2b6d0c9f21',
+          itemId: item.id,
+          userId: item.userId,
+          quantity: 2,
+          initialQuantity: 2,
+          purchaseDate: '2024-01-14',
+          bestBefore: '2024-01-21',
+          source: 'RECEIPT_SCAN',
+          createdAt: '2024-01-14T09:00:00.000Z',
+        },
+      ];
+
+      (getItemById as jest.Mock).mockResolvedValue(item);
+      (getItemLots as jest.Mock).mockResolvedValue(lots);
+
+      const response = await request(app)
+        .get(`/api/items/${item.id}`)
+        .set('Authorization', 'Bearer test_token');
+
+      expect(response.status).toBe(200);
+      expect(getItemLots).toHaveBeenCalledWith('test_user_123456', item.id);
+      expect(response.body.data.lots).toEqual(lots);
+      expect(response.body.data.untrackedQuantity).toBe(0);
     });
 
     it('should return 400 for invalid UUID format', async () => {
@@ -480,6 +600,69 @@ describe('Items API Routes', () => {
     });
   });
 
+  // ============================================================================
+  // GET /api/items/expiring Tests
+  // ============================================================================
+  describe('GET /api/items/expiring', () => {
+    it('should default to a 7 day window and annotate days until expiry', async () => {
+      const today = new Date().toISOString().slice(0, 10);
+      const inTwoDays = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const inSevenDays = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+      (getExpiringLots as jest.Mock).mockResolvedValue([
+        { id: 'lot-1', itemId: 'item-1', itemName: 'Milk', category: 'dairy', unit: 'cartons', quantity: 1, bestBefore: today },
+        { id: 'lot-2', itemId: 'item-2', itemName: 'Eggs', category: 'dairy', unit: 'pieces', quantity: 6, bestBefore: inTwoDays },
+      ]);
+
+      const response = await request(app).get('/api/items/expiring');
+
+      expect(response.status).toBe(200);
+      expect(getExpiringLots).toHaveBeenCalledWith('test_user_123456', inSevenDays);
+      expect(response.body.data.map((lot: { daysUntilExpiry: number }) => lot.daysUntilExpiry)).toEqual([0, 2]);
+    });
+
+    it('should return 400 for an invalid withinDays', async () => {
+      const response = await request(app).get('/api/items/expiring?withinDays=-1');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(getExpiringLots).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================================
+  // GET /api/items/search Tests
+  // ============================================================================
+  describe('GET /api/items/search', () => {
+    it('should return ranked results with the filters passed through', async () => {
+      const results = [
+        { item: { id: 'item-1', name: 'Milk' }, score: 0.85, matchedOn: 'name' },
+      ];
+      (searchItems as jest.Mock).mockResolvedValue(results);
+
+      const response = await request(app).get('/api/items/search?q=%20Whole%20Milk%202%25%20&limit=5&locationId=none');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual(results);
+      expect(searchItems).toHaveBeenCalledWith('test_user_123456', 'Whole Milk 2%', {
+        limit: 5,
+        category: undefined,
+        locationId: null,
+      });
+    });
+
+    it('should return 400 without a query or with a bad limit', async () => {
+      const missing = await request(app).get('/api/items/search');
+      const blank = await request(app).get('/api/items/search?q=%20%20');
+      const tooMany = await request(app).get('/api/items/search?q=milk&limit=500');
+
+      expect(missing.status).toBe(400);
+      expect(blank.status).toBe(400);
+      expect(tooMany.status).toBe(400);
+      expect(searchItems).not.toHaveBeenCalled();
+    });
+  });
+
   // ============================================================================
   // GET /api/items/categories Tests
   // ============================================================================
@@ -605,6 +788,85 @@ describe('Items API Routes', () => {
     });
   });
 
+  // ============================================================================
+  // POST /api/items/:id/move Tests
+  // ============================================================================
+  describe('POST /api/items/:id/move', () => {
+    const itemId = '550e8400-e29b-41d4-a716-446655440000';
+    const locationId = '7c6b5a49-3827-4165-9c4b-3a2918070605';
+    const item = {
+      id: itemId,
+      userId: 'test_user_123456',
+      name: 'Chicken',
+      quantity: 2,
+      unit: 'lbs',
+      category: 'meat',
+      lastUpdated: new Date().toISOString(),
+    };
+
+    it('should move the item and return the result', async () => {
+      (getItemById as jest.Mock).mockResolvedValue(item);
+      (getStorageLocationById as jest.Mock).mockResolvedValue({ id: locationId, name: 'Freezer' });
+      (moveItem as jest.Mock).mockResolvedValue({ item, destination: item, activities: [] });
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/move`)
+        .send({ locationId, quantity: 1 });
+
+      expect(response.status).toBe(200);
+      expect(moveItem).toHaveBeenCalledWith('test_user_123456', itemId, locationId, {
+        quantity: 1,
+        performedBy: 'test_user_123456',
+      });
+    });
+
+    it('should allow moving out of any location', async () => {
+      (getItemById as jest.Mock).mockResolvedValue({ ...item, locationId });
+      (moveItem as jest.Mock).mockResolvedValue({ item, destination: item, activities: [] });
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/move`)
+        .send({ locationId: null });
+
+      expect(response.status).toBe(200);
+      expect(getStorageLocationById).not.toHaveBeenCalled();
+      expect(moveItem).toHaveBeenCalledWith('test_user_123456', itemId, null, expect.any(Object));
+    });
+
+    it('should return 404 for an unknown location', async () => {
+      (getItemById as jest.Mock).mockResolvedValue(item);
+      (getStorageLocationById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/move`)
+        .send({ locationId });
+
+      expect(response.status).toBe(404);
+      expect(moveItem).not.toHaveBeenCalled();
+    });
+
+    it('should reject moving more than is in stock', async () => {
+      (getItemById as jest.Mock).mockResolvedValue(item);
+      (getStorageLocationById as jest.Mock).mockResolvedValue({ id: locationId, name: 'Freezer' });
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/move`)
+        .send({ locationId, quantity: 3 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(moveItem).not.toHaveBeenCalled();
+    });
+
+    it('should require a locationId', async () => {
+      const response = await request(app)
+        .post(`/api/items/${itemId}/move`)
+        .send({ quantity: 1 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   // ============================================================================
   // Error Response Format Tests
   // ============================================================================
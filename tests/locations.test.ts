@@ -0,0 +1,137 @@
+/**
+ * Storage Location Route Tests
+ * Location CRUD and name conflicts
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getStorageLocations: jest.fn(),
+  getStorageLocationById: jest.fn(),
+  getStorageLocationByName: jest.fn(),
+  createStorageLocation: jest.fn(),
+  updateStorageLocation: jest.fn(),
+  deleteStorageLocation: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getStorageLocationById,
+  getStorageLocationByName,
+  createStorageLocation,
+  updateStorageLocation,
+  deleteStorageLocation,
+} from '../src/db/operations';
+import locationsRouter from '../src/routes/locations';
+
+const USER_ID = 'test_user_123456';
+const LOCATION_ID = '7c6b5a49-3827-4165-9c4b-3a2918070605';
+
+const freezer = {
+  id: LOCATION_ID,
+  userId: USER_ID,
+  name: 'Freezer',
+  itemCount: 3,
+  createdAt: '',
+  updatedAt: '',
+};
+
+describe('Storage Location API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/locations', locationsRouter);
+  });
+
+  describe('POST /api/locations', () => {
+    it('should create a location with a trimmed name', async () => {
+      (getStorageLocationByName as jest.Mock).mockResolvedValue(null);
+      (createStorageLocation as jest.Mock).mockResolvedValue({ ...freezer, itemCount: 0 });
+
+      const response = await request(app).post('/api/locations').send({ name: '  Freezer ' });
+
+      expect(response.status).toBe(201);
+      expect(createStorageLocation).toHaveBeenCalledWith(USER_ID, 'Freezer');
+    });
+
+    it('should return 409 for a name already in use', async () => {
+      (getStorageLocationByName as jest.Mock).mockResolvedValue(freezer);
+
+      const response = await request(app).post('/api/locations').send({ name: 'freezer' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CONFLICT');
+      expect(createStorageLocation).not.toHaveBeenCalled();
+    });
+
+    it('should reject a blank name', async () => {
+      const response = await request(app).post('/api/locations').send({ name: '   ' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/locations/:id', () => {
+    it('should allow changing the case of the same location', async () => {
+      (getStorageLocationByName as jest.Mock).mockResolvedValue(freezer);
+      (updateStorageLocation as jest.Mock).mockResolvedValue({ ...freezer, name: 'FREEZER' });
+
+      const response = await request(app).put(`/api/locations/${LOCATION_ID}`).send({ name: 'FREEZER' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.name).toBe('FREEZER');
+    });
+
+    it('should return 404 for a missing location', async () => {
+      (getStorageLocationByName as jest.Mock).mockResolvedValue(null);
+      (updateStorageLocation as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).put(`/api/locations/${LOCATION_ID}`).send({ name: 'Cellar' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/locations/:id', () => {
+    it('should report how many items were unassigned', async () => {
+      (getStorageLocationById as jest.Mock).mockResolvedValue(freezer);
+      (deleteStorageLocation as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app).delete(`/api/locations/${LOCATION_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ deleted: true, id: LOCATION_ID, unassignedItems: 3 });
+    });
+
+    it('should return 404 for a missing location', async () => {
+      (getStorageLocationById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).delete(`/api/locations/${LOCATION_ID}`);
+
+      expect(response.status).toBe(404);
+      expect(deleteStorageLocation).not.toHaveBeenCalled();
+    });
+  });
+});
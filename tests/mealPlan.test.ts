@@ -0,0 +1,294 @@
+/**
+ * Meal Plan Tests
+ * Stock reservation, shortfalls and the meal plan routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getAllItems: jest.fn(),
+  getRecipes: jest.fn(),
+  getRecipeById: jest.fn(),
+  getMealPlan: jest.fn(),
+  getMealPlanEntryById: jest.fn(),
+  createMealPlanEntry: jest.fn(),
+  updateMealPlanEntry: jest.fn(),
+  deleteMealPlanEntry: jest.fn(),
+  getShoppingList: jest.fn(),
+  addShoppingListItem: jest.fn(),
+  updateShoppingListItem: jest.fn(),
+  transaction: jest.fn((fn: () => unknown) => Promise.resolve(fn())),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getAllItems,
+  getRecipes,
+  getRecipeById,
+  getMealPlan,
+  createMealPlanEntry,
+  updateMealPlanEntry,
+  getShoppingList,
+  addShoppingListItem,
+  updateShoppingListItem,
+} from '../src/db/operations';
+import mealPlanRouter from '../src/routes/mealPlan';
+import { allocateMealPlan, withReservations } from '../src/services/mealPlan';
+import { PantryItem } from '../src/models/types';
+import { Recipe } from '../src/models/recipe';
+import { MealPlanEntry } from '../src/models/mealPlan';
+
+const USER_ID = 'test_user_123456';
+const RECIPE_ID = '3f2a1b0c-9d8e-4f7a-8b6c-5d4e3f2a1b0c';
+const ENTRY_ID = '7c6b5a49-3827-4165-9c4b-3a2918070605';
+
+function item(id: string, name: string, quantity: number, unit: string): PantryItem {
+  return { id, userId: USER_ID, name, quantity, unit, category: 'general', lastUpdated: '' };
+}
+
+function entry(
+  date: string,
+  options: Partial<MealPlanEntry> & { lines?: Array<{ name: string; quantity?: number; unit?: string }> } = {}
+): MealPlanEntry {
+  const { lines = [], ...fields } = options;
+  return {
+    id: `entry-${date}`,
+    userId: USER_ID,
+    date,
+    slot: 'DINNER',
+    title: 'Dinner',
+    ingredients: lines.map((line, position) => ({ id: `line-${position}`, entryId: `entry-${date}`, position, ...line })),
+    createdAt: '',
+    updatedAt: '',
+    ...fields,
+  };
+}
+
+const pancakes: Recipe = {
+  id: RECIPE_ID,
+  userId: USER_ID,
+  name: 'Pancakes',
+  servings: 4,
+  ingredients: [
+    { id: 'r1', recipeId: RECIPE_ID, position: 0, name: 'flour', quantity: 200, unit: 'g' },
+    { id: 'r2', recipeId: RECIPE_ID, position: 1, name: 'eggs', quantity: 2 },
+  ],
+  createdAt: '',
+  updatedAt: '',
+};
+
+const pantry = [
+  item('flour-id', 'Plain Flour', 0.5, 'kg'),
+  item('eggs-id', 'Eggs', 3, 'pieces'),
+];
+
+describe('Meal Plan Service', () => {
+  describe('allocateMealPlan', () => {
+    it('should reserve recipe ingredients scaled to the planned servings', () => {
+      const plan = [entry('2026-10-20', { recipeId: RECIPE_ID, servings: 2 })];
+
+      const { reserved, shortfalls } = allocateMealPlan(plan, [pancakes], pantry);
+
+      expect(reserved).toEqual({ 'flour-id': 0.1, 'eggs-id': 1 });
+      expect(shortfalls).toEqual([]);
+    });
+
+    it('should give stock to the earliest meals and report the rest as shortfalls', () => {
+      const plan = [
+        entry('2026-10-22', { recipeId: RECIPE_ID }),
+        entry('2026-10-20', { recipeId: RECIPE_ID }),
+      ];
+
+      const { reserved, shortfalls } = allocateMealPlan(plan, [pancakes], pantry);
+
+      expect(reserved).toEqual({ 'flour-id': 0.4, 'eggs-id': 3 });
+      expect(shortfalls).toEqual([
+        { itemId: 'eggs-id', name: 'Eggs', quantity: 1, unit: 'pieces', dates: ['2026-10-22'] },
+      ]);
+    });
+
+    it('should merge unmatched free-text ingredients by name and unit', () => {
+      const plan = [
+        entry('2026-10-20', { lines: [{ name: 'milk', quantity: 300, unit: 'ml' }] }),
+        entry('2026-10-21', { lines: [{ name: 'Milk', quantity: 200, unit: 'millilitres' }, { name: 'salt' }] }),
+      ];
+
+      const { shortfalls } = allocateMealPlan(plan, [], pantry);
+
+      expect(shortfalls).toEqual([
+        { name: 'milk', quantity: 500, unit: 'ml', dates: ['2026-10-20', '2026-10-21'] },
+        { name: 'salt', quantity: 1, unit: undefined, itemId: undefined, dates: ['2026-10-21'] },
+      ]);
+    });
+
+    it('should only report shortfalls from the given date', () => {
+      const plan = [
+        entry('2026-10-20', { lines: [{ name: 'eggs', quantity: 3 }] }),
+        entry('2026-10-27', { lines: [{ name: 'eggs', quantity: 2 }] }),
+      ];
+
+      const { shortfalls } = allocateMealPlan(plan, [], pantry, '2026-10-27');
+
+      expect(shortfalls).toEqual([
+        { itemId: 'eggs-id', name: 'Eggs', quantity: 2, unit: 'pieces', dates: ['2026-10-27'] },
+      ]);
+    });
+  });
+
+  describe('withReservations', () => {
+    it('should never show negative availability', () => {
+      expect(withReservations([item('eggs-id', 'Eggs', 3, 'pieces')], { 'eggs-id': 3 })[0])
+        .toMatchObject({ reserved: 3, available: 0 });
+      expect(withReservations([item('eggs-id', 'Eggs', 3, 'pieces')], {})[0])
+        .toMatchObject({ reserved: 0, available: 3 });
+    });
+  });
+});
+
+describe('Meal Plan API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/meal-plan', mealPlanRouter);
+  });
+
+  describe('GET /api/meal-plan', () => {
+    it('should default to the week starting today', async () => {
+      (getMealPlan as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/meal-plan');
+
+      expect(response.status).toBe(200);
+      const { from, to } = response.body.meta;
+      expect(getMealPlan).toHaveBeenCalledWith(USER_ID, from, to);
+      expect((Date.parse(to) - Date.parse(from)) / 86400000).toBe(6);
+    });
+
+    it('should reject a reversed range', async () => {
+      const response = await request(app).get('/api/meal-plan?from=2026-10-25&to=2026-10-20');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/meal-plan', () => {
+    it('should title a recipe meal after the recipe', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(pancakes);
+      (createMealPlanEntry as jest.Mock).mockResolvedValue(entry('2026-10-20'));
+
+      const response = await request(app)
+        .post('/api/meal-plan')
+        .send({ date: '2026-10-20', slot: 'BREAKFAST', recipeId: RECIPE_ID });
+
+      expect(response.status).toBe(201);
+      expect(createMealPlanEntry).toHaveBeenCalledWith(USER_ID, expect.objectContaining({
+        title: 'Pancakes',
+        recipeId: RECIPE_ID,
+        ingredients: [],
+      }));
+    });
+
+    it('should return 404 for an unknown recipe', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/meal-plan')
+        .send({ date: '2026-10-20', slot: 'DINNER', recipeId: RECIPE_ID });
+
+      expect(response.status).toBe(404);
+      expect(createMealPlanEntry).not.toHaveBeenCalled();
+    });
+
+    it('should require a recipe or a titled ingredient list', async () => {
+      const noIngredients = await request(app)
+        .post('/api/meal-plan')
+        .send({ date: '2026-10-20', slot: 'DINNER', title: 'Leftovers' });
+      const noTitle = await request(app)
+        .post('/api/meal-plan')
+        .send({ date: '2026-10-20', slot: 'DINNER', ingredients: [{ name: 'rice' }] });
+
+      expect(noIngredients.status).toBe(400);
+      expect(noTitle.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/meal-plan/:id', () => {
+    it('should allow unlinking the recipe', async () => {
+      (updateMealPlanEntry as jest.Mock).mockResolvedValue(entry('2026-10-20'));
+
+      const response = await request(app).put(`/api/meal-plan/${ENTRY_ID}`).send({ recipeId: null });
+
+      expect(response.status).toBe(200);
+      expect(getRecipeById).not.toHaveBeenCalled();
+      expect(updateMealPlanEntry).toHaveBeenCalledWith(USER_ID, ENTRY_ID, { recipeId: null });
+    });
+
+    it('should return 404 for a missing entry', async () => {
+      (updateMealPlanEntry as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).put(`/api/meal-plan/${ENTRY_ID}`).send({ notes: 'later' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/meal-plan/shopping-list', () => {
+    beforeEach(() => {
+      (getRecipes as jest.Mock).mockResolvedValue([pancakes]);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+      (getMealPlan as jest.Mock).mockResolvedValue([
+        entry('2099-01-01', { recipeId: RECIPE_ID, servings: 8, lines: [{ name: 'syrup', quantity: 100, unit: 'ml' }] }),
+      ]);
+      (addShoppingListItem as jest.Mock).mockImplementation((_owner, input) => Promise.resolve({ id: 'new', ...input }));
+      (updateShoppingListItem as jest.Mock).mockImplementation((_owner, id, input) => Promise.resolve({ id, ...input }));
+    });
+
+    it('should add what the plan needs beyond current stock', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).post('/api/meal-plan/shopping-list').send({ to: '2099-01-07' });
+
+      expect(response.status).toBe(200);
+      expect(addShoppingListItem).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ itemId: 'eggs-id', quantity: 1, unit: 'pieces' }));
+      expect(addShoppingListItem).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ name: 'syrup', quantity: 100, unit: 'ml' }));
+      expect(addShoppingListItem).toHaveBeenCalledTimes(2);
+      expect(response.body.meta.addedCount).toBe(2);
+    });
+
+    it('should raise open entries instead of adding duplicates', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([
+        { id: 'open-eggs', itemId: 'eggs-id', name: 'Eggs', quantity: 0.5, unit: 'pieces', checked: false },
+        { id: 'open-syrup', name: 'Syrup', quantity: 250, unit: 'ml', checked: false },
+      ]);
+
+      const response = await request(app).post('/api/meal-plan/shopping-list').send({ to: '2099-01-07' });
+
+      expect(response.status).toBe(200);
+      expect(addShoppingListItem).not.toHaveBeenCalled();
+      expect(updateShoppingListItem).toHaveBeenCalledWith(USER_ID, 'open-eggs', { quantity: 1 });
+      expect(updateShoppingListItem).toHaveBeenCalledTimes(1);
+    });
+  });
+});
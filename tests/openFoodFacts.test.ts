@@ -0,0 +1,137 @@
+/**
+ * Open Food Facts Client Tests
+ * Request budget, in-flight deduplication, the circuit breaker and metrics
+ */
+
+import { OpenFoodFactsClient } from '../src/services/openFoodFacts';
+import { MemoryRateLimitStore, setRateLimitStore } from '../src/services/rateLimit';
+
+const BARCODE = '00036000291452';
+
+function productResponse(): Response {
+  return new Response(JSON.stringify({ status: 1, product: { product_name: 'Cola', categories: 'Beverages' } }));
+}
+
+describe('Open Food Facts Client', () => {
+  let fetchSpy: jest.SpyInstance;
+  let now: number;
+
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    now = Date.parse('2026-10-18T12:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => productResponse());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setRateLimitStore(null);
+  });
+
+  it('should map products and share one request between lookups of a barcode', async () => {
+    const client = new OpenFoodFactsClient();
+
+    const [first, second] = await Promise.all([client.lookup(BARCODE), client.lookup(BARCODE)]);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toMatch(/\/0036000291452\.json$/);
+    expect(first).toBe(second);
+    expect(first.product).toMatchObject({ barcode: BARCODE, name: 'Cola', category: 'beverages', source: 'openfoodfacts' });
+    expect(first.product!.provenance).toEqual({ name: 'openfoodfacts', category: 'openfoodfacts' });
+    expect(client.metrics()).toMatchObject({ lookups: 2, requests: 1, deduplicated: 1, inFlight: 0 });
+
+    await client.lookup(BARCODE);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse lookups over the request budget without calling Open Food Facts', async () => {
+    const client = new OpenFoodFactsClient({ requestsPerMinute: 2 });
+
+    await client.lookup('00036000291452');
+    await client.lookup('04006381333931');
+    const refused = await client.lookup('00000096385074');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(refused).toMatchObject({ success: false, rateLimited: true, retryAfter: 30 });
+    expect(client.metrics().rejected).toBe(1);
+  });
+
+  it('should open the circuit after repeated failures and close it after a good trial', async () => {
+    const client = new OpenFoodFactsClient({ failureThreshold: 2, cooldownMs: 30000 });
+    fetchSpy.mockRejectedValue(new Error('socket hang up'));
+
+    expect((await client.lookup(BARCODE)).error).toBe('Failed to fetch: socket hang up');
+    expect(client.isAvailable()).toBe(true);
+    await client.lookup(BARCODE);
+
+    expect(client.isAvailable()).toBe(false);
+    expect(await client.lookup(BARCODE)).toMatchObject({ rateLimited: true, retryAfter: 30 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(client.metrics()).toMatchObject({
+      circuit: { state: 'open', consecutiveFailures: 2, openUntil: '2026-10-18T12:00:30.000Z' },
+      failures: 2,
+      rejected: 1,
+      lastError: 'Failed to fetch: socket hang up',
+    });
+
+    now += 30000;
+    expect(client.metrics().circuit.state).toBe('half_open');
+    fetchSpy.mockImplementation(async () => productResponse());
+
+    expect((await client.lookup(BARCODE)).success).toBe(true);
+    expect(client.metrics().circuit).toEqual({ state: 'closed', consecutiveFailures: 0, openUntil: null });
+  });
+
+  it('should reopen the circuit when the trial request fails', async () => {
+    const client = new OpenFoodFactsClient({ failureThreshold: 1, cooldownMs: 10000 });
+    fetchSpy.mockResolvedValue(new Response('', { status: 502 }));
+
+    await client.lookup(BARCODE);
+    now += 10000;
+    await client.lookup(BARCODE);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(client.metrics().circuit).toMatchObject({ state: 'open', openUntil: '2026-10-18T12:00:20.000Z' });
+  });
+
+  it('should back off for as long as a 429 asks', async () => {
+    const client = new OpenFoodFactsClient({ cooldownMs: 10000 });
+    fetchSpy.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '120' } }));
+
+    const limited = await client.lookup(BARCODE);
+    const refused = await client.lookup('04006381333931');
+
+    expect(limited).toMatchObject({ success: false, rateLimited: true, retryAfter: 120 });
+    expect(refused).toMatchObject({ rateLimited: true, retryAfter: 120 });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(client.metrics()).toMatchObject({ rateLimited: 1, rejected: 1, circuit: { state: 'open' } });
+  });
+
+  it('should not count unknown products as failures', async () => {
+    const client = new OpenFoodFactsClient({ failureThreshold: 1 });
+    fetchSpy.mockImplementation(async () => new Response(JSON.stringify({ status: 0 })));
+
+    const result = await client.lookup(BARCODE);
+
+    expect(result).toEqual({ success: false, cached: false, error: 'Product not found in Open Food Facts' });
+    expect(client.isAvailable()).toBe(true);
+    expect(client.metrics().failures).toBe(0);
+  });
+
+  it('should look non-food products up in the other Open Facts databases', async () => {
+    const client = new OpenFoodFactsClient({
+      source: 'openbeautyfacts',
+      label: 'Open Beauty Facts',
+      baseUrl: 'https://beauty.example/api/v0/product',
+      category: 'personal care',
+    });
+
+    const found = await client.lookup(BARCODE);
+    fetchSpy.mockImplementation(async () => new Response('', { status: 404 }));
+    const missing = await client.lookup('04006381333931');
+
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://beauty.example/api/v0/product/0036000291452.json');
+    expect(found.product).toMatchObject({ category: 'personal care', source: 'openbeautyfacts', provenance: { category: 'openbeautyfacts' } });
+    expect(missing.error).toBe('Product not found in Open Beauty Facts');
+  });
+});
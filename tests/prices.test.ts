@@ -0,0 +1,230 @@
+/**
+ * Price History Tests
+ * Unit price normalization, trends, store comparison, alerts and the price routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getAllItems: jest.fn(),
+  getPriceHistory: jest.fn(),
+  getShoppingList: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import { getAllItems, getPriceHistory, getShoppingList } from '../src/db/operations';
+import pricesRouter from '../src/routes/prices';
+import {
+  normalizeUnitPrice,
+  buildPriceTrend,
+  compareShoppingListPrices,
+  findPriceIncreases,
+} from '../src/services/prices';
+import { PriceObservation } from '../src/models/price';
+import { ShoppingListItem } from '../src/models/shoppingList';
+
+const USER_ID = 'test_user_123456';
+
+function price(overrides: Partial<PriceObservation>): PriceObservation {
+  return {
+    id: 'price-1',
+    userId: USER_ID,
+    productKey: 'name:milk',
+    nameKey: 'milk',
+    name: 'Milk',
+    storeName: 'Aldi',
+    price: 1,
+    quantity: 1,
+    unit: 'l',
+    unitPrice: 1,
+    priceUnit: 'l',
+    source: 'SHOPPING_SESSION',
+    observedAt: '2024-01-01T00:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function listItem(overrides: Partial<ShoppingListItem>): ShoppingListItem {
+  return {
+    id: 'list-1',
+    userId: USER_ID,
+    name: 'Milk',
+    quantity: 2,
+    unit: 'l',
+    checked: false,
+    source: 'MANUAL',
+    createdAt: '',
+    updatedAt: '',
+    ...overrides,
+  };
+}
+
+describe('Price Service', () => {
+  it('should normalize prices to kg, l or piece', () => {
+    expect(normalizeUnitPrice(0.5, 'g')).toEqual({ unitPrice: 500, priceUnit: 'kg' });
+    expect(normalizeUnitPrice(2, 'ml')).toEqual({ unitPrice: 2000, priceUnit: 'l' });
+    expect(normalizeUnitPrice(6, 'dozen')).toEqual({ unitPrice: 0.5, priceUnit: 'piece' });
+    expect(normalizeUnitPrice(1.25, 'Cans')).toEqual({ unitPrice: 1.25, priceUnit: 'can' });
+    expect(normalizeUnitPrice(3)).toEqual({ unitPrice: 3, priceUnit: 'piece' });
+  });
+
+  it('should build a trend in the most common price unit', () => {
+    const trend = buildPriceTrend([
+      price({ unitPrice: 1, observedAt: '2024-01-01T00:00:00.000Z' }),
+      price({ unitPrice: 0.9, storeName: 'Lidl', observedAt: '2024-01-05T00:00:00.000Z' }),
+      price({ unitPrice: 4, priceUnit: 'bottle', observedAt: '2024-01-07T00:00:00.000Z' }),
+      price({ unitPrice: 1.2, storeName: 'ALDI ', observedAt: '2024-01-10T00:00:00.000Z' }),
+    ])!;
+
+    expect(trend.priceUnit).toBe('l');
+    expect(trend.points).toHaveLength(3);
+    expect(trend.changePercent).toBe(20);
+    expect(trend.stores.map((store) => [store.storeName, store.latestUnitPrice, store.observationCount])).toEqual([
+      ['Lidl', 0.9, 1],
+      ['ALDI ', 1.2, 2],
+    ]);
+    expect(buildPriceTrend([])).toBeNull();
+  });
+
+  it('should compare a shopping list across stores with the latest prices', () => {
+    const items = [
+      listItem({ id: 'milk', name: 'Milk', quantity: 500, unit: 'ml' }),
+      listItem({ id: 'bread', name: 'Bread', quantity: 1, unit: undefined }),
+    ];
+    const comparison = compareShoppingListPrices(items, [
+      price({ storeName: 'Aldi', unitPrice: 2 }),
+      price({ storeName: 'Aldi', unitPrice: 1, observedAt: '2024-02-01T00:00:00.000Z' }),
+      price({ storeName: 'Lidl', unitPrice: 0.8 }),
+      price({ nameKey: 'bread', name: 'Bread', storeName: 'Aldi', price: 2.5, unit: undefined, priceUnit: 'piece' }),
+      price({ storeName: undefined, unitPrice: 0.1 }),
+    ]);
+
+    expect(comparison.cheapestStore).toBe('Aldi');
+    expect(comparison.stores).toEqual([
+      { storeName: 'Aldi', estimatedTotal: 3, pricedItems: 2, missingItems: [] },
+      { storeName: 'Lidl', estimatedTotal: 0.4, pricedItems: 1, missingItems: ['Bread'] },
+    ]);
+    expect(comparison.items[0]).toMatchObject({ cheapestStore: 'Lidl', estimatedCost: 0.4 });
+  });
+
+  it('should price entries by weight through their pantry item\'s density', () => {
+    const items = [listItem({ id: 'flour', itemId: 'item-flour', name: 'Flour', quantity: 2, unit: 'cup' })];
+    const observations = [price({ nameKey: 'flour', name: 'Flour', unit: 'kg', unitPrice: 2, priceUnit: 'kg' })];
+
+    expect(compareShoppingListPrices(items, observations).items[0].estimatedCost).toBeNull();
+    expect(compareShoppingListPrices(items, observations, new Map([['item-flour', 0.53]])).items[0])
+      .toMatchObject({ cheapestStore: 'Aldi', estimatedCost: 0.5 });
+  });
+
+  it('should alert on rises at the same store above the threshold', () => {
+    const alerts = findPriceIncreases([
+      price({ unitPrice: 1, observedAt: '2024-01-01T00:00:00.000Z' }),
+      price({ storeName: 'Lidl', unitPrice: 2, observedAt: '2024-01-02T00:00:00.000Z' }),
+      price({ unitPrice: 1.15, observedAt: '2024-01-03T00:00:00.000Z' }),
+      price({ productKey: 'name:bread', storeName: 'Aldi', unitPrice: 2, observedAt: '2024-01-01T00:00:00.000Z' }),
+      price({ productKey: 'name:bread', storeName: 'Aldi', unitPrice: 2.1, observedAt: '2024-01-04T00:00:00.000Z' }),
+    ]);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ productKey: 'name:milk', storeName: 'Aldi', changePercent: 15 });
+    expect(findPriceIncreases([price({ unitPrice: 2 }), price({ unitPrice: 2.1 })], 6)).toHaveLength(0);
+  });
+});
+
+describe('Price API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/prices', pricesRouter);
+  });
+
+  describe('GET /api/prices/trend', () => {
+    it('should look a product up by barcode or name', async () => {
+      (getPriceHistory as jest.Mock).mockResolvedValue([price({})]);
+
+      const response = await request(app).get('/api/prices/trend?barcode=111&name=Milk&days=30');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.latestUnitPrice).toBe(1);
+      expect(getPriceHistory).toHaveBeenCalledWith(USER_ID, {
+        products: [{ barcode: '111', name: 'Milk' }],
+        since: expect.any(String),
+      });
+    });
+
+    it('should require a barcode or name and 404 without prices', async () => {
+      (getPriceHistory as jest.Mock).mockResolvedValue([]);
+
+      const missing = await request(app).get('/api/prices/trend');
+      const unknown = await request(app).get('/api/prices/trend?name=Caviar');
+
+      expect(missing.status).toBe(400);
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/prices/shopping-list', () => {
+    it('should compare the unchecked list', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([listItem({})]);
+      (getPriceHistory as jest.Mock).mockResolvedValue([price({})]);
+
+      const response = await request(app).get('/api/prices/shopping-list');
+
+      expect(response.status).toBe(200);
+      expect(getShoppingList).toHaveBeenCalledWith(USER_ID, false);
+      expect(response.body.data.cheapestStore).toBe('Aldi');
+      expect(getAllItems).not.toHaveBeenCalled();
+    });
+
+    it('should use the densities of linked pantry items', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([
+        listItem({ itemId: 'item-milk', quantity: 1030, unit: 'g' }),
+      ]);
+      (getPriceHistory as jest.Mock).mockResolvedValue([price({})]);
+      (getAllItems as jest.Mock).mockResolvedValue([{ id: 'item-milk', name: 'Milk', unit: 'l', density: 1.03 }]);
+
+      const response = await request(app).get('/api/prices/shopping-list');
+
+      expect(response.status).toBe(200);
+      expect(getAllItems).toHaveBeenCalledWith(USER_ID);
+      expect(response.body.data.items[0].estimatedCost).toBe(1);
+    });
+  });
+
+  describe('GET /api/prices/alerts', () => {
+    it('should pass the threshold and reject invalid values', async () => {
+      (getPriceHistory as jest.Mock).mockResolvedValue([price({ unitPrice: 1 }), price({ unitPrice: 1.04 })]);
+
+      const response = await request(app).get('/api/prices/alerts?threshold=3');
+      const invalid = await request(app).get('/api/prices/alerts?days=0');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.meta.threshold).toBe(3);
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Product Provider Tests
+ * Merging fields from a chain of product sources with provenance, the
+ * catalog provider and the HTTP provider against a local product service
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+jest.mock('../src/db/operations', () => ({
+  getCatalogProduct: jest.fn(),
+}));
+
+import { getCatalogProduct } from '../src/db/operations';
+import { BarcodeLookupResponse } from '../src/models/types';
+import {
+  CatalogProductProvider,
+  HttpProductProvider,
+  ProductProvider,
+  lookupProduct,
+  productSourcesAvailable,
+  sourcedProduct,
+} from '../src/services/productProviders';
+
+const BARCODE = '00036000291452';
+
+function fakeProvider(source: string, result: Omit<BarcodeLookupResponse, 'cached'>, remote = true): ProductProvider {
+  return {
+    source,
+    remote,
+    isAvailable: jest.fn().mockReturnValue(true),
+    lookup: jest.fn().mockResolvedValue({ cached: false, ...result }),
+  };
+}
+
+describe('Product Providers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('lookupProduct', () => {
+    it('should take each field from the first source that has it', async () => {
+      const catalog = fakeProvider('catalog', {
+        success: true,
+        product: sourcedProduct(BARCODE, { name: 'Coke', category: 'beverages' }, 'catalog'),
+      }, false);
+      const food = fakeProvider('openfoodfacts', {
+        success: true,
+        product: sourcedProduct(BARCODE, { name: 'Cola', brand: 'Coca-Cola', ingredients: 'Water' }, 'openfoodfacts'),
+      });
+      const service = fakeProvider('http', {
+        success: true,
+        product: sourcedProduct(BARCODE, { brand: 'Coke Co', imageUrl: 'https://images.example/coke.jpg' }, 'http'),
+      });
+
+      const result = await lookupProduct(BARCODE, [catalog, food, service]);
+
+      expect(result.success).toBe(true);
+      expect(result.product).toMatchObject({
+        barcode: BARCODE,
+        name: 'Coke',
+        brand: 'Coca-Cola',
+        category: 'beverages',
+        imageUrl: 'https://images.example/coke.jpg',
+        ingredients: 'Water',
+        source: 'catalog',
+        provenance: { name: 'catalog', category: 'catalog', brand: 'openfoodfacts', ingredients: 'openfoodfacts', imageUrl: 'http' },
+      });
+    });
+
+    it('should stop asking once the name, brand, category and image are known', async () => {
+      const food = fakeProvider('openfoodfacts', {
+        success: true,
+        product: sourcedProduct(BARCODE, { name: 'Cola', brand: 'Coca-Cola', category: 'beverages', imageUrl: 'https://images.example/cola.jpg' }, 'openfoodfacts'),
+      });
+      const beauty = fakeProvider('openbeautyfacts', { success: false, error: 'Product not found in Open Beauty Facts' });
+
+      const result = await lookupProduct(BARCODE, [beauty, food, beauty]);
+
+      expect(result.product!.source).toBe('openfoodfacts');
+      expect(beauty.lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let placeholder names or categories shadow later sources', async () => {
+      const food = fakeProvider('openfoodfacts', {
+        success: true,
+        product: sourcedProduct(BARCODE, { brand: 'Acme' }, 'openfoodfacts'),
+      });
+      const pet = fakeProvider('openpetfoodfacts', {
+        success: true,
+        product: sourcedProduct(BARCODE, { name: 'Dog Biscuits', category: 'pet supplies' }, 'openpetfoodfacts'),
+      });
+
+      const result = await lookupProduct(BARCODE, [food, pet]);
+
+      expect(result.product).toMatchObject({ name: 'Dog Biscuits', category: 'pet supplies', brand: 'Acme', source: 'openpetfoodfacts' });
+    });
+
+    it('should report every source\'s error when nothing is found', async () => {
+      const result = await lookupProduct(BARCODE, [
+        fakeProvider('catalog', { success: false, error: 'Product not found in the catalog' }, false),
+        fakeProvider('openfoodfacts', { success: false, error: 'Request timed out' }),
+      ]);
+
+      expect(result).toEqual({ success: false, cached: false, error: 'Product not found in the catalog; Request timed out' });
+    });
+
+    it('should be rate limited when a source that couldn\'t be asked might have the product', async () => {
+      const result = await lookupProduct(BARCODE, [
+        fakeProvider('openfoodfacts', { success: false, rateLimited: true, retryAfter: 90, error: 'Rate limit exceeded. Please try again later.' }),
+        fakeProvider('openbeautyfacts', { success: false, rateLimited: true, retryAfter: 30 }),
+        fakeProvider('openpetfoodfacts', { success: false, error: 'Product not found in Open Pet Food Facts' }),
+      ]);
+
+      expect(result).toMatchObject({ success: false, rateLimited: true, retryAfter: 30, error: 'Rate limit exceeded. Please try again later.' });
+    });
+  });
+
+  it('should only count remote sources when deciding whether to refresh', () => {
+    const catalog = fakeProvider('catalog', { success: false }, false);
+    const food = fakeProvider('openfoodfacts', { success: false });
+    (food.isAvailable as jest.Mock).mockReturnValue(false);
+
+    expect(productSourcesAvailable([catalog, food])).toBe(false);
+    expect(productSourcesAvailable([catalog])).toBe(true);
+  });
+
+  it('should look user-contributed products up in the catalog', async () => {
+    (getCatalogProduct as jest.Mock)
+      .mockResolvedValueOnce({ barcode: BARCODE, name: 'Coke', category: 'beverages', createdAt: '', updatedAt: '' })
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error('database is locked'));
+    const catalog = new CatalogProductProvider();
+
+    expect((await catalog.lookup(BARCODE)).product).toMatchObject({
+      name: 'Coke',
+      source: 'catalog',
+      provenance: { name: 'catalog', category: 'catalog' },
+    });
+    expect((await catalog.lookup(BARCODE)).error).toBe('Product not found in the catalog');
+    expect(await catalog.lookup(BARCODE)).toEqual({ success: false, cached: false, error: 'Catalog lookup failed' });
+  });
+
+  describe('HttpProductProvider', () => {
+    const requests: http.IncomingMessage[] = [];
+    let server: http.Server;
+    let provider: HttpProductProvider;
+
+    // Stands in for a product service
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        requests.push(req);
+        if (req.url === `/products/${BARCODE}`) {
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+            name: ' Cola ',
+            category: 'Beverages',
+            nutrition: { calories: 42, note: 'per 100ml' },
+            price: 1.99,
+          }));
+        } else if (req.url === '/products/04006381333931') {
+          res.writeHead(502).end();
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      provider = new HttpProductProvider(`http://127.0.0.1:${(server.address() as AddressInfo).port}/products`, 'secret');
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should map the fields the service knows and nothing else', async () => {
+      const result = await provider.lookup(BARCODE);
+
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+      expect(result.product).toEqual({
+        barcode: BARCODE,
+        name: 'Cola',
+        category: 'beverages',
+        nutrition: { calories: 42 },
+        source: 'http',
+        provenance: { name: 'http', category: 'http', nutrition: 'http' },
+        infoLastSynced: expect.any(String),
+      });
+    });
+
+    it('should tell unknown products from failures', async () => {
+      expect(await provider.lookup('00000096385074')).toEqual({
+        success: false,
+        cached: false,
+        error: 'Product not found in the product service',
+      });
+      expect((await provider.lookup('04006381333931')).error).toBe('Failed to fetch: HTTP error 502');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Product Sync Tests
+ * Queueing failed lookups, retries with backoff, giving up, and waiting out
+ * product source rate limits
+ */
+
+jest.mock('../src/db/operations', () => ({
+  enqueueProductSync: jest.fn(),
+  claimProductSyncs: jest.fn(),
+  deferProductSync: jest.fn(),
+  failProductSync: jest.fn(),
+  saveProduct: jest.fn(),
+}));
+
+jest.mock('../src/services/productProviders', () => ({
+  lookupProduct: jest.fn(),
+  productSourcesAvailable: jest.fn(),
+}));
+
+import {
+  enqueueProductSync,
+  claimProductSyncs,
+  deferProductSync,
+  failProductSync,
+  saveProduct,
+} from '../src/db/operations';
+import { lookupProduct, productSourcesAvailable } from '../src/services/productProviders';
+import { ProductSyncWorker, queueProductSync, syncRetryDelay } from '../src/services/productSync';
+
+const BARCODE = '00036000291452';
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+
+describe('Product Sync', () => {
+  let worker: ProductSyncWorker;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    (productSourcesAvailable as jest.Mock).mockReturnValue(true);
+    (claimProductSyncs as jest.Mock).mockResolvedValue([{ barcode: BARCODE, attempts: 0 }]);
+    worker = new ProductSyncWorker({ batchSize: 5, maxAttempts: 3, retryBaseMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should back off exponentially', () => {
+    expect([1, 2, 3, 4].map((attempt) => syncRetryDelay(attempt, 1000))).toEqual([1000, 2000, 4000, 8000]);
+    expect(syncRetryDelay(30, 1000)).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should queue failed lookups, waiting as long as a rate limit asks', async () => {
+    expect(await queueProductSync(BARCODE, { success: false, cached: false, error: 'Request timed out' })).toBe(true);
+    await queueProductSync(BARCODE, { success: false, cached: false, rateLimited: true, retryAfter: 90, error: 'Rate limit exceeded' });
+
+    expect(enqueueProductSync).toHaveBeenNthCalledWith(1, BARCODE, 'Request timed out', '2026-10-18T12:05:00.000Z');
+    expect(enqueueProductSync).toHaveBeenNthCalledWith(2, BARCODE, 'Rate limit exceeded', '2026-10-18T12:01:30.000Z');
+
+    (enqueueProductSync as jest.Mock).mockRejectedValueOnce(new Error('database is locked'));
+    expect(await queueProductSync(BARCODE, { success: false, cached: false })).toBe(false);
+  });
+
+  it('should save products it finds', async () => {
+    const provenance = { name: 'openfoodfacts', category: 'openfoodfacts' };
+    (lookupProduct as jest.Mock).mockResolvedValue({
+      success: true,
+      cached: false,
+      product: { barcode: BARCODE, name: 'Cola', category: 'beverages', source: 'openfoodfacts', provenance, infoLastSynced: '' },
+    });
+
+    await worker.poll();
+
+    expect(claimProductSyncs).toHaveBeenCalledWith(5, expect.any(Number));
+    expect(saveProduct).toHaveBeenCalledWith(expect.objectContaining({ barcode: BARCODE, name: 'Cola', source: 'openfoodfacts', provenance }));
+    expect(failProductSync).not.toHaveBeenCalled();
+  });
+
+  it('should retry failed lookups with backoff and give up after the last attempt', async () => {
+    (lookupProduct as jest.Mock).mockResolvedValue({ success: false, cached: false, error: 'HTTP error 502' });
+    (claimProductSyncs as jest.Mock)
+      .mockResolvedValueOnce([{ barcode: BARCODE, attempts: 1 }])
+      .mockResolvedValueOnce([{ barcode: BARCODE, attempts: 2 }]);
+
+    await worker.poll();
+    await worker.poll();
+
+    expect(failProductSync).toHaveBeenNthCalledWith(1, BARCODE, 'HTTP error 502', '2026-10-18T12:02:00.000Z');
+    expect(failProductSync).toHaveBeenNthCalledWith(2, BARCODE, 'HTTP error 502', undefined);
+  });
+
+  it('should put rate limited lookups off without counting an attempt', async () => {
+    (lookupProduct as jest.Mock).mockResolvedValue({ success: false, cached: false, rateLimited: true, retryAfter: 30 });
+
+    await worker.poll();
+
+    expect(deferProductSync).toHaveBeenCalledWith(BARCODE, '2026-10-18T12:00:30.000Z');
+    expect(failProductSync).not.toHaveBeenCalled();
+  });
+
+  it('should leave the queue alone while the product sources are unavailable', async () => {
+    (productSourcesAvailable as jest.Mock).mockReturnValue(false);
+
+    await worker.poll();
+
+    expect(claimProductSyncs).not.toHaveBeenCalled();
+    expect(lookupProduct).not.toHaveBeenCalled();
+  });
+});
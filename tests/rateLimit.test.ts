@@ -0,0 +1,178 @@
+/**
+ * Rate Limit Tests
+ * Token buckets, tier budgets, stores and the rate limiting middleware
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+jest.mock('../src/services/subscription', () => ({
+  getUserSubscription: jest.fn(),
+}));
+
+import { getUserSubscription } from '../src/services/subscription';
+import {
+  takeTokens,
+  tokenBucket,
+  rateLimitBudget,
+  MemoryRateLimitStore,
+  setRateLimitStore,
+  RateLimitStore,
+} from '../src/services/rateLimit';
+import { rateLimit } from '../src/middleware/rateLimit';
+
+const USER_ID = 'test_user_123456';
+
+describe('Token Buckets', () => {
+  const bucket = { capacity: 3, refillPerSecond: 1 };
+
+  it('should start full and refuse requests once empty', () => {
+    let state = null;
+    const allowed: boolean[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      const taken = takeTokens(state, bucket, 1, 1000);
+      state = taken.state;
+      allowed.push(taken.result.allowed);
+    }
+
+    expect(allowed).toEqual([true, true, true, false]);
+    expect(takeTokens(state, bucket, 1, 1000).result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000, resetMs: 3000 });
+  });
+
+  it('should refill with time, up to capacity', () => {
+    const empty = { tokens: 0, updatedAt: 1000 };
+
+    expect(takeTokens(empty, bucket, 1, 2500).result).toMatchObject({ allowed: true, remaining: 0 });
+    expect(takeTokens(empty, bucket, 1, 60000).result).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('should scale budgets with the tier', () => {
+    expect(rateLimitBudget('receiptScan')).toEqual({ limit: 10, windowSeconds: 60 });
+    expect(rateLimitBudget('receiptScan', 'pro')).toEqual({ limit: 30, windowSeconds: 60 });
+    expect(tokenBucket(rateLimitBudget('receiptScan', 'family'))).toEqual({ capacity: 50, refillPerSecond: 50 / 60 });
+  });
+
+  it('should drop the least recently used buckets beyond the key limit', async () => {
+    const store = new MemoryRateLimitStore(2);
+    const bucket = { capacity: 2, refillPerSecond: 0.001 };
+
+    await store.take('a', bucket);
+    await store.take('b', bucket);
+    await store.take('a', bucket);
+    await store.take('c', bucket);
+
+    expect(store.size).toBe(2);
+    // 'a' was used after 'b', so it kept its bucket: this empties it
+    expect((await store.take('a', bucket)).allowed).toBe(false);
+    store.close();
+  });
+
+  it('should drop refilled buckets on a timer, not on every request', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new MemoryRateLimitStore(100, 1000);
+      const fast = { capacity: 1, refillPerSecond: 10 };
+      const slow = { capacity: 1, refillPerSecond: 0.001 };
+
+      await store.take('fast', fast);
+      await store.take('slow', slow);
+      jest.advanceTimersByTime(500);
+      expect(store.size).toBe(2);
+
+      jest.advanceTimersByTime(500);
+      expect(store.size).toBe(1);
+      expect((await store.take('slow', slow)).allowed).toBe(false);
+      store.close();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('Rate Limit Middleware', () => {
+  let app: express.Application;
+  let userId: string | undefined;
+
+  beforeAll(() => {
+    process.env.RATE_LIMIT_ENABLED = 'true';
+  });
+
+  afterAll(() => {
+    process.env.RATE_LIMIT_ENABLED = 'false';
+    setRateLimitStore(null);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    (getUserSubscription as jest.Mock).mockResolvedValue(null);
+    userId = USER_ID;
+
+    app = express();
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      req.userId = userId;
+      next();
+    });
+    app.post('/scan', rateLimit('receiptScan'), (_req, res) => {
+      res.json({ success: true });
+    });
+  });
+
+  it('should send RateLimit headers and refuse requests over the budget', async () => {
+    const responses = [];
+    for (let i = 0; i < 11; i++) {
+      responses.push(await request(app).post('/scan'));
+    }
+
+    expect(responses[0].status).toBe(200);
+    expect(responses[0].headers['ratelimit-policy']).toBe('10;w=60');
+    expect(responses[0].headers['ratelimit-limit']).toBe('10');
+    expect(responses[0].headers['ratelimit-remaining']).toBe('9');
+    expect(responses[9].headers['ratelimit-remaining']).toBe('0');
+
+    const refused = responses[10];
+    expect(refused.status).toBe(429);
+    expect(refused.headers['retry-after']).toBe('6');
+    expect(refused.body.success).toBe(false);
+    expect(refused.body.error).toMatchObject({
+      code: 'RATE_LIMITED',
+      details: { routeClass: 'receiptScan', limit: 10, windowSeconds: 60, retryAfter: 6 },
+    });
+    expect(refused.body.meta.timestamp).toBeDefined();
+  });
+
+  it('should give paid tiers a larger budget', async () => {
+    (getUserSubscription as jest.Mock).mockResolvedValue({ tier: 'pro' });
+
+    const response = await request(app).post('/scan');
+
+    expect(getUserSubscription).toHaveBeenCalledWith(USER_ID);
+    expect(response.headers['ratelimit-limit']).toBe('30');
+  });
+
+  it('should keep separate buckets per user and key signed-out requests by IP', async () => {
+    const take = jest.fn().mockResolvedValue({ allowed: true, remaining: 4, retryAfterMs: 0, resetMs: 12000 });
+    setRateLimitStore({ name: 'spy', take });
+
+    await request(app).post('/scan');
+    userId = undefined;
+    await request(app).post('/scan');
+
+    expect(take.mock.calls.map((call) => call[0])).toEqual([
+      `receiptScan:user:${USER_ID}`,
+      expect.stringMatching(/^receiptScan:ip:/),
+    ]);
+    expect(getUserSubscription).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const broken: RateLimitStore = { name: 'broken', take: jest.fn().mockRejectedValue(new Error('store down')) };
+    setRateLimitStore(broken);
+
+    const response = await request(app).post('/scan');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['ratelimit-limit']).toBeUndefined();
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Receipt Image Tests
+ * Blob stores, thumbnails, moving images out of the database and the
+ * receipt image download routes
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import Sharp from 'sharp';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getSessionById: jest.fn(),
+  getSessionReceipts: jest.fn(),
+  getSessionReceiptById: jest.fn(),
+  listUnmovedSessionReceipts: jest.fn(),
+  getUnmovedSessionReceipt: jest.fn(),
+  moveSessionReceiptImage: jest.fn(),
+}));
+
+// Mock OCR (Tesseract and Sharp are too slow for unit tests)
+jest.mock('../src/services/receiptOcr', () => ({
+  scanReceiptImage: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getSessionById,
+  getSessionReceipts,
+  getSessionReceiptById,
+  listUnmovedSessionReceipts,
+  getUnmovedSessionReceipt,
+  moveSessionReceiptImage,
+} from '../src/db/operations';
+import { FileBlobStore, S3BlobStore, setBlobStore, readBlob } from '../src/services/blobStorage';
+import {
+  saveReceiptImage,
+  readReceiptImage,
+  recordReceiptImage,
+  moveReceiptImagesToBlobStore,
+} from '../src/services/receiptImages';
+import shoppingSessionsRouter from '../src/routes/shoppingSessions';
+import { SessionReceipt } from '../src/models/shoppingSession';
+
+const SESSION_ID = '550e8400-e29b-41d4-a716-446655440000';
+const RECEIPT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function png(width: number, height: number): Promise<Buffer> {
+  return Sharp({ create: { width, height, channels: 3, background: { r: 255, g: 255, b: 255 } } }).png().toBuffer();
+}
+
+let blobDir: string;
+let store: FileBlobStore;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  blobDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pantry-blobs-'));
+  store = new FileBlobStore(blobDir);
+  setBlobStore(store);
+});
+
+afterEach(() => {
+  setBlobStore(null);
+  fs.rmSync(blobDir, { recursive: true, force: true });
+});
+
+describe('Blob Stores', () => {
+  it('should keep files on disk under the root directory', async () => {
+    await store.put('receipts/a/b.png', Buffer.from('image'), 'image/png');
+
+    expect(fs.readFileSync(path.join(blobDir, 'receipts/a/b.png'), 'utf-8')).toBe('image');
+    expect(await readBlob(store, 'receipts/a/b.png')).toEqual(Buffer.from('image'));
+
+    await store.delete('receipts/a/b.png');
+    await store.delete('receipts/a/b.png');
+    expect(await store.get('receipts/a/b.png')).toBeNull();
+    await expect(store.put('../outside.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid blob key');
+  });
+
+  describe('S3BlobStore', () => {
+    const objects = new Map<string, Buffer>();
+    const requests: http.IncomingHttpHeaders[] = [];
+    let server: http.Server;
+    let s3: S3BlobStore;
+
+    // Stands in for MinIO: path-style buckets, objects kept in memory
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+          requests.push(req.headers);
+          const key = decodeURIComponent(req.url!);
+          if (req.method === 'PUT') {
+            objects.set(key, Buffer.concat(chunks));
+            res.writeHead(200).end();
+          } else if (req.method === 'GET' && objects.has(key)) {
+            res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(objects.get(key));
+          } else if (req.method === 'DELETE') {
+            objects.delete(key);
+            res.writeHead(204).end();
+          } else {
+            res.writeHead(404).end('<Error><Code>NoSuchKey</Code></Error>');
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      s3 = new S3BlobStore({
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        region: 'us-east-1',
+        bucket: 'pantry',
+        accessKeyId: 'minioadmin',
+        secretAccessKey: 'minioadmin',
+      });
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should put, stream and delete objects in the bucket with signed requests', async () => {
+      await s3.put('receipts/a b.png', Buffer.from('image'), 'image/png');
+
+      expect(objects.get('/pantry/receipts/a b.png')).toEqual(Buffer.from('image'));
+      expect(requests[0]).toMatchObject({
+        'content-type': 'image/png',
+        'x-amz-content-sha256': sha256(Buffer.from('image')),
+      });
+      expect(requests[0].authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=minioadmin\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+
+      expect(await readBlob(s3, 'receipts/a b.png')).toEqual(Buffer.from('image'));
+      expect(await s3.get('receipts/missing.png')).toBeNull();
+
+      await s3.delete('receipts/a b.png');
+      expect(objects.size).toBe(0);
+    });
+  });
+});
+
+describe('Receipt Images', () => {
+  it('should store the image with its hash, size and a JPEG thumbnail', async () => {
+    const image = await png(1200, 900);
+
+    const stored = await saveReceiptImage(SESSION_ID, image, 'image/png');
+
+    expect(stored).toMatchObject({ contentHash: sha256(image), sizeBytes: image.length, mimeType: 'image/png' });
+    expect(stored.imageKey).toMatch(new RegExp(`^receipts/${SESSION_ID}/[0-9a-f-]+\\.png$`));
+    expect(await readBlob(store, stored.imageKey)).toEqual(image);
+
+    const thumbnail = await Sharp((await readBlob(store, stored.thumbnailKey!))!).metadata();
+    expect(thumbnail).toMatchObject({ format: 'jpeg', width: 320, height: 240 });
+  });
+
+  it('should store images Sharp cannot read without a thumbnail', async () => {
+    const stored = await saveReceiptImage(SESSION_ID, Buffer.from('not an image'), 'image/jpeg');
+
+    expect(stored.thumbnailKey).toBeUndefined();
+    expect(await readBlob(store, stored.imageKey)).toEqual(Buffer.from('not an image'));
+  });
+
+  it('should move images still in the database to blob storage', async () => {
+    (listUnmovedSessionReceipts as jest.Mock)
+      .mockResolvedValueOnce([
+        { id: RECEIPT_ID, sessionId: SESSION_ID, imageData: 'data:image/jpeg;base64,aGVsbG8=', mimeType: 'image/jpeg' },
+      ])
+      .mockResolvedValueOnce([]);
+    (moveSessionReceiptImage as jest.Mock).mockResolvedValue(true);
+
+    const moved = await moveReceiptImagesToBlobStore(10);
+
+    expect(moved).toBe(1);
+    expect(listUnmovedSessionReceipts).toHaveBeenCalledWith(10);
+    const [receiptId, stored] = (moveSessionReceiptImage as jest.Mock).mock.calls[0];
+    expect(receiptId).toBe(RECEIPT_ID);
+    expect(stored).toMatchObject({ contentHash: sha256(Buffer.from('hello')), sizeBytes: 5 });
+    expect(await readBlob(store, stored.imageKey)).toEqual(Buffer.from('hello'));
+  });
+
+  it('should read images not yet moved to blob storage from the database', async () => {
+    (getUnmovedSessionReceipt as jest.Mock).mockResolvedValueOnce({
+      id: RECEIPT_ID, sessionId: SESSION_ID, imageData: 'data:image/jpeg;base64,aGVsbG8=', mimeType: 'image/jpeg',
+    });
+    const receipt = { id: RECEIPT_ID, sessionId: SESSION_ID, mimeType: 'image/jpeg', capturedAt: '', createdAt: '' };
+
+    expect(await readReceiptImage(receipt)).toEqual(Buffer.from('hello'));
+    expect(await readReceiptImage(receipt)).toBeNull();
+    expect(getUnmovedSessionReceipt).toHaveBeenCalledWith(RECEIPT_ID);
+  });
+
+  it('should remove the stored image when its receipt can\'t be recorded', async () => {
+    const stored = await saveReceiptImage(SESSION_ID, await png(64, 64), 'image/png');
+
+    await expect(recordReceiptImage(stored, () => Promise.reject(new Error('Session not found')))).rejects.toThrow('Session not found');
+
+    expect(await store.get(stored.imageKey)).toBeNull();
+    expect(await store.get(stored.thumbnailKey!)).toBeNull();
+    expect(await recordReceiptImage(stored, () => Promise.resolve('recorded'))).toBe('recorded');
+  });
+});
+
+describe('Receipt Image Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/shopping-sessions', shoppingSessionsRouter);
+  });
+
+  async function capturedReceipt(): Promise<{ receipt: SessionReceipt; image: Buffer }> {
+    const image = await png(640, 480);
+    const stored = await saveReceiptImage(SESSION_ID, image, 'image/png');
+    const receipt = {
+      id: RECEIPT_ID,
+      sessionId: SESSION_ID,
+      ...stored,
+      capturedAt: '2026-10-18T10:00:00.000Z',
+      createdAt: '2026-10-18T10:00:00.000Z',
+    };
+    return { receipt, image };
+  }
+
+  it('should list a session\'s receipts', async () => {
+    const { receipt } = await capturedReceipt();
+    (getSessionById as jest.Mock).mockResolvedValue({ id: SESSION_ID });
+    (getSessionReceipts as jest.Mock).mockResolvedValue([receipt]);
+
+    const response = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([receipt]);
+    expect(response.body.meta.count).toBe(1);
+  });
+
+  it('should stream the image and its thumbnail', async () => {
+    const { receipt, image } = await capturedReceipt();
+    (getSessionReceiptById as jest.Mock).mockResolvedValue(receipt);
+
+    const original = await request(app)
+      .get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/image`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    const thumbnail = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/thumbnail`);
+
+    expect(original.status).toBe(200);
+    expect(original.headers).toMatchObject({
+      'content-type': 'image/png',
+      'content-length': String(image.length),
+      etag: `"${sha256(image)}"`,
+    });
+    expect(original.body).toEqual(image);
+    expect(getSessionReceiptById).toHaveBeenCalledWith('test_user_123456', SESSION_ID, RECEIPT_ID);
+    expect(thumbnail.status).toBe(200);
+    expect(thumbnail.headers['content-type']).toBe('image/jpeg');
+  });
+
+  it('should stream images not yet moved to blob storage from the database', async () => {
+    const legacy = { id: RECEIPT_ID, sessionId: SESSION_ID, mimeType: 'image/jpeg', capturedAt: '', createdAt: '' };
+    (getSessionReceiptById as jest.Mock).mockResolvedValue(legacy);
+    (getUnmovedSessionReceipt as jest.Mock).mockResolvedValue({ ...legacy, imageData: 'aGVsbG8=' });
+
+    const original = await request(app)
+      .get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/image`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    const thumbnail = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/thumbnail`);
+
+    expect(original.status).toBe(200);
+    expect(original.headers['content-type']).toBe('image/jpeg');
+    expect(original.body).toEqual(Buffer.from('hello'));
+    expect(thumbnail.status).toBe(404);
+  });
+
+  it('should return 404 for unknown receipts and receipts without a thumbnail', async () => {
+    const { receipt } = await capturedReceipt();
+    (getSessionReceiptById as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce({ ...receipt, thumbnailKey: undefined });
+
+    const unknown = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/image`);
+    const noThumbnail = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts/${RECEIPT_ID}/thumbnail`);
+    const invalid = await request(app).get(`/api/shopping-sessions/${SESSION_ID}/receipts/not-a-uuid/image`);
+
+    expect(unknown.status).toBe(404);
+    expect(noThumbnail.status).toBe(404);
+    expect(noThumbnail.body.error.message).toBe('Receipt has no thumbnail');
+    expect(invalid.status).toBe(400);
+  });
+});
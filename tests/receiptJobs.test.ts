@@ -0,0 +1,298 @@
+/**
+ * Receipt Job Tests
+ * The background scan worker, its retries and the receipt job routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  createReceiptJob: jest.fn(),
+  getReceiptJob: jest.fn(),
+  claimReceiptJobs: jest.fn(),
+  completeReceiptJob: jest.fn(),
+  failReceiptJob: jest.fn(),
+  retryReceiptJob: jest.fn(),
+  saveSessionReceiptHeader: jest.fn(),
+}));
+
+// Mock OCR (Tesseract and Sharp are too slow for unit tests)
+jest.mock('../src/services/receiptOcr', () => ({
+  scanReceiptImage: jest.fn(),
+}));
+
+jest.mock('../src/services/subscription', () => ({
+  canScanReceipt: jest.fn(),
+  reserveReceiptScan: jest.fn(),
+  releaseReceiptScan: jest.fn(),
+  restoreReceiptScan: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+import {
+  createReceiptJob,
+  getReceiptJob,
+  claimReceiptJobs,
+  completeReceiptJob,
+  failReceiptJob,
+  retryReceiptJob,
+  saveSessionReceiptHeader,
+} from '../src/db/operations';
+import { scanReceiptImage, ReceiptScanResult } from '../src/services/receiptOcr';
+import {
+  canScanReceipt,
+  reserveReceiptScan,
+  releaseReceiptScan,
+  restoreReceiptScan,
+} from '../src/services/subscription';
+import { ReceiptJobWorker, retryDelay, queueReceiptHeaderRead, requeueReceiptJob } from '../src/services/receiptJobs';
+import receiptsRouter from '../src/routes/receipts';
+import { ReceiptJob, ClaimedReceiptJob } from '../src/models/receiptJob';
+
+const USER_ID = 'test_user_123456';
+const JOB_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const IMAGE = Buffer.from('receipt image').toString('base64');
+
+const SCAN: ReceiptScanResult = {
+  items: [{ name: 'MILK', quantity: 1, unit: 'units', category: 'dairy', price: 3.49, confidence: 90 }],
+  rawText: 'MILK 3.49',
+  storeProfile: 'generic',
+  confidence: 90,
+  ocrEngine: 'fake',
+  header: {},
+};
+
+function job(overrides: Partial<ReceiptJob> = {}): ReceiptJob {
+  return {
+    id: JOB_ID,
+    userId: USER_ID,
+    status: 'PENDING',
+    attempts: 0,
+    maxAttempts: 3,
+    runAt: '2026-10-18T10:00:00.000Z',
+    createdAt: '2026-10-18T10:00:00.000Z',
+    updatedAt: '2026-10-18T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function claimed(overrides: Partial<ClaimedReceiptJob> = {}): ClaimedReceiptJob {
+  return { ...job({ status: 'PROCESSING', attempts: 1 }), imageData: IMAGE, ...overrides };
+}
+
+describe('Receipt Job Worker', () => {
+  let worker: ReceiptJobWorker;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    worker = new ReceiptJobWorker({ concurrency: 2, retryBaseMs: 1000 });
+  });
+
+  it('should double the retry delay up to ten minutes', () => {
+    expect([1, 2, 3].map((attempt) => retryDelay(attempt, 1000))).toEqual([1000, 2000, 4000]);
+    expect(retryDelay(20, 1000)).toBe(10 * 60 * 1000);
+  });
+
+  it('should complete a scanned job and publish it', async () => {
+    const completed = job({ status: 'SUCCEEDED', attempts: 1, result: SCAN });
+    (scanReceiptImage as jest.Mock).mockResolvedValue(SCAN);
+    (completeReceiptJob as jest.Mock).mockResolvedValue(completed);
+    const listener = jest.fn();
+    worker.on(JOB_ID, listener);
+
+    await worker.run(claimed());
+
+    expect(scanReceiptImage).toHaveBeenCalledWith(IMAGE);
+    expect(completeReceiptJob).toHaveBeenCalledWith(JOB_ID, SCAN);
+    expect(releaseReceiptScan).not.toHaveBeenCalled();
+    expect(saveSessionReceiptHeader).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledWith(completed);
+  });
+
+  it('should save the header of a captured session receipt on it', async () => {
+    const sessionReceipt = { ownerId: USER_ID, sessionId: 'session-1', receiptId: 'receipt-1' };
+    const scan = { ...SCAN, header: { date: '2026-10-02', time: '17:45' } };
+    (scanReceiptImage as jest.Mock).mockResolvedValue(scan);
+    (completeReceiptJob as jest.Mock).mockResolvedValue(job({ status: 'SUCCEEDED', sessionReceipt, result: scan }));
+
+    await worker.run(claimed({ sessionReceipt }));
+
+    expect(saveSessionReceiptHeader).toHaveBeenCalledWith(USER_ID, 'session-1', 'receipt-1', scan.header);
+  });
+
+  it('should retry a failed scan with backoff while attempts remain', async () => {
+    (scanReceiptImage as jest.Mock).mockRejectedValue(new Error('OCR failed: engine down'));
+    (failReceiptJob as jest.Mock).mockResolvedValue(job({ attempts: 2 }));
+    const before = Date.now();
+
+    await worker.run(claimed({ attempts: 2 }));
+
+    const [id, message, retryAt] = (failReceiptJob as jest.Mock).mock.calls[0];
+    expect([id, message]).toEqual([JOB_ID, 'OCR failed: engine down']);
+    expect(Date.parse(retryAt) - before).toBeGreaterThanOrEqual(2000);
+    expect(releaseReceiptScan).not.toHaveBeenCalled();
+  });
+
+  it('should fail a job for good on its last attempt and give its scan back', async () => {
+    (scanReceiptImage as jest.Mock).mockRejectedValue(new Error('OCR failed: engine down'));
+    (failReceiptJob as jest.Mock).mockResolvedValue(job({ status: 'FAILED', attempts: 3 }));
+
+    await worker.run(claimed({ attempts: 3 }));
+
+    expect(failReceiptJob).toHaveBeenCalledWith(JOB_ID, 'OCR failed: engine down', undefined);
+    expect(releaseReceiptScan).toHaveBeenCalledWith(USER_ID, '2026-10-18T10:00:00.000Z');
+  });
+
+  it('should count a requeued job\'s scan in the month it was submitted', async () => {
+    (retryReceiptJob as jest.Mock).mockResolvedValue(job({ createdAt: '2026-08-31T23:30:00.000Z' }));
+
+    await requeueReceiptJob(JOB_ID);
+
+    expect(restoreReceiptScan).toHaveBeenCalledWith(USER_ID, '2026-08-31T23:30:00.000Z');
+  });
+
+  it('should give up on jobs claimed again after every attempt ran out', async () => {
+    (failReceiptJob as jest.Mock).mockResolvedValue(job({ status: 'FAILED', attempts: 4 }));
+
+    await worker.run(claimed({ attempts: 4 }));
+
+    expect(scanReceiptImage).not.toHaveBeenCalled();
+    expect(failReceiptJob).toHaveBeenCalledWith(JOB_ID, 'Scan did not finish', undefined);
+    expect(releaseReceiptScan).toHaveBeenCalledTimes(1);
+  });
+
+  it('should claim only as many jobs as it has free slots', async () => {
+    (claimReceiptJobs as jest.Mock).mockResolvedValue([claimed()]);
+    (scanReceiptImage as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+    await worker.poll();
+    await worker.poll();
+
+    expect((claimReceiptJobs as jest.Mock).mock.calls.map(([limit]) => limit)).toEqual([2, 1]);
+  });
+});
+
+describe('Receipt Header Reads', () => {
+  const sessionReceipt = { ownerId: 'household-1', sessionId: 'session-1', receiptId: 'receipt-1' };
+  const image = Buffer.from('receipt image');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should queue a captured receipt with one of the user\'s scans', async () => {
+    (reserveReceiptScan as jest.Mock).mockResolvedValue({ allowed: true, remaining: 4 });
+    (createReceiptJob as jest.Mock).mockResolvedValue(job({ sessionReceipt }));
+
+    const queued = await queueReceiptHeaderRead(USER_ID, image, sessionReceipt);
+
+    expect(queued!.sessionReceipt).toEqual(sessionReceipt);
+    expect(createReceiptJob).toHaveBeenCalledWith(USER_ID, IMAGE, 3, sessionReceipt);
+  });
+
+  it('should leave the receipt unread when no scans are left or the job can\'t be queued', async () => {
+    (reserveReceiptScan as jest.Mock).mockResolvedValueOnce({ allowed: false, remaining: 0 });
+    expect(await queueReceiptHeaderRead(USER_ID, image, sessionReceipt)).toBeNull();
+    expect(createReceiptJob).not.toHaveBeenCalled();
+
+    (reserveReceiptScan as jest.Mock).mockResolvedValueOnce({ allowed: true, remaining: 4 });
+    (createReceiptJob as jest.Mock).mockRejectedValue(new Error('database is locked'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await queueReceiptHeaderRead(USER_ID, image, sessionReceipt)).toBeNull();
+    expect(releaseReceiptScan).toHaveBeenCalledWith(USER_ID, expect.any(String));
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('Receipt Job Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (canScanReceipt as jest.Mock).mockResolvedValue({ allowed: true, remaining: 5 });
+    (reserveReceiptScan as jest.Mock).mockResolvedValue({ allowed: true, remaining: 4 });
+
+    app = express();
+    app.use(express.json({ limit: '10mb' }));
+    app.use('/api/receipts', receiptsRouter);
+  });
+
+  it('should queue an image and answer 202 with the job', async () => {
+    (createReceiptJob as jest.Mock).mockResolvedValue(job());
+
+    const response = await request(app).post('/api/receipts/jobs').send({ image: IMAGE });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toMatchObject({ id: JOB_ID, status: 'PENDING' });
+    expect(createReceiptJob).toHaveBeenCalledWith(USER_ID, IMAGE, 3, undefined);
+    expect(reserveReceiptScan).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('should queue scans sent to /scan as jobs too', async () => {
+    (createReceiptJob as jest.Mock).mockResolvedValue(job());
+
+    const response = await request(app).post('/api/receipts/scan').send({ image: IMAGE });
+
+    expect(response.status).toBe(202);
+    expect(response.body.data).toMatchObject({ id: JOB_ID, status: 'PENDING' });
+    expect(scanReceiptImage).not.toHaveBeenCalled();
+    expect(canScanReceipt).toHaveBeenCalledWith(USER_ID);
+    expect(reserveReceiptScan).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('should give the scan back when the job can\'t be queued', async () => {
+    (createReceiptJob as jest.Mock).mockRejectedValue(new Error('database is locked'));
+
+    const response = await request(app).post('/api/receipts/jobs').send({ image: IMAGE });
+
+    expect(response.status).toBe(500);
+    expect(releaseReceiptScan).toHaveBeenCalledWith(USER_ID, expect.any(String));
+  });
+
+  it('should reject missing images and users over their scan limit', async () => {
+    const missing = await request(app).post('/api/receipts/jobs').send({});
+
+    (canScanReceipt as jest.Mock).mockResolvedValue({ allowed: false, remaining: 0 });
+    const limited = await request(app).post('/api/receipts/jobs').send({ image: IMAGE });
+
+    expect(missing.status).toBe(400);
+    expect(limited.status).toBe(403);
+    expect(limited.body.error.code).toBe('RECEIPT_SCAN_LIMIT_REACHED');
+    expect(createReceiptJob).not.toHaveBeenCalled();
+  });
+
+  it('should return your own job and 404 for others', async () => {
+    (getReceiptJob as jest.Mock).mockResolvedValueOnce(job({ status: 'SUCCEEDED', result: SCAN })).mockResolvedValueOnce(null);
+
+    const found = await request(app).get(`/api/receipts/jobs/${JOB_ID}`);
+    const missing = await request(app).get(`/api/receipts/jobs/${JOB_ID}`);
+    const invalid = await request(app).get('/api/receipts/jobs/not-a-uuid');
+
+    expect(found.status).toBe(200);
+    expect(found.body.data.result.items).toHaveLength(1);
+    expect(getReceiptJob).toHaveBeenCalledWith(JOB_ID, USER_ID);
+    expect(missing.status).toBe(404);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should stream a finished job as a single event', async () => {
+    (getReceiptJob as jest.Mock).mockResolvedValue(job({ status: 'FAILED', attempts: 3, error: 'OCR failed' }));
+
+    const response = await request(app).get(`/api/receipts/jobs/${JOB_ID}/events`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/text\/event-stream/);
+    expect(response.text).toBe(
+      `event: job\ndata: ${JSON.stringify(job({ status: 'FAILED', attempts: 3, error: 'OCR failed' }))}\n\n`
+    );
+  });
+});
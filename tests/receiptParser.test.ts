@@ -0,0 +1,186 @@
+/**
+ * Receipt Parser Tests
+ * Store profiles, line parsing and the OCR engines behind receipt scans
+ */
+
+import {
+  parseReceiptText,
+  registerStoreProfile,
+  listStoreProfiles,
+  findStoreProfile,
+  purchaseTimestamp,
+} from '../src/services/receiptParser';
+import { HttpOcrEngine, OcrEngine } from '../src/services/ocrEngine';
+import { scanReceiptImage } from '../src/services/receiptOcr';
+
+describe('Receipt Parser', () => {
+  it('should expand Walmart abbreviations and apply coupons to the item above', () => {
+    const parsed = parseReceiptText([
+      'WALMART',
+      'GV WHL MLK 1GAL 078742012345 F 3.48 N',
+      'BANANAS 000000004011 KF 1.39 N',
+      '2.35 lb @ 1 lb /0.59',
+      'COUPON 0.50-',
+      'SUBTOTAL 4.37',
+      'TOTAL 4.37',
+    ].join('\n'));
+
+    expect(parsed).toMatchObject({ store: 'Walmart', storeProfile: 'walmart', total: 4.37 });
+    expect(parsed.items).toEqual([
+      expect.objectContaining({ name: 'Great Value Whole Milk 1GAL', barcode: '078742012345', price: 3.48, category: 'dairy' }),
+      expect.objectContaining({ name: 'BANANAS', barcode: '000000004011', quantity: 2.35, unit: 'lb', price: 0.89, discount: 0.5 }),
+    ]);
+  });
+
+  it('should match Costco discounts to the item number they name', () => {
+    const parsed = parseReceiptText([
+      'COSTCO WHOLESALE',
+      'E 1234567 KS WATER 40PK 4.99 A',
+      '512345 RTSRE CHKN 4.99',
+      'TPD/1234567 1.00-',
+      'ORG BNNS',
+      '3 @ 1.99 5.97',
+      'TOTAL 14.95',
+    ].join('\n'));
+
+    expect(parsed.storeProfile).toBe('costco');
+    expect(parsed.items).toEqual([
+      expect.objectContaining({ name: 'Kirkland Signature WATER 40PK', itemCode: '1234567', price: 3.99, discount: 1 }),
+      expect.objectContaining({ name: 'Rotisserie Chicken', itemCode: '512345', price: 4.99 }),
+      expect.objectContaining({ name: 'Organic Bananas', quantity: 3, price: 5.97 }),
+    ]);
+  });
+
+  it('should join split lines and weights with the generic profile', () => {
+    const parsed = parseReceiptText([
+      'CORNER MARKET',
+      'MILK 3.49',
+      '2 BREAD 5.00',
+      'TOMATOES',
+      '1.50 lb @ 2.00/lb 3.00',
+      'STORE COUPON 0.75',
+      'EGGS 2.99',
+      '0.50 kg @ 4.00/kg',
+      'GRAPES 2.00',
+    ].join('\n'));
+
+    expect(parsed).toMatchObject({ store: 'CORNER MARKET', storeProfile: 'generic' });
+    expect(parsed.items.map(({ name, quantity, unit, price }) => ({ name, quantity, unit, price }))).toEqual([
+      { name: 'MILK', quantity: 1, unit: 'units', price: 3.49 },
+      { name: 'BREAD', quantity: 2, unit: 'units', price: 5 },
+      { name: 'TOMATOES', quantity: 1.5, unit: 'lb', price: 2.25 },
+      { name: 'EGGS', quantity: 1, unit: 'units', price: 2.99 },
+      { name: 'GRAPES', quantity: 0.5, unit: 'kg', price: 2 },
+    ]);
+  });
+
+  it('should read the purchase details into the header', () => {
+    const parsed = parseReceiptText([
+      'CORNER MARKET',
+      '10/02/26 5:45 PM',
+      'MILK 3.49',
+      'BREAD 2.50',
+      'COUPON 0.50-',
+      'SUBTOTAL 5.49',
+      'TAX 1 0.20',
+      'TAX 2 0.13',
+      'TOTAL 5.82',
+      'VISA TEND 5.82',
+      'ACCOUNT # ************4321',
+      'CHANGE DUE 0.00',
+    ].join('\n'));
+
+    expect(parsed.header).toEqual({
+      date: '2026-10-02',
+      time: '17:45',
+      subtotal: 5.49,
+      tax: 0.33,
+      discounts: 0.5,
+      total: 5.82,
+      paymentMethod: 'VISA',
+      cardLast4: '4321',
+      totalMismatch: false,
+    });
+    expect(parsed.items.map((item) => item.name)).toEqual(['MILK', 'BREAD']);
+  });
+
+  it('should flag receipts whose subtotal and tax miss the total', () => {
+    const parsed = parseReceiptText('2026-10-02 09:15\nEGGS 2.99\nSUBTOTAL 2.99\nTOTAL 3.99\nUS DEBIT 3.99');
+
+    expect(parsed.header).toMatchObject({ date: '2026-10-02', time: '09:15', paymentMethod: 'DEBIT', totalMismatch: true });
+    expect(parsed.items).toHaveLength(1);
+    expect(parseReceiptText('13/45/26\nEGGS 2.99').header).toEqual({});
+  });
+
+  it('should keep the purchase time local to the store', () => {
+    expect(purchaseTimestamp({ date: '2026-10-02', time: '17:45' })).toBe('2026-10-02T17:45:00');
+    expect(purchaseTimestamp({ date: '2026-10-02' })).toBe('2026-10-02');
+    expect(purchaseTimestamp({ time: '17:45' })).toBeUndefined();
+  });
+
+  it('should pick up registered store profiles', () => {
+    registerStoreProfile({
+      id: 'corner-market',
+      name: 'Corner Market',
+      storePattern: /corner\s+market/i,
+      abbreviations: { TOM: 'Tomatoes' },
+    });
+
+    const parsed = parseReceiptText('CORNER MARKET\nTOM 3.00');
+
+    expect(listStoreProfiles()).toContain('corner-market');
+    expect(findStoreProfile('Unknown Grocer').id).toBe('generic');
+    expect(parsed).toMatchObject({ store: 'Corner Market', storeProfile: 'corner-market' });
+    expect(parsed.items[0]).toMatchObject({ name: 'Tomatoes', price: 3 });
+  });
+});
+
+describe('OCR Engines', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should scan with the given engine and report it', async () => {
+    const engine: OcrEngine = {
+      name: 'fake',
+      recognize: jest.fn().mockResolvedValue({ text: 'WALMART\nGV MLK 3.48\nTOTAL 3.48', confidence: 87 }),
+    };
+
+    const result = await scanReceiptImage(Buffer.from('image').toString('base64'), engine);
+
+    expect(engine.recognize).toHaveBeenCalledWith(Buffer.from('image'));
+    expect(result).toMatchObject({ storeProfile: 'walmart', total: 3.48, confidence: 87, ocrEngine: 'fake' });
+    expect(result.header.total).toBe(3.48);
+    expect(result.items).toEqual([expect.objectContaining({ name: 'Great Value Milk', confidence: 87 })]);
+  });
+
+  it('should wrap engine failures', async () => {
+    const engine: OcrEngine = { name: 'fake', recognize: jest.fn().mockRejectedValue(new Error('engine down')) };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(scanReceiptImage('aW1hZ2U=', engine)).rejects.toThrow('OCR failed: engine down');
+  });
+
+  it('should post images to the HTTP engine', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ text: 'MILK 3.49', confidence: 91 }), { status: 200 })
+    );
+
+    const result = await new HttpOcrEngine('http://ocr.test/ocr').recognize(Buffer.from('image'));
+
+    expect(result).toEqual({ text: 'MILK 3.49', confidence: 91 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://ocr.test/ocr');
+    expect(JSON.parse(init!.body as string)).toEqual({ image: Buffer.from('image').toString('base64') });
+  });
+
+  it('should reject HTTP engine errors and responses without text', async () => {
+    jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ confidence: 50 }), { status: 200 }));
+    const engine = new HttpOcrEngine('http://ocr.test/ocr');
+
+    await expect(engine.recognize(Buffer.from('image'))).rejects.toThrow('OCR service returned HTTP 503');
+    await expect(engine.recognize(Buffer.from('image'))).rejects.toThrow('OCR service response has no text');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Recipe Tests
+ * Ingredient parsing, schema.org import, pantry matching and the recipe routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getAllItems: jest.fn(),
+  getRecipes: jest.fn(),
+  getRecipeById: jest.fn(),
+  createRecipe: jest.fn(),
+  updateRecipe: jest.fn(),
+  deleteRecipe: jest.fn(),
+  logActivity: jest.fn(),
+  transaction: jest.fn((fn: () => unknown) => Promise.resolve(fn())),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getAllItems,
+  getRecipes,
+  getRecipeById,
+  createRecipe,
+  logActivity,
+  transaction,
+} from '../src/db/operations';
+import recipesRouter from '../src/routes/recipes';
+import {
+  parseIngredientLine,
+  parseSchemaOrgRecipes,
+  namesMatch,
+  matchRecipe,
+  rankRecipes,
+  requiredAmount,
+} from '../src/services/recipe';
+import { PantryItem } from '../src/models/types';
+import { Recipe } from '../src/models/recipe';
+
+const USER_ID = 'test_user_123456';
+const RECIPE_ID = '3f2a1b0c-9d8e-4f7a-8b6c-5d4e3f2a1b0c';
+
+function item(id: string, name: string, quantity: number, unit: string): PantryItem {
+  return { id, userId: USER_ID, name, quantity, unit, category: 'general', lastUpdated: '' };
+}
+
+function recipe(name: string, ingredients: Array<{ name: string; quantity?: number; unit?: string }>, servings?: number): Recipe {
+  return {
+    id: RECIPE_ID,
+    userId: USER_ID,
+    name,
+    servings,
+    ingredients: ingredients.map((line, position) => ({ id: `line-${position}`, recipeId: RECIPE_ID, position, ...line })),
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+const pancakes = recipe('Pancakes', [
+  { name: 'flour', quantity: 200, unit: 'g' },
+  { name: 'eggs', quantity: 2 },
+  { name: 'milk', quantity: 300, unit: 'ml' },
+], 4);
+
+const pantry = [
+  item('flour-id', 'Plain Flour', 1000, 'g'),
+  item('eggs-id', 'Eggs', 6, 'pieces'),
+];
+
+describe('Recipe Service', () => {
+  describe('parseIngredientLine', () => {
+    it('should split quantity, unit and name', () => {
+      expect(parseIngredientLine('2 cups flour')).toEqual({ name: 'flour', quantity: 2, unit: 'cup' });
+      expect(parseIngredientLine('200g butter')).toEqual({ name: 'butter', quantity: 200, unit: 'g' });
+    });
+
+    it('should read fractions', () => {
+      expect(parseIngredientLine('1 1/2 tablespoons sugar').quantity).toBe(1.5);
+      expect(parseIngredientLine('1/2 tsp salt')).toEqual({ name: 'salt', quantity: 0.5, unit: 'tsp' });
+      expect(parseIngredientLine('½ cup milk').quantity).toBe(0.5);
+    });
+
+    it('should drop preparation notes and asides', () => {
+      expect(parseIngredientLine('1 onion, finely diced')).toEqual({ name: 'onion', quantity: 1, unit: undefined });
+      expect(parseIngredientLine('1 (400 g) can tomatoes')).toEqual({ name: 'tomatoes', quantity: 1, unit: 'can' });
+    });
+
+    it('should keep lines without an amount as names', () => {
+      expect(parseIngredientLine('Salt to taste')).toEqual({ name: 'Salt to taste', quantity: undefined, unit: undefined });
+    });
+  });
+
+  describe('parseSchemaOrgRecipes', () => {
+    it('should find recipes in a @graph', () => {
+      const recipes = parseSchemaOrgRecipes({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'WebPage', name: 'Blog' },
+          {
+            '@type': ['Recipe'],
+            name: 'Omelette',
+            recipeYield: ['2', '2 servings'],
+            recipeIngredient: ['3 eggs', '10 g butter'],
+            recipeInstructions: [{ '@type': 'HowToStep', text: 'Whisk' }, { '@type': 'HowToStep', text: 'Fry' }],
+            url: 'https://example.com/omelette',
+          },
+        ],
+      });
+
+      expect(recipes).toEqual([{
+        name: 'Omelette',
+        description: undefined,
+        servings: 2,
+        instructions: 'Whisk\nFry',
+        sourceUrl: 'https://example.com/omelette',
+        ingredients: [
+          { name: 'eggs', quantity: 3, unit: undefined },
+          { name: 'butter', quantity: 10, unit: 'g' },
+        ],
+      }]);
+    });
+
+    it('should skip recipes without ingredients', () => {
+      expect(parseSchemaOrgRecipes({ '@type': 'Recipe', name: 'Air' })).toEqual([]);
+      expect(parseSchemaOrgRecipes('not json-ld')).toEqual([]);
+    });
+  });
+
+  describe('matching', () => {
+    it('should match names by their words, ignoring plurals', () => {
+      expect(namesMatch('flour', 'Plain Flour')).toBe(true);
+      expect(namesMatch('large eggs', 'Egg')).toBe(true);
+      expect(namesMatch('tomatoes', 'Tomato')).toBe(true);
+      expect(namesMatch('milk', 'Oat flour')).toBe(false);
+    });
+
+    it('should list covered and missing ingredients', () => {
+      const match = matchRecipe(pancakes, pantry);
+
+      expect(match.matched.map((line) => line.itemId)).toEqual(['flour-id', 'eggs-id']);
+      expect(match.missing.map((line) => line.name)).toEqual(['milk']);
+      expect(match.coverage).toBeCloseTo(2 / 3);
+    });
+
+    it('should not count items with too little stock', () => {
+      const match = matchRecipe(pancakes, [item('flour-id', 'Flour', 100, 'g')]);
+
+      expect(match.missing.map((line) => line.name)).toContain('flour');
+    });
+
+    it('should compare amounts in the item unit', () => {
+      const match = matchRecipe(pancakes, [item('flour-id', 'Flour', 0.15, 'kg'), item('milk-id', 'Milk', 1, 'l')]);
+
+      expect(match.matched.map((line) => line.itemId)).toEqual(['milk-id']);
+      expect(requiredAmount(pancakes.ingredients[0], item('flour-id', 'Flour', 1, 'kg'))).toBe(0.2);
+    });
+
+    it('should scale quantities', () => {
+      expect(matchRecipe(pancakes, pantry, 4).missing.map((line) => line.name)).toEqual(['eggs', 'milk']);
+    });
+
+    it('should rank by covered ingredients', () => {
+      const toast = recipe('Toast', [{ name: 'bread' }]);
+      const eggs = recipe('Boiled eggs', [{ name: 'eggs', quantity: 2 }]);
+
+      const ranked = rankRecipes([toast, eggs, pancakes], pantry);
+
+      expect(ranked.map((match) => match.recipe.name)).toEqual(['Pancakes', 'Boiled eggs', 'Toast']);
+    });
+  });
+});
+
+describe('Recipe API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/recipes', recipesRouter);
+  });
+
+  describe('GET /api/recipes/matches', () => {
+    it('should rank recipes against the pantry', async () => {
+      (getRecipes as jest.Mock).mockResolvedValue([pancakes]);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+
+      const response = await request(app).get('/api/recipes/matches');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].matchedCount).toBe(2);
+      expect(response.body.data[0].missing[0].name).toBe('milk');
+    });
+
+    it('should filter by maxMissing', async () => {
+      (getRecipes as jest.Mock).mockResolvedValue([pancakes]);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+
+      const response = await request(app).get('/api/recipes/matches?maxMissing=0');
+
+      expect(response.body.data).toEqual([]);
+    });
+  });
+
+  describe('POST /api/recipes', () => {
+    it('should create a recipe', async () => {
+      (createRecipe as jest.Mock).mockResolvedValue(pancakes);
+
+      const response = await request(app)
+        .post('/api/recipes')
+        .send({ name: 'Pancakes', ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }] });
+
+      expect(response.status).toBe(201);
+      expect(createRecipe).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ name: 'Pancakes' }));
+    });
+
+    it('should require ingredients', async () => {
+      const response = await request(app).post('/api/recipes').send({ name: 'Air', ingredients: [] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/recipes/import', () => {
+    it('should import schema.org recipes', async () => {
+      (createRecipe as jest.Mock).mockResolvedValue(pancakes);
+
+      const response = await request(app)
+        .post('/api/recipes/import')
+        .send({ '@type': 'Recipe', name: 'Pancakes', recipeIngredient: ['200 g flour', '2 eggs'] });
+
+      expect(response.status).toBe(201);
+      expect(createRecipe).toHaveBeenCalledWith(USER_ID, expect.objectContaining({
+        ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }, { name: 'eggs', quantity: 2 }],
+      }));
+    });
+
+    it('should return 400 when no recipe is found', async () => {
+      const response = await request(app).post('/api/recipes/import').send({ '@type': 'WebPage' });
+
+      expect(response.status).toBe(400);
+      expect(createRecipe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/recipes/:id/cook', () => {
+    it('should remove every ingredient in one transaction', async () => {
+      const omelette = recipe('Omelette', [{ name: 'eggs', quantity: 2 }, { name: 'flour', quantity: 20, unit: 'g' }], 1);
+      (getRecipeById as jest.Mock).mockResolvedValue(omelette);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+      (logActivity as jest.Mock).mockResolvedValue({ id: 'activity' });
+
+      const response = await request(app).post(`/api/recipes/${RECIPE_ID}/cook`).send({ servings: 2 });
+
+      expect(response.status).toBe(201);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(logActivity).toHaveBeenCalledWith(USER_ID, 'eggs-id', 'REMOVE', 4, 'MANUAL', {
+        reason: 'CONSUMED', performedBy: USER_ID,
+      });
+      expect(logActivity).toHaveBeenCalledWith(USER_ID, 'flour-id', 'REMOVE', 40, 'MANUAL', expect.anything());
+      expect(response.body.data.activities).toHaveLength(2);
+    });
+
+    it('should refuse when ingredients are missing', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(pancakes);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+
+      const response = await request(app).post(`/api/recipes/${RECIPE_ID}/cook`).send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('RECIPE_INGREDIENTS_MISSING');
+      expect(logActivity).not.toHaveBeenCalled();
+    });
+
+    it('should cook the available ingredients with skipMissing', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(pancakes);
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+      (logActivity as jest.Mock).mockResolvedValue({ id: 'activity' });
+
+      const response = await request(app).post(`/api/recipes/${RECIPE_ID}/cook`).send({ skipMissing: true });
+
+      expect(response.status).toBe(201);
+      expect(logActivity).toHaveBeenCalledTimes(2);
+      expect(response.body.data.missing[0].name).toBe('milk');
+    });
+
+    it('should fail the whole cook when an item disappears', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(recipe('Eggs', [{ name: 'eggs', quantity: 2 }]));
+      (getAllItems as jest.Mock).mockResolvedValue(pantry);
+      (logActivity as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).post(`/api/recipes/${RECIPE_ID}/cook`).send({});
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 404 for a missing recipe', async () => {
+      (getRecipeById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).post(`/api/recipes/${RECIPE_ID}/cook`).send({});
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Receipt Reconciliation Tests
+ * Line matching, issue reporting and the reconcile routes
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getSessionById: jest.fn(),
+  getSessionReceipts: jest.fn(),
+  getSessionReceiptById: jest.fn(),
+  captureSessionReceipt: jest.fn(),
+  saveSessionReceiptHeader: jest.fn(),
+  applySessionFixes: jest.fn(),
+}));
+
+// Mock OCR (Tesseract and Sharp are too slow for unit tests)
+jest.mock('../src/services/receiptOcr', () => ({
+  scanReceiptImage: jest.fn(),
+}));
+
+// Mock blob storage
+jest.mock('../src/services/receiptImages', () => ({
+  ...jest.requireActual('../src/services/receiptImages'),
+  saveReceiptImage: jest.fn(),
+  readReceiptImage: jest.fn(),
+}));
+
+// Mock the monthly receipt scan allowance
+jest.mock('../src/services/subscription', () => ({
+  ...jest.requireActual('../src/services/subscription'),
+  canScanReceipt: jest.fn(() => Promise.resolve({ allowed: true, remaining: 5 })),
+  reserveReceiptScan: jest.fn(() => Promise.resolve({ allowed: true, remaining: 4 })),
+  releaseReceiptScan: jest.fn(() => Promise.resolve()),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getSessionById,
+  getSessionReceipts,
+  getSessionReceiptById,
+  captureSessionReceipt,
+  saveSessionReceiptHeader,
+  applySessionFixes,
+} from '../src/db/operations';
+import { scanReceiptImage } from '../src/services/receiptOcr';
+import { saveReceiptImage, readReceiptImage } from '../src/services/receiptImages';
+import { reserveReceiptScan, releaseReceiptScan } from '../src/services/subscription';
+import shoppingSessionsRouter from '../src/routes/shoppingSessions';
+import { matchReceiptLines, reconcileReceipt } from '../src/services/reconciliation';
+import { SessionItem, ShoppingSessionWithItems, SessionReceipt } from '../src/models/shoppingSession';
+
+const USER_ID = 'test_user_123456';
+const SESSION_ID = '550e8400-e29b-41d4-a716-446655440000';
+const RECEIPT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const MILK_ID = '11111111-1111-4111-8111-111111111111';
+const BREAD_ID = '22222222-2222-4222-8222-222222222222';
+const APPLES_ID = '33333333-3333-4333-8333-333333333333';
+
+function sessionItem(overrides: Partial<SessionItem>): SessionItem {
+  return {
+    id: MILK_ID,
+    sessionId: SESSION_ID,
+    name: 'Whole Milk',
+    quantity: 1,
+    price: 3.49,
+    addedAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function session(items: SessionItem[], overrides: Partial<ShoppingSessionWithItems> = {}): ShoppingSessionWithItems {
+  return {
+    id: SESSION_ID,
+    userId: USER_ID,
+    storeName: 'Aldi',
+    startedAt: '2024-01-15T09:30:00.000Z',
+    completedAt: '2024-01-15T10:30:00.000Z',
+    status: 'completed',
+    totalAmount: 0,
+    itemCount: items.length,
+    createdAt: '2024-01-15T09:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z',
+    items,
+    ...overrides,
+  };
+}
+
+const receipt: SessionReceipt = {
+  id: RECEIPT_ID,
+  sessionId: SESSION_ID,
+  imageKey: `receipts/${SESSION_ID}/receipt.jpg`,
+  contentHash: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+  sizeBytes: 5,
+  mimeType: 'image/jpeg',
+  capturedAt: '2024-01-15T10:31:00.000Z',
+  createdAt: '2024-01-15T10:31:00.000Z',
+};
+
+describe('Reconciliation Service', () => {
+  const items = [
+    sessionItem({}),
+    sessionItem({ id: BREAD_ID, name: 'Sourdough Bread', barcode: '00123456789012', price: 4.5 }),
+    sessionItem({ id: APPLES_ID, name: 'Gala Apples', quantity: 2, price: 0.75 }),
+  ];
+
+  it('should pair lines by barcode, by name, and by a weak name with the same amount', () => {
+    const matches = matchReceiptLines(items, [
+      { name: 'SRDGH 800G', barcode: '0123456789012', quantity: 1, price: 4.5 },
+      { name: 'WHOLE MILK 1L', quantity: 1, price: 3.49 },
+      { name: 'GALA', quantity: 1, price: 1.5 },
+      { name: 'CHOCOLATE', quantity: 1, price: 2 },
+    ]);
+
+    expect(matches.map((match) => [match.receiptLine, match.sessionItemId, match.matchedOn])).toEqual([
+      [0, BREAD_ID, 'barcode'],
+      [1, MILK_ID, 'name'],
+      [2, APPLES_ID, 'name'],
+    ]);
+  });
+
+  it('should report mismatched, extra and missing lines with their fixes', () => {
+    const reconciliation = reconcileReceipt(session(items), RECEIPT_ID, [
+      { name: 'Whole Milk', quantity: 1, price: 3.99 },
+      { name: 'Gala Apples', quantity: 2, price: 1.5 },
+      { name: 'BAG FEE', quantity: 1, price: 0.1 },
+      { name: 'THANK YOU FOR SHOPPING', quantity: 1 },
+    ], 5.59);
+
+    expect(reconciliation).toMatchObject({ sessionTotal: 9.49, receiptTotal: 5.59, overcharged: 0.5 });
+    expect(reconciliation.issues.map((issue) => issue.type)).toEqual(['PRICE_MISMATCH', 'EXTRA', 'MISSING']);
+    expect(reconciliation.issues[0]).toMatchObject({
+      expectedAmount: 3.49,
+      chargedAmount: 3.99,
+      fix: { type: 'UPDATE_PRICE', sessionItemId: MILK_ID, price: 3.99 },
+    });
+    expect(reconciliation.issues[1].fix).toEqual({
+      type: 'ADD_ITEM',
+      name: 'BAG FEE',
+      barcode: undefined,
+      quantity: 1,
+      unit: undefined,
+      price: 0.1,
+      category: undefined,
+    });
+    expect(reconciliation.issues[2].fix).toEqual({ type: 'REMOVE_ITEM', sessionItemId: BREAD_ID });
+  });
+
+  it('should charge per unit when fixing the price of several units', () => {
+    const reconciliation = reconcileReceipt(
+      session([sessionItem({ id: APPLES_ID, name: 'Gala Apples', quantity: 3, price: 0.5 })]),
+      RECEIPT_ID,
+      [{ name: 'GALA APPLES', quantity: 1, price: 2 }]
+    );
+
+    expect(reconciliation.receiptTotal).toBe(2);
+    expect(reconciliation.issues[0].fix).toEqual({ type: 'UPDATE_PRICE', sessionItemId: APPLES_ID, price: 0.6667 });
+  });
+});
+
+describe('Shopping Session Reconciliation Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/shopping-sessions', shoppingSessionsRouter);
+  });
+
+  describe('POST /api/shopping-sessions/:id/reconcile', () => {
+    it('should reconcile against the latest captured receipt', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([sessionItem({})]));
+      (getSessionReceipts as jest.Mock).mockResolvedValue([receipt]);
+      (readReceiptImage as jest.Mock).mockResolvedValue(Buffer.from('hello'));
+      (scanReceiptImage as jest.Mock).mockResolvedValue({
+        items: [{ name: 'Whole Milk', quantity: 1, price: 3.99 }],
+        total: 3.99,
+        header: { date: '2026-10-02', total: 3.99 },
+        rawText: 'Whole Milk 3.99',
+        confidence: 87,
+      });
+
+      const response = await request(app).post(`/api/shopping-sessions/${SESSION_ID}/reconcile`);
+
+      expect(response.status).toBe(200);
+      expect(scanReceiptImage).toHaveBeenCalledWith(Buffer.from('hello'));
+      expect(saveSessionReceiptHeader).toHaveBeenCalledWith(USER_ID, SESSION_ID, RECEIPT_ID, { date: '2026-10-02', total: 3.99 });
+      expect(response.body.data).toMatchObject({ receiptId: RECEIPT_ID, overcharged: 0.5, header: { date: '2026-10-02' } });
+      expect(response.body.meta).toMatchObject({ issueCount: 1, ocrConfidence: 87 });
+      expect(reserveReceiptScan).toHaveBeenCalledWith(USER_ID);
+      expect(releaseReceiptScan).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 without reading the receipt once the monthly scans are used up', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([]));
+      (reserveReceiptScan as jest.Mock).mockResolvedValueOnce({ allowed: false, remaining: 0 });
+
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile`)
+        .send({ imageData: 'data:image/png;base64,aGk=', mimeType: 'image/png' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('RECEIPT_SCAN_LIMIT_REACHED');
+      expect(saveReceiptImage).not.toHaveBeenCalled();
+      expect(scanReceiptImage).not.toHaveBeenCalled();
+      expect(releaseReceiptScan).not.toHaveBeenCalled();
+    });
+
+    it('should capture an uploaded receipt before reading it', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([]));
+      const stored = { imageKey: `receipts/${SESSION_ID}/upload.png`, contentHash: 'c8', sizeBytes: 2, mimeType: 'image/png' };
+      (saveReceiptImage as jest.Mock).mockResolvedValue(stored);
+      (captureSessionReceipt as jest.Mock).mockResolvedValue({ ...receipt, ...stored });
+      (readReceiptImage as jest.Mock).mockResolvedValue(Buffer.from('hi'));
+      (scanReceiptImage as jest.Mock).mockResolvedValue({ items: [], header: {}, rawText: '', confidence: 90 });
+
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile`)
+        .send({ imageData: 'data:image/png;base64,aGk=', mimeType: 'image/png' });
+
+      expect(response.status).toBe(200);
+      expect(saveReceiptImage).toHaveBeenCalledWith(SESSION_ID, Buffer.from('hi'), 'image/png');
+      expect(captureSessionReceipt).toHaveBeenCalledWith(USER_ID, SESSION_ID, stored, undefined);
+      expect(scanReceiptImage).toHaveBeenCalledWith(Buffer.from('hi'));
+    });
+
+    it('should return 404 without a receipt and 400 for active sessions', async () => {
+      (getSessionById as jest.Mock).mockResolvedValueOnce(session([])).mockResolvedValueOnce(session([], { status: 'active' }));
+      (getSessionReceiptById as jest.Mock).mockResolvedValue(null);
+
+      const missing = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile`)
+        .send({ receiptId: RECEIPT_ID });
+      const active = await request(app).post(`/api/shopping-sessions/${SESSION_ID}/reconcile`);
+
+      expect(missing.status).toBe(404);
+      expect(active.status).toBe(400);
+      expect(active.body.error.code).toBe('INVALID_STATE');
+      expect(scanReceiptImage).not.toHaveBeenCalled();
+      expect(reserveReceiptScan).toHaveBeenCalledTimes(1);
+      expect(releaseReceiptScan).toHaveBeenCalledWith(USER_ID, expect.any(String));
+    });
+
+    it('should return 400 for a receipt with no image', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([]));
+      (getSessionReceiptById as jest.Mock).mockResolvedValue({ ...receipt, imageKey: undefined });
+      (readReceiptImage as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile`)
+        .send({ receiptId: RECEIPT_ID });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_STATE');
+      expect(scanReceiptImage).not.toHaveBeenCalled();
+    });
+
+    it('should reject a receipt ID together with an image', async () => {
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile`)
+        .send({ receiptId: RECEIPT_ID, imageData: 'aGk=', mimeType: 'image/png' });
+
+      expect(response.status).toBe(400);
+      expect(getSessionById).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 OCR_ERROR when the receipt cannot be read', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([]));
+      (getSessionReceipts as jest.Mock).mockResolvedValue([receipt]);
+      (readReceiptImage as jest.Mock).mockResolvedValue(Buffer.from('hello'));
+      (scanReceiptImage as jest.Mock).mockRejectedValue(new Error('OCR failed: unsupported image'));
+
+      const response = await request(app).post(`/api/shopping-sessions/${SESSION_ID}/reconcile`);
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toMatchObject({ code: 'OCR_ERROR', message: 'OCR failed: unsupported image' });
+      expect(releaseReceiptScan).toHaveBeenCalledWith(USER_ID, expect.any(String));
+    });
+  });
+
+  describe('POST /api/shopping-sessions/:id/reconcile/apply', () => {
+    it('should apply the accepted fixes', async () => {
+      const fixes = [
+        { type: 'UPDATE_PRICE', sessionItemId: MILK_ID, price: 3.99 },
+        { type: 'ADD_ITEM', name: 'Bag Fee', quantity: 1, price: 0.1 },
+      ];
+      (getSessionById as jest.Mock).mockResolvedValue(session([sessionItem({})]));
+      (applySessionFixes as jest.Mock).mockResolvedValue(session([sessionItem({ price: 3.99 })], { totalAmount: 4.09 }));
+
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile/apply`)
+        .send({ fixes });
+
+      expect(response.status).toBe(200);
+      expect(applySessionFixes).toHaveBeenCalledWith(USER_ID, SESSION_ID, fixes);
+      expect(response.body.data.totalAmount).toBe(4.09);
+      expect(response.body.meta.fixesApplied).toBe(2);
+    });
+
+    it('should reject fixes for items outside the session', async () => {
+      (getSessionById as jest.Mock).mockResolvedValue(session([sessionItem({})]));
+
+      const response = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile/apply`)
+        .send({ fixes: [{ type: 'REMOVE_ITEM', sessionItemId: BREAD_ID }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.sessionItemIds).toEqual([BREAD_ID]);
+      expect(applySessionFixes).not.toHaveBeenCalled();
+    });
+
+    it('should validate the fixes', async () => {
+      const empty = await request(app).post(`/api/shopping-sessions/${SESSION_ID}/reconcile/apply`).send({ fixes: [] });
+      const unknown = await request(app)
+        .post(`/api/shopping-sessions/${SESSION_ID}/reconcile/apply`)
+        .send({ fixes: [{ type: 'REFUND', sessionItemId: MILK_ID }] });
+
+      expect(empty.status).toBe(400);
+      expect(unknown.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Reports API Route Tests
+ * Waste report grouping, spending report bucketing and expiring-soon listing
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getWasteEntries: jest.fn(),
+  getSessionSpend: jest.fn(),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import { getWasteEntries, getSessionSpend } from '../src/db/operations';
+import reportsRouter from '../src/routes/reports';
+import { buildWasteReport, startOfMonth, daysBetween } from '../src/services/expiry';
+
+describe('Reports API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/reports', reportsRouter);
+  });
+
+  describe('GET /api/reports/waste', () => {
+    it('should group waste by month and category with estimated loss', async () => {
+      (getWasteEntries as jest.Mock).mockResolvedValue([
+        { itemId: 'a', itemName: 'Milk', category: 'dairy', unit: 'cartons', quantity: 2, date: '2024-01-08', lotId: 'l1', unitPrice: 3.5 },
+        { itemId: 'b', itemName: 'Yogurt', category: 'dairy', unit: 'cups', quantity: 1, date: '2024-01-20', lotId: 'l2', unitPrice: 1.25 },
+        { itemId: 'c', itemName: 'Basil', category: 'produce', unit: 'bunch', quantity: 1, date: '2024-01-21', lotId: 'l3' },
+        { itemId: 'a', itemName: 'Milk', category: 'dairy', unit: 'cartons', quantity: 1, date: '2024-02-02', lotId: 'l4', unitPrice: 3.5 },
+      ]);
+
+      const response = await request(app).get('/api/reports/waste?from=2024-01-01&to=2024-02-29');
+
+      expect(response.status).toBe(200);
+      expect(getWasteEntries).toHaveBeenCalledWith('test_user_123456', '2024-01-01', '2024-02-29');
+
+      const report = response.body.data;
+      expect(report.totalEstimatedLoss).toBe(11.75);
+      expect(report.months.map((m: { month: string }) => m.month)).toEqual(['2024-01', '2024-02']);
+
+      const january = report.months[0];
+      expect(january.estimatedLoss).toBe(8.25);
+      expect(january.categories[0]).toMatchObject({ category: 'dairy', entryCount: 2, estimatedLoss: 8.25 });
+      expect(january.categories[1]).toMatchObject({ category: 'produce', entryCount: 1, estimatedLoss: 0, unpricedCount: 1 });
+    });
+
+    it('should default to the last six months', async () => {
+      (getWasteEntries as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/reports/waste?to=2024-06-15');
+
+      expect(response.status).toBe(200);
+      expect(getWasteEntries).toHaveBeenCalledWith('test_user_123456', '2024-01-01', '2024-06-15');
+      expect(response.body.data.months).toEqual([]);
+    });
+
+    it('should return 400 when from is after to', async () => {
+      const response = await request(app).get('/api/reports/waste?from=2024-03-01&to=2024-02-01');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 500 for database errors', async () => {
+      (getWasteEntries as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+      const response = await request(app).get('/api/reports/waste');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error.code).toBe('INTERNAL_ERROR');
+    });
+  });
+
+  describe('GET /api/reports/spending', () => {
+    const sessions = [
+      {
+        sessionId: 'session-1',
+        storeName: 'Aldi',
+        completedAt: '2024-01-08T10:00:00.000Z',
+        totalAmount: 20,
+        categories: [{ category: 'Dairy', amount: 6 }, { category: 'produce', amount: 4 }],
+      },
+      {
+        sessionId: 'session-2',
+        storeName: 'aldi',
+        completedAt: '2024-01-14T18:00:00.000Z',
+        totalAmount: 5,
+        categories: [{ category: 'dairy', amount: 5 }],
+      },
+      {
+        sessionId: 'session-3',
+        completedAt: '2024-02-02T09:00:00.000Z',
+        totalAmount: 12.5,
+        categories: [],
+      },
+    ];
+
+    it('should bucket spend by month with category and store totals', async () => {
+      (getSessionSpend as jest.Mock).mockResolvedValue(sessions);
+
+      const response = await request(app).get('/api/reports/spending?from=2024-01-01&to=2024-02-29');
+
+      expect(response.status).toBe(200);
+      expect(getSessionSpend).toHaveBeenCalledWith('test_user_123456', '2024-01-01', '2024-02-29');
+
+      const report = response.body.data;
+      expect(report.totalSpent).toBe(37.5);
+      expect(report.byCategory).toEqual([
+        { name: 'uncategorized', amount: 22.5 },
+        { name: 'dairy', amount: 11 },
+        { name: 'produce', amount: 4 },
+      ]);
+      expect(report.byStore).toEqual([{ name: 'Aldi', amount: 25 }, { amount: 12.5 }]);
+      expect(report.buckets.map((b: { period: string; totalSpent: number }) => [b.period, b.totalSpent])).toEqual([
+        ['2024-01', 25],
+        ['2024-02', 12.5],
+      ]);
+      expect(report.buckets[0]).toMatchObject({ start: '2024-01-01', end: '2024-01-31', sessionCount: 2 });
+    });
+
+    it('should bucket by week starting on Monday', async () => {
+      (getSessionSpend as jest.Mock).mockResolvedValue(sessions);
+
+      const response = await request(app).get('/api/reports/spending?from=2024-01-01&to=2024-02-29&period=week');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.buckets.map((b: { period: string; end: string }) => [b.period, b.end])).toEqual([
+        ['2024-01-08', '2024-01-14'],
+        ['2024-01-29', '2024-02-04'],
+      ]);
+    });
+
+    it('should return 400 for invalid periods or ranges', async () => {
+      const period = await request(app).get('/api/reports/spending?period=day');
+      const range = await request(app).get('/api/reports/spending?from=2024-03-01&to=2024-02-01');
+
+      expect(period.status).toBe(400);
+      expect(range.status).toBe(400);
+      expect(getSessionSpend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expiry helpers', () => {
+    it('should compute month starts across year boundaries', () => {
+      expect(startOfMonth('2024-02-15', 3)).toBe('2023-11-01');
+    });
+
+    it('should count days until a date', () => {
+      expect(daysBetween('2024-01-15', '2024-01-17')).toBe(2);
+      expect(daysBetween('2024-01-15', '2024-01-14')).toBe(-1);
+    });
+
+    it('should build an empty report', () => {
+      expect(buildWasteReport([], '2024-01-01', '2024-01-31')).toEqual({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        totalEstimatedLoss: 0,
+        months: [],
+      });
+    });
+  });
+});
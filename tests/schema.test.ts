@@ -11,6 +11,10 @@ import {
   createActivitySchema,
   scanResultSchema,
   paginationSchema,
+  activityQuerySchema,
+  createHouseholdInviteSchema,
+  joinHouseholdSchema,
+  updateHouseholdMemberSchema,
 } from '../src/models/validation';
 
 describe('Validation Schemas', () => {
@@ -528,4 +532,128 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  // ============================================================================
+  // Lot Date Fields
+  // ============================================================================
+  describe('lot date fields', () => {
+    const activity = {
+      itemId: '550e8400-e29b-41d4-a716-446655440000',
+      type: 'ADD',
+      amount: 2,
+    };
+
+    it('should accept purchaseDate and bestBefore on activities', () => {
+      const result = createActivitySchema.safeParse({
+        ...activity,
+        purchaseDate: '2024-01-10',
+        bestBefore: '2024-01-17',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.bestBefore).toBe('2024-01-17');
+      }
+    });
+
+    it('should normalize ISO timestamps to calendar dates', () => {
+      const result = createActivitySchema.safeParse({
+        ...activity,
+        bestBefore: '2024-01-17T00:00:00.000Z',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.bestBefore).toBe('2024-01-17');
+      }
+    });
+
+    it('should reject invalid dates', () => {
+      const result = createActivitySchema.safeParse({ ...activity, bestBefore: 'next tuesday' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept bestBefore on scan results', () => {
+      const result = scanResultSchema.safeParse({ name: 'Milk', quantity: 1, bestBefore: '2024-01-20' });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('activity reasons', () => {
+    const removal = {
+      itemId: '550e8400-e29b-41d4-a716-446655440000',
+      type: 'REMOVE',
+      amount: 1,
+    };
+
+    it('should accept each reason on REMOVE activities', () => {
+      for (const reason of ['CONSUMED', 'EXPIRED', 'SPOILED', 'DONATED', 'INVENTORY_CORRECTION', 'MOVED']) {
+        expect(createActivitySchema.safeParse({ ...removal, reason }).success).toBe(true);
+      }
+    });
+
+    it('should reject unknown reasons', () => {
+      const result = createActivitySchema.safeParse({ ...removal, reason: 'LOST' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject removal-only reasons on ADD activities', () => {
+      const result = createActivitySchema.safeParse({ ...removal, type: 'ADD', reason: 'SPOILED' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should allow inventory corrections on ADD activities', () => {
+      const result = createActivitySchema.safeParse({ ...removal, type: 'ADD', reason: 'INVENTORY_CORRECTION' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should validate the reason filter on activity queries', () => {
+      expect(activityQuerySchema.safeParse({ reason: 'EXPIRED' }).success).toBe(true);
+      expect(activityQuerySchema.safeParse({ reason: 'expired' }).success).toBe(false);
+      expect(activityQuerySchema.safeParse({}).success).toBe(true);
+    });
+  });
+
+  describe('low-stock thresholds', () => {
+    const item = { name: 'Milk', quantity: 2, unit: 'cartons', category: 'dairy' };
+
+    it('should accept minQuantity and targetQuantity', () => {
+      const result = createItemSchema.safeParse({ ...item, minQuantity: 1, targetQuantity: 4 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a target below the minimum', () => {
+      const result = createItemSchema.safeParse({ ...item, minQuantity: 4, targetQuantity: 1 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should allow clearing thresholds with null on update', () => {
+      const result = updateItemSchema.safeParse({ minQuantity: null, targetQuantity: null });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject negative thresholds', () => {
+      const result = updateItemSchema.safeParse({ minQuantity: -1 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('households', () => {
+    it('should default invites to the editor role', () => {
+      const result = createHouseholdInviteSchema.safeParse({ email: 'sam@example.com' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.role).toBe('editor');
+      }
+    });
+
+    it('should reject invalid invite emails and the owner role', () => {
+      expect(createHouseholdInviteSchema.safeParse({ email: 'not-an-email' }).success).toBe(false);
+      expect(createHouseholdInviteSchema.safeParse({ email: 'sam@example.com', role: 'owner' }).success).toBe(false);
+      expect(updateHouseholdMemberSchema.safeParse({ role: 'owner' }).success).toBe(false);
+    });
+
+    it('should require an invite code to join', () => {
+      expect(joinHouseholdSchema.safeParse({ code: 'K7MP4QRX' }).success).toBe(true);
+      expect(joinHouseholdSchema.safeParse({ code: '' }).success).toBe(false);
+    });
+  });
 });
@@ -21,9 +21,30 @@ jest.mock('../src/middleware/auth', () => ({
   }),
 }));
 
+// Mock blob storage (receipt images are written by the receipt images service)
+jest.mock('../src/services/receiptImages', () => ({
+  ...jest.requireActual('../src/services/receiptImages'),
+  saveReceiptImage: jest.fn(),
+}));
+
+// Receipt header reads are queued after a capture
+jest.mock('../src/services/receiptJobs', () => ({
+  queueReceiptHeaderRead: jest.fn(),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
 // Import mocked functions after jest.mock
 import { getDatabase } from '../src/db';
-import { SessionReceipt } from '../src/models/shoppingSession';
+import { saveReceiptImage } from '../src/services/receiptImages';
+import { SessionReceipt, StoredReceiptImage } from '../src/models/shoppingSession';
 
 // Import router after mocking
 import sessionsRouter from '../src/routes/sessions';
@@ -338,11 +359,18 @@ describe('Sessions API Routes', () => {
       items: [],
     };
 
+    const storedImage: StoredReceiptImage = {
+      imageKey: 'receipts/550e8400-e29b-41d4-a716-446655440000/receipt.jpg',
+      thumbnailKey: 'receipts/550e8400-e29b-41d4-a716-446655440000/receipt.thumb.jpg',
+      contentHash: 'ab12',
+      sizeBytes: 24,
+      mimeType: 'image/jpeg',
+    };
+
     const mockReceipt: SessionReceipt = {
       id: '550e8400-e29b-41d4-a716-446655440001',
       sessionId: '550e8400-e29b-41d4-a716-446655440000',
-      imageData: base64Image,
-      mimeType: 'image/jpeg',
+      ...storedImage,
       notes: 'Receipt from aisle 3',
       capturedAt: new Date().toISOString(),
       createdAt: new Date().toISOString(),
@@ -351,6 +379,7 @@ describe('Sessions API Routes', () => {
     it('should capture receipt image', async () => {
       mockDb.getSessionById.mockResolvedValue(mockSession);
       mockDb.captureSessionReceipt.mockResolvedValue(mockReceipt);
+      (saveReceiptImage as jest.Mock).mockResolvedValue(storedImage);
 
       const response = await request(app)
         .post('/api/sessions/550e8400-e29b-41d4-a716-446655440000/capture')
@@ -365,6 +394,18 @@ describe('Sessions API Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.id).toBeDefined();
       expect(response.body.data.mimeType).toBe('image/jpeg');
+      expect(response.body.data.imageKey).toBe(storedImage.imageKey);
+      expect(saveReceiptImage).toHaveBeenCalledWith(
+        '550e8400-e29b-41d4-a716-446655440000',
+        Buffer.from('/9j/4AAQSkZJRgABAQEASABIAAD', 'base64'),
+        'image/jpeg'
+      );
+      expect(mockDb.captureSessionReceipt).toHaveBeenCalledWith(
+        'test_user_123456',
+        '550e8400-e29b-41d4-a716-446655440000',
+        storedImage,
+        'Receipt from aisle 3'
+      );
     });
 
     it('should return 400 for invalid MIME type', async () => {
@@ -416,7 +457,9 @@ describe('Sessions API Routes', () => {
       {
         id: '550e8400-e29b-41d4-a716-446655440001',
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
-        imageData: 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQEASABIAAD',
+        imageKey: 'receipts/550e8400-e29b-41d4-a716-446655440000/main.jpg',
+        contentHash: 'ab12',
+        sizeBytes: 24,
         mimeType: 'image/jpeg',
         notes: 'Main receipt',
         capturedAt: new Date().toISOString(),
@@ -425,7 +468,9 @@ describe('Sessions API Routes', () => {
       {
         id: '550e8400-e29b-41d4-a716-446655440002',
         sessionId: '550e8400-e29b-41d4-a716-446655440000',
-        imageData: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAFo9MY/',
+        imageKey: 'receipts/550e8400-e29b-41d4-a716-446655440000/return.png',
+        contentHash: 'cd34',
+        sizeBytes: 48,
         mimeType: 'image/png',
         notes: 'Return receipt',
         capturedAt: new Date(Date.now() - 3600000).toISOString(),
@@ -10,6 +10,9 @@ process.env.DB_PATH = ':memory:';
 process.env.CLERK_SECRET_KEY = 'test_sk_key';
 process.env.CLERK_ISSUER_URL = 'https://test.clerk.dev';
 process.env.PORT = '3002';
+process.env.STRIPE_SECRET_KEY = 'sk_test_key';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_secret';
+process.env.RATE_LIMIT_ENABLED = 'false';
 
 // Mock console methods for cleaner test output
 global.console = {
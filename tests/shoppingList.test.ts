@@ -0,0 +1,273 @@
+/**
+ * Shopping List API Route Tests
+ * Entry CRUD, check-off and starting a shopping session from the list
+ */
+
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+
+// Mock the database module
+jest.mock('../src/db/operations', () => ({
+  getItemById: jest.fn(),
+  getShoppingList: jest.fn(),
+  addShoppingListItem: jest.fn(),
+  updateShoppingListItem: jest.fn(),
+  deleteShoppingListItem: jest.fn(),
+  deleteShoppingListItems: jest.fn(),
+  createSession: jest.fn(),
+  addSessionItem: jest.fn(),
+  getSessionById: jest.fn(),
+  transaction: jest.fn((fn: () => unknown) => Promise.resolve(fn())),
+}));
+
+// Mock the auth middleware
+jest.mock('../src/middleware/auth', () => ({
+  requireAuth: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.userId = 'test_user_123456';
+    next();
+  }),
+}));
+
+// Mock the household middleware (no household: the user owns their inventory)
+jest.mock('../src/middleware/household', () => ({
+  resolveHousehold: jest.fn((req: Request, _res: Response, next: NextFunction) => {
+    req.ownerId = req.userId;
+    next();
+  }),
+  blockViewerWrites: jest.fn((_req: Request, _res: Response, next: NextFunction) => next()),
+}));
+
+import {
+  getItemById,
+  getShoppingList,
+  addShoppingListItem,
+  updateShoppingListItem,
+  deleteShoppingListItem,
+  deleteShoppingListItems,
+  createSession,
+  addSessionItem,
+  getSessionById,
+  transaction,
+} from '../src/db/operations';
+import shoppingListRouter from '../src/routes/shoppingList';
+
+const USER_ID = 'test_user_123456';
+const ENTRY_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+const ITEM_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ENTRY_ID,
+    userId: USER_ID,
+    name: 'Milk',
+    quantity: 2,
+    unit: 'cartons',
+    category: 'dairy',
+    checked: false,
+    source: 'MANUAL',
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Shopping List API Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/shopping-list', shoppingListRouter);
+  });
+
+  describe('GET /api/shopping-list', () => {
+    it('should list entries', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([entry()]);
+
+      const response = await request(app).get('/api/shopping-list');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(getShoppingList).toHaveBeenCalledWith(USER_ID, undefined);
+    });
+
+    it('should filter by checked state', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([]);
+
+      await request(app).get('/api/shopping-list?checked=true');
+
+      expect(getShoppingList).toHaveBeenCalledWith(USER_ID, true);
+    });
+
+    it('should return 400 for an invalid checked filter', async () => {
+      const response = await request(app).get('/api/shopping-list?checked=maybe');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/shopping-list', () => {
+    it('should add an entry by name', async () => {
+      (addShoppingListItem as jest.Mock).mockResolvedValue(entry({ name: 'Coffee', quantity: 1 }));
+
+      const response = await request(app).post('/api/shopping-list').send({ name: 'Coffee' });
+
+      expect(response.status).toBe(201);
+      expect(addShoppingListItem).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ name: 'Coffee', quantity: 1 }));
+    });
+
+    it('should fill details from the pantry item', async () => {
+      (getItemById as jest.Mock).mockResolvedValue({
+        id: ITEM_ID, userId: USER_ID, name: 'Milk', quantity: 0, unit: 'cartons', category: 'dairy', barcode: '0001', lastUpdated: '',
+      });
+      (addShoppingListItem as jest.Mock).mockResolvedValue(entry({ itemId: ITEM_ID }));
+
+      const response = await request(app).post('/api/shopping-list').send({ itemId: ITEM_ID, quantity: 3 });
+
+      expect(response.status).toBe(201);
+      expect(addShoppingListItem).toHaveBeenCalledWith(USER_ID, {
+        itemId: ITEM_ID, name: 'Milk', quantity: 3, unit: 'cartons', category: 'dairy', barcode: '0001',
+      });
+    });
+
+    it('should return 404 when the pantry item does not exist', async () => {
+      (getItemById as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).post('/api/shopping-list').send({ itemId: ITEM_ID });
+
+      expect(response.status).toBe(404);
+      expect(addShoppingListItem).not.toHaveBeenCalled();
+    });
+
+    it('should require itemId or name', async () => {
+      const response = await request(app).post('/api/shopping-list').send({ quantity: 2 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('PUT /api/shopping-list/:id', () => {
+    it('should update an entry', async () => {
+      (updateShoppingListItem as jest.Mock).mockResolvedValue(entry({ quantity: 4 }));
+
+      const response = await request(app).put(`/api/shopping-list/${ENTRY_ID}`).send({ quantity: 4 });
+
+      expect(response.status).toBe(200);
+      expect(updateShoppingListItem).toHaveBeenCalledWith(USER_ID, ENTRY_ID, { quantity: 4 });
+    });
+
+    it('should reject an empty body', async () => {
+      const response = await request(app).put(`/api/shopping-list/${ENTRY_ID}`).send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a missing entry', async () => {
+      (updateShoppingListItem as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).put(`/api/shopping-list/${ENTRY_ID}`).send({ name: 'Oat milk' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('check-off', () => {
+    it('should check off an entry', async () => {
+      (updateShoppingListItem as jest.Mock).mockResolvedValue(entry({ checked: true }));
+
+      const response = await request(app).post(`/api/shopping-list/${ENTRY_ID}/check`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.checked).toBe(true);
+      expect(updateShoppingListItem).toHaveBeenCalledWith(USER_ID, ENTRY_ID, { checked: true });
+    });
+
+    it('should uncheck an entry', async () => {
+      (updateShoppingListItem as jest.Mock).mockResolvedValue(entry());
+
+      await request(app).post(`/api/shopping-list/${ENTRY_ID}/uncheck`);
+
+      expect(updateShoppingListItem).toHaveBeenCalledWith(USER_ID, ENTRY_ID, { checked: false });
+    });
+
+    it('should return 400 for an invalid ID', async () => {
+      const response = await request(app).post('/api/shopping-list/not-a-uuid/check');
+
+      expect(response.status).toBe(400);
+      expect(updateShoppingListItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/shopping-list/:id', () => {
+    it('should delete an entry', async () => {
+      (deleteShoppingListItem as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app).delete(`/api/shopping-list/${ENTRY_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ deleted: true, id: ENTRY_ID });
+    });
+
+    it('should return 404 for a missing entry', async () => {
+      (deleteShoppingListItem as jest.Mock).mockResolvedValue(false);
+
+      const response = await request(app).delete(`/api/shopping-list/${ENTRY_ID}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/shopping-list/start-session', () => {
+    it('should move checked-off entries into a new session', async () => {
+      const checked = [
+        entry({ checked: true, barcode: '0001' }),
+        entry({ id: 'e2', name: 'Bread', quantity: 1, unit: 'loaf', category: 'bakery', checked: true }),
+      ];
+      (getShoppingList as jest.Mock).mockResolvedValue(checked);
+      (createSession as jest.Mock).mockResolvedValue({ id: 'session-1' });
+      (addSessionItem as jest.Mock).mockResolvedValue({});
+      (deleteShoppingListItems as jest.Mock).mockResolvedValue(2);
+      (getSessionById as jest.Mock).mockResolvedValue({ id: 'session-1', items: [{}, {}] });
+
+      const response = await request(app)
+        .post('/api/shopping-list/start-session')
+        .send({ storeName: 'Corner Shop' });
+
+      expect(response.status).toBe(201);
+      expect(getShoppingList).toHaveBeenCalledWith(USER_ID, true);
+      expect(createSession).toHaveBeenCalledWith(USER_ID, { storeName: 'Corner Shop' });
+      expect(addSessionItem).toHaveBeenCalledTimes(2);
+      expect(addSessionItem).toHaveBeenCalledWith(USER_ID, 'session-1', {
+        barcode: '0001', name: 'Milk', quantity: 2, unit: 'cartons', category: 'dairy',
+      });
+      expect(deleteShoppingListItems).toHaveBeenCalledWith(USER_ID, [ENTRY_ID, 'e2']);
+      expect(response.body.data.items).toHaveLength(2);
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the list alone when an entry can\'t be added to the session', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([entry({ checked: true })]);
+      (createSession as jest.Mock).mockResolvedValue({ id: 'session-1' });
+      (addSessionItem as jest.Mock).mockRejectedValue(new Error('database is locked'));
+
+      const response = await request(app).post('/api/shopping-list/start-session').send({});
+
+      expect(response.status).toBe(500);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(deleteShoppingListItems).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when nothing is checked off', async () => {
+      (getShoppingList as jest.Mock).mockResolvedValue([]);
+
+      const response = await request(app).post('/api/shopping-list/start-session').send({});
+
+      expect(response.status).toBe(400);
+      expect(createSession).not.toHaveBeenCalled();
+    });
+  });
+});
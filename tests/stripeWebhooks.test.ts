@@ -0,0 +1,199 @@
+/**
+ * Stripe Webhook Tests
+ * Exactly-once event processing, out-of-order subscription updates, failures
+ * and replays, and the webhook route
+ */
+
+import request from 'supertest';
+import express from 'express';
+
+// Mock the database modules
+jest.mock('../src/db/operations', () => ({
+  beginStripeWebhookEvent: jest.fn(),
+  claimFailedStripeWebhookEvent: jest.fn(),
+  completeStripeWebhookEvent: jest.fn(),
+  failStripeWebhookEvent: jest.fn(),
+  getStripeWebhookEvent: jest.fn(),
+  hasNewerStripeWebhookEvent: jest.fn(),
+}));
+
+jest.mock('../src/db/admin', () => ({
+  recordTransaction: jest.fn(),
+}));
+
+jest.mock('../src/services/subscription', () => ({
+  getUserSubscription: jest.fn(),
+  updateUserSubscription: jest.fn(),
+  downgradeToFree: jest.fn(),
+}));
+
+import {
+  beginStripeWebhookEvent,
+  claimFailedStripeWebhookEvent,
+  completeStripeWebhookEvent,
+  failStripeWebhookEvent,
+  getStripeWebhookEvent,
+  hasNewerStripeWebhookEvent,
+} from '../src/db/operations';
+import { updateUserSubscription, downgradeToFree } from '../src/services/subscription';
+import { stripe, handleWebhookEvent, replayWebhookEvent } from '../src/services/stripe';
+import webhookRouter from '../src/routes/webhook';
+
+const USER_ID = 'test_user_123456';
+const RECORD_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+function stripeEvent(id: string, type: string, created: number = 1792324800) {
+  return {
+    id,
+    object: 'event',
+    type,
+    created,
+    data: {
+      object: {
+        id: 'sub_1',
+        object: 'subscription',
+        status: 'active',
+        metadata: { userId: USER_ID, tier: 'pro' },
+        items: { data: [{ price: { id: 'price_pro' } }] },
+        current_period_end: 1794916800,
+      },
+    },
+  };
+}
+
+function signed(event: object): { payload: string; signature: string } {
+  const payload = JSON.stringify(event);
+  return { payload, signature: stripe.webhooks.generateTestHeaderString({ payload, secret: process.env.STRIPE_WEBHOOK_SECRET! }) };
+}
+
+describe('Stripe Webhook Processing', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (beginStripeWebhookEvent as jest.Mock).mockImplementation(async (event) => ({ id: RECORD_ID, ...event }));
+    (hasNewerStripeWebhookEvent as jest.Mock).mockResolvedValue(false);
+  });
+
+  it('should record an event before processing it', async () => {
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+
+    const result = await handleWebhookEvent(payload, signature);
+
+    expect(result).toMatchObject({ received: true, status: 'PROCESSED' });
+    expect(beginStripeWebhookEvent).toHaveBeenCalledWith(
+      {
+        stripeEventId: 'evt_1',
+        eventType: 'customer.subscription.updated',
+        objectId: 'sub_1',
+        stripeCreatedAt: '2026-10-18T12:00:00.000Z',
+        payload,
+      },
+      expect.any(Number)
+    );
+    expect(updateUserSubscription).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ tier: 'pro', subscriptionStatus: 'active' }));
+    expect(completeStripeWebhookEvent).toHaveBeenCalledWith(RECORD_ID, 'PROCESSED', USER_ID);
+  });
+
+  it('should not process an event twice', async () => {
+    (beginStripeWebhookEvent as jest.Mock).mockResolvedValue(null);
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.deleted'));
+
+    const result = await handleWebhookEvent(payload, signature);
+
+    expect(result).toMatchObject({ received: true, duplicate: true });
+    expect(downgradeToFree).not.toHaveBeenCalled();
+    expect(completeStripeWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should skip subscription updates older than one already applied', async () => {
+    (hasNewerStripeWebhookEvent as jest.Mock).mockResolvedValue(true);
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+
+    const result = await handleWebhookEvent(payload, signature);
+
+    expect(result.status).toBe('SKIPPED');
+    expect(hasNewerStripeWebhookEvent).toHaveBeenCalledWith(
+      'sub_1',
+      ['customer.subscription.updated', 'customer.subscription.deleted'],
+      '2026-10-18T12:00:00.000Z'
+    );
+    expect(updateUserSubscription).not.toHaveBeenCalled();
+    expect(completeStripeWebhookEvent).toHaveBeenCalledWith(RECORD_ID, 'SKIPPED');
+  });
+
+  it('should store why an event failed', async () => {
+    (updateUserSubscription as jest.Mock).mockRejectedValueOnce(new Error('database is locked'));
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+
+    const result = await handleWebhookEvent(payload, signature);
+
+    expect(result.status).toBe('FAILED');
+    expect(failStripeWebhookEvent).toHaveBeenCalledWith(RECORD_ID, 'database is locked');
+    expect(completeStripeWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should reject events with a bad signature without recording them', async () => {
+    const { payload } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+
+    await expect(handleWebhookEvent(payload, 't=1,v1=forged')).rejects.toThrow('Invalid signature');
+    expect(beginStripeWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('should replay failed events from their stored payload', async () => {
+    const event = stripeEvent('evt_1', 'customer.subscription.deleted');
+    (claimFailedStripeWebhookEvent as jest.Mock).mockResolvedValueOnce({
+      id: RECORD_ID, stripeEventId: 'evt_1', eventType: event.type, payload: JSON.stringify(event),
+    }).mockResolvedValueOnce(null);
+    (getStripeWebhookEvent as jest.Mock).mockResolvedValue({ id: RECORD_ID, status: 'PROCESSED' });
+
+    expect(await replayWebhookEvent(RECORD_ID)).toEqual({ id: RECORD_ID, status: 'PROCESSED' });
+    expect(downgradeToFree).toHaveBeenCalledWith(USER_ID);
+    expect(completeStripeWebhookEvent).toHaveBeenCalledWith(RECORD_ID, 'PROCESSED', USER_ID);
+
+    expect(await replayWebhookEvent(RECORD_ID)).toBeNull();
+  });
+});
+
+describe('Stripe Webhook Route', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (beginStripeWebhookEvent as jest.Mock).mockImplementation(async (event) => ({ id: RECORD_ID, ...event }));
+    (hasNewerStripeWebhookEvent as jest.Mock).mockResolvedValue(false);
+
+    app = express();
+    app.use('/api/webhooks', webhookRouter);
+  });
+
+  it('should acknowledge processed and duplicate events', async () => {
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+    const send = () => request(app)
+      .post('/api/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .set('stripe-signature', signature)
+      .send(payload);
+
+    const first = await send();
+    (beginStripeWebhookEvent as jest.Mock).mockResolvedValue(null);
+    const retry = await send();
+
+    expect(first.status).toBe(200);
+    expect(retry.status).toBe(200);
+    expect(retry.body).toEqual({ received: true });
+    expect(updateUserSubscription).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer 500 when processing fails so Stripe retries', async () => {
+    (updateUserSubscription as jest.Mock).mockRejectedValueOnce(new Error('database is locked'));
+    const { payload, signature } = signed(stripeEvent('evt_1', 'customer.subscription.updated'));
+
+    const response = await request(app)
+      .post('/api/webhooks/stripe')
+      .set('Content-Type', 'application/json')
+      .set('stripe-signature', signature)
+      .send(payload);
+
+    expect(response.status).toBe(500);
+    expect(response.body.received).toBe(false);
+  });
+});
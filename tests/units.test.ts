@@ -0,0 +1,79 @@
+/**
+ * Unit Conversion Tests
+ * Unit registry lookups and conversions between units
+ */
+
+import {
+  convertQuantity,
+  convertToItemUnit,
+  isIncompatibleUnitsError,
+  isKnownUnit,
+  normalizeUnit,
+  IncompatibleUnitsError,
+} from '../src/services/units';
+
+describe('Unit Conversion Service', () => {
+  describe('normalizeUnit', () => {
+    it('should map aliases to canonical units', () => {
+      expect(normalizeUnit('Grams')).toBe('g');
+      expect(normalizeUnit('lbs')).toBe('lb');
+      expect(normalizeUnit('Fluid Ounces')).toBe('fl oz');
+      expect(normalizeUnit('units')).toBe('piece');
+      expect(normalizeUnit('cans')).toBe('can');
+    });
+
+    it('should keep unknown units as lowercase text', () => {
+      expect(normalizeUnit(' Sprigs ')).toBe('sprigs');
+      expect(isKnownUnit('sprigs')).toBe(false);
+      expect(isKnownUnit('Tbsp.')).toBe(true);
+    });
+  });
+
+  describe('convertQuantity', () => {
+    it('should convert within a dimension', () => {
+      expect(convertQuantity(16, 'oz', 'lbs')).toBe(1);
+      expect(convertQuantity(1.5, 'kg', 'grams')).toBe(1500);
+      expect(convertQuantity(3, 'tsp', 'tbsp')).toBe(1);
+      expect(convertQuantity(2, 'dozen', 'pieces')).toBe(24);
+    });
+
+    it('should treat spellings of the same unit as equal', () => {
+      expect(convertQuantity(3, 'Bottles', 'bottle')).toBe(3);
+      expect(convertQuantity(3, 'sprigs', 'Sprigs')).toBe(3);
+    });
+
+    it('should convert mass and volume through a density', () => {
+      expect(convertQuantity(1, 'cup', 'g', 0.53)).toBeCloseTo(125.39, 2);
+      expect(convertQuantity(1030, 'g', 'l', 1.03)).toBe(1);
+    });
+
+    it('should refuse conversions without a common dimension', () => {
+      expect(convertQuantity(1, 'cup', 'g')).toBeNull();
+      expect(convertQuantity(200, 'g', 'pieces', 0.6)).toBeNull();
+      expect(convertQuantity(1, 'can', 'pieces')).toBeNull();
+      expect(convertQuantity(1, 'bunch', 'sprigs')).toBeNull();
+    });
+  });
+
+  describe('convertToItemUnit', () => {
+    it('should throw a clear error for incompatible units', () => {
+      expect(() => convertToItemUnit(2, 'l', { name: 'Eggs', unit: 'pieces' }))
+        .toThrow('Incompatible units: cannot convert l to pieces for Eggs');
+    });
+
+    it('should convert through the item\'s density and raise a typed error without one', () => {
+      expect(convertToItemUnit(2, 'cup', { name: 'Flour', unit: 'g', density: 0.53 })).toBeCloseTo(250.78, 2);
+
+      let caught: unknown;
+      try {
+        convertToItemUnit(2, 'cup', { name: 'Flour', unit: 'g' });
+      } catch (error) {
+        caught = error;
+      }
+      expect(caught).toBeInstanceOf(IncompatibleUnitsError);
+      expect(caught).toMatchObject({ fromUnit: 'cup', toUnit: 'g', itemName: 'Flour' });
+      expect(isIncompatibleUnitsError(caught)).toBe(true);
+      expect(isIncompatibleUnitsError(new Error('Incompatible units: cannot convert cup to g'))).toBe(false);
+    });
+  });
+});